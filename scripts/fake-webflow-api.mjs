@@ -0,0 +1,190 @@
+// Fake Webflow Data API v2 (CMS items) for running the Webflow sync locally
+//
+// Keeps the collections in memory and implements the endpoints lib/webflow.ts uses:
+// collection fields, list/create/update items, publish items and unpublish an item.
+// Like Webflow it rejects a duplicate slug within a collection.
+//
+// Usage:
+//   node scripts/fake-webflow-api.mjs           (port 4010, or FAKE_WEBFLOW_PORT)
+//   WEBFLOW_API_BASE_URL=http://localhost:4010 WEBFLOW_API_TOKEN=fake DATA_STORE=memory npm run dev
+//   curl "http://localhost:3000/api/cron/webflow-sync?scope=catalog"
+//   curl "http://localhost:3000/api/cron/webflow-sync"
+// The second call syncs employers and vacancies flagged with needs_webflow_sync or
+// needs_webflow_archive, e.g. after publishing or depublishing a vacancy in the dashboard.
+//
+// GET /__items returns every stored item per collection id; DELETE /__items empties the store.
+
+import http from 'node:http';
+import { randomBytes } from 'node:crypto';
+
+const port = Number(process.env.FAKE_WEBFLOW_PORT) || 4010;
+
+// Option fields the sync maps by name (lib/webflow-sync.ts getOptionId)
+const OPTION_FIELDS = [
+  { slug: 'categorie', options: ['Bereik', 'Extra zichtbaarheid', 'Snelheid'] },
+  { slug: 'type', options: ['Vacancy package', 'Credit bundle'] },
+];
+
+/** collection id → Map<item id, item> */
+const collections = new Map();
+
+function getItems(collectionId) {
+  if (!collections.has(collectionId)) collections.set(collectionId, new Map());
+  return collections.get(collectionId);
+}
+
+function newId() {
+  return randomBytes(12).toString('hex');
+}
+
+function send(res, status, body) {
+  if (body === undefined) {
+    res.writeHead(status);
+    res.end();
+    return;
+  }
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    let data = '';
+    req.on('data', (chunk) => (data += chunk));
+    req.on('end', () => {
+      try {
+        resolve(data ? JSON.parse(data) : {});
+      } catch (error) {
+        reject(error);
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+function slugTaken(items, slug, exceptId) {
+  return !!slug && Array.from(items.values()).some((item) => item.id !== exceptId && item.fieldData.slug === slug);
+}
+
+function slugConflict(res) {
+  send(res, 400, { message: 'Validation Error', details: ["Unique value is already in database: 'slug'"] });
+}
+
+async function handle(req, res) {
+  const url = new URL(req.url, `http://localhost:${port}`);
+  const parts = url.pathname.split('/').filter(Boolean);
+
+  if (parts[0] === '__items') {
+    if (req.method === 'DELETE') {
+      collections.clear();
+      return send(res, 204);
+    }
+    return send(res, 200, Object.fromEntries(
+      Array.from(collections.entries()).map(([id, items]) => [id, Array.from(items.values())])
+    ));
+  }
+
+  if (req.headers.authorization === undefined || !req.headers.authorization.startsWith('Bearer ')) {
+    return send(res, 401, { message: 'Request not authorized' });
+  }
+
+  if (parts[0] !== 'collections' || !parts[1]) {
+    return send(res, 404, { message: 'Route not found' });
+  }
+  const collectionId = parts[1];
+  const items = getItems(collectionId);
+
+  // GET /collections/:id
+  if (parts.length === 2 && req.method === 'GET') {
+    return send(res, 200, {
+      id: collectionId,
+      fields: OPTION_FIELDS.map((field) => ({
+        id: `field-${field.slug}`,
+        slug: field.slug,
+        displayName: field.slug,
+        type: 'Option',
+        validations: { options: field.options.map((name, index) => ({ id: `option-${field.slug}-${index + 1}`, name })) },
+      })),
+    });
+  }
+
+  // GET /collections/:id/items?limit&offset
+  if (parts.length === 3 && parts[2] === 'items' && req.method === 'GET') {
+    const limit = Number(url.searchParams.get('limit')) || 100;
+    const offset = Number(url.searchParams.get('offset')) || 0;
+    const all = Array.from(items.values());
+    return send(res, 200, { items: all.slice(offset, offset + limit), pagination: { limit, offset, total: all.length } });
+  }
+
+  // POST /collections/:id/items
+  if (parts.length === 3 && parts[2] === 'items' && req.method === 'POST') {
+    const body = await readBody(req);
+    const fieldData = body.fieldData || {};
+    if (slugTaken(items, fieldData.slug)) return slugConflict(res);
+    const now = new Date().toISOString();
+    const item = {
+      id: newId(),
+      isArchived: !!body.isArchived,
+      isDraft: !!body.isDraft,
+      lastPublished: null,
+      lastUpdated: now,
+      createdOn: now,
+      fieldData,
+    };
+    items.set(item.id, item);
+    return send(res, 202, item);
+  }
+
+  // POST /collections/:id/items/publish
+  if (parts.length === 4 && parts[2] === 'items' && parts[3] === 'publish' && req.method === 'POST') {
+    const body = await readBody(req);
+    const now = new Date().toISOString();
+    const publishedItemIds = [];
+    for (const id of body.itemIds || []) {
+      const item = items.get(id);
+      if (!item || item.isArchived) continue;
+      item.lastPublished = now;
+      publishedItemIds.push(id);
+    }
+    return send(res, 202, { publishedItemIds, errors: [] });
+  }
+
+  const item = parts[3] ? items.get(parts[3]) : undefined;
+
+  // PATCH /collections/:id/items/:itemId
+  if (parts.length === 4 && parts[2] === 'items' && req.method === 'PATCH') {
+    if (!item) return send(res, 404, { message: 'Requested resource not found' });
+    const body = await readBody(req);
+    const fieldData = { ...item.fieldData, ...(body.fieldData || {}) };
+    if (slugTaken(items, fieldData.slug, item.id)) return slugConflict(res);
+    Object.assign(item, {
+      fieldData,
+      ...(body.isArchived !== undefined && { isArchived: body.isArchived }),
+      ...(body.isDraft !== undefined && { isDraft: body.isDraft }),
+      lastUpdated: new Date().toISOString(),
+    });
+    return send(res, 200, item);
+  }
+
+  // DELETE /collections/:id/items/:itemId/live
+  if (parts.length === 5 && parts[2] === 'items' && parts[4] === 'live' && req.method === 'DELETE') {
+    if (!item || !item.lastPublished) return send(res, 404, { message: 'Requested resource not found' });
+    item.lastPublished = null;
+    return send(res, 204);
+  }
+
+  return send(res, 404, { message: 'Route not found' });
+}
+
+const server = http.createServer((req, res) => {
+  handle(req, res)
+    .then(() => console.log(`${req.method} ${req.url} → ${res.statusCode}`))
+    .catch((error) => {
+      console.error(`${req.method} ${req.url} failed:`, error.message);
+      if (!res.headersSent) send(res, 400, { message: error.message });
+    });
+});
+
+server.listen(port, () => {
+  console.log(`Fake Webflow API listening on http://localhost:${port}`);
+});
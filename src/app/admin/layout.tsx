@@ -0,0 +1,25 @@
+import { notFound } from "next/navigation"
+import { getAdminSessionEmail } from "@/lib/admin-auth"
+
+/**
+ * Admin area for the CJ team
+ * Only for logged-in users listed in ADMIN_EMAILS (see lib/admin-auth.ts)
+ */
+export default async function AdminLayout({ children }: { children: React.ReactNode }) {
+  const adminEmail = await getAdminSessionEmail()
+  if (!adminEmail) {
+    notFound()
+  }
+
+  return (
+    <div className="min-h-screen">
+      <header className="bg-white/50 px-6 py-4 flex items-center justify-between">
+        <span className="font-bold text-[#1F2D58]">Colourful jobs admin</span>
+        <span className="text-sm text-[#1F2D58]/70">{adminEmail}</span>
+      </header>
+      <main className="w-full max-w-[1400px] mx-auto p-6 mb-10">
+        {children}
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,364 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { AlertTriangle, CheckCircle2, Clock, Inbox, Loader2, Pencil } from "lucide-react"
+import { toast } from "sonner"
+
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Skeleton } from "@/components/ui/skeleton"
+import { Spinner } from "@/components/ui/spinner"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import {
+  Empty,
+  EmptyHeader,
+  EmptyMedia,
+  EmptyTitle,
+  EmptyDescription,
+} from "@/components/ui/empty"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import { VacancyPreview } from "@/components/vacatures/VacancyPreview"
+import { RequestAdjustmentDialog } from "@/components/admin/RequestAdjustmentDialog"
+import { cn } from "@/lib/utils"
+import { getVacancyDisplayTitle } from "@/lib/vacancy-utils"
+import { isInFuture } from "@/lib/vacancy-schedule"
+import { formatSlaRemaining, type ReviewSla } from "@/lib/vacancy-review-queue"
+import type { LookupRecord, ProductRecord, VacancyRecord } from "@/lib/airtable"
+
+interface QueueVacancy {
+  id: string
+  title?: string
+  employer_name: string | null
+  package_name: string | null
+  input_type?: "self_service" | "we_do_it_for_you"
+  high_priority: boolean
+  is_first_vacancy: boolean
+  publish_from: string | null
+  "submitted-at": string | null
+  review_rounds: number
+  sla: ReviewSla
+}
+
+interface VacancyDetail {
+  vacancy: VacancyRecord
+  employer_name: string | null
+  package: ProductRecord | null
+  header_image_url: string | null
+  logo_url: string | null
+  contact_photo_url: string | null
+  review_rounds: number
+}
+
+interface Lookups {
+  educationLevels: LookupRecord[]
+  fields: LookupRecord[]
+  functionTypes: LookupRecord[]
+  regions: LookupRecord[]
+  sectors: LookupRecord[]
+}
+
+// SLA warning threshold: less than 2 hours left
+const SLA_WARNING_MS = 2 * 60 * 60 * 1000
+
+function formatDateTime(date: string | null | undefined): string {
+  if (!date) return ""
+  return new Date(date).toLocaleString("nl-NL", {
+    day: "numeric",
+    month: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+  })
+}
+
+function SlaLabel({ sla, now }: { sla: ReviewSla; now: number }) {
+  if (!sla.deadline) {
+    return <span className="text-xs text-[#1F2D58]/60">Geen SLA</span>
+  }
+
+  const remaining = new Date(sla.deadline).getTime() - now
+  return (
+    <span
+      className={cn(
+        "inline-flex items-center gap-1 text-xs font-bold",
+        remaining < 0 ? "text-[#BC0000]" : remaining < SLA_WARNING_MS ? "text-[#F86600]" : "text-[#1F2D58]/70"
+      )}
+    >
+      <Clock className="h-3.5 w-3.5" />
+      {formatSlaRemaining(remaining)}
+    </span>
+  )
+}
+
+export default function AdminVacaturesPage() {
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [queue, setQueue] = useState<QueueVacancy[]>([])
+  const [lookups, setLookups] = useState<Lookups | null>(null)
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [detail, setDetail] = useState<VacancyDetail | null>(null)
+  const [isLoadingDetail, setIsLoadingDetail] = useState(false)
+  const [approveConfirmOpen, setApproveConfirmOpen] = useState(false)
+  const [isApproving, setIsApproving] = useState(false)
+  const [adjustmentOpen, setAdjustmentOpen] = useState(false)
+  const [now, setNow] = useState(() => Date.now())
+
+  // Set page title
+  useEffect(() => {
+    document.title = "Beoordelen | Colourful jobs"
+  }, [])
+
+  // Keep the SLA countdown current
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 60 * 1000)
+    return () => clearInterval(interval)
+  }, [])
+
+  const fetchQueue = useCallback(async () => {
+    try {
+      const response = await fetch("/api/admin/vacancies")
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to fetch review queue")
+      }
+      setQueue(data.vacancies || [])
+      setError(null)
+    } catch (err) {
+      console.error("Error fetching review queue:", err)
+      setError(err instanceof Error ? err.message : "Er ging iets mis")
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchQueue()
+    fetch("/api/lookups")
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => data && setLookups(data))
+      .catch((err) => console.error("Error fetching lookups:", err))
+  }, [fetchQueue])
+
+  const handleSelect = async (vacancyId: string) => {
+    setSelectedId(vacancyId)
+    setDetail(null)
+    setIsLoadingDetail(true)
+    try {
+      const response = await fetch(`/api/admin/vacancies/${vacancyId}`)
+      const data = await response.json()
+      if (!response.ok) {
+        toast.error("Vacature laden mislukt", { description: data.error || "Er ging iets mis" })
+        return
+      }
+      setDetail(data)
+    } catch {
+      toast.error("Vacature laden mislukt", { description: "Er ging iets mis bij het laden" })
+    } finally {
+      setIsLoadingDetail(false)
+    }
+  }
+
+  // Remove the handled vacancy from the queue and close the preview
+  const handleHandled = (vacancyId: string) => {
+    setQueue((prev) => prev.filter((v) => v.id !== vacancyId))
+    setSelectedId(null)
+    setDetail(null)
+  }
+
+  const handleApprove = async () => {
+    if (!detail) return
+    setIsApproving(true)
+    try {
+      const response = await fetch(`/api/admin/vacancies/${detail.vacancy.id}/approve`, {
+        method: "POST",
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        toast.error("Goedkeuren mislukt", { description: data.error || "Er ging iets mis" })
+        return
+      }
+      toast.success(data.scheduled ? "Vacature ingepland" : "Vacature gepubliceerd", {
+        description: data.scheduled
+          ? `De vacature wordt gepubliceerd op ${formatDateTime(detail.vacancy.publish_from)}.`
+          : "De vacature is goedgekeurd en wordt gepubliceerd.",
+      })
+      setApproveConfirmOpen(false)
+      handleHandled(detail.vacancy.id)
+    } catch {
+      toast.error("Goedkeuren mislukt", { description: "Er ging iets mis bij het goedkeuren" })
+    } finally {
+      setIsApproving(false)
+    }
+  }
+
+  if (error) {
+    return (
+      <Alert className="bg-red-50 border-red-200">
+        <AlertTriangle className="h-4 w-4 text-red-600" />
+        <AlertDescription className="text-red-700">
+          <div className="flex items-center justify-between">
+            <span>Er ging iets mis bij het laden van de wachtrij.</span>
+            <Button variant="secondary" size="sm" onClick={() => window.location.reload()} showArrow={false}>
+              Opnieuw laden
+            </Button>
+          </div>
+        </AlertDescription>
+      </Alert>
+    )
+  }
+
+  const selected = queue.find((v) => v.id === selectedId)
+  const willSchedule = isInFuture(detail?.vacancy.publish_from)
+
+  return (
+    <div className="space-y-6">
+      <h1 className="!text-[1.5rem] sm:!text-[2rem] font-semibold text-[#1F2D58]">
+        Te beoordelen vacatures
+        {!isLoading && <span className="ml-2 text-[#1F2D58]/50">({queue.length})</span>}
+      </h1>
+
+      <div className="grid grid-cols-1 lg:grid-cols-5 gap-6 items-start">
+        {/* Queue */}
+        <div className="lg:col-span-2 space-y-2">
+          {isLoading ? (
+            [1, 2, 3].map((i) => <Skeleton key={i} className="h-20 w-full rounded-[0.75rem]" />)
+          ) : queue.length === 0 ? (
+            <Empty className="bg-white rounded-t-[0.75rem] rounded-b-[2rem]">
+              <EmptyHeader>
+                <EmptyMedia variant="icon">
+                  <Inbox />
+                </EmptyMedia>
+                <EmptyTitle>Geen vacatures te beoordelen</EmptyTitle>
+                <EmptyDescription>Alle ingediende vacatures zijn beoordeeld.</EmptyDescription>
+              </EmptyHeader>
+            </Empty>
+          ) : (
+            queue.map((vacancy) => (
+              <button
+                key={vacancy.id}
+                type="button"
+                onClick={() => handleSelect(vacancy.id)}
+                className={cn(
+                  "w-full text-left rounded-[0.75rem] bg-white px-4 py-3 transition-colors cursor-pointer",
+                  selectedId === vacancy.id ? "ring-2 ring-[#1F2D58]" : "hover:bg-white/70"
+                )}
+              >
+                <div className="flex items-start justify-between gap-2">
+                  <span className="font-bold text-[#1F2D58] truncate">
+                    {getVacancyDisplayTitle(vacancy.title)}
+                  </span>
+                  <SlaLabel sla={vacancy.sla} now={now} />
+                </div>
+                <p className="text-xs text-[#1F2D58]/70 mt-1">
+                  {vacancy.employer_name || "Onbekende werkgever"}
+                  {vacancy.package_name && ` · ${vacancy.package_name}`}
+                  {vacancy["submitted-at"] && ` · ingediend ${formatDateTime(vacancy["submitted-at"])}`}
+                </p>
+                <div className="flex flex-wrap gap-1 mt-2">
+                  {vacancy.high_priority && <Badge variant="warning">Zelfde dag online</Badge>}
+                  {vacancy.is_first_vacancy && <Badge variant="info">Eerste vacature</Badge>}
+                  {vacancy.input_type === "we_do_it_for_you" && <Badge variant="muted">Wij doen het voor je</Badge>}
+                  {vacancy.review_rounds > 0 && (
+                    <Badge variant="attention">Ronde {vacancy.review_rounds + 1}</Badge>
+                  )}
+                  {isInFuture(vacancy.publish_from) && (
+                    <Badge variant="muted">Publicatie {formatDateTime(vacancy.publish_from)}</Badge>
+                  )}
+                </div>
+              </button>
+            ))
+          )}
+        </div>
+
+        {/* Preview and actions */}
+        <div className="lg:col-span-3 space-y-4 lg:sticky lg:top-6">
+          {!selectedId ? (
+            <div className="bg-white/50 rounded-t-[0.75rem] rounded-b-[2rem] p-6 text-sm text-[#1F2D58]/70">
+              Kies een vacature om de preview te bekijken.
+            </div>
+          ) : isLoadingDetail || !detail || !lookups ? (
+            <div className="bg-white rounded-t-[0.75rem] rounded-b-[2rem] p-6 flex justify-center">
+              <Spinner className="w-6 h-6 text-[#1F2D58]" />
+            </div>
+          ) : (
+            <>
+              <div className="bg-white rounded-[0.75rem] px-5 py-4 flex flex-wrap items-center justify-between gap-3">
+                <div className="min-w-0">
+                  <p className="font-bold text-[#1F2D58] truncate">{getVacancyDisplayTitle(detail.vacancy.title || undefined)}</p>
+                  <p className="text-xs text-[#1F2D58]/70">
+                    {detail.employer_name || "Onbekende werkgever"}
+                    {detail.package && ` · ${detail.package.display_name}`}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <Button variant="secondary" onClick={() => setAdjustmentOpen(true)} showArrow={false}>
+                    <Pencil className="h-4 w-4" />
+                    Aanpassing vragen
+                  </Button>
+                  <Button onClick={() => setApproveConfirmOpen(true)} showArrow={false}>
+                    <CheckCircle2 className="h-4 w-4" />
+                    {willSchedule ? "Goedkeuren en inplannen" : "Goedkeuren"}
+                  </Button>
+                </div>
+              </div>
+              <VacancyPreview
+                vacancy={detail.vacancy}
+                selectedPackage={detail.package}
+                selectedUpsells={[]}
+                lookups={lookups}
+                contactPhotoUrl={detail.contact_photo_url || undefined}
+                headerImageUrl={detail.header_image_url || undefined}
+                logoUrl={detail.logo_url || undefined}
+                isReadOnly={true}
+              />
+            </>
+          )}
+        </div>
+      </div>
+
+      {/* Approve confirmation */}
+      <AlertDialog open={approveConfirmOpen} onOpenChange={setApproveConfirmOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Vacature goedkeuren?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {willSchedule
+                ? `De vacature wordt ingepland en op ${formatDateTime(detail?.vacancy.publish_from)} gepubliceerd.`
+                : "De vacature wordt direct gepubliceerd op de website."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isApproving}>Annuleren</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault()
+                handleApprove()
+              }}
+              disabled={isApproving}
+            >
+              {isApproving && <Loader2 className="h-4 w-4 animate-spin" />}
+              Goedkeuren
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {selected && (
+        <RequestAdjustmentDialog
+          open={adjustmentOpen}
+          onOpenChange={setAdjustmentOpen}
+          vacancy={{ id: selected.id, title: getVacancyDisplayTitle(selected.title) }}
+          onRequested={() => handleHandled(selected.id)}
+        />
+      )}
+    </div>
+  )
+}
@@ -1,24 +1,8 @@
 import { authOptions } from "@/lib/auth";
-import {
-  getUserByEmail,
-  getEmployerById,
-  getMediaAssetsByIds,
-  getFAQByEmployerId,
-  getFAQById,
-  getWalletByEmployerId,
-  getWalletForUser,
-  getManagedEmployers,
-  updateUser,
-  updateEmployer,
-  createFAQ,
-  updateFAQ,
-  deleteFAQ,
-  getSectorById,
-  getExpiringCredits,
-  getCreditExpiryWarningDays,
-} from "@/lib/airtable";
+import { repositories } from "@/lib/repositories";
 import { logEvent, getClientIP } from "@/lib/events";
 import { getErrorMessage, isProfileComplete } from "@/lib/utils";
+import { getCreditPolicy } from "@/lib/credits";
 import { NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { z } from "zod";
@@ -121,7 +105,7 @@ export async function GET() {
     }
 
     // Get user data (must be first - we need employer_id)
-    const user = await getUserByEmail(session.user.email);
+    const user = await repositories.users.getByEmail(session.user.email);
 
     if (!user) {
       return NextResponse.json({ error: "User not found" }, { status: 404 });
@@ -141,11 +125,11 @@ export async function GET() {
     };
 
     // Get wallet - handles both employer and intermediary users
-    const wallet = await getWalletForUser(user);
+    const wallet = await repositories.wallets.getForUser(user);
 
     // For intermediaries, add managed employers and active employer
     if (user.role_id === "intermediary") {
-      const managedEmployers = await getManagedEmployers(user.id);
+      const managedEmployers = await repositories.employers.getManagedByUserId(user.id);
       
       response.managed_employers = managedEmployers.map((employer) => ({
         id: employer.id,
@@ -158,7 +142,7 @@ export async function GET() {
 
       // Get active employer data if set
       if (user.active_employer) {
-        const activeEmployer = await getEmployerById(user.active_employer);
+        const activeEmployer = await repositories.employers.getById(user.active_employer);
         if (activeEmployer) {
           response.active_employer = {
             id: activeEmployer.id,
@@ -205,7 +189,7 @@ export async function GET() {
 
     // Get employer data if user has an employer (or intermediary has active employer)
     if (effectiveEmployerId) {
-      const employer = await getEmployerById(effectiveEmployerId);
+      const employer = await repositories.employers.getById(effectiveEmployerId);
 
       if (employer) {
         response.company = {
@@ -247,22 +231,22 @@ export async function GET() {
         ] = await Promise.all([
           // Sector lookup
           employer.sector && employer.sector.length > 0
-            ? getSectorById(employer.sector[0])
+            ? repositories.lookups.getSectorById(employer.sector[0])
             : Promise.resolve(null),
           // Logo media assets
           employer.logo && employer.logo.length > 0
-            ? getMediaAssetsByIds(employer.logo)
+            ? repositories.mediaAssets.getByIds(employer.logo)
             : Promise.resolve([]),
           // Header image media assets
           employer.header_image && employer.header_image.length > 0
-            ? getMediaAssetsByIds(employer.header_image)
+            ? repositories.mediaAssets.getByIds(employer.header_image)
             : Promise.resolve([]),
           // Gallery media assets
           employer.gallery && employer.gallery.length > 0
-            ? getMediaAssetsByIds(employer.gallery)
+            ? repositories.mediaAssets.getByIds(employer.gallery)
             : Promise.resolve([]),
           // FAQ items
-          getFAQByEmployerId(effectiveEmployerId),
+          repositories.faq.getByEmployerId(effectiveEmployerId),
         ]);
 
         // Process sector
@@ -308,10 +292,10 @@ export async function GET() {
         if (user.role_id !== "intermediary") {
           if (wallet) {
             // Get expiry warning days from product settings
-            const warningDays = await getCreditExpiryWarningDays();
+            const warningDays = await repositories.products.getCreditExpiryWarningDays();
             
             // Check for credits expiring soon
-            const expiringCredits = await getExpiringCredits(effectiveEmployerId, warningDays);
+            const expiringCredits = await repositories.wallets.getExpiringCredits(effectiveEmployerId, warningDays);
             
             response.credits = {
               available: wallet.balance,
@@ -333,6 +317,11 @@ export async function GET() {
           }
         }
 
+        // Credit policy of the (active) employer: explains shortages in the vacancy wizard
+        if (response.credits) {
+          response.credits.credit_policy = getCreditPolicy(employer);
+        }
+
         // Check if employer profile is complete (only requires display_name, sector, logo)
         const profileStatus = isProfileComplete({
           display_name: employer.display_name,
@@ -399,7 +388,7 @@ export async function PATCH(request: Request) {
     const clientIP = getClientIP(request);
 
     // Get user from database
-    const user = await getUserByEmail(session.user.email);
+    const user = await repositories.users.getByEmail(session.user.email);
 
     if (!user) {
       return NextResponse.json({ error: "User not found" }, { status: 404 });
@@ -407,7 +396,7 @@ export async function PATCH(request: Request) {
 
     // Handle personal data updates (Users table)
     if (section === "personal") {
-      const updatedUser = await updateUser(user.id, {
+      const updatedUser = await repositories.users.update(user.id, {
         first_name: data.first_name,
         last_name: data.last_name,
       });
@@ -452,7 +441,7 @@ export async function PATCH(request: Request) {
 
     // Handle company data updates (Employers table)
     if (section === "company") {
-      const updatedEmployer = await updateEmployer(effectiveEmployerId, {
+      const updatedEmployer = await repositories.employers.update(effectiveEmployerId, {
         company_name: data.company_name,
         phone: data.phone,
         kvk: data.kvk,
@@ -485,7 +474,7 @@ export async function PATCH(request: Request) {
     if (section === "billing") {
       // For intermediaries, billing is stored on user record; for employers, on employer record
       if (user.role_id === "intermediary") {
-        const updatedUser = await updateUser(user.id, {
+        const updatedUser = await repositories.users.update(user.id, {
           reference_nr: data["reference-nr"],
           invoice_contact_name: data.invoice_contact_name,
           invoice_email: data.invoice_email,
@@ -518,7 +507,7 @@ export async function PATCH(request: Request) {
           },
         });
       } else {
-        const updatedEmployer = await updateEmployer(effectiveEmployerId, {
+        const updatedEmployer = await repositories.employers.update(effectiveEmployerId, {
           "reference-nr": data["reference-nr"],
           invoice_contact_name: data.invoice_contact_name,
           invoice_email: data.invoice_email,
@@ -573,7 +562,7 @@ export async function PATCH(request: Request) {
       if (data.gallery !== undefined) updateData.gallery = data.gallery;
 
       updateData.needs_webflow_sync = true;
-      const updatedEmployer = await updateEmployer(effectiveEmployerId, updateData);
+      const updatedEmployer = await repositories.employers.update(effectiveEmployerId, updateData);
 
       // Log event
       await logEvent({
@@ -606,7 +595,7 @@ export async function PATCH(request: Request) {
 
     // Handle onboarding settings updates (Employers table)
     if (section === "onboarding") {
-      const updatedEmployer = await updateEmployer(effectiveEmployerId, {
+      const updatedEmployer = await repositories.employers.update(effectiveEmployerId, {
         onboarding_dismissed: data.onboarding_dismissed,
       });
 
@@ -638,7 +627,7 @@ export async function PATCH(request: Request) {
       }
 
       if (action === "create") {
-        const newFaq = await createFAQ({
+        const newFaq = await repositories.faq.create({
           employer_id: effectiveEmployerId,
           question: data.question || "",
           answer: data.answer || "",
@@ -672,12 +661,12 @@ export async function PATCH(request: Request) {
           return NextResponse.json({ error: "FAQ id is required for update" }, { status: 400 });
         }
 
-        const existingFaq = await getFAQById(data.id);
+        const existingFaq = await repositories.faq.getById(data.id);
         if (!existingFaq || existingFaq.employer_id !== effectiveEmployerId) {
           return NextResponse.json({ error: "FAQ niet gevonden of geen toegang" }, { status: 403 });
         }
 
-        const updatedFaq = await updateFAQ(data.id, {
+        const updatedFaq = await repositories.faq.update(data.id, {
           question: data.question,
           answer: data.answer,
           order: data.order,
@@ -710,12 +699,12 @@ export async function PATCH(request: Request) {
           return NextResponse.json({ error: "FAQ id is required for delete" }, { status: 400 });
         }
 
-        const existingFaq = await getFAQById(data.id);
+        const existingFaq = await repositories.faq.getById(data.id);
         if (!existingFaq || existingFaq.employer_id !== effectiveEmployerId) {
           return NextResponse.json({ error: "FAQ niet gevonden of geen toegang" }, { status: 403 });
         }
 
-        await deleteFAQ(data.id);
+        await repositories.faq.delete(data.id);
 
         // Note: needs_webflow_sync is NOT set here - it's only set when user clicks "Opslaan" on werkgeversprofiel
 
@@ -739,7 +728,7 @@ export async function PATCH(request: Request) {
 
         // Update the employer's faq linked field with the new order
         // Note: needs_webflow_sync is NOT set here - it's only set when user clicks "Opslaan" on werkgeversprofiel
-        await updateEmployer(effectiveEmployerId, {
+        await repositories.employers.update(effectiveEmployerId, {
           faq: data.faqIds,
         });
 
@@ -762,7 +751,7 @@ export async function PATCH(request: Request) {
         }
 
         // Get current FAQs from database
-        const currentFaqs = await getFAQByEmployerId(effectiveEmployerId);
+        const currentFaqs = await repositories.faq.getByEmployerId(effectiveEmployerId);
         const currentIds = new Set(currentFaqs.map(f => f.id));
         const incomingIds = new Set(
           data.items
@@ -780,7 +769,7 @@ export async function PATCH(request: Request) {
             // Existing item - update if changed
             const current = currentFaqs.find(f => f.id === item.id);
             if (current && (current.question !== item.question || current.answer !== item.answer)) {
-              const updated = await updateFAQ(item.id, { 
+              const updated = await repositories.faq.update(item.id, { 
                 question: item.question, 
                 answer: item.answer 
               });
@@ -801,7 +790,7 @@ export async function PATCH(request: Request) {
             }
           } else {
             // New item - create
-            const created = await createFAQ({
+            const created = await repositories.faq.create({
               employer_id: effectiveEmployerId,
               question: item.question || "",
               answer: item.answer || "",
@@ -819,13 +808,13 @@ export async function PATCH(request: Request) {
         // Delete items that are no longer in the list
         for (const currentId of currentIds) {
           if (!incomingIds.has(currentId)) {
-            await deleteFAQ(currentId);
+            await repositories.faq.delete(currentId);
           }
         }
 
         // Update order on employer record
         // Note: needs_webflow_sync is NOT set here - it's set by the website section save which is called together with FAQ sync
-        await updateEmployer(effectiveEmployerId, {
+        await repositories.employers.update(effectiveEmployerId, {
           faq: results.map(r => r.id),
         });
 
@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from "next/server";
-import { createSession, getUserById } from "@/lib/airtable";
+import { repositories } from "@/lib/repositories";
 import { logEvent } from "@/lib/events";
 import { checkRateLimit, apiRateLimiter, getIdentifier } from "@/lib/rate-limit";
 import { randomUUID } from "crypto";
@@ -64,7 +64,7 @@ export async function GET(request: NextRequest) {
   }
 
   // Validate user exists
-  const user = await getUserById(userId);
+  const user = await repositories.users.getById(userId);
   if (!user) {
     console.warn("[Admin:Impersonate] User not found", { userId });
     return NextResponse.json(
@@ -80,7 +80,7 @@ export async function GET(request: NextRequest) {
     expires.setDate(expires.getDate() + 14);
 
     // Create session in Airtable
-    await createSession(userId, sessionToken, expires);
+    await repositories.sessions.create(userId, sessionToken, expires);
 
     console.log("[Admin:Impersonate] Session created for user", { 
       userId, 
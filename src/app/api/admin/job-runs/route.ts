@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server";
+import { repositories } from "@/lib/repositories";
+import { jobRunRecordSchema } from "@/lib/airtable";
+import { getErrorMessage } from "@/lib/utils";
+import { verifyAdminRequest } from "@/lib/admin-auth";
+
+/**
+ * GET /api/admin/job-runs
+ * Lists recent cron job runs (newest first), e.g. to check the nightly credit expirations.
+ * Query params:
+ * - job: job name, "expire_credits" (default) or "renew_subscriptions"
+ * - limit: number of runs (default 30, max 100)
+ *
+ * Protected by the admin secret (see lib/admin-auth.ts)
+ */
+export async function GET(request: Request) {
+  const authError = await verifyAdminRequest(request, "JobRuns");
+  if (authError) {
+    return authError;
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+
+    const jobResult = jobRunRecordSchema.shape.job.safeParse(searchParams.get("job") || "expire_credits");
+    if (!jobResult.success) {
+      return NextResponse.json({ error: "Onbekende job" }, { status: 400 });
+    }
+
+    const limitParam = Number.parseInt(searchParams.get("limit") || "30", 10);
+    const limit = Number.isNaN(limitParam) ? 30 : Math.min(Math.max(limitParam, 1), 100);
+
+    const runs = await repositories.jobRuns.getRecent(jobResult.data, limit);
+
+    return NextResponse.json({
+      job: jobResult.data,
+      runs: runs.map((run) => ({
+        ...run,
+        errors: run.errors ? run.errors.split("\n") : [],
+        details: run.details ? JSON.parse(run.details) : null,
+      })),
+    });
+  } catch (error: unknown) {
+    console.error("Error fetching job runs:", getErrorMessage(error));
+    return NextResponse.json(
+      { error: "Er ging iets mis bij het ophalen van de job runs" },
+      { status: 500 }
+    );
+  }
+}
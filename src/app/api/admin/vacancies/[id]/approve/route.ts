@@ -0,0 +1,55 @@
+import { NextResponse } from "next/server";
+import { repositories } from "@/lib/repositories";
+import { getErrorMessage } from "@/lib/utils";
+import { verifyAdminRequest } from "@/lib/admin-auth";
+import { isInFuture } from "@/lib/vacancy-schedule";
+import { transitionVacancy } from "@/lib/vacancy-state-machine";
+
+/**
+ * POST /api/admin/vacancies/[id]/approve
+ * Approves a submitted vacancy (CJ team).
+ * - publish_from in the future: status "ingepland" (transition "schedule"),
+ *   the publish-scheduled-vacancies cron publishes it at that moment
+ * - otherwise: published immediately (transition "approve")
+ *
+ * Protected by the admin secret (see lib/admin-auth.ts)
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authError = await verifyAdminRequest(request, "ApproveVacancy");
+  if (authError) {
+    return authError;
+  }
+
+  try {
+    const { id } = await params;
+
+    const vacancy = await repositories.vacancies.getById(id);
+    if (!vacancy) {
+      return NextResponse.json({ error: "Vacature niet gevonden" }, { status: 404 });
+    }
+
+    const transition = isInFuture(vacancy.publish_from) ? "schedule" : "approve";
+    const result = await transitionVacancy(vacancy, transition, {
+      actor: "admin",
+      payload: { publish_from: vacancy.publish_from || null },
+    });
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      scheduled: transition === "schedule",
+      vacancy: result.vacancy,
+    });
+  } catch (error: unknown) {
+    console.error("Error approving vacancy:", getErrorMessage(error));
+    return NextResponse.json(
+      { error: "Er ging iets mis bij het goedkeuren van de vacature" },
+      { status: 500 }
+    );
+  }
+}
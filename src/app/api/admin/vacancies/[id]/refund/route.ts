@@ -0,0 +1,77 @@
+import { NextResponse } from "next/server";
+import { repositories } from "@/lib/repositories";
+import { getErrorMessage } from "@/lib/utils";
+import { logEvent } from "@/lib/events";
+import { verifyAdminRequest } from "@/lib/admin-auth";
+import { refundVacancy } from "@/lib/ledger";
+
+/**
+ * POST /api/admin/vacancies/[id]/refund
+ * Retries the refund of a withdrawn or rejected vacancy (CJ team).
+ * Withdraw and reject keep their status change when the refund fails
+ * (refund_pending: true, event "credits_refund_failed"); this refunds the
+ * spends that are still paid or open. Already refunded spends are skipped.
+ * - Checks vacancy is in "concept" status
+ *
+ * Protected by the admin secret (see lib/admin-auth.ts)
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authError = await verifyAdminRequest(request, "RefundVacancy");
+  if (authError) {
+    return authError;
+  }
+
+  try {
+    const { id } = await params;
+
+    const vacancy = await repositories.vacancies.getById(id);
+    if (!vacancy) {
+      return NextResponse.json({ error: "Vacature niet gevonden" }, { status: 404 });
+    }
+
+    // A submitted or published vacancy still uses its credits
+    if (vacancy.status !== "concept") {
+      return NextResponse.json(
+        { error: "Alleen ingetrokken of afgewezen vacatures (concept) kunnen worden terugbetaald" },
+        { status: 400 }
+      );
+    }
+
+    const refundResult = await refundVacancy(vacancy, {
+      user_id: null,
+      reference_type: "admin",
+    });
+
+    await logEvent({
+      event_type: "credits_refunded",
+      employer_id: vacancy.employer_id || null,
+      vacancy_id: vacancy.id,
+      source: "admin",
+      payload: {
+        reason: "refund_retry",
+        credits_refunded: refundResult.credits_refunded,
+        invoices_voided: refundResult.invoices_voided,
+        refunds: refundResult.refunds.map((r) => ({
+          spend_id: r.spend_id,
+          refund_id: r.refund?.id || null,
+          credits: r.credits_refunded,
+        })),
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      credits_refunded: refundResult.credits_refunded,
+      invoices_voided: refundResult.invoices_voided,
+    });
+  } catch (error: unknown) {
+    console.error("Error refunding vacancy:", getErrorMessage(error));
+    return NextResponse.json(
+      { error: "Er ging iets mis bij het terugbetalen van de vacature" },
+      { status: 500 }
+    );
+  }
+}
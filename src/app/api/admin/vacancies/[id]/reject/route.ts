@@ -0,0 +1,111 @@
+import { NextResponse } from "next/server";
+import { repositories } from "@/lib/repositories";
+import { getErrorMessage } from "@/lib/utils";
+import { logEvent } from "@/lib/events";
+import { verifyAdminRequest } from "@/lib/admin-auth";
+import { refundVacancy } from "@/lib/ledger";
+import { checkVacancyTransition, transitionVacancy } from "@/lib/vacancy-state-machine";
+
+/**
+ * POST /api/admin/vacancies/[id]/reject
+ * Rejects a submitted vacancy (CJ team) and refunds its credits.
+ * Body: { reason?: string }
+ * - Checks vacancy is in "wacht_op_goedkeuring" status
+ * - Sets the vacancy back to "concept" with the rejection_reason (state machine transition "reject")
+ * - Then refunds the spent credits to their original batches and voids open invoices;
+ *   a failed refund is reported with refund_pending: true (the rejection stands)
+ *
+ * Protected by the admin secret (see lib/admin-auth.ts)
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authError = await verifyAdminRequest(request, "RejectVacancy");
+  if (authError) {
+    return authError;
+  }
+
+  try {
+    const { id } = await params;
+
+    const body = await request.json().catch(() => ({}));
+    const reason = typeof body?.reason === "string" ? body.reason.trim() : "";
+
+    const vacancy = await repositories.vacancies.getById(id);
+    if (!vacancy) {
+      return NextResponse.json({ error: "Vacature niet gevonden" }, { status: 404 });
+    }
+
+    const transitionCheck = checkVacancyTransition(vacancy, "reject", "admin");
+    if (!transitionCheck.allowed) {
+      return NextResponse.json({ error: transitionCheck.error }, { status: 400 });
+    }
+
+    const result = await transitionVacancy(vacancy, "reject", {
+      actor: "admin",
+      fields: { rejection_reason: reason || null },
+      payload: { rejection_reason: reason || null },
+    });
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    // Refund only once the vacancy is back in concept: it can no longer be approved for free.
+    // The rejection stands when the refund fails: the failed refund transaction is left
+    // for a retry through POST /api/admin/vacancies/[id]/refund
+    let refundResult: Awaited<ReturnType<typeof refundVacancy>>;
+    try {
+      refundResult = await refundVacancy(vacancy, {
+        user_id: null,
+        reference_type: "admin",
+      });
+    } catch (refundError: unknown) {
+      console.error(`Error refunding rejected vacancy ${vacancy.id}:`, getErrorMessage(refundError));
+      await logEvent({
+        event_type: "credits_refund_failed",
+        employer_id: vacancy.employer_id || null,
+        vacancy_id: vacancy.id,
+        source: "admin",
+        payload: { reason: "rejected", error: getErrorMessage(refundError) },
+      });
+      return NextResponse.json({
+        success: true,
+        vacancy: result.vacancy,
+        refund_pending: true,
+      });
+    }
+
+    await logEvent({
+      event_type: "credits_refunded",
+      employer_id: vacancy.employer_id || null,
+      vacancy_id: vacancy.id,
+      source: "admin",
+      payload: {
+        reason: "rejected",
+        rejection_reason: reason || null,
+        credits_refunded: refundResult.credits_refunded,
+        invoices_voided: refundResult.invoices_voided,
+        refunds: refundResult.refunds.map((r) => ({
+          spend_id: r.spend_id,
+          refund_id: r.refund?.id || null,
+          credits: r.credits_refunded,
+        })),
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      vacancy: result.vacancy,
+      credits_refunded: refundResult.credits_refunded,
+      invoices_voided: refundResult.invoices_voided,
+      refund_pending: false,
+    });
+  } catch (error: unknown) {
+    console.error("Error rejecting vacancy:", getErrorMessage(error));
+    return NextResponse.json(
+      { error: "Er ging iets mis bij het afwijzen van de vacature" },
+      { status: 500 }
+    );
+  }
+}
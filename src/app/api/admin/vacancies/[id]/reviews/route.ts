@@ -0,0 +1,142 @@
+import { NextResponse } from "next/server";
+import { repositories } from "@/lib/repositories";
+import { getErrorMessage } from "@/lib/utils";
+import { verifyAdminRequest } from "@/lib/admin-auth";
+import { checkVacancyTransition, transitionVacancy } from "@/lib/vacancy-state-machine";
+import { createReviewRound, getReviewRound } from "@/lib/vacancy-reviews";
+import { REVIEW_FIELD_LABELS, REVIEW_FIELDS } from "@/lib/vacancy-review-fields";
+import { z } from "zod";
+
+const reviewSchema = z
+  .object({
+    reviewer: z.string().trim().max(100).optional(),
+    summary: z.string().trim().max(5000).optional(),
+    comments: z
+      .array(
+        z.object({
+          field: z.enum(REVIEW_FIELDS),
+          comment: z.string().trim().min(1).max(2000),
+        })
+      )
+      .max(50)
+      .default([]),
+  })
+  .refine((data) => !!data.summary || data.comments.length > 0, {
+    message: "Geef een toelichting of minimaal één opmerking",
+  });
+
+/**
+ * GET /api/admin/vacancies/[id]/reviews
+ * All review rounds of a vacancy, newest first
+ *
+ * Protected by the admin secret (see lib/admin-auth.ts)
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authError = await verifyAdminRequest(request, "VacancyReviews");
+  if (authError) {
+    return authError;
+  }
+
+  try {
+    const { id } = await params;
+
+    const vacancy = await repositories.vacancies.getById(id);
+    if (!vacancy) {
+      return NextResponse.json({ error: "Vacature niet gevonden" }, { status: 404 });
+    }
+
+    const reviews = await repositories.vacancyReviews.getByVacancyId(id);
+
+    return NextResponse.json({
+      rounds: reviews.map((review) => getReviewRound(review, vacancy)),
+      round_count: reviews.length,
+    });
+  } catch (error: unknown) {
+    console.error("Error fetching vacancy reviews:", getErrorMessage(error));
+    return NextResponse.json(
+      { error: "Er ging iets mis bij het ophalen van de beoordelingen" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/vacancies/[id]/reviews
+ * Sends a submitted vacancy back to the employer with per-field feedback (CJ team)
+ * Body: { reviewer?: string, summary?: string, comments: { field, comment }[] }
+ * - Status "needs_adjustment" (state machine transition "request_adjustment");
+ *   rejection_reason gets the summary, or the comments as text
+ * - Then starts the next review round (lib/vacancy-reviews.ts)
+ *
+ * Protected by the admin secret (see lib/admin-auth.ts)
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authError = await verifyAdminRequest(request, "RequestVacancyAdjustment");
+  if (authError) {
+    return authError;
+  }
+
+  try {
+    const { id } = await params;
+
+    const body = await request.json().catch(() => ({}));
+    const parsed = reviewSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message || "Ongeldige invoer" },
+        { status: 400 }
+      );
+    }
+
+    const vacancy = await repositories.vacancies.getById(id);
+    if (!vacancy) {
+      return NextResponse.json({ error: "Vacature niet gevonden" }, { status: 404 });
+    }
+
+    const transitionCheck = checkVacancyTransition(vacancy, "request_adjustment", "admin");
+    if (!transitionCheck.allowed) {
+      return NextResponse.json({ error: transitionCheck.error }, { status: 400 });
+    }
+
+    const { reviewer, summary, comments } = parsed.data;
+    const rejectionReason = summary
+      || comments.map((c) => `${REVIEW_FIELD_LABELS[c.field]}: ${c.comment}`).join("\n");
+
+    const result = await transitionVacancy(vacancy, "request_adjustment", {
+      actor: "admin",
+      fields: { rejection_reason: rejectionReason },
+      payload: {
+        comment_count: comments.length,
+        fields: [...new Set(comments.map((c) => c.field))],
+      },
+    });
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    // Only once the vacancy is sent back: a refused transition leaves no open round behind
+    const review = await createReviewRound(vacancy, {
+      reviewer: reviewer || null,
+      summary: summary || null,
+      comments,
+    });
+
+    return NextResponse.json({
+      success: true,
+      vacancy: result.vacancy,
+      review: getReviewRound(review, result.vacancy),
+    });
+  } catch (error: unknown) {
+    console.error("Error requesting vacancy adjustment:", getErrorMessage(error));
+    return NextResponse.json(
+      { error: "Er ging iets mis bij het terugsturen van de vacature" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,67 @@
+import { NextResponse } from "next/server";
+import { repositories } from "@/lib/repositories";
+import type { MediaAssetRecord } from "@/lib/airtable";
+import { getErrorMessage } from "@/lib/utils";
+import { verifyAdminRequest } from "@/lib/admin-auth";
+import { getReviewSla } from "@/lib/vacancy-review-queue";
+
+function getAssetUrl(asset: MediaAssetRecord | null | undefined): string | null {
+  if (!asset) return null;
+  return asset.cloudinary_url || asset.file?.[0]?.url || null;
+}
+
+/**
+ * GET /api/admin/vacancies/[id]
+ * A vacancy with everything the admin preview needs: package, employer name,
+ * image URLs, SLA and the number of earlier review rounds
+ *
+ * Protected by the admin secret or an admin session (see lib/admin-auth.ts)
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authError = await verifyAdminRequest(request, "ReviewQueueVacancy");
+  if (authError) {
+    return authError;
+  }
+
+  try {
+    const { id } = await params;
+
+    const vacancy = await repositories.vacancies.getById(id);
+    if (!vacancy) {
+      return NextResponse.json({ error: "Vacature niet gevonden" }, { status: 404 });
+    }
+
+    const [employer, selectedPackage, reviews] = await Promise.all([
+      vacancy.employer_id ? repositories.employers.getById(vacancy.employer_id) : null,
+      vacancy.package_id ? repositories.products.getById(vacancy.package_id) : null,
+      repositories.vacancyReviews.getByVacancyId(id),
+    ]);
+
+    // Header falls back to the employer's profile header, like the wizard preview
+    const headerImageId = vacancy.header_image || employer?.header_image?.[0] || null;
+    const logoId = employer?.logo?.[0] || null;
+    const assetIds = [headerImageId, logoId, vacancy.contact_photo_id].filter((assetId): assetId is string => !!assetId);
+    const assets = assetIds.length > 0 ? await repositories.mediaAssets.getByIds(assetIds) : [];
+    const findAsset = (assetId: string | null | undefined) => assets.find((asset) => asset.id === assetId);
+
+    return NextResponse.json({
+      vacancy,
+      employer_name: employer ? employer.display_name || employer.company_name || null : null,
+      package: selectedPackage,
+      header_image_url: getAssetUrl(findAsset(headerImageId)),
+      logo_url: getAssetUrl(findAsset(logoId)),
+      contact_photo_url: getAssetUrl(findAsset(vacancy.contact_photo_id)),
+      review_rounds: reviews.length,
+      sla: getReviewSla(vacancy),
+    });
+  } catch (error: unknown) {
+    console.error("Error fetching vacancy for review:", getErrorMessage(error));
+    return NextResponse.json(
+      { error: "Er ging iets mis bij het ophalen van de vacature" },
+      { status: 500 }
+    );
+  }
+}
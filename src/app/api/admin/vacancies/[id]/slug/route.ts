@@ -0,0 +1,68 @@
+import { NextResponse } from "next/server";
+import { repositories } from "@/lib/repositories";
+import { getErrorMessage } from "@/lib/utils";
+import { logEvent } from "@/lib/events";
+import { verifyAdminRequest } from "@/lib/admin-auth";
+import { changeVacancySlug } from "@/lib/slugs";
+
+/**
+ * PATCH /api/admin/vacancies/[id]/slug
+ * Changes the URL slug of a vacancy (CJ team)
+ * Body: { slug: string } (normalized to kebab-case)
+ * - The slug must not be in use by another vacancy, also not as a previous slug
+ * - The current slug is kept in previous_slugs and keeps redirecting (GET /api/slugs/vacatures/[slug])
+ * - A vacancy that is on Webflow is flagged for the Webflow sync
+ *
+ * Protected by the admin secret or an admin session (see lib/admin-auth.ts)
+ */
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authError = await verifyAdminRequest(request, "ChangeVacancySlug");
+  if (authError) {
+    return authError;
+  }
+
+  try {
+    const { id } = await params;
+
+    const body = await request.json().catch(() => ({}));
+    const slug = typeof body?.slug === "string" ? body.slug.trim() : "";
+    if (!slug) {
+      return NextResponse.json({ error: "Slug is verplicht" }, { status: 400 });
+    }
+
+    const vacancy = await repositories.vacancies.getById(id);
+    if (!vacancy) {
+      return NextResponse.json({ error: "Vacature niet gevonden" }, { status: 404 });
+    }
+
+    const result = await changeVacancySlug(vacancy, slug);
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    if (result.vacancy.slug !== vacancy.slug) {
+      await logEvent({
+        event_type: "vacancy_updated",
+        employer_id: vacancy.employer_id || null,
+        vacancy_id: vacancy.id,
+        source: "admin",
+        payload: {
+          action: "slug_changed",
+          slug: result.vacancy.slug,
+          previous_slug: vacancy.slug || null,
+        },
+      });
+    }
+
+    return NextResponse.json({ success: true, vacancy: result.vacancy });
+  } catch (error: unknown) {
+    console.error("Error changing vacancy slug:", getErrorMessage(error));
+    return NextResponse.json(
+      { error: "Er ging iets mis bij het wijzigen van de slug" },
+      { status: 500 }
+    );
+  }
+}
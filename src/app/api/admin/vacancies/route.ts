@@ -0,0 +1,60 @@
+import { NextResponse } from "next/server";
+import { repositories } from "@/lib/repositories";
+import { getErrorMessage } from "@/lib/utils";
+import { verifyAdminRequest } from "@/lib/admin-auth";
+import { compareReviewQueue, getReviewSla } from "@/lib/vacancy-review-queue";
+
+/**
+ * GET /api/admin/vacancies
+ * Review queue: vacancies waiting for approval, "Zelfde dag online" first,
+ * then oldest submission first, with the SLA time remaining
+ *
+ * Protected by the admin secret or an admin session (see lib/admin-auth.ts)
+ */
+export async function GET(request: Request) {
+  const authError = await verifyAdminRequest(request, "ReviewQueue");
+  if (authError) {
+    return authError;
+  }
+
+  try {
+    const vacancies = (await repositories.vacancies.getAwaitingApproval()).sort(compareReviewQueue);
+
+    // Resolve employer and package names once per record
+    const employerIds = [...new Set(vacancies.map((v) => v.employer_id).filter((id): id is string => !!id))];
+    const packageIds = [...new Set(vacancies.map((v) => v.package_id).filter((id): id is string => !!id))];
+    const [employers, packages, reviews] = await Promise.all([
+      Promise.all(employerIds.map((id) => repositories.employers.getById(id))),
+      Promise.all(packageIds.map((id) => repositories.products.getById(id))),
+      Promise.all(vacancies.map((v) => repositories.vacancyReviews.getByVacancyId(v.id))),
+    ]);
+    const employerNames = new Map(
+      employers.flatMap((e) => (e ? [[e.id, e.display_name || e.company_name || ""] as const] : []))
+    );
+    const packageNames = new Map(packages.flatMap((p) => (p ? [[p.id, p.display_name] as const] : [])));
+
+    const now = new Date();
+    return NextResponse.json({
+      vacancies: vacancies.map((vacancy, index) => ({
+        id: vacancy.id,
+        title: vacancy.title,
+        employer_id: vacancy.employer_id,
+        employer_name: (vacancy.employer_id && employerNames.get(vacancy.employer_id)) || null,
+        package_name: (vacancy.package_id && packageNames.get(vacancy.package_id)) || null,
+        input_type: vacancy.input_type,
+        high_priority: vacancy.high_priority,
+        is_first_vacancy: vacancy.is_first_vacancy,
+        publish_from: vacancy.publish_from ?? null,
+        "submitted-at": vacancy["submitted-at"] ?? null,
+        review_rounds: reviews[index].length,
+        sla: getReviewSla(vacancy, now),
+      })),
+    });
+  } catch (error: unknown) {
+    console.error("Error fetching review queue:", getErrorMessage(error));
+    return NextResponse.json(
+      { error: "Er ging iets mis bij het ophalen van de wachtrij" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,5 @@
 import { NextResponse } from "next/server";
-import { getUserByEmail } from "@/lib/airtable";
+import { repositories } from "@/lib/repositories";
 import { checkRateLimit, loginRateLimiter, getIdentifier } from "@/lib/rate-limit";
 import { z } from "zod";
 
@@ -47,7 +47,7 @@ export async function POST(request: Request) {
     }
 
     // Check if user exists
-    const existingUser = await getUserByEmail(email);
+    const existingUser = await repositories.users.getByEmail(email);
 
     if (!existingUser) {
       console.log(`[check-email] User not found for email: ${email}`);
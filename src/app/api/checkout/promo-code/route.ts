@@ -0,0 +1,76 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { repositories } from "@/lib/repositories";
+import { getErrorMessage } from "@/lib/utils";
+import { applyPromoCode } from "@/lib/promo-codes";
+import { z } from "zod";
+
+const promoCodeRequestSchema = z.object({
+  code: z.string().trim().min(1, "Kortingscode is verplicht"),
+  product_id: z.string().min(1, "Product ID is verplicht"),
+});
+
+/**
+ * POST /api/checkout/promo-code
+ * Validates a promo code for a credit bundle (live check in the checkout modal)
+ * Returns the discounted price and credits; the checkout validates the code again
+ */
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Niet ingelogd" }, { status: 401 });
+    }
+
+    const user = await repositories.users.getByEmail(session.user.email);
+    if (!user) {
+      return NextResponse.json({ error: "Gebruiker niet gevonden" }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const parseResult = promoCodeRequestSchema.safeParse(body);
+
+    if (!parseResult.success) {
+      const errors = parseResult.error.issues.map((e) => e.message).join(", ");
+      return NextResponse.json({ error: errors }, { status: 400 });
+    }
+
+    const { code, product_id } = parseResult.data;
+
+    const [product, wallet] = await Promise.all([
+      repositories.products.getById(product_id),
+      repositories.wallets.getForUser(user),
+    ]);
+
+    if (!product || !product.is_active) {
+      return NextResponse.json({ error: "Product niet gevonden" }, { status: 404 });
+    }
+
+    if (!wallet) {
+      return NextResponse.json({ error: "Geen wallet gevonden" }, { status: 400 });
+    }
+
+    const result = await applyPromoCode({ code, product, user, wallet_id: wallet.id });
+    if (!result.valid) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    const { quote } = result;
+    return NextResponse.json({
+      code: quote.promo_code.code,
+      description: quote.promo_code.description || null,
+      original_price: quote.original_price,
+      discount_amount: quote.discount_amount,
+      bonus_credits: quote.bonus_credits,
+      total_cost: quote.total_cost,
+      total_credits: quote.total_credits,
+    });
+  } catch (error: unknown) {
+    console.error("Promo code validation error:", getErrorMessage(error));
+    return NextResponse.json(
+      { error: "Er ging iets mis bij het controleren van de kortingscode" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,17 +1,13 @@
 import { NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
-import {
-  getUserByEmail,
-  getWalletByEmployerId,
-  getWalletForUser,
-  getProductById,
-  addCreditsToWallet,
-  createPurchaseTransaction,
-  getEmployerById,
-} from "@/lib/airtable";
+import { randomUUID } from "crypto";
+import { repositories } from "@/lib/repositories";
 import { logEvent, getClientIP } from "@/lib/events";
 import { getErrorMessage } from "@/lib/utils";
+import { getIdempotencyKey, purchaseCredits } from "@/lib/ledger";
+import { isYearlyBundle, startSubscription } from "@/lib/subscriptions";
+import { applyPromoCode, type PromoCodeQuote } from "@/lib/promo-codes";
 import { z } from "zod";
 
 // Validation schema for checkout request
@@ -26,6 +22,7 @@ const checkoutRequestSchema = z.object({
     city: z.string().min(1, "Stad is verplicht"),
     reference_nr: z.string().optional(),
   }),
+  promo_code: z.string().trim().optional(),
 });
 
 export type CheckoutRequest = z.infer<typeof checkoutRequestSchema>;
@@ -33,6 +30,8 @@ export type CheckoutRequest = z.infer<typeof checkoutRequestSchema>;
 /**
  * POST /api/checkout
  * Process a credit bundle purchase
+ * Yearly bundles (billing_cycle "yearly") also start a subscription that renews every year
+ * An optional promo_code gives a discount and/or bonus credits on this purchase only
  */
 export async function POST(request: Request) {
   try {
@@ -43,7 +42,7 @@ export async function POST(request: Request) {
     }
 
     // Get user and verify requirements
-    const user = await getUserByEmail(session.user.email);
+    const user = await repositories.users.getByEmail(session.user.email);
     if (!user) {
       return NextResponse.json({ error: "Gebruiker niet gevonden" }, { status: 404 });
     }
@@ -66,10 +65,10 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: errors }, { status: 400 });
     }
 
-    const { product_id, context, invoice_details } = parseResult.data;
+    const { product_id, context, invoice_details, promo_code } = parseResult.data;
 
     // Get the product and verify it's a credit bundle
-    const product = await getProductById(product_id);
+    const product = await repositories.products.getById(product_id);
     if (!product) {
       return NextResponse.json({ error: "Product niet gevonden" }, { status: 404 });
     }
@@ -89,7 +88,7 @@ export async function POST(request: Request) {
     }
 
     // Get the wallet (handles both employer and intermediary wallets)
-    const wallet = await getWalletForUser(user);
+    const wallet = await repositories.wallets.getForUser(user);
     if (!wallet) {
       return NextResponse.json(
         { error: "Geen wallet gevonden" },
@@ -97,36 +96,91 @@ export async function POST(request: Request) {
       );
     }
 
+    // Validate the promo code again (the modal check is only a preview)
+    let promo: PromoCodeQuote | null = null;
+    if (promo_code) {
+      const promoResult = await applyPromoCode({ code: promo_code, product, user, wallet_id: wallet.id });
+      if (!promoResult.valid) {
+        return NextResponse.json({ error: promoResult.error }, { status: 400 });
+      }
+      promo = promoResult.quote;
+    }
+
+    const totalCredits = promo?.total_credits ?? product.credits;
+    const totalCost = promo?.total_cost ?? product.price;
+
     // Get employer for additional context (for employer users only)
-    const employer = user.employer_id ? await getEmployerById(user.employer_id) : null;
+    const employer = user.employer_id ? await repositories.employers.getById(user.employer_id) : null;
 
     // Create invoice details snapshot (JSON string)
-    const invoiceDetailsSnapshot = JSON.stringify({
+    // The subscription keeps the snapshot without promo: renewals are charged at the regular price
+    const invoiceDetails = {
       ...invoice_details,
       company_name: employer?.company_name || employer?.display_name || "",
       kvk: employer?.kvk || "",
       purchased_at: new Date().toISOString(),
       billing_cycle: product.billing_cycle || "one_time",
-    });
-
-    // Create the transaction with expiration date
-    const transaction = await createPurchaseTransaction({
+    };
+    const subscriptionDetailsSnapshot = JSON.stringify(invoiceDetails);
+    const invoiceDetailsSnapshot = promo
+      ? JSON.stringify({
+          ...invoiceDetails,
+          promo_code: {
+            code: promo.promo_code.code,
+            description: promo.promo_code.description || null,
+            original_price: promo.original_price,
+            discount_amount: promo.discount_amount,
+            bonus_credits: promo.bonus_credits,
+          },
+        })
+      : subscriptionDetailsSnapshot;
+
+    // Create the transaction with expiration date and add the credits to the wallet
+    // (credits are added immediately, payment via invoice). A retried checkout with the
+    // same Idempotency-Key returns the original purchase instead of buying twice.
+    const purchase = await purchaseCredits({
+      idempotencyKey: getIdempotencyKey(request, `checkout:${user.id}`) ?? `checkout:${user.id}:${randomUUID()}`,
       employer_id: user.employer_id || null, // For intermediaries, this may be null
       wallet_id: wallet.id,
       user_id: user.id,
       product_id: product.id,
-      total_credits: product.credits,
-      total_cost: product.price,
+      total_credits: totalCredits,
+      total_cost: totalCost,
       context,
       invoice_details_snapshot: invoiceDetailsSnapshot,
       validity_months: product.validity_months, // From product config
+      promo_code: promo?.promo_code.code || null,
+      discount_amount: promo?.discount_amount || null,
+      bonus_credits: promo?.bonus_credits || null,
     });
+    const transaction = purchase.transaction;
+    const updatedWallet = await repositories.wallets.getById(wallet.id);
 
-    // Add credits to wallet (credits are added immediately, payment via invoice)
-    const updatedWallet = await addCreditsToWallet(wallet.id, product.credits);
+    if (purchase.replayed) {
+      return NextResponse.json({
+        success: true,
+        transaction_id: transaction.id,
+        credits_purchased: transaction.total_credits,
+        new_balance: updatedWallet?.balance ?? wallet.balance,
+        message: `${transaction.total_credits} credits zijn toegevoegd aan je account`,
+      });
+    }
 
-    // Log the event
     const ipAddress = getClientIP(request);
+
+    // Yearly bundles renew automatically on the anniversary (see lib/subscriptions.ts)
+    const subscription = isYearlyBundle(product)
+      ? await startSubscription({
+          transaction,
+          product,
+          user_id: user.id,
+          employer_id: user.employer_id || null,
+          wallet_id: wallet.id,
+          invoice_details_snapshot: subscriptionDetailsSnapshot,
+        })
+      : null;
+
+    // Log the event
     await logEvent({
       event_type: "credits_purchased",
       actor_user_id: user.id,
@@ -136,20 +190,41 @@ export async function POST(request: Request) {
       payload: {
         product_id: product.id,
         product_name: product.display_name,
-        credits_amount: product.credits,
-        money_amount: product.price,
+        credits_amount: totalCredits,
+        money_amount: totalCost,
         context,
         transaction_id: transaction.id,
         role_id: user.role_id,
+        subscription_id: subscription?.id || null,
+        promo_code: promo?.promo_code.code || null,
+        discount_amount: promo?.discount_amount || null,
+        bonus_credits: promo?.bonus_credits || null,
       },
     });
 
+    if (subscription) {
+      await logEvent({
+        event_type: "subscription_started",
+        actor_user_id: user.id,
+        employer_id: user.employer_id || null,
+        source: "web",
+        ip_address: ipAddress,
+        payload: {
+          subscription_id: subscription.id,
+          product_id: product.id,
+          transaction_id: transaction.id,
+          next_renewal_at: subscription.next_renewal_at,
+        },
+      });
+    }
+
     return NextResponse.json({
       success: true,
       transaction_id: transaction.id,
-      credits_purchased: product.credits,
-      new_balance: updatedWallet.balance,
-      message: `${product.credits} credits zijn toegevoegd aan je account`,
+      credits_purchased: totalCredits,
+      subscription_id: subscription?.id || null,
+      new_balance: updatedWallet?.balance ?? wallet.balance + totalCredits,
+      message: `${totalCredits} credits zijn toegevoegd aan je account`,
     });
   } catch (error: unknown) {
     console.error("Checkout error:", getErrorMessage(error));
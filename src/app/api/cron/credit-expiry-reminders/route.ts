@@ -0,0 +1,241 @@
+import { NextResponse } from "next/server";
+import { repositories } from "@/lib/repositories";
+import type { CreditBatch, UserRecord, WalletRecord } from "@/lib/airtable";
+import { logEvent } from "@/lib/events";
+import { escapeHtml, renderEmailHtml, sendEmail } from "@/lib/email";
+import { getErrorMessage } from "@/lib/utils";
+
+// Email template configuration for expiry reminders
+interface ExpiryReminderEmailConfig {
+  firstName: string | null;
+  totalCredits: number;
+  earliestDate: string;
+  batches: { credits: number; expiresAt: string }[];
+  spendUrl: string;
+}
+
+function formatExpiryDate(iso: string): string {
+  return new Date(iso).toLocaleDateString("nl-NL", {
+    day: "numeric",
+    month: "long",
+    year: "numeric",
+  });
+}
+
+function generateExpiryReminderEmailText(config: ExpiryReminderEmailConfig): string {
+  const batchLines = config.batches
+    .map((batch) => `- ${batch.credits} credits verlopen op ${formatExpiryDate(batch.expiresAt)}`)
+    .join("\n");
+
+  return `${config.firstName ? `Hoi ${config.firstName},` : "Hoi,"}
+
+Er verlopen binnenkort ${config.totalCredits} credits in je Colourful jobs wallet. De eerste credits verlopen op ${formatExpiryDate(config.earliestDate)}.
+
+${batchLines}
+
+Gebruik je credits voor een nieuwe vacature of een boost voordat ze verlopen:
+${config.spendUrl}
+
+Met vriendelijke groet,
+Het Colourful jobs team`;
+}
+
+function generateExpiryReminderEmailHtml(config: ExpiryReminderEmailConfig): string {
+  const batchLines = config.batches
+    .map((batch) => `<strong>${batch.credits} credits</strong> verlopen op ${formatExpiryDate(batch.expiresAt)}`)
+    .join("<br>");
+
+  // User-supplied values are escaped; the rest are numbers and formatted dates
+  const firstName = config.firstName ? escapeHtml(config.firstName) : null;
+
+  return renderEmailHtml({
+    title: "Je credits verlopen binnenkort",
+    heading: "Je credits verlopen binnenkort",
+    paragraphs: [
+      `${firstName ? `Hoi ${firstName},` : "Hoi,"} er verlopen binnenkort <strong>${config.totalCredits} credits</strong> in je Colourful jobs wallet.`,
+      batchLines,
+      "Gebruik je credits voor een nieuwe vacature of een boost voordat ze verlopen.",
+    ],
+    button: { label: "Credits gebruiken", url: escapeHtml(config.spendUrl) },
+    disclaimer: "Niet gebruikte credits vervallen automatisch na de vervaldatum.",
+  });
+}
+
+/**
+ * Users who receive the reminder for a wallet:
+ * active users of the employer, or the intermediary for a user-level wallet
+ */
+async function getWalletRecipients(wallet: WalletRecord): Promise<UserRecord[]> {
+  if (wallet.owner_type === "user") {
+    const user = wallet.owner_user ? await repositories.users.getById(wallet.owner_user) : null;
+    return user && user.status === "active" && user.email ? [user] : [];
+  }
+
+  if (!wallet.owner_employer) return [];
+  const users = await repositories.users.getByEmployerId(wallet.owner_employer);
+  return users.filter((user) => user.status === "active" && !!user.email);
+}
+
+/**
+ * GET /api/cron/credit-expiry-reminders
+ *
+ * Cron job to warn wallet owners about credits that are about to expire
+ * - Finds credit batches expiring within the warning window (getCreditExpiryWarningDays)
+ * - Emails the employer's users (or the intermediary) once per wallet with the credits at risk
+ * - Marks each batch with expiry_warning_sent_at, so a batch gets at most one reminder
+ * - Logs a "credits_expiry_warning" event per wallet
+ *
+ * This endpoint should be called daily by Vercel Cron
+ * Protected by CRON_SECRET environment variable
+ */
+export async function GET(request: Request) {
+  try {
+    // Verify request is from Vercel Cron
+    const authHeader = request.headers.get("authorization");
+    const cronSecret = process.env.CRON_SECRET;
+
+    // In development, allow without auth for testing
+    const isDev = process.env.NODE_ENV === "development";
+
+    if (!isDev && cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+      console.error("[Cron] Unauthorized request to credit-expiry-reminders");
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    console.log("[Cron] Starting credit expiry reminder job...");
+
+    const warningDays = await repositories.products.getCreditExpiryWarningDays();
+    const batches = await repositories.wallets.getExpiringCreditBatches(warningDays);
+
+    console.log(`[Cron] Found ${batches.length} credit batches expiring within ${warningDays} days`);
+
+    // Group batches per wallet: one email per wallet, covering all its batches
+    const batchesByWallet = new Map<string, CreditBatch[]>();
+    for (const batch of batches) {
+      if (!batch.wallet_id) continue;
+      batchesByWallet.set(batch.wallet_id, [...(batchesByWallet.get(batch.wallet_id) || []), batch]);
+    }
+
+    const results = {
+      wallets: 0,
+      batches: 0,
+      emails: 0,
+      skipped: 0,
+      failed: 0,
+      errors: [] as string[],
+    };
+
+    const spendUrl = `${process.env.NEXTAUTH_URL}/dashboard/vacatures/nieuw`;
+
+    for (const [walletId, walletBatches] of batchesByWallet) {
+      try {
+        const wallet = await repositories.wallets.getById(walletId);
+        if (!wallet) {
+          results.skipped++;
+          continue;
+        }
+
+        const recipients = await getWalletRecipients(wallet);
+        if (recipients.length === 0) {
+          // Not marked: the reminder goes out once the wallet has a recipient
+          console.warn(`[Cron] No recipients for wallet ${walletId}, skipping reminder`);
+          results.skipped++;
+          continue;
+        }
+
+        const totalCredits = walletBatches.reduce((sum, batch) => sum + batch.remaining_credits, 0);
+        const emailBatches = walletBatches.map((batch) => ({
+          credits: batch.remaining_credits,
+          expiresAt: batch.expires_at,
+        }));
+
+        let sent = 0;
+        for (const recipient of recipients) {
+          const config: ExpiryReminderEmailConfig = {
+            firstName: recipient.first_name || null,
+            totalCredits,
+            earliestDate: walletBatches[0].expires_at,
+            batches: emailBatches,
+            spendUrl,
+          };
+
+          try {
+            await sendEmail({
+              to: recipient.email,
+              subject: `Er verlopen binnenkort ${totalCredits} credits`,
+              text: generateExpiryReminderEmailText(config),
+              html: generateExpiryReminderEmailHtml(config),
+            });
+            sent++;
+          } catch (emailError: unknown) {
+            console.error(`[Cron] Failed to send expiry reminder to ${recipient.email}:`, getErrorMessage(emailError));
+          }
+        }
+
+        if (sent === 0) {
+          // Not marked: retried on the next run
+          results.failed++;
+          results.errors.push(`Wallet ${walletId}: no reminder could be sent`);
+          continue;
+        }
+
+        const sentAt = new Date().toISOString();
+        for (const batch of walletBatches) {
+          await repositories.transactions.update(batch.id, { expiry_warning_sent_at: sentAt });
+        }
+
+        await logEvent({
+          event_type: "credits_expiry_warning",
+          employer_id: wallet.owner_employer || null,
+          target_user_id: wallet.owner_type === "user" ? wallet.owner_user || null : null,
+          source: "api",
+          payload: {
+            wallet_id: walletId,
+            credits_expiring: totalCredits,
+            earliest_expires_at: walletBatches[0].expires_at,
+            batches: walletBatches.map((batch) => ({
+              batch_id: batch.id,
+              credits: batch.remaining_credits,
+              expires_at: batch.expires_at,
+            })),
+            recipients: sent,
+          },
+        });
+
+        results.wallets++;
+        results.batches += walletBatches.length;
+        results.emails += sent;
+
+        console.log(`[Cron] Sent expiry reminder for wallet ${walletId}: ${totalCredits} credits, ${sent} recipient(s)`);
+      } catch (error: unknown) {
+        results.failed++;
+        results.errors.push(`Wallet ${walletId}: ${getErrorMessage(error)}`);
+        console.error(`[Cron] Failed to process expiry reminder for wallet ${walletId}:`, getErrorMessage(error));
+      }
+    }
+
+    console.log(`[Cron] Credit expiry reminder job complete. Wallets: ${results.wallets}, Emails: ${results.emails}, Skipped: ${results.skipped}, Failed: ${results.failed}`);
+
+    return NextResponse.json({
+      success: results.failed === 0,
+      message: `Sent reminders for ${results.wallets} wallets (${results.batches} batches)`,
+      warningDays,
+      wallets: results.wallets,
+      batches: results.batches,
+      emails: results.emails,
+      skipped: results.skipped,
+      failed: results.failed,
+      errors: results.errors.length > 0 ? results.errors : undefined,
+    });
+  } catch (error: unknown) {
+    console.error("[Cron] Error in credit expiry reminder job:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to send credit expiry reminders",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,23 +1,87 @@
 import { NextResponse } from "next/server";
-import {
-  getExpiredCreditBatches,
-  processExpiredCreditBatch,
-} from "@/lib/airtable";
+import { repositories, type JobRunUpdate } from "@/lib/repositories";
+import type { CreditBatch, JobRunRecord } from "@/lib/airtable";
 import { logEvent } from "@/lib/events";
+import { getErrorMessage } from "@/lib/utils";
+
+interface WalletExpiryReport {
+  wallet_id: string | null;
+  employer_id: string | null;
+  credits_expiring: number;
+  batches: {
+    batch_id: string;
+    credits: number;
+    expires_at: string;
+    error?: string;
+  }[];
+}
+
+/**
+ * Group expired batches per wallet for the dry-run report and the job run details
+ */
+function buildWalletReports(
+  batches: CreditBatch[],
+  errors: Map<string, string>
+): WalletExpiryReport[] {
+  const reports = new Map<string, WalletExpiryReport>();
+
+  for (const batch of batches) {
+    const key = batch.wallet_id || `no-wallet:${batch.id}`;
+    const report = reports.get(key) ?? {
+      wallet_id: batch.wallet_id,
+      employer_id: batch.employer_id,
+      credits_expiring: 0,
+      batches: [],
+    };
+
+    report.credits_expiring += batch.remaining_credits;
+    report.batches.push({
+      batch_id: batch.id,
+      credits: batch.remaining_credits,
+      expires_at: batch.expires_at,
+      ...(errors.has(batch.id) && { error: errors.get(batch.id) }),
+    });
+    reports.set(key, report);
+  }
+
+  return Array.from(reports.values());
+}
+
+/**
+ * Persist the outcome of a run; a failing audit write never fails the job itself
+ */
+async function finishJobRun(jobRun: JobRunRecord | null, fields: JobRunUpdate) {
+  if (!jobRun) return;
+  try {
+    await repositories.jobRuns.update(jobRun.id, {
+      ...fields,
+      finished_at: new Date().toISOString(),
+    });
+  } catch (error: unknown) {
+    console.error("[Cron] Failed to record job run:", getErrorMessage(error));
+  }
+}
 
 /**
  * GET /api/cron/expire-credits
- * 
+ *
  * Cron job to process expired credit batches
- * - Finds all purchase transactions where expires_at < now AND remaining_credits > 0
+ * - Finds all credit batches (purchases and transfer adjustments, also in intermediary
+ *   wallets without an employer) where expires_at < now AND remaining_credits > 0
  * - Sets remaining_credits to 0
  * - Deducts from wallet balance
  * - Creates expiration transaction for audit trail
- * 
+ * - Records every run in the Job Runs table (see /api/admin/job-runs)
+ *
+ * Query params:
+ * - dry_run=1: only report per wallet what would expire, nothing is changed
+ *
  * This endpoint should be called daily by Vercel Cron
  * Protected by CRON_SECRET environment variable
  */
 export async function GET(request: Request) {
+  let jobRun: JobRunRecord | null = null;
+
   try {
     // Verify request is from Vercel Cron
     const authHeader = request.headers.get("authorization");
@@ -25,22 +89,65 @@ export async function GET(request: Request) {
 
     // In development, allow without auth for testing
     const isDev = process.env.NODE_ENV === "development";
-    
+
     if (!isDev && cronSecret && authHeader !== `Bearer ${cronSecret}`) {
       console.error("[Cron] Unauthorized request to expire-credits");
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
-    console.log("[Cron] Starting credit expiration job...");
+    const dryRun = new URL(request.url).searchParams.get("dry_run") === "1";
+
+    console.log(`[Cron] Starting credit expiration job${dryRun ? " (dry run)" : ""}...`);
+
+    try {
+      jobRun = await repositories.jobRuns.create({ job: "expire_credits", dry_run: dryRun });
+    } catch (error: unknown) {
+      console.error("[Cron] Failed to record job run start:", getErrorMessage(error));
+    }
 
     // Get all expired batches
-    const expiredBatches = await getExpiredCreditBatches();
-    
+    const expiredBatches = await repositories.wallets.getExpiredCreditBatches();
+
     console.log(`[Cron] Found ${expiredBatches.length} expired credit batches`);
 
+    if (dryRun) {
+      // processExpiredCreditBatch needs the wallet; report batches without one as failing up front
+      const expectedErrors = new Map<string, string>();
+      for (const batch of expiredBatches) {
+        if (!batch.wallet_id) {
+          expectedErrors.set(batch.id, "Missing wallet ID");
+        }
+      }
+
+      const wallets = buildWalletReports(expiredBatches, expectedErrors);
+      const totalExpiring = expiredBatches.reduce((sum, batch) => sum + batch.remaining_credits, 0);
+
+      await finishJobRun(jobRun, {
+        status: "success",
+        batches_seen: expiredBatches.length,
+        batches_processed: 0,
+        batches_failed: expectedErrors.size,
+        credits_expired: totalExpiring,
+        details: JSON.stringify(wallets),
+      });
+
+      return NextResponse.json({
+        success: true,
+        dry_run: true,
+        job_run_id: jobRun?.id ?? null,
+        message: `${expiredBatches.length} batches in ${wallets.length} wallets would expire, ${totalExpiring} credits`,
+        batchesSeen: expiredBatches.length,
+        totalExpiring,
+        wallets,
+      });
+    }
+
     if (expiredBatches.length === 0) {
+      await finishJobRun(jobRun, { status: "success" });
+
       return NextResponse.json({
         success: true,
+        job_run_id: jobRun?.id ?? null,
         message: "No expired credits to process",
         processed: 0,
         totalExpired: 0,
@@ -54,10 +161,11 @@ export async function GET(request: Request) {
       totalExpired: 0,
       errors: [] as string[],
     };
+    const batchErrors = new Map<string, string>();
 
     for (const batch of expiredBatches) {
-      const result = await processExpiredCreditBatch(batch);
-      
+      const result = await repositories.wallets.processExpiredCreditBatch(batch);
+
       if (result.success) {
         results.processed++;
         results.totalExpired += result.creditsExpired;
@@ -80,14 +188,26 @@ export async function GET(request: Request) {
       } else {
         results.failed++;
         results.errors.push(`Batch ${batch.id}: ${result.error}`);
+        batchErrors.set(batch.id, result.error || "Unknown error");
         console.error(`[Cron] Failed to process batch ${batch.id}:`, result.error);
       }
     }
 
     console.log(`[Cron] Credit expiration job complete. Processed: ${results.processed}, Failed: ${results.failed}, Total expired: ${results.totalExpired}`);
 
+    await finishJobRun(jobRun, {
+      status: results.failed === 0 ? "success" : "failed",
+      batches_seen: expiredBatches.length,
+      batches_processed: results.processed,
+      batches_failed: results.failed,
+      credits_expired: results.totalExpired,
+      errors: results.errors.length > 0 ? results.errors.join("\n") : null,
+      details: JSON.stringify(buildWalletReports(expiredBatches, batchErrors)),
+    });
+
     return NextResponse.json({
       success: results.failed === 0,
+      job_run_id: jobRun?.id ?? null,
       message: `Processed ${results.processed} batches, ${results.totalExpired} credits expired`,
       processed: results.processed,
       failed: results.failed,
@@ -96,8 +216,14 @@ export async function GET(request: Request) {
     });
   } catch (error: unknown) {
     console.error("[Cron] Error in credit expiration job:", error);
+
+    await finishJobRun(jobRun, {
+      status: "failed",
+      errors: getErrorMessage(error),
+    });
+
     return NextResponse.json(
-      { 
+      {
         success: false,
         error: "Failed to process expired credits",
         message: error instanceof Error ? error.message : "Unknown error",
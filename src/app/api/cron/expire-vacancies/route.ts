@@ -0,0 +1,268 @@
+import { NextResponse } from "next/server";
+import { repositories } from "@/lib/repositories";
+import type { ProductRecord, UserRecord, VacancyRecord } from "@/lib/airtable";
+import { logEvent } from "@/lib/events";
+import { escapeHtml, renderEmailHtml, sendEmail } from "@/lib/email";
+import { transitionVacancy } from "@/lib/vacancy-state-machine";
+import { getErrorMessage } from "@/lib/utils";
+
+// Warning lead time for packages without closing_warning_days
+const DEFAULT_CLOSING_WARNING_DAYS = 7;
+
+// Email template configuration for expiry warnings
+interface ClosingWarningEmailConfig {
+  firstName: string | null;
+  vacancyTitle: string;
+  closingDate: string;
+  daysRemaining: number;
+  extendUrl: string;
+}
+
+function formatClosingDate(date: string): string {
+  return new Date(date).toLocaleDateString("nl-NL", {
+    day: "numeric",
+    month: "long",
+    year: "numeric",
+  });
+}
+
+function formatDaysRemaining(days: number): string {
+  if (days <= 0) return "vandaag";
+  return days === 1 ? "over 1 dag" : `over ${days} dagen`;
+}
+
+function generateClosingWarningEmailText(config: ClosingWarningEmailConfig): string {
+  return `${config.firstName ? `Hoi ${config.firstName},` : "Hoi,"}
+
+Je vacature "${config.vacancyTitle}" verloopt ${formatDaysRemaining(config.daysRemaining)}, op ${formatClosingDate(config.closingDate)}. Daarna is de vacature niet meer zichtbaar voor kandidaten.
+
+Wil je langer online blijven? Verleng de looptijd van je vacature:
+${config.extendUrl}
+
+Met vriendelijke groet,
+Het Colourful jobs team`;
+}
+
+function generateClosingWarningEmailHtml(config: ClosingWarningEmailConfig): string {
+  return renderEmailHtml({
+    title: "Je vacature verloopt binnenkort",
+    heading: "Je vacature verloopt binnenkort",
+    paragraphs: [
+      `${config.firstName ? `Hoi ${escapeHtml(config.firstName)},` : "Hoi,"} je vacature <strong>${escapeHtml(config.vacancyTitle)}</strong> verloopt ${formatDaysRemaining(config.daysRemaining)}, op ${formatClosingDate(config.closingDate)}.`,
+      "Daarna is de vacature niet meer zichtbaar voor kandidaten. Wil je langer online blijven? Verleng dan de looptijd van je vacature.",
+    ],
+    button: { label: "Looptijd verlengen", url: config.extendUrl },
+  });
+}
+
+/**
+ * Whole days from today until the closing date (0 = closes today)
+ */
+function getDaysUntilClosing(closingDate: string, now: Date): number {
+  const closing = new Date(closingDate);
+  closing.setHours(0, 0, 0, 0);
+  const today = new Date(now);
+  today.setHours(0, 0, 0, 0);
+  return Math.round((closing.getTime() - today.getTime()) / (24 * 60 * 60 * 1000));
+}
+
+function getClosingWarningDays(pkg: ProductRecord | null): number {
+  return pkg?.closing_warning_days && pkg.closing_warning_days > 0
+    ? pkg.closing_warning_days
+    : DEFAULT_CLOSING_WARNING_DAYS;
+}
+
+/**
+ * Users who receive the warning for a vacancy:
+ * the vacancy's users (creator, intermediary), otherwise the employer's active users
+ */
+async function getVacancyRecipients(vacancy: VacancyRecord): Promise<UserRecord[]> {
+  const vacancyUsers = await Promise.all((vacancy.users || []).map((id) => repositories.users.getById(id)));
+  const active = vacancyUsers.filter(
+    (user): user is UserRecord => !!user && user.status === "active" && !!user.email
+  );
+  if (active.length > 0 || !vacancy.employer_id) return active;
+
+  const users = await repositories.users.getByEmployerId(vacancy.employer_id);
+  return users.filter((user) => user.status === "active" && !!user.email);
+}
+
+/**
+ * GET /api/cron/expire-vacancies
+ *
+ * Cron job for the end of a vacancy's run
+ * - Expires published vacancies whose closing_date has passed
+ *   (state machine transition "expire": status "verlopen", needs_webflow_archive)
+ * - Emails a warning to vacancies closing within their package's closing_warning_days
+ *   (default 7), linking to the boost modal's extension option
+ * - Marks each warned vacancy with closing_warning_sent_at (reset when the closing date changes)
+ * - Logs a "vacancy_expiry_warning" event per warned vacancy
+ *
+ * This endpoint should be called daily by Vercel Cron
+ * Protected by CRON_SECRET environment variable
+ */
+export async function GET(request: Request) {
+  try {
+    // Verify request is from Vercel Cron
+    const authHeader = request.headers.get("authorization");
+    const cronSecret = process.env.CRON_SECRET;
+
+    // In development, allow without auth for testing
+    const isDev = process.env.NODE_ENV === "development";
+
+    if (!isDev && cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+      console.error("[Cron] Unauthorized request to expire-vacancies");
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    console.log("[Cron] Starting vacancy expiry job...");
+
+    const now = new Date();
+    const results = {
+      expired: 0,
+      warned: 0,
+      emails: 0,
+      skipped: 0,
+      failed: 0,
+      errors: [] as string[],
+    };
+
+    // 1. Expire vacancies past their closing date
+    const expiredVacancies = await repositories.vacancies.getExpired();
+    console.log(`[Cron] Found ${expiredVacancies.length} vacancies past their closing date`);
+
+    for (const vacancy of expiredVacancies) {
+      try {
+        const result = await transitionVacancy(vacancy, "expire", {
+          actor: "system",
+          payload: { closing_date: vacancy.closing_date },
+          now,
+        });
+        if (!result.success) {
+          throw new Error(result.error);
+        }
+        results.expired++;
+        console.log(`[Cron] Expired vacancy ${vacancy.id} (closing date ${vacancy.closing_date})`);
+      } catch (error: unknown) {
+        results.failed++;
+        results.errors.push(`Vacancy ${vacancy.id}: ${getErrorMessage(error)}`);
+        console.error(`[Cron] Failed to expire vacancy ${vacancy.id}:`, getErrorMessage(error));
+      }
+    }
+
+    // 2. Warn vacancies closing within their package's lead time
+    const packages = await repositories.products.getActiveByType("vacancy_package");
+    const maxWarningDays = Math.max(DEFAULT_CLOSING_WARNING_DAYS, ...packages.map(getClosingWarningDays));
+    const closingSoon = await repositories.vacancies.getClosingSoon(maxWarningDays);
+    console.log(`[Cron] Found ${closingSoon.length} vacancies closing within ${maxWarningDays} days`);
+
+    const packageCache = new Map<string, ProductRecord | null>(packages.map((pkg) => [pkg.id, pkg]));
+
+    for (const vacancy of closingSoon) {
+      try {
+        if (!vacancy.closing_date) continue;
+
+        let pkg: ProductRecord | null = null;
+        if (vacancy.package_id) {
+          if (!packageCache.has(vacancy.package_id)) {
+            packageCache.set(vacancy.package_id, await repositories.products.getById(vacancy.package_id));
+          }
+          pkg = packageCache.get(vacancy.package_id) ?? null;
+        }
+
+        const warningDays = getClosingWarningDays(pkg);
+        const daysRemaining = getDaysUntilClosing(vacancy.closing_date, now);
+        if (daysRemaining > warningDays) {
+          // Not within this package's lead time yet
+          continue;
+        }
+
+        const recipients = await getVacancyRecipients(vacancy);
+        if (recipients.length === 0) {
+          console.warn(`[Cron] No recipients for vacancy ${vacancy.id}, skipping expiry warning`);
+          results.skipped++;
+          continue;
+        }
+
+        const extendUrl = `${process.env.NEXTAUTH_URL}/dashboard/vacatures?boost=${vacancy.id}&extend=1`;
+        const vacancyTitle = vacancy.title || "Naamloze vacature";
+
+        let sent = 0;
+        for (const recipient of recipients) {
+          const config: ClosingWarningEmailConfig = {
+            firstName: recipient.first_name || null,
+            vacancyTitle,
+            closingDate: vacancy.closing_date,
+            daysRemaining,
+            extendUrl,
+          };
+
+          try {
+            await sendEmail({
+              to: recipient.email,
+              subject: `Je vacature "${vacancyTitle}" verloopt binnenkort`,
+              text: generateClosingWarningEmailText(config),
+              html: generateClosingWarningEmailHtml(config),
+            });
+            sent++;
+          } catch (emailError: unknown) {
+            console.error(`[Cron] Failed to send expiry warning to ${recipient.email}:`, getErrorMessage(emailError));
+          }
+        }
+
+        if (sent === 0) {
+          // Not marked: retried on the next run
+          results.failed++;
+          results.errors.push(`Vacancy ${vacancy.id}: no warning could be sent`);
+          continue;
+        }
+
+        await repositories.vacancies.update(vacancy.id, { closing_warning_sent_at: now.toISOString() });
+
+        await logEvent({
+          event_type: "vacancy_expiry_warning",
+          employer_id: vacancy.employer_id || null,
+          vacancy_id: vacancy.id,
+          source: "system",
+          payload: {
+            closing_date: vacancy.closing_date,
+            days_remaining: daysRemaining,
+            warning_days: warningDays,
+            recipients: sent,
+          },
+        });
+
+        results.warned++;
+        results.emails += sent;
+        console.log(`[Cron] Sent expiry warning for vacancy ${vacancy.id}: closes in ${daysRemaining} days, ${sent} recipient(s)`);
+      } catch (error: unknown) {
+        results.failed++;
+        results.errors.push(`Vacancy ${vacancy.id}: ${getErrorMessage(error)}`);
+        console.error(`[Cron] Failed to process expiry warning for vacancy ${vacancy.id}:`, getErrorMessage(error));
+      }
+    }
+
+    console.log(`[Cron] Vacancy expiry job complete. Expired: ${results.expired}, Warned: ${results.warned}, Skipped: ${results.skipped}, Failed: ${results.failed}`);
+
+    return NextResponse.json({
+      success: results.failed === 0,
+      message: `Expired ${results.expired} vacancies, sent warnings for ${results.warned}`,
+      expired: results.expired,
+      warned: results.warned,
+      emails: results.emails,
+      skipped: results.skipped,
+      failed: results.failed,
+      errors: results.errors.length > 0 ? results.errors : undefined,
+    });
+  } catch (error: unknown) {
+    console.error("[Cron] Error in vacancy expiry job:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to expire vacancies",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
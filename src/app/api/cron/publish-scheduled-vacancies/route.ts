@@ -0,0 +1,103 @@
+import { NextResponse } from "next/server";
+import { repositories } from "@/lib/repositories";
+import { transitionVacancy } from "@/lib/vacancy-state-machine";
+import { getErrorMessage } from "@/lib/utils";
+
+/**
+ * GET /api/cron/publish-scheduled-vacancies
+ *
+ * Cron job for scheduled publication (see lib/vacancy-schedule.ts)
+ * - Publishes "ingepland" vacancies whose publish_from has been reached
+ *   (transition "publish_scheduled": needs_webflow_sync, vacancy_publish event)
+ * - Takes published vacancies offline whose depublish_at has been reached
+ *   (transition "depublish_scheduled": needs_webflow_archive, vacancy_depublish event)
+ *
+ * This endpoint should be called hourly by Vercel Cron
+ * Protected by CRON_SECRET environment variable
+ */
+export async function GET(request: Request) {
+  try {
+    // Verify request is from Vercel Cron
+    const authHeader = request.headers.get("authorization");
+    const cronSecret = process.env.CRON_SECRET;
+
+    // In development, allow without auth for testing
+    const isDev = process.env.NODE_ENV === "development";
+
+    if (!isDev && cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+      console.error("[Cron] Unauthorized request to publish-scheduled-vacancies");
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    console.log("[Cron] Starting scheduled publication job...");
+
+    const toPublish = await repositories.vacancies.getDueForPublication();
+    const toDepublish = await repositories.vacancies.getDueForDepublication();
+
+    console.log(`[Cron] Found ${toPublish.length} vacancies to publish, ${toDepublish.length} to depublish`);
+
+    const results = {
+      published: 0,
+      depublished: 0,
+      failed: 0,
+      errors: [] as string[],
+    };
+
+    for (const vacancy of toPublish) {
+      try {
+        const result = await transitionVacancy(vacancy, "publish_scheduled", {
+          actor: "system",
+          payload: { publish_from: vacancy.publish_from },
+        });
+        if (!result.success) {
+          throw new Error(result.error);
+        }
+        results.published++;
+        console.log(`[Cron] Published scheduled vacancy ${vacancy.id}`);
+      } catch (error: unknown) {
+        results.failed++;
+        results.errors.push(`Vacancy ${vacancy.id}: ${getErrorMessage(error)}`);
+        console.error(`[Cron] Failed to publish vacancy ${vacancy.id}:`, getErrorMessage(error));
+      }
+    }
+
+    for (const vacancy of toDepublish) {
+      try {
+        const result = await transitionVacancy(vacancy, "depublish_scheduled", {
+          actor: "system",
+          payload: { depublish_at: vacancy.depublish_at },
+        });
+        if (!result.success) {
+          throw new Error(result.error);
+        }
+        results.depublished++;
+        console.log(`[Cron] Depublished scheduled vacancy ${vacancy.id}`);
+      } catch (error: unknown) {
+        results.failed++;
+        results.errors.push(`Vacancy ${vacancy.id}: ${getErrorMessage(error)}`);
+        console.error(`[Cron] Failed to depublish vacancy ${vacancy.id}:`, getErrorMessage(error));
+      }
+    }
+
+    console.log(`[Cron] Scheduled publication job complete. Published: ${results.published}, Depublished: ${results.depublished}, Failed: ${results.failed}`);
+
+    return NextResponse.json({
+      success: results.failed === 0,
+      message: `Published ${results.published} vacancies, depublished ${results.depublished}`,
+      published: results.published,
+      depublished: results.depublished,
+      failed: results.failed,
+      errors: results.errors.length > 0 ? results.errors : undefined,
+    });
+  } catch (error: unknown) {
+    console.error("[Cron] Error in scheduled publication job:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to process scheduled vacancies",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,61 @@
+import { NextResponse } from "next/server";
+import { reconcileAllWallets } from "@/lib/ledger";
+
+/**
+ * GET /api/cron/reconcile-wallets
+ *
+ * Cron job to detect drift between wallet totals and the transaction history
+ * - Recomputes balance, total_purchased and total_spent per wallet from its transactions
+ * - Reports every wallet where the stored totals differ
+ * - With ?apply=1 the stored totals are overwritten with the computed values
+ *
+ * This endpoint should be called daily by Vercel Cron (report only)
+ * Protected by CRON_SECRET environment variable
+ */
+export async function GET(request: Request) {
+  try {
+    // Verify request is from Vercel Cron
+    const authHeader = request.headers.get("authorization");
+    const cronSecret = process.env.CRON_SECRET;
+
+    // In development, allow without auth for testing
+    const isDev = process.env.NODE_ENV === "development";
+
+    if (!isDev && cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+      console.error("[Cron] Unauthorized request to reconcile-wallets");
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const apply = searchParams.get("apply") === "1";
+
+    console.log(`[Cron] Starting wallet reconciliation job (${apply ? "apply" : "report only"})...`);
+
+    const { checked, drifted } = await reconcileAllWallets({ apply });
+
+    for (const wallet of drifted) {
+      console.warn(`[Cron] Wallet ${wallet.wallet_id} drift:`, wallet.drift, wallet.corrected ? "(corrected)" : "");
+    }
+
+    console.log(`[Cron] Wallet reconciliation complete. Checked: ${checked}, Drifted: ${drifted.length}`);
+
+    return NextResponse.json({
+      success: true,
+      message: `Checked ${checked} wallets, ${drifted.length} with drift`,
+      checked,
+      drifted: drifted.length,
+      applied: apply,
+      wallets: drifted,
+    });
+  } catch (error: unknown) {
+    console.error("[Cron] Error in wallet reconciliation job:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to reconcile wallets",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
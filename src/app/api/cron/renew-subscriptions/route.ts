@@ -0,0 +1,168 @@
+import { NextResponse } from "next/server";
+import { repositories, type JobRunUpdate } from "@/lib/repositories";
+import type { JobRunRecord } from "@/lib/airtable";
+import { logEvent } from "@/lib/events";
+import { renewSubscription } from "@/lib/subscriptions";
+import { getErrorMessage } from "@/lib/utils";
+
+/**
+ * Persist the outcome of a run; a failing audit write never fails the job itself
+ */
+async function finishJobRun(jobRun: JobRunRecord | null, fields: JobRunUpdate) {
+  if (!jobRun) return;
+  try {
+    await repositories.jobRuns.update(jobRun.id, {
+      ...fields,
+      finished_at: new Date().toISOString(),
+    });
+  } catch (error: unknown) {
+    console.error("[Cron] Failed to record job run:", getErrorMessage(error));
+  }
+}
+
+/**
+ * GET /api/cron/renew-subscriptions
+ *
+ * Cron job to renew yearly credit bundle subscriptions
+ * - Finds active and cancelled subscriptions whose anniversary (next_renewal_at) has passed
+ * - Active: creates the next purchase transaction (fresh credits with validity_months,
+ *   status "open" so the invoice is queued) and moves next_renewal_at one year ahead
+ * - Cancelled: ends the subscription
+ * - Subscriptions with unreadable invoice details are skipped (not charged, still due)
+ *   and fail the run
+ * - Records every run in the Job Runs table (see /api/admin/job-runs?job=renew_subscriptions);
+ *   batches_* count subscriptions
+ *
+ * This endpoint should be called daily by Vercel Cron
+ * Protected by CRON_SECRET environment variable
+ */
+export async function GET(request: Request) {
+  let jobRun: JobRunRecord | null = null;
+
+  try {
+    // Verify request is from Vercel Cron
+    const authHeader = request.headers.get("authorization");
+    const cronSecret = process.env.CRON_SECRET;
+
+    // In development, allow without auth for testing
+    const isDev = process.env.NODE_ENV === "development";
+
+    if (!isDev && cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+      console.error("[Cron] Unauthorized request to renew-subscriptions");
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    console.log("[Cron] Starting subscription renewal job...");
+
+    try {
+      jobRun = await repositories.jobRuns.create({ job: "renew_subscriptions", dry_run: false });
+    } catch (error: unknown) {
+      console.error("[Cron] Failed to record job run start:", getErrorMessage(error));
+    }
+
+    const dueSubscriptions = await repositories.subscriptions.getDue();
+
+    console.log(`[Cron] Found ${dueSubscriptions.length} subscriptions due for renewal`);
+
+    const results = {
+      renewed: 0,
+      ended: 0,
+      skipped: 0,
+      failed: 0,
+      totalCredits: 0,
+      errors: [] as string[],
+    };
+
+    for (const subscription of dueSubscriptions) {
+      try {
+        const result = await renewSubscription(subscription);
+
+        if (result.outcome === "renewed" && result.transaction) {
+          results.renewed++;
+          results.totalCredits += result.transaction.total_credits || 0;
+
+          await logEvent({
+            event_type: "subscription_renewed",
+            target_user_id: subscription.user_id || null,
+            employer_id: subscription.employer_id || null,
+            source: "system",
+            payload: {
+              subscription_id: subscription.id,
+              product_id: subscription.product_id,
+              transaction_id: result.transaction.id,
+              credits: result.transaction.total_credits,
+              amount: result.transaction.total_cost,
+              renewal_number: result.subscription.renewal_count,
+              next_renewal_at: result.subscription.next_renewal_at,
+            },
+          });
+
+          console.log(`[Cron] Renewed subscription ${subscription.id}: ${result.transaction.total_credits} credits`);
+        } else if (result.outcome === "skipped") {
+          results.skipped++;
+          results.errors.push(`Subscription ${subscription.id}: skipped, ${result.reason}`);
+          console.error(`[Cron] Skipped subscription ${subscription.id}: ${result.reason}`);
+        } else {
+          results.ended++;
+
+          await logEvent({
+            event_type: "subscription_ended",
+            target_user_id: subscription.user_id || null,
+            employer_id: subscription.employer_id || null,
+            source: "system",
+            payload: {
+              subscription_id: subscription.id,
+              product_id: subscription.product_id,
+              reason: result.reason,
+            },
+          });
+
+          console.log(`[Cron] Ended subscription ${subscription.id} (${result.reason})`);
+        }
+      } catch (error: unknown) {
+        results.failed++;
+        results.errors.push(`Subscription ${subscription.id}: ${getErrorMessage(error)}`);
+        console.error(`[Cron] Failed to renew subscription ${subscription.id}:`, getErrorMessage(error));
+      }
+    }
+
+    console.log(`[Cron] Subscription renewal job complete. Renewed: ${results.renewed}, Ended: ${results.ended}, Skipped: ${results.skipped}, Failed: ${results.failed}`);
+
+    const succeeded = results.failed === 0 && results.skipped === 0;
+    await finishJobRun(jobRun, {
+      status: succeeded ? "success" : "failed",
+      batches_seen: dueSubscriptions.length,
+      batches_processed: results.renewed + results.ended,
+      batches_failed: results.skipped + results.failed,
+      errors: results.errors.length > 0 ? results.errors.join("\n") : null,
+    });
+
+    return NextResponse.json({
+      success: succeeded,
+      job_run_id: jobRun?.id ?? null,
+      message: `Renewed ${results.renewed} subscriptions, ended ${results.ended}, skipped ${results.skipped}`,
+      renewed: results.renewed,
+      ended: results.ended,
+      skipped: results.skipped,
+      failed: results.failed,
+      totalCredits: results.totalCredits,
+      errors: results.errors.length > 0 ? results.errors : undefined,
+    });
+  } catch (error: unknown) {
+    console.error("[Cron] Error in subscription renewal job:", error);
+
+    await finishJobRun(jobRun, {
+      status: "failed",
+      errors: getErrorMessage(error),
+    });
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to renew subscriptions",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,77 @@
+import { NextResponse } from "next/server";
+import { isWebflowConfigured } from "@/lib/webflow";
+import { syncPendingWebflowItems, syncWebflowCatalog } from "@/lib/webflow-sync";
+
+/**
+ * GET /api/cron/webflow-sync
+ *
+ * Cron job that keeps the Webflow CMS in sync with Airtable (replaces the n8n workflows)
+ * - Default: employers and vacancies flagged with needs_webflow_sync / needs_webflow_archive
+ *   (max 10 of each per run; failed items keep their flag and are retried next run)
+ * - ?scope=catalog: lookups, features and products
+ *
+ * Set WEBFLOW_API_BASE_URL to run against a local fake Webflow API
+ * This endpoint should be called every 15 minutes (catalog: daily) by Vercel Cron
+ * Protected by CRON_SECRET environment variable
+ */
+export async function GET(request: Request) {
+  try {
+    // Verify request is from Vercel Cron
+    const authHeader = request.headers.get("authorization");
+    const cronSecret = process.env.CRON_SECRET;
+
+    // In development, allow without auth for testing
+    const isDev = process.env.NODE_ENV === "development";
+
+    if (!isDev && cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+      console.error("[Cron] Unauthorized request to webflow-sync");
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!isWebflowConfigured()) {
+      console.warn("[Cron] Webflow sync skipped: WEBFLOW_API_TOKEN is not configured");
+      return NextResponse.json(
+        { success: false, error: "Webflow is not configured" },
+        { status: 503 }
+      );
+    }
+
+    const scope = new URL(request.url).searchParams.get("scope") === "catalog" ? "catalog" : "pending";
+    console.log(`[Cron] Starting Webflow sync job (${scope})...`);
+
+    const report = scope === "catalog"
+      ? await syncWebflowCatalog()
+      : await syncPendingWebflowItems();
+
+    const changed = report.results.filter((r) => !r.error && r.action !== "unchanged" && r.action !== "skipped");
+    for (const result of changed) {
+      console.log(`[Cron] Webflow ${result.action} ${result.collection} ${result.record_id || "(orphan)"} → ${result.webflow_item_id}`);
+    }
+
+    console.log(`[Cron] Webflow sync job complete. Succeeded: ${report.succeeded}, Failed: ${report.failed}`);
+
+    const errors = report.results
+      .filter((r) => r.error)
+      .map((r) => `${r.collection} ${r.record_id || r.webflow_item_id}: ${r.error}`);
+
+    return NextResponse.json({
+      success: report.failed === 0,
+      message: `Synced ${changed.length} Webflow items (${scope})`,
+      scope,
+      succeeded: report.succeeded,
+      failed: report.failed,
+      results: report.results,
+      errors: errors.length > 0 ? errors : undefined,
+    });
+  } catch (error: unknown) {
+    console.error("[Cron] Error in Webflow sync job:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to sync Webflow",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,93 @@
+import { NextResponse } from "next/server";
+import { getErrorMessage } from "@/lib/utils";
+import {
+  getJobFeedItems,
+  getJobFeedProfile,
+  getJobFeedVacancies,
+  getJobFeedVersion,
+  renderJobFeed,
+  type JobFeedItem,
+} from "@/lib/job-feed";
+
+/**
+ * GET /api/feeds/[profile]
+ * XML job feed of the published vacancies for an aggregator
+ * Profiles: indeed, jooble, nationale-vacaturebank (see lib/job-feed.ts)
+ *
+ * Public. Supports conditional requests: If-None-Match (ETag) and If-Modified-Since
+ * (Last-Modified) return 304 while no vacancy was added, removed or changed
+ * When the vacancies can't be loaded the feed answers 503, never an empty feed
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ profile: string }> }
+) {
+  try {
+    const { profile: profileId } = await params;
+    const profile = getJobFeedProfile(profileId);
+    if (!profile) {
+      return NextResponse.json({ error: "Onbekende feed" }, { status: 404 });
+    }
+
+    // An empty feed would make the aggregator take every vacancy offline: ask it to retry
+    let items: JobFeedItem[];
+    try {
+      items = await getJobFeedItems(await getJobFeedVacancies());
+    } catch (error: unknown) {
+      console.error(`Error loading ${profile.id} job feed:`, getErrorMessage(error));
+      return NextResponse.json(
+        { error: "De feed is tijdelijk niet beschikbaar" },
+        { status: 503, headers: { "Retry-After": "300" } }
+      );
+    }
+
+    const { etag, lastModified } = getJobFeedVersion(profile, items);
+    const headers: Record<string, string> = {
+      ETag: etag,
+      "Cache-Control": "public, max-age=0, s-maxage=900, stale-while-revalidate=3600",
+      ...(lastModified && { "Last-Modified": lastModified.toUTCString() }),
+    };
+
+    // ETag wins over If-Modified-Since (RFC 9110)
+    const ifNoneMatch = request.headers.get("if-none-match");
+    const ifModifiedSince = request.headers.get("if-modified-since");
+    const notModified = ifNoneMatch
+      ? ifNoneMatch.split(",").some((tag) => tag.trim() === etag || tag.trim() === "*")
+      : !!ifModifiedSince && !!lastModified &&
+        Math.floor(lastModified.getTime() / 1000) <= Math.floor(new Date(ifModifiedSince).getTime() / 1000);
+    if (notModified) {
+      return new NextResponse(null, { status: 304, headers });
+    }
+
+    const chunks = renderJobFeed(profile, items, lastModified || new Date());
+    const encoder = new TextEncoder();
+    const body = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        try {
+          const { value, done } = chunks.next();
+          if (done) {
+            controller.close();
+          } else {
+            controller.enqueue(encoder.encode(value));
+          }
+        } catch (error: unknown) {
+          console.error(`Error streaming ${profile.id} job feed:`, getErrorMessage(error));
+          controller.error(error);
+        }
+      },
+      cancel() {
+        chunks.return(undefined);
+      },
+    });
+
+    return new NextResponse(body, {
+      headers: { ...headers, "Content-Type": "application/xml; charset=utf-8" },
+    });
+  } catch (error: unknown) {
+    console.error("Error building job feed:", getErrorMessage(error));
+    return NextResponse.json(
+      { error: "Er ging iets mis bij het ophalen van de feed" },
+      { status: 500 }
+    );
+  }
+}
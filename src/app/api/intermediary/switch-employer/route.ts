@@ -1,9 +1,5 @@
 import { authOptions } from "@/lib/auth";
-import {
-  getUserByEmail,
-  setActiveEmployer,
-  getEmployerById,
-} from "@/lib/airtable";
+import { repositories } from "@/lib/repositories";
 import { logEvent, getClientIP } from "@/lib/events";
 import { getErrorMessage } from "@/lib/utils";
 import { NextResponse } from "next/server";
@@ -31,7 +27,7 @@ export async function POST(request: Request) {
     }
 
     // Get user from database
-    const user = await getUserByEmail(session.user.email);
+    const user = await repositories.users.getByEmail(session.user.email);
 
     if (!user) {
       return NextResponse.json({ error: "User not found" }, { status: 404 });
@@ -54,10 +50,10 @@ export async function POST(request: Request) {
     }
 
     // Set the active employer
-    await setActiveEmployer(user.id, employer_id);
+    await repositories.users.setActiveEmployer(user.id, employer_id);
 
     // Get employer data to return
-    const employer = await getEmployerById(employer_id);
+    const employer = await repositories.employers.getById(employer_id);
 
     if (!employer) {
       return NextResponse.json({ error: "Employer not found" }, { status: 404 });
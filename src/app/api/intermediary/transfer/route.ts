@@ -0,0 +1,182 @@
+import { randomUUID } from "crypto";
+import { authOptions } from "@/lib/auth";
+import { repositories } from "@/lib/repositories";
+import { logEvent, getClientIP } from "@/lib/events";
+import { getIdempotencyKey, transferCredits } from "@/lib/ledger";
+import { getErrorMessage } from "@/lib/utils";
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { z } from "zod";
+
+const transferSchema = z.object({
+  employer_id: z.string().min(1),
+  direction: z.enum(["to_employer", "to_intermediary"]),
+  credits: z.number().int().positive(),
+});
+
+/**
+ * GET /api/intermediary/transfer
+ * Returns the intermediary wallet balance and the balance of each managed employer wallet
+ */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Niet ingelogd" }, { status: 401 });
+    }
+
+    const user = await repositories.users.getByEmail(session.user.email);
+    if (!user) {
+      return NextResponse.json({ error: "Gebruiker niet gevonden" }, { status: 404 });
+    }
+
+    if (user.role_id !== "intermediary") {
+      return NextResponse.json(
+        { error: "Alleen intermediairs kunnen credits overboeken" },
+        { status: 403 }
+      );
+    }
+
+    const [wallet, managedEmployers] = await Promise.all([
+      repositories.wallets.getByUserId(user.id),
+      repositories.employers.getManagedByUserId(user.id),
+    ]);
+
+    const employers = await Promise.all(
+      managedEmployers.map(async (employer) => {
+        const employerWallet = await repositories.wallets.getByEmployerId(employer.id);
+        return {
+          id: employer.id,
+          name: employer.display_name || employer.company_name || "Onbekend",
+          balance: employerWallet?.balance ?? 0,
+        };
+      })
+    );
+
+    return NextResponse.json({
+      balance: wallet?.balance ?? 0,
+      employers,
+    });
+  } catch (error: unknown) {
+    console.error("[Transfer GET] error:", getErrorMessage(error));
+    return NextResponse.json(
+      { error: "Er ging iets mis bij het ophalen van de wallets" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/intermediary/transfer
+ * Moves credits between the intermediary wallet and a managed employer wallet
+ * Body: { employer_id: string, direction: "to_employer" | "to_intermediary", credits: number }
+ * - Credits keep their batch expiry dates (FIFO)
+ * - Writes paired "adjustment" transactions on both wallets
+ */
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Niet ingelogd" }, { status: 401 });
+    }
+
+    const user = await repositories.users.getByEmail(session.user.email);
+    if (!user) {
+      return NextResponse.json({ error: "Gebruiker niet gevonden" }, { status: 404 });
+    }
+
+    if (user.role_id !== "intermediary") {
+      return NextResponse.json(
+        { error: "Alleen intermediairs kunnen credits overboeken" },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const parseResult = transferSchema.safeParse(body);
+    if (!parseResult.success) {
+      return NextResponse.json(
+        { error: "Ongeldige invoer", details: parseResult.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { employer_id, direction, credits } = parseResult.data;
+
+    if (!user.managed_employers?.includes(employer_id)) {
+      return NextResponse.json(
+        { error: "Deze werkgever wordt niet door jou beheerd" },
+        { status: 403 }
+      );
+    }
+
+    const intermediaryWallet = await repositories.wallets.getByUserId(user.id);
+    if (!intermediaryWallet) {
+      return NextResponse.json({ error: "Geen wallet gevonden" }, { status: 400 });
+    }
+
+    // Managed employers without a wallet get one on their first transfer
+    const employerWallet = await repositories.wallets.getByEmployerId(employer_id)
+      ?? (direction === "to_employer" ? await repositories.wallets.createForEmployer(employer_id) : null);
+    if (!employerWallet) {
+      return NextResponse.json({ error: "Werkgever heeft geen wallet" }, { status: 400 });
+    }
+
+    const fromWallet = direction === "to_employer" ? intermediaryWallet : employerWallet;
+    const toWallet = direction === "to_employer" ? employerWallet : intermediaryWallet;
+
+    if (fromWallet.balance < credits) {
+      return NextResponse.json(
+        { error: "Onvoldoende credits om over te boeken" },
+        { status: 400 }
+      );
+    }
+
+    const transfer = await transferCredits({
+      idempotencyKey: getIdempotencyKey(request, `transfer:${user.id}`) ?? `transfer:${user.id}:${randomUUID()}`,
+      user_id: user.id,
+      from_wallet: fromWallet,
+      to_wallet: toWallet,
+      credits,
+      employer_id,
+    });
+
+    const [updatedIntermediaryWallet, updatedEmployerWallet] = await Promise.all([
+      repositories.wallets.getById(intermediaryWallet.id),
+      repositories.wallets.getById(employerWallet.id),
+    ]);
+
+    if (!transfer.replayed) {
+      await logEvent({
+        event_type: "credits_transferred",
+        actor_user_id: user.id,
+        employer_id,
+        source: "web",
+        ip_address: getClientIP(request),
+        payload: {
+          direction,
+          credits,
+          transfer_id: transfer.transaction.transfer_id,
+          from_wallet_id: fromWallet.id,
+          to_wallet_id: toWallet.id,
+          batches_used: transfer.batchesUsed,
+        },
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      transfer_id: transfer.transaction.transfer_id,
+      balance: updatedIntermediaryWallet?.balance ?? 0,
+      employer_balance: updatedEmployerWallet?.balance ?? 0,
+    });
+  } catch (error: unknown) {
+    console.error("[Transfer POST] error:", getErrorMessage(error));
+    return NextResponse.json(
+      { error: "Er ging iets mis bij het overboeken van de credits" },
+      { status: 500 }
+    );
+  }
+}
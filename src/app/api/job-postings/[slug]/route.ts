@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+import { getErrorMessage } from "@/lib/utils";
+import { resolveVacancySlug, WEBSITE_URL } from "@/lib/slugs";
+import { getVacancyJobPosting } from "@/lib/job-posting";
+
+/**
+ * GET /api/job-postings/[slug]
+ * schema.org JobPosting JSON-LD of a published vacancy, for Google for Jobs
+ * The vacancy page on the website loads it into a <script type="application/ld+json">
+ *
+ * Public: only published vacancies; previous slugs resolve to the current vacancy
+ */
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  try {
+    const { slug } = await params;
+
+    const vacancy = await resolveVacancySlug(slug);
+    if (!vacancy || vacancy.status !== "gepubliceerd") {
+      return NextResponse.json({ error: "Vacature niet gevonden" }, { status: 404 });
+    }
+
+    const { jobPosting } = await getVacancyJobPosting(vacancy);
+
+    return new NextResponse(JSON.stringify(jobPosting), {
+      headers: {
+        "Content-Type": "application/ld+json; charset=utf-8",
+        "Access-Control-Allow-Origin": WEBSITE_URL,
+        "Cache-Control": "public, s-maxage=300, stale-while-revalidate=3600",
+      },
+    });
+  } catch (error: unknown) {
+    console.error("Error building job posting:", getErrorMessage(error));
+    return NextResponse.json(
+      { error: "Er ging iets mis bij het ophalen van de vacature" },
+      { status: 500 }
+    );
+  }
+}
@@ -2,48 +2,41 @@ import { NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import { unstable_cache } from "next/cache";
-import {
-  getAllLookups,
-  getEducationLevels,
-  getFields,
-  getFunctionTypes,
-  getRegions,
-  getSectors,
-} from "@/lib/airtable";
+import { repositories } from "@/lib/repositories";
 import { getErrorMessage, sortLookupWithOverigeLast } from "@/lib/utils";
 
 const getCachedAllLookups = unstable_cache(
-  async () => getAllLookups(),
+  async () => repositories.lookups.getAll(),
   ["all-lookups"],
   { revalidate: 600 }
 );
 
 const getCachedEducationLevels = unstable_cache(
-  async () => sortLookupWithOverigeLast(await getEducationLevels()),
+  async () => sortLookupWithOverigeLast(await repositories.lookups.getEducationLevels()),
   ["lookups-education-levels"],
   { revalidate: 600 }
 );
 
 const getCachedFields = unstable_cache(
-  async () => sortLookupWithOverigeLast(await getFields()),
+  async () => sortLookupWithOverigeLast(await repositories.lookups.getFields()),
   ["lookups-fields"],
   { revalidate: 600 }
 );
 
 const getCachedFunctionTypes = unstable_cache(
-  async () => sortLookupWithOverigeLast(await getFunctionTypes()),
+  async () => sortLookupWithOverigeLast(await repositories.lookups.getFunctionTypes()),
   ["lookups-function-types"],
   { revalidate: 600 }
 );
 
 const getCachedRegions = unstable_cache(
-  async () => sortLookupWithOverigeLast(await getRegions()),
+  async () => sortLookupWithOverigeLast(await repositories.lookups.getRegions()),
   ["lookups-regions"],
   { revalidate: 600 }
 );
 
 const getCachedSectors = unstable_cache(
-  async () => sortLookupWithOverigeLast(await getSectors()),
+  async () => sortLookupWithOverigeLast(await repositories.lookups.getSectors()),
   ["lookups-sectors"],
   { revalidate: 600 }
 );
@@ -1,17 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
-import {
-  getUserByEmail,
-  getEmployerById,
-  getMediaAssetsByEmployerId,
-  getMediaAssetsByIds,
-  createMediaAsset,
-  updateMediaAsset,
-  deleteMediaAsset,
-  updateEmployer,
-  MediaAssetRecord,
-} from "@/lib/airtable";
+import type { MediaAssetRecord } from "@/lib/airtable";
+import { repositories } from "@/lib/repositories";
 import { logEvent, getClientIP } from "@/lib/events";
 import { getErrorMessage } from "@/lib/utils";
 import { generateAltText } from "@/lib/image-processing";
@@ -99,7 +90,7 @@ async function getSessionData(request: NextRequest): Promise<SessionData | NextR
   // Get user record to access employer_id or active_employer
   let user = null;
   if ((!employerId || !userId) && session.user.email) {
-    user = await getUserByEmail(session.user.email);
+    user = await repositories.users.getByEmail(session.user.email);
     userId = userId || user?.id || null;
     
     // For intermediaries, use active_employer instead of employer_id
@@ -141,7 +132,7 @@ export async function GET(request: NextRequest) {
     const { employerId } = sessionData;
 
     // Get employer to find linked media asset IDs
-    const employer = await getEmployerById(employerId);
+    const employer = await repositories.employers.getById(employerId);
     if (!employer) {
       return NextResponse.json(
         { error: "Werkgever niet gevonden" },
@@ -152,7 +143,7 @@ export async function GET(request: NextRequest) {
     // Get logo (single)
     let logo: MediaAssetRecord | null = null;
     if (employer.logo && employer.logo.length > 0) {
-      const logos = await getMediaAssetsByIds(employer.logo);
+      const logos = await repositories.mediaAssets.getByIds(employer.logo);
       logo = logos[0] || null;
     }
 
@@ -161,7 +152,7 @@ export async function GET(request: NextRequest) {
 
     // Get ALL sfeerbeelden for this employer (not just those selected for profile)
     // This is the full media library / beeldbank
-    const allSfeerbeelden = await getMediaAssetsByEmployerId(employerId, { type: "sfeerbeeld" });
+    const allSfeerbeelden = await repositories.mediaAssets.getByEmployerId(employerId, { type: "sfeerbeeld" });
 
     // Transform to frontend format
     const transformAsset = (asset: MediaAssetRecord) => {
@@ -225,7 +216,7 @@ export async function POST(request: NextRequest) {
 
     // For gallery images, check max limit (double-check, signature endpoint also checks)
     if (type === "sfeerbeeld") {
-      const allSfeerbeelden = await getMediaAssetsByEmployerId(employerId, { type: "sfeerbeeld" });
+      const allSfeerbeelden = await repositories.mediaAssets.getByEmployerId(employerId, { type: "sfeerbeeld" });
       if (allSfeerbeelden.length >= MAX_GALLERY_IMAGES) {
         return NextResponse.json(
           { error: `Je kunt maximaal ${MAX_GALLERY_IMAGES} afbeeldingen uploaden` },
@@ -237,7 +228,7 @@ export async function POST(request: NextRequest) {
     // Get employer to check for existing media
     let employer;
     try {
-      employer = await getEmployerById(employerId);
+      employer = await repositories.employers.getById(employerId);
     } catch (error) {
       console.error("Error fetching employer:", getErrorMessage(error));
       return NextResponse.json(
@@ -256,7 +247,7 @@ export async function POST(request: NextRequest) {
     // If uploading a new logo, soft delete the old one
     if (type === "logo" && employer?.logo?.[0]) {
       try {
-        await deleteMediaAsset(employer.logo[0]);
+        await repositories.mediaAssets.delete(employer.logo[0]);
       } catch (error) {
         // Log but don't fail - old logo cleanup is not critical
         console.error("Error deleting old logo:", getErrorMessage(error));
@@ -278,7 +269,7 @@ export async function POST(request: NextRequest) {
 
     let mediaAsset;
     try {
-      mediaAsset = await createMediaAsset({
+      mediaAsset = await repositories.mediaAssets.create({
         employer_id: employerId,
         type: type,
         file: [{ url: cloudinaryResult.secure_url }],
@@ -298,7 +289,7 @@ export async function POST(request: NextRequest) {
     // Note: needs_webflow_sync is NOT set here - it's only set when user clicks "Opslaan" on werkgeversprofiel
     if (type === "logo") {
       try {
-        await updateEmployer(employerId, { logo: [mediaAsset.id] });
+        await repositories.employers.update(employerId, { logo: [mediaAsset.id] });
       } catch (error) {
         console.error("Error updating employer with new logo:", getErrorMessage(error));
         return NextResponse.json(
@@ -416,7 +407,7 @@ export async function PATCH(request: NextRequest) {
     const { assetId, action } = parsed.data;
 
     // Verify asset belongs to this employer
-    const employer = await getEmployerById(employerId);
+    const employer = await repositories.employers.getById(employerId);
     
     if (!employer) {
       return NextResponse.json(
@@ -425,7 +416,7 @@ export async function PATCH(request: NextRequest) {
       );
     }
     
-    const allAssets = await getMediaAssetsByEmployerId(employerId, { type: "sfeerbeeld" });
+    const allAssets = await repositories.mediaAssets.getByEmployerId(employerId, { type: "sfeerbeeld" });
     const assetBelongsToEmployer = allAssets.some((asset) => asset.id === assetId);
     
     if (!assetBelongsToEmployer) {
@@ -438,7 +429,7 @@ export async function PATCH(request: NextRequest) {
     if (action === "set_header") {
       // Update employer's header_image
       // Note: needs_webflow_sync is NOT set here - it's only set when user clicks "Opslaan" on werkgeversprofiel
-      await updateEmployer(employerId, { header_image: [assetId] });
+      await repositories.employers.update(employerId, { header_image: [assetId] });
 
       // Log event
       await logEvent({
@@ -463,7 +454,7 @@ export async function PATCH(request: NextRequest) {
       // Only remove if this is the current header
       // Note: needs_webflow_sync is NOT set here - it's only set when user clicks "Opslaan" on werkgeversprofiel
       if (employer.header_image?.[0] === assetId) {
-        await updateEmployer(employerId, { header_image: [] });
+        await repositories.employers.update(employerId, { header_image: [] });
       }
 
       return NextResponse.json({
@@ -517,7 +508,7 @@ export async function DELETE(request: NextRequest) {
       );
     }
 
-    const employer = await getEmployerById(employerId);
+    const employer = await repositories.employers.getById(employerId);
     if (!employer) {
       return NextResponse.json(
         { error: "Werkgever niet gevonden" },
@@ -527,7 +518,7 @@ export async function DELETE(request: NextRequest) {
 
     // Verify asset belongs to this employer by checking all sfeerbeelden
     if (type === "sfeerbeeld") {
-      const allAssets = await getMediaAssetsByEmployerId(employerId, { type: "sfeerbeeld" });
+      const allAssets = await repositories.mediaAssets.getByEmployerId(employerId, { type: "sfeerbeeld" });
       const assetBelongsToEmployer = allAssets.some((asset) => asset.id === assetId);
       
       if (!assetBelongsToEmployer) {
@@ -542,18 +533,18 @@ export async function DELETE(request: NextRequest) {
       const wasInGallery = employer.gallery?.includes(assetId);
       if (wasInGallery) {
         const newGallery = employer.gallery!.filter((id) => id !== assetId);
-        await updateEmployer(employerId, { gallery: newGallery });
+        await repositories.employers.update(employerId, { gallery: newGallery });
       }
 
       // If this was the header image, also clear that
       const wasHeader = employer.header_image?.[0] === assetId;
       if (wasHeader) {
-        await updateEmployer(employerId, { header_image: [] });
+        await repositories.employers.update(employerId, { header_image: [] });
       }
     }
 
     // Soft delete the media asset
-    await deleteMediaAsset(assetId);
+    await repositories.mediaAssets.delete(assetId);
 
     // Log event
     await logEvent({
@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
-import { getUserByEmail, getEmployerById, getMediaAssetsByEmployerId } from "@/lib/airtable";
+import { repositories } from "@/lib/repositories";
 import { v2 as cloudinary } from "cloudinary";
 
 // Configure Cloudinary
@@ -32,7 +32,7 @@ export async function POST(request: NextRequest) {
     // Get user record to access employer_id or active_employer
     let user = null;
     if ((!employerId || !userId) && session.user.email) {
-      user = await getUserByEmail(session.user.email);
+      user = await repositories.users.getByEmail(session.user.email);
       userId = userId || user?.id || null;
       
       // For intermediaries, use active_employer instead of employer_id
@@ -76,7 +76,7 @@ export async function POST(request: NextRequest) {
 
     // For gallery images, check max limit before allowing upload
     if (type === "sfeerbeeld") {
-      const allSfeerbeelden = await getMediaAssetsByEmployerId(employerId, { type: "sfeerbeeld" });
+      const allSfeerbeelden = await repositories.mediaAssets.getByEmployerId(employerId, { type: "sfeerbeeld" });
       if (allSfeerbeelden.length >= MAX_GALLERY_IMAGES) {
         return NextResponse.json(
           { error: `Je kunt maximaal ${MAX_GALLERY_IMAGES} afbeeldingen uploaden` },
@@ -1,9 +1,5 @@
 import { authOptions } from "@/lib/auth";
-import { 
-  getEmployerById, 
-  getUserByEmail,
-  updateUser 
-} from "@/lib/airtable";
+import { repositories } from "@/lib/repositories";
 import { doDomainsMatch } from "@/lib/validation";
 import { logEvent, getClientIP } from "@/lib/events";
 import { checkRateLimit, onboardingRateLimiter, getIdentifier } from "@/lib/rate-limit";
@@ -58,7 +54,7 @@ export async function POST(request: Request) {
     const { email, employer_id } = parsed.data;
 
     // Get the employer to check website_url
-    const employer = await getEmployerById(employer_id);
+    const employer = await repositories.employers.getById(employer_id);
     if (!employer) {
       return NextResponse.json(
         { error: "Werkgever niet gevonden" },
@@ -67,7 +63,7 @@ export async function POST(request: Request) {
     }
 
     // Check if user already exists
-    const existingUser = await getUserByEmail(email);
+    const existingUser = await repositories.users.getByEmail(email);
     if (existingUser && existingUser.status === "active") {
       return NextResponse.json(
         { error: "Er bestaat al een account met dit e-mailadres. Log in om verder te gaan." },
@@ -140,7 +136,7 @@ export async function PATCH(request: Request) {
     const clientIP = getClientIP(request);
 
     // Verify the employer exists
-    const employer = await getEmployerById(employer_id);
+    const employer = await repositories.employers.getById(employer_id);
     if (!employer) {
       return NextResponse.json(
         { error: "Werkgever niet gevonden" },
@@ -157,7 +153,7 @@ export async function PATCH(request: Request) {
     }
 
     // Get user from database
-    const user = await getUserByEmail(session.user.email);
+    const user = await repositories.users.getByEmail(session.user.email);
     
     if (!user) {
       return NextResponse.json(
@@ -165,7 +161,7 @@ export async function PATCH(request: Request) {
         { status: 404 }
       );
     }
-    const updatedUser = await updateUser(user.id, {
+    const updatedUser = await repositories.users.update(user.id, {
       employer_id,
       status: "active",
     });
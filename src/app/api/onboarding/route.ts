@@ -1,5 +1,5 @@
 import { authOptions } from "@/lib/auth";
-import { createEmployer, createUser, createWallet, updateEmployer, updateUser, getUserByEmail, getEmployerByKVK, getEmployerById, deleteUser, deleteEmployer, deleteWalletByEmployerId, deleteMediaAsset } from "@/lib/airtable";
+import { repositories } from "@/lib/repositories";
 import { logEvent, getClientIP } from "@/lib/events";
 import { getErrorMessage } from "@/lib/utils";
 import { checkRateLimit, onboardingRateLimiter, getIdentifier } from "@/lib/rate-limit";
@@ -66,7 +66,7 @@ export async function POST(request: Request) {
     const clientIP = getClientIP(request);
 
     // Check if user already exists
-    const existingUser = await getUserByEmail(email);
+    const existingUser = await repositories.users.getByEmail(email);
 
     let userId: string;
     let employerId: string | null = null;
@@ -77,7 +77,7 @@ export async function POST(request: Request) {
         // User exists but hasn't verified yet - allow them to continue
         // Update their name/role if provided
         if (first_name || last_name || role) {
-          await updateUser(existingUser.id, {
+          await repositories.users.update(existingUser.id, {
             first_name: first_name || existingUser.first_name,
             last_name: last_name || existingUser.last_name,
           });
@@ -109,7 +109,7 @@ export async function POST(request: Request) {
     } else if (joinMode) {
       // JOIN MODE: Create user WITHOUT creating a new employer
       // User will be linked to existing employer after email verification
-      const user = await createUser({
+      const user = await repositories.users.create({
         email,
         status: "pending_onboarding",
         first_name,
@@ -154,7 +154,7 @@ export async function POST(request: Request) {
       // NORMAL MODE: Create user WITHOUT employer
       // Employer will be created in step 2 when user submits company details
       // This allows users to switch to join flow without creating empty employers
-      const user = await createUser({
+      const user = await repositories.users.create({
         email,
         status: "pending_onboarding",
         first_name,
@@ -229,7 +229,7 @@ export async function PATCH(request: Request) {
     const clientIP = getClientIP(request);
 
     // Get user from database by email (more reliable than session.user.id)
-    const user = await getUserByEmail(session.user.email);
+    const user = await repositories.users.getByEmail(session.user.email);
     
     if (!user) {
       return NextResponse.json({ error: "User not found" }, { status: 404 });
@@ -247,7 +247,7 @@ export async function PATCH(request: Request) {
     // Check if this is a user update (has first_name, last_name, or role - these are user-only fields)
     // Note: status alone is not enough to determine user vs employer update
     if (body.first_name !== undefined || body.last_name !== undefined || body.role !== undefined) {
-      const updatedUser = await updateUser(user.id, {
+      const updatedUser = await repositories.users.update(user.id, {
         first_name: body.first_name,
         last_name: body.last_name,
         status: body.status as "pending_onboarding" | "active" | "invited" | "deleted" | undefined,
@@ -268,12 +268,12 @@ export async function PATCH(request: Request) {
       // If user is being activated and has an employer, activate employer, create wallet and log onboarding completion
       if (body.status === "active" && user.employer_id) {
         // Activate the employer as well
-        await updateEmployer(user.employer_id, { status: "active" });
+        await repositories.employers.update(user.employer_id, { status: "active" });
         
         // Create wallet for the employer when user becomes active
         let walletId: string | null = null;
         try {
-          const wallet = await createWallet(user.employer_id);
+          const wallet = await repositories.wallets.createForEmployer(user.employer_id);
           walletId = wallet.id;
         } catch (error) {
           console.error("Failed to create wallet for employer:", user.employer_id, error);
@@ -311,11 +311,11 @@ export async function PATCH(request: Request) {
     if (!employerId) {
       try {
         const { first_name: _fn, last_name: _ln, role: _r, status: _s, ...employerFields } = body;
-        const employer = await createEmployer(employerFields);
+        const employer = await repositories.employers.create(employerFields);
         employerId = employer.id;
         
         // Link user to the new employer
-        await updateUser(user.id, { employer_id: employerId });
+        await repositories.users.update(user.id, { employer_id: employerId });
         
         // Log employer_created event
         await logEvent({
@@ -356,7 +356,7 @@ export async function PATCH(request: Request) {
     }
 
     const { first_name: _fn2, last_name: _ln2, role: _r2, status: _s2, ...employerUpdateFields } = body;
-    const updated = await updateEmployer(employerId, employerUpdateFields);
+    const updated = await repositories.employers.update(employerId, employerUpdateFields);
 
     // Log employer_updated event
     await logEvent({
@@ -375,7 +375,7 @@ export async function PATCH(request: Request) {
       // Create wallet for the employer when they become active
       let walletId: string | null = null;
       try {
-        const wallet = await createWallet(employerId);
+        const wallet = await repositories.wallets.createForEmployer(employerId);
         walletId = wallet.id;
       } catch (error) {
         console.error("Failed to create wallet for employer:", employerId, error);
@@ -426,7 +426,7 @@ export async function GET(request: Request) {
     }
 
     try {
-      const user = await getUserByEmail(session.user.email);
+      const user = await repositories.users.getByEmail(session.user.email);
       
       if (!user) {
         return NextResponse.json({ error: "User not found" }, { status: 404 });
@@ -452,14 +452,14 @@ export async function GET(request: Request) {
   }
 
   try {
-    const existingEmployer = await getEmployerByKVK(kvkNumber);
+    const existingEmployer = await repositories.employers.getByKVK(kvkNumber);
     
     // If an employer exists with this KVK, check if it's the current user's own employer
     if (existingEmployer) {
       const session = await getServerSession(authOptions);
       
       if (session?.user?.email) {
-        const currentUser = await getUserByEmail(session.user.email);
+        const currentUser = await repositories.users.getByEmail(session.user.email);
         
         // If the found employer is the current user's own employer, don't treat it as a duplicate
         if (currentUser?.employer_id === existingEmployer.id) {
@@ -501,7 +501,7 @@ export async function DELETE(request: Request) {
 
   try {
     // Get user from database
-    const user = await getUserByEmail(session.user.email);
+    const user = await repositories.users.getByEmail(session.user.email);
     
     if (!user) {
       return NextResponse.json({ error: "User not found" }, { status: 404 });
@@ -523,7 +523,7 @@ export async function DELETE(request: Request) {
     // Delete the wallet, media assets, and employer (if exists)
     if (user.employer_id) {
       // Get employer to find linked media assets
-      const employer = await getEmployerById(user.employer_id);
+      const employer = await repositories.employers.getById(user.employer_id);
       
       // Soft delete linked media assets (logo, header, gallery)
       if (employer) {
@@ -535,7 +535,7 @@ export async function DELETE(request: Request) {
         
         for (const assetId of mediaAssetIds) {
           try {
-            await deleteMediaAsset(assetId);
+            await repositories.mediaAssets.delete(assetId);
           } catch (error) {
             console.error("Error deleting media asset:", assetId, error);
             // Continue even if media deletion fails
@@ -545,7 +545,7 @@ export async function DELETE(request: Request) {
       
       // Delete wallet (if any)
       try {
-        await deleteWalletByEmployerId(user.employer_id);
+        await repositories.wallets.deleteByEmployerId(user.employer_id);
       } catch (error) {
         console.error("Error deleting wallet:", error);
         // Continue even if wallet deletion fails (wallet might not exist)
@@ -553,7 +553,7 @@ export async function DELETE(request: Request) {
       
       // Then delete employer
       try {
-        await deleteEmployer(user.employer_id);
+        await repositories.employers.delete(user.employer_id);
       } catch (error) {
         console.error("Error deleting employer:", error);
         // Continue with user deletion even if employer deletion fails
@@ -561,7 +561,7 @@ export async function DELETE(request: Request) {
     }
 
     // Delete the user
-    await deleteUser(user.id);
+    await repositories.users.delete(user.id);
 
     return NextResponse.json({ success: true });
   } catch (error: unknown) {
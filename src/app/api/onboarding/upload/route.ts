@@ -1,13 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
-import {
-  getUserByEmail,
-  getEmployerById,
-  createMediaAsset,
-  deleteMediaAsset,
-  updateEmployer,
-} from "@/lib/airtable";
+import { repositories } from "@/lib/repositories";
 import { logEvent, getClientIP } from "@/lib/events";
 import { getErrorMessage } from "@/lib/utils";
 import { generateAltText } from "@/lib/image-processing";
@@ -58,7 +52,7 @@ export async function POST(request: NextRequest) {
     
     // If no employerId in session, try to get it from the user record
     if ((!employerId || !userId) && session.user.email) {
-      const user = await getUserByEmail(session.user.email);
+      const user = await repositories.users.getByEmail(session.user.email);
       employerId = employerId || user?.employer_id || null;
       userId = userId || user?.id || null;
     }
@@ -159,7 +153,7 @@ export async function POST(request: NextRequest) {
         });
 
     // Get employer to check for existing media
-    const employer = await getEmployerById(employerId!);
+    const employer = await repositories.employers.getById(employerId!);
 
     // If replacing existing media, soft delete the old one
     const existingMediaId = type === "logo" 
@@ -168,7 +162,7 @@ export async function POST(request: NextRequest) {
     
     if (existingMediaId) {
       try {
-        await deleteMediaAsset(existingMediaId);
+        await repositories.mediaAssets.delete(existingMediaId);
       } catch (deleteError) {
         console.error("Error deleting old media asset:", deleteError);
         // Continue even if deletion fails
@@ -186,7 +180,7 @@ export async function POST(request: NextRequest) {
       : undefined;
 
     // Note: header images use type "sfeerbeeld" in Media Assets table
-    const mediaAsset = await createMediaAsset({
+    const mediaAsset = await repositories.mediaAssets.create({
       employer_id: employerId!,
       type: type === "logo" ? "logo" : "sfeerbeeld",
       file: [{ url: uploadResult.secure_url }],
@@ -197,12 +191,12 @@ export async function POST(request: NextRequest) {
 
     // Update Employer with linked record to Media Asset
     if (type === "logo") {
-      await updateEmployer(employerId!, { logo: [mediaAsset.id] });
+      await repositories.employers.update(employerId!, { logo: [mediaAsset.id] });
     } else {
       // Header: add to gallery AND set as header_image
       // This ensures the image appears in the media library gallery
       const currentGallery = employer?.gallery || [];
-      await updateEmployer(employerId!, { 
+      await repositories.employers.update(employerId!, { 
         gallery: [...currentGallery, mediaAsset.id],
         header_image: [mediaAsset.id] 
       });
@@ -0,0 +1,95 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { repositories } from "@/lib/repositories";
+import { getErrorMessage } from "@/lib/utils";
+import { logEvent, getClientIP } from "@/lib/events";
+import { generateCreditNote, generateInvoice, hasCreditNote, isInvoiceable } from "@/lib/invoice";
+
+/**
+ * GET /api/orders/[id]/invoice?document=invoice|credit_note
+ * Downloads the invoice PDF of a purchase or of a spend with an invoiced shortage,
+ * or (document=credit_note) the credit note of a refunded invoice.
+ * - Validates the transaction belongs to the user's wallet (or employer)
+ * - Numbers are assigned by the ledger when the transaction is created or refunded;
+ *   only older transactions are numbered on their first download
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const isCreditNote = new URL(request.url).searchParams.get("document") === "credit_note";
+
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Niet ingelogd" }, { status: 401 });
+    }
+
+    const user = await repositories.users.getByEmail(session.user.email);
+    if (!user) {
+      return NextResponse.json({ error: "Gebruiker niet gevonden" }, { status: 404 });
+    }
+
+    const [transaction, wallet] = await Promise.all([
+      repositories.transactions.getById(id),
+      repositories.wallets.getForUser(user),
+    ]);
+
+    if (!transaction) {
+      return NextResponse.json({ error: "Transactie niet gevonden" }, { status: 404 });
+    }
+
+    const isOwnWallet = !!wallet && transaction.wallet_id === wallet.id;
+    const isOwnEmployer = user.role_id !== "intermediary"
+      && !!user.employer_id
+      && transaction.employer_id === user.employer_id;
+    if (!isOwnWallet && !isOwnEmployer) {
+      return NextResponse.json({ error: "Geen toegang tot deze factuur" }, { status: 403 });
+    }
+
+    if (isCreditNote ? !hasCreditNote(transaction) : !isInvoiceable(transaction)) {
+      return NextResponse.json(
+        { error: isCreditNote ? "Voor deze transactie is geen creditnota beschikbaar" : "Voor deze transactie is geen factuur beschikbaar" },
+        { status: 400 }
+      );
+    }
+
+    const { transaction: invoicedTransaction, invoice, pdf, created } = isCreditNote
+      ? await generateCreditNote(transaction)
+      : await generateInvoice(transaction);
+
+    if (created) {
+      await logEvent({
+        event_type: "invoice_created",
+        actor_user_id: user.id,
+        employer_id: transaction.employer_id || null,
+        source: "web",
+        ip_address: getClientIP(request),
+        payload: {
+          transaction_id: invoicedTransaction.id,
+          document: invoice.document,
+          invoice_number: invoice.invoice_number,
+          subtotal: invoice.subtotal,
+          vat: invoice.vat,
+          total: invoice.total,
+        },
+      });
+    }
+
+    return new NextResponse(Buffer.from(pdf), {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="${isCreditNote ? "creditnota" : "factuur"}-${invoice.invoice_number}.pdf"`,
+        "Cache-Control": "private, no-store",
+      },
+    });
+  } catch (error: unknown) {
+    console.error("Error generating invoice:", getErrorMessage(error));
+    return NextResponse.json(
+      { error: "Er ging iets mis bij het maken van de factuur" },
+      { status: 500 }
+    );
+  }
+}
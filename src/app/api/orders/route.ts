@@ -1,15 +1,7 @@
 import { authOptions } from "@/lib/auth";
-import {
-  getTransactionsByEmployerId,
-  getTransactionsByWalletId,
-  getWalletByEmployerId,
-  getWalletByUserId,
-  getUserByEmail,
-  getActiveProductsByType,
-  getManagedEmployers,
-  TransactionRecord,
-  WalletRecord,
-} from "@/lib/airtable";
+import type { TransactionRecord, WalletRecord } from "@/lib/airtable";
+import { hasCreditNote, isInvoiceable } from "@/lib/invoice";
+import { repositories } from "@/lib/repositories";
 import { getErrorMessage } from "@/lib/utils";
 import { NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
@@ -23,7 +15,7 @@ export async function GET() {
     }
 
     // Get user from database to get employer_id
-    const user = await getUserByEmail(session.user.email);
+    const user = await repositories.users.getByEmail(session.user.email);
     
     if (!user) {
       return NextResponse.json({ error: "User not found" }, { status: 404 });
@@ -44,31 +36,31 @@ export async function GET() {
 
     if (isIntermediary) {
       // Intermediary: fetch ALL transactions from user-level wallet (no filtering by employer)
-      wallet = await getWalletByUserId(user.id);
+      wallet = await repositories.wallets.getByUserId(user.id);
       
       if (wallet) {
-        allTransactions = await getTransactionsByWalletId(wallet.id);
+        allTransactions = await repositories.transactions.getByWalletId(wallet.id);
       } else {
         allTransactions = [];
       }
 
       // Build employer name map for display
-      const managedEmployers = await getManagedEmployers(user.id);
+      const managedEmployers = await repositories.employers.getManagedByUserId(user.id);
       for (const employer of managedEmployers) {
         employerNames[employer.id] = employer.display_name || employer.company_name || "Onbekend";
       }
     } else {
       // Regular employer: existing logic
       [allTransactions, wallet] = await Promise.all([
-        getTransactionsByEmployerId(user.employer_id!),
-        getWalletByEmployerId(user.employer_id!),
+        repositories.transactions.getByEmployerId(user.employer_id!),
+        repositories.wallets.getByEmployerId(user.employer_id!),
       ]);
     }
 
     // Fetch products for product name mapping
     const [upsells, packages] = await Promise.all([
-      getActiveProductsByType("upsell"),
-      getActiveProductsByType("vacancy_package"),
+      repositories.products.getActiveByType("upsell"),
+      repositories.products.getActiveByType("vacancy_package"),
     ]);
 
     // Filter out "included" transactions (€0 package-included upsells, not visible in orders)
@@ -93,7 +85,12 @@ export async function GET() {
     };
 
     return NextResponse.json({
-      transactions,
+      // invoice_available / credit_note_available: PDFs via /api/orders/[id]/invoice
+      transactions: transactions.map((tx) => ({
+        ...tx,
+        invoice_available: isInvoiceable(tx),
+        credit_note_available: hasCreditNote(tx),
+      })),
       credits,
       productNames,
       employerNames,
@@ -2,14 +2,8 @@ import { NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import { unstable_cache } from "next/cache";
-import { 
-  getActiveProductsByType,
-  getActiveProductsByTypeAndRole,
-  getUserByEmail,
-  getAllActiveFeatures,
-  ProductRecord,
-  FeatureRecord 
-} from "@/lib/airtable";
+import type { ProductRecord, FeatureRecord } from "@/lib/airtable";
+import { repositories } from "@/lib/repositories";
 import { getErrorMessage } from "@/lib/utils";
 
 // Extended product with populated features
@@ -19,13 +13,13 @@ export interface ProductWithFeatures extends ProductRecord {
 
 const getCachedProductsByTypeAndRole = unstable_cache(
   async (type: string, roleId: string) =>
-    getActiveProductsByTypeAndRole(type as ProductRecord["type"], roleId),
+    repositories.products.getActiveByTypeAndRole(type as ProductRecord["type"], roleId),
   ["products-by-type-role"],
   { revalidate: 300 }
 );
 
 const getCachedFeatures = unstable_cache(
-  async () => getAllActiveFeatures(),
+  async () => repositories.products.getAllActiveFeatures(),
   ["all-active-features"],
   { revalidate: 300 }
 );
@@ -46,7 +40,7 @@ export async function GET(request: Request) {
     }
 
     // Get user to determine role
-    const user = await getUserByEmail(session.user.email);
+    const user = await repositories.users.getByEmail(session.user.email);
     if (!user) {
       return NextResponse.json({ error: "Gebruiker niet gevonden" }, { status: 404 });
     }
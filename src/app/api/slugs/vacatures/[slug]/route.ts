@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { getErrorMessage } from "@/lib/utils";
+import { getVacancyPublicUrl, resolveVacancySlug } from "@/lib/slugs";
+
+/**
+ * GET /api/slugs/vacatures/[slug]
+ * Permanent redirect from a vacancy slug, current or previous, to the vacancy's
+ * current URL on the website, so published URLs keep working after a slug change
+ * The website forwards unknown /vacatures/* paths here
+ *
+ * Public: only published vacancies are resolved
+ */
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  try {
+    const { slug } = await params;
+
+    const vacancy = await resolveVacancySlug(slug);
+    if (!vacancy?.slug || vacancy.status !== "gepubliceerd") {
+      return NextResponse.json({ error: "Vacature niet gevonden" }, { status: 404 });
+    }
+
+    return NextResponse.redirect(getVacancyPublicUrl(vacancy.slug), 308);
+  } catch (error: unknown) {
+    console.error("Error resolving vacancy slug:", getErrorMessage(error));
+    return NextResponse.json(
+      { error: "Er ging iets mis bij het ophalen van de vacature" },
+      { status: 500 }
+    );
+  }
+}
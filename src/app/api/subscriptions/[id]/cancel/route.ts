@@ -0,0 +1,82 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { repositories } from "@/lib/repositories";
+import { getErrorMessage } from "@/lib/utils";
+import { logEvent, getClientIP } from "@/lib/events";
+
+/**
+ * POST /api/subscriptions/[id]/cancel
+ * Cancels a yearly credit bundle subscription.
+ * - Validates the subscription belongs to the user's wallet
+ * - Only active subscriptions can be cancelled
+ * - The subscription stays "cancelled" until its next anniversary and then ends
+ *   (already purchased credits stay valid)
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Niet ingelogd" }, { status: 401 });
+    }
+
+    const user = await repositories.users.getByEmail(session.user.email);
+    if (!user) {
+      return NextResponse.json({ error: "Gebruiker niet gevonden" }, { status: 404 });
+    }
+
+    const [subscription, wallet] = await Promise.all([
+      repositories.subscriptions.getById(id),
+      repositories.wallets.getForUser(user),
+    ]);
+
+    if (!subscription) {
+      return NextResponse.json({ error: "Abonnement niet gevonden" }, { status: 404 });
+    }
+
+    if (!wallet || subscription.wallet_id !== wallet.id) {
+      return NextResponse.json({ error: "Geen toegang tot dit abonnement" }, { status: 403 });
+    }
+
+    if (subscription.status !== "active") {
+      return NextResponse.json(
+        { error: "Alleen actieve abonnementen kunnen worden opgezegd" },
+        { status: 400 }
+      );
+    }
+
+    const updatedSubscription = await repositories.subscriptions.update(id, {
+      status: "cancelled",
+      cancelled_at: new Date().toISOString(),
+    });
+
+    await logEvent({
+      event_type: "subscription_cancelled",
+      actor_user_id: user.id,
+      employer_id: subscription.employer_id || null,
+      source: "web",
+      ip_address: getClientIP(request),
+      payload: {
+        subscription_id: subscription.id,
+        product_id: subscription.product_id,
+        ends_at: subscription.next_renewal_at,
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      subscription: updatedSubscription,
+    });
+  } catch (error: unknown) {
+    console.error("Error cancelling subscription:", getErrorMessage(error));
+    return NextResponse.json(
+      { error: "Er ging iets mis bij het opzeggen van het abonnement" },
+      { status: 500 }
+    );
+  }
+}
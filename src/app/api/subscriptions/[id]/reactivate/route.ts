@@ -0,0 +1,82 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { repositories } from "@/lib/repositories";
+import { getErrorMessage } from "@/lib/utils";
+import { logEvent, getClientIP } from "@/lib/events";
+
+/**
+ * POST /api/subscriptions/[id]/reactivate
+ * Reactivates a cancelled yearly credit bundle subscription.
+ * - Validates the subscription belongs to the user's wallet
+ * - Only cancelled subscriptions that have not ended yet can be reactivated;
+ *   the subscription then renews at its next anniversary again
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Niet ingelogd" }, { status: 401 });
+    }
+
+    const user = await repositories.users.getByEmail(session.user.email);
+    if (!user) {
+      return NextResponse.json({ error: "Gebruiker niet gevonden" }, { status: 404 });
+    }
+
+    const [subscription, wallet] = await Promise.all([
+      repositories.subscriptions.getById(id),
+      repositories.wallets.getForUser(user),
+    ]);
+
+    if (!subscription) {
+      return NextResponse.json({ error: "Abonnement niet gevonden" }, { status: 404 });
+    }
+
+    if (!wallet || subscription.wallet_id !== wallet.id) {
+      return NextResponse.json({ error: "Geen toegang tot dit abonnement" }, { status: 403 });
+    }
+
+    // Past the anniversary the renewal job ends it; a new purchase is needed then
+    if (subscription.status !== "cancelled" || new Date(subscription.next_renewal_at) <= new Date()) {
+      return NextResponse.json(
+        { error: "Dit abonnement kan niet meer worden heractiveerd" },
+        { status: 400 }
+      );
+    }
+
+    const updatedSubscription = await repositories.subscriptions.update(id, {
+      status: "active",
+      cancelled_at: null,
+    });
+
+    await logEvent({
+      event_type: "subscription_reactivated",
+      actor_user_id: user.id,
+      employer_id: subscription.employer_id || null,
+      source: "web",
+      ip_address: getClientIP(request),
+      payload: {
+        subscription_id: subscription.id,
+        product_id: subscription.product_id,
+        next_renewal_at: subscription.next_renewal_at,
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      subscription: updatedSubscription,
+    });
+  } catch (error: unknown) {
+    console.error("Error reactivating subscription:", getErrorMessage(error));
+    return NextResponse.json(
+      { error: "Er ging iets mis bij het heractiveren van het abonnement" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,62 @@
+import { authOptions } from "@/lib/auth";
+import { repositories } from "@/lib/repositories";
+import { getErrorMessage } from "@/lib/utils";
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+
+/**
+ * GET /api/subscriptions
+ * Returns the yearly credit bundle subscriptions of the user's wallet
+ * (employer wallet, or the user-level wallet for intermediaries)
+ */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Niet ingelogd" }, { status: 401 });
+    }
+
+    const user = await repositories.users.getByEmail(session.user.email);
+    if (!user) {
+      return NextResponse.json({ error: "Gebruiker niet gevonden" }, { status: 404 });
+    }
+
+    const wallet = await repositories.wallets.getForUser(user);
+    if (!wallet) {
+      return NextResponse.json({ subscriptions: [] });
+    }
+
+    const subscriptions = await repositories.subscriptions.getByWalletId(wallet.id);
+
+    const productIds = [...new Set(subscriptions.map((s) => s.product_id))];
+    const products = await Promise.all(productIds.map((id) => repositories.products.getById(id)));
+    const productsById = new Map(
+      products.filter((p): p is NonNullable<typeof p> => !!p).map((p) => [p.id, p])
+    );
+
+    return NextResponse.json({
+      subscriptions: subscriptions.map((subscription) => {
+        const product = productsById.get(subscription.product_id);
+        return {
+          id: subscription.id,
+          status: subscription.status,
+          started_at: subscription.started_at,
+          next_renewal_at: subscription.next_renewal_at,
+          cancelled_at: subscription.cancelled_at || null,
+          ended_at: subscription.ended_at || null,
+          renewal_count: subscription.renewal_count,
+          product_name: product?.display_name || "Creditpakket",
+          credits: product?.credits ?? null,
+          price: product?.price ?? null,
+        };
+      }),
+    });
+  } catch (error: unknown) {
+    console.error("[Subscriptions GET] error:", getErrorMessage(error));
+    return NextResponse.json(
+      { error: "Er ging iets mis bij het ophalen van de abonnementen" },
+      { status: 500 }
+    );
+  }
+}
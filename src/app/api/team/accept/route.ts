@@ -1,9 +1,4 @@
-import {
-  getUserByInviteToken,
-  getEmployerById,
-  updateUser,
-  createSession,
-} from "@/lib/airtable";
+import { repositories } from "@/lib/repositories";
 import { logEvent, getClientIP } from "@/lib/events";
 import { getErrorMessage } from "@/lib/utils";
 import { NextResponse } from "next/server";
@@ -33,7 +28,7 @@ export async function GET(request: Request) {
     }
 
     // Get user by invite token
-    const invitedUser = await getUserByInviteToken(token);
+    const invitedUser = await repositories.users.getByInviteToken(token);
 
     if (!invitedUser) {
       return NextResponse.json(
@@ -63,7 +58,7 @@ export async function GET(request: Request) {
 
     // Get employer details
     const employer = invitedUser.employer_id
-      ? await getEmployerById(invitedUser.employer_id)
+      ? await repositories.employers.getById(invitedUser.employer_id)
       : null;
 
     return NextResponse.json({
@@ -100,7 +95,7 @@ export async function POST(request: Request) {
     const clientIP = getClientIP(request);
 
     // Get user by invite token
-    const invitedUser = await getUserByInviteToken(token);
+    const invitedUser = await repositories.users.getByInviteToken(token);
 
     if (!invitedUser) {
       return NextResponse.json(
@@ -129,7 +124,7 @@ export async function POST(request: Request) {
     }
 
     // Update user: set profile data, clear invitation fields, set status to active
-    const updatedUser = await updateUser(invitedUser.id, {
+    const updatedUser = await repositories.users.update(invitedUser.id, {
       first_name,
       last_name,
       status: "active",
@@ -142,7 +137,7 @@ export async function POST(request: Request) {
     const sessionToken = randomUUID();
     const sessionExpires = new Date(Date.now() + 14 * 24 * 60 * 60 * 1000); // 14 days
 
-    await createSession(invitedUser.id, sessionToken, sessionExpires);
+    await repositories.sessions.create(invitedUser.id, sessionToken, sessionExpires);
 
     // Log the event
     await logEvent({
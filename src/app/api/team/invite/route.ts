@@ -1,10 +1,5 @@
 import { authOptions } from "@/lib/auth";
-import {
-  getUserByEmail,
-  getEmployerById,
-  createUser,
-  updateUser,
-} from "@/lib/airtable";
+import { repositories } from "@/lib/repositories";
 import { logEvent, getClientIP } from "@/lib/events";
 import { getErrorMessage } from "@/lib/utils";
 import { checkRateLimit, onboardingRateLimiter, getIdentifier } from "@/lib/rate-limit";
@@ -168,7 +163,7 @@ export async function POST(request: Request) {
     }
 
     // Get current user from database
-    const currentUser = await getUserByEmail(session.user.email);
+    const currentUser = await repositories.users.getByEmail(session.user.email);
 
     if (!currentUser) {
       return NextResponse.json({ error: "User not found" }, { status: 404 });
@@ -189,7 +184,7 @@ export async function POST(request: Request) {
     }
 
     // Get employer details for the email
-    const employer = await getEmployerById(effectiveEmployerId);
+    const employer = await repositories.employers.getById(effectiveEmployerId);
 
     if (!employer) {
       return NextResponse.json(
@@ -199,7 +194,7 @@ export async function POST(request: Request) {
     }
 
     // Check if email already exists as a user
-    const existingUser = await getUserByEmail(email.toLowerCase());
+    const existingUser = await repositories.users.getByEmail(email.toLowerCase());
 
     // Generate invitation token and expiry (24 hours)
     const inviteToken = randomUUID();
@@ -234,7 +229,7 @@ export async function POST(request: Request) {
 
       // User was deleted or is in pending_onboarding - reactivate with new invitation
       if (existingUser.status === "deleted" || existingUser.status === "pending_onboarding") {
-        invitedUser = await updateUser(existingUser.id, {
+        invitedUser = await repositories.users.update(existingUser.id, {
           employer_id: effectiveEmployerId,
           status: "invited",
           invite_token: inviteToken,
@@ -243,7 +238,7 @@ export async function POST(request: Request) {
         });
       } else {
         // Fallback: create new user (shouldn't happen but just in case)
-        invitedUser = await createUser({
+        invitedUser = await repositories.users.create({
           email: email.toLowerCase(),
           employer_id: effectiveEmployerId,
           status: "invited",
@@ -254,7 +249,7 @@ export async function POST(request: Request) {
       }
     } else {
       // No existing user, create new invited user record
-      invitedUser = await createUser({
+      invitedUser = await repositories.users.create({
         email: email.toLowerCase(),
         employer_id: effectiveEmployerId,
         status: "invited",
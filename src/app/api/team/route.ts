@@ -1,11 +1,5 @@
 import { authOptions } from "@/lib/auth";
-import {
-  getUserByEmail,
-  getUsersByEmployerId,
-  getUserById,
-  unlinkUserFromEmployer,
-  deleteUser,
-} from "@/lib/airtable";
+import { repositories } from "@/lib/repositories";
 import { logEvent, getClientIP } from "@/lib/events";
 import { getErrorMessage } from "@/lib/utils";
 import { NextResponse } from "next/server";
@@ -25,7 +19,7 @@ export async function GET() {
     }
 
     // Get user from database
-    const user = await getUserByEmail(session.user.email);
+    const user = await repositories.users.getByEmail(session.user.email);
 
     if (!user) {
       return NextResponse.json({ error: "User not found" }, { status: 404 });
@@ -46,7 +40,7 @@ export async function GET() {
     }
 
     // Get all team members (active and invited)
-    const teamMembers = await getUsersByEmployerId(effectiveEmployerId);
+    const teamMembers = await repositories.users.getByEmployerId(effectiveEmployerId);
 
     // Transform to response format
     const response = teamMembers.map((member) => ({
@@ -94,7 +88,7 @@ export async function DELETE(request: Request) {
     }
 
     // Get current user from database
-    const currentUser = await getUserByEmail(session.user.email);
+    const currentUser = await repositories.users.getByEmail(session.user.email);
 
     if (!currentUser) {
       return NextResponse.json({ error: "User not found" }, { status: 404 });
@@ -115,7 +109,7 @@ export async function DELETE(request: Request) {
     }
 
     // Get the user to be removed
-    const targetUser = await getUserById(user_id);
+    const targetUser = await repositories.users.getById(user_id);
 
     if (!targetUser) {
       return NextResponse.json(
@@ -133,7 +127,7 @@ export async function DELETE(request: Request) {
     }
 
     // Check if this would leave the team with no members
-    const allTeamMembers = await getUsersByEmployerId(effectiveEmployerId);
+    const allTeamMembers = await repositories.users.getByEmployerId(effectiveEmployerId);
     const activeMembers = allTeamMembers.filter(
       (member) => member.status !== "invited"
     );
@@ -149,10 +143,10 @@ export async function DELETE(request: Request) {
     // Handle removal based on status
     if (targetUser.status === "invited") {
       // For invited users, delete the record entirely
-      await deleteUser(user_id);
+      await repositories.users.delete(user_id);
     } else {
       // For active users, unlink from employer (they keep their account)
-      await unlinkUserFromEmployer(user_id);
+      await repositories.users.unlinkFromEmployer(user_id);
     }
 
     // Log the event
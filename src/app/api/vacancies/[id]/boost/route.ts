@@ -1,19 +1,16 @@
 import { NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
-import {
-  getUserByEmail,
-  getVacancyById,
-  updateVacancy,
-  getWalletByEmployerId,
-  createSpendTransaction,
-  getProductById,
-  spendCreditsWithFIFO,
-  getActiveProductsByType,
-} from "@/lib/airtable";
+import { randomUUID } from "crypto";
+import { repositories } from "@/lib/repositories";
 import { getErrorMessage } from "@/lib/utils";
-import { logEvent, getClientIP } from "@/lib/events";
-import { getPackageBaseDuration } from "@/lib/vacancy-duration";
+import { getClientIP } from "@/lib/events";
+import { verifyExtensionQuote, type ClosingDateExtensionQuote } from "@/lib/vacancy-extension";
+import { getIdempotencyKey } from "@/lib/ledger";
+import { purchaseVacancyTransition } from "@/lib/vacancy-purchase";
+import { getCreditPolicy, planCreditSpend } from "@/lib/credits";
+import { checkVacancyTransition, getVacancyActor } from "@/lib/vacancy-state-machine";
+import type { VacancyUpdate } from "@/lib/repositories";
 
 // Invoice details type matching frontend
 interface InvoiceDetails {
@@ -28,15 +25,18 @@ interface InvoiceDetails {
 /**
  * POST /api/vacancies/[id]/boost
  * Boosts a published, expired, or depublished vacancy with additional upsells
- * Body: { upsell_ids: string[], new_closing_date?: string, invoice_details?: InvoiceDetails }
+ * Body: { upsell_ids: string[], extension_quote?: string, invoice_details?: InvoiceDetails }
  * - Validates vacancy ownership and status
  * - Validates upsells have "boost-option" availability
- * - If new_closing_date provided: validates it's within 365 days from publication
+ * - extension_quote: quote token from GET /api/vacancies/[id]/extension; the closing date
+ *   extension is charged at the quoted credits and price
  * - If sufficient credits: deducts credits and creates spend transaction
- * - If insufficient credits: deducts available credits + creates invoice transaction for the rest
+ * - If insufficient credits: depending on the employer's credit policy, invoices the
+ *   shortage, lets the balance go negative (overdraft) or blocks the boost
  * - Appends new upsell IDs to vacancy selected_upsells
- * - Updates closing_date if new_closing_date provided
+ * - Updates closing_date if an extension was quoted
  * - Republishes vacancy if status was "verlopen" or "gedepubliceerd"
+ * - A retry with the Idempotency-Key of an applied boost returns its stored result
  */
 export async function POST(
   request: Request,
@@ -47,15 +47,15 @@ export async function POST(
 
     // Parse request body
     const body = await request.json();
-    const { upsell_ids, new_closing_date, invoice_details } = body as {
+    const { upsell_ids, extension_quote, invoice_details } = body as {
       upsell_ids: string[];
-      new_closing_date?: string;
+      extension_quote?: string;
       invoice_details?: InvoiceDetails;
     };
 
     if (
       (!upsell_ids || !Array.isArray(upsell_ids) || upsell_ids.length === 0) &&
-      !new_closing_date
+      !extension_quote
     ) {
       return NextResponse.json(
         { error: "Selecteer minimaal één boost optie of een nieuwe sluitingsdatum" },
@@ -70,7 +70,7 @@ export async function POST(
     }
 
     // Get user and employer
-    const user = await getUserByEmail(session.user.email);
+    const user = await repositories.users.getByEmail(session.user.email);
     if (!user) {
       return NextResponse.json(
         { error: "Gebruiker niet gevonden" },
@@ -95,7 +95,7 @@ export async function POST(
     }
 
     // Fetch vacancy
-    const vacancy = await getVacancyById(id);
+    const vacancy = await repositories.vacancies.getById(id);
     if (!vacancy) {
       return NextResponse.json(
         { error: "Vacature niet gevonden" },
@@ -111,85 +111,48 @@ export async function POST(
       );
     }
 
-    // Verify vacancy is in a boostable status
-    const boostableStatuses = ["gepubliceerd", "verlopen", "gedepubliceerd"];
-    if (!boostableStatuses.includes(vacancy.status)) {
-      return NextResponse.json(
-        {
-          error:
-            "Alleen gepubliceerde, verlopen of gedepubliceerde vacatures kunnen worden geboost",
-        },
-        { status: 400 }
-      );
-    }
-
-    // Validate new_closing_date if provided
-    let validatedClosingDate: string | undefined;
-    if (new_closing_date) {
-      const newDate = new Date(new_closing_date);
-      newDate.setHours(0, 0, 0, 0);
-
-      if (isNaN(newDate.getTime())) {
-        return NextResponse.json(
-          { error: "Ongeldige datum formaat" },
-          { status: 400 }
-        );
+    // Retried boost that already went through: return the stored result. Checked before
+    // the quote and status checks, which the applied boost itself makes fail (e.g. the
+    // quote no longer matches the extended closing date)
+    const clientIdempotencyKey = getIdempotencyKey(request, `boost:${vacancy.id}`);
+    if (clientIdempotencyKey) {
+      const previousSpend = await repositories.transactions.getByIdempotencyKey(clientIdempotencyKey);
+      if (
+        previousSpend &&
+        vacancy.status === "gepubliceerd" &&
+        (previousSpend.product_ids || []).every((productId) => vacancy.selected_upsells?.includes(productId))
+      ) {
+        const wallet = previousSpend.wallet_id ? await repositories.wallets.getById(previousSpend.wallet_id) : null;
+        return NextResponse.json({
+          success: true,
+          vacancy,
+          credits_spent: (previousSpend.total_credits ?? 0) - (previousSpend.credits_shortage ?? 0),
+          credits_invoiced: previousSpend.credits_shortage ?? 0,
+          invoice_amount: previousSpend.credits_invoiced ?? 0,
+          new_balance: wallet?.balance ?? null,
+          replayed: true,
+        });
       }
+    }
 
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
-
-      if (newDate < today) {
-        return NextResponse.json(
-          { error: "De nieuwe sluitingsdatum moet in de toekomst liggen" },
-          { status: 400 }
-        );
-      }
-
-      // Validate against 365-day maximum from FIRST publication date
-      const publishedAt = vacancy["first-published-at"] || vacancy["last-published-at"];
-      if (publishedAt) {
-        const pubDate = new Date(publishedAt);
-        pubDate.setHours(0, 0, 0, 0);
-        const maxDate = new Date(pubDate);
-        maxDate.setDate(maxDate.getDate() + 365);
-
-        if (newDate > maxDate) {
-          return NextResponse.json(
-            {
-              error:
-                "De nieuwe sluitingsdatum mag maximaal 365 dagen na de publicatiedatum liggen",
-            },
-            { status: 400 }
-          );
-        }
-      }
+    // Verify vacancy is in a boostable status
+    const actor = getVacancyActor(user);
+    const transitionCheck = checkVacancyTransition(vacancy, "boost", actor);
+    if (!transitionCheck.allowed) {
+      return NextResponse.json({ error: transitionCheck.error }, { status: 400 });
+    }
 
-      // Validate this isn't a Premium package (365 days base, no extension possible)
-      if (vacancy.package_id) {
-        try {
-          const packages = await getActiveProductsByType("vacancy_package");
-          const pkg = packages.find((p) => p.id === vacancy.package_id);
-          if (pkg) {
-            const baseDuration = getPackageBaseDuration(pkg);
-            if (baseDuration >= 365) {
-              return NextResponse.json(
-                {
-                  error:
-                    "Looptijdverlenging is niet beschikbaar voor Premium vacatures",
-                },
-                { status: 400 }
-              );
-            }
-          }
-        } catch {
-          // Non-critical, continue
-          console.warn("[Boost] Could not validate package duration");
-        }
+    // Validate the extension quote if provided (range, premium package and
+    // maximum duration were checked when quoting)
+    let extensionQuote: ClosingDateExtensionQuote | undefined;
+    if (extension_quote) {
+      const verification = verifyExtensionQuote(extension_quote, vacancy);
+      if (!verification.valid) {
+        return NextResponse.json({ error: verification.error }, { status: 400 });
       }
-
-      validatedClosingDate = new_closing_date;
+      extensionQuote = verification.quote;
     }
+    const validatedClosingDate = extensionQuote?.closing_date;
 
     // Fetch and validate all selected upsells
     const upsellsToProcess = upsell_ids || [];
@@ -204,7 +167,7 @@ export async function POST(
     }[] = [];
 
     for (const upsellId of upsellsToProcess) {
-      const upsell = await getProductById(upsellId);
+      const upsell = await repositories.products.getById(upsellId);
       if (!upsell) {
         return NextResponse.json(
           { error: `Upsell product niet gevonden: ${upsellId}` },
@@ -212,6 +175,14 @@ export async function POST(
         );
       }
 
+      // The extension is bought through a quote (extension_quote) for the chosen date
+      if (upsell.repeat_mode === "until_max") {
+        return NextResponse.json(
+          { error: "Kies een nieuwe sluitingsdatum voor de looptijdverlenging" },
+          { status: 400 }
+        );
+      }
+
       // Validate this is a boost-eligible upsell
       if (!upsell.availability?.includes("boost-option")) {
         return NextResponse.json(
@@ -235,8 +206,21 @@ export async function POST(
       });
     }
 
+    // The quoted extension is charged as quoted, whatever the product costs now
+    if (extensionQuote) {
+      totalCredits += extensionQuote.credits;
+      totalPrice += extensionQuote.price;
+      validUpsells.push({
+        id: extensionQuote.product_id,
+        display_name: extensionQuote.product_name,
+        credits: extensionQuote.credits,
+        price: extensionQuote.price,
+      });
+    }
+    const productIds = validUpsells.map((u) => u.id);
+
     // Get wallet and check balance (use vacancy's employer_id)
-    const wallet = await getWalletByEmployerId(vacancy.employer_id);
+    const wallet = await repositories.wallets.getByEmployerId(vacancy.employer_id);
     if (!wallet) {
       return NextResponse.json(
         { error: "Wallet niet gevonden" },
@@ -245,11 +229,22 @@ export async function POST(
     }
 
     const availableCredits = wallet.balance;
-    const shortage = Math.max(0, totalCredits - availableCredits);
-    const hasEnoughCredits = shortage === 0;
+    const employer = await repositories.employers.getById(vacancy.employer_id);
+    const creditPolicy = getCreditPolicy(employer);
+    const plan = planCreditSpend(totalCredits, totalPrice, availableCredits, creditPolicy);
+    const shortage = plan.credits_to_invoice;
+    const needsInvoice = shortage > 0;
+
+    // The employer's credit policy does not allow this shortage
+    if (!plan.allowed) {
+      return NextResponse.json(
+        { error: plan.message, credit_policy: plan.policy },
+        { status: 400 }
+      );
+    }
 
-    // If not enough credits, invoice details are required
-    if (!hasEnoughCredits && !invoice_details) {
+    // If the shortage is invoiced, invoice details are required
+    if (needsInvoice && !invoice_details) {
       return NextResponse.json(
         { error: "Factuurgegevens zijn verplicht bij onvoldoende credits" },
         { status: 400 }
@@ -257,7 +252,7 @@ export async function POST(
     }
 
     // Validate invoice details if provided
-    if (!hasEnoughCredits && invoice_details) {
+    if (needsInvoice && invoice_details) {
       if (!invoice_details.contact_name || !invoice_details.email || 
           !invoice_details.street || !invoice_details.postal_code || !invoice_details.city) {
         return NextResponse.json(
@@ -267,85 +262,40 @@ export async function POST(
       }
     }
 
-    // Calculate credits to deduct and invoice amount
-    const creditsToDeduct = Math.min(availableCredits, totalCredits);
+    // Credits to deduct and invoice amount (proportional) follow from the policy plan
+    const creditsToDeduct = plan.credits_to_deduct;
     const creditsForInvoice = shortage;
-    
-    // Calculate invoice amount proportionally
-    const invoiceAmount = totalCredits > 0 
-      ? Math.round((creditsForInvoice / totalCredits) * totalPrice)
-      : 0;
+    const invoiceAmount = plan.invoice_amount;
 
     console.log("[Boost] Credit calculation:", {
       totalCredits,
       totalPrice,
       availableCredits,
+      policy: plan.policy,
       shortage,
       creditsToDeduct,
       invoiceAmount,
-      upsellCount: upsellsToProcess.length,
+      upsellCount: productIds.length,
       new_closing_date: validatedClosingDate || null,
     });
 
-    // Deduct available credits via FIFO (if any)
-    if (creditsToDeduct > 0) {
-      const fifoResult = await spendCreditsWithFIFO(
-        vacancy.employer_id,
-        wallet.id,
-        creditsToDeduct
-      );
-      console.log("[Boost] FIFO spend result:", fifoResult);
-    }
-
-    // Create spend transaction with context "boost"
-    if (totalCredits > 0) {
-      await createSpendTransaction({
-        employer_id: vacancy.employer_id,
-        wallet_id: wallet.id,
-        user_id: user.id,
-        vacancy_id: vacancy.id,
-        total_credits: totalCredits,
-        total_cost: totalPrice,
-        credits_shortage: shortage,
-        invoice_amount: invoiceAmount,
-        product_ids: upsellsToProcess,
-        context: "boost",
-        // Include invoice details if there's a shortage
-        ...(shortage > 0 && invoice_details ? {
-          invoice_details_snapshot: JSON.stringify(invoice_details),
-          invoice_trigger: "on_vacancy_publish" as const,
-        } : {}),
-      });
-    }
-
-    // Build vacancy update object
-    const vacancyUpdate: Record<string, unknown> = {};
+    // Build vacancy update object (status, last-published-at and the Webflow sync flag
+    // are set by the state machine transition "boost")
+    const vacancyUpdate: VacancyUpdate = {};
 
     // Append new upsell IDs to existing selected_upsells (avoiding duplicates)
-    if (upsellsToProcess.length > 0) {
+    if (productIds.length > 0) {
       const existingUpsells = vacancy.selected_upsells || [];
       const existingSet = new Set(existingUpsells);
-      const newUpsells = upsellsToProcess.filter(id => !existingSet.has(id));
+      const newUpsells = productIds.filter(id => !existingSet.has(id));
       vacancyUpdate.selected_upsells = [...existingUpsells, ...newUpsells];
     }
 
     // Update closing_date if provided
     if (validatedClosingDate) {
       vacancyUpdate.closing_date = validatedClosingDate;
-    }
-
-    // Handle status changes for verlopen and gedepubliceerd vacancies
-    const previousStatus = vacancy.status;
-    let statusChanged = false;
-
-    if (
-      vacancy.status === "verlopen" ||
-      vacancy.status === "gedepubliceerd"
-    ) {
-      // Republish the vacancy and update last-published-at to track republication moment
-      vacancyUpdate.status = "gepubliceerd";
-      vacancyUpdate["last-published-at"] = new Date().toISOString();
-      statusChanged = true;
+      // New closing date: the expiry warning goes out again before it
+      vacancyUpdate.closing_warning_sent_at = null;
     }
 
     // Set is_featured if any boost upsell has sets_featured=true
@@ -354,22 +304,43 @@ export async function POST(
       vacancyUpdate["featured-at"] = new Date().toISOString();
     }
 
-    // Mark for Webflow sync
-    vacancyUpdate.needs_webflow_sync = true;
-
-    // Update vacancy
-    const updatedVacancy = await updateVacancy(id, vacancyUpdate);
-
-    // Log event
-    await logEvent({
-      event_type: "vacancy_boost",
+    // Charge the boost and apply it in one purchase: spend transaction with context "boost"
+    // plus FIFO deduction of the available credits, refunded if the boost transition fails.
+    // Verlopen and gedepubliceerd vacancies are republished, the event records the status
+    // change (previous_status / new_status). Retries of the same boost action reuse the
+    // client's Idempotency-Key.
+    const result = await purchaseVacancyTransition(vacancy, "boost", {
+      charge: totalCredits > 0 ? {
+        idempotencyKey: clientIdempotencyKey ?? `boost:${vacancy.id}:${randomUUID()}`,
+        credits_to_deduct: creditsToDeduct,
+        overdraft_limit: creditPolicy.overdraft_limit,
+        employer_id: vacancy.employer_id,
+        wallet_id: wallet.id,
+        user_id: user.id,
+        vacancy_id: vacancy.id,
+        total_credits: totalCredits,
+        total_cost: totalPrice,
+        credits_shortage: shortage,
+        invoice_amount: invoiceAmount,
+        product_ids: productIds,
+        context: "boost",
+        // Include invoice details if there's a shortage
+        ...(shortage > 0 && invoice_details ? {
+          invoice_details_snapshot: JSON.stringify(invoice_details),
+          invoice_trigger: "on_vacancy_publish" as const,
+        } : {}),
+      } : null,
+      // A retried boost is applied once the vacancy is online with its upsells and closing date
+      isApplied: (current) =>
+        current.status === "gepubliceerd" &&
+        productIds.every((productId) => current.selected_upsells?.includes(productId)) &&
+        (!validatedClosingDate || current.closing_date === validatedClosingDate),
+      actor,
       actor_user_id: user.id,
-      employer_id: vacancy.employer_id || null,
-      vacancy_id: vacancy.id,
-      source: "web",
       ip_address: getClientIP(request),
+      fields: vacancyUpdate,
       payload: {
-        upsell_ids: upsellsToProcess,
+        upsell_ids: productIds,
         upsell_names: validUpsells.map((u) => u.display_name),
         total_credits: totalCredits,
         total_price: totalPrice,
@@ -377,27 +348,36 @@ export async function POST(
         credits_invoiced: creditsForInvoice,
         invoice_amount: invoiceAmount,
         new_balance: availableCredits - creditsToDeduct,
-        payment_method: hasEnoughCredits ? "credits" : "partial_invoice",
-        ...(validatedClosingDate && {
-          new_closing_date: validatedClosingDate,
+        payment_method: needsInvoice ? "partial_invoice" : plan.overdraft_used > 0 ? "overdraft" : "credits",
+        ...(extensionQuote && {
+          new_closing_date: extensionQuote.closing_date,
           previous_closing_date: vacancy.closing_date || null,
+          extra_days: extensionQuote.extra_days,
         }),
-        ...(statusChanged && {
+        ...(vacancy.status !== "gepubliceerd" && {
           status_change: {
-            from: previousStatus,
+            from: vacancy.status,
             to: "gepubliceerd",
           },
         }),
       },
     });
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+    console.log("[Boost] Ledger charge result:", {
+      transaction_id: result.charge?.transaction.id,
+      replayed: result.charge?.replayed,
+      batchesUsed: result.charge?.batchesUsed,
+    });
 
     return NextResponse.json({
       success: true,
-      vacancy: updatedVacancy,
+      vacancy: result.vacancy,
       credits_spent: creditsToDeduct,
       credits_invoiced: creditsForInvoice,
       invoice_amount: invoiceAmount,
-      new_balance: availableCredits - creditsToDeduct,
+      new_balance: result.new_balance ?? availableCredits,
     });
   } catch (error: unknown) {
     console.error("Error boosting vacancy:", getErrorMessage(error));
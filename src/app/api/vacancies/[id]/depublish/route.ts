@@ -1,21 +1,17 @@
 import { NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
-import {
-  getUserByEmail,
-  getVacancyById,
-  updateVacancy,
-} from "@/lib/airtable";
+import { repositories } from "@/lib/repositories";
 import { getErrorMessage } from "@/lib/utils";
-import { logEvent, getClientIP } from "@/lib/events";
+import { getClientIP } from "@/lib/events";
+import { getVacancyActor, transitionVacancy } from "@/lib/vacancy-state-machine";
 
 /**
  * POST /api/vacancies/[id]/depublish
  * Takes a published vacancy offline (depublish).
  * - Validates vacancy ownership
- * - Checks vacancy is in "gepubliceerd" status
- * - Updates status to "gedepubliceerd"
- * - Sets depublished-at to current timestamp
+ * - Applies the state machine transition "depublish": vacancy must be "gepubliceerd";
+ *   sets depublished-at and the Webflow archive flag
  */
 export async function POST(
   request: Request,
@@ -31,7 +27,7 @@ export async function POST(
     }
 
     // Get user and employer
-    const user = await getUserByEmail(session.user.email);
+    const user = await repositories.users.getByEmail(session.user.email);
     if (!user) {
       return NextResponse.json(
         { error: "Gebruiker niet gevonden" },
@@ -56,7 +52,7 @@ export async function POST(
     }
 
     // Fetch vacancy
-    const vacancy = await getVacancyById(id);
+    const vacancy = await repositories.vacancies.getById(id);
     if (!vacancy) {
       return NextResponse.json(
         { error: "Vacature niet gevonden" },
@@ -72,42 +68,19 @@ export async function POST(
       );
     }
 
-    // Only gepubliceerd vacancies can be depublished
-    if (vacancy.status !== "gepubliceerd") {
-      return NextResponse.json(
-        {
-          error:
-            "Alleen gepubliceerde vacatures kunnen offline worden gehaald",
-        },
-        { status: 400 }
-      );
-    }
-
-    // Depublish the vacancy
-    const updatedVacancy = await updateVacancy(id, {
-      status: "gedepubliceerd",
-      "depublished-at": new Date().toISOString(),
-      needs_webflow_archive: true,
-    });
-
-    // Log event
-    await logEvent({
-      event_type: "vacancy_depublish",
+    // Depublish the vacancy (only gepubliceerd vacancies)
+    const result = await transitionVacancy(vacancy, "depublish", {
+      actor: getVacancyActor(user),
       actor_user_id: user.id,
-      employer_id: vacancy.employer_id || null,
-      vacancy_id: vacancy.id,
-      source: "web",
       ip_address: getClientIP(request),
-      payload: {
-        action: "depublish",
-        previous_status: "gepubliceerd",
-        new_status: "gedepubliceerd",
-      },
     });
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
 
     return NextResponse.json({
       success: true,
-      vacancy: updatedVacancy,
+      vacancy: result.vacancy,
     });
   } catch (error: unknown) {
     console.error("Error depublishing vacancy:", getErrorMessage(error));
@@ -0,0 +1,89 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { repositories } from "@/lib/repositories";
+import { getErrorMessage } from "@/lib/utils";
+import { logEvent } from "@/lib/events";
+import { pickVacancyContent } from "@/lib/vacancy-content";
+
+/**
+ * POST /api/vacancies/[id]/duplicate
+ * Copies a vacancy into a new concept for the same employer
+ * - Copies content, lookups, contact person, media and recommendations
+ *   (see lib/vacancy-content.ts) and the package
+ * - Not copied: status, upsells, transactions, Webflow fields and timestamps
+ * - The title gets the suffix " (kopie)"
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Niet ingelogd" }, { status: 401 });
+    }
+
+    const user = await repositories.users.getByEmail(session.user.email);
+    if (!user) {
+      return NextResponse.json({ error: "Gebruiker niet gevonden" }, { status: 404 });
+    }
+
+    const allowedEmployers: string[] = [];
+    if (user.role_id === "intermediary") {
+      allowedEmployers.push(...(user.managed_employers || []));
+    } else {
+      if (!user.employer_id) {
+        return NextResponse.json({ error: "Geen werkgever gekoppeld" }, { status: 400 });
+      }
+      allowedEmployers.push(user.employer_id);
+    }
+
+    const source = await repositories.vacancies.getById(id);
+    if (!source) {
+      return NextResponse.json({ error: "Vacature niet gevonden" }, { status: 404 });
+    }
+
+    if (!source.employer_id || !allowedEmployers.includes(source.employer_id)) {
+      return NextResponse.json({ error: "Geen toegang tot deze vacature" }, { status: 403 });
+    }
+
+    const { title, input_type, ...content } = pickVacancyContent(source);
+
+    const created = await repositories.vacancies.create({
+      employer_id: source.employer_id,
+      user_id: user.id,
+      title: title ? `${title} (kopie)` : undefined,
+      input_type: input_type ?? undefined,
+      package_id: source.package_id || undefined,
+    });
+    const vacancy = Object.keys(content).length > 0
+      ? await repositories.vacancies.update(created.id, content)
+      : created;
+
+    await logEvent({
+      event_type: "vacancy_created",
+      actor_user_id: user.id,
+      employer_id: source.employer_id,
+      vacancy_id: vacancy.id,
+      source: "web",
+      payload: {
+        action: "duplicated",
+        duplicated_from: source.id,
+        input_type: vacancy.input_type,
+        package_id: vacancy.package_id,
+        role_id: user.role_id,
+      },
+    });
+
+    return NextResponse.json({ vacancy }, { status: 201 });
+  } catch (error: unknown) {
+    console.error("Error duplicating vacancy:", getErrorMessage(error));
+    return NextResponse.json(
+      { error: "Er ging iets mis bij het dupliceren van de vacature" },
+      { status: 500 }
+    );
+  }
+}
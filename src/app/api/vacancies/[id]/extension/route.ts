@@ -0,0 +1,103 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import type { UserRecord, VacancyRecord } from "@/lib/airtable";
+import { repositories } from "@/lib/repositories";
+import { getErrorMessage } from "@/lib/utils";
+import { checkVacancyTransition, getVacancyActor } from "@/lib/vacancy-state-machine";
+import {
+  findExtensionUpsell,
+  quoteClosingDateExtension,
+  signExtensionQuote,
+} from "@/lib/vacancy-extension";
+
+type VacancyAccess =
+  | { success: true; user: UserRecord; vacancy: VacancyRecord }
+  | { success: false; response: NextResponse };
+
+/**
+ * Current user and the vacancy, if it belongs to the user's employer(s)
+ */
+async function getAccessibleVacancy(id: string): Promise<VacancyAccess> {
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.email) {
+    return { success: false, response: NextResponse.json({ error: "Niet ingelogd" }, { status: 401 }) };
+  }
+
+  const user = await repositories.users.getByEmail(session.user.email);
+  if (!user) {
+    return { success: false, response: NextResponse.json({ error: "Gebruiker niet gevonden" }, { status: 404 }) };
+  }
+
+  const allowedEmployers: string[] = user.role_id === "intermediary"
+    ? user.managed_employers || []
+    : user.employer_id ? [user.employer_id] : [];
+
+  const vacancy = await repositories.vacancies.getById(id);
+  if (!vacancy) {
+    return { success: false, response: NextResponse.json({ error: "Vacature niet gevonden" }, { status: 404 }) };
+  }
+  if (!vacancy.employer_id || !allowedEmployers.includes(vacancy.employer_id)) {
+    return { success: false, response: NextResponse.json({ error: "Geen toegang tot deze vacature" }, { status: 403 }) };
+  }
+
+  return { success: true, user, vacancy };
+}
+
+/**
+ * GET /api/vacancies/[id]/extension?closing_date=YYYY-MM-DD
+ * Quote for moving the closing date to closing_date: extra days, credits and euros
+ * Response: { quote: { ...ClosingDateExtensionQuote, token } }
+ * The token buys the extension as extension_quote in the boost route
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const closingDateParam = new URL(request.url).searchParams.get("closing_date");
+    if (!closingDateParam || !/^\d{4}-\d{2}-\d{2}$/.test(closingDateParam)) {
+      return NextResponse.json({ error: "Ongeldige datum formaat" }, { status: 400 });
+    }
+
+    const access = await getAccessibleVacancy(id);
+    if (!access.success) return access.response;
+    const { user, vacancy } = access;
+
+    const transitionCheck = checkVacancyTransition(vacancy, "boost", getVacancyActor(user));
+    if (!transitionCheck.allowed) {
+      return NextResponse.json({ error: transitionCheck.error }, { status: 400 });
+    }
+
+    const [upsells, packages, transactions] = await Promise.all([
+      repositories.products.getActiveByType("upsell"),
+      repositories.products.getActiveByType("vacancy_package"),
+      repositories.transactions.getByVacancyId(vacancy.id),
+    ]);
+    const extensionUpsell = findExtensionUpsell(upsells);
+    if (!extensionUpsell) {
+      return NextResponse.json({ error: "Looptijdverlenging is momenteel niet beschikbaar" }, { status: 400 });
+    }
+
+    const result = quoteClosingDateExtension(vacancy, {
+      extensionUpsell,
+      vacancyPackage: packages.find((p) => p.id === vacancy.package_id) || null,
+      transactions,
+      closingDate: closingDateParam,
+    });
+    if (!result.allowed) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    return NextResponse.json({
+      quote: { ...result.quote, token: signExtensionQuote(result.quote) },
+    });
+  } catch (error: unknown) {
+    console.error("Error quoting vacancy extension:", getErrorMessage(error));
+    return NextResponse.json(
+      { error: "Er ging iets mis bij het berekenen van de looptijdverlenging" },
+      { status: 500 }
+    );
+  }
+}
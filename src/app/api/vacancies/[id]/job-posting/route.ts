@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { repositories } from "@/lib/repositories";
+import { getErrorMessage } from "@/lib/utils";
+import { getVacancyJobPosting } from "@/lib/job-posting";
+
+/**
+ * GET /api/vacancies/[id]/job-posting
+ * JobPosting JSON-LD of the vacancy as Google will see it, with the missing required
+ * and recommended properties (also for vacancies that aren't published yet)
+ * Response: { job_posting, report: { valid, missingRequired, missingRecommended } }
+ */
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Niet ingelogd" }, { status: 401 });
+    }
+
+    const user = await repositories.users.getByEmail(session.user.email);
+    if (!user) {
+      return NextResponse.json({ error: "Gebruiker niet gevonden" }, { status: 404 });
+    }
+
+    const allowedEmployers: string[] = user.role_id === "intermediary"
+      ? user.managed_employers || []
+      : user.employer_id ? [user.employer_id] : [];
+
+    const vacancy = await repositories.vacancies.getById(id);
+    if (!vacancy) {
+      return NextResponse.json({ error: "Vacature niet gevonden" }, { status: 404 });
+    }
+    if (!vacancy.employer_id || !allowedEmployers.includes(vacancy.employer_id)) {
+      return NextResponse.json({ error: "Geen toegang tot deze vacature" }, { status: 403 });
+    }
+
+    const { jobPosting, report } = await getVacancyJobPosting(vacancy);
+
+    return NextResponse.json({ job_posting: jobPosting, report });
+  } catch (error: unknown) {
+    console.error("Error building job posting preview:", getErrorMessage(error));
+    return NextResponse.json(
+      { error: "Er ging iets mis bij het controleren van de vacature" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,21 +1,17 @@
 import { NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
-import {
-  getUserByEmail,
-  getVacancyById,
-  updateVacancy,
-} from "@/lib/airtable";
+import { repositories } from "@/lib/repositories";
 import { getErrorMessage } from "@/lib/utils";
-import { logEvent, getClientIP } from "@/lib/events";
+import { getClientIP } from "@/lib/events";
+import { getVacancyActor, transitionVacancy } from "@/lib/vacancy-state-machine";
 
 /**
  * POST /api/vacancies/[id]/publish
  * Republishes a gedepubliceerd vacancy (no credits needed).
  * - Validates vacancy ownership
- * - Checks vacancy is in "gedepubliceerd" status
- * - Updates status to "gepubliceerd"
- * - Sets last-published-at to current timestamp
+ * - Applies the state machine transition "publish": vacancy must be "gedepubliceerd"
+ *   with a closing date in the future; sets last-published-at and the Webflow sync flag
  */
 export async function POST(
   request: Request,
@@ -31,7 +27,7 @@ export async function POST(
     }
 
     // Get user and employer
-    const user = await getUserByEmail(session.user.email);
+    const user = await repositories.users.getByEmail(session.user.email);
     if (!user) {
       return NextResponse.json(
         { error: "Gebruiker niet gevonden" },
@@ -56,7 +52,7 @@ export async function POST(
     }
 
     // Fetch vacancy
-    const vacancy = await getVacancyById(id);
+    const vacancy = await repositories.vacancies.getById(id);
     if (!vacancy) {
       return NextResponse.json(
         { error: "Vacature niet gevonden" },
@@ -72,60 +68,20 @@ export async function POST(
       );
     }
 
-    // Only gedepubliceerd vacancies can be manually republished
-    if (vacancy.status !== "gedepubliceerd") {
-      return NextResponse.json(
-        {
-          error:
-            "Alleen gedepubliceerde vacatures kunnen opnieuw worden gepubliceerd",
-        },
-        { status: 400 }
-      );
-    }
-
-    // Check that closing_date is still in the future (otherwise they need to extend via boost)
-    if (vacancy.closing_date) {
-      const closingDate = new Date(vacancy.closing_date);
-      closingDate.setHours(0, 0, 0, 0);
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
-
-      if (closingDate <= today) {
-        return NextResponse.json(
-          {
-            error:
-              "De sluitingsdatum van deze vacature is verlopen. Gebruik de boost-optie om de looptijd te verlengen.",
-          },
-          { status: 400 }
-        );
-      }
-    }
-
-    // Republish the vacancy
-    const updatedVacancy = await updateVacancy(id, {
-      status: "gepubliceerd",
-      "last-published-at": new Date().toISOString(),
-      needs_webflow_sync: true,
-    });
-
-    // Log event
-    await logEvent({
-      event_type: "vacancy_publish",
+    // Republish the vacancy (only gedepubliceerd vacancies with an open closing date)
+    const result = await transitionVacancy(vacancy, "publish", {
+      actor: getVacancyActor(user),
       actor_user_id: user.id,
-      employer_id: vacancy.employer_id || null,
-      vacancy_id: vacancy.id,
-      source: "web",
       ip_address: getClientIP(request),
-      payload: {
-        action: "republish",
-        previous_status: "gedepubliceerd",
-        new_status: "gepubliceerd",
-      },
+      payload: { action: "republish" },
     });
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
 
     return NextResponse.json({
       success: true,
-      vacancy: updatedVacancy,
+      vacancy: result.vacancy,
     });
   } catch (error: unknown) {
     console.error("Error publishing vacancy:", getErrorMessage(error));
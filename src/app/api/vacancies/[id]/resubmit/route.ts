@@ -1,21 +1,20 @@
 import { NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
-import {
-  getUserByEmail,
-  getVacancyById,
-  updateVacancy,
-} from "@/lib/airtable";
+import { repositories } from "@/lib/repositories";
 import { getErrorMessage } from "@/lib/utils";
-import { logEvent, getClientIP } from "@/lib/events";
+import { getClientIP } from "@/lib/events";
+import { checkVacancyTransition, getVacancyActor, transitionVacancy } from "@/lib/vacancy-state-machine";
+import { closeReviewRound } from "@/lib/vacancy-reviews";
 
 /**
  * POST /api/vacancies/[id]/resubmit
  * Re-submits a needs_adjustment vacancy for approval (no credits needed).
  * - Validates vacancy ownership
  * - Checks vacancy is in "needs_adjustment" status
- * - Saves vacancy data, clears rejection_reason
- * - Updates status to "wacht_op_goedkeuring"
+ * - Closes the open review round and reports which comments were addressed
+ *   (lib/vacancy-reviews.ts)
+ * - Clears rejection_reason, updates status to "wacht_op_goedkeuring"
  */
 export async function POST(
   request: Request,
@@ -29,7 +28,7 @@ export async function POST(
       return NextResponse.json({ error: "Niet ingelogd" }, { status: 401 });
     }
 
-    const user = await getUserByEmail(session.user.email);
+    const user = await repositories.users.getByEmail(session.user.email);
     if (!user) {
       return NextResponse.json({ error: "Gebruiker niet gevonden" }, { status: 404 });
     }
@@ -44,7 +43,7 @@ export async function POST(
       allowedEmployers.push(user.employer_id);
     }
 
-    const vacancy = await getVacancyById(id);
+    const vacancy = await repositories.vacancies.getById(id);
     if (!vacancy) {
       return NextResponse.json({ error: "Vacature niet gevonden" }, { status: 404 });
     }
@@ -53,34 +52,36 @@ export async function POST(
       return NextResponse.json({ error: "Geen toegang tot deze vacature" }, { status: 403 });
     }
 
-    if (vacancy.status !== "needs_adjustment") {
-      return NextResponse.json(
-        { error: "Alleen vacatures met status 'aanpassing nodig' kunnen opnieuw worden ingestuurd" },
-        { status: 400 }
-      );
+    const actor = getVacancyActor(user);
+    const transitionCheck = checkVacancyTransition(vacancy, "resubmit", actor);
+    if (!transitionCheck.allowed) {
+      return NextResponse.json({ error: transitionCheck.error }, { status: 400 });
     }
 
-    const updatedVacancy = await updateVacancy(id, {
-      status: "wacht_op_goedkeuring",
-    });
+    const review = await closeReviewRound(vacancy);
 
-    await logEvent({
-      event_type: "vacancy_updated",
+    const result = await transitionVacancy(vacancy, "resubmit", {
+      actor,
       actor_user_id: user.id,
-      employer_id: vacancy.employer_id || null,
-      vacancy_id: vacancy.id,
-      source: "web",
       ip_address: getClientIP(request),
-      payload: {
-        action: "resubmit",
-        previous_status: "needs_adjustment",
-        new_status: "wacht_op_goedkeuring",
-      },
+      fields: { rejection_reason: null },
+      payload: review
+        ? {
+            review_id: review.id,
+            review_round: review.round,
+            comments_addressed: review.addressed_count,
+            comments_total: review.comments.length,
+          }
+        : undefined,
     });
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
 
     return NextResponse.json({
       success: true,
-      vacancy: updatedVacancy,
+      vacancy: result.vacancy,
+      review,
     });
   } catch (error: unknown) {
     console.error("Error resubmitting vacancy:", getErrorMessage(error));
@@ -0,0 +1,55 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { repositories } from "@/lib/repositories";
+import { getErrorMessage } from "@/lib/utils";
+import { getReviewRound } from "@/lib/vacancy-reviews";
+
+/**
+ * GET /api/vacancies/[id]/reviews
+ * Review rounds of a vacancy, newest first
+ * Comments of the open round are marked addressed as soon as their field changes
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Niet ingelogd" }, { status: 401 });
+    }
+
+    const user = await repositories.users.getByEmail(session.user.email);
+    if (!user) {
+      return NextResponse.json({ error: "Gebruiker niet gevonden" }, { status: 404 });
+    }
+
+    const allowedEmployers: string[] = user.role_id === "intermediary"
+      ? user.managed_employers || []
+      : user.employer_id ? [user.employer_id] : [];
+
+    const vacancy = await repositories.vacancies.getById(id);
+    if (!vacancy) {
+      return NextResponse.json({ error: "Vacature niet gevonden" }, { status: 404 });
+    }
+
+    if (!vacancy.employer_id || !allowedEmployers.includes(vacancy.employer_id)) {
+      return NextResponse.json({ error: "Geen toegang tot deze vacature" }, { status: 403 });
+    }
+
+    const reviews = await repositories.vacancyReviews.getByVacancyId(id);
+
+    return NextResponse.json({
+      rounds: reviews.map((review) => getReviewRound(review, vacancy)),
+    });
+  } catch (error: unknown) {
+    console.error("Error fetching vacancy reviews:", getErrorMessage(error));
+    return NextResponse.json(
+      { error: "Er ging iets mis bij het ophalen van de feedback" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,107 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { repositories } from "@/lib/repositories";
+import { getErrorMessage } from "@/lib/utils";
+import { logEvent } from "@/lib/events";
+import type { VacancyStatus } from "@/lib/vacancy-status";
+import {
+  getChangedRevisionFields,
+  getRestoreUpdate,
+  getRevisionContent,
+  parseRevisionContent,
+} from "@/lib/vacancy-revisions";
+
+// Vacancies under review are read-only (same as in the wizard)
+const RESTORE_BLOCKED_STATUSES: VacancyStatus[] = ["wacht_op_goedkeuring", "ingepland"];
+
+/**
+ * POST /api/vacancies/[id]/revisions/[revisionId]/restore
+ * Puts the content of a revision back on the vacancy and records it as a new
+ * revision (source "restore"); the history itself is never rewritten.
+ * Published vacancies still go through /api/vacancies/[id]/sync afterwards.
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string; revisionId: string }> }
+) {
+  try {
+    const { id, revisionId } = await params;
+
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Niet ingelogd" }, { status: 401 });
+    }
+
+    const user = await repositories.users.getByEmail(session.user.email);
+    if (!user) {
+      return NextResponse.json({ error: "Gebruiker niet gevonden" }, { status: 404 });
+    }
+
+    const allowedEmployers: string[] = user.role_id === "intermediary"
+      ? user.managed_employers || []
+      : user.employer_id ? [user.employer_id] : [];
+
+    const existingVacancy = await repositories.vacancies.getById(id);
+    if (!existingVacancy) {
+      return NextResponse.json({ error: "Vacature niet gevonden" }, { status: 404 });
+    }
+
+    if (!existingVacancy.employer_id || !allowedEmployers.includes(existingVacancy.employer_id)) {
+      return NextResponse.json({ error: "Geen toegang tot deze vacature" }, { status: 403 });
+    }
+
+    if (RESTORE_BLOCKED_STATUSES.includes(existingVacancy.status)) {
+      return NextResponse.json(
+        { error: "Deze vacature wordt beoordeeld en kan nu niet worden aangepast" },
+        { status: 400 }
+      );
+    }
+
+    const revision = await repositories.vacancyRevisions.getById(revisionId);
+    if (!revision || revision.vacancy_id !== id) {
+      return NextResponse.json({ error: "Versie niet gevonden" }, { status: 404 });
+    }
+
+    const content = parseRevisionContent(revision);
+    const changedFields = getChangedRevisionFields(content, getRevisionContent(existingVacancy));
+    if (changedFields.length === 0) {
+      return NextResponse.json(
+        { error: "Deze versie is gelijk aan de huidige inhoud" },
+        { status: 400 }
+      );
+    }
+
+    const vacancy = await repositories.vacancies.update(id, getRestoreUpdate(content, existingVacancy));
+
+    const restoredRevision = await repositories.vacancyRevisions.create({
+      vacancy_id: id,
+      author_user_id: user.id,
+      source: "restore",
+      restored_from: revision.id,
+      content_json: JSON.stringify(getRevisionContent(vacancy)),
+    });
+
+    await logEvent({
+      event_type: "vacancy_updated",
+      actor_user_id: user.id,
+      employer_id: existingVacancy.employer_id || null,
+      vacancy_id: id,
+      source: "web",
+      payload: {
+        action: "revision_restored",
+        restored_from: revision.id,
+        revision_id: restoredRevision.id,
+        updated_fields: changedFields,
+      },
+    });
+
+    return NextResponse.json({ vacancy, revision: { id: restoredRevision.id } });
+  } catch (error: unknown) {
+    console.error("Error restoring vacancy revision:", getErrorMessage(error));
+    return NextResponse.json(
+      { error: "Er ging iets mis bij het terugzetten van de versie" },
+      { status: 500 }
+    );
+  }
+}
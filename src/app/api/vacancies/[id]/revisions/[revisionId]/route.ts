@@ -0,0 +1,84 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { repositories } from "@/lib/repositories";
+import { getErrorMessage } from "@/lib/utils";
+import { htmlToMarkdown } from "@/lib/html-markdown";
+import { diffSideBySide } from "@/lib/text-diff";
+import {
+  getChangedRevisionFields,
+  getRevisionContent,
+  parseRevisionContent,
+  REVISION_DIFF_FIELDS,
+} from "@/lib/vacancy-revisions";
+
+/**
+ * GET /api/vacancies/[id]/revisions/[revisionId]
+ * A revision compared to the current vacancy content:
+ * - changed_fields: all content fields that differ
+ * - diff: side-by-side rows (markdown) for intro_txt and description
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string; revisionId: string }> }
+) {
+  try {
+    const { id, revisionId } = await params;
+
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Niet ingelogd" }, { status: 401 });
+    }
+
+    const user = await repositories.users.getByEmail(session.user.email);
+    if (!user) {
+      return NextResponse.json({ error: "Gebruiker niet gevonden" }, { status: 404 });
+    }
+
+    const allowedEmployers: string[] = user.role_id === "intermediary"
+      ? user.managed_employers || []
+      : user.employer_id ? [user.employer_id] : [];
+
+    const vacancy = await repositories.vacancies.getById(id);
+    if (!vacancy) {
+      return NextResponse.json({ error: "Vacature niet gevonden" }, { status: 404 });
+    }
+
+    if (!vacancy.employer_id || !allowedEmployers.includes(vacancy.employer_id)) {
+      return NextResponse.json({ error: "Geen toegang tot deze vacature" }, { status: 403 });
+    }
+
+    const revision = await repositories.vacancyRevisions.getById(revisionId);
+    if (!revision || revision.vacancy_id !== id) {
+      return NextResponse.json({ error: "Versie niet gevonden" }, { status: 404 });
+    }
+
+    const revisionContent = parseRevisionContent(revision);
+    const currentContent = getRevisionContent(vacancy);
+
+    const diff = Object.fromEntries(
+      REVISION_DIFF_FIELDS.map((field) => [
+        field,
+        diffSideBySide(htmlToMarkdown(revisionContent[field]), htmlToMarkdown(currentContent[field])),
+      ])
+    );
+
+    return NextResponse.json({
+      revision: {
+        id: revision.id,
+        source: revision.source,
+        "created-at": revision["created-at"],
+        "updated-at": revision["updated-at"],
+        content: revisionContent,
+      },
+      changed_fields: getChangedRevisionFields(revisionContent, currentContent),
+      diff,
+    });
+  } catch (error: unknown) {
+    console.error("Error fetching vacancy revision:", getErrorMessage(error));
+    return NextResponse.json(
+      { error: "Er ging iets mis bij het ophalen van de versie" },
+      { status: 500 }
+    );
+  }
+}
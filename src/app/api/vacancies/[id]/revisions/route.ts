@@ -0,0 +1,77 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { repositories } from "@/lib/repositories";
+import { getErrorMessage } from "@/lib/utils";
+import { getChangedRevisionFields, parseRevisionContent } from "@/lib/vacancy-revisions";
+
+/**
+ * GET /api/vacancies/[id]/revisions
+ * Content history of a vacancy, newest first
+ * Each revision lists the fields changed compared to the revision before it
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Niet ingelogd" }, { status: 401 });
+    }
+
+    const user = await repositories.users.getByEmail(session.user.email);
+    if (!user) {
+      return NextResponse.json({ error: "Gebruiker niet gevonden" }, { status: 404 });
+    }
+
+    const allowedEmployers: string[] = user.role_id === "intermediary"
+      ? user.managed_employers || []
+      : user.employer_id ? [user.employer_id] : [];
+
+    const vacancy = await repositories.vacancies.getById(id);
+    if (!vacancy) {
+      return NextResponse.json({ error: "Vacature niet gevonden" }, { status: 404 });
+    }
+
+    if (!vacancy.employer_id || !allowedEmployers.includes(vacancy.employer_id)) {
+      return NextResponse.json({ error: "Geen toegang tot deze vacature" }, { status: 403 });
+    }
+
+    const revisions = await repositories.vacancyRevisions.getByVacancyId(id);
+
+    // Author names (one lookup per author)
+    const authorIds = [...new Set(revisions.map((r) => r.author_user_id).filter((a): a is string => !!a))];
+    const authors = await Promise.all(authorIds.map((authorId) => repositories.users.getById(authorId)));
+    const authorNames = new Map<string, string>();
+    for (const author of authors) {
+      if (author) {
+        authorNames.set(author.id, [author.first_name, author.last_name].filter(Boolean).join(" ") || author.email);
+      }
+    }
+
+    const contents = revisions.map(parseRevisionContent);
+
+    return NextResponse.json({
+      revisions: revisions.map((revision, index) => ({
+        id: revision.id,
+        source: revision.source,
+        restored_from: revision.restored_from ?? null,
+        author_name: revision.author_user_id ? authorNames.get(revision.author_user_id) ?? null : null,
+        "created-at": revision["created-at"],
+        "updated-at": revision["updated-at"],
+        changed_fields: index < revisions.length - 1
+          ? getChangedRevisionFields(contents[index + 1], contents[index])
+          : [],
+      })),
+    });
+  } catch (error: unknown) {
+    console.error("Error fetching vacancy revisions:", getErrorMessage(error));
+    return NextResponse.json(
+      { error: "Er ging iets mis bij het ophalen van de versiegeschiedenis" },
+      { status: 500 }
+    );
+  }
+}
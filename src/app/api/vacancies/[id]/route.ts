@@ -1,24 +1,27 @@
 import { NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
-import {
-  getUserByEmail,
-  getVacancyById,
-  updateVacancy,
-  getTransactionsByVacancyId,
-  vacancyStatusEnum,
-  vacancyInputTypeEnum,
-} from "@/lib/airtable";
+import { vacancyInputTypeEnum } from "@/lib/airtable";
+import { repositories } from "@/lib/repositories";
 import { getErrorMessage } from "@/lib/utils";
 import { logEvent } from "@/lib/events";
+import { recordVacancyRevision } from "@/lib/vacancy-revisions";
+import { VACANCY_SEO_SOURCE_FIELDS } from "@/lib/seo";
+import {
+  DEPUBLISH_AT_EDITABLE_STATUSES,
+  PUBLISH_FROM_EDITABLE_STATUSES,
+  validatePublicationSchedule,
+  validateScheduledPublishFrom,
+} from "@/lib/vacancy-schedule";
 import { z } from "zod";
 
 const optionalString = z.string().max(5000).optional().nullable();
 const optionalShortString = z.string().max(500).optional().nullable();
 
 const vacancyPatchSchema = z.object({
+  // status is not editable here: status changes go through the state machine
+  // routes (submit, publish, depublish, ...), see lib/vacancy-state-machine.ts
   title: z.string().max(200).optional().nullable(),
-  status: vacancyStatusEnum.optional(),
   input_type: vacancyInputTypeEnum.optional(),
 
   intro_txt: optionalString,
@@ -55,6 +58,13 @@ const vacancyPatchSchema = z.object({
 
   closing_date: z.string().max(30).optional().nullable().or(z.literal("")),
 
+  // Left out of the aggregator job feeds (lib/job-feed.ts)
+  syndication_opt_out: z.boolean().optional(),
+
+  // Scheduled publication (null clears), see lib/vacancy-schedule.ts
+  publish_from: z.string().max(30).optional().nullable(),
+  depublish_at: z.string().max(30).optional().nullable(),
+
   needs_webflow_sync: z.boolean().optional(),
   needs_webflow_archive: z.boolean().optional(),
   high_priority: z.boolean().optional(),
@@ -83,7 +93,7 @@ export async function GET(
     }
 
     // Get user
-    const user = await getUserByEmail(session.user.email);
+    const user = await repositories.users.getByEmail(session.user.email);
     if (!user) {
       return NextResponse.json({ error: "Gebruiker niet gevonden" }, { status: 404 });
     }
@@ -103,8 +113,8 @@ export async function GET(
 
     // Fetch vacancy (and optionally transactions in parallel)
     const [vacancy, transactions] = await Promise.all([
-      getVacancyById(id),
-      includeTransactions ? getTransactionsByVacancyId(id) : Promise.resolve(undefined),
+      repositories.vacancies.getById(id),
+      includeTransactions ? repositories.transactions.getByVacancyId(id) : Promise.resolve(undefined),
     ]);
 
     if (!vacancy) {
@@ -148,7 +158,7 @@ export async function PATCH(
     }
 
     // Get user
-    const user = await getUserByEmail(session.user.email);
+    const user = await repositories.users.getByEmail(session.user.email);
     if (!user) {
       return NextResponse.json({ error: "Gebruiker niet gevonden" }, { status: 404 });
     }
@@ -167,7 +177,7 @@ export async function PATCH(
     }
 
     // Fetch existing vacancy
-    const existingVacancy = await getVacancyById(id);
+    const existingVacancy = await repositories.vacancies.getById(id);
     if (!existingVacancy) {
       return NextResponse.json({ error: "Vacature niet gevonden" }, { status: 404 });
     }
@@ -190,10 +200,45 @@ export async function PATCH(
 
     const updates: Record<string, unknown> = { ...parsed.data };
 
+    // Scheduled publication: only while it can still take effect, and consistent with the other date
+    const { publish_from, depublish_at } = parsed.data;
+    if (publish_from !== undefined && !PUBLISH_FROM_EDITABLE_STATUSES.includes(existingVacancy.status)) {
+      return NextResponse.json(
+        { error: "De publicatiedatum kan niet meer worden gewijzigd voor deze vacature" },
+        { status: 400 }
+      );
+    }
+    if (publish_from !== undefined && publish_from !== existingVacancy.publish_from) {
+      const publishFromError = validateScheduledPublishFrom(existingVacancy.status, publish_from);
+      if (publishFromError) {
+        return NextResponse.json({ error: publishFromError }, { status: 400 });
+      }
+    }
+    if (depublish_at !== undefined && !DEPUBLISH_AT_EDITABLE_STATUSES.includes(existingVacancy.status)) {
+      return NextResponse.json(
+        { error: "De depublicatiedatum kan niet meer worden gewijzigd voor deze vacature" },
+        { status: 400 }
+      );
+    }
+    if (publish_from !== undefined || depublish_at !== undefined) {
+      const scheduleError = validatePublicationSchedule({
+        publish_from: publish_from !== undefined ? publish_from : existingVacancy.publish_from,
+        depublish_at: depublish_at !== undefined ? depublish_at : existingVacancy.depublish_at,
+      });
+      if (scheduleError) {
+        return NextResponse.json({ error: scheduleError }, { status: 400 });
+      }
+    }
+
     // Remove empty date fields (Airtable doesn't accept empty strings for date fields)
     if (updates.closing_date === "" || updates.closing_date === null) {
       delete updates.closing_date;
     }
+
+    // New closing date: the expiry warning goes out again before it
+    if (updates.closing_date !== undefined && updates.closing_date !== existingVacancy.closing_date) {
+      updates.closing_warning_sent_at = null;
+    }
     
     // Remove linked record fields if they're null, empty string, or empty array
     const linkedRecordFields = [
@@ -217,8 +262,24 @@ export async function PATCH(
       }
     }
 
+    // Generated SEO texts follow the content: cleared so the next sync writes new ones
+    const seoSourceChanged = VACANCY_SEO_SOURCE_FIELDS.some(
+      (field) => updates[field] !== undefined && (updates[field] || null) !== (existingVacancy[field] || null)
+    );
+    if (seoSourceChanged && !existingVacancy.seo_custom) {
+      updates.seo_title = null;
+      updates.seo_meta_description = null;
+    }
+
     // Update vacancy
-    const vacancy = await updateVacancy(id, updates);
+    const vacancy = await repositories.vacancies.update(id, updates);
+
+    // Content history (a failing revision write does not fail the save)
+    try {
+      await recordVacancyRevision(existingVacancy, vacancy, { author_user_id: user.id });
+    } catch (revisionError: unknown) {
+      console.error("Error recording vacancy revision:", getErrorMessage(revisionError));
+    }
 
     // Log event
     await logEvent({
@@ -0,0 +1,186 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import type { UserRecord, VacancyRecord } from "@/lib/airtable";
+import { repositories } from "@/lib/repositories";
+import { getErrorMessage } from "@/lib/utils";
+import { logEvent } from "@/lib/events";
+import { getVacancyPublicUrl, toSlug } from "@/lib/slugs";
+import {
+  SEO_META_DESCRIPTION_LENGTH,
+  SEO_TITLE_LENGTH,
+  ensureVacancySeo,
+  resetVacancySeo,
+  setCustomVacancySeo,
+} from "@/lib/seo";
+import { z } from "zod";
+
+const seoSchema = z.object({
+  seo_title: z.string().max(500),
+  seo_meta_description: z.string().max(2000),
+});
+
+type VacancyAccess =
+  | { success: true; user: UserRecord; vacancy: VacancyRecord }
+  | { success: false; response: NextResponse };
+
+/**
+ * Current user and the vacancy, if it belongs to the user's employer(s)
+ */
+async function getAccessibleVacancy(id: string): Promise<VacancyAccess> {
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.email) {
+    return { success: false, response: NextResponse.json({ error: "Niet ingelogd" }, { status: 401 }) };
+  }
+
+  const user = await repositories.users.getByEmail(session.user.email);
+  if (!user) {
+    return { success: false, response: NextResponse.json({ error: "Gebruiker niet gevonden" }, { status: 404 }) };
+  }
+
+  const allowedEmployers: string[] = user.role_id === "intermediary"
+    ? user.managed_employers || []
+    : user.employer_id ? [user.employer_id] : [];
+
+  const vacancy = await repositories.vacancies.getById(id);
+  if (!vacancy) {
+    return { success: false, response: NextResponse.json({ error: "Vacature niet gevonden" }, { status: 404 }) };
+  }
+  if (!vacancy.employer_id || !allowedEmployers.includes(vacancy.employer_id)) {
+    return { success: false, response: NextResponse.json({ error: "Geen toegang tot deze vacature" }, { status: 403 }) };
+  }
+
+  return { success: true, user, vacancy };
+}
+
+/** SEO texts of a vacancy as returned by this route */
+function toSeoResponse(vacancy: VacancyRecord) {
+  return {
+    seo_title: vacancy.seo_title || "",
+    seo_meta_description: vacancy.seo_meta_description || "",
+    custom: vacancy.seo_custom,
+    // Stored slug, or the one a new vacancy will most likely get
+    url: getVacancyPublicUrl(vacancy.slug || toSlug(vacancy.title || "") || "vacature"),
+    bounds: {
+      seo_title: SEO_TITLE_LENGTH,
+      seo_meta_description: SEO_META_DESCRIPTION_LENGTH,
+    },
+  };
+}
+
+/**
+ * GET /api/vacancies/[id]/seo
+ * SEO title and meta description of the vacancy, generated and stored when missing
+ * Response: { seo: { seo_title, seo_meta_description, custom, url, bounds } }
+ */
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const access = await getAccessibleVacancy(id);
+    if (!access.success) return access.response;
+
+    const { vacancy } = access;
+    const employer = vacancy.employer_id ? await repositories.employers.getById(vacancy.employer_id) : null;
+    const texts = await ensureVacancySeo(vacancy, employer);
+
+    return NextResponse.json({ seo: toSeoResponse({ ...vacancy, ...texts }) });
+  } catch (error: unknown) {
+    console.error("Error getting vacancy SEO:", getErrorMessage(error));
+    return NextResponse.json(
+      { error: "Er ging iets mis bij het ophalen van de SEO-teksten" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/vacancies/[id]/seo
+ * Override the SEO texts: { seo_title, seo_meta_description } within the length bounds
+ * Overridden texts are kept when the vacancy is edited
+ */
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const access = await getAccessibleVacancy(id);
+    if (!access.success) return access.response;
+
+    const parsed = seoSchema.safeParse(await request.json().catch(() => ({})));
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Ongeldige invoer", details: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const { user, vacancy } = access;
+    const result = await setCustomVacancySeo(vacancy, parsed.data);
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    await logEvent({
+      event_type: "vacancy_updated",
+      actor_user_id: user.id,
+      employer_id: vacancy.employer_id || null,
+      vacancy_id: vacancy.id,
+      source: "web",
+      payload: {
+        action: "seo_customized",
+        updated_fields: ["seo_title", "seo_meta_description"],
+      },
+    });
+
+    return NextResponse.json({ seo: toSeoResponse(result.vacancy) });
+  } catch (error: unknown) {
+    console.error("Error updating vacancy SEO:", getErrorMessage(error));
+    return NextResponse.json(
+      { error: "Er ging iets mis bij het opslaan van de SEO-teksten" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/vacancies/[id]/seo
+ * Drop the overridden texts and generate new ones
+ */
+export async function DELETE(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const access = await getAccessibleVacancy(id);
+    if (!access.success) return access.response;
+
+    const { user, vacancy } = access;
+    const employer = vacancy.employer_id ? await repositories.employers.getById(vacancy.employer_id) : null;
+    const updated = await resetVacancySeo(vacancy, employer);
+
+    await logEvent({
+      event_type: "vacancy_updated",
+      actor_user_id: user.id,
+      employer_id: vacancy.employer_id || null,
+      vacancy_id: vacancy.id,
+      source: "web",
+      payload: {
+        action: "seo_reset",
+        updated_fields: ["seo_title", "seo_meta_description"],
+      },
+    });
+
+    return NextResponse.json({ seo: toSeoResponse(updated) });
+  } catch (error: unknown) {
+    console.error("Error resetting vacancy SEO:", getErrorMessage(error));
+    return NextResponse.json(
+      { error: "Er ging iets mis bij het herstellen van de SEO-teksten" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,19 +1,14 @@
 import { NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
-import {
-  getUserByEmail,
-  getVacancyById,
-  getVacanciesByEmployerId,
-  updateVacancy,
-  getWalletByEmployerId,
-  deductCreditsFromWallet,
-  createSpendTransaction,
-  getProductById,
-  spendCreditsWithFIFO,
-} from "@/lib/airtable";
+import { repositories, type VacancyUpdate } from "@/lib/repositories";
 import { getErrorMessage } from "@/lib/utils";
-import { logEvent, getClientIP } from "@/lib/events";
+import { getClientIP } from "@/lib/events";
+import { chargeCredits } from "@/lib/ledger";
+import { purchaseVacancyTransition } from "@/lib/vacancy-purchase";
+import { getCreditPolicy, planCreditSpend } from "@/lib/credits";
+import { SUBMITTED_VACANCY_STATUSES, isSubmittedVacancyStatus } from "@/lib/vacancy-status";
+import { checkVacancyTransition, getVacancyActor } from "@/lib/vacancy-state-machine";
 
 // Invoice details type matching frontend
 interface InvoiceDetails {
@@ -29,10 +24,11 @@ interface InvoiceDetails {
  * POST /api/vacancies/[id]/submit
  * Submits a vacancy for approval
  * - Validates all required fields
- * - Checks credit balance
+ * - Checks credit balance against the employer's credit policy
  * - If sufficient credits: deducts credits and creates spend transaction
- * - If insufficient credits: deducts available credits + creates invoice transaction for the rest
- * - Updates vacancy status to "wacht_op_goedkeuring"
+ * - If insufficient credits: depending on the policy, invoices the shortage,
+ *   lets the balance go negative (overdraft) or blocks the submission
+ * - Updates vacancy status to "wacht_op_goedkeuring" (state machine transition "submit")
  */
 export async function POST(
   request: Request,
@@ -52,7 +48,7 @@ export async function POST(
     }
 
     // Get user and employer
-    const user = await getUserByEmail(session.user.email);
+    const user = await repositories.users.getByEmail(session.user.email);
     if (!user) {
       return NextResponse.json({ error: "Gebruiker niet gevonden" }, { status: 404 });
     }
@@ -71,7 +67,7 @@ export async function POST(
     }
 
     // Fetch vacancy
-    const vacancy = await getVacancyById(id);
+    const vacancy = await repositories.vacancies.getById(id);
     if (!vacancy) {
       return NextResponse.json({ error: "Vacature niet gevonden" }, { status: 404 });
     }
@@ -83,38 +79,29 @@ export async function POST(
 
     // Check if this is the first submitted vacancy for this employer
     // We check for any vacancies that have been submitted before (past concept stage)
-    const existingSubmittedVacancies = await getVacanciesByEmployerId(vacancy.employer_id, {
-      status: ["wacht_op_goedkeuring", "gepubliceerd", "gedepubliceerd", "verlopen"]
+    const existingSubmittedVacancies = await repositories.vacancies.getByEmployerId(vacancy.employer_id, {
+      status: SUBMITTED_VACANCY_STATUSES,
     });
     const isFirstVacancy = existingSubmittedVacancies.length === 0;
 
     // Prevent re-submission of already submitted vacancies
-    const submittedStatuses = ["wacht_op_goedkeuring", "gepubliceerd", "verlopen", "gedepubliceerd"];
-    if (submittedStatuses.includes(vacancy.status)) {
+    if (isSubmittedVacancyStatus(vacancy.status)) {
       return NextResponse.json(
         { error: "Deze vacature is al ingediend. Gebruik de wijzig-functie om aanpassingen te maken." },
         { status: 400 }
       );
     }
 
-    // Verify vacancy is in concept status
-    if (vacancy.status !== "concept") {
-      return NextResponse.json(
-        { error: "Alleen concept vacatures kunnen worden ingediend" },
-        { status: 400 }
-      );
-    }
-
-    // Verify package is selected
-    if (!vacancy.package_id) {
-      return NextResponse.json(
-        { error: "Selecteer eerst een vacaturepakket" },
-        { status: 400 }
-      );
+    // Verify the vacancy can be submitted (concept status, package selected)
+    const actor = getVacancyActor(user);
+    const transitionCheck = checkVacancyTransition(vacancy, "submit", actor);
+    if (!transitionCheck.allowed) {
+      return NextResponse.json({ error: transitionCheck.error }, { status: 400 });
     }
+    const packageId = vacancy.package_id as string; // Guaranteed by the submit guard
 
     // Get package details
-    const packageProduct = await getProductById(vacancy.package_id);
+    const packageProduct = await repositories.products.getById(packageId);
     if (!packageProduct) {
       return NextResponse.json(
         { error: "Geselecteerd pakket niet gevonden" },
@@ -128,10 +115,10 @@ export async function POST(
     const upsellIds = vacancy.selected_upsells || [];
     let hasVandaagOnline = false;
     let hasFeatured = false;
-    const fetchedUpsells: NonNullable<Awaited<ReturnType<typeof getProductById>>>[] = [];
+    const fetchedUpsells: NonNullable<Awaited<ReturnType<typeof repositories.products.getById>>>[] = [];
     
     for (const upsellId of upsellIds) {
-      const upsell = await getProductById(upsellId);
+      const upsell = await repositories.products.getById(upsellId);
       if (upsell) {
         fetchedUpsells.push(upsell);
         totalCredits += upsell.credits;
@@ -146,7 +133,7 @@ export async function POST(
     }
 
     // Get wallet and check balance (use vacancy's employer_id for wallet lookup)
-    const wallet = await getWalletByEmployerId(vacancy.employer_id);
+    const wallet = await repositories.wallets.getByEmployerId(vacancy.employer_id);
     if (!wallet) {
       return NextResponse.json(
         { error: "Wallet niet gevonden" },
@@ -155,19 +142,32 @@ export async function POST(
     }
 
     const availableCredits = wallet.balance;
-    const shortage = Math.max(0, totalCredits - availableCredits);
-    const hasEnoughCredits = shortage === 0;
+    const employer = await repositories.employers.getById(vacancy.employer_id);
+    const creditPolicy = getCreditPolicy(employer);
+    const plan = planCreditSpend(totalCredits, totalPrice, availableCredits, creditPolicy);
+    const shortage = plan.credits_to_invoice;
+    const needsInvoice = shortage > 0;
 
     console.log("[Submit] Credit calculation:", {
       totalCredits,
       totalPrice,
       availableCredits,
+      policy: plan.policy,
+      creditsToDeduct: plan.credits_to_deduct,
       shortage,
-      hasEnoughCredits,
+      allowed: plan.allowed,
     });
 
-    // If not enough credits, invoice details are required
-    if (!hasEnoughCredits && !invoiceDetails) {
+    // The employer's credit policy does not allow this shortage
+    if (!plan.allowed) {
+      return NextResponse.json(
+        { error: plan.message, credit_policy: plan.policy },
+        { status: 400 }
+      );
+    }
+
+    // If the shortage is invoiced, invoice details are required
+    if (needsInvoice && !invoiceDetails) {
       return NextResponse.json(
         { error: "Factuurgegevens zijn verplicht bij onvoldoende credits" },
         { status: 400 }
@@ -175,7 +175,7 @@ export async function POST(
     }
 
     // Validate invoice details if provided
-    if (!hasEnoughCredits && invoiceDetails) {
+    if (needsInvoice && invoiceDetails) {
       if (!invoiceDetails.contact_name || !invoiceDetails.email || 
           !invoiceDetails.street || !invoiceDetails.postal_code || !invoiceDetails.city) {
         return NextResponse.json(
@@ -194,80 +194,47 @@ export async function POST(
       );
     }
 
-    // Calculate credits to deduct and invoice amount
-    const creditsToDeduct = Math.min(availableCredits, totalCredits);
+    // Credits to deduct and invoice amount (proportional) follow from the policy plan
+    const creditsToDeduct = plan.credits_to_deduct;
     const creditsForInvoice = shortage;
-    
-    // Calculate invoice amount proportionally
-    const invoiceAmount = totalCredits > 0 
-      ? Math.round((creditsForInvoice / totalCredits) * totalPrice)
-      : 0;
+    const invoiceAmount = plan.invoice_amount;
 
     // Collect all product IDs (package + upsells)
-    const allProductIds = [vacancy.package_id, ...upsellIds];
-
-    // Deduct available credits from wallet using FIFO (if any)
-    // This uses credits from the oldest non-expired batches first
-    let fifoResult = null;
-    if (creditsToDeduct > 0) {
-      fifoResult = await spendCreditsWithFIFO(vacancy.employer_id, wallet.id, creditsToDeduct);
-      console.log("[Submit] FIFO spend result:", fifoResult);
-    }
+    const allProductIds = [packageId, ...upsellIds];
 
-    // Create a single spend transaction (with optional invoice details for partial payment)
-    await createSpendTransaction({
-      employer_id: vacancy.employer_id,
-      wallet_id: wallet.id,
-      user_id: user.id, // Track which user initiated the transaction
-      vacancy_id: vacancy.id,
-      total_credits: totalCredits, // Total credits the vacancy costs
-      total_cost: totalPrice, // Total price in euros
-      credits_shortage: shortage, // Credits short (0 if enough)
-      invoice_amount: invoiceAmount, // Euro amount to be invoiced
-      product_ids: allProductIds,
-      context: "vacancy",
-      // Include invoice details if there's a shortage
-      ...(shortage > 0 && invoiceDetails ? {
-        invoice_details_snapshot: JSON.stringify(invoiceDetails),
-        invoice_trigger: "on_vacancy_publish" as const,
-      } : {}),
-    });
+    // Charge the vacancy through the ledger and submit it in one purchase: one spend
+    // transaction (with optional invoice details for partial payment) plus FIFO deduction
+    // of the available credits, refunded again if the submit transition fails.
+    // A vacancy is only charged once, so the vacancy ID is the idempotency key.
+    const idempotencyKey = `vacancy-submit:${vacancy.id}`;
 
-    // Create €0 "included" transactions for each upsell included in the package
-    // These enable the repeat_mode engine to track when included upsell effects expire
-    // Also check if any included upsell is the featured upsell
+    // Upsells included in the package; the featured upsell marks the vacancy as featured
     const includedUpsellIds = packageProduct.included_upsells || [];
-    if (includedUpsellIds.length > 0) {
-      console.log("[Submit] Creating included upsell transactions:", includedUpsellIds.length);
-      for (const includedUpsellId of includedUpsellIds) {
-        const includedUpsell = await getProductById(includedUpsellId);
-        if (includedUpsell?.slug === "prod_upsell_featured") {
-          hasFeatured = true;
-        }
-        await createSpendTransaction({
-          employer_id: vacancy.employer_id,
-          wallet_id: wallet.id,
-          user_id: user.id,
-          vacancy_id: vacancy.id,
-          total_credits: 0,
-          total_cost: 0,
-          credits_shortage: 0,
-          invoice_amount: 0,
-          product_ids: [includedUpsellId],
-          context: "included",
-        });
+    for (const includedUpsellId of includedUpsellIds) {
+      const includedUpsell = await repositories.products.getById(includedUpsellId);
+      if (includedUpsell?.slug === "prod_upsell_featured") {
+        hasFeatured = true;
       }
     }
 
-    // Update vacancy status (and set high_priority if "Vandaag online" upsell is selected)
+    // Determine if submitted before 15:00 NL time (for "Vandaag online" cutoff)
+    const nlHour = Number(
+      new Intl.DateTimeFormat("nl-NL", {
+        hour: "numeric",
+        hour12: false,
+        timeZone: "Europe/Amsterdam",
+      }).format(new Date())
+    );
+    const submittedBeforeCutoff = nlHour < 15;
+
+    // Submit the vacancy (status and submitted-at via the state machine, which also logs the event)
+    // Also set high_priority if "Vandaag online" upsell is selected
     // Also set is_featured if any product has sets_featured=true
     // Set is_first_vacancy if this is the first submitted vacancy for the employer
     // Strip DIY-only fields when submitting as "We do it for you"
     // These fields may have been filled during a previous DIY session and should not
     // be persisted in the final submission to avoid confusion for the review team.
-    const updatedVacancy = await updateVacancy(id, {
-      status: "wacht_op_goedkeuring",
-      "submitted-at": new Date().toISOString(),
+    const fields: VacancyUpdate = {
       ...(isFirstVacancy ? { is_first_vacancy: true } : {}),
       ...(hasVandaagOnline ? { high_priority: true } : {}),
       ...(hasFeatured ? { is_featured: true, "featured-at": new Date().toISOString() } : {}),
@@ -296,26 +263,35 @@ export async function POST(
         // Strip "We do it for you"-only fields for self-service submissions
         note: null,
       }),
-    });
-
-    // Determine if submitted before 15:00 NL time (for "Vandaag online" cutoff)
-    const nlHour = Number(
-      new Intl.DateTimeFormat("nl-NL", {
-        hour: "numeric",
-        hour12: false,
-        timeZone: "Europe/Amsterdam",
-      }).format(new Date())
-    );
-    const submittedBeforeCutoff = nlHour < 15;
+    };
 
-    // Log event
-    await logEvent({
-      event_type: "vacancy_created",
+    const result = await purchaseVacancyTransition(vacancy, "submit", {
+      charge: {
+        idempotencyKey,
+        credits_to_deduct: creditsToDeduct,
+        overdraft_limit: creditPolicy.overdraft_limit,
+        employer_id: vacancy.employer_id,
+        wallet_id: wallet.id,
+        user_id: user.id, // Track which user initiated the transaction
+        vacancy_id: vacancy.id,
+        total_credits: totalCredits, // Total credits the vacancy costs
+        total_cost: totalPrice, // Total price in euros
+        credits_shortage: shortage, // Credits short (0 if enough)
+        invoice_amount: invoiceAmount, // Euro amount to be invoiced
+        product_ids: allProductIds,
+        context: "vacancy",
+        // Include invoice details if there's a shortage
+        ...(shortage > 0 && invoiceDetails ? {
+          invoice_details_snapshot: JSON.stringify(invoiceDetails),
+          invoice_trigger: "on_vacancy_publish" as const,
+        } : {}),
+      },
+      // A retried request only submits again while the vacancy is still a concept
+      isApplied: (current) => current.status !== "concept",
+      actor,
       actor_user_id: user.id,
-      employer_id: vacancy.employer_id || null,
-      vacancy_id: vacancy.id,
-      source: "web",
       ip_address: getClientIP(request),
+      fields,
       payload: {
         action: "submitted",
         package_id: packageProduct.id,
@@ -326,7 +302,8 @@ export async function POST(
         credits_invoiced: creditsForInvoice,
         invoice_amount: invoiceAmount,
         input_type: vacancy.input_type,
-        payment_method: hasEnoughCredits ? "credits" : "partial_invoice",
+        payment_method: needsInvoice ? "partial_invoice" : plan.overdraft_used > 0 ? "overdraft" : "credits",
+        credit_policy: plan.policy,
         is_first_vacancy: isFirstVacancy,
         ...(hasVandaagOnline ? {
           vandaag_online: true,
@@ -334,14 +311,45 @@ export async function POST(
         } : {}),
       },
     });
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+    console.log("[Submit] Ledger charge result:", {
+      transaction_id: result.charge?.transaction.id,
+      replayed: result.charge?.replayed,
+      batchesUsed: result.charge?.batchesUsed,
+    });
+
+    // Create €0 "included" transactions for each upsell included in the package
+    // These enable the repeat_mode engine to track when included upsell effects expire
+    // (keys derived from the submit key, so a retried request doesn't create them twice)
+    if (includedUpsellIds.length > 0) {
+      console.log("[Submit] Creating included upsell transactions:", includedUpsellIds.length);
+      for (const includedUpsellId of includedUpsellIds) {
+        await chargeCredits({
+          idempotencyKey: `${idempotencyKey}:included:${includedUpsellId}`,
+          credits_to_deduct: 0,
+          employer_id: vacancy.employer_id,
+          wallet_id: wallet.id,
+          user_id: user.id,
+          vacancy_id: vacancy.id,
+          total_credits: 0,
+          total_cost: 0,
+          credits_shortage: 0,
+          invoice_amount: 0,
+          product_ids: [includedUpsellId],
+          context: "included",
+        });
+      }
+    }
 
     return NextResponse.json({
       success: true,
-      vacancy: updatedVacancy,
+      vacancy: result.vacancy,
       credits_spent: creditsToDeduct,
       credits_invoiced: creditsForInvoice,
       invoice_amount: invoiceAmount,
-      new_balance: availableCredits - creditsToDeduct,
+      new_balance: result.new_balance ?? availableCredits - creditsToDeduct,
     });
   } catch (error: unknown) {
     console.error("Error submitting vacancy:", getErrorMessage(error));
@@ -1,8 +1,11 @@
 import { NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
-import { getUserByEmail, getVacancyById, updateVacancy } from "@/lib/airtable";
+import { repositories } from "@/lib/repositories";
 import { logEvent } from "@/lib/events";
+import { isSubmittedVacancyStatus } from "@/lib/vacancy-status";
+import { isWebflowConfigured } from "@/lib/webflow";
+import { syncVacancyToWebflow } from "@/lib/webflow-sync";
 
 export async function POST(
   request: Request,
@@ -18,7 +21,7 @@ export async function POST(
     }
 
     // Get user and verify ownership
-    const user = await getUserByEmail(session.user.email);
+    const user = await repositories.users.getByEmail(session.user.email);
     if (!user) {
       return NextResponse.json({ error: "Geen toegang" }, { status: 403 });
     }
@@ -36,19 +39,18 @@ export async function POST(
       allowedEmployers.push(user.employer_id);
     }
 
-    const vacancy = await getVacancyById(id);
+    const vacancy = await repositories.vacancies.getById(id);
     if (!vacancy || !vacancy.employer_id || !allowedEmployers.includes(vacancy.employer_id)) {
       return NextResponse.json({ error: "Vacature niet gevonden" }, { status: 404 });
     }
 
     // Alleen syncen als de vacature al eerder is ingediend
-    const submittedStatuses = ["wacht_op_goedkeuring", "gepubliceerd", "verlopen", "gedepubliceerd"];
-    if (!submittedStatuses.includes(vacancy.status)) {
+    if (!isSubmittedVacancyStatus(vacancy.status)) {
       return NextResponse.json({ error: "Vacature is nog niet ingediend" }, { status: 400 });
     }
 
-    // 1. Mark for sync (Airtable Automation picks this up)
-    await updateVacancy(id, { needs_webflow_sync: true });
+    // 1. Mark for sync (picked up by the webflow-sync cron if the sync below fails)
+    await repositories.vacancies.update(id, { needs_webflow_sync: true });
 
     // 2. Log event
     await logEvent({
@@ -60,7 +62,15 @@ export async function POST(
       payload: { action: "webflow_sync_requested" },
     });
 
-    return NextResponse.json({ success: true });
+    // 3. Sync right away; clears the flag on success
+    const syncResult = isWebflowConfigured()
+      ? await syncVacancyToWebflow(id)
+      : null;
+
+    return NextResponse.json({
+      success: true,
+      synced: !!syncResult && !syncResult.error,
+    });
   } catch (error) {
     console.error("Error triggering sync:", error);
     return NextResponse.json(
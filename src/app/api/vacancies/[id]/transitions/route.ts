@@ -0,0 +1,61 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { repositories } from "@/lib/repositories";
+import { getErrorMessage } from "@/lib/utils";
+import { getAvailableTransitions, getVacancyActor } from "@/lib/vacancy-state-machine";
+
+/**
+ * GET /api/vacancies/[id]/transitions
+ * Returns the status transitions the current user can start for a vacancy
+ * (see lib/vacancy-state-machine.ts). Transitions blocked by a guard are
+ * included with allowed: false and the reason.
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Niet ingelogd" }, { status: 401 });
+    }
+
+    const user = await repositories.users.getByEmail(session.user.email);
+    if (!user) {
+      return NextResponse.json({ error: "Gebruiker niet gevonden" }, { status: 404 });
+    }
+
+    const allowedEmployers: string[] = [];
+    if (user.role_id === "intermediary") {
+      allowedEmployers.push(...(user.managed_employers || []));
+    } else {
+      if (!user.employer_id) {
+        return NextResponse.json({ error: "Geen werkgever gekoppeld" }, { status: 400 });
+      }
+      allowedEmployers.push(user.employer_id);
+    }
+
+    const vacancy = await repositories.vacancies.getById(id);
+    if (!vacancy) {
+      return NextResponse.json({ error: "Vacature niet gevonden" }, { status: 404 });
+    }
+
+    if (!vacancy.employer_id || !allowedEmployers.includes(vacancy.employer_id)) {
+      return NextResponse.json({ error: "Geen toegang tot deze vacature" }, { status: 403 });
+    }
+
+    return NextResponse.json({
+      status: vacancy.status,
+      transitions: getAvailableTransitions(vacancy, getVacancyActor(user)),
+    });
+  } catch (error: unknown) {
+    console.error("Error fetching vacancy transitions:", getErrorMessage(error));
+    return NextResponse.json(
+      { error: "Er ging iets mis bij het ophalen van de vacatureacties" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,133 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { repositories } from "@/lib/repositories";
+import { getErrorMessage } from "@/lib/utils";
+import { logEvent, getClientIP } from "@/lib/events";
+import { refundVacancy } from "@/lib/ledger";
+import { checkVacancyTransition, getVacancyActor, transitionVacancy } from "@/lib/vacancy-state-machine";
+
+/**
+ * POST /api/vacancies/[id]/withdraw
+ * Withdraws a submitted vacancy before it is approved.
+ * - Validates vacancy ownership
+ * - Checks vacancy is in "wacht_op_goedkeuring" status
+ * - Sets the vacancy back to "concept" so it can be edited and submitted again
+ *   (state machine transition "withdraw")
+ * - Then refunds the spent credits to their original batches and voids open invoices;
+ *   a failed refund is reported with refund_pending: true (the withdrawal stands)
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Niet ingelogd" }, { status: 401 });
+    }
+
+    const user = await repositories.users.getByEmail(session.user.email);
+    if (!user) {
+      return NextResponse.json({ error: "Gebruiker niet gevonden" }, { status: 404 });
+    }
+
+    const allowedEmployers: string[] = [];
+    if (user.role_id === "intermediary") {
+      allowedEmployers.push(...(user.managed_employers || []));
+    } else {
+      if (!user.employer_id) {
+        return NextResponse.json({ error: "Geen werkgever gekoppeld" }, { status: 400 });
+      }
+      allowedEmployers.push(user.employer_id);
+    }
+
+    const vacancy = await repositories.vacancies.getById(id);
+    if (!vacancy) {
+      return NextResponse.json({ error: "Vacature niet gevonden" }, { status: 404 });
+    }
+
+    if (!vacancy.employer_id || !allowedEmployers.includes(vacancy.employer_id)) {
+      return NextResponse.json({ error: "Geen toegang tot deze vacature" }, { status: 403 });
+    }
+
+    const actor = getVacancyActor(user);
+    const transitionCheck = checkVacancyTransition(vacancy, "withdraw", actor);
+    if (!transitionCheck.allowed) {
+      return NextResponse.json({ error: transitionCheck.error }, { status: 400 });
+    }
+
+    const ipAddress = getClientIP(request);
+
+    const result = await transitionVacancy(vacancy, "withdraw", {
+      actor,
+      actor_user_id: user.id,
+      ip_address: ipAddress,
+    });
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    // Refund only once the vacancy is back in concept: it can no longer be approved for free.
+    // The withdrawal stands when the refund fails: the failed refund transaction is left
+    // for a retry through POST /api/admin/vacancies/[id]/refund
+    let refundResult: Awaited<ReturnType<typeof refundVacancy>>;
+    try {
+      refundResult = await refundVacancy(vacancy, {
+        user_id: user.id,
+        reference_type: "vacancy",
+      });
+    } catch (refundError: unknown) {
+      console.error(`Error refunding withdrawn vacancy ${vacancy.id}:`, getErrorMessage(refundError));
+      await logEvent({
+        event_type: "credits_refund_failed",
+        actor_user_id: user.id,
+        employer_id: vacancy.employer_id,
+        vacancy_id: vacancy.id,
+        source: "web",
+        ip_address: ipAddress,
+        payload: { reason: "withdrawn", error: getErrorMessage(refundError) },
+      });
+      return NextResponse.json({
+        success: true,
+        vacancy: result.vacancy,
+        refund_pending: true,
+      });
+    }
+
+    await logEvent({
+      event_type: "credits_refunded",
+      actor_user_id: user.id,
+      employer_id: vacancy.employer_id,
+      vacancy_id: vacancy.id,
+      source: "web",
+      ip_address: ipAddress,
+      payload: {
+        reason: "withdrawn",
+        credits_refunded: refundResult.credits_refunded,
+        invoices_voided: refundResult.invoices_voided,
+        refunds: refundResult.refunds.map((r) => ({
+          spend_id: r.spend_id,
+          refund_id: r.refund?.id || null,
+          credits: r.credits_refunded,
+        })),
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      vacancy: result.vacancy,
+      credits_refunded: refundResult.credits_refunded,
+      invoices_voided: refundResult.invoices_voided,
+      refund_pending: false,
+    });
+  } catch (error: unknown) {
+    console.error("Error withdrawing vacancy:", getErrorMessage(error));
+    return NextResponse.json(
+      { error: "Er ging iets mis bij het intrekken van de vacature" },
+      { status: 500 }
+    );
+  }
+}
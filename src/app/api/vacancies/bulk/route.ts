@@ -0,0 +1,393 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { randomUUID } from "crypto";
+import type { ProductRecord, UserRecord, VacancyRecord, WalletRecord } from "@/lib/airtable";
+import { repositories } from "@/lib/repositories";
+import { getErrorMessage } from "@/lib/utils";
+import { getClientIP, logEvent } from "@/lib/events";
+import { getIdempotencyKey } from "@/lib/ledger";
+import { getCreditPolicy, planCreditSpend, type CreditPolicySettings } from "@/lib/credits";
+import { checkVacancyTransition, getVacancyActor, transitionVacancy } from "@/lib/vacancy-state-machine";
+import { purchaseVacancyTransition } from "@/lib/vacancy-purchase";
+import { findExtensionUpsell, quoteClosingDateExtension } from "@/lib/vacancy-extension";
+import { z } from "zod";
+
+const MAX_BULK_VACANCIES = 100;
+
+const vacancyIdsSchema = z
+  .array(z.string().min(1))
+  .min(1, "Selecteer minimaal één vacature")
+  .max(MAX_BULK_VACANCIES, `Selecteer maximaal ${MAX_BULK_VACANCIES} vacatures`);
+
+const invoiceDetailsSchema = z.object({
+  contact_name: z.string().trim().min(1),
+  email: z.string().trim().min(1),
+  street: z.string().trim().min(1),
+  postal_code: z.string().trim().min(1),
+  city: z.string().trim().min(1),
+  reference_nr: z.string().trim().default(""),
+});
+
+const bulkSchema = z.discriminatedUnion("action", [
+  z.object({ action: z.literal("depublish"), vacancy_ids: vacancyIdsSchema }),
+  z.object({ action: z.literal("republish"), vacancy_ids: vacancyIdsSchema }),
+  z.object({ action: z.literal("delete"), vacancy_ids: vacancyIdsSchema }),
+  z.object({
+    action: z.literal("extend"),
+    vacancy_ids: vacancyIdsSchema,
+    new_closing_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Ongeldige datum formaat"),
+    /** Only work out the costs, nothing is charged or changed */
+    dry_run: z.boolean().optional(),
+    invoice_details: invoiceDetailsSchema.optional(),
+  }),
+]);
+
+type BulkRequest = z.infer<typeof bulkSchema>;
+type ExtendRequest = Extract<BulkRequest, { action: "extend" }>;
+
+interface BulkItemResult {
+  id: string;
+  title: string | null;
+  success: boolean;
+  error?: string;
+  /** extend only */
+  credits?: number;
+  credits_invoiced?: number;
+  extra_days?: number;
+}
+
+interface BulkContext {
+  user: UserRecord;
+  ip_address: string | null;
+}
+
+// ============================================
+// PER-VACANCY ACTIONS
+// ============================================
+
+async function depublishVacancy(vacancy: VacancyRecord, ctx: BulkContext): Promise<BulkItemResult> {
+  const result = await transitionVacancy(vacancy, "depublish", {
+    actor: getVacancyActor(ctx.user),
+    actor_user_id: ctx.user.id,
+    ip_address: ctx.ip_address,
+    payload: { bulk: true },
+  });
+  return result.success
+    ? { id: vacancy.id, title: vacancy.title || null, success: true }
+    : { id: vacancy.id, title: vacancy.title || null, success: false, error: result.error };
+}
+
+async function republishVacancy(vacancy: VacancyRecord, ctx: BulkContext): Promise<BulkItemResult> {
+  // Same transition as POST /api/vacancies/[id]/publish
+  const result = await transitionVacancy(vacancy, "publish", {
+    actor: getVacancyActor(ctx.user),
+    actor_user_id: ctx.user.id,
+    ip_address: ctx.ip_address,
+    payload: { action: "republish", bulk: true },
+  });
+  return result.success
+    ? { id: vacancy.id, title: vacancy.title || null, success: true }
+    : { id: vacancy.id, title: vacancy.title || null, success: false, error: result.error };
+}
+
+async function deleteConceptVacancy(vacancy: VacancyRecord, ctx: BulkContext): Promise<BulkItemResult> {
+  if (vacancy.status !== "concept") {
+    return {
+      id: vacancy.id,
+      title: vacancy.title || null,
+      success: false,
+      error: "Alleen concept vacatures kunnen worden verwijderd",
+    };
+  }
+
+  await repositories.vacancies.delete(vacancy.id);
+
+  // The vacancy record is gone, so the event only references it in the payload
+  await logEvent({
+    event_type: "vacancy_deleted",
+    actor_user_id: ctx.user.id,
+    employer_id: vacancy.employer_id || null,
+    source: "web",
+    ip_address: ctx.ip_address,
+    payload: { vacancy_id: vacancy.id, title: vacancy.title || null, bulk: true },
+  });
+
+  return { id: vacancy.id, title: vacancy.title || null, success: true };
+}
+
+/**
+ * Extends closing dates; charges the extension upsell per vacancy to the employer's wallet
+ * (like the boost route, refunded when the transition fails), keeping a running balance
+ * per wallet so the quote matches
+ */
+async function extendVacancies(
+  request: Request,
+  vacancies: VacancyRecord[],
+  body: ExtendRequest,
+  ctx: BulkContext,
+  extensionUpsell: ProductRecord
+): Promise<BulkItemResult[]> {
+  const actor = getVacancyActor(ctx.user);
+  const packages = await repositories.products.getActiveByType("vacancy_package");
+  const wallets = new Map<string, WalletRecord | null>();
+  const policies = new Map<string, CreditPolicySettings>();
+  const balances = new Map<string, number>();
+  const results: BulkItemResult[] = [];
+  // The dialog sends one key per submit; each vacancy's charge gets its own key derived from it
+  const requestKey = getIdempotencyKey(request, "bulk-extend");
+
+  for (const vacancy of vacancies) {
+    const title = vacancy.title || null;
+    const fail = (error: string) => results.push({ id: vacancy.id, title, success: false, error });
+    const idempotencyKey = requestKey ? `${requestKey}:${vacancy.id}` : null;
+
+    // Retried submit: a vacancy that was already extended returns its stored result
+    // (checked first, the quote is no longer valid for the new closing date)
+    if (idempotencyKey && !body.dry_run) {
+      const previousSpend = await repositories.transactions.getByIdempotencyKey(idempotencyKey);
+      if (previousSpend && vacancy.closing_date === body.new_closing_date) {
+        results.push({
+          id: vacancy.id,
+          title,
+          success: true,
+          credits: previousSpend.total_credits ?? 0,
+          credits_invoiced: previousSpend.credits_shortage ?? 0,
+        });
+        continue;
+      }
+    }
+
+    const transitionCheck = checkVacancyTransition(vacancy, "boost", actor);
+    if (!transitionCheck.allowed) {
+      fail(transitionCheck.error);
+      continue;
+    }
+
+    const employerId = vacancy.employer_id as string;
+    const transactions = await repositories.transactions.getByVacancyId(vacancy.id);
+    const quoteResult = quoteClosingDateExtension(vacancy, {
+      extensionUpsell,
+      vacancyPackage: packages.find((p) => p.id === vacancy.package_id) || null,
+      transactions,
+      closingDate: body.new_closing_date,
+    });
+    if (!quoteResult.allowed) {
+      fail(quoteResult.error);
+      continue;
+    }
+    const { quote } = quoteResult;
+
+    if (!wallets.has(employerId)) {
+      const [wallet, employer] = await Promise.all([
+        repositories.wallets.getByEmployerId(employerId),
+        repositories.employers.getById(employerId),
+      ]);
+      wallets.set(employerId, wallet);
+      policies.set(employerId, getCreditPolicy(employer));
+      if (wallet) balances.set(wallet.id, wallet.balance);
+    }
+    const wallet = wallets.get(employerId);
+    if (!wallet) {
+      fail("Wallet niet gevonden");
+      continue;
+    }
+
+    const creditPolicy = policies.get(employerId)!;
+    const available = balances.get(wallet.id) ?? wallet.balance;
+    const plan = planCreditSpend(quote.credits, quote.price, available, creditPolicy);
+    if (!plan.allowed) {
+      fail(plan.message || "Onvoldoende credits");
+      continue;
+    }
+    if (plan.credits_to_invoice > 0 && !body.invoice_details && !body.dry_run) {
+      fail("Factuurgegevens zijn verplicht bij onvoldoende credits");
+      continue;
+    }
+
+    const item = {
+      id: vacancy.id,
+      title,
+      success: true,
+      credits: quote.credits,
+      credits_invoiced: plan.credits_to_invoice,
+      extra_days: quote.extra_days,
+    };
+
+    if (body.dry_run) {
+      balances.set(wallet.id, available - plan.credits_to_deduct);
+      results.push(item);
+      continue;
+    }
+
+    try {
+      const existingUpsells = vacancy.selected_upsells || [];
+      const result = await purchaseVacancyTransition(vacancy, "boost", {
+        charge: quote.credits > 0 ? {
+          idempotencyKey: idempotencyKey ?? `bulk-extend:${vacancy.id}:${randomUUID()}`,
+          credits_to_deduct: plan.credits_to_deduct,
+          overdraft_limit: creditPolicy.overdraft_limit,
+          employer_id: employerId,
+          wallet_id: wallet.id,
+          user_id: ctx.user.id,
+          vacancy_id: vacancy.id,
+          total_credits: quote.credits,
+          total_cost: quote.price,
+          credits_shortage: plan.credits_to_invoice,
+          invoice_amount: plan.invoice_amount,
+          product_ids: [extensionUpsell.id],
+          context: "boost",
+          ...(plan.credits_to_invoice > 0 && body.invoice_details ? {
+            invoice_details_snapshot: JSON.stringify(body.invoice_details),
+            invoice_trigger: "on_vacancy_publish" as const,
+          } : {}),
+        } : null,
+        // A retried extension is applied once the vacancy has the new closing date
+        isApplied: (current) =>
+          current.closing_date === body.new_closing_date &&
+          !!current.selected_upsells?.includes(extensionUpsell.id),
+        actor,
+        actor_user_id: ctx.user.id,
+        ip_address: ctx.ip_address,
+        fields: {
+          closing_date: body.new_closing_date,
+          closing_warning_sent_at: null,
+          ...(!existingUpsells.includes(extensionUpsell.id) && {
+            selected_upsells: [...existingUpsells, extensionUpsell.id],
+          }),
+        },
+        payload: {
+          bulk: true,
+          upsell_ids: [extensionUpsell.id],
+          upsell_names: [extensionUpsell.display_name],
+          total_credits: quote.credits,
+          total_price: quote.price,
+          credits_deducted: plan.credits_to_deduct,
+          credits_invoiced: plan.credits_to_invoice,
+          invoice_amount: plan.invoice_amount,
+          new_closing_date: body.new_closing_date,
+          previous_closing_date: vacancy.closing_date || null,
+        },
+      });
+      if (!result.success) {
+        // The charge was refunded, the balance is unchanged for the next vacancy
+        fail(result.error);
+        continue;
+      }
+      balances.set(wallet.id, result.new_balance ?? available);
+      results.push(item);
+    } catch (error: unknown) {
+      console.error(`[Bulk] Extending vacancy ${vacancy.id} failed:`, getErrorMessage(error));
+      fail("Er ging iets mis bij het verlengen van deze vacature");
+    }
+  }
+
+  return results;
+}
+
+// ============================================
+// ROUTE
+// ============================================
+
+/**
+ * POST /api/vacancies/bulk
+ * Applies one action to several vacancies of the user's employer(s)
+ * Body: { action: "depublish" | "republish" | "delete" | "extend", vacancy_ids: string[] }
+ * - depublish / republish: the same state machine transitions as the single routes
+ * - delete: concept vacancies only
+ * - extend: { new_closing_date: "YYYY-MM-DD", dry_run?: boolean, invoice_details? };
+ *   buys the closing date extension per vacancy, dry_run only returns the costs
+ * Each vacancy is checked on its own; the response lists what succeeded and what failed
+ */
+export async function POST(request: Request) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const parsed = bulkSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message || "Ongeldige invoer" },
+        { status: 400 }
+      );
+    }
+    const data = parsed.data;
+
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Niet ingelogd" }, { status: 401 });
+    }
+
+    const user = await repositories.users.getByEmail(session.user.email);
+    if (!user) {
+      return NextResponse.json({ error: "Gebruiker niet gevonden" }, { status: 404 });
+    }
+
+    const allowedEmployers: string[] = user.role_id === "intermediary"
+      ? user.managed_employers || []
+      : user.employer_id ? [user.employer_id] : [];
+
+    let extensionUpsell: ProductRecord | null = null;
+    if (data.action === "extend") {
+      extensionUpsell = findExtensionUpsell(await repositories.products.getActiveByType("upsell"));
+      if (!extensionUpsell) {
+        return NextResponse.json({ error: "Looptijdverlenging is momenteel niet beschikbaar" }, { status: 400 });
+      }
+    }
+
+    const ctx: BulkContext = { user, ip_address: getClientIP(request) };
+    const results: BulkItemResult[] = [];
+    const accessible: VacancyRecord[] = [];
+
+    // Ownership first: vacancies that can't be found or aren't the user's fail individually
+    for (const id of [...new Set(data.vacancy_ids)]) {
+      const vacancy = await repositories.vacancies.getById(id);
+      if (!vacancy) {
+        results.push({ id, title: null, success: false, error: "Vacature niet gevonden" });
+      } else if (!vacancy.employer_id || !allowedEmployers.includes(vacancy.employer_id)) {
+        results.push({ id, title: null, success: false, error: "Geen toegang tot deze vacature" });
+      } else {
+        accessible.push(vacancy);
+      }
+    }
+
+    if (data.action === "extend" && extensionUpsell) {
+      results.push(...(await extendVacancies(request, accessible, data, ctx, extensionUpsell)));
+    } else {
+      for (const vacancy of accessible) {
+        try {
+          const result = data.action === "depublish"
+            ? await depublishVacancy(vacancy, ctx)
+            : data.action === "republish"
+              ? await republishVacancy(vacancy, ctx)
+              : await deleteConceptVacancy(vacancy, ctx);
+          results.push(result);
+        } catch (error: unknown) {
+          console.error(`[Bulk] ${data.action} of vacancy ${vacancy.id} failed:`, getErrorMessage(error));
+          results.push({ id: vacancy.id, title: vacancy.title || null, success: false, error: "Er ging iets mis" });
+        }
+      }
+    }
+
+    // Keep the order of the request
+    const order = new Map(data.vacancy_ids.map((id, index) => [id, index]));
+    results.sort((a, b) => (order.get(a.id) ?? 0) - (order.get(b.id) ?? 0));
+
+    const succeeded = results.filter((r) => r.success);
+    return NextResponse.json({
+      action: data.action,
+      results,
+      succeeded: succeeded.length,
+      failed: results.length - succeeded.length,
+      ...(data.action === "extend" && {
+        dry_run: !!data.dry_run,
+        total_credits: succeeded.reduce((sum, r) => sum + (r.credits || 0), 0),
+        total_credits_invoiced: succeeded.reduce((sum, r) => sum + (r.credits_invoiced || 0), 0),
+      }),
+    });
+  } catch (error: unknown) {
+    console.error("Error applying bulk vacancy action:", getErrorMessage(error));
+    return NextResponse.json(
+      { error: "Er ging iets mis bij het uitvoeren van de actie" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,28 +1,32 @@
 import { NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
-import {
-  getUserByEmail,
-  getVacanciesByEmployerId,
-  createVacancy,
-  VacancyStatus,
-  vacancyInputTypeEnum,
-} from "@/lib/airtable";
+import { vacancyInputTypeEnum } from "@/lib/airtable";
+import { repositories } from "@/lib/repositories";
 import { getErrorMessage } from "@/lib/utils";
 import { logEvent } from "@/lib/events";
+import { parseVacancyContent, type VacancyContent } from "@/lib/vacancy-content";
+import { applyVacancyQuery, vacancyQuerySchema } from "@/lib/vacancy-query";
 import { z } from "zod";
 
 const vacancyCreateSchema = z.object({
   title: z.string().max(200).optional(),
   input_type: vacancyInputTypeEnum.optional(),
   package_id: z.string().optional(),
+  template_id: z.string().optional(),
 });
 
 /**
  * GET /api/vacancies
  * Fetches vacancies for the current user's employer
- * Query params:
+ * Query params (all optional, see lib/vacancy-query.ts):
+ * - q: search in title and location
  * - status: filter by status (comma-separated for multiple)
+ * - sector_id, region_id, field_id, function_type_id, education_level_id: lookup filters
+ * - date_field ("created-at" | "closing_date") with date_from / date_to (YYYY-MM-DD, inclusive)
+ * - sort ("created-at" | "closing_date" | "title"), order ("asc" | "desc")
+ * - limit (max 100) and cursor (next_cursor of the previous page)
+ * Response: { vacancies, total, next_cursor }
  */
 export async function GET(request: Request) {
   try {
@@ -33,7 +37,7 @@ export async function GET(request: Request) {
     }
 
     // Get user
-    const user = await getUserByEmail(session.user.email);
+    const user = await repositories.users.getByEmail(session.user.email);
     if (!user) {
       return NextResponse.json({ error: "Gebruiker niet gevonden" }, { status: 404 });
     }
@@ -56,22 +60,30 @@ export async function GET(request: Request) {
       employerId = user.employer_id;
     }
 
-    // Get status filter from query params
     const { searchParams } = new URL(request.url);
-    const statusParam = searchParams.get("status");
-    
-    let statusFilter: VacancyStatus | VacancyStatus[] | undefined;
-    if (statusParam) {
-      const statuses = statusParam.split(",").map((s) => s.trim()) as VacancyStatus[];
-      statusFilter = statuses.length === 1 ? statuses[0] : statuses;
+    const parsed = vacancyQuerySchema.safeParse(Object.fromEntries(searchParams));
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Ongeldige zoekopdracht", details: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      );
     }
+    const query = parsed.data;
 
-    // Fetch vacancies
-    const vacancies = await getVacanciesByEmployerId(employerId, {
-      status: statusFilter,
+    // The status filter runs in the data store, the rest of the query on the result
+    const vacancies = await repositories.vacancies.getByEmployerId(employerId, {
+      status: query.status && query.status.length > 0 ? query.status : undefined,
     });
+    const result = applyVacancyQuery(vacancies, query);
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
 
-    return NextResponse.json({ vacancies });
+    return NextResponse.json({
+      vacancies: result.vacancies,
+      total: result.total,
+      next_cursor: result.next_cursor,
+    });
   } catch (error: unknown) {
     console.error("Error fetching vacancies:", getErrorMessage(error));
     return NextResponse.json(
@@ -88,6 +100,7 @@ export async function GET(request: Request) {
  * - title?: string
  * - input_type?: "self_service" | "we_do_it_for_you"
  * - package_id?: string
+ * - template_id?: string (vacancy template whose content is copied)
  */
 export async function POST(request: Request) {
   try {
@@ -98,7 +111,7 @@ export async function POST(request: Request) {
     }
 
     // Get user
-    const user = await getUserByEmail(session.user.email);
+    const user = await repositories.users.getByEmail(session.user.email);
     if (!user) {
       return NextResponse.json({ error: "Gebruiker niet gevonden" }, { status: 404 });
     }
@@ -133,16 +146,32 @@ export async function POST(request: Request) {
       );
     }
 
-    const { title, input_type, package_id } = parsed.data;
+    const { title, input_type, package_id, template_id } = parsed.data;
+
+    // Optional template: its content is copied into the new concept
+    // (the chosen title and input type win over the template's)
+    let templateContent: VacancyContent = {};
+    if (template_id) {
+      const template = await repositories.vacancyTemplates.getById(template_id);
+      if (!template || template.employer_id !== employerId) {
+        return NextResponse.json({ error: "Sjabloon niet gevonden" }, { status: 404 });
+      }
+      templateContent = parseVacancyContent(template.content_json);
+      delete templateContent.input_type;
+      if (title) delete templateContent.title;
+    }
 
     // Create vacancy
-    const vacancy = await createVacancy({
+    const created = await repositories.vacancies.create({
       employer_id: employerId,
       user_id: user.id,
       title,
       input_type,
       package_id,
     });
+    const vacancy = Object.keys(templateContent).length > 0
+      ? await repositories.vacancies.update(created.id, templateContent)
+      : created;
 
     // Log event
     await logEvent({
@@ -155,6 +184,7 @@ export async function POST(request: Request) {
         input_type: vacancy.input_type,
         package_id: vacancy.package_id,
         role_id: user.role_id,
+        template_id: template_id || null,
       },
     });
 
@@ -0,0 +1,51 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { repositories } from "@/lib/repositories";
+import { getErrorMessage } from "@/lib/utils";
+
+/**
+ * DELETE /api/vacancy-templates/[id]
+ * Deletes a vacancy template (vacancies created from it are not affected)
+ */
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Niet ingelogd" }, { status: 401 });
+    }
+
+    const user = await repositories.users.getByEmail(session.user.email);
+    if (!user) {
+      return NextResponse.json({ error: "Gebruiker niet gevonden" }, { status: 404 });
+    }
+
+    const allowedEmployers: string[] = user.role_id === "intermediary"
+      ? user.managed_employers || []
+      : user.employer_id ? [user.employer_id] : [];
+
+    const template = await repositories.vacancyTemplates.getById(id);
+    if (!template) {
+      return NextResponse.json({ error: "Sjabloon niet gevonden" }, { status: 404 });
+    }
+
+    if (!template.employer_id || !allowedEmployers.includes(template.employer_id)) {
+      return NextResponse.json({ error: "Geen toegang tot dit sjabloon" }, { status: 403 });
+    }
+
+    await repositories.vacancyTemplates.delete(id);
+
+    return NextResponse.json({ success: true });
+  } catch (error: unknown) {
+    console.error("Error deleting vacancy template:", getErrorMessage(error));
+    return NextResponse.json(
+      { error: "Er ging iets mis bij het verwijderen van het sjabloon" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,110 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { repositories } from "@/lib/repositories";
+import { getErrorMessage } from "@/lib/utils";
+import { pickVacancyContent } from "@/lib/vacancy-content";
+import { z } from "zod";
+
+const templateCreateSchema = z.object({
+  vacancy_id: z.string().min(1),
+  name: z.string().trim().min(1, "Geef het sjabloon een naam").max(100),
+});
+
+/**
+ * GET /api/vacancy-templates
+ * Vacancy templates of the current employer (intermediaries: the active employer)
+ */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Niet ingelogd" }, { status: 401 });
+    }
+
+    const user = await repositories.users.getByEmail(session.user.email);
+    if (!user) {
+      return NextResponse.json({ error: "Gebruiker niet gevonden" }, { status: 404 });
+    }
+
+    const employerId = user.role_id === "intermediary" ? user.active_employer : user.employer_id;
+    if (!employerId) {
+      return NextResponse.json({ templates: [] });
+    }
+
+    const templates = await repositories.vacancyTemplates.getByEmployerId(employerId);
+
+    return NextResponse.json({
+      templates: templates.map((template) => ({
+        id: template.id,
+        name: template.name,
+        "created-at": template["created-at"],
+      })),
+    });
+  } catch (error: unknown) {
+    console.error("Error fetching vacancy templates:", getErrorMessage(error));
+    return NextResponse.json(
+      { error: "Er ging iets mis bij het ophalen van de sjablonen" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/vacancy-templates
+ * Saves the content of a vacancy as a template for its employer
+ * Body: { vacancy_id: string, name: string }
+ */
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Niet ingelogd" }, { status: 401 });
+    }
+
+    const user = await repositories.users.getByEmail(session.user.email);
+    if (!user) {
+      return NextResponse.json({ error: "Gebruiker niet gevonden" }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const parsed = templateCreateSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message || "Ongeldige invoer" },
+        { status: 400 }
+      );
+    }
+
+    const allowedEmployers: string[] = user.role_id === "intermediary"
+      ? user.managed_employers || []
+      : user.employer_id ? [user.employer_id] : [];
+
+    const vacancy = await repositories.vacancies.getById(parsed.data.vacancy_id);
+    if (!vacancy) {
+      return NextResponse.json({ error: "Vacature niet gevonden" }, { status: 404 });
+    }
+
+    if (!vacancy.employer_id || !allowedEmployers.includes(vacancy.employer_id)) {
+      return NextResponse.json({ error: "Geen toegang tot deze vacature" }, { status: 403 });
+    }
+
+    const template = await repositories.vacancyTemplates.create({
+      employer_id: vacancy.employer_id,
+      name: parsed.data.name,
+      created_by: user.id,
+      content_json: JSON.stringify(pickVacancyContent(vacancy)),
+    });
+
+    return NextResponse.json(
+      { template: { id: template.id, name: template.name, "created-at": template["created-at"] } },
+      { status: 201 }
+    );
+  } catch (error: unknown) {
+    console.error("Error creating vacancy template:", getErrorMessage(error));
+    return NextResponse.json(
+      { error: "Er ging iets mis bij het opslaan van het sjabloon" },
+      { status: 500 }
+    );
+  }
+}
@@ -11,6 +11,7 @@ import {
   Wallet,
   TrendingDown,
   ShoppingCart,
+  FileMinus,
 } from "lucide-react"
 
 import { Button } from "@/components/ui/button"
@@ -39,7 +40,7 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu"
 import { Checkbox } from "@/components/ui/checkbox"
-import { DesktopHeader } from "@/components/dashboard"
+import { DesktopHeader, SubscriptionsCard } from "@/components/dashboard"
 import { CreditsCheckoutModal } from "@/components/checkout/CreditsCheckoutModal"
 import { InfoTooltip } from "@/components/ui/tooltip"
 import { useCredits } from "@/lib/credits-context"
@@ -61,8 +62,11 @@ interface UITransaction {
   credits: number // positief = credit, negatief = debit
   totalCost?: number // prijs in euro's
   invoiceStatus?: UIInvoiceStatus
-  invoiceUrl?: string // alleen bij purchase
-  expiresAt?: Date // alleen bij purchase (creditpakketten)
+  invoiceUrl?: string // purchases en spends met gefactureerd tekort
+  creditNoteUrl?: string // terugbetaalde transacties met een uitgegeven factuur
+  expiresAt?: Date // alleen bij purchase en inkomende overboeking (creditbatches)
+  refundOfId?: string // alleen bij refund: de oorspronkelijke spend
+  linkedLabel?: string // verwijzing tussen refund en oorspronkelijke spend
 }
 
 interface CreditsOverview {
@@ -125,8 +129,14 @@ const filterCategories: { value: NonNullable<UITransactionCategory>; label: stri
 /**
  * Map Airtable transaction to UI transaction
  */
+/** Transaction as returned by /api/orders */
+type OrderTransaction = TransactionRecord & {
+  invoice_available?: boolean
+  credit_note_available?: boolean
+}
+
 function mapTransactionToUI(
-  transaction: TransactionRecord,
+  transaction: OrderTransaction,
   productNames?: Record<string, string>,
   employerNames?: Record<string, string>
 ): UITransaction {
@@ -199,9 +209,19 @@ function mapTransactionToUI(
         description = `${description} (${employerName})`
       }
       break
-    case "adjustment":
-      description = "Correctie"
+    case "adjustment": {
+      // Transfers between an intermediary and a managed employer are paired adjustments
+      if (transaction.transfer_id) {
+        const incoming = (transaction.total_credits || 0) > 0
+        const counterparty = transaction.transfer_employer_id
+          ? employerNames?.[transaction.transfer_employer_id] || "werkgever"
+          : "intermediair"
+        description = incoming ? `Overboeking van ${counterparty}` : `Overboeking naar ${counterparty}`
+      } else {
+        description = "Correctie"
+      }
       break
+    }
     case "expiration":
       description = "Credits verlopen"
       break
@@ -226,23 +246,30 @@ function mapTransactionToUI(
       break
   }
 
-  // Get invoice URL from attachment (first item in array)
-  const invoiceUrl = transaction.invoice?.[0]?.url
+  // Generated invoice PDF, falling back to an uploaded attachment (first item in array)
+  const invoiceUrl = transaction.invoice_available
+    ? `/api/orders/${transaction.id}/invoice`
+    : transaction.invoice?.[0]?.url
+  const creditNoteUrl = transaction.credit_note_available
+    ? `/api/orders/${transaction.id}/invoice?document=credit_note`
+    : undefined
 
   // Calculate credits display value
   // For spend/expiration transactions, credits should be negative in UI
   let credits = transaction.total_credits || 0
   if (transaction.type === "spend" || transaction.type === "expiration") {
     credits = -Math.abs(credits) // Ensure it's negative
-  } else if (transaction.type === "purchase" || transaction.type === "adjustment") {
+  } else if (transaction.type === "purchase") {
     credits = Math.abs(credits) // Ensure it's positive for purchases
-  } else if (transaction.type === "refund") {
-    // Refunds can be positive (credits returned) or negative (credits taken back)
+  } else if (transaction.type === "refund" || transaction.type === "adjustment") {
+    // Refunds and adjustments can be positive (credits added) or negative (credits taken)
     // Keep the original sign from the database
   }
 
-  // Parse expires_at for purchase transactions (credit packages)
-  const expiresAt = transaction.type === "purchase" && transaction.expires_at
+  // Parse expires_at for credit batches (purchases and incoming transfers)
+  const isCreditBatch = transaction.type === "purchase"
+    || (transaction.type === "adjustment" && (transaction.total_credits || 0) > 0)
+  const expiresAt = isCreditBatch && transaction.expires_at
     ? new Date(transaction.expires_at)
     : undefined
 
@@ -256,10 +283,38 @@ function mapTransactionToUI(
     totalCost: transaction.total_cost ?? undefined,
     invoiceStatus,
     invoiceUrl,
+    creditNoteUrl,
     expiresAt,
+    refundOfId: transaction.refund_of_id ?? undefined,
   }
 }
 
+/**
+ * Link refunds to the spend they belong to (both rows get a reference label)
+ */
+function linkRefundsToSpends(transactions: UITransaction[]): UITransaction[] {
+  const byId = new Map(transactions.map((t) => [t.id, t]))
+  const refundBySpendId = new Map<string, UITransaction>()
+  for (const t of transactions) {
+    if (t.type === "refund" && t.refundOfId) {
+      refundBySpendId.set(t.refundOfId, t)
+    }
+  }
+
+  return transactions.map((t) => {
+    if (t.type === "refund" && t.refundOfId) {
+      const spend = byId.get(t.refundOfId)
+      return spend
+        ? { ...t, linkedLabel: `Terugbetaling van bestelling op ${formatDate(spend.date)}` }
+        : t
+    }
+    const refund = refundBySpendId.get(t.id)
+    return refund
+      ? { ...t, linkedLabel: `Terugbetaald op ${formatDate(refund.date)}` }
+      : t
+  })
+}
+
 // Helper function to format date
 function formatDate(date: Date): string {
   return date.toLocaleDateString("nl-NL", {
@@ -354,6 +409,8 @@ export default function OrdersPage() {
     filterCategories.map((c) => c.value)
   )
   const [checkoutModalOpen, setCheckoutModalOpen] = useState(false)
+  // Bumped after a purchase so a new yearly subscription shows up
+  const [subscriptionsKey, setSubscriptionsKey] = useState(0)
 
   // Set page title
   useEffect(() => {
@@ -379,9 +436,9 @@ export default function OrdersPage() {
       const productNames: Record<string, string> = data.productNames || {}
       const employerNames: Record<string, string> = data.employerNames || {}
       const uiTransactions = (data.transactions || []).map(
-        (tx: TransactionRecord) => mapTransactionToUI(tx, productNames, employerNames)
+        (tx: OrderTransaction) => mapTransactionToUI(tx, productNames, employerNames)
       )
-      setTransactions(uiTransactions)
+      setTransactions(linkRefundsToSpends(uiTransactions))
       
       // Set credits overview
       setCredits({
@@ -417,6 +474,7 @@ export default function OrdersPage() {
   const handleCheckoutSuccess = async () => {
     // Refresh the orders data to show the new transaction
     await fetchOrders()
+    setSubscriptionsKey((key) => key + 1)
     // Also sync the global credits context so header updates
     await refetchCreditsContext()
   }
@@ -504,6 +562,9 @@ export default function OrdersPage() {
         </div>
       </div>
 
+      {/* Yearly bundle subscriptions (hidden when there are none) */}
+      <SubscriptionsCard key={subscriptionsKey} onChange={fetchOrders} />
+
       {/* Transactions Section */}
       <section>
         {isLoading ? (
@@ -649,6 +710,11 @@ export default function OrdersPage() {
                             })})
                           </span>
                         )}
+                        {transaction.linkedLabel && (
+                          <span className="block text-sm text-[#1F2D58]/60">
+                            {transaction.linkedLabel}
+                          </span>
+                        )}
                       </TableCell>
 
                       {/* Date */}
@@ -691,6 +757,19 @@ export default function OrdersPage() {
                             <span className="sr-only">Download factuur</span>
                           </Button>
                         )}
+                        {transaction.creditNoteUrl && (
+                          <Button
+                            variant="tertiary"
+                            size="icon"
+                            className="h-8 w-8"
+                            onClick={() => handleDownload(transaction.creditNoteUrl!)}
+                            showArrow={false}
+                            title="Download creditnota"
+                          >
+                            <FileMinus className="h-4 w-4" />
+                            <span className="sr-only">Download creditnota</span>
+                          </Button>
+                        )}
                       </TableCell>
                     </TableRow>
                   )
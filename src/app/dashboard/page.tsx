@@ -17,6 +17,7 @@ import {
   ChevronRight,
   Globe,
   Loader2,
+  ArrowLeftRight,
 } from "lucide-react"
 
 import { Button, ArrowIcon } from "@/components/ui/button"
@@ -65,9 +66,12 @@ import {
   getVacancyDisplayTitle,
 } from "@/lib/vacancy-utils"
 import { CreditsCheckoutModal } from "@/components/checkout/CreditsCheckoutModal"
+import { CreditsTransferModal } from "@/components/checkout/CreditsTransferModal"
 import { BoostModal } from "@/components/vacatures/BoostModal"
+import { PublicationScheduleDialog } from "@/components/vacatures/PublicationScheduleDialog"
+import { SaveTemplateDialog } from "@/components/vacatures/SaveTemplateDialog"
 import { useCredits } from "@/lib/credits-context"
-import { useAccount } from "@/lib/account-context"
+import { useAccount, useIsIntermediary } from "@/lib/account-context"
 import { toast } from "sonner"
 
 interface Vacancy {
@@ -77,6 +81,8 @@ interface Vacancy {
   credits_spent?: number
   money_invoiced?: number
   "created-at"?: string
+  publish_from?: string | null
+  depublish_at?: string | null
   package_id?: string
   description?: string
   public_url?: string
@@ -93,11 +99,13 @@ export default function DashboardPage() {
   const router = useRouter()
   const { credits, isLoading: isCreditsLoading, isPendingUpdate, updateCredits, setOptimisticUpdate } = useCredits()
   const { accountData, refreshAccount } = useAccount()
+  const isIntermediary = useIsIntermediary()
   const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [teamCount, setTeamCount] = useState(0)
   const [invitedCount, setInvitedCount] = useState(0)
   const [checkoutModalOpen, setCheckoutModalOpen] = useState(false)
+  const [transferModalOpen, setTransferModalOpen] = useState(false)
   const [vacancies, setVacancies] = useState<Vacancy[]>([])
   const [publishedCount, setPublishedCount] = useState(0)
   const [pendingCount, setPendingCount] = useState(0)
@@ -107,6 +115,8 @@ export default function DashboardPage() {
   const [boostVacancy, setBoostVacancy] = useState<{ id: string; title: string } | null>(null)
   const [depublishConfirmId, setDepublishConfirmId] = useState<string | null>(null)
   const [publishingVacancyId, setPublishingVacancyId] = useState<string | null>(null)
+  const [scheduleVacancy, setScheduleVacancy] = useState<Vacancy | null>(null)
+  const [templateVacancy, setTemplateVacancy] = useState<Vacancy | null>(null)
 
   // Get onboarding dismissed state from account context (per employer)
   const onboardingDismissed = accountData?.onboarding_dismissed ?? false
@@ -275,6 +285,26 @@ export default function DashboardPage() {
     }
   }
 
+  const handleDuplicate = async (vacancyId: string) => {
+    try {
+      const response = await fetch(`/api/vacancies/${vacancyId}/duplicate`, {
+        method: "POST",
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        toast.error("Dupliceren mislukt", { description: data.error || "Er ging iets mis" })
+        return
+      }
+
+      toast.success("Vacature gedupliceerd", { description: "De kopie staat als concept voor je klaar." })
+      const step = data.vacancy.package_id ? 2 : 1
+      router.push(`/dashboard/vacatures/nieuw?id=${data.vacancy.id}&step=${step}&returnTo=/dashboard`)
+    } catch {
+      toast.error("Dupliceren mislukt", { description: "Er ging iets mis bij het dupliceren" })
+    }
+  }
+
   const handleVacancyAction = (action: string, vacancyId: string) => {
     const vacancy = vacancies.find((v) => v.id === vacancyId)
     if (!vacancy) return
@@ -304,6 +334,15 @@ export default function DashboardPage() {
       case "depubliceren":
         setDepublishConfirmId(vacancyId)
         break
+      case "plannen":
+        setScheduleVacancy(vacancy)
+        break
+      case "dupliceren":
+        handleDuplicate(vacancyId)
+        break
+      case "sjabloon":
+        setTemplateVacancy(vacancy)
+        break
     }
   }
 
@@ -409,7 +448,7 @@ export default function DashboardPage() {
                     )}
                   </div>
                 </div>
-                <div className="mt-auto pt-4">
+                <div className="mt-auto pt-4 space-y-2">
                   <Button 
                     className="w-full" 
                     variant="secondary" 
@@ -419,6 +458,17 @@ export default function DashboardPage() {
                     <Plus className="h-4 w-4 mr-1" />
                     Credits bijkopen
                   </Button>
+                  {isIntermediary && (
+                    <Button 
+                      className="w-full" 
+                      variant="tertiary" 
+                      showArrow={false}
+                      onClick={() => setTransferModalOpen(true)}
+                    >
+                      <ArrowLeftRight className="h-4 w-4 mr-1" />
+                      Credits overboeken
+                    </Button>
+                  )}
                 </div>
               </>
             )}
@@ -838,6 +888,15 @@ export default function DashboardPage() {
         onPendingChange={setOptimisticUpdate}
       />
 
+      {/* Credits Transfer Modal (intermediaries only) */}
+      {isIntermediary && (
+        <CreditsTransferModal
+          open={transferModalOpen}
+          onOpenChange={setTransferModalOpen}
+          onSuccess={refreshAccount}
+        />
+      )}
+
       {/* Boost Modal */}
       {boostVacancy && (
         <BoostModal
@@ -849,6 +908,38 @@ export default function DashboardPage() {
         />
       )}
 
+      {/* Publicatie plannen */}
+      {scheduleVacancy && (
+        <PublicationScheduleDialog
+          open={!!scheduleVacancy}
+          onOpenChange={(open) => !open && setScheduleVacancy(null)}
+          vacancy={{
+            id: scheduleVacancy.id,
+            title: getVacancyDisplayTitle(scheduleVacancy.title, scheduleVacancy.input_type),
+            status: scheduleVacancy.status,
+            publish_from: scheduleVacancy.publish_from,
+            depublish_at: scheduleVacancy.depublish_at,
+          }}
+          onSuccess={(schedule) =>
+            setVacancies((prev) =>
+              prev.map((v) => (v.id === scheduleVacancy.id ? { ...v, ...schedule } : v))
+            )
+          }
+        />
+      )}
+
+      {/* Opslaan als sjabloon */}
+      {templateVacancy && (
+        <SaveTemplateDialog
+          open={!!templateVacancy}
+          onOpenChange={(open) => !open && setTemplateVacancy(null)}
+          vacancy={{
+            id: templateVacancy.id,
+            title: getVacancyDisplayTitle(templateVacancy.title, templateVacancy.input_type),
+          }}
+        />
+      )}
+
       {/* Depubliceer bevestiging */}
       <AlertDialog open={!!depublishConfirmId} onOpenChange={(open) => !open && setDepublishConfirmId(null)}>
         <AlertDialogContent className="bg-[#E8EEF2] rounded-t-[0.75rem] rounded-b-[2rem]">
@@ -1,14 +1,15 @@
 "use client"
 
-import { useEffect, useState, useRef } from "react"
+import { useCallback, useEffect, useMemo, useState, useRef } from "react"
 import Link from "next/link"
-import { useRouter } from "next/navigation"
+import { useRouter, useSearchParams } from "next/navigation"
 import { 
   Plus,
   AlertTriangle,
   Briefcase,
   ChevronDown,
   Loader2,
+  X,
 } from "lucide-react"
 
 import { Button } from "@/components/ui/button"
@@ -64,8 +65,18 @@ import {
 } from "@/components/ui/alert-dialog"
 import { DesktopHeader } from "@/components/dashboard"
 import { BoostModal } from "@/components/vacatures/BoostModal"
+import { PublicationScheduleDialog } from "@/components/vacatures/PublicationScheduleDialog"
+import { SaveTemplateDialog } from "@/components/vacatures/SaveTemplateDialog"
+import { BulkExtendDialog } from "@/components/vacatures/BulkExtendDialog"
+import {
+  VacancyFilters,
+  VACANCY_FILTER_PARAMS,
+  hasActiveVacancyFilters,
+  type VacancyFilterValues,
+} from "@/components/vacatures/VacancyFilters"
+import { useCredits } from "@/lib/credits-context"
 
-// Filter status options (excluding gepubliceerd and wacht_op_goedkeuring which are in "Actieve vacatures" section)
+// Filter status options (excluding gepubliceerd, ingepland and wacht_op_goedkeuring which are in "Actieve vacatures" section)
 const filterStatuses: { value: VacancyStatus; label: string }[] = [
   { value: "concept", label: "Concept" },
   { value: "needs_adjustment", label: "Aanpassing nodig" },
@@ -73,6 +84,40 @@ const filterStatuses: { value: VacancyStatus; label: string }[] = [
   { value: "gedepubliceerd", label: "Gedepubliceerd" },
 ]
 
+// Statuses shown in the "Actieve vacatures" section
+const activeStatuses: VacancyStatus[] = ["gepubliceerd", "ingepland", "wacht_op_goedkeuring"]
+
+// Page size of the "Overige vacatures" section
+const OTHER_VACANCIES_PAGE_SIZE = 25
+
+type BulkAction = "depublish" | "republish" | "extend" | "delete"
+
+// Which selected vacancies each bulk action applies to
+const bulkActionStatuses: Record<BulkAction, VacancyStatus[]> = {
+  depublish: ["gepubliceerd"],
+  republish: ["gedepubliceerd"],
+  extend: ["gepubliceerd", "verlopen", "gedepubliceerd"],
+  delete: ["concept"],
+}
+
+const bulkConfirmText: Record<Exclude<BulkAction, "extend">, { title: string; description: string; label: string }> = {
+  depublish: {
+    title: "Vacatures offline halen?",
+    description: "De vacatures zijn dan niet meer zichtbaar voor kandidaten. Je kunt ze later weer publiceren.",
+    label: "Depubliceren",
+  },
+  republish: {
+    title: "Vacatures opnieuw publiceren?",
+    description: "De vacatures staan binnen enkele minuten weer online tot hun huidige sluitingsdatum.",
+    label: "Publiceren",
+  },
+  delete: {
+    title: "Concepten verwijderen?",
+    description: "De concepten worden definitief verwijderd. Dit kan niet ongedaan worden gemaakt.",
+    label: "Verwijderen",
+  },
+}
+
 interface Vacancy {
   id: string
   title?: string
@@ -82,6 +127,8 @@ interface Vacancy {
   location?: string
   "last-published-at"?: string
   closing_date?: string
+  publish_from?: string | null
+  depublish_at?: string | null
   "created-at"?: string
   package_id?: string
   intro_txt?: string
@@ -139,18 +186,47 @@ function StatusFilter({
   )
 }
 
+// Checkbox to select a vacancy (or all vacancies of a table) for bulk actions
+function SelectCheckbox({
+  checked,
+  onCheckedChange,
+  label,
+}: {
+  checked: boolean | "indeterminate"
+  onCheckedChange: (checked: boolean) => void
+  label: string
+}) {
+  return (
+    <Checkbox
+      checked={checked}
+      onCheckedChange={(value) => onCheckedChange(value === true)}
+      aria-label={label}
+      className="data-[state=checked]:bg-[#1F2D58] data-[state=checked]:border-[#1F2D58] data-[state=indeterminate]:bg-[#1F2D58] data-[state=indeterminate]:border-[#1F2D58]"
+    />
+  )
+}
+
 export default function VacaturesPage() {
   const router = useRouter()
+  const searchParams = useSearchParams()
+  const { refetch: refetchCredits } = useCredits()
   const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
-  const [selectedStatuses, setSelectedStatuses] = useState<VacancyStatus[]>(
-    filterStatuses.map((s) => s.value)
-  )
-  const [vacancies, setVacancies] = useState<Vacancy[]>([])
+  const [activeVacancies, setActiveVacancies] = useState<Vacancy[]>([])
+  const [otherVacancies, setOtherVacancies] = useState<Vacancy[]>([])
+  const [otherNextCursor, setOtherNextCursor] = useState<string | null>(null)
+  const [isLoadingMore, setIsLoadingMore] = useState(false)
+  const vacancies = useMemo(() => [...activeVacancies, ...otherVacancies], [activeVacancies, otherVacancies])
   const [boostModalOpen, setBoostModalOpen] = useState(false)
-  const [boostVacancy, setBoostVacancy] = useState<{ id: string; title: string } | null>(null)
+  const [boostVacancy, setBoostVacancy] = useState<{ id: string; title: string; preselectExtension?: boolean } | null>(null)
   const [depublishConfirmId, setDepublishConfirmId] = useState<string | null>(null)
   const [publishingVacancyId, setPublishingVacancyId] = useState<string | null>(null)
+  const [scheduleVacancy, setScheduleVacancy] = useState<Vacancy | null>(null)
+  const [templateVacancy, setTemplateVacancy] = useState<Vacancy | null>(null)
+  const [selectedIds, setSelectedIds] = useState<string[]>([])
+  const [bulkConfirmAction, setBulkConfirmAction] = useState<Exclude<BulkAction, "extend"> | null>(null)
+  const [bulkExtendOpen, setBulkExtendOpen] = useState(false)
+  const [isBulkProcessing, setIsBulkProcessing] = useState(false)
   
   // Track if toast has been shown to prevent duplicates (e.g. in React Strict Mode)
   const toastShownRef = useRef(false)
@@ -175,6 +251,13 @@ export default function VacaturesPage() {
       })
       // Clean up URL
       router.replace("/dashboard/vacatures", { scroll: false })
+    } else if (success === "resubmitted") {
+      toastShownRef.current = true
+      toast.success("Vacature opnieuw ingediend", {
+        description: `${urlParams.get("addressed") || 0} van ${urlParams.get("total") || 0} opmerkingen verwerkt. Je vacature wordt opnieuw beoordeeld door ons team.`,
+      })
+      // Clean up URL
+      router.replace("/dashboard/vacatures", { scroll: false })
     } else if (success === "submitted_invoice") {
       toastShownRef.current = true
       toast.success("Vacature ingediend", {
@@ -206,36 +289,167 @@ export default function VacaturesPage() {
     }
   }, [router])
 
-  // Fetch vacancies from API
-  const fetchVacancies = async () => {
+  // Open the boost modal from a link (?boost=<id>&extend=1, used in the expiry warning email)
+  const boostParamHandledRef = useRef(false)
+  useEffect(() => {
+    if (boostParamHandledRef.current || isLoading) return
+    boostParamHandledRef.current = true
+
+    const urlParams = new URLSearchParams(window.location.search)
+    const boostId = urlParams.get("boost")
+    if (!boostId) return
+    const preselectExtension = urlParams.get("extend") === "1"
+
+    // Clean up URL (only the boost params: search, filters and paging stay)
+    urlParams.delete("boost")
+    urlParams.delete("extend")
+    const query = urlParams.toString()
+    router.replace(query ? `/dashboard/vacatures?${query}` : "/dashboard/vacatures", { scroll: false })
+
+    const openBoostModal = (vacancy: Vacancy) => {
+      if (!tableActionsPerStatus[vacancy.status].some((action) => action.action === "boosten")) return
+      setBoostVacancy({
+        id: vacancy.id,
+        title: getVacancyDisplayTitle(vacancy.title, vacancy.input_type),
+        preselectExtension,
+      })
+      setBoostModalOpen(true)
+    }
+
+    const listed = vacancies.find((v) => v.id === boostId)
+    if (listed) {
+      openBoostModal(listed)
+      return
+    }
+
+    // Not in the loaded list (filtered out or on a later page of "Overige vacatures")
+    const fetchBoostVacancy = async () => {
+      try {
+        const response = await fetch(`/api/vacancies/${boostId}`)
+        if (!response.ok) return
+        const data = await response.json()
+        if (data.vacancy) openBoostModal(data.vacancy)
+      } catch (err) {
+        console.error("Error fetching vacancy to boost:", err)
+      }
+    }
+    fetchBoostVacancy()
+  }, [isLoading, vacancies, router])
+
+  // Search, filters and sorting live in the URL (shared by both sections);
+  // the status filter only applies to "Overige vacatures"
+  const searchParamsString = searchParams.toString()
+  const filterValues = useMemo<VacancyFilterValues>(() => {
+    const params = new URLSearchParams(searchParamsString)
+    return Object.fromEntries(VACANCY_FILTER_PARAMS.map((param) => [param, params.get(param) || ""]))
+  }, [searchParamsString])
+  const hasActiveFilters = hasActiveVacancyFilters(filterValues)
+
+  const statusParam = searchParams.get("status")
+  const selectedStatuses = useMemo<VacancyStatus[]>(
+    () => statusParam === null
+      ? filterStatuses.map((s) => s.value)
+      : filterStatuses.map((s) => s.value).filter((status) => statusParam.split(",").includes(status)),
+    [statusParam]
+  )
+  const allStatusesSelected = selectedStatuses.length === filterStatuses.length
+
+  const updateSearchParams = useCallback((updates: Record<string, string>) => {
+    const params = new URLSearchParams(searchParamsString)
+    for (const [key, value] of Object.entries(updates)) {
+      if (value) {
+        params.set(key, value)
+      } else {
+        params.delete(key)
+      }
+    }
+    const query = params.toString()
+    router.replace(query ? `/dashboard/vacatures?${query}` : "/dashboard/vacatures", { scroll: false })
+  }, [searchParamsString, router])
+
+  const setSelectedStatuses = (statuses: VacancyStatus[]) => {
+    const params = new URLSearchParams(searchParamsString)
+    if (statuses.length === filterStatuses.length) {
+      params.delete("status")
+    } else {
+      // An empty value keeps "nothing selected" apart from the default (all)
+      params.set("status", statuses.join(","))
+    }
+    router.replace(`/dashboard/vacatures?${params.toString()}`, { scroll: false })
+  }
+
+  const buildVacancyQuery = useCallback((statuses: VacancyStatus[], extra: Record<string, string> = {}) => {
+    const params = new URLSearchParams()
+    for (const [key, value] of Object.entries(filterValues)) {
+      if (value) params.set(key, value)
+    }
+    params.set("status", statuses.join(","))
+    for (const [key, value] of Object.entries(extra)) {
+      params.set(key, value)
+    }
+    return `/api/vacancies?${params.toString()}`
+  }, [filterValues])
+
+  // Ignore responses of outdated requests (e.g. while typing a search)
+  const fetchIdRef = useRef(0)
+
+  // Fetch both sections from the API (first page of "Overige vacatures")
+  const fetchVacancies = useCallback(async () => {
+    const fetchId = ++fetchIdRef.current
     try {
-      const response = await fetch("/api/vacancies")
-      if (!response.ok) {
+      const [activeResponse, otherResponse] = await Promise.all([
+        fetch(buildVacancyQuery(activeStatuses)),
+        selectedStatuses.length > 0
+          ? fetch(buildVacancyQuery(selectedStatuses, { limit: String(OTHER_VACANCIES_PAGE_SIZE) }))
+          : null,
+      ])
+      if (!activeResponse.ok || (otherResponse && !otherResponse.ok)) {
         throw new Error("Failed to fetch vacancies")
       }
-      const data = await response.json()
-      if (data.vacancies) {
-        // Sort by created-at descending
-        const sortedVacancies = data.vacancies.sort(
-          (a: Vacancy, b: Vacancy) => {
-            const dateA = a["created-at"] ? new Date(a["created-at"]).getTime() : 0
-            const dateB = b["created-at"] ? new Date(b["created-at"]).getTime() : 0
-            return dateB - dateA
-          }
-        )
-        setVacancies(sortedVacancies)
-      }
+      const activeData = await activeResponse.json()
+      const otherData = otherResponse ? await otherResponse.json() : { vacancies: [], next_cursor: null }
+      if (fetchId !== fetchIdRef.current) return
+
+      const loaded: Vacancy[] = [...activeData.vacancies, ...otherData.vacancies]
+      setActiveVacancies(activeData.vacancies)
+      setOtherVacancies(otherData.vacancies)
+      setOtherNextCursor(otherData.next_cursor)
+      // Drop selected vacancies that are no longer listed (e.g. deleted concepts)
+      setSelectedIds((prev) => prev.filter((id) => loaded.some((v) => v.id === id)))
       setIsLoading(false)
     } catch (err) {
       console.error("Error fetching vacancies:", err)
       setError("Er ging iets mis bij het laden van je vacatures")
       setIsLoading(false)
     }
-  }
+  }, [buildVacancyQuery, selectedStatuses])
 
   useEffect(() => {
     fetchVacancies()
-  }, [])
+  }, [fetchVacancies])
+
+  const handleLoadMore = async () => {
+    if (!otherNextCursor) return
+    const fetchId = fetchIdRef.current
+    setIsLoadingMore(true)
+    try {
+      const response = await fetch(buildVacancyQuery(selectedStatuses, {
+        limit: String(OTHER_VACANCIES_PAGE_SIZE),
+        cursor: otherNextCursor,
+      }))
+      if (!response.ok) {
+        throw new Error("Failed to fetch vacancies")
+      }
+      const data = await response.json()
+      if (fetchId !== fetchIdRef.current) return
+      setOtherVacancies((prev) => [...prev, ...data.vacancies])
+      setOtherNextCursor(data.next_cursor)
+    } catch {
+      toast.error("Laden mislukt", { description: "Er ging iets mis bij het laden van meer vacatures" })
+    } finally {
+      setIsLoadingMore(false)
+    }
+  }
 
   const handleDepublishConfirm = async () => {
     if (!depublishConfirmId) return
@@ -282,6 +496,85 @@ export default function VacaturesPage() {
     }
   }
 
+  const handleDuplicate = async (vacancyId: string) => {
+    try {
+      const response = await fetch(`/api/vacancies/${vacancyId}/duplicate`, {
+        method: "POST",
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        toast.error("Dupliceren mislukt", { description: data.error || "Er ging iets mis" })
+        return
+      }
+
+      toast.success("Vacature gedupliceerd", { description: "De kopie staat als concept voor je klaar." })
+      const step = data.vacancy.package_id ? 2 : 1
+      router.push(`/dashboard/vacatures/nieuw?id=${data.vacancy.id}&step=${step}&returnTo=/dashboard/vacatures`)
+    } catch {
+      toast.error("Dupliceren mislukt", { description: "Er ging iets mis bij het dupliceren" })
+    }
+  }
+
+  const toggleSelected = (vacancyId: string, checked: boolean) => {
+    setSelectedIds((prev) =>
+      checked ? [...prev, vacancyId] : prev.filter((id) => id !== vacancyId)
+    )
+  }
+
+  const toggleSelectAll = (list: Vacancy[], checked: boolean) => {
+    const ids = list.map((v) => v.id)
+    setSelectedIds((prev) =>
+      checked ? [...new Set([...prev, ...ids])] : prev.filter((id) => !ids.includes(id))
+    )
+  }
+
+  const getSelectAllState = (list: Vacancy[]): boolean | "indeterminate" => {
+    const count = list.filter((v) => selectedIds.includes(v.id)).length
+    if (count === 0) return false
+    return count === list.length ? true : "indeterminate"
+  }
+
+  const selectedVacancies = vacancies.filter((v) => selectedIds.includes(v.id))
+  const getBulkActionIds = (action: BulkAction) =>
+    selectedVacancies.filter((v) => bulkActionStatuses[action].includes(v.status)).map((v) => v.id)
+
+  const handleBulkConfirm = async () => {
+    if (!bulkConfirmAction) return
+    const action = bulkConfirmAction
+    const { label } = bulkConfirmText[action]
+    setBulkConfirmAction(null)
+    setIsBulkProcessing(true)
+
+    try {
+      const response = await fetch("/api/vacancies/bulk", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action, vacancy_ids: getBulkActionIds(action) }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        toast.error(`${label} mislukt`, { description: data.error || "Er ging iets mis" })
+        return
+      }
+
+      const firstError = data.results.find((r: { success: boolean; error?: string }) => !r.success)?.error
+      if (data.succeeded === 0) {
+        toast.error(`${label} mislukt`, { description: firstError || "Er ging iets mis" })
+      } else {
+        toast.success(`${label} gelukt voor ${data.succeeded} ${data.succeeded === 1 ? "vacature" : "vacatures"}`, {
+          description: data.failed > 0 ? `${data.failed} niet gelukt: ${firstError}` : undefined,
+        })
+      }
+      fetchVacancies()
+    } catch {
+      toast.error(`${label} mislukt`, { description: "Er ging iets mis bij het uitvoeren van de actie" })
+    } finally {
+      setIsBulkProcessing(false)
+    }
+  }
+
   const handleVacancyAction = (action: string, vacancyId: string) => {
     const vacancy = vacancies.find((v) => v.id === vacancyId)
     if (!vacancy) return
@@ -311,18 +604,18 @@ export default function VacaturesPage() {
       case "depubliceren":
         setDepublishConfirmId(vacancyId)
         break
+      case "plannen":
+        setScheduleVacancy(vacancy)
+        break
+      case "dupliceren":
+        handleDuplicate(vacancyId)
+        break
+      case "sjabloon":
+        setTemplateVacancy(vacancy)
+        break
     }
   }
 
-  // Split vacancies into two sections
-  const activeVacancies = vacancies.filter((v) => v.status === "gepubliceerd" || v.status === "wacht_op_goedkeuring")
-  const otherVacancies = vacancies.filter((v) => v.status !== "gepubliceerd" && v.status !== "wacht_op_goedkeuring")
-  
-  // Filter other vacancies by selected statuses
-  const filteredOtherVacancies = otherVacancies.filter((v) =>
-    selectedStatuses.includes(v.status)
-  )
-
   // Error state
   if (error) {
     return (
@@ -352,6 +645,45 @@ export default function VacaturesPage() {
       {/* Page header with title, credits and actions */}
       <DesktopHeader title="Vacatures" />
 
+      {/* Bulk actions for the selected vacancies */}
+      {selectedIds.length > 0 && (
+        <div className="sticky top-4 z-10 flex flex-wrap items-center gap-2 rounded-[0.75rem] bg-[#1F2D58] px-4 py-3 text-white">
+          <span className="text-sm font-semibold mr-2">
+            {selectedIds.length} {selectedIds.length === 1 ? "vacature" : "vacatures"} geselecteerd
+          </span>
+          {(["depublish", "republish", "extend", "delete"] as const).map((action) => {
+            const count = getBulkActionIds(action).length
+            const label = action === "extend" ? "Verlengen" : bulkConfirmText[action].label
+            return (
+              <Button
+                key={action}
+                variant="secondary"
+                size="sm"
+                showArrow={false}
+                disabled={count === 0 || isBulkProcessing}
+                onClick={() => action === "extend" ? setBulkExtendOpen(true) : setBulkConfirmAction(action)}
+              >
+                {label} ({count})
+              </Button>
+            )
+          })}
+          {isBulkProcessing && <Loader2 className="h-4 w-4 animate-spin" />}
+          <Button
+            variant="tertiary"
+            size="sm"
+            showArrow={false}
+            onClick={() => setSelectedIds([])}
+            className="ml-auto text-white hover:text-[#1F2D58]"
+          >
+            <X className="h-4 w-4" />
+            Selectie wissen
+          </Button>
+        </div>
+      )}
+
+      {/* Zoeken, filteren en sorteren */}
+      <VacancyFilters value={filterValues} onChange={updateSearchParams} />
+
       {/* Section 1: Actieve vacatures (gepubliceerd + wacht op goedkeuring) */}
       <section>
         {isLoading ? (
@@ -390,19 +722,24 @@ export default function VacaturesPage() {
                 <EmptyMedia variant="icon">
                   <Briefcase />
                 </EmptyMedia>
-                <EmptyTitle>Geen actieve vacatures</EmptyTitle>
+                <EmptyTitle>{hasActiveFilters ? "Geen vacatures gevonden" : "Geen actieve vacatures"}</EmptyTitle>
                 <EmptyDescription>
-                  Je hebt nog geen actieve of ingediende vacatures. Maak een nieuwe vacature aan om kandidaten te bereiken.
+                  {hasActiveFilters
+                    ? "Er zijn geen actieve vacatures die aan je zoekopdracht voldoen."
+                    : "Je hebt nog geen actieve of ingediende vacatures. Maak een nieuwe vacature aan om kandidaten te bereiken."
+                  }
                 </EmptyDescription>
               </EmptyHeader>
-              <EmptyContent>
-                <Link href="/dashboard/vacatures/nieuw?returnTo=/dashboard/vacatures">
-                  <Button variant="secondary" showArrow={false}>
-                    <Plus className="h-4 w-4 mr-1" />
-                    Nieuwe vacature
-                  </Button>
-                </Link>
-              </EmptyContent>
+              {!hasActiveFilters && (
+                <EmptyContent>
+                  <Link href="/dashboard/vacatures/nieuw?returnTo=/dashboard/vacatures">
+                    <Button variant="secondary" showArrow={false}>
+                      <Plus className="h-4 w-4 mr-1" />
+                      Nieuwe vacature
+                    </Button>
+                  </Link>
+                </EmptyContent>
+              )}
             </Empty>
           </div>
         ) : (
@@ -413,6 +750,13 @@ export default function VacaturesPage() {
             <Table className="bg-white">
               <TableHeader>
                 <TableRow className="border-b border-[#E8EEF2] hover:bg-transparent">
+                  <TableHead className="w-10 pr-0">
+                    <SelectCheckbox
+                      checked={getSelectAllState(activeVacancies)}
+                      onCheckedChange={(checked) => toggleSelectAll(activeVacancies, checked)}
+                      label="Alle actieve vacatures selecteren"
+                    />
+                  </TableHead>
                   <TableHead className="text-slate-400 font-semibold uppercase text-[12px]">Vacature</TableHead>
                   <TableHead className="text-slate-400 font-semibold uppercase text-[12px] whitespace-nowrap">Status</TableHead>
                   <TableHead className="text-slate-400 font-semibold uppercase text-[12px] whitespace-nowrap">Sluitingsdatum</TableHead>
@@ -423,10 +767,17 @@ export default function VacaturesPage() {
                 {activeVacancies.map((vacancy) => {
                   const config = statusConfig[vacancy.status]
                   const actions = tableActionsPerStatus[vacancy.status]
-                  const publicationInfo = getPublicationInfoText(vacancy.status, vacancy["last-published-at"], vacancy.closing_date)
+                  const publicationInfo = getPublicationInfoText(vacancy.status, vacancy["last-published-at"], vacancy.closing_date, vacancy.publish_from ?? undefined)
                   
                   return (
-                    <TableRow key={vacancy.id} className="border-b border-[#E8EEF2] hover:bg-[#193DAB]/[0.04]">
+                    <TableRow key={vacancy.id} className="border-b border-[#E8EEF2] hover:bg-[#193DAB]/[0.04]" data-state={selectedIds.includes(vacancy.id) ? "selected" : undefined}>
+                      <TableCell className="w-10 pr-0">
+                        <SelectCheckbox
+                          checked={selectedIds.includes(vacancy.id)}
+                          onCheckedChange={(checked) => toggleSelected(vacancy.id, checked)}
+                          label={`${getVacancyDisplayTitle(vacancy.title, vacancy.input_type)} selecteren`}
+                        />
+                      </TableCell>
                       <TableCell className="w-full max-w-0">
                         <Link
                           href={`/dashboard/vacatures/nieuw?id=${vacancy.id}&step=${getFurthestStep(vacancy)}&returnTo=/dashboard/vacatures`}
@@ -557,7 +908,7 @@ export default function VacaturesPage() {
               </TableBody>
             </Table>
           </div>
-        ) : otherVacancies.length === 0 ? (
+        ) : otherVacancies.length === 0 && !hasActiveFilters && allStatusesSelected ? (
           <div className="rounded-t-[0.75rem] rounded-b-[2rem] overflow-hidden">
             <div className="bg-white/50 px-6 py-4">
               <h2 className="!text-[1.125rem] sm:!text-[1.5rem] font-semibold text-[#1F2D58] -mt-1">Overige vacatures</h2>
@@ -571,7 +922,7 @@ export default function VacaturesPage() {
               </EmptyHeader>
             </Empty>
           </div>
-        ) : filteredOtherVacancies.length === 0 ? (
+        ) : otherVacancies.length === 0 ? (
           <div className="rounded-t-[0.75rem] rounded-b-[2rem] overflow-hidden">
             <div className="bg-white/50 px-6 py-4">
               <div className="flex items-center justify-between gap-3">
@@ -596,7 +947,9 @@ export default function VacaturesPage() {
                 <EmptyDescription>
                   {selectedStatuses.length === 0 
                     ? "Selecteer minimaal één status in de filter om vacatures te zien."
-                    : "Er zijn geen vacatures met de geselecteerde statussen."
+                    : hasActiveFilters
+                      ? "Er zijn geen vacatures die aan je zoekopdracht en de geselecteerde statussen voldoen."
+                      : "Er zijn geen vacatures met de geselecteerde statussen."
                   }
                 </EmptyDescription>
               </EmptyHeader>
@@ -616,19 +969,33 @@ export default function VacaturesPage() {
             <Table className="bg-white">
               <TableHeader>
                 <TableRow className="border-b border-[#E8EEF2] hover:bg-transparent">
+                  <TableHead className="w-10 pr-0">
+                    <SelectCheckbox
+                      checked={getSelectAllState(otherVacancies)}
+                      onCheckedChange={(checked) => toggleSelectAll(otherVacancies, checked)}
+                      label="Alle overige vacatures selecteren"
+                    />
+                  </TableHead>
                   <TableHead className="text-slate-400 font-semibold uppercase text-[12px]">Vacature</TableHead>
                   <TableHead className="text-slate-400 font-semibold uppercase text-[12px] whitespace-nowrap">Status</TableHead>
                   <TableHead className="text-slate-400 font-semibold uppercase text-[12px] text-right whitespace-nowrap">Acties</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {filteredOtherVacancies.map((vacancy) => {
+                {otherVacancies.map((vacancy) => {
                   const config = statusConfig[vacancy.status]
                   const actions = tableActionsPerStatus[vacancy.status]
-                  const publicationInfo = getPublicationInfoText(vacancy.status, vacancy["last-published-at"], vacancy.closing_date)
+                  const publicationInfo = getPublicationInfoText(vacancy.status, vacancy["last-published-at"], vacancy.closing_date, vacancy.publish_from ?? undefined)
                   
                   return (
-                    <TableRow key={vacancy.id} className="border-b border-[#E8EEF2] hover:bg-[#193DAB]/[0.04]">
+                    <TableRow key={vacancy.id} className="border-b border-[#E8EEF2] hover:bg-[#193DAB]/[0.04]" data-state={selectedIds.includes(vacancy.id) ? "selected" : undefined}>
+                      <TableCell className="w-10 pr-0">
+                        <SelectCheckbox
+                          checked={selectedIds.includes(vacancy.id)}
+                          onCheckedChange={(checked) => toggleSelected(vacancy.id, checked)}
+                          label={`${getVacancyDisplayTitle(vacancy.title, vacancy.input_type)} selecteren`}
+                        />
+                      </TableCell>
                       <TableCell className="w-full max-w-0">
                         <Link
                           href={`/dashboard/vacatures/nieuw?id=${vacancy.id}&step=${getFurthestStep(vacancy)}&returnTo=/dashboard/vacatures`}
@@ -702,6 +1069,20 @@ export default function VacaturesPage() {
                 })}
               </TableBody>
             </Table>
+            {otherNextCursor && (
+              <div className="bg-white border-t border-[#E8EEF2] px-6 py-4 flex justify-center">
+                <Button
+                  variant="tertiary"
+                  size="sm"
+                  onClick={handleLoadMore}
+                  disabled={isLoadingMore}
+                  showArrow={false}
+                >
+                  {isLoadingMore && <Loader2 className="h-4 w-4 animate-spin" />}
+                  Meer laden
+                </Button>
+              </div>
+            )}
           </div>
         )}
       </section>
@@ -713,10 +1094,77 @@ export default function VacaturesPage() {
           onOpenChange={setBoostModalOpen}
           vacancyId={boostVacancy.id}
           vacancyTitle={boostVacancy.title}
+          preselectExtension={boostVacancy.preselectExtension}
           onSuccess={fetchVacancies}
         />
       )}
 
+      {/* Publicatie plannen */}
+      {scheduleVacancy && (
+        <PublicationScheduleDialog
+          open={!!scheduleVacancy}
+          onOpenChange={(open) => !open && setScheduleVacancy(null)}
+          vacancy={{
+            id: scheduleVacancy.id,
+            title: getVacancyDisplayTitle(scheduleVacancy.title, scheduleVacancy.input_type),
+            status: scheduleVacancy.status,
+            publish_from: scheduleVacancy.publish_from,
+            depublish_at: scheduleVacancy.depublish_at,
+          }}
+          onSuccess={() => fetchVacancies()}
+        />
+      )}
+
+      {/* Opslaan als sjabloon */}
+      {templateVacancy && (
+        <SaveTemplateDialog
+          open={!!templateVacancy}
+          onOpenChange={(open) => !open && setTemplateVacancy(null)}
+          vacancy={{
+            id: templateVacancy.id,
+            title: getVacancyDisplayTitle(templateVacancy.title, templateVacancy.input_type),
+          }}
+        />
+      )}
+
+      {/* Bulk looptijd verlengen */}
+      <BulkExtendDialog
+        open={bulkExtendOpen}
+        onOpenChange={setBulkExtendOpen}
+        vacancyIds={getBulkActionIds("extend")}
+        onSuccess={() => {
+          fetchVacancies()
+          refetchCredits()
+        }}
+      />
+
+      {/* Bulk actie bevestiging */}
+      <AlertDialog open={!!bulkConfirmAction} onOpenChange={(open) => !open && setBulkConfirmAction(null)}>
+        <AlertDialogContent className="bg-[#E8EEF2] rounded-t-[0.75rem] rounded-b-[2rem]">
+          {bulkConfirmAction && (
+            <>
+              <AlertDialogHeader>
+                <AlertDialogTitle className="text-[#1F2D58]">{bulkConfirmText[bulkConfirmAction].title}</AlertDialogTitle>
+                <AlertDialogDescription className="text-[#1F2D58]/70">
+                  {bulkConfirmText[bulkConfirmAction].description} Dit geldt voor {getBulkActionIds(bulkConfirmAction).length} van de {selectedIds.length} geselecteerde vacatures.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel className="rounded-full border-[#193DAB]/12 text-[#1F2D58] hover:bg-[#193DAB]/12 hover:text-[#1F2D58]">Annuleren</AlertDialogCancel>
+                <AlertDialogAction
+                  onClick={handleBulkConfirm}
+                  className={bulkConfirmAction === "republish"
+                    ? "rounded-full bg-[#1F2D58] text-white hover:bg-[#1F2D58]/80"
+                    : "rounded-full bg-[#BC0000] text-white hover:bg-[#BC0000]/80"}
+                >
+                  {bulkConfirmText[bulkConfirmAction].label}
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </>
+          )}
+        </AlertDialogContent>
+      </AlertDialog>
+
       {/* Depubliceer bevestiging */}
       <AlertDialog open={!!depublishConfirmId} onOpenChange={(open) => !open && setDepublishConfirmId(null)}>
         <AlertDialogContent className="bg-[#E8EEF2] rounded-t-[0.75rem] rounded-b-[2rem]">
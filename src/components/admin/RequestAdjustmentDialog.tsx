@@ -0,0 +1,190 @@
+"use client";
+
+import * as React from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { REVIEW_FIELD_LABELS, REVIEW_FIELDS, type ReviewField } from "@/lib/vacancy-review-fields";
+
+interface CommentDraft {
+  key: number;
+  field: ReviewField;
+  comment: string;
+}
+
+interface RequestAdjustmentDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  vacancy: {
+    id: string;
+    title: string;
+  };
+  /** Called after the vacancy was sent back to the employer */
+  onRequested: () => void;
+}
+
+/**
+ * Send a submitted vacancy back to the employer with a summary and per-field comments
+ */
+export function RequestAdjustmentDialog({
+  open,
+  onOpenChange,
+  vacancy,
+  onRequested,
+}: RequestAdjustmentDialogProps) {
+  const [summary, setSummary] = React.useState("");
+  const [comments, setComments] = React.useState<CommentDraft[]>([]);
+  const [isSaving, setIsSaving] = React.useState(false);
+  const nextKeyRef = React.useRef(0);
+
+  // Start empty each time the dialog opens
+  React.useEffect(() => {
+    if (open) {
+      setSummary("");
+      setComments([]);
+    }
+  }, [open]);
+
+  const addComment = () => {
+    setComments((prev) => [...prev, { key: nextKeyRef.current++, field: "title", comment: "" }]);
+  };
+
+  const updateComment = (key: number, updates: Partial<CommentDraft>) => {
+    setComments((prev) => prev.map((c) => (c.key === key ? { ...c, ...updates } : c)));
+  };
+
+  const removeComment = (key: number) => {
+    setComments((prev) => prev.filter((c) => c.key !== key));
+  };
+
+  const filledComments = comments.filter((c) => c.comment.trim());
+  const canSubmit = !!summary.trim() || filledComments.length > 0;
+
+  const handleSubmit = async () => {
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/admin/vacancies/${vacancy.id}/reviews`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          summary: summary.trim() || undefined,
+          comments: filledComments.map((c) => ({ field: c.field, comment: c.comment.trim() })),
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        toast.error("Terugsturen mislukt", { description: data.error || "Er ging iets mis" });
+        return;
+      }
+
+      toast.success("Vacature teruggestuurd", {
+        description: `"${vacancy.title}" staat nu op 'aanpassing nodig'.`,
+      });
+      onOpenChange(false);
+      onRequested();
+    } catch {
+      toast.error("Terugsturen mislukt", { description: "Er ging iets mis bij het terugsturen" });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-[640px] max-h-[90vh] overflow-y-auto rounded-t-[0.75rem] rounded-b-[2rem] bg-[#E8EEF2]">
+        <DialogHeader>
+          <DialogTitle className="text-[#1F2D58]">Aanpassing vragen</DialogTitle>
+          <DialogDescription className="text-[#1F2D58]/70">
+            De werkgever ziet de toelichting en de opmerkingen bij de velden in het formulier.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="review_summary" className="text-[#1F2D58]">
+            Toelichting
+          </Label>
+          <Textarea
+            id="review_summary"
+            value={summary}
+            onChange={(e) => setSummary(e.target.value)}
+            maxLength={5000}
+            rows={3}
+            placeholder="Bijv. Bedankt voor je vacature! Er zijn nog een paar punten die we graag aangepast zien."
+          />
+        </div>
+
+        <div className="space-y-3">
+          <Label className="text-[#1F2D58]">Opmerkingen per veld</Label>
+          {comments.map((comment) => (
+            <div key={comment.key} className="bg-white rounded-[0.75rem] p-3 space-y-2">
+              <div className="flex items-center gap-2">
+                <Select
+                  value={comment.field}
+                  onValueChange={(value) => updateComment(comment.key, { field: value as ReviewField })}
+                >
+                  <SelectTrigger className="flex-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {REVIEW_FIELDS.map((field) => (
+                      <SelectItem key={field} value={field}>
+                        {REVIEW_FIELD_LABELS[field]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="tertiary"
+                  size="icon"
+                  onClick={() => removeComment(comment.key)}
+                  showArrow={false}
+                  aria-label="Opmerking verwijderen"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+              <Textarea
+                value={comment.comment}
+                onChange={(e) => updateComment(comment.key, { comment: e.target.value })}
+                maxLength={2000}
+                rows={2}
+                placeholder="Wat moet er worden aangepast?"
+              />
+            </div>
+          ))}
+          <Button variant="secondary" size="sm" onClick={addComment} disabled={comments.length >= 50} showArrow={false}>
+            <Plus className="h-4 w-4" />
+            Opmerking toevoegen
+          </Button>
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <Button variant="tertiary" onClick={() => onOpenChange(false)} showArrow={false}>
+            Annuleren
+          </Button>
+          <Button onClick={handleSubmit} disabled={isSaving || !canSubmit} showArrow={false}>
+            {isSaving && <Loader2 className="h-4 w-4 animate-spin" />}
+            Terugsturen
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
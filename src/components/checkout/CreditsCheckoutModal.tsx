@@ -39,6 +39,16 @@ interface InvoiceDetails {
   reference_nr: string;
 }
 
+interface PromoCodeQuote {
+  code: string;
+  description: string | null;
+  original_price: number;
+  discount_amount: number;
+  bonus_credits: number;
+  total_cost: number;
+  total_credits: number;
+}
+
 interface CreditsCheckoutModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
@@ -73,10 +83,18 @@ export function CreditsCheckoutModal({
     city: "",
     reference_nr: "",
   });
+  const [promoCode, setPromoCode] = React.useState("");
+  const [appliedPromo, setAppliedPromo] = React.useState<PromoCodeQuote | null>(null);
+  const [promoError, setPromoError] = React.useState<string | null>(null);
+  const [isCheckingPromo, setIsCheckingPromo] = React.useState(false);
+
+  // One idempotency key per opened modal, so a retried checkout never buys twice
+  const idempotencyKeyRef = React.useRef("");
 
   // Fetch credit bundles when modal opens
   React.useEffect(() => {
     if (open) {
+      idempotencyKeyRef.current = crypto.randomUUID();
       fetchProducts();
       // Reset state when opening
       setSelectedProduct(null);
@@ -91,9 +109,52 @@ export function CreditsCheckoutModal({
         city: "",
         reference_nr: "",
       });
+      setPromoCode("");
+      setAppliedPromo(null);
+      setPromoError(null);
     }
   }, [open]);
 
+  // Validate the promo code live (debounced) for the selected bundle
+  React.useEffect(() => {
+    const code = promoCode.trim();
+    setAppliedPromo(null);
+    setPromoError(null);
+    if (!code || !selectedProduct) {
+      setIsCheckingPromo(false);
+      return;
+    }
+
+    let cancelled = false;
+    setIsCheckingPromo(true);
+    const timeout = setTimeout(async () => {
+      try {
+        const response = await fetch("/api/checkout/promo-code", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ code, product_id: selectedProduct.id }),
+        });
+        const data = await response.json();
+        if (cancelled) return;
+        if (!response.ok) {
+          setPromoError(data.error || "Deze kortingscode is ongeldig");
+        } else {
+          setAppliedPromo(data);
+        }
+      } catch (error) {
+        console.error("Error checking promo code:", error);
+        if (!cancelled) setPromoError("Kon de kortingscode niet controleren");
+      } finally {
+        if (!cancelled) setIsCheckingPromo(false);
+      }
+    }, 400);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [promoCode, selectedProduct]);
+
   const fetchProducts = async () => {
     setIsLoading(true);
     try {
@@ -215,11 +276,15 @@ export function CreditsCheckoutModal({
     try {
       const response = await fetch("/api/checkout", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: {
+          "Content-Type": "application/json",
+          "Idempotency-Key": idempotencyKeyRef.current,
+        },
         body: JSON.stringify({
           product_id: selectedProduct.id,
           context,
           invoice_details: invoiceDetails,
+          ...(appliedPromo && { promo_code: appliedPromo.code }),
         }),
       });
 
@@ -234,11 +299,11 @@ export function CreditsCheckoutModal({
       onOpenChange(false);
       
       // Update credits with new balance (includes purchased amount for accurate tracking)
-      onSuccess?.(data.new_balance, selectedProduct.credits);
+      onSuccess?.(data.new_balance, data.credits_purchased);
 
       // Show success toast with new balance
       toast.success("Credits gekocht!", {
-        description: `${selectedProduct.credits} credits toegevoegd. Nieuw saldo: ${data.new_balance} credits`,
+        description: `${data.credits_purchased} credits toegevoegd. Nieuw saldo: ${data.new_balance} credits`,
       });
     } catch (error) {
       console.error("Checkout error:", error);
@@ -666,6 +731,46 @@ export function CreditsCheckoutModal({
               )}
             </div>
 
+            {/* Promo code */}
+            <div className="border border-[#1F2D58]/10 rounded-[0.75rem] p-4">
+              <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+                <Label htmlFor="promo_code" className="text-sm text-[#1F2D58] shrink-0 !mb-0">
+                  Kortingscode
+                </Label>
+                <div className="relative sm:max-w-[240px] w-full">
+                  <Input
+                    id="promo_code"
+                    value={promoCode}
+                    onChange={(e) => setPromoCode(e.target.value.toUpperCase())}
+                    placeholder="Bijv. WELKOM10"
+                    autoComplete="off"
+                    className="bg-white"
+                  />
+                  {isCheckingPromo && (
+                    <Spinner className="h-4 w-4 absolute right-3 top-1/2 -translate-y-1/2" />
+                  )}
+                </div>
+                {promoCode.trim() && !selectedProduct && (
+                  <p className="text-sm text-[#1F2D58]/60">Selecteer eerst een bundel</p>
+                )}
+                {promoError && !isCheckingPromo && (
+                  <p className="text-sm text-[#BC0000]">{promoError}</p>
+                )}
+                {appliedPromo && !isCheckingPromo && (
+                  <p className="text-sm text-[#2F9D07] flex items-center gap-1.5">
+                    <Check className="h-4 w-4 shrink-0" />
+                    <span>
+                      {appliedPromo.description || "Kortingscode toegepast"}
+                      {appliedPromo.discount_amount > 0 && (
+                        <> · {formatPrice(appliedPromo.total_cost)} <span className="line-through text-[#1F2D58]/50">{formatPrice(appliedPromo.original_price)}</span></>
+                      )}
+                      {appliedPromo.bonus_credits > 0 && ` · +${appliedPromo.bonus_credits} credits`}
+                    </span>
+                  </p>
+                )}
+              </div>
+            </div>
+
             {/* Submit button with invoice info */}
             <div className="flex flex-col-reverse sm:flex-row sm:items-center sm:justify-between gap-3 pt-2">
               <p className="text-[12px] text-[#1F2D58]/70 text-center sm:text-left">
@@ -673,7 +778,7 @@ export function CreditsCheckoutModal({
               </p>
               <Button
                 onClick={handleSubmit}
-                disabled={isSubmitting || !selectedProduct || !useAccountDetails || isLoadingAccountDetails || !invoiceDetails.contact_name}
+                disabled={isSubmitting || !selectedProduct || !useAccountDetails || isLoadingAccountDetails || !invoiceDetails.contact_name || isCheckingPromo || (!!promoCode.trim() && !appliedPromo)}
                 className="w-full sm:w-auto sm:min-w-[200px]"
               >
                 {isSubmitting ? (
@@ -684,7 +789,7 @@ export function CreditsCheckoutModal({
                   "Haal factuurgegevens op"
                 ) : (
                   <>
-                    Koop {selectedProduct.credits} credits{billingCycle === "yearly" && " per jaar"}
+                    Koop {appliedPromo?.total_credits ?? selectedProduct.credits} credits{billingCycle === "yearly" && !appliedPromo?.bonus_credits && " per jaar"}
                   </>
                 )}
               </Button>
@@ -0,0 +1,251 @@
+"use client";
+
+import * as React from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogClose,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Field, FieldLabel } from "@/components/ui/field";
+import { Spinner } from "@/components/ui/spinner";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "sonner";
+import { X, Coins, ArrowRight, ArrowLeft } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+type TransferDirection = "to_employer" | "to_intermediary";
+
+interface EmployerWallet {
+  id: string;
+  name: string;
+  balance: number;
+}
+
+interface CreditsTransferModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSuccess?: (newBalance: number) => void;
+}
+
+/**
+ * Modal for intermediaries to move credits between their own wallet
+ * and the wallet of a managed employer (both directions)
+ */
+export function CreditsTransferModal({
+  open,
+  onOpenChange,
+  onSuccess,
+}: CreditsTransferModalProps) {
+  const [isLoading, setIsLoading] = React.useState(true);
+  const [isSubmitting, setIsSubmitting] = React.useState(false);
+  const [balance, setBalance] = React.useState(0);
+  const [employers, setEmployers] = React.useState<EmployerWallet[]>([]);
+  const [employerId, setEmployerId] = React.useState("");
+  const [direction, setDirection] = React.useState<TransferDirection>("to_employer");
+  const [amount, setAmount] = React.useState("");
+
+  // One idempotency key per opened modal, so a retried transfer is never booked twice
+  const idempotencyKeyRef = React.useRef("");
+
+  React.useEffect(() => {
+    if (open) {
+      idempotencyKeyRef.current = crypto.randomUUID();
+      setEmployerId("");
+      setDirection("to_employer");
+      setAmount("");
+      fetchWallets();
+    }
+  }, [open]);
+
+  const fetchWallets = async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch("/api/intermediary/transfer");
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Kon wallets niet laden");
+      }
+      setBalance(data.balance ?? 0);
+      setEmployers(data.employers || []);
+    } catch (error) {
+      console.error("Error fetching wallets:", error);
+      toast.error("Kon wallets niet laden");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const selectedEmployer = employers.find((e) => e.id === employerId);
+  const sourceBalance = direction === "to_employer" ? balance : selectedEmployer?.balance ?? 0;
+  const credits = Number.parseInt(amount, 10);
+  const isValidAmount = Number.isInteger(credits) && credits > 0 && credits <= sourceBalance;
+  const canSubmit = !!selectedEmployer && isValidAmount && !isSubmitting;
+
+  const handleSubmit = async () => {
+    if (!canSubmit) return;
+
+    setIsSubmitting(true);
+    try {
+      const response = await fetch("/api/intermediary/transfer", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "Idempotency-Key": idempotencyKeyRef.current,
+        },
+        body: JSON.stringify({ employer_id: employerId, direction, credits }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Overboeken mislukt");
+      }
+
+      toast.success(
+        direction === "to_employer"
+          ? `${credits} credits overgeboekt naar ${selectedEmployer?.name}`
+          : `${credits} credits teruggeboekt van ${selectedEmployer?.name}`
+      );
+      onSuccess?.(data.balance);
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Transfer error:", error);
+      toast.error(error instanceof Error ? error.message : "Er ging iets mis bij het overboeken");
+      // A new attempt after an error is a new transfer
+      idempotencyKeyRef.current = crypto.randomUUID();
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-[540px] max-h-[90vh] rounded-t-[0.75rem] rounded-b-[2rem] p-0 gap-0 bg-white overflow-hidden">
+        <DialogClose className="absolute top-4 right-4 z-20 flex w-[30px] h-[30px] rounded-full bg-white border border-[#1F2D58]/20 items-center justify-center hover:bg-[#1F2D58]/5 transition-colors shadow-sm">
+          <X className="h-4 w-4 text-[#1F2D58]" />
+          <span className="sr-only">Sluiten</span>
+        </DialogClose>
+
+        <div className="overflow-y-auto max-h-[90vh] p-6 space-y-5">
+          <DialogHeader className="pr-12">
+            <DialogTitle className="text-xl font-bold text-[#1F2D58]">
+              Credits overboeken
+            </DialogTitle>
+            <p className="text-sm text-[#1F2D58]/70">
+              Verplaats credits tussen je eigen wallet en die van een werkgever. De vervaldatum van de credits blijft gelijk.
+            </p>
+          </DialogHeader>
+
+          {isLoading ? (
+            <div className="space-y-3">
+              <Skeleton className="h-10 w-full" />
+              <Skeleton className="h-10 w-full" />
+              <Skeleton className="h-10 w-full" />
+            </div>
+          ) : (
+            <>
+              {/* Direction */}
+              <div className="grid grid-cols-2 gap-2">
+                {([
+                  { value: "to_employer", label: "Naar werkgever", icon: ArrowRight },
+                  { value: "to_intermediary", label: "Terug naar mij", icon: ArrowLeft },
+                ] as const).map((option) => (
+                  <button
+                    key={option.value}
+                    type="button"
+                    onClick={() => setDirection(option.value)}
+                    className={cn(
+                      "flex items-center justify-center gap-2 rounded-[0.75rem] border px-3 py-2 text-sm font-medium transition-colors",
+                      direction === option.value
+                        ? "border-[#1F2D58] bg-[#1F2D58] text-white"
+                        : "border-[#1F2D58]/20 text-[#1F2D58] hover:bg-[#193DAB]/[0.08]"
+                    )}
+                  >
+                    <option.icon className="h-4 w-4" />
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+
+              {/* Employer */}
+              <Field>
+                <FieldLabel>Werkgever</FieldLabel>
+                <Select value={employerId} onValueChange={setEmployerId}>
+                  <SelectTrigger className="w-full bg-white border-[#193DAB]/12">
+                    <SelectValue placeholder="Selecteer een werkgever" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {employers.length === 0 ? (
+                      <div className="p-2 text-sm text-[#1F2D58]/60">
+                        Geen werkgevers beschikbaar
+                      </div>
+                    ) : (
+                      employers.map((employer) => (
+                        <SelectItem key={employer.id} value={employer.id}>
+                          {employer.name} ({employer.balance} credits)
+                        </SelectItem>
+                      ))
+                    )}
+                  </SelectContent>
+                </Select>
+              </Field>
+
+              {/* Amount */}
+              <Field>
+                <FieldLabel htmlFor="transfer-amount">Aantal credits</FieldLabel>
+                <Input
+                  id="transfer-amount"
+                  type="number"
+                  min={1}
+                  max={sourceBalance}
+                  step={1}
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                  placeholder="0"
+                />
+                <div className="flex items-center gap-1.5 text-sm text-[#1F2D58]/70">
+                  <Coins className="h-4 w-4" />
+                  <span>
+                    Beschikbaar {direction === "to_employer" ? "in je wallet" : "bij deze werkgever"}:{" "}
+                    <strong className="text-[#1F2D58]">{sourceBalance} credits</strong>
+                  </span>
+                </div>
+                {amount !== "" && !isValidAmount && (
+                  <p className="text-sm text-red-600">
+                    Vul een aantal tussen 1 en {sourceBalance} in
+                  </p>
+                )}
+              </Field>
+
+              <div className="flex flex-col-reverse sm:flex-row justify-end gap-2 pt-2">
+                <Button variant="secondary" onClick={() => onOpenChange(false)} showArrow={false}>
+                  Annuleren
+                </Button>
+                <Button onClick={handleSubmit} disabled={!canSubmit} showArrow={false}>
+                  {isSubmitting ? (
+                    <>
+                      <Spinner className="h-4 w-4 mr-2" />
+                      Bezig...
+                    </>
+                  ) : (
+                    "Overboeken"
+                  )}
+                </Button>
+              </div>
+            </>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
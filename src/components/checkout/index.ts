@@ -1,3 +1,4 @@
 export { CreditsCheckoutModal } from "./CreditsCheckoutModal";
+export { CreditsTransferModal } from "./CreditsTransferModal";
 export type { CheckoutContext } from "./CreditsCheckoutModal";
 export { InsufficientCreditsAlert } from "./InsufficientCreditsAlert";
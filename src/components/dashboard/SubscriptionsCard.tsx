@@ -0,0 +1,192 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { Repeat } from "lucide-react"
+import { toast } from "sonner"
+
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Spinner } from "@/components/ui/spinner"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import { formatDate } from "@/lib/vacancy-utils"
+
+interface Subscription {
+  id: string
+  status: "active" | "cancelled" | "ended"
+  started_at: string
+  next_renewal_at: string
+  cancelled_at: string | null
+  ended_at: string | null
+  renewal_count: number
+  product_name: string
+  credits: number | null
+  price: number | null
+}
+
+const statusConfig: Record<Subscription["status"], {
+  label: string
+  variant: "success" | "warning" | "muted"
+}> = {
+  active: { label: "Actief", variant: "success" },
+  cancelled: { label: "Opgezegd", variant: "warning" },
+  ended: { label: "Beëindigd", variant: "muted" },
+}
+
+interface SubscriptionsCardProps {
+  /** Called after a change, e.g. to refresh the orders list */
+  onChange?: () => void
+}
+
+/**
+ * Yearly credit bundle subscriptions of the wallet, with cancel and reactivate
+ * Renders nothing when the wallet never had a subscription
+ */
+export function SubscriptionsCard({ onChange }: SubscriptionsCardProps) {
+  const [subscriptions, setSubscriptions] = useState<Subscription[]>([])
+  const [pendingId, setPendingId] = useState<string | null>(null)
+  const [cancelConfirmId, setCancelConfirmId] = useState<string | null>(null)
+
+  const fetchSubscriptions = useCallback(async () => {
+    try {
+      const response = await fetch("/api/subscriptions")
+      if (!response.ok) return
+      const data = await response.json()
+      setSubscriptions(data.subscriptions || [])
+    } catch (err) {
+      console.error("Error fetching subscriptions:", err)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchSubscriptions()
+  }, [fetchSubscriptions])
+
+  const updateSubscription = async (id: string, action: "cancel" | "reactivate") => {
+    setPendingId(id)
+    try {
+      const response = await fetch(`/api/subscriptions/${id}/${action}`, { method: "POST" })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Er ging iets mis")
+      }
+      toast.success(action === "cancel" ? "Abonnement opgezegd" : "Abonnement heractiveerd")
+      await fetchSubscriptions()
+      onChange?.()
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Er ging iets mis")
+    } finally {
+      setPendingId(null)
+    }
+  }
+
+  const cancelSubscription = subscriptions.find((s) => s.id === cancelConfirmId)
+
+  if (subscriptions.length === 0) {
+    return null
+  }
+
+  return (
+    <div className="rounded-t-[0.75rem] rounded-b-[2rem] overflow-hidden mb-10">
+      <div className="bg-white/50 px-6 py-4">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 rounded-full bg-white flex items-center justify-center flex-shrink-0">
+            <Repeat className="h-5 w-5 text-[#1F2D58]" />
+          </div>
+          <h2 className="!text-[1.125rem] sm:!text-[1.5rem] font-semibold text-[#1F2D58] -mt-1">
+            Abonnementen
+          </h2>
+        </div>
+      </div>
+      <div className="bg-white divide-y divide-[#1F2D58]/10">
+        {subscriptions.map((subscription) => {
+          const status = statusConfig[subscription.status]
+          const canReactivate = subscription.status === "cancelled"
+            && new Date(subscription.next_renewal_at) > new Date()
+
+          return (
+            <div
+              key={subscription.id}
+              className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 px-6 py-4"
+            >
+              <div className="space-y-1">
+                <div className="flex items-center gap-2">
+                  <p className="font-semibold text-[#1F2D58]">{subscription.product_name}</p>
+                  <Badge variant={status.variant}>{status.label}</Badge>
+                </div>
+                <p className="text-sm text-[#1F2D58]/70">
+                  {subscription.credits !== null && `${subscription.credits} credits per jaar`}
+                  {subscription.price !== null && ` · € ${subscription.price.toLocaleString("nl-NL")} excl. btw`}
+                </p>
+                <p className="text-sm text-[#1F2D58]/70">
+                  {subscription.status === "active" &&
+                    `Wordt verlengd op ${formatDate(new Date(subscription.next_renewal_at))}`}
+                  {subscription.status === "cancelled" &&
+                    `Loopt af op ${formatDate(new Date(subscription.next_renewal_at))}`}
+                  {subscription.status === "ended" && subscription.ended_at &&
+                    `Beëindigd op ${formatDate(new Date(subscription.ended_at))}`}
+                </p>
+              </div>
+
+              {subscription.status === "active" && (
+                <Button
+                  variant="tertiary"
+                  size="sm"
+                  showArrow={false}
+                  disabled={pendingId === subscription.id}
+                  onClick={() => setCancelConfirmId(subscription.id)}
+                >
+                  {pendingId === subscription.id && <Spinner className="h-4 w-4 mr-2" />}
+                  Opzeggen
+                </Button>
+              )}
+              {canReactivate && (
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  showArrow={false}
+                  disabled={pendingId === subscription.id}
+                  onClick={() => updateSubscription(subscription.id, "reactivate")}
+                >
+                  {pendingId === subscription.id && <Spinner className="h-4 w-4 mr-2" />}
+                  Heractiveren
+                </Button>
+              )}
+            </div>
+          )
+        })}
+      </div>
+
+      {/* Cancel confirmation */}
+      <AlertDialog open={!!cancelConfirmId} onOpenChange={(open) => !open && setCancelConfirmId(null)}>
+        <AlertDialogContent className="bg-[#E8EEF2] rounded-t-[0.75rem] rounded-b-[2rem]">
+          <AlertDialogHeader>
+            <AlertDialogTitle className="text-[#1F2D58]">Abonnement opzeggen?</AlertDialogTitle>
+            <AlertDialogDescription className="text-[#1F2D58]/70">
+              Je abonnement wordt niet meer verlengd
+              {cancelSubscription && ` en loopt af op ${formatDate(new Date(cancelSubscription.next_renewal_at))}`}.
+              Je gekochte credits blijven geldig tot hun vervaldatum. Tot die datum kun je het abonnement heractiveren.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel className="rounded-full border-[#193DAB]/12 text-[#1F2D58] hover:bg-[#193DAB]/12 hover:text-[#1F2D58]">Annuleren</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => cancelConfirmId && updateSubscription(cancelConfirmId, "cancel")}
+              className="rounded-full bg-[#BC0000] text-white hover:bg-[#BC0000]/80"
+            >
+              Opzeggen
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
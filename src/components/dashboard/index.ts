@@ -3,3 +3,4 @@ export { VacancyCard, VacancyCardSkeleton, type VacancyStatus } from "./VacancyC
 export { MobileHeader } from "./MobileHeader"
 export { MobileNav } from "./MobileNav"
 export { DesktopHeader } from "./DesktopHeader"
+export { SubscriptionsCard } from "./SubscriptionsCard"
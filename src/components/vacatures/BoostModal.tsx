@@ -18,10 +18,10 @@ import { Input } from "@/components/ui/input";
 import { toast } from "sonner";
 import { X, Rocket, Check, ChevronDown, Pencil } from "lucide-react";
 import { Field, FieldLabel } from "@/components/ui/field";
-import type { InvoiceDetails } from "./types";
+import type { ExtensionQuote, InvoiceDetails } from "./types";
 import { ProductRecord, TransactionRecord } from "@/lib/airtable";
 import { useCredits } from "@/lib/credits-context";
-import { getPriceDisplayMode } from "@/lib/credits";
+import { getPriceDisplayMode, planCreditSpend } from "@/lib/credits";
 import { CreditsCheckoutModal } from "@/components/checkout/CreditsCheckoutModal";
 import {
   getPackageBaseDuration,
@@ -41,6 +41,8 @@ interface BoostModalProps {
   vacancyId: string;
   vacancyTitle: string;
   onSuccess?: () => void;
+  /** Check the extension option on open (link from the expiry warning email) */
+  preselectExtension?: boolean;
 }
 
 // Vacancy data fetched from API
@@ -69,6 +71,7 @@ export function BoostModal({
   vacancyId,
   vacancyTitle,
   onSuccess,
+  preselectExtension = false,
 }: BoostModalProps) {
   const { credits, updateCredits } = useCredits();
   const priceDisplayMode = getPriceDisplayMode(credits.total_purchased);
@@ -83,6 +86,7 @@ export function BoostModal({
   const [extensionUpsell, setExtensionUpsell] = React.useState<ProductRecord | null>(null);
   const [extensionChecked, setExtensionChecked] = React.useState(false);
   const [selectedDate, setSelectedDate] = React.useState<Date | undefined>();
+  const [extensionQuote, setExtensionQuote] = React.useState<ExtensionQuote | null>(null);
   const [datePickerOpen, setDatePickerOpen] = React.useState(false);
   const [dateRange, setDateRange] = React.useState<{ minDate: Date; maxDate: Date } | null>(null);
   const [vacancyData, setVacancyData] = React.useState<VacancyData | null>(null);
@@ -104,12 +108,17 @@ export function BoostModal({
   const [useAccountDetails, setUseAccountDetails] = React.useState(false);
   const [invoiceDetailsOpen, setInvoiceDetailsOpen] = React.useState(false);
 
+  // One idempotency key per opened modal, so a retried boost is never charged twice
+  const idempotencyKeyRef = React.useRef("");
+
   // Fetch boost upsells when modal opens
   React.useEffect(() => {
     if (open) {
+      idempotencyKeyRef.current = crypto.randomUUID();
       setSelectedUpsellIds([]);
       setExtensionChecked(false);
       setSelectedDate(undefined);
+      setExtensionQuote(null);
       setExtensionUpsell(null);
       setDateRange(null);
       setIsPremiumPackage(false);
@@ -151,7 +160,10 @@ export function BoostModal({
 
       const allUpsells: ProductRecord[] = upsellsData.products || [];
       const vacancy: VacancyData = vacancyDataRes.vacancy;
-      const vacancyTransactions: TransactionRecord[] = vacancyDataRes.transactions || [];
+      // Only spends that still count (refunded or failed charges are ignored)
+      const vacancyTransactions: TransactionRecord[] = (vacancyDataRes.transactions || []).filter(
+        (tx: TransactionRecord) => tx.type === "spend" && tx.status !== "refunded" && tx.status !== "failed"
+      );
       setVacancyData(vacancy);
 
       // Build a lookup map for all upsell products (used for active upsells display)
@@ -352,8 +364,8 @@ export function BoostModal({
         if (range.maxDate > range.minDate) {
           setDateRange(range);
 
-          // Auto-check extension for verlopen vacancies (required)
-          if (vacancy.status === "verlopen") {
+          // Auto-check extension for verlopen vacancies (required) and from the expiry warning email
+          if (vacancy.status === "verlopen" || preselectExtension) {
             setExtensionChecked(true);
           }
         } else {
@@ -371,8 +383,8 @@ export function BoostModal({
     }
   };
 
-  // Calculate costs (credits)
-  const extensionCost = extensionChecked && extensionUpsell ? extensionUpsell.credits : 0;
+  // Calculate costs (credits); a chosen closing date is charged as quoted
+  const extensionCost = extensionChecked && extensionUpsell ? extensionQuote?.credits ?? extensionUpsell.credits : 0;
   const upsellsCost = React.useMemo(() => {
     return boostUpsells
       .filter((u) => selectedUpsellIds.includes(u.id))
@@ -381,7 +393,7 @@ export function BoostModal({
   const totalCost = upsellsCost + extensionCost;
 
   // Calculate costs (euros)
-  const extensionPrice = extensionChecked && extensionUpsell ? extensionUpsell.price : 0;
+  const extensionPrice = extensionChecked && extensionUpsell ? extensionQuote?.price ?? extensionUpsell.price : 0;
   const upsellsPrice = React.useMemo(() => {
     return boostUpsells
       .filter((u) => selectedUpsellIds.includes(u.id))
@@ -394,11 +406,12 @@ export function BoostModal({
   const hasEnoughCredits = remaining >= 0;
   const hasSelection = selectedUpsellIds.length > 0 || (extensionChecked && !!selectedDate);
 
-  // Calculate shortage for hybrid payment
-  const shortage = Math.max(0, totalCost - availableCreditsAmount);
-  const shortagePrice = totalCost > 0
-    ? Math.round((shortage / totalCost) * totalPrice)
-    : 0;
+  // Calculate shortage for hybrid payment; how it is paid depends on the employer's
+  // credit policy (invoice the shortage, negative balance up to a limit, or blocked)
+  const shortage = Math.max(0, totalCost - Math.max(0, availableCreditsAmount));
+  const plan = planCreditSpend(totalCost, totalPrice, availableCreditsAmount, credits.credit_policy);
+  const needsInvoice = plan.credits_to_invoice > 0;
+  const shortagePrice = plan.invoice_amount;
 
   // Check if invoice details are complete
   const hasCompleteInvoiceDetails = React.useMemo(() => {
@@ -479,10 +492,14 @@ export function BoostModal({
     if (extensionRequired && (!extensionChecked || !selectedDate)) return false;
     // If extension is checked but no date selected yet, can't submit
     if (extensionChecked && !selectedDate) return false;
-    // If not enough credits, must have loaded account details and have complete invoice details
-    if (!hasEnoughCredits && (!useAccountDetails || isLoadingAccountDetails || !hasCompleteInvoiceDetails)) return false;
+    // The chosen date must be quoted before it can be bought
+    if (extensionChecked && !extensionQuote) return false;
+    // Blocked by the credit policy: credits must be bought first
+    if (!plan.allowed) return false;
+    // If the shortage is invoiced, must have loaded account details and have complete invoice details
+    if (needsInvoice && (!useAccountDetails || isLoadingAccountDetails || !hasCompleteInvoiceDetails)) return false;
     return true;
-  }, [isSubmitting, hasSelection, extensionRequired, extensionChecked, selectedDate, hasEnoughCredits, useAccountDetails, isLoadingAccountDetails, hasCompleteInvoiceDetails]);
+  }, [isSubmitting, hasSelection, extensionRequired, extensionChecked, selectedDate, extensionQuote, plan.allowed, needsInvoice, useAccountDetails, isLoadingAccountDetails, hasCompleteInvoiceDetails]);
 
   // Submit boost
   const handleSubmit = async () => {
@@ -491,35 +508,30 @@ export function BoostModal({
     setIsSubmitting(true);
     try {
       // Build request body
-      const upsellIds = [...selectedUpsellIds];
-      if (extensionChecked && selectedDate && extensionUpsell) {
-        upsellIds.push(extensionUpsell.id);
-      }
-
       const requestBody: { 
         upsell_ids: string[]; 
-        new_closing_date?: string;
+        extension_quote?: string;
         invoice_details?: InvoiceDetails;
       } = {
-        upsell_ids: upsellIds,
+        upsell_ids: [...selectedUpsellIds],
       };
 
-      // Add new_closing_date if extension is checked and a date was selected
-      if (extensionChecked && selectedDate) {
-        const year = selectedDate.getFullYear();
-        const month = String(selectedDate.getMonth() + 1).padStart(2, "0");
-        const day = String(selectedDate.getDate()).padStart(2, "0");
-        requestBody.new_closing_date = `${year}-${month}-${day}`;
+      // Add the quote for the new closing date if extension is checked
+      if (extensionChecked && selectedDate && extensionQuote) {
+        requestBody.extension_quote = extensionQuote.token;
       }
 
-      // Add invoice details if there's a shortage
-      if (!hasEnoughCredits && useAccountDetails && hasCompleteInvoiceDetails) {
+      // Add invoice details if the shortage is invoiced
+      if (needsInvoice && useAccountDetails && hasCompleteInvoiceDetails) {
         requestBody.invoice_details = invoiceDetails;
       }
 
       const response = await fetch(`/api/vacancies/${vacancyId}/boost`, {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: {
+          "Content-Type": "application/json",
+          "Idempotency-Key": idempotencyKeyRef.current,
+        },
         body: JSON.stringify(requestBody),
       });
 
@@ -652,6 +664,8 @@ export function BoostModal({
                               required={getExtensionConfig().required}
                               idPrefix="boost"
                               priceDisplayMode={priceDisplayMode}
+                              vacancyId={vacancyId}
+                              onQuoteChange={setExtensionQuote}
                             />
                           );
                         }
@@ -708,16 +722,14 @@ export function BoostModal({
                         </div>
                       )}
 
-                      {/* Invoice details section - only show when not enough credits and has selection */}
-                      {hasSelection && !hasEnoughCredits && (
+                      {/* Invoice details section - only show when the shortage is invoiced and has selection */}
+                      {hasSelection && needsInvoice && (
                         <>
                           <p className="text-xs font-semibold text-[#1F2D58]/50 uppercase tracking-wider mb-2 mt-4">
                             Factuurgegevens
                           </p>
                           <p className="text-sm text-[#1F2D58]/70 mb-3">
-                            {availableCreditsAmount > 0
-                              ? "Je credits worden automatisch verrekend. Voor het overige bedrag ontvang je een factuur."
-                              : "Je ontvangt een factuur via de e-mail."}
+                            {plan.message}
                           </p>
 
                           <div className={cn(
@@ -970,11 +982,24 @@ export function BoostModal({
                           <>
                             <div className="flex justify-between text-[#1F2D58]">
                               <span>Tekort aan credits:</span>
-                              <span>{shortage} (€{shortagePrice})</span>
+                              <span>{plan.policy === "invoice" ? `${shortage} (€${shortagePrice})` : shortage}</span>
                             </div>
+                            {plan.policy === "overdraft" && plan.allowed && (
+                              <div className="flex justify-between text-[#1F2D58]">
+                                <span>Resterend:</span>
+                                <span>{plan.new_balance} credits</span>
+                              </div>
+                            )}
+
+                            {/* Which credit policy rule applies (overdraft or blocked) */}
+                            {plan.policy !== "invoice" && plan.message && (
+                              <p className={cn("mt-3 text-sm", plan.allowed ? "text-[#1F2D58]/70" : "text-[#BC0000]")}>
+                                {plan.message}
+                              </p>
+                            )}
 
                             {/* Bundle promotion */}
-                            {availableCreditsAmount <= 50 && (
+                            {(availableCreditsAmount <= 50 || !plan.allowed) && (
                               <button
                                 type="button"
                                 onClick={() => setShowCheckoutModal(true)}
@@ -989,16 +1014,18 @@ export function BoostModal({
                               </button>
                             )}
 
-                            <div className="flex justify-between text-[#1F2D58] font-semibold pt-4 mt-4 border-t border-[#1F2D58]/10">
-                              <span>Te betalen:</span>
-                              <span>
-                                {availableCreditsAmount > 0 && shortagePrice > 0
-                                  ? `${availableCreditsAmount} credits + €${shortagePrice}`
-                                  : availableCreditsAmount > 0
-                                  ? `${availableCreditsAmount} credits`
-                                  : `€${shortagePrice}`}
-                              </span>
-                            </div>
+                            {plan.allowed && (
+                              <div className="flex justify-between text-[#1F2D58] font-semibold pt-4 mt-4 border-t border-[#1F2D58]/10">
+                                <span>Te betalen:</span>
+                                <span>
+                                  {plan.credits_to_deduct > 0 && shortagePrice > 0
+                                    ? `${plan.credits_to_deduct} credits + €${shortagePrice}`
+                                    : plan.credits_to_deduct > 0
+                                    ? `${plan.credits_to_deduct} credits`
+                                    : `€${shortagePrice}`}
+                                </span>
+                              </div>
+                            )}
                           </>
                         )}
                       </>
@@ -1021,7 +1048,9 @@ export function BoostModal({
                       ) : (
                         <>
                           {hasSelection ? (
-                            !hasEnoughCredits && (!useAccountDetails || !hasCompleteInvoiceDetails) ? (
+                            !plan.allowed ? (
+                              "Onvoldoende credits"
+                            ) : needsInvoice && (!useAccountDetails || !hasCompleteInvoiceDetails) ? (
                               "Haal factuurgegevens op"
                             ) : (
                               <>
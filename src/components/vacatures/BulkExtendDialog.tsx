@@ -0,0 +1,323 @@
+"use client";
+
+import * as React from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { CalendarDays, Check, Loader2, X } from "lucide-react";
+import { nl } from "react-day-picker/locale";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import type { InvoiceDetails } from "./types";
+
+interface BulkExtendItem {
+  id: string;
+  title: string | null;
+  success: boolean;
+  error?: string;
+  credits?: number;
+  credits_invoiced?: number;
+  extra_days?: number;
+}
+
+interface BulkExtendResponse {
+  results: BulkExtendItem[];
+  succeeded: number;
+  failed: number;
+  total_credits: number;
+  total_credits_invoiced: number;
+}
+
+interface BulkExtendDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  vacancyIds: string[];
+  /** Called after the extension was bought for at least one vacancy */
+  onSuccess: () => void;
+}
+
+// Format a date in Dutch locale
+const formatDate = (date: Date) =>
+  date.toLocaleDateString("nl-NL", {
+    day: "numeric",
+    month: "long",
+    year: "numeric",
+  });
+
+/**
+ * Move the closing date of several vacancies at once
+ * Shows the costs per vacancy first (dry run), then buys the extension for the eligible ones
+ */
+export function BulkExtendDialog({
+  open,
+  onOpenChange,
+  vacancyIds,
+  onSuccess,
+}: BulkExtendDialogProps) {
+  const [closingDate, setClosingDate] = React.useState<Date | undefined>();
+  const [datePickerOpen, setDatePickerOpen] = React.useState(false);
+  const [quote, setQuote] = React.useState<BulkExtendResponse | null>(null);
+  const [isQuoting, setIsQuoting] = React.useState(false);
+  const [isSubmitting, setIsSubmitting] = React.useState(false);
+  const [invoiceDetails, setInvoiceDetails] = React.useState<InvoiceDetails | null>(null);
+  const [isLoadingAccountDetails, setIsLoadingAccountDetails] = React.useState(false);
+
+  // One idempotency key per opened dialog and closing date, so a retried extension is
+  // never charged twice (the server derives a key per vacancy from it)
+  const idempotencyKeyRef = React.useRef("");
+
+  // Start fresh each time the dialog opens
+  React.useEffect(() => {
+    if (open) {
+      idempotencyKeyRef.current = crypto.randomUUID();
+      setClosingDate(undefined);
+      setQuote(null);
+      setInvoiceDetails(null);
+    }
+  }, [open]);
+
+  const tomorrow = new Date();
+  tomorrow.setHours(0, 0, 0, 0);
+  tomorrow.setDate(tomorrow.getDate() + 1);
+
+  const postBulkExtend = async (dryRun: boolean, ids: string[], date: Date) => {
+    const response = await fetch("/api/vacancies/bulk", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(!dryRun && { "Idempotency-Key": idempotencyKeyRef.current }),
+      },
+      body: JSON.stringify({
+        action: "extend",
+        vacancy_ids: ids,
+        new_closing_date: format(date, "yyyy-MM-dd"),
+        dry_run: dryRun,
+        ...(invoiceDetails && !dryRun && { invoice_details: invoiceDetails }),
+      }),
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || "Er ging iets mis");
+    }
+    return data as BulkExtendResponse;
+  };
+
+  const handleDateSelect = async (date: Date | undefined) => {
+    setClosingDate(date);
+    setDatePickerOpen(false);
+    setQuote(null);
+    // Another date is another purchase
+    idempotencyKeyRef.current = crypto.randomUUID();
+    if (!date) return;
+
+    setIsQuoting(true);
+    try {
+      setQuote(await postBulkExtend(true, vacancyIds, date));
+    } catch (error) {
+      toast.error("Kosten berekenen mislukt", {
+        description: error instanceof Error ? error.message : "Er ging iets mis",
+      });
+    } finally {
+      setIsQuoting(false);
+    }
+  };
+
+  const handleUseAccountDetailsChange = async (checked: boolean | "indeterminate") => {
+    if (checked !== true) {
+      setInvoiceDetails(null);
+      return;
+    }
+
+    setIsLoadingAccountDetails(true);
+    try {
+      const response = await fetch("/api/account");
+      if (!response.ok) {
+        throw new Error("Failed to fetch account");
+      }
+      const data = await response.json();
+      const billing = data.billing || {};
+      setInvoiceDetails({
+        contact_name: billing.invoice_contact_name || "",
+        email: billing.invoice_email || "",
+        street: billing.invoice_street || "",
+        postal_code: billing["invoice_postal-code"] || "",
+        city: billing.invoice_city || "",
+        reference_nr: billing["reference-nr"] || "",
+      });
+    } catch (error) {
+      console.error("Error fetching account details:", error);
+      toast.error("Fout", { description: "Kon factuurgegevens niet ophalen" });
+    } finally {
+      setIsLoadingAccountDetails(false);
+    }
+  };
+
+  const eligibleIds = quote?.results.filter((r) => r.success).map((r) => r.id) || [];
+  const needsInvoice = (quote?.total_credits_invoiced || 0) > 0;
+  const invoiceDetailsComplete = !!(
+    invoiceDetails?.contact_name &&
+    invoiceDetails.email &&
+    invoiceDetails.street &&
+    invoiceDetails.postal_code &&
+    invoiceDetails.city
+  );
+  const canSubmit =
+    !!closingDate && eligibleIds.length > 0 && !isQuoting && (!needsInvoice || invoiceDetailsComplete);
+
+  const handleSubmit = async () => {
+    if (!closingDate) return;
+    setIsSubmitting(true);
+    try {
+      const data = await postBulkExtend(false, eligibleIds, closingDate);
+
+      if (data.succeeded > 0) {
+        toast.success(
+          data.succeeded === 1 ? "1 vacature verlengd" : `${data.succeeded} vacatures verlengd`,
+          {
+            description: data.failed > 0
+              ? `${data.failed} niet gelukt: ${data.results.find((r) => !r.success)?.error}`
+              : `De nieuwe sluitingsdatum is ${formatDate(closingDate)}.`,
+          }
+        );
+        onOpenChange(false);
+        onSuccess();
+      } else {
+        toast.error("Verlengen mislukt", {
+          description: data.results.find((r) => !r.success)?.error || "Er ging iets mis",
+        });
+      }
+    } catch (error) {
+      toast.error("Verlengen mislukt", {
+        description: error instanceof Error ? error.message : "Er ging iets mis bij het verlengen",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-[560px] max-h-[90vh] overflow-y-auto rounded-t-[0.75rem] rounded-b-[2rem] bg-[#E8EEF2]">
+        <DialogHeader>
+          <DialogTitle className="text-[#1F2D58]">Looptijd verlengen</DialogTitle>
+          <DialogDescription className="text-[#1F2D58]/70">
+            Kies een nieuwe sluitingsdatum voor {vacancyIds.length === 1 ? "de geselecteerde vacature" : `de ${vacancyIds.length} geselecteerde vacatures`}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-1.5">
+          <Label htmlFor="bulk-closing-date" className="!mb-0">Nieuwe sluitingsdatum</Label>
+          <Popover open={datePickerOpen} onOpenChange={setDatePickerOpen}>
+            <PopoverTrigger asChild>
+              <button
+                id="bulk-closing-date"
+                type="button"
+                className="flex h-10 w-[265px] items-center justify-between rounded-lg border border-[rgba(31,45,88,0.2)] bg-white px-3 py-2 text-sm ring-offset-background focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2"
+              >
+                <span className={closingDate ? "text-[#1F2D58]" : "text-[#1F2D58]/40"}>
+                  {closingDate ? formatDate(closingDate) : "Kies een datum"}
+                </span>
+                <CalendarDays className="h-4 w-4 opacity-50" />
+              </button>
+            </PopoverTrigger>
+            <PopoverContent className="w-[265px] p-0 bg-white" align="start">
+              <Calendar
+                mode="single"
+                selected={closingDate}
+                defaultMonth={closingDate ?? tomorrow}
+                onSelect={handleDateSelect}
+                disabled={{ before: tomorrow }}
+                locale={nl}
+                className="w-full"
+              />
+            </PopoverContent>
+          </Popover>
+        </div>
+
+        {isQuoting && (
+          <div className="flex items-center gap-2 text-sm text-[#1F2D58]/70">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Kosten berekenen...
+          </div>
+        )}
+
+        {quote && (
+          <div className="bg-white rounded-[0.75rem] p-4 space-y-3">
+            <ul className="space-y-2">
+              {quote.results.map((item) => (
+                <li key={item.id} className="flex items-start gap-2 text-sm">
+                  {item.success ? (
+                    <Check className="h-4 w-4 mt-0.5 shrink-0 text-[#41712F]" />
+                  ) : (
+                    <X className="h-4 w-4 mt-0.5 shrink-0 text-[#BC0000]" />
+                  )}
+                  <div className="flex-1 min-w-0">
+                    <p className="font-semibold text-[#1F2D58] truncate">{item.title || "Vacature"}</p>
+                    <p className="text-[#1F2D58]/60">
+                      {item.success
+                        ? `+${item.extra_days} dagen`
+                        : item.error}
+                    </p>
+                  </div>
+                  {item.success && (
+                    <span className="text-[#1F2D58] whitespace-nowrap">{item.credits} credits</span>
+                  )}
+                </li>
+              ))}
+            </ul>
+            <div className="border-t border-[#E8EEF2] pt-3 flex justify-between text-sm font-bold text-[#1F2D58]">
+              <span>Totaal ({eligibleIds.length} {eligibleIds.length === 1 ? "vacature" : "vacatures"})</span>
+              <span>{quote.total_credits} credits</span>
+            </div>
+            {needsInvoice && (
+              <div className="space-y-2">
+                <p className="text-sm text-[#1F2D58]/70">
+                  Je hebt niet genoeg credits. {quote.total_credits_invoiced} credits worden gefactureerd.
+                </p>
+                <label className="flex items-center gap-2 text-sm text-[#1F2D58] cursor-pointer">
+                  <Checkbox
+                    checked={!!invoiceDetails}
+                    onCheckedChange={handleUseAccountDetailsChange}
+                    disabled={isLoadingAccountDetails}
+                  />
+                  Factuurgegevens van mijn account gebruiken
+                </label>
+                {invoiceDetails && (
+                  <p className="text-sm text-[#1F2D58]/70">
+                    {invoiceDetails.contact_name || "—"}, {invoiceDetails.street || "—"}, {invoiceDetails.postal_code || "—"} {invoiceDetails.city || "—"}
+                    {!invoiceDetailsComplete && (
+                      <span className="block text-[#BC0000]">Vul je factuurgegevens aan bij je account.</span>
+                    )}
+                  </p>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <Button variant="tertiary" onClick={() => onOpenChange(false)} showArrow={false}>
+            Annuleren
+          </Button>
+          <Button onClick={handleSubmit} disabled={!canSubmit || isSubmitting} showArrow={false}>
+            {isSubmitting && <Loader2 className="h-4 w-4 animate-spin" />}
+            {eligibleIds.length > 0 ? `Verlengen (${eligibleIds.length})` : "Verlengen"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
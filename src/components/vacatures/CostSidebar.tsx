@@ -2,6 +2,7 @@
 
 import { Check } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
+import { planCreditSpend } from "@/lib/credits";
 import type { CostSidebarProps } from "./types";
 
 export function CostSidebar({
@@ -13,6 +14,7 @@ export function CostSidebar({
   onChangePackage,
   onBuyCredits,
   priceDisplayMode = "credits",
+  creditPolicy,
 }: CostSidebarProps) {
   const isEuroMode = priceDisplayMode === "euros";
   // Calculate credit totals
@@ -24,7 +26,7 @@ export function CostSidebar({
   const extraCredits = extraUpsells.reduce((sum, u) => sum + u.credits, 0);
 
   const totalCredits = packageCredits + extraCredits;
-  const shortage = Math.max(0, totalCredits - availableCredits);
+  const shortage = Math.max(0, totalCredits - Math.max(0, availableCredits));
   const hasEnoughCredits = shortage === 0;
   const creditsRemaining = availableCredits - totalCredits;
 
@@ -33,11 +35,10 @@ export function CostSidebar({
   const extraPrice = extraUpsells.reduce((sum, u) => sum + u.price, 0);
   const totalPrice = packagePrice + extraPrice;
 
-  // Calculate shortage price proportionally based on actual prices
-  const shortagePrice =
-    totalCredits > 0
-      ? Math.round((shortage / totalCredits) * totalPrice)
-      : 0;
+  // How a shortage is handled depends on the employer's credit policy
+  // (invoice the shortage, negative balance up to a limit, or blocked)
+  const plan = planCreditSpend(totalCredits, totalPrice, availableCredits, creditPolicy);
+  const shortagePrice = plan.invoice_amount;
 
   return (
     <div className="space-y-4 mt-6 sticky top-6 self-start">
@@ -193,13 +194,28 @@ export function CostSidebar({
                       <div className="flex justify-between">
                         <span className="text-[#1F2D58]">Tekort aan credits</span>
                         <span className="text-[#1F2D58]">
-                          {shortage} (€{shortagePrice})
+                          {plan.policy === "invoice" ? `${shortage} (€${shortagePrice})` : shortage}
                         </span>
                       </div>
+                      {plan.policy === "overdraft" && plan.allowed && (
+                        <div className="flex justify-between">
+                          <span className="text-[#1F2D58]">Saldo na plaatsing</span>
+                          <span className="text-[#1F2D58]">{plan.new_balance} credits</span>
+                        </div>
+                      )}
                     </div>
 
+                    {/* Which credit policy rule applies (overdraft or blocked) */}
+                    {plan.policy !== "invoice" && plan.message && (
+                      <p
+                        className={`mt-4 text-sm ${plan.allowed ? "text-[#1F2D58]/70" : "text-[#BC0000]"}`}
+                      >
+                        {plan.message}
+                      </p>
+                    )}
+
                     {/* Bundle promotion */}
-                    {availableCredits <= 50 && (
+                    {(availableCredits <= 50 || !plan.allowed) && (
                       <button
                         type="button"
                         onClick={onBuyCredits}
@@ -214,22 +230,24 @@ export function CostSidebar({
                       </button>
                     )}
 
-                    <div className="flex justify-between pt-4 mt-4 border-t border-[#1F2D58]/10">
-                      <span className="font-bold text-[#1F2D58]">Te betalen</span>
-                      <div className="text-right">
-                        <span className="font-bold text-[#1F2D58]">
-                          {(() => {
-                            if (availableCredits > 0 && shortagePrice > 0) {
-                              return `${availableCredits} credits + €${shortagePrice}`;
-                            } else if (availableCredits > 0) {
-                              return `${availableCredits} credits`;
-                            } else {
-                              return `€${shortagePrice}`;
-                            }
-                          })()}
-                        </span>
+                    {plan.allowed && (
+                      <div className="flex justify-between pt-4 mt-4 border-t border-[#1F2D58]/10">
+                        <span className="font-bold text-[#1F2D58]">Te betalen</span>
+                        <div className="text-right">
+                          <span className="font-bold text-[#1F2D58]">
+                            {(() => {
+                              if (plan.credits_to_deduct > 0 && shortagePrice > 0) {
+                                return `${plan.credits_to_deduct} credits + €${shortagePrice}`;
+                              } else if (plan.credits_to_deduct > 0) {
+                                return `${plan.credits_to_deduct} credits`;
+                              } else {
+                                return `€${shortagePrice}`;
+                              }
+                            })()}
+                          </span>
+                        </div>
                       </div>
-                    </div>
+                    )}
                   </>
                 )}
 
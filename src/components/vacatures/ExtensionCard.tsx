@@ -1,5 +1,6 @@
 "use client";
 
+import * as React from "react";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Calendar } from "@/components/ui/calendar";
 import {
@@ -7,10 +8,11 @@ import {
   PopoverContent,
   PopoverTrigger,
 } from "@/components/ui/popover";
-import { CalendarDays } from "lucide-react";
+import { CalendarDays, Loader2 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { nl } from "react-day-picker/locale";
 import type { ProductRecord } from "@/lib/airtable";
+import type { ExtensionQuote } from "./types";
 
 export interface ExtensionCardProps {
   extensionUpsell: ProductRecord;
@@ -27,8 +29,26 @@ export interface ExtensionCardProps {
   idPrefix?: string;
   /** Display mode for price/credits */
   priceDisplayMode?: "euros" | "credits";
+  /** Published vacancy: the selected date is priced by the extension endpoint */
+  vacancyId?: string;
+  /** Called with the quote for the selected date (null while none is available) */
+  onQuoteChange?: (quote: ExtensionQuote | null) => void;
 }
 
+// Format a price in euros, without decimals for whole amounts
+const formatPrice = (price: number) =>
+  price % 1 === 0
+    ? price.toLocaleString("nl-NL")
+    : price.toLocaleString("nl-NL", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+// YYYY-MM-DD in local time
+const toDateParam = (date: Date) => {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${year}-${month}-${day}`;
+};
+
 export function ExtensionCard({
   extensionUpsell,
   isChecked,
@@ -42,8 +62,56 @@ export function ExtensionCard({
   required = false,
   idPrefix = "ext",
   priceDisplayMode = "credits",
+  vacancyId,
+  onQuoteChange,
 }: ExtensionCardProps) {
   const checkboxId = `${idPrefix}-upsell-${extensionUpsell.id}`;
+  const [quote, setQuote] = React.useState<ExtensionQuote | null>(null);
+  const [quoteError, setQuoteError] = React.useState<string | null>(null);
+  const [isQuoting, setIsQuoting] = React.useState(false);
+
+  // Keep the latest callback without refetching the quote when it changes
+  const onQuoteChangeRef = React.useRef(onQuoteChange);
+  React.useEffect(() => {
+    onQuoteChangeRef.current = onQuoteChange;
+  }, [onQuoteChange]);
+
+  // Price the selected date (published vacancies only)
+  const dateParam = isChecked && selectedDate ? toDateParam(selectedDate) : null;
+  React.useEffect(() => {
+    setQuote(null);
+    setQuoteError(null);
+    onQuoteChangeRef.current?.(null);
+    if (!vacancyId || !dateParam) return;
+
+    let cancelled = false;
+    setIsQuoting(true);
+    fetch(`/api/vacancies/${vacancyId}/extension?closing_date=${dateParam}`)
+      .then(async (response) => {
+        const data = await response.json();
+        if (cancelled) return;
+        if (!response.ok) {
+          setQuoteError(data.error || "Kon de looptijdverlenging niet berekenen");
+          return;
+        }
+        setQuote(data.quote);
+        onQuoteChangeRef.current?.(data.quote);
+      })
+      .catch(() => {
+        if (!cancelled) setQuoteError("Kon de looptijdverlenging niet berekenen");
+      })
+      .finally(() => {
+        if (!cancelled) setIsQuoting(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [vacancyId, dateParam]);
+
+  // The quote is what will be charged; before a date is chosen the product price is shown
+  const credits = quote?.credits ?? extensionUpsell.credits;
+  const price = quote?.price ?? extensionUpsell.price;
 
   // Format a date in Dutch locale
   const formatDate = (date: Date) =>
@@ -81,11 +149,11 @@ export function ExtensionCard({
         <span className="text-sm shrink-0">
           {priceDisplayMode === "euros" ? (
             <>
-              <span className="font-medium text-[#1F2D58]">€{extensionUpsell.price % 1 === 0 ? extensionUpsell.price.toLocaleString("nl-NL") : extensionUpsell.price.toLocaleString("nl-NL", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
-              <span className="text-[#1F2D58]/60"> ({extensionUpsell.credits} credits)</span>
+              <span className="font-medium text-[#1F2D58]">€{formatPrice(price)}</span>
+              <span className="text-[#1F2D58]/60"> ({credits} credits)</span>
             </>
           ) : (
-            <span className="font-medium text-[#1F2D58]">{extensionUpsell.credits} credits</span>
+            <span className="font-medium text-[#1F2D58]">{credits} credits</span>
           )}
         </span>
       </div>
@@ -173,6 +241,25 @@ export function ExtensionCard({
               </button>
             </div>
           )}
+
+          {/* Quote for the selected date */}
+          {isQuoting && (
+            <p className="flex items-center gap-1.5 text-xs text-[#1F2D58]/60">
+              <Loader2 className="h-3 w-3 animate-spin" />
+              Kosten berekenen...
+            </p>
+          )}
+          {quote && (
+            <p className="text-xs text-[#1F2D58]/70">
+              {quote.extra_days} {quote.extra_days === 1 ? "dag" : "dagen"} extra online voor{" "}
+              {priceDisplayMode === "euros"
+                ? `€${formatPrice(quote.price)} (${quote.credits} credits)`
+                : `${quote.credits} credits`}
+            </p>
+          )}
+          {quoteError && (
+            <p className="text-xs text-[#BC0000]">{quoteError}</p>
+          )}
         </div>
       )}
     </label>
@@ -0,0 +1,116 @@
+"use client";
+
+import * as React from "react";
+import { Spinner } from "@/components/ui/spinner";
+import { AlertCircle, AlertTriangle, CheckCircle2 } from "lucide-react";
+import type { JobPosting, JobPostingReport } from "@/lib/job-posting";
+
+export interface JobPostingReportCardProps {
+  vacancyId: string;
+}
+
+export function JobPostingReportCard({ vacancyId }: JobPostingReportCardProps) {
+  const [jobPosting, setJobPosting] = React.useState<JobPosting | null>(null);
+  const [report, setReport] = React.useState<JobPostingReport | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+  const [isLoading, setIsLoading] = React.useState(true);
+
+  React.useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+    fetch(`/api/vacancies/${vacancyId}/job-posting`)
+      .then(async (response) => {
+        const data = await response.json();
+        if (cancelled) return;
+        if (!response.ok) {
+          setError(data.error || "Kon de vacature niet controleren");
+          return;
+        }
+        setJobPosting(data.job_posting);
+        setReport(data.report);
+      })
+      .catch(() => {
+        if (!cancelled) setError("Kon de vacature niet controleren");
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [vacancyId]);
+
+  if (isLoading) {
+    return (
+      <div className="bg-white rounded-t-[0.75rem] rounded-b-[2rem] p-6">
+        <Spinner className="w-6 h-6 text-[#1F2D58]" />
+      </div>
+    );
+  }
+
+  if (error || !report || !jobPosting) {
+    return (
+      <div className="bg-white rounded-t-[0.75rem] rounded-b-[2rem] p-6">
+        <h3 className="text-lg font-bold text-[#1F2D58] mb-1">Google for Jobs</h3>
+        <p className="text-sm text-red-500">{error || "Kon de vacature niet controleren"}</p>
+      </div>
+    );
+  }
+
+  const isComplete = report.valid && report.missingRecommended.length === 0;
+
+  return (
+    <div className="bg-white rounded-t-[0.75rem] rounded-b-[2rem] p-6">
+      <h3 className="text-lg font-bold text-[#1F2D58] mb-1">Google for Jobs</h3>
+      <p className="text-sm text-[#1F2D58]/70 mb-4">
+        Met deze gegevens tonen we je vacature in de vacaturezoekfunctie van Google.
+      </p>
+
+      {isComplete && (
+        <div className="flex items-center gap-2 text-sm text-[#41712F]">
+          <CheckCircle2 className="h-4 w-4 flex-shrink-0" />
+          <span>Je vacature bevat alle gegevens die Google aanbeveelt.</span>
+        </div>
+      )}
+
+      {/* Required: without these Google doesn't show the vacancy */}
+      {report.missingRequired.length > 0 && (
+        <div className="mb-4">
+          <p className="text-sm font-bold text-[#1F2D58] mb-2">Verplicht voor Google</p>
+          <ul className="space-y-1.5">
+            {report.missingRequired.map((issue) => (
+              <li key={issue.property} className="flex items-start gap-2 text-sm text-red-500">
+                <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                <span>{issue.message}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Recommended: improve how the vacancy is shown */}
+      {report.missingRecommended.length > 0 && (
+        <div className="mb-4">
+          <p className="text-sm font-bold text-[#1F2D58] mb-2">Aanbevolen</p>
+          <ul className="space-y-1.5">
+            {report.missingRecommended.map((issue) => (
+              <li key={issue.property} className="flex items-start gap-2 text-sm text-[#1F2D58]">
+                <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0 text-[#F86600]" />
+                <span>{issue.message}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <details className="mt-4 text-sm text-[#1F2D58]">
+        <summary className="cursor-pointer text-[#1F2D58]/70 hover:text-[#1F2D58]">Gestructureerde data bekijken</summary>
+        <pre className="mt-2 max-h-80 overflow-auto rounded-lg bg-[#E8EEF2]/50 p-4 text-xs whitespace-pre-wrap break-all">
+          {JSON.stringify(jobPosting, null, 2)}
+        </pre>
+      </details>
+    </div>
+  );
+}
@@ -0,0 +1,130 @@
+"use client";
+
+import * as React from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import {
+  PUBLISH_FROM_EDITABLE_STATUSES,
+  validatePublicationSchedule,
+  validateScheduledPublishFrom,
+  type PublicationSchedule,
+} from "@/lib/vacancy-schedule";
+import type { VacancyStatus } from "@/lib/vacancy-status";
+import { PublicationScheduleFields } from "./PublicationScheduleFields";
+
+interface PublicationScheduleDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  vacancy: {
+    id: string;
+    title: string;
+    status: VacancyStatus;
+    publish_from?: string | null;
+    depublish_at?: string | null;
+  };
+  /** Called with the saved dates */
+  onSuccess?: (schedule: PublicationSchedule) => void;
+}
+
+/**
+ * Change the publish and depublish dates of a submitted vacancy
+ * (the publish date only while the vacancy is not online yet)
+ */
+export function PublicationScheduleDialog({
+  open,
+  onOpenChange,
+  vacancy,
+  onSuccess,
+}: PublicationScheduleDialogProps) {
+  const [schedule, setSchedule] = React.useState<PublicationSchedule>({});
+  const [isSaving, setIsSaving] = React.useState(false);
+  const canEditPublishFrom = PUBLISH_FROM_EDITABLE_STATUSES.includes(vacancy.status);
+
+  // Reset to the current dates when the dialog opens
+  React.useEffect(() => {
+    if (open) {
+      setSchedule({
+        publish_from: vacancy.publish_from ?? null,
+        depublish_at: vacancy.depublish_at ?? null,
+      });
+    }
+  }, [open, vacancy.publish_from, vacancy.depublish_at]);
+
+  const validationError =
+    validatePublicationSchedule(schedule) ??
+    (canEditPublishFrom && (schedule.publish_from ?? null) !== (vacancy.publish_from ?? null)
+      ? validateScheduledPublishFrom(vacancy.status, schedule.publish_from)
+      : null);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const update: PublicationSchedule = canEditPublishFrom
+        ? { publish_from: schedule.publish_from ?? null, depublish_at: schedule.depublish_at ?? null }
+        : { depublish_at: schedule.depublish_at ?? null };
+      const response = await fetch(`/api/vacancies/${vacancy.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(update),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        toast.error("Planning opslaan mislukt", { description: data.error || "Er ging iets mis" });
+        return;
+      }
+
+      toast.success("Planning opgeslagen", {
+        description: "De vacature wordt automatisch op de gekozen data gepubliceerd of offline gehaald.",
+      });
+      onOpenChange(false);
+      onSuccess?.(update);
+    } catch {
+      toast.error("Planning opslaan mislukt", { description: "Er ging iets mis bij het opslaan" });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-[480px] rounded-t-[0.75rem] rounded-b-[2rem] bg-[#E8EEF2]">
+        <DialogHeader>
+          <DialogTitle className="text-[#1F2D58]">Publicatie plannen</DialogTitle>
+          <DialogDescription className="text-[#1F2D58]/70">
+            {vacancy.title}
+          </DialogDescription>
+        </DialogHeader>
+
+        <PublicationScheduleFields
+          value={schedule}
+          onChange={setSchedule}
+          showPublishFrom={canEditPublishFrom}
+          idPrefix="schedule-dialog"
+        />
+
+        {validationError && (
+          <p className="text-sm text-[#BC0000]">{validationError}</p>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <Button variant="tertiary" onClick={() => onOpenChange(false)} showArrow={false}>
+            Annuleren
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving || !!validationError} showArrow={false}>
+            {isSaving && <Loader2 className="h-4 w-4 animate-spin" />}
+            Opslaan
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
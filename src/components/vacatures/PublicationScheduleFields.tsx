@@ -0,0 +1,134 @@
+"use client";
+
+import * as React from "react";
+import { Calendar } from "@/components/ui/calendar";
+import { Label } from "@/components/ui/label";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { CalendarDays } from "lucide-react";
+import { nl } from "react-day-picker/locale";
+import { toScheduleTimestamp, type PublicationSchedule } from "@/lib/vacancy-schedule";
+
+export interface PublicationScheduleFieldsProps {
+  value: PublicationSchedule;
+  onChange: (value: PublicationSchedule) => void;
+  /** Hide the publish date (vacancy already online) */
+  showPublishFrom?: boolean;
+  /** Prefix for the field ids to avoid conflicts between wizard and dialog */
+  idPrefix?: string;
+}
+
+interface ScheduleDateFieldProps {
+  id: string;
+  label: string;
+  placeholder: string;
+  value: string | null | undefined;
+  onChange: (value: string | null) => void;
+  minDate: Date;
+}
+
+// Format a date in Dutch locale
+const formatDate = (date: Date) =>
+  date.toLocaleDateString("nl-NL", {
+    day: "numeric",
+    month: "long",
+    year: "numeric",
+  });
+
+function ScheduleDateField({ id, label, placeholder, value, onChange, minDate }: ScheduleDateFieldProps) {
+  const [open, setOpen] = React.useState(false);
+  const selectedDate = value ? new Date(value) : undefined;
+
+  return (
+    <div className="space-y-1.5">
+      <Label htmlFor={id} className="!mb-0">{label}</Label>
+      <div className="flex items-center gap-3">
+        <Popover open={open} onOpenChange={setOpen}>
+          <PopoverTrigger asChild>
+            <button
+              id={id}
+              type="button"
+              className="flex h-10 w-[265px] items-center justify-between rounded-lg border border-[rgba(31,45,88,0.2)] bg-white px-3 py-2 text-sm ring-offset-background focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2"
+            >
+              <span className={selectedDate ? "text-[#1F2D58]" : "text-[#1F2D58]/40"}>
+                {selectedDate ? formatDate(selectedDate) : placeholder}
+              </span>
+              <CalendarDays className="h-4 w-4 opacity-50" />
+            </button>
+          </PopoverTrigger>
+          <PopoverContent className="w-[265px] p-0 bg-white" align="start">
+            <Calendar
+              mode="single"
+              selected={selectedDate}
+              defaultMonth={selectedDate ?? minDate}
+              onSelect={(date) => {
+                onChange(date ? toScheduleTimestamp(date) : null);
+                setOpen(false);
+              }}
+              disabled={{ before: minDate }}
+              locale={nl}
+              className="w-full"
+            />
+          </PopoverContent>
+        </Popover>
+        {selectedDate && (
+          <button
+            type="button"
+            onClick={() => onChange(null)}
+            className="text-xs text-[#1F2D58]/50 hover:text-[#1F2D58] underline"
+          >
+            Wissen
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Date pickers for scheduled publication (publish_from / depublish_at)
+ * Used in the wizard submit step and the dashboard schedule dialog
+ */
+export function PublicationScheduleFields({
+  value,
+  onChange,
+  showPublishFrom = true,
+  idPrefix = "schedule",
+}: PublicationScheduleFieldsProps) {
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  const tomorrow = new Date(today);
+  tomorrow.setDate(tomorrow.getDate() + 1);
+
+  // Depublishing happens at the start of the chosen day, so it must be after the publish day
+  const publishFrom = value.publish_from ? new Date(value.publish_from) : null;
+  const minDepublishDate = publishFrom && publishFrom >= tomorrow
+    ? new Date(publishFrom.getTime() + 24 * 60 * 60 * 1000)
+    : tomorrow;
+
+  return (
+    <div className="space-y-4">
+      {showPublishFrom && (
+        <ScheduleDateField
+          id={`${idPrefix}-publish-from`}
+          label="Online vanaf"
+          placeholder="Direct na goedkeuring"
+          value={value.publish_from}
+          onChange={(publish_from) => onChange({ ...value, publish_from })}
+          minDate={today}
+        />
+      )}
+      <ScheduleDateField
+        id={`${idPrefix}-depublish-at`}
+        label="Offline halen op"
+        placeholder="Niet automatisch offline"
+        value={value.depublish_at}
+        onChange={(depublish_at) => onChange({ ...value, depublish_at })}
+        minDate={minDepublishDate}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+"use client";
+
+import * as React from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+
+interface SaveTemplateDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  vacancy: {
+    id: string;
+    title: string;
+  };
+}
+
+/**
+ * Save the content of a vacancy as a template for new vacancies of the same employer
+ */
+export function SaveTemplateDialog({
+  open,
+  onOpenChange,
+  vacancy,
+}: SaveTemplateDialogProps) {
+  const [name, setName] = React.useState("");
+  const [isSaving, setIsSaving] = React.useState(false);
+
+  // Suggest the vacancy title when the dialog opens
+  React.useEffect(() => {
+    if (open) {
+      setName(vacancy.title);
+    }
+  }, [open, vacancy.title]);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const response = await fetch("/api/vacancy-templates", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ vacancy_id: vacancy.id, name: name.trim() }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        toast.error("Sjabloon opslaan mislukt", { description: data.error || "Er ging iets mis" });
+        return;
+      }
+
+      toast.success("Sjabloon opgeslagen", {
+        description: "Je kunt het sjabloon kiezen bij het aanmaken van een nieuwe vacature.",
+      });
+      onOpenChange(false);
+    } catch {
+      toast.error("Sjabloon opslaan mislukt", { description: "Er ging iets mis bij het opslaan" });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-[480px] rounded-t-[0.75rem] rounded-b-[2rem] bg-[#E8EEF2]">
+        <DialogHeader>
+          <DialogTitle className="text-[#1F2D58]">Opslaan als sjabloon</DialogTitle>
+          <DialogDescription className="text-[#1F2D58]/70">
+            De teksten, kenmerken, contactpersoon en afbeeldingen van deze vacature worden bewaard als sjabloon.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="template_name" className="text-[#1F2D58]">
+            Naam sjabloon
+          </Label>
+          <Input
+            id="template_name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            maxLength={100}
+            placeholder="Bijv. Verpleegkundige nachtdienst"
+          />
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <Button variant="tertiary" onClick={() => onOpenChange(false)} showArrow={false}>
+            Annuleren
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving || !name.trim()} showArrow={false}>
+            {isSaving && <Loader2 className="h-4 w-4 animate-spin" />}
+            Opslaan
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
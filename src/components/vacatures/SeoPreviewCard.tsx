@@ -0,0 +1,182 @@
+"use client";
+
+import * as React from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Spinner } from "@/components/ui/spinner";
+import { Pencil, RotateCcw } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { VacancySeo } from "./types";
+
+export interface SeoPreviewCardProps {
+  vacancyId: string;
+  /** Only show the preview, without editing */
+  isReadOnly?: boolean;
+}
+
+// Character counter, red outside the bounds
+function LengthCounter({ length, bounds }: { length: number; bounds: { min: number; max: number } }) {
+  const inBounds = length >= bounds.min && length <= bounds.max;
+  return (
+    <span className={cn("text-xs", inBounds ? "text-[#1F2D58]/60" : "text-red-500")}>
+      {length} / {bounds.min}-{bounds.max} tekens
+    </span>
+  );
+}
+
+export function SeoPreviewCard({ vacancyId, isReadOnly = false }: SeoPreviewCardProps) {
+  const [seo, setSeo] = React.useState<VacancySeo | null>(null);
+  const [isLoading, setIsLoading] = React.useState(true);
+  const [isEditing, setIsEditing] = React.useState(false);
+  const [isSaving, setIsSaving] = React.useState(false);
+  const [title, setTitle] = React.useState("");
+  const [description, setDescription] = React.useState("");
+
+  React.useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    fetch(`/api/vacancies/${vacancyId}/seo`)
+      .then(async (response) => {
+        const data = await response.json();
+        if (cancelled) return;
+        if (!response.ok) {
+          toast.error(data.error || "Kon de SEO-teksten niet ophalen");
+          return;
+        }
+        setSeo(data.seo);
+      })
+      .catch(() => {
+        if (!cancelled) toast.error("Kon de SEO-teksten niet ophalen");
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [vacancyId]);
+
+  const startEditing = () => {
+    if (!seo) return;
+    setTitle(seo.seo_title);
+    setDescription(seo.seo_meta_description);
+    setIsEditing(true);
+  };
+
+  // Save the overridden texts (PUT) or go back to generated ones (DELETE)
+  const submit = async (method: "PUT" | "DELETE") => {
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/vacancies/${vacancyId}/seo`, {
+        method,
+        ...(method === "PUT" && {
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ seo_title: title, seo_meta_description: description }),
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        toast.error(data.error || "Kon de SEO-teksten niet opslaan");
+        return;
+      }
+      setSeo(data.seo);
+      setIsEditing(false);
+      toast.success(method === "PUT" ? "SEO-teksten opgeslagen" : "Standaard SEO-teksten hersteld");
+    } catch {
+      toast.error("Kon de SEO-teksten niet opslaan");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="bg-white rounded-t-[0.75rem] rounded-b-[2rem] p-6">
+        <Spinner className="w-6 h-6 text-[#1F2D58]" />
+      </div>
+    );
+  }
+  if (!seo) return null;
+
+  const previewTitle = isEditing ? title : seo.seo_title;
+  const previewDescription = isEditing ? description : seo.seo_meta_description;
+
+  return (
+    <div className="bg-white rounded-t-[0.75rem] rounded-b-[2rem] p-6">
+      <div className="flex items-start justify-between gap-4 mb-1">
+        <h3 className="text-lg font-bold text-[#1F2D58]">Vindbaarheid in Google</h3>
+        {!isReadOnly && !isEditing && (
+          <Button variant="tertiary" size="sm" onClick={startEditing} showArrow={false}>
+            <Pencil className="h-4 w-4" />
+            Aanpassen
+          </Button>
+        )}
+      </div>
+      <p className="text-sm text-[#1F2D58]/70 mb-4">
+        {seo.custom
+          ? "Je hebt deze teksten zelf aangepast. Ze blijven staan als je de vacature wijzigt."
+          : "Deze teksten maken we automatisch op basis van je vacature."}
+      </p>
+
+      {/* Search result snippet */}
+      <div className="rounded-lg border border-[#1F2D58]/10 p-4 mb-4">
+        <p className="text-xs text-[#1F2D58]/60 truncate">{seo.url}</p>
+        <p className="text-lg text-[#1a0dab] leading-snug mt-1 line-clamp-1">{previewTitle}</p>
+        <p className="text-sm text-[#4d5156] mt-1 line-clamp-2">{previewDescription}</p>
+      </div>
+
+      {isEditing ? (
+        <div className="space-y-4">
+          <div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="seo_title" className="!mb-0">SEO-titel</Label>
+              <LengthCounter length={title.trim().length} bounds={seo.bounds.seo_title} />
+            </div>
+            <Input
+              id="seo_title"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              className="mt-1.5"
+            />
+          </div>
+          <div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="seo_meta_description" className="!mb-0">Metabeschrijving</Label>
+              <LengthCounter length={description.trim().length} bounds={seo.bounds.seo_meta_description} />
+            </div>
+            <Textarea
+              id="seo_meta_description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              className="mt-1.5"
+            />
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <Button onClick={() => submit("PUT")} disabled={isSaving} showArrow={false}>
+              {isSaving && <Spinner className="h-4 w-4" />}
+              Opslaan
+            </Button>
+            <Button variant="secondary" onClick={() => setIsEditing(false)} disabled={isSaving} showArrow={false}>
+              Annuleren
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex flex-wrap items-center gap-4 text-xs text-[#1F2D58]/60">
+          <LengthCounter length={seo.seo_title.length} bounds={seo.bounds.seo_title} />
+          <LengthCounter length={seo.seo_meta_description.length} bounds={seo.bounds.seo_meta_description} />
+          {seo.custom && !isReadOnly && (
+            <Button variant="tertiary" size="sm" onClick={() => submit("DELETE")} disabled={isSaving} showArrow={false}>
+              <RotateCcw className="h-4 w-4" />
+              Standaard herstellen
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
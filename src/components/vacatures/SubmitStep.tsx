@@ -11,7 +11,9 @@ import { Spinner } from "@/components/ui/spinner";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Button } from "@/components/ui/button";
 import { toast } from "sonner";
+import { planCreditSpend } from "@/lib/credits";
 import { ExtensionCard } from "./ExtensionCard";
+import { PublicationScheduleFields } from "./PublicationScheduleFields";
 import type { SubmitStepProps, InvoiceDetails } from "./types";
 
 export function SubmitStep({
@@ -33,6 +35,10 @@ export function SubmitStep({
   isSocialPostUpsell,
   onOpenColleaguesModal,
   priceDisplayMode = "credits",
+  creditPolicy,
+  publicationSchedule,
+  onPublicationScheduleChange,
+  publicationScheduleError,
 }: SubmitStepProps) {
   // Get features from the selected package
   const features = selectedPackage.populatedFeatures || [];
@@ -40,11 +46,14 @@ export function SubmitStep({
   // Extension datepicker local state
   const [datePickerOpen, setDatePickerOpen] = React.useState(false);
 
-  // Calculate if user has enough credits
+  // Calculate how the credits are paid under the employer's credit policy
+  // Invoice details are only needed when (part of) the shortage is invoiced
   const packageCredits = selectedPackage.credits || 0;
   const upsellCredits = selectedUpsells.reduce((sum, u) => sum + u.credits, 0);
   const totalCredits = packageCredits + upsellCredits;
-  const hasEnoughCredits = availableCredits >= totalCredits;
+  const totalPrice = (selectedPackage.price || 0) + selectedUpsells.reduce((sum, u) => sum + u.price, 0);
+  const plan = planCreditSpend(totalCredits, totalPrice, availableCredits, creditPolicy);
+  const needsInvoice = plan.credits_to_invoice > 0;
 
   // Check if "Vandaag online" upsell is selected
   const hasVandaagOnline = selectedUpsells.some(
@@ -82,7 +91,7 @@ export function SubmitStep({
   // Auto-fetch account details on mount when invoice is needed
   const hasFetchedRef = React.useRef(false);
   React.useEffect(() => {
-    if (hasEnoughCredits || hasFetchedRef.current) return;
+    if (!needsInvoice || hasFetchedRef.current) return;
     hasFetchedRef.current = true;
 
     const fetchAccountDetails = async () => {
@@ -129,7 +138,7 @@ export function SubmitStep({
 
     fetchAccountDetails();
   // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [hasEnoughCredits]);
+  }, [needsInvoice]);
 
   return (
     <div className="space-y-4">
@@ -153,7 +162,7 @@ export function SubmitStep({
                 {inputType === "we_do_it_for_you" 
                   ? "Na plaatsing stelt ons team je vacature op. Je ontvangt een notificatie zodra je vacature gereed is of als er aanpassingen nodig zijn."
                   : "Na plaatsing wordt je vacature beoordeeld door ons team. Je ontvangt een notificatie zodra je vacature is goedgekeurd of als er aanpassingen nodig zijn."
-                }{!hasEnoughCredits && " Je ontvangt de factuur automatisch per e-mail."}
+                }{needsInvoice && " Je ontvangt de factuur automatisch per e-mail."}
               </p>
             </div>
           </div>
@@ -186,6 +195,30 @@ export function SubmitStep({
         </Alert>
       )}
 
+      {/* Credit policy message - overdraft used or shortage blocked */}
+      {plan.policy !== "invoice" && plan.message && (
+        <Alert className={`${plan.allowed ? "bg-[#193DAB]/[0.12]" : "bg-[#F86600]/10"} border-none p-6`}>
+          <AlertDescription className="text-[#1F2D58]">
+            <div className="flex items-start gap-3">
+              <div className="flex-shrink-0 w-10 h-10 rounded-full bg-white flex items-center justify-center">
+                <AlertCircle className={`w-5 h-5 ${plan.allowed ? "text-[#1F2D58]" : "text-[#F86600]"}`} />
+              </div>
+              <div className="flex-1">
+                <strong className="block mb-1">
+                  {plan.allowed ? "Je saldo komt onder nul" : "Onvoldoende credits"}
+                </strong>
+                <p className="text-sm mb-3">{plan.message}</p>
+                {!plan.allowed && (
+                  <Button onClick={onBuyCredits}>
+                    Credits kopen
+                  </Button>
+                )}
+              </div>
+            </div>
+          </AlertDescription>
+        </Alert>
+      )}
+
       {/* Package summary */}
       <div className="bg-white p-6 rounded-[0.75rem]">
         <div>
@@ -344,14 +377,30 @@ export function SubmitStep({
         );
       })()}
 
-      {/* Invoice details section - only show when not enough credits */}
-      {!hasEnoughCredits && (
+      {/* Scheduled publication (optional) */}
+      {publicationSchedule && onPublicationScheduleChange && (
+        <div className="bg-white rounded-t-[0.75rem] rounded-b-[2rem] p-6">
+          <h3 className="text-lg font-bold text-[#1F2D58] mb-1">Publicatie plannen</h3>
+          <p className="text-sm text-[#1F2D58]/70 mb-4">
+            Optioneel: kies vanaf wanneer de vacature online komt en wanneer deze automatisch offline gaat. Je kunt dit later aanpassen via je dashboard.
+          </p>
+          <PublicationScheduleFields
+            value={publicationSchedule}
+            onChange={onPublicationScheduleChange}
+            idPrefix="submit-schedule"
+          />
+          {publicationScheduleError && (
+            <p className="text-sm text-[#BC0000] mt-3">{publicationScheduleError}</p>
+          )}
+        </div>
+      )}
+
+      {/* Invoice details section - only show when the shortage is invoiced */}
+      {needsInvoice && (
       <div className="bg-white rounded-t-[0.75rem] rounded-b-[2rem] p-6">
         <h3 className="text-lg font-bold text-[#1F2D58] mb-1">Factuurgegevens</h3>
         <p className="text-sm text-[#1F2D58]/70 mb-4">
-          {availableCredits > 0
-            ? "Je credits worden automatisch verrekend. Voor het overige bedrag ontvang je een factuur."
-            : "Je ontvangt een factuur via de e-mail."}
+          {plan.message}
         </p>
 
         {/* Loading state */}
@@ -0,0 +1,106 @@
+"use client";
+
+import * as React from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import type { VacancyTemplateSummary } from "./types";
+
+// Select value for "no template" (Radix Select does not allow an empty value)
+const NO_TEMPLATE = "none";
+
+interface TemplatePickerProps {
+  templates: VacancyTemplateSummary[];
+  selectedTemplateId: string | null;
+  onSelectTemplate: (templateId: string | null) => void;
+  onTemplateDeleted: (templateId: string) => void;
+}
+
+/**
+ * Step 1: optionally start a new vacancy from one of the employer's templates
+ */
+export function TemplatePicker({
+  templates,
+  selectedTemplateId,
+  onSelectTemplate,
+  onTemplateDeleted,
+}: TemplatePickerProps) {
+  const [isDeleting, setIsDeleting] = React.useState(false);
+
+  const handleDelete = async () => {
+    if (!selectedTemplateId) return;
+    const template = templates.find((t) => t.id === selectedTemplateId);
+    if (!window.confirm(`Weet je zeker dat je het sjabloon "${template?.name}" wilt verwijderen?`)) return;
+
+    setIsDeleting(true);
+    try {
+      const response = await fetch(`/api/vacancy-templates/${selectedTemplateId}`, {
+        method: "DELETE",
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        toast.error("Verwijderen mislukt", { description: data.error || "Er ging iets mis" });
+        return;
+      }
+
+      toast.success("Sjabloon verwijderd");
+      onTemplateDeleted(selectedTemplateId);
+    } catch {
+      toast.error("Verwijderen mislukt", { description: "Er ging iets mis bij het verwijderen" });
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  if (templates.length === 0) return null;
+
+  return (
+    <div className="bg-white/50 rounded-[0.75rem] pt-4 px-6 pb-6 mt-6">
+      <Label htmlFor="vacancy_template" className="text-[#1F2D58] font-bold">
+        Start vanuit een sjabloon
+      </Label>
+      <p className="text-[#1F2D58]/70 text-sm mb-3">
+        Teksten, kenmerken, contactpersoon en afbeeldingen worden overgenomen in je nieuwe vacature
+      </p>
+      <div className="flex items-center gap-2 max-w-md">
+        <Select
+          value={selectedTemplateId || NO_TEMPLATE}
+          onValueChange={(value) => onSelectTemplate(value === NO_TEMPLATE ? null : value)}
+        >
+          <SelectTrigger id="vacancy_template">
+            <SelectValue placeholder="Geen sjabloon" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_TEMPLATE}>Geen sjabloon</SelectItem>
+            {templates.map((template) => (
+              <SelectItem key={template.id} value={template.id}>
+                {template.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {selectedTemplateId && (
+          <Button
+            variant="tertiary"
+            size="icon"
+            onClick={handleDelete}
+            disabled={isDeleting}
+            showArrow={false}
+            aria-label="Sjabloon verwijderen"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
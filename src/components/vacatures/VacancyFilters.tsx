@@ -0,0 +1,254 @@
+"use client";
+
+import * as React from "react";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Input } from "@/components/ui/input";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { CalendarDays, Search, X } from "lucide-react";
+import { nl } from "react-day-picker/locale";
+import { format } from "date-fns";
+import type { LookupRecord } from "@/lib/airtable";
+import { VACANCY_LOOKUP_FILTERS, type VacancyLookupFilter } from "@/lib/vacancy-query";
+
+/** Query parameters of GET /api/vacancies that are kept in the page URL */
+export const VACANCY_FILTER_PARAMS = [
+  "q",
+  ...VACANCY_LOOKUP_FILTERS,
+  "date_field",
+  "date_from",
+  "date_to",
+  "sort",
+  "order",
+] as const;
+export type VacancyFilterParam = (typeof VACANCY_FILTER_PARAMS)[number];
+
+/** Empty string or missing = not set */
+export type VacancyFilterValues = Partial<Record<VacancyFilterParam, string>>;
+
+/** Whether the values narrow down the results (sorting doesn't count) */
+export function hasActiveVacancyFilters(value: VacancyFilterValues): boolean {
+  return VACANCY_FILTER_PARAMS.some(
+    (param) => param !== "sort" && param !== "order" && param !== "date_field" && !!value[param]
+  );
+}
+
+interface VacancyFiltersProps {
+  value: VacancyFilterValues;
+  /** Called with the changed params only */
+  onChange: (updates: VacancyFilterValues) => void;
+}
+
+interface Lookups {
+  educationLevels: LookupRecord[];
+  fields: LookupRecord[];
+  functionTypes: LookupRecord[];
+  regions: LookupRecord[];
+  sectors: LookupRecord[];
+}
+
+const lookupFilterConfig: Record<VacancyLookupFilter, { label: string; allLabel: string; lookup: keyof Lookups }> = {
+  sector_id: { label: "Sector", allLabel: "Alle sectoren", lookup: "sectors" },
+  region_id: { label: "Regio", allLabel: "Alle regio's", lookup: "regions" },
+  field_id: { label: "Vakgebied", allLabel: "Alle vakgebieden", lookup: "fields" },
+  function_type_id: { label: "Functietype", allLabel: "Alle functietypes", lookup: "functionTypes" },
+  education_level_id: { label: "Opleidingsniveau", allLabel: "Alle opleidingsniveaus", lookup: "educationLevels" },
+};
+
+const sortOptions = [
+  { value: "created-at:desc", label: "Nieuwste eerst" },
+  { value: "created-at:asc", label: "Oudste eerst" },
+  { value: "closing_date:asc", label: "Sluitingsdatum" },
+  { value: "title:asc", label: "Titel (A-Z)" },
+];
+
+// Select items can't have an empty value
+const ALL = "all";
+
+// Format a date in Dutch locale
+const formatDate = (date: Date) =>
+  date.toLocaleDateString("nl-NL", {
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+  });
+
+function DateFilterField({
+  placeholder,
+  value,
+  onChange,
+}: {
+  placeholder: string;
+  value: string | undefined;
+  onChange: (value: string) => void;
+}) {
+  const [open, setOpen] = React.useState(false);
+  const selectedDate = value ? new Date(value) : undefined;
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          className="flex h-9 w-[150px] items-center justify-between rounded-lg border border-[rgba(31,45,88,0.2)] bg-white px-3 py-2 text-sm ring-offset-background focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2"
+        >
+          <span className={selectedDate ? "text-[#1F2D58]" : "text-[#1F2D58]/40"}>
+            {selectedDate ? formatDate(selectedDate) : placeholder}
+          </span>
+          <CalendarDays className="h-4 w-4 opacity-50" />
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[265px] p-0 bg-white" align="start">
+        <Calendar
+          mode="single"
+          selected={selectedDate}
+          defaultMonth={selectedDate}
+          onSelect={(date) => {
+            onChange(date ? format(date, "yyyy-MM-dd") : "");
+            setOpen(false);
+          }}
+          locale={nl}
+          className="w-full"
+        />
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+/**
+ * Search, filter and sort controls for the vacancies overview
+ * The search field is debounced; every other control applies immediately
+ */
+export function VacancyFilters({ value, onChange }: VacancyFiltersProps) {
+  const [lookups, setLookups] = React.useState<Lookups | null>(null);
+  const [search, setSearch] = React.useState(value.q || "");
+
+  React.useEffect(() => {
+    fetch("/api/lookups?type=all")
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => data && setLookups(data))
+      .catch((error) => console.error("Error fetching lookups:", error));
+  }, []);
+
+  // Follow the URL (e.g. back button or "Filters wissen")
+  React.useEffect(() => {
+    setSearch(value.q || "");
+  }, [value.q]);
+
+  React.useEffect(() => {
+    if (search.trim() === (value.q || "")) return;
+    const timeout = setTimeout(() => onChange({ q: search.trim() }), 300);
+    return () => clearTimeout(timeout);
+  }, [search, value.q, onChange]);
+
+  const hasActiveFilters = hasActiveVacancyFilters(value);
+
+  const clearFilters = () => {
+    setSearch("");
+    onChange(Object.fromEntries(VACANCY_FILTER_PARAMS.map((param) => [param, ""])));
+  };
+
+  return (
+    <div className="bg-white/50 rounded-[0.75rem] px-4 py-3 space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="relative flex-1 min-w-[220px]">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-[#1F2D58]/40" />
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Zoek op titel of locatie"
+            aria-label="Zoek op titel of locatie"
+            maxLength={200}
+            className="h-9 pl-9 bg-white"
+          />
+        </div>
+        <Select
+          value={`${value.sort || "created-at"}:${value.order || (value.sort && value.sort !== "created-at" ? "asc" : "desc")}`}
+          onValueChange={(option) => {
+            const [sort, order] = option.split(":");
+            onChange({ sort, order });
+          }}
+        >
+          <SelectTrigger className="h-9 w-[180px] bg-white" aria-label="Sorteren">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {sortOptions.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        {VACANCY_LOOKUP_FILTERS.map((filter) => {
+          const config = lookupFilterConfig[filter];
+          return (
+            <Select
+              key={filter}
+              value={value[filter] || ALL}
+              onValueChange={(id) => onChange({ [filter]: id === ALL ? "" : id })}
+            >
+              <SelectTrigger className="h-9 w-[170px] bg-white" aria-label={config.label}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>{config.allLabel}</SelectItem>
+                {(lookups?.[config.lookup] || []).map((item) => (
+                  <SelectItem key={item.id} value={item.id}>
+                    {item.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          );
+        })}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Select
+          value={value.date_field || "created-at"}
+          onValueChange={(date_field) => onChange({ date_field })}
+        >
+          <SelectTrigger className="h-9 w-[170px] bg-white" aria-label="Datumveld">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="created-at">Aangemaakt</SelectItem>
+            <SelectItem value="closing_date">Sluitingsdatum</SelectItem>
+          </SelectContent>
+        </Select>
+        <DateFilterField
+          placeholder="Vanaf"
+          value={value.date_from}
+          onChange={(date_from) => onChange({ date_from })}
+        />
+        <span className="text-sm text-[#1F2D58]/60">t/m</span>
+        <DateFilterField
+          placeholder="Tot en met"
+          value={value.date_to}
+          onChange={(date_to) => onChange({ date_to })}
+        />
+        {hasActiveFilters && (
+          <Button variant="tertiary" size="sm" onClick={clearFilters} showArrow={false} className="ml-auto">
+            <X className="h-4 w-4" />
+            Filters wissen
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -4,6 +4,7 @@ import { useState, useCallback, useEffect, useRef } from "react";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
 import {
   Select,
   SelectContent,
@@ -14,7 +15,7 @@ import {
 import { Button } from "@/components/ui/button";
 import { RichTextEditor } from "@/components/ui/rich-text-editor";
 import { MediaPickerDialog } from "@/components/MediaPickerDialog";
-import { Plus, Trash2, Image as ImageIcon, Pencil, ArrowUpFromLine, RefreshCw, User, UserPlus, CalendarDays } from "lucide-react";
+import { Plus, Trash2, Image as ImageIcon, Pencil, ArrowUpFromLine, RefreshCw, User, UserPlus, CalendarDays, MessageSquareWarning, Check } from "lucide-react";
 import { Separator } from "@/components/ui/separator";
 import { Calendar } from "@/components/ui/calendar";
 import {
@@ -29,6 +30,8 @@ import { InfoTooltip } from "@/components/ui/tooltip";
 import { Badge } from "@/components/ui/badge";
 import { uploadMedia, validateFile } from "@/lib/cloudinary-upload";
 import { formatSalaryInput } from "@/lib/utils";
+import type { ReviewCommentWithStatus } from "@/lib/vacancy-review-fields";
+import { isSubmittedVacancyStatus } from "@/lib/vacancy-status";
 import type { VacancyFormProps } from "./types";
 
 interface MediaAsset {
@@ -48,6 +51,7 @@ export function VacancyForm({
   onLogoChange,
   employerSectorId,
   maxClosingDate,
+  reviewComments = {},
 }: VacancyFormProps) {
   const [showHeaderDialog, setShowHeaderDialog] = useState(false);
   const [showGalleryDialog, setShowGalleryDialog] = useState(false);
@@ -244,6 +248,7 @@ export function VacancyForm({
             {validationErrors.description && (
               <p className="text-sm text-red-500 mt-1">{validationErrors.description}</p>
             )}
+            <FieldReviewComments comments={reviewComments.description} />
           </div>
         </FormSection>
 
@@ -282,6 +287,7 @@ export function VacancyForm({
                   {validationErrors.header_image && (
                     <p className="text-sm text-red-500 mt-1">{validationErrors.header_image}</p>
                   )}
+                  <FieldReviewComments comments={reviewComments.header_image} />
                 </div>
               </div>
 
@@ -367,6 +373,15 @@ export function VacancyForm({
             onApplicationEmailChange={(value) => updateField("application_email", value)}
             validationErrors={validationErrors}
           />
+          <FieldReviewComments comments={reviewComments.application} />
+        </FormSection>
+
+        {/* Section: Vacaturesites */}
+        <FormSection title="Vacaturesites" description="We delen gepubliceerde vacatures met vacaturezoekmachines zoals Indeed en Jooble, zodat meer kandidaten ze vinden.">
+          <SyndicationField
+            checked={!vacancy.syndication_opt_out}
+            onCheckedChange={(checked) => updateField("syndication_opt_out", !checked)}
+          />
         </FormSection>
 
         {/* Section: Opmerkingen */}
@@ -417,7 +432,7 @@ export function VacancyForm({
           <div>
             <div className="flex items-center gap-2">
               <Label htmlFor="title" className="!mb-0">Vacaturetitel <span className="text-slate-400 text-sm">*</span></Label>
-              {["wacht_op_goedkeuring", "gepubliceerd", "verlopen", "gedepubliceerd"].includes(vacancy.status || "") && (
+              {isSubmittedVacancyStatus(vacancy.status || "") && (
                 <InfoTooltip content={
                   <span>
                     Vacaturetitel kan niet aangepast worden. Mocht dit toch nodig zijn,{" "}
@@ -428,7 +443,7 @@ export function VacancyForm({
                 } />
               )}
             </div>
-            {["wacht_op_goedkeuring", "gepubliceerd", "verlopen", "gedepubliceerd"].includes(vacancy.status || "") ? (
+            {isSubmittedVacancyStatus(vacancy.status || "") ? (
               <Input
                 id="title"
                 value={vacancy.title || ""}
@@ -448,6 +463,7 @@ export function VacancyForm({
                 {validationErrors.title && (
                   <p className="text-sm text-red-500 mt-1">{validationErrors.title}</p>
                 )}
+                <FieldReviewComments comments={reviewComments.title} />
               </>
             )}
           </div>
@@ -464,6 +480,7 @@ export function VacancyForm({
             {validationErrors.intro_txt && (
               <p className="text-sm text-red-500 mt-1">{validationErrors.intro_txt}</p>
             )}
+            <FieldReviewComments comments={reviewComments.intro_txt} />
           </div>
 
           <div>
@@ -477,6 +494,7 @@ export function VacancyForm({
             {validationErrors.description && (
               <p className="text-sm text-red-500 mt-1">{validationErrors.description}</p>
             )}
+            <FieldReviewComments comments={reviewComments.description} />
           </div>
         </div>
       </FormSection>
@@ -516,6 +534,7 @@ export function VacancyForm({
                 {validationErrors.header_image && (
                   <p className="text-sm text-red-500 mt-1">{validationErrors.header_image}</p>
                 )}
+                <FieldReviewComments comments={reviewComments.header_image} />
               </div>
             </div>
 
@@ -629,6 +648,7 @@ export function VacancyForm({
                 <span className="text-xs text-[#1F2D58]/60">{galleryImages.length >= 2 ? "Wijzigen" : "Toevoegen"}</span>
               </button>
             </div>
+            <FieldReviewComments comments={reviewComments.gallery} />
           </div>
         </div>
       </FormSection>
@@ -648,6 +668,7 @@ export function VacancyForm({
             {validationErrors.location && (
               <p className="text-sm text-red-500 mt-1">{validationErrors.location}</p>
             )}
+            <FieldReviewComments comments={reviewComments.location} />
           </div>
 
           <div className="flex flex-col">
@@ -670,6 +691,7 @@ export function VacancyForm({
             {validationErrors.region_id && (
               <p className="text-sm text-red-500 mt-1">{validationErrors.region_id}</p>
             )}
+            <FieldReviewComments comments={reviewComments.region_id} />
           </div>
 
           <div className="flex flex-col">
@@ -690,6 +712,7 @@ export function VacancyForm({
               placeholder="Bijv. 32-40"
               className="mt-1.5"
             />
+            <FieldReviewComments comments={reviewComments.hrs_per_week} />
           </div>
 
           <div className="flex flex-col">
@@ -712,6 +735,7 @@ export function VacancyForm({
             {validationErrors.function_type_id && (
               <p className="text-sm text-red-500 mt-1">{validationErrors.function_type_id}</p>
             )}
+            <FieldReviewComments comments={reviewComments.function_type_id} />
           </div>
 
           <div className="flex flex-col">
@@ -731,6 +755,7 @@ export function VacancyForm({
                 ))}
               </SelectContent>
             </Select>
+            <FieldReviewComments comments={reviewComments.education_level_id} />
           </div>
 
           <div className="flex flex-col">
@@ -753,6 +778,7 @@ export function VacancyForm({
             {validationErrors.field_id && (
               <p className="text-sm text-red-500 mt-1">{validationErrors.field_id}</p>
             )}
+            <FieldReviewComments comments={reviewComments.field_id} />
           </div>
 
           <div className="flex flex-col">
@@ -775,6 +801,7 @@ export function VacancyForm({
             {validationErrors.sector_id && (
               <p className="text-sm text-red-500 mt-1">{validationErrors.sector_id}</p>
             )}
+            <FieldReviewComments comments={reviewComments.sector_id} />
           </div>
 
           <div className="flex flex-col">
@@ -792,6 +819,7 @@ export function VacancyForm({
               placeholder="Bijv. €4.000 - €5.500"
               className="mt-1.5"
             />
+            <FieldReviewComments comments={reviewComments.salary} />
           </div>
 
           <div className="flex flex-col">
@@ -840,6 +868,7 @@ export function VacancyForm({
       {/* Section 4: Contactpersoon */}
       <FormSection title="Contactpersoon" description="Deze gegevens worden getoond bij de vacature zodat kandidaten je kunnen bereiken.">
         <div className="space-y-4">
+          <FieldReviewComments comments={reviewComments.contact} />
           {/* Row 1: Naam, Functie */}
           <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
             <div>
@@ -928,7 +957,7 @@ export function VacancyForm({
       </FormSection>
 
       {/* Section 5: Solliciteren */}
-      <FormSection title="Sollicitatiemethode" description="Kies hoe kandidaten op deze vacature kunnen reageren." isLast>
+      <FormSection title="Sollicitatiemethode" description="Kies hoe kandidaten op deze vacature kunnen reageren.">
         <ApplicationMethodFields
           showApplyForm={vacancy.show_apply_form || false}
           applyUrl={vacancy.apply_url || ""}
@@ -938,6 +967,15 @@ export function VacancyForm({
           onApplicationEmailChange={(value) => updateField("application_email", value)}
           validationErrors={validationErrors}
         />
+        <FieldReviewComments comments={reviewComments.application} />
+      </FormSection>
+
+      {/* Section 6: Vacaturesites */}
+      <FormSection title="Vacaturesites" description="We delen gepubliceerde vacatures met vacaturezoekmachines zoals Indeed en Jooble, zodat meer kandidaten ze vinden." isLast>
+        <SyndicationField
+          checked={!vacancy.syndication_opt_out}
+          onCheckedChange={(checked) => updateField("syndication_opt_out", !checked)}
+        />
       </FormSection>
 
       {/* Media picker dialogs */}
@@ -994,6 +1032,51 @@ export function VacancyForm({
 }
 
 // Helper components
+function FieldReviewComments({ comments }: { comments?: ReviewCommentWithStatus[] }) {
+  if (!comments || comments.length === 0) return null;
+
+  return (
+    <div className="mt-2 space-y-1.5">
+      {comments.map((comment) => (
+        <div
+          key={comment.id}
+          className={`flex items-start gap-2 rounded-lg px-3 py-2 text-sm ${
+            comment.addressed ? "bg-green-50 text-green-800" : "bg-[#F86600]/10 text-[#1F2D58]"
+          }`}
+        >
+          {comment.addressed ? (
+            <Check className="h-4 w-4 mt-0.5 flex-shrink-0 text-green-600" />
+          ) : (
+            <MessageSquareWarning className="h-4 w-4 mt-0.5 flex-shrink-0 text-[#F86600]" />
+          )}
+          <p className="whitespace-pre-wrap">
+            {comment.comment}
+            {comment.addressed && <span className="ml-1 font-bold">(aangepast)</span>}
+          </p>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// Switch for the aggregator job feeds (lib/job-feed.ts); on unless the employer opts out
+function SyndicationField({
+  checked,
+  onCheckedChange,
+}: {
+  checked: boolean;
+  onCheckedChange: (checked: boolean) => void;
+}) {
+  return (
+    <div className="flex items-center justify-between gap-4">
+      <Label htmlFor="syndication" className="!mb-0 font-normal">
+        Deze vacature ook op vacaturezoekmachines plaatsen
+      </Label>
+      <Switch id="syndication" checked={checked} onCheckedChange={onCheckedChange} />
+    </div>
+  );
+}
+
 function FormSection({
   title,
   description,
@@ -0,0 +1,295 @@
+"use client";
+
+import * as React from "react";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Spinner } from "@/components/ui/spinner";
+import { Loader2, RotateCcw } from "lucide-react";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import type { SideBySideRow } from "@/lib/text-diff";
+import type { VacancyRecord } from "@/lib/airtable";
+
+interface RevisionSummary {
+  id: string;
+  source: "initial" | "edit" | "restore";
+  restored_from: string | null;
+  author_name: string | null;
+  "created-at"?: string;
+  "updated-at"?: string;
+  changed_fields: string[];
+}
+
+interface RevisionDetail {
+  changed_fields: string[];
+  diff: Record<"intro_txt" | "description", SideBySideRow[]>;
+}
+
+interface VacancyHistorySheetProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  vacancyId: string;
+  /** Restoring is not possible while the vacancy is read-only */
+  canRestore: boolean;
+  /** Called with the vacancy after a revision was restored */
+  onRestored: (vacancy: VacancyRecord) => void;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  title: "Titel",
+  intro_txt: "Introductie",
+  description: "Omschrijving",
+  location: "Locatie",
+  hrs_per_week: "Uren per week",
+  salary: "Salaris",
+  education_level_id: "Opleidingsniveau",
+  field_id: "Vakgebied",
+  function_type_id: "Functietype",
+  region_id: "Regio",
+  sector_id: "Sector",
+  apply_url: "Sollicitatielink",
+  application_email: "Sollicitatie e-mail",
+  show_apply_form: "Sollicitatieformulier",
+  contact_name: "Naam contactpersoon",
+  contact_role: "Functie contactpersoon",
+  contact_email: "E-mail contactpersoon",
+  contact_phone: "Telefoon contactpersoon",
+  contact_photo_id: "Foto contactpersoon",
+  recommendations: "Collega's",
+  header_image: "Headerafbeelding",
+  gallery: "Afbeeldingen",
+};
+
+const SOURCE_LABELS: Record<RevisionSummary["source"], string> = {
+  initial: "Oorspronkelijke versie",
+  edit: "Bewerkt",
+  restore: "Teruggezet",
+};
+
+function formatRevisionDate(date?: string): string {
+  if (!date) return "";
+  return new Date(date).toLocaleString("nl-NL", {
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+function DiffTable({ label, rows }: { label: string; rows: SideBySideRow[] }) {
+  return (
+    <div className="space-y-2">
+      <h4 className="text-sm font-bold text-[#1F2D58]">{label}</h4>
+      <div className="grid grid-cols-2 gap-px bg-[#193DAB]/[0.12] rounded-[0.75rem] overflow-hidden text-xs font-mono">
+        <div className="bg-white px-3 py-1.5 font-sans font-bold text-[#1F2D58]/70">Deze versie</div>
+        <div className="bg-white px-3 py-1.5 font-sans font-bold text-[#1F2D58]/70">Huidige versie</div>
+        {rows.length === 0 && (
+          <div className="col-span-2 bg-white px-3 py-2 font-sans text-[#1F2D58]/60">Leeg</div>
+        )}
+        {rows.map((row, index) => (
+          <React.Fragment key={index}>
+            <div
+              className={cn(
+                "bg-white px-3 py-1 whitespace-pre-wrap break-words text-[#1F2D58]",
+                (row.type === "removed" || row.type === "changed") && "bg-red-50 text-red-800"
+              )}
+            >
+              {row.left ?? ""}
+            </div>
+            <div
+              className={cn(
+                "bg-white px-3 py-1 whitespace-pre-wrap break-words text-[#1F2D58]",
+                (row.type === "added" || row.type === "changed") && "bg-green-50 text-green-800"
+              )}
+            >
+              {row.right ?? ""}
+            </div>
+          </React.Fragment>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Content history of a vacancy: list of revisions, a side-by-side diff of the
+ * intro and description against the current content, and a restore action
+ */
+export function VacancyHistorySheet({
+  open,
+  onOpenChange,
+  vacancyId,
+  canRestore,
+  onRestored,
+}: VacancyHistorySheetProps) {
+  const [revisions, setRevisions] = React.useState<RevisionSummary[]>([]);
+  const [isLoading, setIsLoading] = React.useState(false);
+  const [selectedId, setSelectedId] = React.useState<string | null>(null);
+  const [detail, setDetail] = React.useState<RevisionDetail | null>(null);
+  const [isLoadingDetail, setIsLoadingDetail] = React.useState(false);
+  const [isRestoring, setIsRestoring] = React.useState(false);
+
+  const fetchRevisions = React.useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch(`/api/vacancies/${vacancyId}/revisions`);
+      const data = await response.json();
+      if (!response.ok) {
+        toast.error("Versiegeschiedenis laden mislukt", { description: data.error || "Er ging iets mis" });
+        return;
+      }
+      setRevisions(data.revisions || []);
+    } catch {
+      toast.error("Versiegeschiedenis laden mislukt", { description: "Er ging iets mis bij het laden" });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [vacancyId]);
+
+  // Reload the history each time the sheet opens
+  React.useEffect(() => {
+    if (open) {
+      setSelectedId(null);
+      setDetail(null);
+      fetchRevisions();
+    }
+  }, [open, fetchRevisions]);
+
+  const handleSelect = async (revisionId: string) => {
+    setSelectedId(revisionId);
+    setDetail(null);
+    setIsLoadingDetail(true);
+    try {
+      const response = await fetch(`/api/vacancies/${vacancyId}/revisions/${revisionId}`);
+      const data = await response.json();
+      if (!response.ok) {
+        toast.error("Versie laden mislukt", { description: data.error || "Er ging iets mis" });
+        return;
+      }
+      setDetail({ changed_fields: data.changed_fields, diff: data.diff });
+    } catch {
+      toast.error("Versie laden mislukt", { description: "Er ging iets mis bij het laden" });
+    } finally {
+      setIsLoadingDetail(false);
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!selectedId) return;
+    setIsRestoring(true);
+    try {
+      const response = await fetch(`/api/vacancies/${vacancyId}/revisions/${selectedId}/restore`, {
+        method: "POST",
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        toast.error("Terugzetten mislukt", { description: data.error || "Er ging iets mis" });
+        return;
+      }
+      toast.success("Versie teruggezet", {
+        description: "De inhoud van de vacature is teruggezet naar de gekozen versie.",
+      });
+      onRestored(data.vacancy);
+      onOpenChange(false);
+    } catch {
+      toast.error("Terugzetten mislukt", { description: "Er ging iets mis bij het terugzetten" });
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="right" className="w-full sm:max-w-3xl bg-[#E8EEF2] overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle className="text-[#1F2D58]">Versiegeschiedenis</SheetTitle>
+          <SheetDescription className="text-[#1F2D58]/70">
+            Bekijk eerdere versies van je vacature en zet een versie terug
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="mt-6 space-y-6">
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Spinner className="h-6 w-6" />
+            </div>
+          ) : revisions.length === 0 ? (
+            <p className="text-sm text-[#1F2D58]/70">
+              Er zijn nog geen eerdere versies. Zodra je de vacature aanpast, verschijnen de versies hier.
+            </p>
+          ) : (
+            <ul className="space-y-2">
+              {revisions.map((revision, index) => (
+                <li key={revision.id}>
+                  <button
+                    type="button"
+                    onClick={() => handleSelect(revision.id)}
+                    className={cn(
+                      "w-full text-left rounded-[0.75rem] bg-white px-4 py-3 transition-colors cursor-pointer",
+                      selectedId === revision.id ? "ring-2 ring-[#1F2D58]" : "hover:bg-white/70"
+                    )}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="text-sm font-bold text-[#1F2D58]">
+                        {formatRevisionDate(revision["updated-at"] || revision["created-at"])}
+                      </span>
+                      <div className="flex gap-1">
+                        {index === 0 && <Badge variant="info">Huidig</Badge>}
+                        <Badge variant="muted">{SOURCE_LABELS[revision.source]}</Badge>
+                      </div>
+                    </div>
+                    <p className="text-xs text-[#1F2D58]/70 mt-1">
+                      {revision.author_name || "Colourful jobs"}
+                      {revision.changed_fields.length > 0 &&
+                        ` · ${revision.changed_fields.map((f) => FIELD_LABELS[f] || f).join(", ")}`}
+                    </p>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {selectedId && (
+            <div className="space-y-4 border-t border-[#193DAB]/[0.12] pt-6">
+              {isLoadingDetail || !detail ? (
+                <div className="flex justify-center py-8">
+                  <Spinner className="h-6 w-6" />
+                </div>
+              ) : (
+                <>
+                  <p className="text-sm text-[#1F2D58]">
+                    {detail.changed_fields.length === 0
+                      ? "Deze versie is gelijk aan de huidige inhoud."
+                      : `Verschilt van de huidige inhoud in: ${detail.changed_fields.map((f) => FIELD_LABELS[f] || f).join(", ")}`}
+                  </p>
+                  <DiffTable label="Introductie" rows={detail.diff.intro_txt} />
+                  <DiffTable label="Omschrijving" rows={detail.diff.description} />
+                  {canRestore && (
+                    <div className="flex justify-end">
+                      <Button
+                        onClick={handleRestore}
+                        disabled={isRestoring || detail.changed_fields.length === 0}
+                        showArrow={false}
+                      >
+                        {isRestoring ? <Loader2 className="h-4 w-4 animate-spin" /> : <RotateCcw className="h-4 w-4" />}
+                        Deze versie terugzetten
+                      </Button>
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -17,24 +17,33 @@ import { CostSidebar } from "./CostSidebar";
 import { PackageSelector } from "./PackageSelector";
 import { VacancyForm } from "./VacancyForm";
 import { VacancyPreview } from "./VacancyPreview";
+import { SeoPreviewCard } from "./SeoPreviewCard";
+import { JobPostingReportCard } from "./JobPostingReportCard";
 import { SubmitStep } from "./SubmitStep";
 import { WeDoItForYouBanner } from "./WeDoItForYouBanner";
 import { ColleaguesSidebar } from "./ColleaguesSidebar";
+import { TemplatePicker } from "./TemplatePicker";
+import { VacancyHistorySheet } from "./VacancyHistorySheet";
 import type {
   WizardStep,
   VacancyWizardState,
   ProductWithFeatures,
   InvoiceDetails,
   WizardStepConfig,
+  VacancyTemplateSummary,
 } from "./types";
 import { WIZARD_STEPS_NEW, WIZARD_STEPS_EDIT } from "./types";
 import type { ProductRecord, LookupRecord, VacancyRecord, TransactionRecord } from "@/lib/airtable";
 import { useCredits } from "@/lib/credits-context";
-import { getPriceDisplayMode } from "@/lib/credits";
+import { getPriceDisplayMode, planCreditSpend } from "@/lib/credits";
+import { validatePublicationSchedule, type PublicationSchedule } from "@/lib/vacancy-schedule";
+import { groupReviewComments } from "@/lib/vacancy-review-fields";
+import { isSubmittedVacancyStatus } from "@/lib/vacancy-status";
+import type { VacancyReviewRound } from "@/lib/vacancy-reviews";
 import { getVisibleUpsells } from "@/lib/upsell-filters";
 import { getPackageBaseDuration, calculateDateRange } from "@/lib/vacancy-duration";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { Building2, Rocket, Users, Pencil, Clock, AlertTriangle } from "lucide-react";
+import { Building2, Rocket, Users, Pencil, Clock, AlertTriangle, CheckCircle2 } from "lucide-react";
 import Link from "next/link";
 
 interface VacancyWizardProps {
@@ -155,7 +164,21 @@ export function VacancyWizard({ initialVacancyId, initialStep }: VacancyWizardPr
   // Extension closing date state (for until_max upsell in step 4)
   const [selectedClosingDate, setSelectedClosingDate] = useState<Date | undefined>();
 
+  // Scheduled publication state (step 4)
+  const [publicationSchedule, setPublicationSchedule] = useState<PublicationSchedule>({});
+
   // Track recommendations in wizard state (for ColleaguesSidebar)
+  // Vacancy templates (step 1, new vacancies only)
+  const [templates, setTemplates] = useState<VacancyTemplateSummary[]>([]);
+  const [selectedTemplateId, setSelectedTemplateId] = useState<string | null>(null);
+
+  // Version history (restoring remounts the form so the editors pick up the content)
+  const [showHistory, setShowHistory] = useState(false);
+  const [formKey, setFormKey] = useState(0);
+
+  // Open review round of a needs_adjustment vacancy (per-field feedback of the CJ team)
+  const [reviewRound, setReviewRound] = useState<VacancyReviewRound | null>(null);
+
   const [recommendations, setRecommendations] = useState<{firstName: string; lastName: string}[]>([]);
 
   // Colleagues modal state (for social post upsell)
@@ -190,8 +213,8 @@ export function VacancyWizard({ initialVacancyId, initialStep }: VacancyWizardPr
   useEffect(() => { vacancyIdRef.current = state.vacancyId; }, [state.vacancyId]);
   useEffect(() => { isExistingVacancyRef.current = isExistingVacancy; }, [isExistingVacancy]);
 
-  // Check if vacancy is in read-only mode (waiting for approval)
-  const isReadOnly = state.vacancyData?.status === "wacht_op_goedkeuring";
+  // Check if vacancy is in read-only mode (waiting for approval or approved and scheduled)
+  const isReadOnly = state.vacancyData?.status === "wacht_op_goedkeuring" || state.vacancyData?.status === "ingepland";
 
   // Unsaved changes warning
   useEffect(() => {
@@ -324,12 +347,15 @@ export function VacancyWizard({ initialVacancyId, initialStep }: VacancyWizardPr
             fetch(`/api/vacancies/${initialVacancyId}?includeTransactions=true`),
             fetch("/api/media"),
           );
+        } else {
+          fetches.push(fetch("/api/vacancy-templates"));
         }
 
         const responses = await Promise.all(fetches);
         const [packagesRes, upsellsRes, lookupsRes, accountRes] = responses;
         const vacancyRes = initialVacancyId ? responses[4] : null;
         const mediaRes = initialVacancyId ? responses[5] : null;
+        const templatesRes = initialVacancyId ? null : responses[4];
 
         // Check profile completeness from account data
         if (accountRes.ok) {
@@ -387,6 +413,11 @@ export function VacancyWizard({ initialVacancyId, initialStep }: VacancyWizardPr
           setLookups(data);
         }
 
+        if (templatesRes?.ok) {
+          const data = await templatesRes.json();
+          setTemplates(data.templates || []);
+        }
+
         // Process vacancy + media (already fetched in parallel above)
         if (initialVacancyId && vacancyRes?.ok) {
           const data = await vacancyRes.json();
@@ -394,9 +425,9 @@ export function VacancyWizard({ initialVacancyId, initialStep }: VacancyWizardPr
           const transactions: TransactionRecord[] = data.transactions || [];
           setVacancyTransactions(transactions);
           
-          // Detect if this is an existing (already submitted) vacancy
-          const submittedStatuses = ["wacht_op_goedkeuring", "gepubliceerd", "verlopen", "gedepubliceerd", "needs_adjustment"];
-          const isExisting = submittedStatuses.includes(vacancy.status);
+          // Detect if this is an existing (already submitted) vacancy; needs_adjustment
+          // vacancies were submitted before the adjustment was requested
+          const isExisting = isSubmittedVacancyStatus(vacancy.status) || vacancy.status === "needs_adjustment";
           setIsExistingVacancy(isExisting);
           
           // Determine step: use initialStep from URL if valid, otherwise determine from vacancy state
@@ -424,6 +455,10 @@ export function VacancyWizard({ initialVacancyId, initialStep }: VacancyWizardPr
             selectedUpsells: restoredUpsells,
           }));
           setMaxStepReached(isExisting ? 3 : stepToUse as WizardStep);
+          setPublicationSchedule({
+            publish_from: vacancy.publish_from ?? null,
+            depublish_at: vacancy.depublish_at ?? null,
+          });
           
           // Initialize recommendations from vacancy data
           if (vacancy.recommendations) {
@@ -787,6 +822,7 @@ export function VacancyWizard({ initialVacancyId, initialStep }: VacancyWizardPr
           body: JSON.stringify({
             package_id: selectedPackage?.id,
             input_type: state.inputType,
+            template_id: selectedTemplateId || undefined,
           }),
         });
 
@@ -795,6 +831,12 @@ export function VacancyWizard({ initialVacancyId, initialStep }: VacancyWizardPr
         }
 
         const data = await res.json();
+        // Content copied from a template
+        if (data.vacancy.recommendations) {
+          try {
+            setRecommendations(JSON.parse(data.vacancy.recommendations));
+          } catch { /* ignore parse errors */ }
+        }
         // Initialize lastSavedData with the vacancy data so we can track actual changes
         setLastSavedData(JSON.stringify(data.vacancy));
         setState((prev) => ({
@@ -853,7 +895,7 @@ export function VacancyWizard({ initialVacancyId, initialStep }: VacancyWizardPr
     
     // Scroll to top of page
     window.scrollTo({ top: 0, behavior: "smooth" });
-  }, [state, validateVacancy, saveVacancy, cleanupEmptyRecommendations, isReadOnly]);
+  }, [state, validateVacancy, saveVacancy, cleanupEmptyRecommendations, isReadOnly, selectedTemplateId]);
 
   // Navigate to previous step
   const handlePrevious = useCallback(() => {
@@ -970,6 +1012,23 @@ export function VacancyWizard({ initialVacancyId, initialStep }: VacancyWizardPr
     };
   }, [state.isDirty, state.vacancyId, saveVacancy, isReadOnly]);
 
+  // Version history: save pending changes first so the history is complete
+  const handleOpenHistory = useCallback(async () => {
+    if (state.isDirty) {
+      await saveVacancy();
+    }
+    setShowHistory(true);
+  }, [state.isDirty, saveVacancy]);
+
+  const handleRevisionRestored = useCallback((vacancy: VacancyRecord) => {
+    setLastSavedData(JSON.stringify(vacancy));
+    setState((prev) => ({ ...prev, vacancyData: vacancy, isDirty: false }));
+    try {
+      setRecommendations(vacancy.recommendations ? JSON.parse(vacancy.recommendations) : []);
+    } catch { /* ignore parse errors */ }
+    setFormKey((prev) => prev + 1);
+  }, []);
+
   // Handle "We do it for you" selection
   const handleWeDoItForYou = useCallback(() => {
     setState((prev) => {
@@ -1100,6 +1159,33 @@ export function VacancyWizard({ initialVacancyId, initialStep }: VacancyWizardPr
     }
   }, [state.vacancyId, saveVacancy]);
 
+  // Load the open review round; reloaded after each save so addressed comments are marked
+  const isNeedsAdjustment = state.vacancyData?.status === "needs_adjustment";
+  useEffect(() => {
+    if (!state.vacancyId || !isNeedsAdjustment || state.isDirty) return;
+
+    let cancelled = false;
+    fetch(`/api/vacancies/${state.vacancyId}/reviews`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data: { rounds?: VacancyReviewRound[] } | null) => {
+        if (cancelled || !data) return;
+        const [latest] = data.rounds || [];
+        setReviewRound(latest?.status === "open" ? latest : null);
+      })
+      .catch((error) => {
+        console.error("Error loading review feedback:", error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [state.vacancyId, isNeedsAdjustment, state.isDirty]);
+
+  const reviewComments = useMemo(
+    () => (reviewRound ? groupReviewComments(reviewRound.comments) : undefined),
+    [reviewRound]
+  );
+
   // Handle re-submitting a needs_adjustment vacancy
   const handleResubmit = useCallback(async () => {
     if (!state.vacancyId) return;
@@ -1112,14 +1198,17 @@ export function VacancyWizard({ initialVacancyId, initialStep }: VacancyWizardPr
         method: "POST",
       });
 
+      const data = await res.json();
       if (!res.ok) {
-        const data = await res.json();
         throw new Error(data.error || "Failed to resubmit vacancy");
       }
 
       isSubmittedRef.current = true;
       setState((prev) => ({ ...prev, isDirty: false }));
-      window.location.href = "/dashboard/vacatures?success=submitted";
+      const review = data.review as VacancyReviewRound | null;
+      window.location.href = review && review.comments.length > 0
+        ? `/dashboard/vacatures?success=resubmitted&addressed=${review.addressed_count}&total=${review.comments.length}`
+        : "/dashboard/vacatures?success=submitted";
     } catch (error) {
       toast.error("Er ging iets mis bij het opnieuw insturen", {
         description: error instanceof Error ? error.message : "Probeer het opnieuw",
@@ -1144,14 +1233,30 @@ export function VacancyWizard({ initialVacancyId, initialStep }: VacancyWizardPr
       return;
     }
 
-    // Calculate if we need invoice details
+    // Calculate how the credits are paid under the employer's credit policy
     const packageCredits = state.selectedPackage?.credits || 0;
     const upsellCredits = state.selectedUpsells.reduce((sum, u) => sum + u.credits, 0);
     const totalCredits = packageCredits + upsellCredits;
-    const hasEnoughCredits = availableCredits >= totalCredits;
+    const totalPrice = (state.selectedPackage?.price || 0) + state.selectedUpsells.reduce((sum, u) => sum + u.price, 0);
+    const plan = planCreditSpend(totalCredits, totalPrice, availableCredits, credits.credit_policy);
+    const needsInvoice = plan.credits_to_invoice > 0;
+
+    // The credit policy blocks this shortage: credits must be bought first
+    if (!plan.allowed) {
+      toast.error("Onvoldoende credits", {
+        description: plan.message ?? undefined,
+      });
+      return;
+    }
+
+    const scheduleError = validatePublicationSchedule(publicationSchedule);
+    if (scheduleError) {
+      toast.error("Ongeldige planning", { description: scheduleError });
+      return;
+    }
 
-    // If not enough credits, invoice details are required
-    if (!hasEnoughCredits && !invoiceDetails) {
+    // If the shortage is invoiced, invoice details are required
+    if (needsInvoice && !invoiceDetails) {
       setShowInvoiceError(true);
       toast.error("Factuurgegevens vereist", {
         description: "Vul de verplichte factuurgegevens in om door te gaan.",
@@ -1161,10 +1266,12 @@ export function VacancyWizard({ initialVacancyId, initialStep }: VacancyWizardPr
 
     setIsSaving(true);
     try {
-      // First, update the vacancy with selected upsells and optional closing date
+      // First, update the vacancy with selected upsells, optional closing date and publication schedule
       const upsellIds = state.selectedUpsells.map((u) => u.id);
       const patchBody: Record<string, unknown> = {
         selected_upsells: upsellIds,
+        publish_from: publicationSchedule.publish_from ?? null,
+        depublish_at: publicationSchedule.depublish_at ?? null,
       };
 
       // If extension upsell is selected with a closing date, include it
@@ -1175,18 +1282,22 @@ export function VacancyWizard({ initialVacancyId, initialStep }: VacancyWizardPr
         patchBody.closing_date = `${year}-${month}-${day}`;
       }
 
-      await fetch(`/api/vacancies/${state.vacancyId}`, {
+      const patchRes = await fetch(`/api/vacancies/${state.vacancyId}`, {
         method: "PATCH",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify(patchBody),
       });
+      if (!patchRes.ok) {
+        const data = await patchRes.json();
+        throw new Error(data.error || "Failed to update vacancy");
+      }
 
       // Then submit the vacancy with invoice details if needed
       const res = await fetch(`/api/vacancies/${state.vacancyId}/submit`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
-          invoice_details: !hasEnoughCredits ? invoiceDetails : null,
+          invoice_details: needsInvoice ? invoiceDetails : null,
         }),
       });
 
@@ -1223,7 +1334,7 @@ export function VacancyWizard({ initialVacancyId, initialStep }: VacancyWizardPr
     } finally {
       setIsSaving(false);
     }
-  }, [state.vacancyId, state.selectedPackage, state.selectedUpsells, state.inputType, availableCredits, invoiceDetails, profileComplete, selectedClosingDate]);
+  }, [state.vacancyId, state.selectedPackage, state.selectedUpsells, state.inputType, availableCredits, credits.credit_policy, invoiceDetails, profileComplete, selectedClosingDate, publicationSchedule]);
 
   // Render loading state
   if (isLoading) {
@@ -1313,6 +1424,15 @@ export function VacancyWizard({ initialVacancyId, initialStep }: VacancyWizardPr
                 </AlertDescription>
               </Alert>
             )}
+            <TemplatePicker
+              templates={templates}
+              selectedTemplateId={selectedTemplateId}
+              onSelectTemplate={setSelectedTemplateId}
+              onTemplateDeleted={(templateId) => {
+                setTemplates((prev) => prev.filter((t) => t.id !== templateId));
+                setSelectedTemplateId(null);
+              }}
+            />
             <PackageSelector
               packages={packages}
               selectedPackage={state.selectedPackage}
@@ -1341,6 +1461,7 @@ export function VacancyWizard({ initialVacancyId, initialStep }: VacancyWizardPr
             
             {lookups && (
               <VacancyForm
+                key={formKey}
                 vacancy={state.vacancyData}
                 inputType={state.inputType}
                 lookups={lookups}
@@ -1351,22 +1472,29 @@ export function VacancyWizard({ initialVacancyId, initialStep }: VacancyWizardPr
                 onLogoChange={setLogoUrl}
                 employerSectorId={employerSectorId}
                 maxClosingDate={maxClosingDate}
+                reviewComments={isNeedsAdjustment ? reviewComments : undefined}
               />
             )}
           </div>
         );
       case 3:
         return lookups ? (
-          <VacancyPreview
-            vacancy={state.vacancyData}
-            selectedPackage={state.selectedPackage}
-            selectedUpsells={state.selectedUpsells}
-            lookups={lookups}
-            contactPhotoUrl={contactPhotoUrl || undefined}
-            headerImageUrl={headerImageUrl || undefined}
-            logoUrl={logoUrl || undefined}
-            isExistingVacancy={isExistingVacancy}
-          />
+          <div className="space-y-6">
+            <VacancyPreview
+              vacancy={state.vacancyData}
+              selectedPackage={state.selectedPackage}
+              selectedUpsells={state.selectedUpsells}
+              lookups={lookups}
+              contactPhotoUrl={contactPhotoUrl || undefined}
+              headerImageUrl={headerImageUrl || undefined}
+              logoUrl={logoUrl || undefined}
+              isExistingVacancy={isExistingVacancy}
+            />
+            {state.vacancyId && <SeoPreviewCard vacancyId={state.vacancyId} />}
+            {state.vacancyId && state.vacancyData.input_type !== "we_do_it_for_you" && (
+              <JobPostingReportCard vacancyId={state.vacancyId} />
+            )}
+          </div>
         ) : (
           <div className="bg-white rounded-t-[0.75rem] rounded-b-[2rem] p-6">
             <Spinner className="w-6 h-6 text-[#1F2D58]" />
@@ -1438,6 +1566,10 @@ export function VacancyWizard({ initialVacancyId, initialStep }: VacancyWizardPr
             isSocialPostUpsell={isSocialPostUpsell}
             onOpenColleaguesModal={() => setShowColleaguesModal(true)}
             priceDisplayMode={priceDisplayMode}
+            creditPolicy={credits.credit_policy}
+            publicationSchedule={publicationSchedule}
+            onPublicationScheduleChange={setPublicationSchedule}
+            publicationScheduleError={validatePublicationSchedule(publicationSchedule)}
           />
         ) : (
           <div className="bg-white rounded-t-[0.75rem] rounded-b-[2rem] p-6">
@@ -1507,6 +1639,16 @@ export function VacancyWizard({ initialVacancyId, initialStep }: VacancyWizardPr
             >
               Sluiten
             </Button>
+            {state.vacancyId && state.currentStep >= 2 && (
+              <Button
+                variant="link"
+                onClick={handleOpenHistory}
+                showArrow={false}
+                className="whitespace-nowrap text-xs h-auto p-0"
+              >
+                Versiegeschiedenis
+              </Button>
+            )}
             {!isReadOnly && state.currentStep >= 2 && (
               <div>
                 {isSaving || isClosing ? (
@@ -1558,7 +1700,7 @@ export function VacancyWizard({ initialVacancyId, initialStep }: VacancyWizardPr
       {/* Main content with sidebar */}
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         {/* Main content area - full width on step 1, 2/3 width on step 2-4 with sidebar (but step 4 is skipped for existing vacancies, and step 2/3 sidebar hidden for existing) */}
-        <div className={state.currentStep === 4 && !isExistingVacancy || (state.currentStep === 2 && !isExistingVacancy && (hasSocialPostFeature || weDoItForYouProduct)) || (state.currentStep === 3 && hasSocialPostFeature && !isReadOnly && !isExistingVacancy) || (state.currentStep === 2 && state.vacancyData?.status === "needs_adjustment" && state.vacancyData?.rejection_reason) ? "lg:col-span-2" : "lg:col-span-3"}>
+        <div className={state.currentStep === 4 && !isExistingVacancy || (state.currentStep === 2 && !isExistingVacancy && (hasSocialPostFeature || weDoItForYouProduct)) || (state.currentStep === 3 && hasSocialPostFeature && !isReadOnly && !isExistingVacancy) || (state.currentStep === 2 && isNeedsAdjustment && (state.vacancyData?.rejection_reason || reviewRound)) ? "lg:col-span-2" : "lg:col-span-3"}>
           {renderStepContent()}
         </div>
 
@@ -1600,7 +1742,7 @@ export function VacancyWizard({ initialVacancyId, initialStep }: VacancyWizardPr
         )}
 
         {/* Step 2 sidebar: Rejection reason - alleen voor needs_adjustment vacatures */}
-        {state.currentStep === 2 && state.vacancyData?.status === "needs_adjustment" && state.vacancyData?.rejection_reason && (
+        {state.currentStep === 2 && isNeedsAdjustment && (state.vacancyData?.rejection_reason || reviewRound) && (
           <div className="lg:col-span-1 lg:sticky lg:top-6 lg:self-start">
             <div className="rounded-t-[0.75rem] rounded-b-[2rem] overflow-hidden">
               <div className="bg-white/50 px-5 py-4">
@@ -1608,13 +1750,46 @@ export function VacancyWizard({ initialVacancyId, initialStep }: VacancyWizardPr
                   <div className="w-10 h-10 rounded-full bg-white flex items-center justify-center flex-shrink-0">
                     <Pencil className="h-5 w-5 text-[#1F2D58]" />
                   </div>
-                  <h4 className="font-bold text-[#1F2D58]">Aanpassing nodig</h4>
+                  <div>
+                    <h4 className="font-bold text-[#1F2D58]">Aanpassing nodig</h4>
+                    {reviewRound && reviewRound.round > 1 && (
+                      <p className="text-xs text-[#1F2D58]/60">Ronde {reviewRound.round}</p>
+                    )}
+                  </div>
                 </div>
               </div>
-              <div className="p-5 bg-white">
-                <p className="text-sm text-[#1F2D58]/80 whitespace-pre-wrap">
-                  {state.vacancyData.rejection_reason}
-                </p>
+              <div className="p-5 bg-white space-y-4">
+                {reviewRound ? (
+                  <>
+                    {reviewRound.summary && (
+                      <p className="text-sm text-[#1F2D58]/80 whitespace-pre-wrap">{reviewRound.summary}</p>
+                    )}
+                    {reviewComments?.general?.map((comment) => (
+                      <p key={comment.id} className="text-sm text-[#1F2D58]/80 whitespace-pre-wrap">
+                        {comment.comment}
+                      </p>
+                    ))}
+                    {reviewRound.comments.length > 0 && (
+                      <div className="flex items-center gap-2 text-sm text-[#1F2D58]">
+                        <CheckCircle2
+                          className={`h-4 w-4 ${reviewRound.addressed_count === reviewRound.comments.length ? "text-green-600" : "text-[#1F2D58]/40"}`}
+                        />
+                        <span>
+                          {reviewRound.addressed_count} van {reviewRound.comments.length} opmerkingen verwerkt
+                        </span>
+                      </div>
+                    )}
+                    {reviewRound.comments.some((comment) => comment.field !== "general") && (
+                      <p className="text-xs text-[#1F2D58]/60">
+                        De opmerkingen staan bij de velden in het formulier.
+                      </p>
+                    )}
+                  </>
+                ) : (
+                  <p className="text-sm text-[#1F2D58]/80 whitespace-pre-wrap">
+                    {state.vacancyData?.rejection_reason}
+                  </p>
+                )}
               </div>
             </div>
           </div>
@@ -1704,6 +1879,7 @@ export function VacancyWizard({ initialVacancyId, initialStep }: VacancyWizardPr
               onChangePackage={() => handleStepClick(1)}
               onBuyCredits={() => setShowCheckoutModal(true)}
               priceDisplayMode={priceDisplayMode}
+              creditPolicy={credits.credit_policy}
             />
           </div>
         )}
@@ -1840,22 +2016,17 @@ export function VacancyWizard({ initialVacancyId, initialStep }: VacancyWizardPr
                     const packageCredits = state.selectedPackage?.credits || 0;
                     const upsellCredits = state.selectedUpsells.reduce((sum, u) => sum + u.credits, 0);
                     const totalCredits = packageCredits + upsellCredits;
-                    const shortage = Math.max(0, totalCredits - availableCredits);
-                    const hasEnoughCredits = shortage === 0;
                     const packagePrice = state.selectedPackage?.price || 0;
                     const upsellsPrice = state.selectedUpsells.reduce((sum, u) => sum + u.price, 0);
                     const totalPrice = packagePrice + upsellsPrice;
-                    const shortagePrice = totalCredits > 0 
-                      ? Math.round((shortage / totalCredits) * totalPrice)
-                      : 0;
-                    
-                    // Credits that will be deducted from balance
-                    const creditsFromBalance = Math.min(availableCredits, totalCredits);
-                    
+
+                    // Blocked by the employer's credit policy: credits must be bought first
+                    const plan = planCreditSpend(totalCredits, totalPrice, availableCredits, credits.credit_policy);
+
                     return (
                       <Button
                         onClick={handleSubmit}
-                        disabled={isSaving || !profileComplete}
+                        disabled={isSaving || !profileComplete || !plan.allowed}
                         showArrow={!isSaving}
                       >
                         {isSaving ? (
@@ -1876,6 +2047,17 @@ export function VacancyWizard({ initialVacancyId, initialStep }: VacancyWizardPr
         </div>
       )}
 
+      {/* Versiegeschiedenis */}
+      {state.vacancyId && (
+        <VacancyHistorySheet
+          open={showHistory}
+          onOpenChange={setShowHistory}
+          vacancyId={state.vacancyId}
+          canRestore={!isReadOnly}
+          onRestored={handleRevisionRestored}
+        />
+      )}
+
       {/* Credits checkout modal */}
       <CreditsCheckoutModal
         open={showCheckoutModal}
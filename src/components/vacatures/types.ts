@@ -1,12 +1,39 @@
 import type { LucideIcon } from "lucide-react";
 import { Pencil, Eye } from "lucide-react";
 import type { VacancyRecord, VacancyInputType, ProductRecord, LookupRecord, FeatureRecord } from "@/lib/airtable";
+import type { CreditPolicySettings } from "@/lib/credits";
+import type { PublicationSchedule } from "@/lib/vacancy-schedule";
+import type { ReviewCommentsByField } from "@/lib/vacancy-review-fields";
+import type { ClosingDateExtensionQuote } from "@/lib/vacancy-extension";
 
 // Extended product with populated features (from API)
 export interface ProductWithFeatures extends ProductRecord {
   populatedFeatures: FeatureRecord[];
 }
 
+// Vacancy template as listed by GET /api/vacancy-templates
+export interface VacancyTemplateSummary {
+  id: string;
+  name: string;
+  "created-at"?: string;
+}
+
+// Closing date extension quote as returned by GET /api/vacancies/[id]/extension
+export type ExtensionQuote = ClosingDateExtensionQuote & { token: string };
+
+// SEO texts of a vacancy as returned by /api/vacancies/[id]/seo
+export interface VacancySeo {
+  seo_title: string;
+  seo_meta_description: string;
+  /** Written by the employer instead of generated */
+  custom: boolean;
+  url: string;
+  bounds: {
+    seo_title: { min: number; max: number };
+    seo_meta_description: { min: number; max: number };
+  };
+}
+
 export type WizardStep = 1 | 2 | 3 | 4;
 
 export interface WizardStepConfig {
@@ -59,6 +86,8 @@ export interface CostSidebarProps {
   onChangePackage?: () => void;
   onBuyCredits?: () => void;
   priceDisplayMode?: "euros" | "credits";
+  /** Employer credit policy; decides how a shortage is explained (default: invoice) */
+  creditPolicy?: CreditPolicySettings;
 }
 
 export interface PackageSelectorProps {
@@ -86,6 +115,8 @@ export interface VacancyFormProps {
   employerSectorId?: string | null;
   /** Maximum selectable closing date based on package duration */
   maxClosingDate?: Date;
+  /** Feedback of the open review round, shown next to the fields it targets */
+  reviewComments?: ReviewCommentsByField;
 }
 
 export interface VacancyPreviewProps {
@@ -139,4 +170,10 @@ export interface SubmitStepProps {
   onOpenColleaguesModal?: () => void;
   /** Display mode for price/credits */
   priceDisplayMode?: "euros" | "credits";
+  /** Employer credit policy; decides how a shortage is handled (default: invoice) */
+  creditPolicy?: CreditPolicySettings;
+  /** Scheduled publication dates (publish_from / depublish_at) */
+  publicationSchedule?: PublicationSchedule;
+  onPublicationScheduleChange?: (schedule: PublicationSchedule) => void;
+  publicationScheduleError?: string | null;
 }
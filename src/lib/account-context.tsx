@@ -2,6 +2,7 @@
 
 import { createContext, useContext, useState, useEffect, useCallback, ReactNode } from "react"
 import { useSession } from "next-auth/react"
+import { DEFAULT_CREDIT_POLICY, type CreditPolicySettings } from "@/lib/credits"
 
 interface ExpiringCredits {
   total: number
@@ -14,6 +15,7 @@ interface CreditsData {
   total_purchased: number
   total_spent: number
   expiring_soon: ExpiringCredits | null
+  credit_policy: CreditPolicySettings
 }
 
 interface ManagedEmployer {
@@ -64,6 +66,7 @@ const defaultCredits: CreditsData = {
   total_purchased: 0,
   total_spent: 0,
   expiring_soon: null,
+  credit_policy: DEFAULT_CREDIT_POLICY,
 }
 
 const defaultAccountData: AccountData = {
@@ -108,6 +111,7 @@ export function AccountProvider({ children }: { children: ReactNode }) {
             total_purchased: data.credits?.total_purchased ?? 0,
             total_spent: data.credits?.total_spent ?? 0,
             expiring_soon: data.credits?.expiring_soon ?? null,
+            credit_policy: data.credits?.credit_policy ?? DEFAULT_CREDIT_POLICY,
           },
           onboarding_dismissed: data.onboarding_dismissed ?? false,
           // Intermediary-specific fields
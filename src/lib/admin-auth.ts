@@ -0,0 +1,77 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { checkRateLimit, apiRateLimiter, getIdentifier } from "@/lib/rate-limit";
+
+/**
+ * Whether an e-mail address belongs to the CJ team
+ * ADMIN_EMAILS: comma-separated list of e-mail addresses
+ */
+export function isAdminEmail(email: string | null | undefined): boolean {
+  if (!email) return false;
+  const adminEmails = (process.env.ADMIN_EMAILS || "")
+    .split(",")
+    .map((e) => e.trim().toLowerCase())
+    .filter(Boolean);
+  return adminEmails.includes(email.toLowerCase());
+}
+
+/**
+ * E-mail of the logged-in user when they are an admin (admin area in the app), otherwise null
+ */
+export async function getAdminSessionEmail(): Promise<string | null> {
+  const session = await getServerSession(authOptions);
+  const email = session?.user?.email;
+  return email && isAdminEmail(email) ? email : null;
+}
+
+/**
+ * Verify a request to an admin endpoint (called by the CJ team from Airtable or the admin area)
+ *
+ * Allows a logged-in admin session (see isAdminEmail), otherwise the admin secret via either:
+ * 1. Authorization header: "Bearer YOUR_SECRET" (preferred)
+ * 2. Query parameter: ?secret=YOUR_SECRET (for Airtable button URLs)
+ *
+ * Uses the same ADMIN_IMPERSONATE_SECRET as the impersonate endpoint.
+ * Returns an error response, or null when the request is allowed.
+ */
+export async function verifyAdminRequest(request: Request, context: string): Promise<NextResponse | null> {
+  if (await getAdminSessionEmail()) {
+    return null;
+  }
+
+  // Rate limiting: 10 attempts per minute per IP
+  const identifier = getIdentifier(request);
+  const rateLimitResult = await checkRateLimit(`admin:${identifier}`, apiRateLimiter, 10, 60000);
+
+  if (!rateLimitResult.success) {
+    return NextResponse.json(
+      { error: "Te veel pogingen. Probeer het later opnieuw." },
+      { status: 429 }
+    );
+  }
+
+  const authHeader = request.headers.get("authorization");
+  const secret = authHeader?.startsWith("Bearer ")
+    ? authHeader.slice(7)
+    : new URL(request.url).searchParams.get("secret");
+
+  const adminSecret = process.env.ADMIN_IMPERSONATE_SECRET;
+  if (!adminSecret) {
+    console.error(`[Admin:${context}] ADMIN_IMPERSONATE_SECRET not configured`);
+    return NextResponse.json(
+      { error: "Server not configured for admin requests" },
+      { status: 500 }
+    );
+  }
+
+  if (!secret || secret !== adminSecret) {
+    console.warn(`[Admin:${context}] Invalid secret attempted`);
+    return NextResponse.json(
+      { error: "Invalid secret" },
+      { status: 403 }
+    );
+  }
+
+  return null;
+}
@@ -2,6 +2,11 @@ import Airtable from "airtable";
 import { z } from "zod";
 import { getErrorMessage, hasStatusCode, sortLookupWithOverigeLast } from "./utils";
 import { htmlToMarkdown, markdownToHtml } from "./html-markdown";
+import {
+  VACANCY_STATUSES,
+  VACANCY_STATUS_FROM_AIRTABLE,
+  VACANCY_STATUS_TO_AIRTABLE,
+} from "./vacancy-status";
 
 const baseId = process.env.AIRTABLE_BASE_ID;
 const apiKey = process.env.AIRTABLE_API_KEY;
@@ -12,7 +17,9 @@ if (!baseId || !apiKey) {
   );
 }
 
-const base = new Airtable({ apiKey }).base(baseId || "");
+// Placeholder key so importing this module works without Airtable (DATA_STORE=memory);
+// every function checks baseId/apiKey before using the base
+const base = new Airtable({ apiKey: apiKey || "not-configured" }).base(baseId || "");
 
 /**
  * Escape a string for use in Airtable filterByFormula
@@ -74,6 +81,13 @@ export const employerRecordSchema = z.object({
   role: z.array(z.string()).optional(), // Linked record to Roles table
   onboarding_dismissed: z.boolean().optional(), // Whether the onboarding checklist has been dismissed
   needs_webflow_sync: z.boolean().default(false),
+  webflow_item_id: z.string().nullable().optional(), // Item ID in the Webflow Employers collection
+  slug: z.string().nullable().optional(), // URL slug on the website, stable once assigned (see lib/slugs.ts)
+  seo_title: z.string().nullable().optional(), // SEO title on the website, 50-60 characters (see lib/seo.ts)
+  seo_meta_description: z.string().nullable().optional(), // SEO meta description, 150-160 characters
+  // What happens on a credit shortage: invoice (default), overdraft (negative balance up to overdraft_limit) or block
+  credit_policy: z.enum(["invoice", "overdraft", "block"]).nullable().optional(),
+  overdraft_limit: z.number().int().nullable().optional(), // Credits the balance may go below zero (overdraft policy)
 });
 
 export const mediaAssetRecordSchema = z.object({
@@ -95,6 +109,8 @@ export const faqRecordSchema = z.object({
   answer: z.string(),
   order: z.number().default(0),
   created_at: z.string().optional(),
+  webflow_item_id: z.string().nullable().optional(), // Item ID in the Webflow FAQs collection
+  slug: z.string().nullable().optional(), // Slug of the Webflow item
 });
 
 export const walletRecordSchema = z.object({
@@ -140,6 +156,20 @@ export const transactionRecordSchema = z.object({
   // Credit expiration fields (for purchase transactions)
   expires_at: z.string().nullable().optional(), // When credits from this purchase expire
   remaining_credits: z.number().int().nullable().optional(), // Credits remaining from this purchase batch
+  idempotency_key: z.string().nullable().optional(), // Client/route supplied key, prevents double charges
+  batch_allocations: z.string().nullable().optional(), // JSON [{ batch_id, credits }]: purchase batches a spend was deducted from
+  refund_of_id: z.string().nullable().optional(), // Linked record to Transactions: the spend a refund belongs to
+  transfer_id: z.string().nullable().optional(), // Shared by the paired adjustment transactions of one wallet transfer
+  transfer_employer_id: z.string().nullable().optional(), // Linked record to Employers: managed employer on the other side of a transfer (intermediary wallet only)
+  expiry_warning_sent_at: z.string().nullable().optional(), // When the expiry reminder for this credit batch was sent (max one per batch)
+  subscription_id: z.string().nullable().optional(), // Linked record to Subscriptions: yearly bundle this purchase belongs to
+  invoice_number: z.string().nullable().optional(), // Sequential invoice number (e.g. "CJ2026-00001"), assigned by the ledger when the transaction is created
+  invoice_date: z.string().nullable().optional(), // Invoice date, set together with invoice_number
+  credit_note_number: z.string().nullable().optional(), // Sequential credit note number (e.g. "CJC2026-00001"), assigned when an invoiced transaction is refunded
+  credit_note_date: z.string().nullable().optional(), // Credit note date, set together with credit_note_number
+  promo_code: z.string().nullable().optional(), // Promo code applied at checkout (purchase only)
+  discount_amount: z.number().nullable().optional(), // Euro discount excl. VAT from the promo code (total_cost is after discount)
+  bonus_credits: z.number().int().nullable().optional(), // Extra credits from the promo code (included in total_credits)
   "created-at": z.string().optional(),
 });
 
@@ -161,12 +191,14 @@ export const productRecordSchema = z.object({
   availability: z.array(z.enum(["add-vacancy", "boost-option"])).optional().default([]), // Multiple select: where this product is available
   validity_months: z.number().int().nullable().optional(), // Months until credits expire (for credit_bundle type)
   credits_expiry_warning_days: z.number().int().nullable().optional(), // Days before expiry to show warning (for credit_bundle type)
+  closing_warning_days: z.number().int().nullable().optional(), // Days before closing_date to email the expiry warning (for vacancy_package type)
   billing_cycle: z.enum(["one_time", "yearly"]).nullable().optional(), // Billing cycle for credit bundles
   repeat_mode: z.enum(["once", "unlimited", "renewable", "until_max"]).nullable().optional(), // Controls repeat purchase behavior per vacancy
   duration_days: z.number().int().nullable().optional(), // Base duration in days: for vacancy_package = online duration, for upsell with repeat_mode=renewable = effect duration
   duration_type: z.enum(["active_period", "cooldown"]).nullable().optional(), // How duration_days is interpreted for renewable upsells: active_period = effect is active for X days, cooldown = must wait X days before reordering
   max_value: z.number().int().nullable().optional(), // Only for repeat_mode=until_max: maximum cumulative value (e.g. 365 days)
   cooldown_unit: z.enum(["calendar_days", "business_days"]).nullable().optional(), // How cooldown is counted for renewable upsells: calendar_days (default) or business_days (Mon-Fri only)
+  webflow_item_id: z.string().nullable().optional(), // Item ID in the Webflow Products collection
 });
 
 export const featureActionTagEnum = z.enum([
@@ -184,50 +216,22 @@ export const featureRecordSchema = z.object({
   sort_order: z.number().int().default(0),
   products: z.array(z.string()).optional(), // Linked to Products
   package_category: z.string().nullable().optional(), // More permissive - accept any string
+  duration_days: z.number().int().nullable().optional(),
+  webflow_item_id: z.string().nullable().optional(), // Item ID in the Webflow Features collection
 });
 
 // ============================================
 // VACANCY SCHEMAS
 // ============================================
 
-export const vacancyStatusEnum = z.enum([
-  "concept",
-  "incompleet",
-  "needs_adjustment",
-  "wacht_op_goedkeuring",
-  "gepubliceerd",
-  "verlopen",
-  "gedepubliceerd",
-]);
-
-// Map Airtable status values to application status values
-// Airtable stores status as lowercase snake_case (concept, awaiting_approval, published, etc.)
-// but the application uses Dutch snake_case values
-const airtableToAppStatusMap: Record<string, string> = {
-  // Airtable values → App values
-  "concept": "concept",
-  "awaiting_approval": "wacht_op_goedkeuring",
-  "published": "gepubliceerd",
-  "expired": "verlopen",
-  "unpublished": "gedepubliceerd",
-  "needs_adjustment": "needs_adjustment",
-};
-
-// Reverse map: application status (Dutch) to Airtable status (English)
-const appToAirtableStatusMap: Record<string, string> = {
-  "concept": "concept",
-  "incompleet": "needs_adjustment",
-  "needs_adjustment": "needs_adjustment",
-  "wacht_op_goedkeuring": "awaiting_approval",
-  "gepubliceerd": "published",
-  "verlopen": "expired",
-  "gedepubliceerd": "unpublished",
-};
+// Statuses and the Airtable status mapping are defined in lib/vacancy-status.ts;
+// allowed status changes in lib/vacancy-state-machine.ts
+export const vacancyStatusEnum = z.enum(VACANCY_STATUSES);
 
 function mapVacancyStatusFromAirtable(status: string | undefined): string {
   if (!status) return "concept";
   const normalizedStatus = status.toLowerCase().replace(/[\s-]/g, "_");
-  const mapped = airtableToAppStatusMap[normalizedStatus] || airtableToAppStatusMap[status.toLowerCase()];
+  const mapped = VACANCY_STATUS_FROM_AIRTABLE[normalizedStatus] || VACANCY_STATUS_FROM_AIRTABLE[status.toLowerCase()];
   if (!mapped) {
     console.warn(`[mapVacancyStatusFromAirtable] Unknown Airtable status "${status}", falling back to "concept"`);
     return "concept";
@@ -237,7 +241,7 @@ function mapVacancyStatusFromAirtable(status: string | undefined): string {
 
 function mapVacancyStatusToAirtable(status: string | undefined): string {
   if (!status) return "concept";
-  const mapped = appToAirtableStatusMap[status];
+  const mapped = VACANCY_STATUS_TO_AIRTABLE[status as VacancyStatus];
   if (!mapped) {
     console.error(`[mapVacancyStatusToAirtable] Invalid vacancy status rejected: "${status}"`);
     throw new Error(`Invalid vacancy status: ${status}`);
@@ -309,6 +313,15 @@ export const vacancyRecordSchema = z.object({
   public_url: z.string().nullable().optional(), // URL of the published vacancy on the Webflow website
   needs_webflow_sync: z.boolean().default(false), // Set to true when changes need to be synced to Webflow
   needs_webflow_archive: z.boolean().default(false), // Set to true when vacancy is depublished and needs to be archived in Webflow
+  webflow_item_id: z.string().nullable().optional(), // Item ID in the Webflow Vacancies collection
+  slug: z.string().nullable().optional(), // URL slug on the website, stable once assigned (see lib/slugs.ts)
+  previous_slugs: z.string().nullable().optional(), // JSON string array of former slugs, kept as redirects
+  seo_title: z.string().nullable().optional(), // SEO title on the website, 50-60 characters (see lib/seo.ts)
+  seo_meta_description: z.string().nullable().optional(), // SEO meta description, 150-160 characters
+  seo_custom: z.boolean().default(false), // SEO texts written by the employer: not regenerated on edits
+
+  // Job feeds
+  syndication_opt_out: z.boolean().default(false), // Left out of the aggregator job feeds (lib/job-feed.ts)
 
   // Priority & Featured
   high_priority: z.boolean().default(false), // Set when "Zelfde dag online" upsell is purchased
@@ -327,7 +340,124 @@ export const vacancyRecordSchema = z.object({
   "depublished-at": z.string().optional(),
   "last-status_changed-at": z.string().optional(),
   closing_date: z.string().nullable().optional(),
+  closing_warning_sent_at: z.string().nullable().optional(), // When the expiry warning for the current closing_date was sent (reset on extension)
   rejection_reason: z.string().nullable().optional(),
+
+  // Scheduled publication (ISO timestamps, handled by the publish-scheduled-vacancies cron)
+  publish_from: z.string().nullable().optional(), // Not published before this moment (status "ingepland" after approval)
+  depublish_at: z.string().nullable().optional(), // Taken offline automatically at this moment
+});
+
+// ============================================
+// JOB RUN SCHEMA (cron job audit trail)
+// ============================================
+
+export const jobRunRecordSchema = z.object({
+  id: z.string(),
+  job: z.enum(["expire_credits", "renew_subscriptions"]),
+  status: z.enum(["running", "success", "failed"]),
+  dry_run: z.boolean().default(false),
+  started_at: z.string(),
+  finished_at: z.string().nullable().optional(),
+  batches_seen: z.number().int().default(0), // renew_subscriptions: batches_* count subscriptions
+  batches_processed: z.number().int().default(0),
+  batches_failed: z.number().int().default(0),
+  credits_expired: z.number().int().default(0), // In dry-run mode: credits that would expire
+  errors: z.string().nullable().optional(), // One error message per line
+  details: z.string().nullable().optional(), // JSON per-wallet report
+});
+
+// ============================================
+// SUBSCRIPTION SCHEMA (yearly credit bundles)
+// ============================================
+
+export const subscriptionRecordSchema = z.object({
+  id: z.string(),
+  employer_id: z.string().nullable().optional(), // Linked record to Employers (null for intermediary wallets)
+  wallet_id: z.string(), // Linked record to Wallets
+  user_id: z.string().nullable().optional(), // Linked record to Users: who bought the bundle
+  product_id: z.string(), // Linked record to Products: the yearly credit bundle
+  // active = renews at next_renewal_at, cancelled = ends at next_renewal_at, ended = no longer renews
+  status: z.enum(["active", "cancelled", "ended"]),
+  started_at: z.string(),
+  next_renewal_at: z.string(), // Anniversary of the start date
+  cancelled_at: z.string().nullable().optional(),
+  ended_at: z.string().nullable().optional(),
+  renewal_count: z.number().int().default(0),
+  invoice_details_snapshot: z.string().nullable().optional(), // JSON string, reused for renewal invoices
+});
+
+export const promoCodeRecordSchema = z.object({
+  id: z.string(),
+  code: z.string(), // Code as entered at checkout (matched case-insensitively)
+  description: z.string().nullable().optional(), // Shown at checkout when the code is applied
+  is_active: z.boolean().default(false),
+  discount_type: z.enum(["percentage", "fixed"]).nullable().optional(), // null = bonus credits only
+  discount_value: z.number().nullable().optional(), // Percentage (e.g. 10) or euro amount excl. VAT
+  bonus_credits: z.number().int().nullable().optional(), // Extra credits on top of the bundle
+  valid_from: z.string().nullable().optional(),
+  valid_until: z.string().nullable().optional(),
+  max_redemptions: z.number().int().nullable().optional(), // Total uses over all employers (null = unlimited)
+  max_redemptions_per_employer: z.number().int().nullable().optional(), // Uses per wallet (null = unlimited)
+  product_types: z.array(z.enum(["vacancy_package", "credit_bundle", "upsell"])).optional().default([]), // Multiple select: empty = all product types
+  target_roles: z.array(z.string()).optional().default([]), // Linked records to Roles - empty = usable for all roles
+});
+
+// ============================================
+// VACANCY TEMPLATE SCHEMA (reusable vacancy content per employer)
+// ============================================
+
+export const vacancyTemplateRecordSchema = z.object({
+  id: z.string(),
+  employer_id: z.string().nullable().optional(), // Linked record to Employers
+  name: z.string(),
+  created_by: z.string().nullable().optional(), // Linked record to Users
+  content_json: z.string(), // JSON string with the vacancy content (see lib/vacancy-content.ts)
+  "created-at": z.string().optional(),
+});
+
+// ============================================
+// VACANCY REVISION SCHEMA (content history per vacancy)
+// ============================================
+
+export const vacancyRevisionSourceEnum = z.enum([
+  "initial", // Content before the first recorded edit
+  "edit",
+  "restore",
+]);
+
+export const vacancyRevisionRecordSchema = z.object({
+  id: z.string(),
+  vacancy_id: z.string().nullable().optional(), // Linked record to Vacancies
+  author_user_id: z.string().nullable().optional(), // Linked record to Users (null = system)
+  source: vacancyRevisionSourceEnum.default("edit"),
+  restored_from: z.string().nullable().optional(), // Revision ID a restore was made from
+  content_json: z.string(), // JSON string with the vacancy content (see lib/vacancy-revisions.ts)
+  "created-at": z.string().optional(),
+  "updated-at": z.string().optional(), // Later saves within the merge window update the revision
+});
+
+// ============================================
+// VACANCY REVIEW SCHEMA (review rounds with per-field feedback)
+// ============================================
+
+export const vacancyReviewStatusEnum = z.enum([
+  "open", // Sent back to the employer ("needs_adjustment")
+  "resubmitted", // Employer sent the vacancy in again
+]);
+
+export const vacancyReviewRecordSchema = z.object({
+  id: z.string(),
+  vacancy_id: z.string().nullable().optional(), // Linked record to Vacancies
+  round: z.number().int().default(1), // 1 for the first review round of the vacancy
+  status: vacancyReviewStatusEnum.default("open"),
+  reviewer: z.string().nullable().optional(), // Name of the CJ team member
+  summary: z.string().nullable().optional(),
+  comments_json: z.string(), // JSON array of { id, field, comment } (see lib/vacancy-review-fields.ts)
+  content_json: z.string(), // Vacancy content at review time, to detect addressed comments
+  addressed_json: z.string().nullable().optional(), // JSON array of addressed comment IDs, set on resubmit
+  "created-at": z.string().optional(),
+  "resubmitted-at": z.string().nullable().optional(),
 });
 
 // ============================================
@@ -337,6 +467,10 @@ export const vacancyRecordSchema = z.object({
 export const lookupRecordSchema = z.object({
   id: z.string(),
   name: z.string(),
+  webflow_item_id: z.string().nullable().optional(), // Item ID in the matching Webflow lookup collection
+  slug: z.string().nullable().optional(), // Slug of the Webflow item
+  seo_title: z.string().nullable().optional(), // SEO title on the website, 50-60 characters (see lib/seo.ts)
+  seo_meta_description: z.string().nullable().optional(), // SEO meta description, 150-160 characters
 });
 
 // Type aliases for clarity
@@ -347,9 +481,11 @@ export const regionRecordSchema = lookupRecordSchema;
 export const sectorRecordSchema = lookupRecordSchema;
 
 export type UserRecord = z.infer<typeof userRecordSchema>;
-type EmployerRecord = z.infer<typeof employerRecordSchema>;
+export type EmployerRecord = z.infer<typeof employerRecordSchema>;
 export type WalletRecord = z.infer<typeof walletRecordSchema>;
 export type TransactionRecord = z.infer<typeof transactionRecordSchema>;
+/** Transaction fields holding a sequential document number */
+export type InvoiceNumberField = "invoice_number" | "credit_note_number";
 export type MediaAssetRecord = z.infer<typeof mediaAssetRecordSchema>;
 export type FAQRecord = z.infer<typeof faqRecordSchema>;
 export type ProductRecord = z.infer<typeof productRecordSchema>;
@@ -358,6 +494,18 @@ export type VacancyRecord = z.infer<typeof vacancyRecordSchema>;
 export type VacancyStatus = z.infer<typeof vacancyStatusEnum>;
 export type VacancyInputType = z.infer<typeof vacancyInputTypeEnum>;
 export type LookupRecord = z.infer<typeof lookupRecordSchema>;
+/** Lookup tables, named like the keys of getAllLookups() */
+export type LookupType = "educationLevels" | "fields" | "functionTypes" | "regions" | "sectors";
+/** Lookup fields written by the Webflow sync */
+export type LookupWebflowFields = Partial<Pick<LookupRecord, "webflow_item_id" | "slug" | "seo_title" | "seo_meta_description">>;
+export type JobRunRecord = z.infer<typeof jobRunRecordSchema>;
+export type SubscriptionRecord = z.infer<typeof subscriptionRecordSchema>;
+export type PromoCodeRecord = z.infer<typeof promoCodeRecordSchema>;
+export type VacancyTemplateRecord = z.infer<typeof vacancyTemplateRecordSchema>;
+export type VacancyRevisionRecord = z.infer<typeof vacancyRevisionRecordSchema>;
+export type VacancyRevisionSource = z.infer<typeof vacancyRevisionSourceEnum>;
+export type VacancyReviewRecord = z.infer<typeof vacancyReviewRecordSchema>;
+export type VacancyReviewStatus = z.infer<typeof vacancyReviewStatusEnum>;
 
 const USERS_TABLE = process.env.AIRTABLE_USERS_TABLE || "Users";
 const EMPLOYERS_TABLE = process.env.AIRTABLE_EMPLOYERS_TABLE || "Employers";
@@ -369,6 +517,12 @@ const FAQ_TABLE = process.env.AIRTABLE_FAQ_TABLE || "FAQ";
 const PRODUCTS_TABLE = process.env.AIRTABLE_PRODUCTS_TABLE || "Products";
 const FEATURES_TABLE = process.env.AIRTABLE_FEATURES_TABLE || "Features";
 const VACANCIES_TABLE = process.env.AIRTABLE_VACANCIES_TABLE || "Vacancies";
+const JOB_RUNS_TABLE = process.env.AIRTABLE_JOB_RUNS_TABLE || "Job Runs";
+const SUBSCRIPTIONS_TABLE = process.env.AIRTABLE_SUBSCRIPTIONS_TABLE || "Subscriptions";
+const PROMO_CODES_TABLE = process.env.AIRTABLE_PROMO_CODES_TABLE || "Promo Codes";
+const VACANCY_TEMPLATES_TABLE = process.env.AIRTABLE_VACANCY_TEMPLATES_TABLE || "Vacancy Templates";
+const VACANCY_REVISIONS_TABLE = process.env.AIRTABLE_VACANCY_REVISIONS_TABLE || "Vacancy Revisions";
+const VACANCY_REVIEWS_TABLE = process.env.AIRTABLE_VACANCY_REVIEWS_TABLE || "Vacancy Reviews";
 // Lookup tables (sorted alphabetically by name)
 const EDUCATION_LEVELS_TABLE = process.env.AIRTABLE_EDUCATION_LEVELS_TABLE || "EducationLevels";
 const FIELDS_TABLE = process.env.AIRTABLE_FIELDS_TABLE || "Fields";
@@ -624,6 +778,10 @@ export async function updateEmployer(
   if (fields.status !== undefined) airtableFields.status = fields.status;
   if (fields.onboarding_dismissed !== undefined) airtableFields.onboarding_dismissed = fields.onboarding_dismissed;
   if (fields.needs_webflow_sync !== undefined) airtableFields.needs_webflow_sync = fields.needs_webflow_sync;
+  if (fields.webflow_item_id !== undefined) airtableFields.webflow_item_id = fields.webflow_item_id;
+  if (fields.slug !== undefined) airtableFields.slug = fields.slug;
+  if (fields.seo_title !== undefined) airtableFields.seo_title = fields.seo_title;
+  if (fields.seo_meta_description !== undefined) airtableFields.seo_meta_description = fields.seo_meta_description;
 
   const record = await base(EMPLOYERS_TABLE).update(id, airtableFields);
 
@@ -753,6 +911,74 @@ export async function getEmployerById(id: string): Promise<EmployerRecord | null
   }
 }
 
+/**
+ * Get employers flagged with needs_webflow_sync
+ * Used by the Webflow sync (lib/webflow-sync.ts)
+ */
+export async function getEmployersNeedingWebflowSync(): Promise<EmployerRecord[]> {
+  if (!baseId || !apiKey) {
+    return [];
+  }
+
+  try {
+    const records = await base(EMPLOYERS_TABLE)
+      .select({
+        filterByFormula: `{needs_webflow_sync} = TRUE()`,
+      })
+      .all();
+
+    return records.map((record) =>
+      employerRecordSchema.parse({
+        id: record.id,
+        ...record.fields,
+        short_description: markdownToHtml(record.fields.short_description as string),
+      })
+    );
+  } catch (error: unknown) {
+    console.error("Error getting employers needing Webflow sync:", getErrorMessage(error));
+    return [];
+  }
+}
+
+/**
+ * Formula matching a record by its current slug or one of its previous_slugs
+ */
+function getSlugFormula(slug: string, options: { previousSlugs: boolean }): string {
+  const value = escapeAirtableString(slug);
+  return options.previousSlugs
+    ? `OR({slug} = '${value}', FIND('"${value}"', {previous_slugs}) > 0)`
+    : `{slug} = '${value}'`;
+}
+
+/**
+ * Get the employer with this slug
+ * Used for unique slugs (lib/slugs.ts)
+ */
+export async function getEmployerBySlug(slug: string): Promise<EmployerRecord | null> {
+  if (!baseId || !apiKey) {
+    return null;
+  }
+
+  try {
+    const records = await base(EMPLOYERS_TABLE)
+      .select({
+        filterByFormula: getSlugFormula(slug, { previousSlugs: false }),
+        maxRecords: 1,
+      })
+      .firstPage();
+
+    if (records.length === 0) return null;
+    return employerRecordSchema.parse({
+      id: records[0].id,
+      ...records[0].fields,
+      short_description: markdownToHtml(records[0].fields.short_description as string),
+    });
+  } catch (error: unknown) {
+    console.error("Error getting employer by slug:", getErrorMessage(error));
+    return null;
+  }
+}
+
 export async function deleteUser(id: string): Promise<void> {
   if (!baseId || !apiKey) {
     throw new Error("Airtable not configured");
@@ -1063,6 +1289,15 @@ export async function getTransactionsByWalletId(walletId: string): Promise<Trans
         : fields.user_id || null;
       const product_ids = Array.isArray(fields.product_ids) ? fields.product_ids : [];
       const invoice = Array.isArray(fields.invoice) ? fields.invoice : null;
+      const refund_of_id = Array.isArray(fields.refund_of)
+        ? fields.refund_of[0] || null
+        : fields.refund_of || null;
+      const transfer_employer_id = Array.isArray(fields.transfer_employer)
+        ? fields.transfer_employer[0] || null
+        : fields.transfer_employer || null;
+      const subscription_id = Array.isArray(fields.subscription)
+        ? fields.subscription[0] || null
+        : fields.subscription || null;
 
       return transactionRecordSchema.parse({
         id: record.id,
@@ -1073,6 +1308,9 @@ export async function getTransactionsByWalletId(walletId: string): Promise<Trans
         user_id,
         product_ids,
         invoice,
+        refund_of_id,
+        transfer_employer_id,
+        subscription_id,
       });
     });
   } catch (error: unknown) {
@@ -1152,6 +1390,18 @@ export async function getTransactionsByEmployerId(employerId: string): Promise<T
         invoice_trigger: (fields.invoice_trigger as "on_vacancy_publish") || null,
         expires_at: (fields.expires_at as string) || null,
         remaining_credits: (fields.remaining_credits as number) || null,
+        idempotency_key: (fields.idempotency_key as string) || null,
+        batch_allocations: (fields.batch_allocations as string) || null,
+        refund_of_id: Array.isArray(fields.refund_of) ? fields.refund_of[0] || null : null,
+        transfer_id: (fields.transfer_id as string) || null,
+        subscription_id: Array.isArray(fields.subscription) ? fields.subscription[0] || null : null,
+        invoice_number: (fields.invoice_number as string) || null,
+        invoice_date: (fields.invoice_date as string) || null,
+        credit_note_number: (fields.credit_note_number as string) || null,
+        credit_note_date: (fields.credit_note_date as string) || null,
+        promo_code: (fields.promo_code as string) || null,
+        discount_amount: (fields.discount_amount as number) || null,
+        bonus_credits: (fields.bonus_credits as number) || null,
         "created-at": fields["created-at"] as string | undefined,
       });
     });
@@ -1221,6 +1471,9 @@ export async function getTransactionsByVacancyId(vacancyId: string): Promise<Tra
         invoice_trigger: (fields.invoice_trigger as "on_vacancy_publish") || null,
         expires_at: (fields.expires_at as string) || null,
         remaining_credits: (fields.remaining_credits as number) || null,
+        idempotency_key: (fields.idempotency_key as string) || null,
+        batch_allocations: (fields.batch_allocations as string) || null,
+        refund_of_id: Array.isArray(fields.refund_of) ? fields.refund_of[0] || null : null,
         "created-at": fields["created-at"] as string | undefined,
       });
     });
@@ -1514,6 +1767,8 @@ export async function getFAQByEmployerId(employerId: string): Promise<FAQRecord[
         answer: fields.answer || "",
         order: fields.order || 0,
         created_at: fields.created_at as string | undefined,
+        webflow_item_id: (fields.webflow_item_id as string | undefined) || null,
+        slug: (fields.slug as string | undefined) || null,
       });
     });
   } catch (error: unknown) {
@@ -1558,6 +1813,8 @@ export async function createFAQ(fields: {
       answer: recordFields.answer || "",
       order: recordFields.order || 0,
       created_at: recordFields.created_at as string | undefined,
+      webflow_item_id: (recordFields.webflow_item_id as string | undefined) || null,
+      slug: (recordFields.slug as string | undefined) || null,
     });
   } catch (error: unknown) {
     console.error("Error creating FAQ:", getErrorMessage(error));
@@ -1581,6 +1838,8 @@ export async function updateFAQ(
   if (fields.question !== undefined) airtableFields.question = fields.question;
   if (fields.answer !== undefined) airtableFields.answer = fields.answer;
   if (fields.order !== undefined) airtableFields.order = fields.order;
+  if (fields.webflow_item_id !== undefined) airtableFields.webflow_item_id = fields.webflow_item_id;
+  if (fields.slug !== undefined) airtableFields.slug = fields.slug;
 
   const record = await base(FAQ_TABLE).update(id, airtableFields);
 
@@ -1596,6 +1855,8 @@ export async function updateFAQ(
     answer: recordFields.answer || "",
     order: recordFields.order || 0,
     created_at: recordFields.created_at as string | undefined,
+    webflow_item_id: (recordFields.webflow_item_id as string | undefined) || null,
+    slug: (recordFields.slug as string | undefined) || null,
   });
 }
 
@@ -1615,6 +1876,41 @@ export async function deleteFAQ(id: string): Promise<void> {
   }
 }
 
+/**
+ * Get the FAQ item with this slug
+ * Used for unique slugs (lib/slugs.ts)
+ */
+export async function getFAQBySlug(slug: string): Promise<FAQRecord | null> {
+  if (!baseId || !apiKey) {
+    return null;
+  }
+
+  try {
+    const records = await base(FAQ_TABLE)
+      .select({
+        filterByFormula: getSlugFormula(slug, { previousSlugs: false }),
+        maxRecords: 1,
+      })
+      .firstPage();
+
+    if (records.length === 0) return null;
+    const fields = records[0].fields;
+    return faqRecordSchema.parse({
+      id: records[0].id,
+      employer_id: Array.isArray(fields.employer) ? fields.employer[0] || null : fields.employer || null,
+      question: fields.question || "",
+      answer: fields.answer || "",
+      order: fields.order || 0,
+      created_at: fields.created_at as string | undefined,
+      webflow_item_id: (fields.webflow_item_id as string | undefined) || null,
+      slug: (fields.slug as string | undefined) || null,
+    });
+  } catch (error: unknown) {
+    console.error("Error getting FAQ by slug:", getErrorMessage(error));
+    return null;
+  }
+}
+
 /**
  * Get a single FAQ item by ID (for ownership verification)
  */
@@ -1636,6 +1932,8 @@ export async function getFAQById(id: string): Promise<FAQRecord | null> {
       answer: record.fields.answer || "",
       order: record.fields.order || 0,
       created_at: record.fields.created_at as string | undefined,
+      webflow_item_id: (record.fields.webflow_item_id as string | undefined) || null,
+      slug: (record.fields.slug as string | undefined) || null,
     });
   } catch {
     return null;
@@ -1815,12 +2113,14 @@ export async function getActiveProductsByType(
         availability,
         validity_months: fields.validity_months || null,
         credits_expiry_warning_days: fields.credits_expiry_warning_days || null,
+        closing_warning_days: fields.closing_warning_days || null,
         billing_cycle: fields.billing_cycle || null,
         repeat_mode: fields.repeat_mode || null,
         duration_days: fields.duration_days || null,
         duration_type: fields.duration_type || null,
         max_value: fields.max_value || null,
         cooldown_unit: fields.cooldown_unit || null,
+        webflow_item_id: fields.webflow_item_id || null,
       });
     });
   } catch (error: unknown) {
@@ -1887,12 +2187,14 @@ export async function getProductById(id: string): Promise<ProductRecord | null>
       availability,
       validity_months: fields.validity_months || null,
       credits_expiry_warning_days: fields.credits_expiry_warning_days || null,
+      closing_warning_days: fields.closing_warning_days || null,
       billing_cycle: fields.billing_cycle || null,
       repeat_mode: fields.repeat_mode || null,
       duration_days: fields.duration_days || null,
       duration_type: fields.duration_type || null,
       max_value: fields.max_value || null,
       cooldown_unit: fields.cooldown_unit || null,
+      webflow_item_id: fields.webflow_item_id || null,
     });
   } catch (error: unknown) {
     console.error("Error getting product by ID:", getErrorMessage(error));
@@ -1939,6 +2241,8 @@ export async function getFeaturesByIds(ids: string[]): Promise<FeatureRecord[]>
         sort_order: fields.sort_order || 0,
         products,
         package_category: fields.package_category || null,
+        duration_days: fields.duration_days || null,
+        webflow_item_id: fields.webflow_item_id || null,
       });
     });
   } catch (error: unknown) {
@@ -1978,6 +2282,8 @@ export async function getAllActiveFeatures(): Promise<FeatureRecord[]> {
         sort_order: fields.sort_order || 0,
         products,
         package_category: fields.package_category || null,
+        duration_days: fields.duration_days || null,
+        webflow_item_id: fields.webflow_item_id || null,
       });
     });
   } catch (error: unknown) {
@@ -1986,6 +2292,28 @@ export async function getAllActiveFeatures(): Promise<FeatureRecord[]> {
   }
 }
 
+/**
+ * Store the Webflow item ID of a product
+ */
+export async function updateProductWebflowItemId(id: string, webflowItemId: string): Promise<void> {
+  if (!baseId || !apiKey) {
+    throw new Error("Airtable not configured");
+  }
+
+  await base(PRODUCTS_TABLE).update(id, { webflow_item_id: webflowItemId });
+}
+
+/**
+ * Store the Webflow item ID of a feature
+ */
+export async function updateFeatureWebflowItemId(id: string, webflowItemId: string): Promise<void> {
+  if (!baseId || !apiKey) {
+    throw new Error("Airtable not configured");
+  }
+
+  await base(FEATURES_TABLE).update(id, { webflow_item_id: webflowItemId });
+}
+
 // ============================================
 // WALLET UPDATE FUNCTIONS
 // ============================================
@@ -2051,6 +2379,12 @@ export async function createPurchaseTransaction(fields: {
   context: TransactionRecord["context"];
   invoice_details_snapshot: string; // JSON string
   validity_months?: number | null; // Months until credits expire (from product)
+  idempotency_key?: string;
+  subscription_id?: string | null; // Yearly bundles: the subscription this purchase starts or renews
+  promo_code?: string | null; // Applied promo code (total_cost/total_credits already include it)
+  discount_amount?: number | null;
+  bonus_credits?: number | null;
+  remaining_credits?: number; // Defaults to total_credits; lower when the purchase settles an overdraft
 }): Promise<TransactionRecord> {
   if (!baseId || !apiKey) {
     throw new Error("Airtable not configured");
@@ -2084,7 +2418,12 @@ export async function createPurchaseTransaction(fields: {
     "created-at": createdAt.toISOString(),
     // Credit expiration fields
     expires_at: expiresAt.toISOString(),
-    remaining_credits: fields.total_credits, // Start with full amount
+    remaining_credits: fields.remaining_credits ?? fields.total_credits, // Start with full amount
+    ...(fields.idempotency_key ? { idempotency_key: fields.idempotency_key } : {}),
+    ...(fields.subscription_id ? { subscription: [fields.subscription_id] } : {}),
+    ...(fields.promo_code ? { promo_code: fields.promo_code } : {}),
+    ...(fields.discount_amount ? { discount_amount: fields.discount_amount } : {}),
+    ...(fields.bonus_credits ? { bonus_credits: fields.bonus_credits } : {}),
   };
 
   try {
@@ -2125,6 +2464,11 @@ export async function createPurchaseTransaction(fields: {
       invoice_trigger: null,
       expires_at: (recordFields.expires_at as string) || null,
       remaining_credits: (recordFields.remaining_credits as number) || null,
+      idempotency_key: (recordFields.idempotency_key as string) || null,
+      subscription_id: fields.subscription_id || null,
+      promo_code: fields.promo_code || null,
+      discount_amount: fields.discount_amount || null,
+      bonus_credits: fields.bonus_credits || null,
       "created-at": recordFields["created-at"] as string | undefined,
     });
   } catch (error: unknown) {
@@ -2254,6 +2598,13 @@ function parseVacancyFields(record: any): VacancyRecord {
     public_url: fields.public_url as string | undefined,
     needs_webflow_sync: fields.needs_webflow_sync as boolean | undefined,
     needs_webflow_archive: fields.needs_webflow_archive as boolean | undefined,
+    webflow_item_id: fields.webflow_item_id as string | undefined,
+    slug: fields.slug as string | undefined,
+    previous_slugs: fields.previous_slugs as string | undefined,
+    seo_title: fields.seo_title as string | undefined,
+    seo_meta_description: fields.seo_meta_description as string | undefined,
+    seo_custom: fields.seo_custom as boolean | undefined,
+    syndication_opt_out: fields.syndication_opt_out as boolean | undefined,
     high_priority: fields.high_priority as boolean | undefined,
     is_featured: fields.is_featured as boolean | undefined,
     "featured-at": fields["featured-at"] as string | undefined,
@@ -2266,7 +2617,10 @@ function parseVacancyFields(record: any): VacancyRecord {
     "depublished-at": fields["depublished-at"] as string | undefined,
     "last-status_changed-at": fields["last-status_changed-at"] as string | undefined,
     closing_date: fields.closing_date as string | undefined,
+    closing_warning_sent_at: fields.closing_warning_sent_at as string | undefined,
     rejection_reason: fields.rejection_reason as string | undefined,
+    publish_from: fields.publish_from as string | undefined,
+    depublish_at: fields.depublish_at as string | undefined,
   });
 }
 
@@ -2306,10 +2660,10 @@ export async function getVacanciesByEmployerId(
     // Add status filter if specified
     if (options?.status) {
       if (Array.isArray(options.status)) {
-        const statusFilters = options.status.map(s => `{status} = '${s}'`).join(", ");
+        const statusFilters = options.status.map(s => `{status} = '${VACANCY_STATUS_TO_AIRTABLE[s]}'`).join(", ");
         filterFormula = `AND(${filterFormula}, OR(${statusFilters}))`;
       } else {
-        filterFormula = `AND(${filterFormula}, {status} = '${options.status}')`;
+        filterFormula = `AND(${filterFormula}, {status} = '${VACANCY_STATUS_TO_AIRTABLE[options.status]}')`;
       }
     }
 
@@ -2328,84 +2682,300 @@ export async function getVacanciesByEmployerId(
 }
 
 /**
- * Create a new vacancy (as concept)
+ * Get submitted vacancies waiting for approval by the CJ team (oldest submission first)
+ * Used by the admin review queue
  */
-export async function createVacancy(fields: {
-  employer_id: string;
-  user_id: string;
-  title?: string;
-  input_type?: VacancyInputType;
-  package_id?: string;
-}): Promise<VacancyRecord> {
+export async function getVacanciesAwaitingApproval(): Promise<VacancyRecord[]> {
   if (!baseId || !apiKey) {
-    throw new Error("Airtable not configured");
+    return [];
   }
 
-  const airtableFields: Record<string, any> = {
-    employer: [fields.employer_id], // Linked record requires array
-    users: [fields.user_id], // Linked record requires array
-    status: mapVacancyStatusToAirtable("concept"),
-    input_type: fields.input_type || "self_service",
-    "created-at": new Date().toISOString(),
-    "updated-at": new Date().toISOString(),
-  };
+  try {
+    const records = await base(VACANCIES_TABLE)
+      .select({
+        filterByFormula: `{status} = '${VACANCY_STATUS_TO_AIRTABLE.wacht_op_goedkeuring}'`,
+        sort: [{ field: "submitted-at", direction: "asc" }],
+      })
+      .all();
 
-  if (fields.title) airtableFields.title = fields.title;
-  if (fields.package_id) airtableFields.package = [fields.package_id];
+    return records.map(parseVacancyFields);
+  } catch (error: unknown) {
+    console.error("Error getting vacancies awaiting approval:", getErrorMessage(error));
+    return [];
+  }
+}
+
+/**
+ * Get scheduled vacancies whose publish_from moment has been reached
+ * Used by the publish-scheduled-vacancies job
+ */
+export async function getVacanciesDueForPublication(): Promise<VacancyRecord[]> {
+  if (!baseId || !apiKey) {
+    return [];
+  }
 
   try {
-    const record = await base(VACANCIES_TABLE).create(airtableFields);
+    const now = new Date().toISOString();
+    const records = await base(VACANCIES_TABLE)
+      .select({
+        filterByFormula: `AND(
+          {status} = '${VACANCY_STATUS_TO_AIRTABLE.ingepland}',
+          {publish_from},
+          NOT(IS_AFTER({publish_from}, '${now}'))
+        )`,
+        sort: [{ field: "publish_from", direction: "asc" }],
+      })
+      .all();
 
-    return parseVacancyFields(record);
+    return records.map(parseVacancyFields);
   } catch (error: unknown) {
-    console.error("Error creating vacancy:", getErrorMessage(error));
-    throw new Error(`Failed to create vacancy: ${getErrorMessage(error)}`);
+    console.error("Error getting vacancies due for publication:", getErrorMessage(error));
+    return [];
   }
 }
 
 /**
- * Update a vacancy
+ * Get published vacancies whose depublish_at moment has been reached
+ * Used by the publish-scheduled-vacancies job
  */
-export async function updateVacancy(
-  id: string,
-  fields: Partial<Omit<VacancyRecord, "id" | "employer_id" | "credits_spent" | "credit_transactions" | "events">>
-): Promise<VacancyRecord> {
+export async function getVacanciesDueForDepublication(): Promise<VacancyRecord[]> {
   if (!baseId || !apiKey) {
-    throw new Error("Airtable not configured");
+    return [];
   }
 
-  const airtableFields: Record<string, any> = {
-    "updated-at": new Date().toISOString(),
-  };
+  try {
+    const now = new Date().toISOString();
+    const records = await base(VACANCIES_TABLE)
+      .select({
+        filterByFormula: `AND(
+          {status} = '${VACANCY_STATUS_TO_AIRTABLE.gepubliceerd}',
+          {depublish_at},
+          NOT(IS_AFTER({depublish_at}, '${now}'))
+        )`,
+        sort: [{ field: "depublish_at", direction: "asc" }],
+      })
+      .all();
 
-  // Map fields to Airtable field names
-  if (fields.title !== undefined) airtableFields.title = fields.title;
-  if (fields.status !== undefined) {
-    airtableFields.status = mapVacancyStatusToAirtable(fields.status);
-    airtableFields["last-status_changed-at"] = new Date().toISOString();
-  }
-  if (fields.input_type !== undefined) airtableFields.input_type = fields.input_type;
-  if (fields.intro_txt !== undefined) airtableFields.intro_txt = fields.intro_txt;
-  if (fields.description !== undefined) airtableFields.description = htmlToMarkdown(fields.description);
-  if (fields.location !== undefined) airtableFields.location = fields.location;
-  if (fields.hrs_per_week !== undefined) airtableFields.hrs_per_week = fields.hrs_per_week;
-  if (fields.salary !== undefined) airtableFields.salary = fields.salary;
-  if (fields.closing_date !== undefined) airtableFields.closing_date = fields.closing_date;
-  
-  // Linked lookup fields
-  if (fields.education_level_id !== undefined) {
-    airtableFields.education_level = fields.education_level_id ? [fields.education_level_id] : [];
+    return records.map(parseVacancyFields);
+  } catch (error: unknown) {
+    console.error("Error getting vacancies due for depublication:", getErrorMessage(error));
+    return [];
   }
-  if (fields.field_id !== undefined) {
-    airtableFields.field = fields.field_id ? [fields.field_id] : [];
+}
+
+/**
+ * Get published vacancies whose closing_date has passed
+ * Used by the expire-vacancies job
+ */
+export async function getExpiredVacancies(): Promise<VacancyRecord[]> {
+  if (!baseId || !apiKey) {
+    return [];
   }
-  if (fields.function_type_id !== undefined) {
-    airtableFields.function_type = fields.function_type_id ? [fields.function_type_id] : [];
+
+  try {
+    const records = await base(VACANCIES_TABLE)
+      .select({
+        filterByFormula: `AND(
+          {status} = '${VACANCY_STATUS_TO_AIRTABLE.gepubliceerd}',
+          {closing_date},
+          IS_BEFORE({closing_date}, TODAY())
+        )`,
+        sort: [{ field: "closing_date", direction: "asc" }],
+      })
+      .all();
+
+    return records.map(parseVacancyFields);
+  } catch (error: unknown) {
+    console.error("Error getting expired vacancies:", getErrorMessage(error));
+    return [];
   }
-  if (fields.region_id !== undefined) {
-    airtableFields.region = fields.region_id ? [fields.region_id] : [];
+}
+
+/**
+ * Get vacancies flagged with needs_webflow_sync or needs_webflow_archive (least recently updated first)
+ * Used by the Webflow sync (lib/webflow-sync.ts)
+ */
+export async function getVacanciesNeedingWebflowSync(): Promise<VacancyRecord[]> {
+  if (!baseId || !apiKey) {
+    return [];
   }
-  if (fields.sector_id !== undefined) {
+
+  try {
+    const records = await base(VACANCIES_TABLE)
+      .select({
+        filterByFormula: `OR({needs_webflow_sync} = TRUE(), {needs_webflow_archive} = TRUE())`,
+        sort: [{ field: "updated-at", direction: "asc" }],
+      })
+      .all();
+
+    return records.map(parseVacancyFields);
+  } catch (error: unknown) {
+    console.error("Error getting vacancies needing Webflow sync:", getErrorMessage(error));
+    return [];
+  }
+}
+
+/**
+ * Get published vacancies that aren't opted out of syndication (most recently published first)
+ * Used by the job feeds (lib/job-feed.ts)
+ * Throws when the query fails: an empty feed would make aggregators drop every vacancy.
+ */
+export async function getSyndicatedVacancies(): Promise<VacancyRecord[]> {
+  if (!baseId || !apiKey) {
+    return [];
+  }
+
+  try {
+    const records = await base(VACANCIES_TABLE)
+      .select({
+        filterByFormula: `AND(
+          {status} = '${VACANCY_STATUS_TO_AIRTABLE.gepubliceerd}',
+          NOT({syndication_opt_out})
+        )`,
+        sort: [{ field: "first-published-at", direction: "desc" }],
+      })
+      .all();
+
+    return records.map(parseVacancyFields);
+  } catch (error: unknown) {
+    throw new Error(`Failed to get syndicated vacancies: ${getErrorMessage(error)}`);
+  }
+}
+
+/**
+ * Get the vacancy with this slug, current or previous
+ * Used for unique slugs and redirects (lib/slugs.ts)
+ */
+export async function getVacancyBySlug(slug: string): Promise<VacancyRecord | null> {
+  if (!baseId || !apiKey) {
+    return null;
+  }
+
+  try {
+    const records = await base(VACANCIES_TABLE)
+      .select({
+        filterByFormula: getSlugFormula(slug, { previousSlugs: true }),
+        maxRecords: 1,
+      })
+      .firstPage();
+
+    return records.length > 0 ? parseVacancyFields(records[0]) : null;
+  } catch (error: unknown) {
+    console.error("Error getting vacancy by slug:", getErrorMessage(error));
+    return null;
+  }
+}
+
+/**
+ * Get published vacancies closing within the given number of days
+ * that have not received an expiry warning yet
+ * Used by the expire-vacancies job
+ */
+export async function getVacanciesClosingSoon(withinDays: number): Promise<VacancyRecord[]> {
+  if (!baseId || !apiKey) {
+    return [];
+  }
+
+  try {
+    const records = await base(VACANCIES_TABLE)
+      .select({
+        filterByFormula: `AND(
+          {status} = '${VACANCY_STATUS_TO_AIRTABLE.gepubliceerd}',
+          {closing_date},
+          {closing_warning_sent_at} = BLANK(),
+          NOT(IS_BEFORE({closing_date}, TODAY())),
+          NOT(IS_AFTER({closing_date}, DATEADD(TODAY(), ${withinDays}, 'days')))
+        )`,
+        sort: [{ field: "closing_date", direction: "asc" }],
+      })
+      .all();
+
+    return records.map(parseVacancyFields);
+  } catch (error: unknown) {
+    console.error("Error getting vacancies closing soon:", getErrorMessage(error));
+    return [];
+  }
+}
+
+/**
+ * Create a new vacancy (as concept)
+ */
+export async function createVacancy(fields: {
+  employer_id: string;
+  user_id: string;
+  title?: string;
+  input_type?: VacancyInputType;
+  package_id?: string;
+}): Promise<VacancyRecord> {
+  if (!baseId || !apiKey) {
+    throw new Error("Airtable not configured");
+  }
+
+  const airtableFields: Record<string, any> = {
+    employer: [fields.employer_id], // Linked record requires array
+    users: [fields.user_id], // Linked record requires array
+    status: mapVacancyStatusToAirtable("concept"),
+    input_type: fields.input_type || "self_service",
+    "created-at": new Date().toISOString(),
+    "updated-at": new Date().toISOString(),
+  };
+
+  if (fields.title) airtableFields.title = fields.title;
+  if (fields.package_id) airtableFields.package = [fields.package_id];
+
+  try {
+    const record = await base(VACANCIES_TABLE).create(airtableFields);
+
+    return parseVacancyFields(record);
+  } catch (error: unknown) {
+    console.error("Error creating vacancy:", getErrorMessage(error));
+    throw new Error(`Failed to create vacancy: ${getErrorMessage(error)}`);
+  }
+}
+
+/**
+ * Update a vacancy
+ */
+export async function updateVacancy(
+  id: string,
+  fields: Partial<Omit<VacancyRecord, "id" | "employer_id" | "credits_spent" | "credit_transactions" | "events">>
+): Promise<VacancyRecord> {
+  if (!baseId || !apiKey) {
+    throw new Error("Airtable not configured");
+  }
+
+  const airtableFields: Record<string, any> = {
+    "updated-at": new Date().toISOString(),
+  };
+
+  // Map fields to Airtable field names
+  if (fields.title !== undefined) airtableFields.title = fields.title;
+  if (fields.status !== undefined) {
+    airtableFields.status = mapVacancyStatusToAirtable(fields.status);
+    airtableFields["last-status_changed-at"] = new Date().toISOString();
+  }
+  if (fields.input_type !== undefined) airtableFields.input_type = fields.input_type;
+  if (fields.intro_txt !== undefined) airtableFields.intro_txt = fields.intro_txt;
+  if (fields.description !== undefined) airtableFields.description = htmlToMarkdown(fields.description);
+  if (fields.location !== undefined) airtableFields.location = fields.location;
+  if (fields.hrs_per_week !== undefined) airtableFields.hrs_per_week = fields.hrs_per_week;
+  if (fields.salary !== undefined) airtableFields.salary = fields.salary;
+  if (fields.closing_date !== undefined) airtableFields.closing_date = fields.closing_date;
+  
+  // Linked lookup fields
+  if (fields.education_level_id !== undefined) {
+    airtableFields.education_level = fields.education_level_id ? [fields.education_level_id] : [];
+  }
+  if (fields.field_id !== undefined) {
+    airtableFields.field = fields.field_id ? [fields.field_id] : [];
+  }
+  if (fields.function_type_id !== undefined) {
+    airtableFields.function_type = fields.function_type_id ? [fields.function_type_id] : [];
+  }
+  if (fields.region_id !== undefined) {
+    airtableFields.region = fields.region_id ? [fields.region_id] : [];
+  }
+  if (fields.sector_id !== undefined) {
     airtableFields.sector = fields.sector_id ? [fields.sector_id] : [];
   }
   
@@ -2457,6 +3027,18 @@ export async function updateVacancy(
   // Webflow sync
   if (fields.needs_webflow_sync !== undefined) airtableFields.needs_webflow_sync = fields.needs_webflow_sync;
   if (fields.needs_webflow_archive !== undefined) airtableFields.needs_webflow_archive = fields.needs_webflow_archive;
+  if (fields.webflow_item_id !== undefined) airtableFields.webflow_item_id = fields.webflow_item_id;
+  if (fields.public_url !== undefined) airtableFields.public_url = fields.public_url;
+  if (fields.slug !== undefined) airtableFields.slug = fields.slug;
+  if (fields.previous_slugs !== undefined) airtableFields.previous_slugs = fields.previous_slugs;
+
+  // SEO
+  if (fields.seo_title !== undefined) airtableFields.seo_title = fields.seo_title;
+  if (fields.seo_meta_description !== undefined) airtableFields.seo_meta_description = fields.seo_meta_description;
+  if (fields.seo_custom !== undefined) airtableFields.seo_custom = fields.seo_custom;
+
+  // Job feeds
+  if (fields.syndication_opt_out !== undefined) airtableFields.syndication_opt_out = fields.syndication_opt_out;
 
   // Rejection reason
   if (fields.rejection_reason !== undefined) airtableFields.rejection_reason = fields.rejection_reason;
@@ -2467,6 +3049,13 @@ export async function updateVacancy(
   if (fields["last-published-at"] !== undefined) airtableFields["last-published-at"] = fields["last-published-at"];
   if (fields["depublished-at"] !== undefined) airtableFields["depublished-at"] = fields["depublished-at"];
 
+  // Expiry warning
+  if (fields.closing_warning_sent_at !== undefined) airtableFields.closing_warning_sent_at = fields.closing_warning_sent_at;
+
+  // Scheduled publication
+  if (fields.publish_from !== undefined) airtableFields.publish_from = fields.publish_from;
+  if (fields.depublish_at !== undefined) airtableFields.depublish_at = fields.depublish_at;
+
   try {
     const record = await base(VACANCIES_TABLE).update(id, airtableFields);
     return parseVacancyFields(record);
@@ -2516,6 +3105,10 @@ async function getLookupRecords(tableName: string): Promise<LookupRecord[]> {
       lookupRecordSchema.parse({
         id: record.id,
         name: record.fields.name || "",
+        webflow_item_id: record.fields.webflow_item_id || null,
+        slug: record.fields.slug || null,
+        seo_title: record.fields.seo_title || null,
+        seo_meta_description: record.fields.seo_meta_description || null,
       })
     );
   } catch (error: unknown) {
@@ -2574,6 +3167,10 @@ export async function getSectorById(id: string): Promise<LookupRecord | null> {
     return lookupRecordSchema.parse({
       id: record.id,
       name: record.fields.name || "",
+      webflow_item_id: record.fields.webflow_item_id || null,
+      slug: record.fields.slug || null,
+      seo_title: record.fields.seo_title || null,
+      seo_meta_description: record.fields.seo_meta_description || null,
     });
   } catch (error: unknown) {
     console.error("Error getting sector by ID:", getErrorMessage(error));
@@ -2581,6 +3178,35 @@ export async function getSectorById(id: string): Promise<LookupRecord | null> {
   }
 }
 
+const LOOKUP_TABLES: Record<LookupType, string> = {
+  educationLevels: EDUCATION_LEVELS_TABLE,
+  fields: FIELDS_TABLE,
+  functionTypes: FUNCTION_TYPES_TABLE,
+  regions: REGIONS_TABLE,
+  sectors: SECTORS_TABLE,
+};
+
+/**
+ * Store the Webflow item ID, slug and SEO texts of a lookup record
+ */
+export async function updateLookupWebflowFields(
+  type: LookupType,
+  id: string,
+  fields: LookupWebflowFields
+): Promise<void> {
+  if (!baseId || !apiKey) {
+    throw new Error("Airtable not configured");
+  }
+
+  const airtableFields: Partial<Airtable.FieldSet> = {};
+  if (fields.webflow_item_id !== undefined) airtableFields.webflow_item_id = fields.webflow_item_id || "";
+  if (fields.slug !== undefined) airtableFields.slug = fields.slug || "";
+  if (fields.seo_title !== undefined) airtableFields.seo_title = fields.seo_title || "";
+  if (fields.seo_meta_description !== undefined) airtableFields.seo_meta_description = fields.seo_meta_description || "";
+
+  await base(LOOKUP_TABLES[type]).update(id, airtableFields);
+}
+
 /**
  * Get all lookup values at once
  * Useful for forms that need all dropdowns
@@ -2680,6 +3306,8 @@ export async function createSpendTransaction(fields: {
   // Optional invoice fields for partial payment (when credits are insufficient)
   invoice_details_snapshot?: string;
   invoice_trigger?: "on_vacancy_publish";
+  // Optional: idempotency key so a retried request can't charge twice
+  idempotency_key?: string;
 }): Promise<TransactionRecord> {
   if (!baseId || !apiKey) {
     throw new Error("Airtable not configured");
@@ -2705,6 +3333,7 @@ export async function createSpendTransaction(fields: {
     context: fields.context || "vacancy",
     "created-at": new Date().toISOString(),
     ...(fields.expires_at ? { expires_at: fields.expires_at } : {}),
+    ...(fields.idempotency_key ? { idempotency_key: fields.idempotency_key } : {}),
   };
 
   // Add invoice fields if partial payment (credits insufficient)
@@ -2754,6 +3383,7 @@ export async function createSpendTransaction(fields: {
       invoice_details_snapshot: (recordFields.invoice_details_snapshot as string) || null,
       invoice_trigger: (recordFields.invoice_trigger as "on_vacancy_publish") || null,
       expires_at: (recordFields.expires_at as string) || null,
+      idempotency_key: (recordFields.idempotency_key as string) || null,
       "created-at": recordFields["created-at"] as string | undefined,
     });
   } catch (error: unknown) {
@@ -2896,6 +3526,8 @@ export async function createSession(
 
 /**
  * Credit batch type for FIFO operations
+ * A batch is a purchase transaction, or an incoming transfer adjustment
+ * (which keeps the expires_at of the batch it was transferred from)
  */
 export interface CreditBatch {
   id: string;
@@ -2908,7 +3540,7 @@ export interface CreditBatch {
 
 /**
  * Get all active (non-expired) credit batches for an employer
- * Returns purchase transactions sorted by expires_at ASC (FIFO - oldest first)
+ * Returns purchase/adjustment transactions sorted by expires_at ASC (FIFO - oldest first)
  * Only returns batches with remaining_credits > 0 and expires_at > now
  */
 export async function getActiveCreditBatches(employerId: string): Promise<CreditBatch[]> {
@@ -2919,12 +3551,12 @@ export async function getActiveCreditBatches(employerId: string): Promise<Credit
   try {
     const now = new Date().toISOString();
     
-    // Find purchase transactions with remaining credits that haven't expired
+    // Find credit batches (purchases and incoming transfers) with remaining credits that haven't expired
     const records = await base(TRANSACTIONS_TABLE)
       .select({
         filterByFormula: `AND(
           {employer_record_id} = '${escapeAirtableString(employerId)}',
-          {type} = 'purchase',
+          OR({type} = 'purchase', {type} = 'adjustment'),
           {remaining_credits} > 0,
           IS_AFTER({expires_at}, '${now}')
         )`,
@@ -2956,6 +3588,54 @@ export async function getActiveCreditBatches(employerId: string): Promise<Credit
   }
 }
 
+/**
+ * Get all active (non-expired) credit batches in a wallet
+ * Same as getActiveCreditBatches, but also works for intermediary wallets (no employer)
+ */
+export async function getActiveCreditBatchesByWalletId(walletId: string): Promise<CreditBatch[]> {
+  if (!baseId || !apiKey) {
+    return [];
+  }
+
+  try {
+    const now = new Date().toISOString();
+
+    const records = await base(TRANSACTIONS_TABLE)
+      .select({
+        filterByFormula: `AND(
+          FIND('${escapeAirtableString(walletId)}', ARRAYJOIN({wallet})),
+          OR({type} = 'purchase', {type} = 'adjustment'),
+          {remaining_credits} > 0,
+          IS_AFTER({expires_at}, '${now}')
+        )`,
+        sort: [{ field: "expires_at", direction: "asc" }], // FIFO: oldest expires first
+      })
+      .all();
+
+    return records.map((record) => {
+      const fields = record.fields;
+      const employer_id = Array.isArray(fields.employer)
+        ? fields.employer[0] || null
+        : fields.employer || null;
+      const wallet_id = Array.isArray(fields.wallet)
+        ? fields.wallet[0] || null
+        : fields.wallet || null;
+
+      return {
+        id: record.id,
+        employer_id: employer_id as string | null,
+        wallet_id: wallet_id as string | null,
+        remaining_credits: (fields.remaining_credits as number) || 0,
+        expires_at: fields.expires_at as string,
+        "created-at": fields["created-at"] as string | undefined,
+      };
+    });
+  } catch (error: unknown) {
+    console.error("Error getting active credit batches by wallet:", getErrorMessage(error));
+    return [];
+  }
+}
+
 /**
  * Get credits that are expiring soon for an employer
  * Returns the total credits expiring and the earliest expiration date
@@ -2984,16 +3664,16 @@ export async function getExpiringCredits(
     const nowISO = now.toISOString();
     const futureDateISO = futureDate.toISOString();
     
-    // Find purchase transactions that:
+    // Find credit batches that:
     // - Belong to this employer
-    // - Are purchase type
+    // - Are purchase or (incoming transfer) adjustment type
     // - Have remaining credits > 0
     // - Expire after now but before the future date (within X days)
     const records = await base(TRANSACTIONS_TABLE)
       .select({
         filterByFormula: `AND(
           {employer_record_id} = '${escapeAirtableString(employerId)}',
-          {type} = 'purchase',
+          OR({type} = 'purchase', {type} = 'adjustment'),
           {remaining_credits} > 0,
           IS_AFTER({expires_at}, '${nowISO}'),
           IS_BEFORE({expires_at}, '${futureDateISO}')
@@ -3164,11 +3844,11 @@ export async function getExpiredCreditBatches(): Promise<CreditBatch[]> {
   try {
     const now = new Date().toISOString();
     
-    // Find purchase transactions that have expired but still have remaining credits
+    // Find credit batches that have expired but still have remaining credits
     const records = await base(TRANSACTIONS_TABLE)
       .select({
         filterByFormula: `AND(
-          {type} = 'purchase',
+          OR({type} = 'purchase', {type} = 'adjustment'),
           {remaining_credits} > 0,
           IS_BEFORE({expires_at}, '${now}')
         )`,
@@ -3200,11 +3880,64 @@ export async function getExpiredCreditBatches(): Promise<CreditBatch[]> {
   }
 }
 
+/**
+ * Get credit batches (all wallets) that expire within the warning window
+ * and have not had an expiry reminder yet
+ * Sorted by expires_at ASC
+ */
+export async function getExpiringCreditBatches(withinDays: number): Promise<CreditBatch[]> {
+  if (!baseId || !apiKey) {
+    return [];
+  }
+
+  try {
+    const now = new Date();
+    const futureDate = new Date();
+    futureDate.setDate(futureDate.getDate() + withinDays);
+
+    const records = await base(TRANSACTIONS_TABLE)
+      .select({
+        filterByFormula: `AND(
+          OR({type} = 'purchase', {type} = 'adjustment'),
+          {remaining_credits} > 0,
+          {expiry_warning_sent_at} = BLANK(),
+          IS_AFTER({expires_at}, '${now.toISOString()}'),
+          IS_BEFORE({expires_at}, '${futureDate.toISOString()}')
+        )`,
+        sort: [{ field: "expires_at", direction: "asc" }],
+      })
+      .all();
+
+    return records.map((record) => {
+      const fields = record.fields;
+      const employer_id = Array.isArray(fields.employer)
+        ? fields.employer[0] || null
+        : fields.employer || null;
+      const wallet_id = Array.isArray(fields.wallet)
+        ? fields.wallet[0] || null
+        : fields.wallet || null;
+
+      return {
+        id: record.id,
+        employer_id: employer_id as string | null,
+        wallet_id: wallet_id as string | null,
+        remaining_credits: (fields.remaining_credits as number) || 0,
+        expires_at: fields.expires_at as string,
+        "created-at": fields["created-at"] as string | undefined,
+      };
+    });
+  } catch (error: unknown) {
+    console.error("Error getting expiring credit batches:", getErrorMessage(error));
+    return [];
+  }
+}
+
 /**
  * Process a single expired credit batch
  * - Sets remaining_credits to 0
  * - Deducts from wallet balance
  * - Creates an expiration transaction for audit
+ * Works from the wallet: batches in intermediary wallets have no employer
  */
 export async function processExpiredCreditBatch(batch: CreditBatch): Promise<{
   success: boolean;
@@ -3215,8 +3948,8 @@ export async function processExpiredCreditBatch(batch: CreditBatch): Promise<{
     return { success: false, creditsExpired: 0, error: "Airtable not configured" };
   }
 
-  if (!batch.wallet_id || !batch.employer_id) {
-    return { success: false, creditsExpired: 0, error: "Missing wallet or employer ID" };
+  if (!batch.wallet_id) {
+    return { success: false, creditsExpired: 0, error: "Missing wallet ID" };
   }
 
   const creditsToExpire = batch.remaining_credits;
@@ -3242,7 +3975,7 @@ export async function processExpiredCreditBatch(batch: CreditBatch): Promise<{
 
     // 3. Create an expiration transaction for audit trail
     await base(TRANSACTIONS_TABLE).create({
-      employer: [batch.employer_id],
+      ...(batch.employer_id && { employer: [batch.employer_id] }),
       wallet: [batch.wallet_id],
       type: "expiration",
       status: "paid", // Expiration is always "completed"
@@ -3257,3 +3990,1040 @@ export async function processExpiredCreditBatch(batch: CreditBatch): Promise<{
     return { success: false, creditsExpired: 0, error: getErrorMessage(error) };
   }
 }
+
+// ============================================
+// LEDGER SUPPORT FUNCTIONS
+// ============================================
+
+/**
+ * Helper to parse a transaction record (linked fields → single IDs)
+ */
+function parseTransactionFields(record: { id: string; fields: Record<string, unknown> }): TransactionRecord {
+  const fields = record.fields;
+  const first = (value: unknown) => (Array.isArray(value) ? value[0] || null : value || null);
+
+  return transactionRecordSchema.parse({
+    id: record.id,
+    employer_id: first(fields.employer),
+    wallet_id: first(fields.wallet),
+    user_id: first(fields.user),
+    vacancy_id: first(fields.vacancy),
+    product_ids: Array.isArray(fields.product_id) ? fields.product_id : [],
+    type: fields.type,
+    reference_type: fields.reference_type || null,
+    context: (fields.context as string) || null,
+    status: fields.status,
+    total_cost: fields.total_cost ?? null,
+    total_credits: fields.total_credits ?? null,
+    credits_shortage: fields.credits_shortage || null,
+    credits_invoiced: fields.credits_invoiced || null,
+    vacancy_name: first(fields.vacancy_name),
+    invoice: fields.invoice || null,
+    invoice_details_snapshot: (fields.invoice_details_snapshot as string) || null,
+    invoice_trigger: (fields.invoice_trigger as "on_vacancy_publish") || null,
+    expires_at: (fields.expires_at as string) || null,
+    remaining_credits: (fields.remaining_credits as number) || null,
+    idempotency_key: (fields.idempotency_key as string) || null,
+    batch_allocations: (fields.batch_allocations as string) || null,
+    refund_of_id: first(fields.refund_of),
+    transfer_id: (fields.transfer_id as string) || null,
+    transfer_employer_id: first(fields.transfer_employer),
+    expiry_warning_sent_at: (fields.expiry_warning_sent_at as string) || null,
+    subscription_id: first(fields.subscription),
+    invoice_number: (fields.invoice_number as string) || null,
+    invoice_date: (fields.invoice_date as string) || null,
+    credit_note_number: (fields.credit_note_number as string) || null,
+    credit_note_date: (fields.credit_note_date as string) || null,
+    promo_code: (fields.promo_code as string) || null,
+    discount_amount: (fields.discount_amount as number) || null,
+    bonus_credits: (fields.bonus_credits as number) || null,
+    "created-at": fields["created-at"] as string | undefined,
+  });
+}
+
+/**
+ * Get a transaction by ID
+ */
+export async function getTransactionById(id: string): Promise<TransactionRecord | null> {
+  if (!baseId || !apiKey) {
+    return null;
+  }
+
+  try {
+    const record = await base(TRANSACTIONS_TABLE).find(id);
+    return parseTransactionFields(record);
+  } catch (error: unknown) {
+    console.error("Error getting transaction by ID:", getErrorMessage(error));
+    return null;
+  }
+}
+
+/**
+ * Create a refund transaction linked to the spend it refunds
+ * total_credits is the number of credits returned to the wallet
+ */
+export async function createRefundTransaction(fields: {
+  refund_of_id: string; // The spend transaction being refunded
+  employer_id?: string | null;
+  wallet_id: string;
+  user_id?: string | null; // User who initiated the refund (null for admin/system)
+  vacancy_id?: string | null;
+  product_ids: string[];
+  total_credits: number;
+  total_cost: number; // Euro value of the refunded credits
+  context?: TransactionRecord["context"];
+  reference_type: "vacancy" | "admin";
+  idempotency_key?: string;
+}): Promise<TransactionRecord> {
+  if (!baseId || !apiKey) {
+    throw new Error("Airtable not configured");
+  }
+
+  const airtableFields: Partial<Airtable.FieldSet> = {
+    refund_of: [fields.refund_of_id],
+    wallet: [fields.wallet_id],
+    product_id: fields.product_ids,
+    type: "refund",
+    status: "paid",
+    total_credits: fields.total_credits,
+    total_cost: fields.total_cost,
+    reference_type: fields.reference_type,
+    context: fields.context || "vacancy",
+    "created-at": new Date().toISOString(),
+  };
+  if (fields.employer_id) airtableFields.employer = [fields.employer_id];
+  if (fields.user_id) airtableFields.user = [fields.user_id];
+  if (fields.vacancy_id) airtableFields.vacancy = [fields.vacancy_id];
+  if (fields.idempotency_key) airtableFields.idempotency_key = fields.idempotency_key;
+
+  try {
+    const record = await base(TRANSACTIONS_TABLE).create(airtableFields);
+    return parseTransactionFields(record);
+  } catch (error: unknown) {
+    console.error("Error creating refund transaction:", getErrorMessage(error));
+    throw new Error(`Failed to create refund transaction: ${getErrorMessage(error)}`);
+  }
+}
+
+/**
+ * Create an adjustment transaction for one side of a wallet transfer
+ * total_credits is signed: negative leaves the wallet, positive arrives.
+ * An incoming adjustment with expires_at/remaining_credits is a credit batch (FIFO).
+ */
+export async function createAdjustmentTransaction(fields: {
+  wallet_id: string;
+  employer_id?: string | null; // Only for employer wallets
+  user_id: string; // User who initiated the transfer
+  total_credits: number;
+  context?: TransactionRecord["context"];
+  transfer_id: string;
+  transfer_employer_id?: string | null; // Managed employer on the other side (intermediary wallet only)
+  expires_at?: string | null;
+  remaining_credits?: number | null;
+  idempotency_key?: string;
+}): Promise<TransactionRecord> {
+  if (!baseId || !apiKey) {
+    throw new Error("Airtable not configured");
+  }
+
+  const airtableFields: Partial<Airtable.FieldSet> = {
+    wallet: [fields.wallet_id],
+    user: [fields.user_id],
+    type: "adjustment",
+    status: "paid",
+    total_credits: fields.total_credits,
+    context: fields.context || "dashboard",
+    transfer_id: fields.transfer_id,
+    "created-at": new Date().toISOString(),
+  };
+  if (fields.employer_id) airtableFields.employer = [fields.employer_id];
+  if (fields.transfer_employer_id) airtableFields.transfer_employer = [fields.transfer_employer_id];
+  if (fields.expires_at) airtableFields.expires_at = fields.expires_at;
+  if (fields.remaining_credits != null) airtableFields.remaining_credits = fields.remaining_credits;
+  if (fields.idempotency_key) airtableFields.idempotency_key = fields.idempotency_key;
+
+  try {
+    const record = await base(TRANSACTIONS_TABLE).create(airtableFields);
+    return parseTransactionFields(record);
+  } catch (error: unknown) {
+    console.error("Error creating adjustment transaction:", getErrorMessage(error));
+    throw new Error(`Failed to create adjustment transaction: ${getErrorMessage(error)}`);
+  }
+}
+
+/**
+ * Get a transaction by its idempotency key
+ * Used by the ledger to detect retried requests. Failed and refunded transactions
+ * are ignored so a rolled back or refunded charge can be made again with the same key.
+ * Throws when the lookup fails, so a charge never runs on an unknown key state.
+ */
+export async function getTransactionByIdempotencyKey(key: string): Promise<TransactionRecord | null> {
+  if (!baseId || !apiKey) {
+    return null;
+  }
+
+  try {
+    const records = await base(TRANSACTIONS_TABLE)
+      .select({
+        filterByFormula: `AND({idempotency_key} = '${escapeAirtableString(key)}', {status} != 'failed', {status} != 'refunded')`,
+        maxRecords: 1,
+      })
+      .firstPage();
+
+    if (!records[0]) return null;
+
+    return parseTransactionFields(records[0]);
+  } catch (error: unknown) {
+    // Never read a failed lookup as "key not seen": the ledger would charge twice
+    console.error("Error getting transaction by idempotency key:", getErrorMessage(error));
+    throw new Error(`Failed to get transaction by idempotency key: ${getErrorMessage(error)}`);
+  }
+}
+
+/**
+ * Get the highest invoice (or credit note) number starting with a prefix (e.g. "CJ2026-")
+ * Invoice numbers are zero-padded, so a text sort gives the latest one
+ */
+export async function getLatestInvoiceNumber(
+  prefix: string,
+  field: InvoiceNumberField = "invoice_number"
+): Promise<string | null> {
+  if (!baseId || !apiKey) {
+    return null;
+  }
+
+  try {
+    const records = await base(TRANSACTIONS_TABLE)
+      .select({
+        filterByFormula: `LEFT({${field}}, ${prefix.length}) = '${escapeAirtableString(prefix)}'`,
+        sort: [{ field, direction: "desc" }],
+        maxRecords: 1,
+        fields: [field],
+      })
+      .firstPage();
+
+    return (records[0]?.fields[field] as string) || null;
+  } catch (error: unknown) {
+    console.error("Error getting latest invoice number:", getErrorMessage(error));
+    throw new Error(`Failed to get latest invoice number: ${getErrorMessage(error)}`);
+  }
+}
+
+/**
+ * Get all transactions holding an invoice (or credit note) number
+ * More than one means two numberings collided (Airtable has no unique constraint)
+ */
+export async function getTransactionsByInvoiceNumber(
+  number: string,
+  field: InvoiceNumberField = "invoice_number"
+): Promise<TransactionRecord[]> {
+  if (!baseId || !apiKey) {
+    return [];
+  }
+
+  try {
+    const records = await base(TRANSACTIONS_TABLE)
+      .select({
+        filterByFormula: `{${field}} = '${escapeAirtableString(number)}'`,
+      })
+      .all();
+
+    return records.map(parseTransactionFields);
+  } catch (error: unknown) {
+    console.error("Error getting transactions by invoice number:", getErrorMessage(error));
+    throw new Error(`Failed to get transactions by invoice number: ${getErrorMessage(error)}`);
+  }
+}
+
+/**
+ * Update status and/or credit fields of a transaction
+ * Used by the ledger for compensating rollbacks
+ */
+export async function updateTransaction(
+  id: string,
+  fields: {
+    status?: TransactionRecord["status"];
+    remaining_credits?: number;
+    credits_invoiced?: number;
+    batch_allocations?: string;
+    expiry_warning_sent_at?: string;
+    subscription_id?: string;
+    invoice_number?: string;
+    invoice_date?: string;
+    credit_note_number?: string;
+    credit_note_date?: string;
+    invoice_details_snapshot?: string;
+  }
+): Promise<TransactionRecord> {
+  if (!baseId || !apiKey) {
+    throw new Error("Airtable not configured");
+  }
+
+  const airtableFields: Partial<Airtable.FieldSet> = {};
+  if (fields.status !== undefined) airtableFields.status = fields.status;
+  if (fields.remaining_credits !== undefined) airtableFields.remaining_credits = fields.remaining_credits;
+  if (fields.credits_invoiced !== undefined) airtableFields.credits_invoiced = fields.credits_invoiced;
+  if (fields.batch_allocations !== undefined) airtableFields.batch_allocations = fields.batch_allocations;
+  if (fields.expiry_warning_sent_at !== undefined) airtableFields.expiry_warning_sent_at = fields.expiry_warning_sent_at;
+  if (fields.subscription_id !== undefined) airtableFields.subscription = [fields.subscription_id];
+  if (fields.invoice_number !== undefined) airtableFields.invoice_number = fields.invoice_number;
+  if (fields.invoice_date !== undefined) airtableFields.invoice_date = fields.invoice_date;
+  if (fields.credit_note_number !== undefined) airtableFields.credit_note_number = fields.credit_note_number;
+  if (fields.credit_note_date !== undefined) airtableFields.credit_note_date = fields.credit_note_date;
+  if (fields.invoice_details_snapshot !== undefined) airtableFields.invoice_details_snapshot = fields.invoice_details_snapshot;
+
+  try {
+    const record = await base(TRANSACTIONS_TABLE).update(id, airtableFields);
+    return parseTransactionFields(record);
+  } catch (error: unknown) {
+    console.error("Error updating transaction:", getErrorMessage(error));
+    throw new Error(`Failed to update transaction: ${getErrorMessage(error)}`);
+  }
+}
+
+/**
+ * Overwrite the balance counters of a wallet
+ * Used by the ledger (rollback) and wallet reconciliation
+ */
+export async function updateWalletTotals(
+  walletId: string,
+  fields: Partial<Pick<WalletRecord, "balance" | "total_purchased" | "total_spent">>
+): Promise<WalletRecord> {
+  if (!baseId || !apiKey) {
+    throw new Error("Airtable not configured");
+  }
+
+  const record = await base(WALLETS_TABLE).update(walletId, {
+    ...fields,
+    "last-updated": new Date().toISOString(),
+  });
+
+  const recordFields = record.fields;
+  const owner_employer = Array.isArray(recordFields.owner_employer)
+    ? recordFields.owner_employer[0] || null
+    : recordFields.owner_employer || null;
+  const owner_user = Array.isArray(recordFields.owner_user)
+    ? recordFields.owner_user[0] || null
+    : recordFields.owner_user || null;
+
+  return walletRecordSchema.parse({
+    id: record.id,
+    ...recordFields,
+    owner_employer,
+    owner_user,
+  });
+}
+
+/**
+ * Get a wallet by ID
+ */
+export async function getWalletById(walletId: string): Promise<WalletRecord | null> {
+  if (!baseId || !apiKey) {
+    return null;
+  }
+
+  try {
+    const record = await base(WALLETS_TABLE).find(walletId);
+    const fields = record.fields;
+    const owner_employer = Array.isArray(fields.owner_employer)
+      ? fields.owner_employer[0] || null
+      : fields.owner_employer || null;
+    const owner_user = Array.isArray(fields.owner_user)
+      ? fields.owner_user[0] || null
+      : fields.owner_user || null;
+
+    return walletRecordSchema.parse({
+      id: record.id,
+      ...fields,
+      owner_employer,
+      owner_user,
+    });
+  } catch (error: unknown) {
+    console.error("Error getting wallet by ID:", getErrorMessage(error));
+    return null;
+  }
+}
+
+/**
+ * Get all wallets (employer and user wallets)
+ * Used by the wallet reconciliation job
+ */
+export async function getAllWallets(): Promise<WalletRecord[]> {
+  if (!baseId || !apiKey) {
+    return [];
+  }
+
+  try {
+    const records = await base(WALLETS_TABLE).select().all();
+
+    return records.map((record) => {
+      const fields = record.fields;
+      const owner_employer = Array.isArray(fields.owner_employer)
+        ? fields.owner_employer[0] || null
+        : fields.owner_employer || null;
+      const owner_user = Array.isArray(fields.owner_user)
+        ? fields.owner_user[0] || null
+        : fields.owner_user || null;
+
+      return walletRecordSchema.parse({
+        id: record.id,
+        ...fields,
+        owner_employer,
+        owner_user,
+      });
+    });
+  } catch (error: unknown) {
+    console.error("Error getting all wallets:", getErrorMessage(error));
+    return [];
+  }
+}
+
+// ============================================
+// JOB RUN FUNCTIONS
+// ============================================
+
+function parseJobRunFields(record: { id: string; fields: Record<string, unknown> }): JobRunRecord {
+  return jobRunRecordSchema.parse({
+    id: record.id,
+    ...record.fields,
+    dry_run: !!record.fields.dry_run,
+  });
+}
+
+/**
+ * Record the start of a cron job run
+ */
+export async function createJobRun(fields: {
+  job: JobRunRecord["job"];
+  dry_run: boolean;
+}): Promise<JobRunRecord> {
+  if (!baseId || !apiKey) {
+    throw new Error("Airtable not configured");
+  }
+
+  try {
+    const record = await base(JOB_RUNS_TABLE).create({
+      job: fields.job,
+      status: "running",
+      dry_run: fields.dry_run,
+      started_at: new Date().toISOString(),
+    });
+    return parseJobRunFields(record);
+  } catch (error: unknown) {
+    console.error("Error creating job run:", getErrorMessage(error));
+    throw new Error(`Failed to create job run: ${getErrorMessage(error)}`);
+  }
+}
+
+/**
+ * Update a cron job run (counters, errors and the final status)
+ */
+export async function updateJobRun(
+  id: string,
+  fields: Partial<Omit<JobRunRecord, "id" | "job" | "dry_run" | "started_at">>
+): Promise<JobRunRecord> {
+  if (!baseId || !apiKey) {
+    throw new Error("Airtable not configured");
+  }
+
+  const airtableFields: Partial<Airtable.FieldSet> = {};
+  for (const [key, value] of Object.entries(fields)) {
+    if (value !== undefined && value !== null) airtableFields[key] = value;
+  }
+
+  try {
+    const record = await base(JOB_RUNS_TABLE).update(id, airtableFields);
+    return parseJobRunFields(record);
+  } catch (error: unknown) {
+    console.error("Error updating job run:", getErrorMessage(error));
+    throw new Error(`Failed to update job run: ${getErrorMessage(error)}`);
+  }
+}
+
+/**
+ * Get the most recent runs of a cron job, newest first
+ */
+export async function getRecentJobRuns(
+  job: JobRunRecord["job"],
+  limit: number = 30
+): Promise<JobRunRecord[]> {
+  if (!baseId || !apiKey) {
+    return [];
+  }
+
+  try {
+    const records = await base(JOB_RUNS_TABLE)
+      .select({
+        filterByFormula: `{job} = '${escapeAirtableString(job)}'`,
+        sort: [{ field: "started_at", direction: "desc" }],
+        maxRecords: limit,
+      })
+      .all();
+
+    return records.map(parseJobRunFields);
+  } catch (error: unknown) {
+    console.error("Error getting job runs:", getErrorMessage(error));
+    return [];
+  }
+}
+
+// ============================================
+// SUBSCRIPTION FUNCTIONS
+// ============================================
+
+function parseSubscriptionFields(record: { id: string; fields: Record<string, unknown> }): SubscriptionRecord {
+  const fields = record.fields;
+  const first = (value: unknown) => (Array.isArray(value) ? value[0] || null : value || null);
+
+  return subscriptionRecordSchema.parse({
+    id: record.id,
+    employer_id: first(fields.employer),
+    wallet_id: first(fields.wallet),
+    user_id: first(fields.user),
+    product_id: first(fields.product),
+    status: fields.status,
+    started_at: fields.started_at,
+    next_renewal_at: fields.next_renewal_at,
+    cancelled_at: (fields.cancelled_at as string) || null,
+    ended_at: (fields.ended_at as string) || null,
+    renewal_count: (fields.renewal_count as number) || 0,
+    invoice_details_snapshot: (fields.invoice_details_snapshot as string) || null,
+  });
+}
+
+/**
+ * Get a subscription by ID
+ */
+export async function getSubscriptionById(id: string): Promise<SubscriptionRecord | null> {
+  if (!baseId || !apiKey) {
+    return null;
+  }
+
+  try {
+    const record = await base(SUBSCRIPTIONS_TABLE).find(id);
+    return parseSubscriptionFields(record);
+  } catch (error: unknown) {
+    console.error("Error getting subscription by ID:", getErrorMessage(error));
+    return null;
+  }
+}
+
+/**
+ * Get all subscriptions of a wallet, newest first
+ */
+export async function getSubscriptionsByWalletId(walletId: string): Promise<SubscriptionRecord[]> {
+  if (!baseId || !apiKey) {
+    return [];
+  }
+
+  try {
+    const records = await base(SUBSCRIPTIONS_TABLE)
+      .select({
+        filterByFormula: `FIND('${escapeAirtableString(walletId)}', ARRAYJOIN({wallet}))`,
+        sort: [{ field: "started_at", direction: "desc" }],
+      })
+      .all();
+
+    return records.map(parseSubscriptionFields);
+  } catch (error: unknown) {
+    console.error("Error getting subscriptions by wallet ID:", getErrorMessage(error));
+    return [];
+  }
+}
+
+/**
+ * Get active and cancelled subscriptions whose anniversary has passed
+ * Used by the subscription renewal job
+ */
+export async function getDueSubscriptions(): Promise<SubscriptionRecord[]> {
+  if (!baseId || !apiKey) {
+    return [];
+  }
+
+  try {
+    const now = new Date().toISOString();
+    const records = await base(SUBSCRIPTIONS_TABLE)
+      .select({
+        filterByFormula: `AND(
+          OR({status} = 'active', {status} = 'cancelled'),
+          IS_BEFORE({next_renewal_at}, '${now}')
+        )`,
+        sort: [{ field: "next_renewal_at", direction: "asc" }],
+      })
+      .all();
+
+    return records.map(parseSubscriptionFields);
+  } catch (error: unknown) {
+    console.error("Error getting due subscriptions:", getErrorMessage(error));
+    return [];
+  }
+}
+
+/**
+ * Start a subscription for a yearly credit bundle
+ */
+export async function createSubscription(fields: {
+  employer_id?: string | null;
+  wallet_id: string;
+  user_id: string;
+  product_id: string;
+  started_at: string;
+  next_renewal_at: string;
+  invoice_details_snapshot: string;
+}): Promise<SubscriptionRecord> {
+  if (!baseId || !apiKey) {
+    throw new Error("Airtable not configured");
+  }
+
+  try {
+    const record = await base(SUBSCRIPTIONS_TABLE).create({
+      ...(fields.employer_id && { employer: [fields.employer_id] }),
+      wallet: [fields.wallet_id],
+      user: [fields.user_id],
+      product: [fields.product_id],
+      status: "active",
+      started_at: fields.started_at,
+      next_renewal_at: fields.next_renewal_at,
+      renewal_count: 0,
+      invoice_details_snapshot: fields.invoice_details_snapshot,
+    });
+    return parseSubscriptionFields(record);
+  } catch (error: unknown) {
+    console.error("Error creating subscription:", getErrorMessage(error));
+    throw new Error(`Failed to create subscription: ${getErrorMessage(error)}`);
+  }
+}
+
+/**
+ * Update a subscription (status changes and renewals)
+ */
+export async function updateSubscription(
+  id: string,
+  fields: Partial<Pick<SubscriptionRecord, "status" | "next_renewal_at" | "cancelled_at" | "ended_at" | "renewal_count">>
+): Promise<SubscriptionRecord> {
+  if (!baseId || !apiKey) {
+    throw new Error("Airtable not configured");
+  }
+
+  // null clears a date field (e.g. cancelled_at on reactivation)
+  const airtableFields: Partial<Airtable.FieldSet> = {};
+  for (const [key, value] of Object.entries(fields)) {
+    if (value !== undefined) airtableFields[key] = value as Airtable.FieldSet[string];
+  }
+
+  try {
+    const record = await base(SUBSCRIPTIONS_TABLE).update(id, airtableFields);
+    return parseSubscriptionFields(record);
+  } catch (error: unknown) {
+    console.error("Error updating subscription:", getErrorMessage(error));
+    throw new Error(`Failed to update subscription: ${getErrorMessage(error)}`);
+  }
+}
+
+// ============================================
+// PROMO CODE FUNCTIONS
+// ============================================
+
+function parsePromoCodeFields(record: { id: string; fields: Record<string, unknown> }): PromoCodeRecord {
+  const fields = record.fields;
+
+  return promoCodeRecordSchema.parse({
+    id: record.id,
+    code: fields.code || "",
+    description: (fields.description as string) || null,
+    is_active: fields.is_active === true,
+    discount_type: (fields.discount_type as string) || null,
+    discount_value: (fields.discount_value as number) ?? null,
+    bonus_credits: (fields.bonus_credits as number) || null,
+    valid_from: (fields.valid_from as string) || null,
+    valid_until: (fields.valid_until as string) || null,
+    max_redemptions: (fields.max_redemptions as number) ?? null,
+    max_redemptions_per_employer: (fields.max_redemptions_per_employer as number) ?? null,
+    product_types: Array.isArray(fields.product_types) ? fields.product_types : [],
+    target_roles: Array.isArray(fields.target_roles) ? fields.target_roles : [],
+  });
+}
+
+/**
+ * Get a promo code by its code (case-insensitive)
+ */
+export async function getPromoCodeByCode(code: string): Promise<PromoCodeRecord | null> {
+  if (!baseId || !apiKey) {
+    return null;
+  }
+
+  try {
+    const records = await base(PROMO_CODES_TABLE)
+      .select({
+        filterByFormula: `UPPER({code}) = '${escapeAirtableString(code.toUpperCase())}'`,
+        maxRecords: 1,
+      })
+      .firstPage();
+
+    return records[0] ? parsePromoCodeFields(records[0]) : null;
+  } catch (error: unknown) {
+    console.error("Error getting promo code:", getErrorMessage(error));
+    return null;
+  }
+}
+
+/**
+ * Count purchases that used a promo code, optionally within one wallet
+ * Failed and refunded purchases don't count
+ */
+export async function countPromoCodeRedemptions(code: string, walletId?: string): Promise<number> {
+  if (!baseId || !apiKey) {
+    return 0;
+  }
+
+  try {
+    const conditions = [
+      `UPPER({promo_code}) = '${escapeAirtableString(code.toUpperCase())}'`,
+      `{type} = 'purchase'`,
+      `{status} != 'failed'`,
+      `{status} != 'refunded'`,
+    ];
+    if (walletId) {
+      conditions.push(`FIND('${escapeAirtableString(walletId)}', ARRAYJOIN({wallet}))`);
+    }
+
+    const records = await base(TRANSACTIONS_TABLE)
+      .select({
+        filterByFormula: `AND(${conditions.join(", ")})`,
+        fields: ["promo_code"],
+      })
+      .all();
+
+    return records.length;
+  } catch (error: unknown) {
+    console.error("Error counting promo code redemptions:", getErrorMessage(error));
+    throw new Error(`Failed to count promo code redemptions: ${getErrorMessage(error)}`);
+  }
+}
+
+// ============================================
+// VACANCY TEMPLATE FUNCTIONS
+// ============================================
+
+function parseVacancyTemplateFields(record: { id: string; fields: Record<string, unknown> }): VacancyTemplateRecord {
+  const fields = record.fields;
+
+  // Extract linked record IDs from arrays
+  const employer_id = Array.isArray(fields.employer) ? fields.employer[0] || null : null;
+  const created_by = Array.isArray(fields.created_by) ? fields.created_by[0] || null : null;
+
+  return vacancyTemplateRecordSchema.parse({
+    id: record.id,
+    employer_id,
+    name: fields.name || "",
+    created_by,
+    content_json: (fields.content_json as string) || "{}",
+    "created-at": fields["created-at"] as string | undefined,
+  });
+}
+
+/**
+ * Get a vacancy template by ID
+ */
+export async function getVacancyTemplateById(id: string): Promise<VacancyTemplateRecord | null> {
+  if (!baseId || !apiKey) {
+    return null;
+  }
+
+  try {
+    const record = await base(VACANCY_TEMPLATES_TABLE).find(id);
+    return record ? parseVacancyTemplateFields(record) : null;
+  } catch (error: unknown) {
+    console.error("Error getting vacancy template by ID:", getErrorMessage(error));
+    return null;
+  }
+}
+
+/**
+ * Get all vacancy templates of an employer, sorted by name
+ */
+export async function getVacancyTemplatesByEmployerId(employerId: string): Promise<VacancyTemplateRecord[]> {
+  if (!baseId || !apiKey) {
+    return [];
+  }
+
+  try {
+    const records = await base(VACANCY_TEMPLATES_TABLE)
+      .select({
+        filterByFormula: `{employer_record_id} = '${escapeAirtableString(employerId)}'`,
+        sort: [{ field: "name", direction: "asc" }],
+      })
+      .all();
+
+    return records.map(parseVacancyTemplateFields);
+  } catch (error: unknown) {
+    console.error("Error getting vacancy templates by employer ID:", getErrorMessage(error));
+    return [];
+  }
+}
+
+/**
+ * Create a vacancy template
+ */
+export async function createVacancyTemplate(fields: {
+  employer_id: string;
+  name: string;
+  created_by: string;
+  content_json: string;
+}): Promise<VacancyTemplateRecord> {
+  if (!baseId || !apiKey) {
+    throw new Error("Airtable not configured");
+  }
+
+  try {
+    const record = await base(VACANCY_TEMPLATES_TABLE).create({
+      employer: [fields.employer_id], // Linked record requires array
+      name: fields.name,
+      created_by: [fields.created_by],
+      content_json: fields.content_json,
+    });
+    return parseVacancyTemplateFields(record);
+  } catch (error: unknown) {
+    console.error("Error creating vacancy template:", getErrorMessage(error));
+    throw new Error(`Failed to create vacancy template: ${getErrorMessage(error)}`);
+  }
+}
+
+/**
+ * Delete a vacancy template
+ */
+export async function deleteVacancyTemplate(id: string): Promise<void> {
+  if (!baseId || !apiKey) {
+    throw new Error("Airtable not configured");
+  }
+
+  try {
+    await base(VACANCY_TEMPLATES_TABLE).destroy(id);
+  } catch (error: unknown) {
+    console.error("Error deleting vacancy template:", getErrorMessage(error));
+    throw new Error(`Failed to delete vacancy template: ${getErrorMessage(error)}`);
+  }
+}
+
+// ============================================
+// VACANCY REVISION FUNCTIONS
+// ============================================
+
+function parseVacancyRevisionFields(record: { id: string; fields: Record<string, unknown> }): VacancyRevisionRecord {
+  const fields = record.fields;
+
+  // Extract linked record IDs from arrays
+  const vacancy_id = Array.isArray(fields.vacancy) ? fields.vacancy[0] || null : null;
+  const author_user_id = Array.isArray(fields.author) ? fields.author[0] || null : null;
+
+  return vacancyRevisionRecordSchema.parse({
+    id: record.id,
+    vacancy_id,
+    author_user_id,
+    source: fields.source || "edit",
+    restored_from: (fields.restored_from as string) || null,
+    content_json: (fields.content_json as string) || "{}",
+    "created-at": fields["created-at"] as string | undefined,
+    "updated-at": fields["updated-at"] as string | undefined,
+  });
+}
+
+/**
+ * Get a vacancy revision by ID
+ */
+export async function getVacancyRevisionById(id: string): Promise<VacancyRevisionRecord | null> {
+  if (!baseId || !apiKey) {
+    return null;
+  }
+
+  try {
+    const record = await base(VACANCY_REVISIONS_TABLE).find(id);
+    return record ? parseVacancyRevisionFields(record) : null;
+  } catch (error: unknown) {
+    console.error("Error getting vacancy revision by ID:", getErrorMessage(error));
+    return null;
+  }
+}
+
+/**
+ * Get all revisions of a vacancy, newest first
+ */
+export async function getVacancyRevisionsByVacancyId(vacancyId: string): Promise<VacancyRevisionRecord[]> {
+  if (!baseId || !apiKey) {
+    return [];
+  }
+
+  try {
+    const records = await base(VACANCY_REVISIONS_TABLE)
+      .select({
+        filterByFormula: `{vacancy_record_id} = '${escapeAirtableString(vacancyId)}'`,
+        sort: [{ field: "created-at", direction: "desc" }],
+      })
+      .all();
+
+    return records.map(parseVacancyRevisionFields);
+  } catch (error: unknown) {
+    console.error("Error getting vacancy revisions by vacancy ID:", getErrorMessage(error));
+    return [];
+  }
+}
+
+/**
+ * Create a vacancy revision
+ */
+export async function createVacancyRevision(fields: {
+  vacancy_id: string;
+  author_user_id: string | null;
+  source: VacancyRevisionSource;
+  restored_from?: string | null;
+  content_json: string;
+  "created-at"?: string;
+}): Promise<VacancyRevisionRecord> {
+  if (!baseId || !apiKey) {
+    throw new Error("Airtable not configured");
+  }
+
+  const now = fields["created-at"] ?? new Date().toISOString();
+
+  try {
+    const record = await base(VACANCY_REVISIONS_TABLE).create({
+      vacancy: [fields.vacancy_id], // Linked record requires array
+      ...(fields.author_user_id && { author: [fields.author_user_id] }),
+      source: fields.source,
+      ...(fields.restored_from && { restored_from: fields.restored_from }),
+      content_json: fields.content_json,
+      "created-at": now,
+      "updated-at": now,
+    });
+    return parseVacancyRevisionFields(record);
+  } catch (error: unknown) {
+    console.error("Error creating vacancy revision:", getErrorMessage(error));
+    throw new Error(`Failed to create vacancy revision: ${getErrorMessage(error)}`);
+  }
+}
+
+/**
+ * Replace the content of a vacancy revision (merging consecutive saves)
+ */
+export async function updateVacancyRevisionContent(id: string, contentJson: string): Promise<VacancyRevisionRecord> {
+  if (!baseId || !apiKey) {
+    throw new Error("Airtable not configured");
+  }
+
+  try {
+    const record = await base(VACANCY_REVISIONS_TABLE).update(id, {
+      content_json: contentJson,
+      "updated-at": new Date().toISOString(),
+    });
+    return parseVacancyRevisionFields(record);
+  } catch (error: unknown) {
+    console.error("Error updating vacancy revision:", getErrorMessage(error));
+    throw new Error(`Failed to update vacancy revision: ${getErrorMessage(error)}`);
+  }
+}
+
+// ============================================
+// VACANCY REVIEW FUNCTIONS
+// ============================================
+
+function parseVacancyReviewFields(record: { id: string; fields: Record<string, unknown> }): VacancyReviewRecord {
+  const fields = record.fields;
+
+  // Extract linked record IDs from arrays
+  const vacancy_id = Array.isArray(fields.vacancy) ? fields.vacancy[0] || null : null;
+
+  return vacancyReviewRecordSchema.parse({
+    id: record.id,
+    vacancy_id,
+    round: typeof fields.round === "number" ? fields.round : 1,
+    status: fields.status || "open",
+    reviewer: (fields.reviewer as string) || null,
+    summary: (fields.summary as string) || null,
+    comments_json: (fields.comments_json as string) || "[]",
+    content_json: (fields.content_json as string) || "{}",
+    addressed_json: (fields.addressed_json as string) || null,
+    "created-at": fields["created-at"] as string | undefined,
+    "resubmitted-at": (fields["resubmitted-at"] as string) || null,
+  });
+}
+
+/**
+ * Get all review rounds of a vacancy, newest round first
+ */
+export async function getVacancyReviewsByVacancyId(vacancyId: string): Promise<VacancyReviewRecord[]> {
+  if (!baseId || !apiKey) {
+    return [];
+  }
+
+  try {
+    const records = await base(VACANCY_REVIEWS_TABLE)
+      .select({
+        filterByFormula: `{vacancy_record_id} = '${escapeAirtableString(vacancyId)}'`,
+        sort: [{ field: "round", direction: "desc" }],
+      })
+      .all();
+
+    return records.map(parseVacancyReviewFields);
+  } catch (error: unknown) {
+    console.error("Error getting vacancy reviews by vacancy ID:", getErrorMessage(error));
+    return [];
+  }
+}
+
+/**
+ * Create a vacancy review round
+ */
+export async function createVacancyReview(fields: {
+  vacancy_id: string;
+  round: number;
+  reviewer: string | null;
+  summary: string | null;
+  comments_json: string;
+  content_json: string;
+}): Promise<VacancyReviewRecord> {
+  if (!baseId || !apiKey) {
+    throw new Error("Airtable not configured");
+  }
+
+  try {
+    const record = await base(VACANCY_REVIEWS_TABLE).create({
+      vacancy: [fields.vacancy_id], // Linked record requires array
+      round: fields.round,
+      status: "open",
+      ...(fields.reviewer && { reviewer: fields.reviewer }),
+      ...(fields.summary && { summary: fields.summary }),
+      comments_json: fields.comments_json,
+      content_json: fields.content_json,
+      "created-at": new Date().toISOString(),
+    });
+    return parseVacancyReviewFields(record);
+  } catch (error: unknown) {
+    console.error("Error creating vacancy review:", getErrorMessage(error));
+    throw new Error(`Failed to create vacancy review: ${getErrorMessage(error)}`);
+  }
+}
+
+/**
+ * Update a vacancy review round
+ */
+export async function updateVacancyReview(
+  id: string,
+  fields: Partial<Pick<VacancyReviewRecord, "status" | "addressed_json" | "resubmitted-at">>
+): Promise<VacancyReviewRecord> {
+  if (!baseId || !apiKey) {
+    throw new Error("Airtable not configured");
+  }
+
+  const airtableFields: Record<string, string> = {};
+  if (fields.status !== undefined) airtableFields.status = fields.status;
+  if (fields.addressed_json !== undefined) airtableFields.addressed_json = fields.addressed_json ?? "";
+  if (fields["resubmitted-at"] !== undefined) airtableFields["resubmitted-at"] = fields["resubmitted-at"] ?? "";
+
+  try {
+    const record = await base(VACANCY_REVIEWS_TABLE).update(id, airtableFields);
+    return parseVacancyReviewFields(record);
+  } catch (error: unknown) {
+    console.error("Error updating vacancy review:", getErrorMessage(error));
+    throw new Error(`Failed to update vacancy review: ${getErrorMessage(error)}`);
+  }
+}
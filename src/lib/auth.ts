@@ -2,8 +2,9 @@ import type { NextAuthOptions } from "next-auth";
 import EmailProvider from "next-auth/providers/email";
 import { createTransport } from "nodemailer";
 import { AirtableAdapter } from "./airtable-adapter";
+import { MemoryAdapter } from "./memory-adapter";
 import { logEvent, getTargetEmployerFromPendingEvent } from "./events";
-import { getUserByEmail } from "./airtable";
+import { repositories, isMemoryStore } from "./repositories";
 
 export type EmployerStatus = "pending_onboarding" | "active";
 
@@ -134,7 +135,7 @@ function generateEmailHtml(config: EmailTemplateConfig, url: string): string {
 
 export const authOptions: NextAuthOptions = {
   secret: process.env.NEXTAUTH_SECRET,
-  adapter: AirtableAdapter(),
+  adapter: isMemoryStore() ? MemoryAdapter() : AirtableAdapter(),
   pages: {
     signIn: "/login",
     error: "/auth/error",
@@ -149,11 +150,17 @@ export const authOptions: NextAuthOptions = {
       server: process.env.EMAIL_SERVER,
       from: process.env.EMAIL_FROM,
       sendVerificationRequest: async ({ identifier, url, provider }) => {
+        // Local in-memory data store: no mail server, print the magic link instead
+        if (isMemoryStore()) {
+          console.log(`🔗 Magic link voor ${identifier}: ${url}`);
+          return;
+        }
+
         try {
           const transport = createTransport(provider.server);
           
           // Check if user exists and is active
-          const existingUser = await getUserByEmail(identifier);
+          const existingUser = await repositories.users.getByEmail(identifier);
           const isActiveUser = existingUser && existingUser.status === "active";
           
           // Use different email template based on user status
@@ -199,7 +206,7 @@ export const authOptions: NextAuthOptions = {
       let userStatus: string | null = null;
       
       if (user.email) {
-        const dbUser = await getUserByEmail(user.email);
+        const dbUser = await repositories.users.getByEmail(user.email);
         if (dbUser) {
           if (!employerId && dbUser.employer_id) {
             employerId = dbUser.employer_id;
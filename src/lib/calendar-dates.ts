@@ -0,0 +1,41 @@
+import { isValid, parseISO, startOfDay } from "date-fns";
+
+/**
+ * Calendar dates (client-safe)
+ *
+ * Closing dates and promo code validity are calendar days (YYYY-MM-DD), not
+ * moments: new Date("YYYY-MM-DD") reads them as UTC midnight, so a last valid
+ * day would end right after it starts in the Netherlands.
+ */
+
+const CALENDAR_TIME_ZONE = "Europe/Amsterdam";
+
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * A YYYY-MM-DD date as the start of that calendar day in local time, or null when invalid
+ */
+export function parseCalendarDate(value: string): Date | null {
+  const date = startOfDay(parseISO(value));
+  return isValid(date) ? date : null;
+}
+
+/**
+ * The calendar day (YYYY-MM-DD) of a moment in the Netherlands
+ */
+export function getCalendarDate(date: Date = new Date()): string {
+  // en-CA formats as YYYY-MM-DD
+  return date.toLocaleDateString("en-CA", { timeZone: CALENDAR_TIME_ZONE });
+}
+
+/**
+ * The calendar day (YYYY-MM-DD) of a stored date or timestamp, or null when invalid
+ * Date-only values are already a calendar day; timestamps are read in the Netherlands.
+ */
+export function toCalendarDate(value: string): string | null {
+  if (DATE_ONLY_PATTERN.test(value)) {
+    return parseCalendarDate(value) ? value : null;
+  }
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : getCalendarDate(date);
+}
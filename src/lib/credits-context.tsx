@@ -9,6 +9,7 @@
 
 import { ReactNode } from "react";
 import { useAccount } from "./account-context";
+import { DEFAULT_CREDIT_POLICY, type CreditPolicySettings } from "./credits";
 
 interface ExpiringCredits {
   total: number;
@@ -21,6 +22,7 @@ interface CreditsData {
   total_purchased: number;
   total_spent: number;
   expiring_soon: ExpiringCredits | null;
+  credit_policy: CreditPolicySettings;
 }
 
 interface CreditsContextType {
@@ -38,6 +40,7 @@ const defaultCredits: CreditsData = {
   total_purchased: 0,
   total_spent: 0,
   expiring_soon: null,
+  credit_policy: DEFAULT_CREDIT_POLICY,
 };
 
 // CreditsProvider is now just a pass-through - children render directly
@@ -71,3 +71,122 @@ export function formatPriceWithCredits(
   }
   return `${formattedCredits} (${formattedPrice})`;
 }
+
+/**
+ * What happens when an employer has too few credits for a spend (vacancy, boost)
+ * - invoice: deduct the available credits and invoice the shortage (default)
+ * - overdraft: deduct everything, the balance may go negative up to overdraft_limit
+ * - block: the action is not allowed until credits are bought
+ */
+export type CreditPolicy = "invoice" | "overdraft" | "block";
+
+export interface CreditPolicySettings {
+  policy: CreditPolicy;
+  overdraft_limit: number; // Credits the balance may go below zero (overdraft only)
+}
+
+export const DEFAULT_CREDIT_POLICY: CreditPolicySettings = {
+  policy: "invoice",
+  overdraft_limit: 0,
+};
+
+/**
+ * Read the credit policy of an employer (missing = invoice)
+ */
+export function getCreditPolicy(
+  employer?: { credit_policy?: CreditPolicy | null; overdraft_limit?: number | null } | null
+): CreditPolicySettings {
+  if (!employer?.credit_policy) return DEFAULT_CREDIT_POLICY;
+  return {
+    policy: employer.credit_policy,
+    overdraft_limit: employer.credit_policy === "overdraft" ? Math.max(0, employer.overdraft_limit || 0) : 0,
+  };
+}
+
+export interface CreditSpendPlan {
+  policy: CreditPolicy;
+  /** false when the policy blocks the action */
+  allowed: boolean;
+  required: number;
+  available: number;
+  /** Credits taken from the wallet (with overdraft this can exceed the balance) */
+  credits_to_deduct: number;
+  /** Credits short that are invoiced (invoice policy only) */
+  credits_to_invoice: number;
+  /** Euro amount for the invoiced credits, proportional to the total price */
+  invoice_amount: number;
+  /** Credits the balance goes below zero by this spend */
+  overdraft_used: number;
+  new_balance: number;
+  /** Dutch explanation of the rule that applied, shown in the UI and API errors */
+  message: string | null;
+}
+
+/**
+ * Decide how a spend is paid under a credit policy
+ * Used by every spend path (submit, boost) and by the UI to explain the outcome
+ */
+export function planCreditSpend(
+  required: number,
+  totalPrice: number,
+  available: number,
+  settings: CreditPolicySettings = DEFAULT_CREDIT_POLICY
+): CreditSpendPlan {
+  const positiveBalance = Math.max(0, available);
+  const shortage = Math.max(0, required - positiveBalance);
+  const base = {
+    policy: settings.policy,
+    required,
+    available,
+    credits_to_invoice: 0,
+    invoice_amount: 0,
+    overdraft_used: 0,
+  };
+
+  if (shortage === 0) {
+    return { ...base, allowed: true, credits_to_deduct: required, new_balance: available - required, message: null };
+  }
+
+  if (settings.policy === "overdraft") {
+    const newBalance = available - required;
+    if (newBalance >= -settings.overdraft_limit) {
+      return {
+        ...base,
+        allowed: true,
+        credits_to_deduct: required,
+        overdraft_used: Math.min(required, -newBalance),
+        new_balance: newBalance,
+        message: `Je saldo mag tot ${formatCredits(settings.overdraft_limit)} negatief staan. Daarna is je saldo ${newBalance} credits; dit wordt verrekend met je volgende aankoop.`,
+      };
+    }
+    return {
+      ...base,
+      allowed: false,
+      credits_to_deduct: 0,
+      new_balance: available,
+      message: `Je kredietlimiet van ${formatCredits(settings.overdraft_limit)} is bereikt. Koop eerst extra credits om door te gaan.`,
+    };
+  }
+
+  if (settings.policy === "block") {
+    return {
+      ...base,
+      allowed: false,
+      credits_to_deduct: 0,
+      new_balance: available,
+      message: `Je hebt ${formatCredits(shortage)} te weinig. Koop eerst extra credits om door te gaan.`,
+    };
+  }
+
+  return {
+    ...base,
+    allowed: true,
+    credits_to_deduct: positiveBalance,
+    credits_to_invoice: shortage,
+    invoice_amount: required > 0 ? Math.round((shortage / required) * totalPrice) : 0,
+    new_balance: available - positiveBalance,
+    message: positiveBalance > 0
+      ? "Je credits worden automatisch verrekend. Voor het overige bedrag ontvang je een factuur."
+      : "Je ontvangt een factuur via de e-mail.",
+  };
+}
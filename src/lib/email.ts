@@ -0,0 +1,152 @@
+import { createTransport } from "nodemailer";
+
+/**
+ * Transactional emails sent by the app (cron jobs, notifications)
+ * Uses the same EMAIL_SERVER / EMAIL_FROM settings and layout as the
+ * login and team invitation emails
+ */
+
+export interface EmailLayoutConfig {
+  title: string;
+  heading: string;
+  paragraphs: string[]; // HTML allowed (e.g. <strong>)
+  button?: { label: string; url: string };
+  disclaimer?: string;
+}
+
+export interface SendEmailInput {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+/**
+ * Escape user content (e.g. vacancy titles) for use in email paragraphs
+ */
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/**
+ * Render an email in the Colourful jobs layout (logo, white card, footer)
+ */
+export function renderEmailHtml(config: EmailLayoutConfig): string {
+  const backgroundColor = "#E8EEF2";
+  const textColor = "#1F2D58";
+  const textColorWithOpacity = "rgba(31, 45, 88, 0.7)";
+  const buttonColor = "#F86600";
+  const logoUrl = `${process.env.NEXTAUTH_URL}/email/colourful-jobs_logo.png`;
+
+  const paragraphs = config.paragraphs
+    .map(
+      (paragraph, index) => `
+              <p style="margin: 0 0 ${index === config.paragraphs.length - 1 ? 32 : 16}px; font-size: 16px; line-height: 1.6; color: ${textColorWithOpacity};">
+                ${paragraph.replace(/<strong>/g, `<strong style="color: ${textColor};">`)}
+              </p>`
+    )
+    .join("");
+
+  const button = config.button
+    ? `
+              <!-- Button -->
+              <table role="presentation" style="margin: 0 0 32px;">
+                <tr>
+                  <td style="border-radius: 100px; background-color: ${buttonColor};">
+                    <a href="${config.button.url}" target="_blank" style="display: inline-block; padding: 14px 32px; font-size: 16px; font-weight: 600; color: #ffffff; text-decoration: none; border-radius: 100px; text-shadow: 0 1px 3px rgba(0, 0, 0, 0.2);">
+                      ${config.button.label}
+                    </a>
+                  </td>
+                </tr>
+              </table>`
+    : "";
+
+  const disclaimer = config.disclaimer
+    ? `
+              <!-- Disclaimer -->
+              <p style="margin: 0; font-size: 13px; line-height: 1.6; color: ${textColorWithOpacity}; font-style: italic;">
+                ${config.disclaimer}
+              </p>`
+    : "";
+
+  return `
+<!DOCTYPE html>
+<html lang="nl">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${config.title}</title>
+</head>
+<body style="margin: 0; padding: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', 'Helvetica Neue', Arial, sans-serif; background-color: ${backgroundColor};">
+  <table role="presentation" style="width: 100%; border-collapse: collapse; background-color: ${backgroundColor};">
+    <tr>
+      <td align="center" style="padding: 40px 20px;">
+
+        <!-- Logo -->
+        <div style="text-align: center; margin-bottom: 24px;">
+          <img src="${logoUrl}" alt="Colourful jobs" style="height: 32px; width: auto; display: block; margin: 0 auto;">
+        </div>
+
+        <table role="presentation" style="max-width: 600px; width: 100%; border-collapse: collapse; background-color: #ffffff; border-radius: 12px 12px 32px 32px; overflow: hidden; box-shadow: 0 2px 8px rgba(31, 45, 88, 0.08);">
+
+          <!-- Content -->
+          <tr>
+            <td style="padding: 48px 40px;">
+
+              <!-- Heading -->
+              <h1 style="margin: 0 0 24px; font-size: 24px; font-weight: 700; line-height: 1.3; color: ${textColor};">
+                ${config.heading}
+              </h1>
+              ${paragraphs}
+              ${button}
+              ${disclaimer}
+
+            </td>
+          </tr>
+
+          <!-- Footer -->
+          <tr>
+            <td style="padding: 32px 40px; background-color: #F8FAFC; border-top: 1px solid #E2E8F0;">
+              <p style="margin: 0 0 8px; font-size: 14px; line-height: 1.6; color: ${textColorWithOpacity};">
+                Met vriendelijke groet,<br>
+                Het Colourful jobs team
+              </p>
+            </td>
+          </tr>
+
+        </table>
+
+      </td>
+    </tr>
+  </table>
+</body>
+</html>
+`;
+}
+
+/**
+ * Send an email via EMAIL_SERVER
+ * Throws when sending fails, callers decide whether that is fatal
+ */
+export async function sendEmail(input: SendEmailInput): Promise<void> {
+  const transport = createTransport(process.env.EMAIL_SERVER);
+
+  // Extract email address from EMAIL_FROM
+  const emailFrom = process.env.EMAIL_FROM || "";
+  const emailMatch = emailFrom.match(/<(.+)>/) || [null, emailFrom];
+  const emailAddress = emailMatch[1];
+  const fromField = `"Colourful jobs" <${emailAddress}>`;
+
+  await transport.sendMail({
+    to: input.to,
+    from: fromField,
+    subject: input.subject,
+    text: input.text,
+    html: input.html,
+  });
+}
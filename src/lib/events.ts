@@ -5,7 +5,9 @@ import { escapeAirtableString } from "./airtable";
 const baseId = process.env.AIRTABLE_BASE_ID;
 const apiKey = process.env.AIRTABLE_API_KEY;
 
-const base = new Airtable({ apiKey }).base(baseId || "");
+// Placeholder key so importing this module works without Airtable (DATA_STORE=memory);
+// every function checks baseId/apiKey before using the base
+const base = new Airtable({ apiKey: apiKey || "not-configured" }).base(baseId || "");
 
 const EVENTS_TABLE = process.env.AIRTABLE_EVENTS_TABLE || "Events";
 
@@ -27,11 +29,24 @@ export type EventType =
   | "wallet_created"
   | "credits_purchased"
   | "credits_expired"
+  | "credits_expiry_warning"
+  | "credits_refunded"
+  | "credits_refund_failed"
+  | "credits_transferred"
+  | "subscription_started"
+  | "subscription_renewed"
+  | "subscription_cancelled"
+  | "subscription_reactivated"
+  | "subscription_ended"
+  | "invoice_created"
   | "vacancy_created"
   | "vacancy_updated"
   | "vacancy_publish"
   | "vacancy_depublish"
   | "vacancy_boost"
+  | "vacancy_expiry_warning"
+  | "vacancy_deleted"
+  | "vacancy_webflow_synced"
   | "media_uploaded"
   | "media_deleted"
   | "onboarding_started"
@@ -0,0 +1,230 @@
+import type { InvoiceNumberField, TransactionRecord } from "@/lib/airtable";
+import type { InvoiceParty } from "@/lib/invoice";
+import { repositories, type TransactionUpdate } from "@/lib/repositories";
+
+/**
+ * Sequential invoice and credit note numbers
+ *
+ * Invoices are numbered CJ{year}-{00001} by the ledger when the purchase or
+ * invoiced spend is created, so numbers follow the order of the transactions
+ * and the invoice date is the transaction date. Refunding an invoiced
+ * transaction numbers its credit note in a separate series, CJC{year}-{00001}.
+ *
+ * Within one server instance numbers are assigned one at a time. Airtable has
+ * no unique constraint, so across instances every number is checked after it
+ * is written: a transaction that finds another holder of its number gives it
+ * up and, after a random pause, takes the next one. A collision can leave a gap
+ * in the series, never a duplicate number; collisions are logged so finance can
+ * account for gaps.
+ *
+ * Everything printed on the invoice that can change later (customer company
+ * details, seller details, product and vacancy names) is frozen in
+ * invoice_details_snapshot together with the number.
+ */
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+export const INVOICE_NUMBER_PREFIX = "CJ";
+export const CREDIT_NOTE_NUMBER_PREFIX = "CJC";
+const MAX_NUMBERING_ATTEMPTS = 5;
+
+// Numbering within this server instance runs one at a time
+let numberingQueue: Promise<unknown> = Promise.resolve();
+
+/** Invoice details as stored in invoice_details_snapshot (checkout and vacancy spends) */
+export interface InvoiceDetailsSnapshot {
+  contact_name?: string;
+  email?: string;
+  street?: string;
+  postal_code?: string;
+  city?: string;
+  reference_nr?: string;
+  company_name?: string;
+  kvk?: string;
+  // Frozen when the invoice is numbered
+  seller?: InvoiceParty;
+  product_names?: string[];
+  vacancy_name?: string | null;
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Invoice details from a stored snapshot; null when the snapshot is corrupt (not a JSON object)
+ */
+export function readInvoiceDetailsSnapshot(value: string | null | undefined): InvoiceDetailsSnapshot | null {
+  if (!value) return {};
+  try {
+    const parsed: unknown = JSON.parse(value);
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? (parsed as InvoiceDetailsSnapshot) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Invoice details from a stored snapshot; a corrupt snapshot reads as empty
+ */
+export function parseInvoiceDetailsSnapshot(value: string | null | undefined): InvoiceDetailsSnapshot {
+  return readInvoiceDetailsSnapshot(value) ?? {};
+}
+
+/**
+ * Seller details printed on invoices (INVOICE_SELLER_* environment variables)
+ */
+export function getInvoiceSeller(): InvoiceParty {
+  const [street, postalCodeAndCity] = (process.env.INVOICE_SELLER_ADDRESS || "").split(",").map((s) => s.trim());
+  return {
+    company_name: process.env.INVOICE_SELLER_NAME || "Colourful jobs",
+    street: street || null,
+    city: postalCodeAndCity || null,
+    email: process.env.INVOICE_SELLER_EMAIL || null,
+    kvk: process.env.INVOICE_SELLER_KVK || null,
+    vat_number: process.env.INVOICE_SELLER_VAT_NUMBER || null,
+    iban: process.env.INVOICE_SELLER_IBAN || null,
+  };
+}
+
+/**
+ * The transaction's snapshot completed with the current customer company details,
+ * seller details and product and vacancy names (values already frozen are kept)
+ */
+async function buildInvoiceDetailsSnapshot(transaction: TransactionRecord): Promise<InvoiceDetailsSnapshot> {
+  const snapshot = parseInvoiceDetailsSnapshot(transaction.invoice_details_snapshot);
+
+  // Spend snapshots have no company details, they are taken from the employer
+  if ((!snapshot.company_name || !snapshot.kvk) && transaction.employer_id) {
+    const employer = await repositories.employers.getById(transaction.employer_id);
+    snapshot.company_name = snapshot.company_name || employer?.company_name || employer?.display_name;
+    snapshot.kvk = snapshot.kvk || employer?.kvk;
+  }
+
+  if (!snapshot.product_names) {
+    const products = await Promise.all((transaction.product_ids || []).map((id) => repositories.products.getById(id)));
+    snapshot.product_names = products.filter((p): p is NonNullable<typeof p> => !!p).map((p) => p.display_name);
+  }
+  snapshot.seller = snapshot.seller || getInvoiceSeller();
+  if (snapshot.vacancy_name === undefined) {
+    snapshot.vacancy_name = transaction.vacancy_name || null;
+  }
+  return snapshot;
+}
+
+function isInvoiceContentFrozen(snapshot: InvoiceDetailsSnapshot): boolean {
+  return !!snapshot.seller && !!snapshot.product_names;
+}
+
+function formatNumber(prefix: string, sequence: number): string {
+  return `${prefix}${String(sequence).padStart(5, "0")}`;
+}
+
+function enqueue<T>(run: () => Promise<T>): Promise<T> {
+  const result = numberingQueue.then(run);
+  numberingQueue = result.catch(() => undefined);
+  return result;
+}
+
+/**
+ * Write the next free number of a series to the transaction and verify nobody else holds it
+ */
+async function claimNumber(
+  transaction: TransactionRecord,
+  field: InvoiceNumberField,
+  prefix: string,
+  fields: TransactionUpdate
+): Promise<TransactionRecord> {
+  for (let attempt = 1; attempt <= MAX_NUMBERING_ATTEMPTS; attempt++) {
+    const latest = await repositories.transactions.getLatestInvoiceNumber(prefix, field);
+    const sequence = latest ? parseInt(latest.slice(prefix.length), 10) + 1 : 1;
+    const number = formatNumber(prefix, sequence);
+
+    const updated = await repositories.transactions.update(transaction.id, { ...fields, [field]: number });
+
+    const holders = await repositories.transactions.getByInvoiceNumber(number, field);
+    if (holders.every((holder) => holder.id === transaction.id)) {
+      return updated;
+    }
+    console.warn(`[Invoice] ${number} was taken by another transaction, ${transaction.id} takes the next number (attempt ${attempt})`);
+    // Random pause, so two instances that collided don't pick the next number in lockstep
+    await new Promise((resolve) => setTimeout(resolve, 100 + Math.random() * 400));
+  }
+
+  // Give up the contested number rather than keep a duplicate
+  await repositories.transactions.update(transaction.id, { [field]: "" });
+  throw new Error(`Could not assign a unique ${field} to transaction ${transaction.id}`);
+}
+
+// ============================================
+// NUMBERING
+// ============================================
+
+/**
+ * Number the invoice of a transaction (no-op when it already has a number)
+ * The invoice content is frozen on the transaction at the same time.
+ */
+export function assignInvoiceNumber(
+  transactionId: string,
+  invoiceDate: Date = new Date()
+): Promise<{ transaction: TransactionRecord; created: boolean }> {
+  return enqueue(async () => {
+    const transaction = await repositories.transactions.getById(transactionId);
+    if (!transaction) {
+      throw new Error(`Transaction ${transactionId} not found`);
+    }
+    if (transaction.invoice_number) {
+      return { transaction, created: false };
+    }
+
+    const snapshot = await buildInvoiceDetailsSnapshot(transaction);
+    const numbered = await claimNumber(transaction, "invoice_number", `${INVOICE_NUMBER_PREFIX}${invoiceDate.getFullYear()}-`, {
+      invoice_date: invoiceDate.toISOString(),
+      invoice_details_snapshot: JSON.stringify(snapshot),
+    });
+    return { transaction: numbered, created: true };
+  });
+}
+
+/**
+ * Number the credit note of a refunded transaction with an issued invoice
+ * (no-op when it has no invoice or already has a credit note number)
+ */
+export function assignCreditNoteNumber(
+  transactionId: string,
+  creditNoteDate: Date = new Date()
+): Promise<{ transaction: TransactionRecord; created: boolean }> {
+  return enqueue(async () => {
+    const transaction = await repositories.transactions.getById(transactionId);
+    if (!transaction) {
+      throw new Error(`Transaction ${transactionId} not found`);
+    }
+    if (!transaction.invoice_number || transaction.credit_note_number) {
+      return { transaction, created: false };
+    }
+
+    const numbered = await claimNumber(
+      transaction,
+      "credit_note_number",
+      `${CREDIT_NOTE_NUMBER_PREFIX}${creditNoteDate.getFullYear()}-`,
+      { credit_note_date: creditNoteDate.toISOString() }
+    );
+    return { transaction: numbered, created: true };
+  });
+}
+
+/**
+ * Freeze the invoice content of a transaction numbered before the content was
+ * frozen with the number (no-op when it is already frozen)
+ */
+export async function freezeInvoiceContent(transaction: TransactionRecord): Promise<TransactionRecord> {
+  if (isInvoiceContentFrozen(parseInvoiceDetailsSnapshot(transaction.invoice_details_snapshot))) {
+    return transaction;
+  }
+  const snapshot = await buildInvoiceDetailsSnapshot(transaction);
+  return repositories.transactions.update(transaction.id, {
+    invoice_details_snapshot: JSON.stringify(snapshot),
+  });
+}
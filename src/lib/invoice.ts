@@ -0,0 +1,461 @@
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFPage } from "pdf-lib";
+import type { TransactionRecord } from "@/lib/airtable";
+import { getDeductedCredits } from "@/lib/ledger";
+import {
+  assignCreditNoteNumber,
+  assignInvoiceNumber,
+  freezeInvoiceContent,
+  getInvoiceSeller,
+  parseInvoiceDetailsSnapshot,
+  type InvoiceDetailsSnapshot,
+} from "@/lib/invoice-numbers";
+
+/**
+ * Invoice PDFs for purchase transactions and spends with an invoiced shortage
+ *
+ * The invoice number and date are assigned by the ledger when the transaction
+ * is created (see lib/invoice-numbers.ts) and stored on the transaction,
+ * together with the customer and seller details and the product and vacancy
+ * names. The PDF is rendered from stored data only, so downloading it again
+ * gives the same document. A refunded invoice stays downloadable and gets a
+ * credit note for the full invoice amount.
+ */
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface InvoiceParty {
+  company_name: string;
+  contact_name?: string | null;
+  street?: string | null;
+  postal_code?: string | null;
+  city?: string | null;
+  email?: string | null;
+  kvk?: string | null;
+  vat_number?: string | null;
+  iban?: string | null;
+}
+
+export interface InvoiceLine {
+  description: string;
+  credits: number | null;
+  amount: number; // Euro excl. VAT
+}
+
+export interface InvoiceData {
+  document: "invoice" | "credit_note";
+  /** Invoice or credit note number */
+  invoice_number: string;
+  /** Credit note only: the invoice it credits */
+  credited_invoice_number: string | null;
+  invoice_date: string;
+  due_date: string;
+  reference_nr: string | null;
+  seller: InvoiceParty;
+  customer: InvoiceParty;
+  lines: InvoiceLine[];
+  subtotal: number;
+  vat: number;
+  total: number;
+}
+
+export interface GeneratedInvoice {
+  transaction: TransactionRecord;
+  invoice: InvoiceData;
+  pdf: Uint8Array;
+  /** True when the number was assigned by this call (transactions from before numbering at creation) */
+  created: boolean;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+export const VAT_RATE = 0.21;
+const PAYMENT_TERM_DAYS = 14;
+
+const NAVY = rgb(31 / 255, 45 / 255, 88 / 255);
+const MUTED = rgb(98 / 255, 108 / 255, 138 / 255);
+const LINE = rgb(220 / 255, 226 / 255, 234 / 255);
+
+// ============================================
+// AMOUNTS
+// ============================================
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Euro amount (excl. VAT) invoiced by a transaction
+ * - Purchase: the bundle price (after promo code discount)
+ * - Spend: the credits shortage (credits_invoiced); legacy invoice-only spends
+ *   (no credits deducted) invoice the full price
+ */
+export function getInvoiceAmount(transaction: TransactionRecord): number {
+  if (transaction.type === "purchase") {
+    return transaction.total_cost || 0;
+  }
+  if (transaction.type === "spend") {
+    if (transaction.credits_shortage) return transaction.credits_invoiced || 0;
+    if (getDeductedCredits(transaction) === 0 && transaction.status === "open") {
+      return transaction.total_cost || 0;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Whether an invoice PDF can be downloaded for this transaction
+ * An issued invoice stays downloadable after a refund (next to its credit note)
+ */
+export function isInvoiceable(transaction: TransactionRecord): boolean {
+  if (transaction.status === "failed") return false;
+  if (transaction.status === "refunded") return !!transaction.invoice_number;
+  return getInvoiceAmount(transaction) > 0;
+}
+
+/**
+ * Whether a credit note PDF can be downloaded: refunded transactions with an issued invoice
+ */
+export function hasCreditNote(transaction: TransactionRecord): boolean {
+  return transaction.status === "refunded" && !!transaction.invoice_number;
+}
+
+// ============================================
+// INVOICE DATA
+// ============================================
+
+function buildLines(transaction: TransactionRecord, snapshot: InvoiceDetailsSnapshot): InvoiceLine[] {
+  const productNames = snapshot.product_names || [];
+  const invoiced = getInvoiceAmount(transaction);
+
+  if (transaction.type === "purchase") {
+    const name = productNames[0] || "Creditpakket";
+    const discount = transaction.discount_amount || 0;
+    const bonusCredits = transaction.bonus_credits || 0;
+    const lines: InvoiceLine[] = [{
+      description: transaction.subscription_id ? `${name} (jaarabonnement)` : name,
+      credits: transaction.total_credits != null ? transaction.total_credits - bonusCredits : null,
+      amount: roundCents(invoiced + discount),
+    }];
+    // Promo code: total_cost is after discount and total_credits includes the bonus
+    if (discount > 0) {
+      lines.push({ description: `Korting (${transaction.promo_code})`, credits: null, amount: -discount });
+    }
+    if (bonusCredits > 0) {
+      lines.push({ description: `Bonuscredits (${transaction.promo_code})`, credits: bonusCredits, amount: 0 });
+    }
+    return lines;
+  }
+
+  // Spend: full price of the vacancy products, minus the part paid with credits
+  const description = [productNames.join(" + ") || "Vacature", snapshot.vacancy_name]
+    .filter(Boolean)
+    .join(" – ");
+  const totalCost = transaction.total_cost ?? invoiced;
+  const lines: InvoiceLine[] = [{
+    description,
+    credits: transaction.total_credits ?? null,
+    amount: totalCost,
+  }];
+
+  const deducted = getDeductedCredits(transaction);
+  if (deducted > 0) {
+    lines.push({
+      description: `Voldaan met ${deducted} credits uit je tegoed`,
+      credits: -deducted,
+      amount: roundCents(invoiced - totalCost),
+    });
+  }
+
+  return lines;
+}
+
+/**
+ * Collect everything printed on the invoice of a numbered transaction
+ */
+export async function buildInvoiceData(transaction: TransactionRecord): Promise<InvoiceData> {
+  if (!transaction.invoice_number || !transaction.invoice_date) {
+    throw new Error(`Transaction ${transaction.id} has no invoice number`);
+  }
+
+  const snapshot = parseInvoiceDetailsSnapshot(transaction.invoice_details_snapshot);
+  const subtotal = roundCents(getInvoiceAmount(transaction));
+  const vat = roundCents(subtotal * VAT_RATE);
+  const dueDate = new Date(transaction.invoice_date);
+  dueDate.setDate(dueDate.getDate() + PAYMENT_TERM_DAYS);
+
+  return {
+    document: "invoice",
+    invoice_number: transaction.invoice_number,
+    credited_invoice_number: null,
+    invoice_date: transaction.invoice_date,
+    due_date: dueDate.toISOString(),
+    reference_nr: snapshot.reference_nr || null,
+    seller: snapshot.seller || getInvoiceSeller(),
+    customer: {
+      company_name: snapshot.company_name || snapshot.contact_name || "",
+      contact_name: snapshot.contact_name || null,
+      street: snapshot.street || null,
+      postal_code: snapshot.postal_code || null,
+      city: snapshot.city || null,
+      email: snapshot.email || null,
+      kvk: snapshot.kvk || null,
+    },
+    lines: buildLines(transaction, snapshot),
+    subtotal,
+    vat,
+    total: roundCents(subtotal + vat),
+  };
+}
+
+/**
+ * Credit note of a refunded invoice: the invoice with every amount negated
+ */
+export async function buildCreditNoteData(transaction: TransactionRecord): Promise<InvoiceData> {
+  if (!transaction.credit_note_number || !transaction.credit_note_date) {
+    throw new Error(`Transaction ${transaction.id} has no credit note number`);
+  }
+
+  const invoice = await buildInvoiceData(transaction);
+  return {
+    ...invoice,
+    document: "credit_note",
+    invoice_number: transaction.credit_note_number,
+    credited_invoice_number: invoice.invoice_number,
+    invoice_date: transaction.credit_note_date,
+    due_date: transaction.credit_note_date,
+    lines: invoice.lines.map((line) => ({
+      ...line,
+      credits: line.credits !== null ? -line.credits : null,
+      amount: -line.amount,
+    })),
+    subtotal: -invoice.subtotal,
+    vat: -invoice.vat,
+    total: -invoice.total,
+  };
+}
+
+// ============================================
+// PDF RENDERING
+// ============================================
+
+function formatEuro(amount: number): string {
+  const formatted = Math.abs(amount).toLocaleString("nl-NL", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  });
+  return `${amount < 0 ? "- " : ""}€ ${formatted}`;
+}
+
+function formatInvoiceDate(value: string): string {
+  return new Date(value).toLocaleDateString("nl-NL", {
+    day: "numeric",
+    month: "long",
+    year: "numeric",
+    timeZone: "Europe/Amsterdam",
+  });
+}
+
+/** Replace characters the standard PDF fonts can't encode (WinAnsi) */
+function sanitize(font: PDFFont, text: string): string {
+  const supported = new Set(font.getCharacterSet());
+  return Array.from(text)
+    .map((char) => (supported.has(char.codePointAt(0) || 0) ? char : "?"))
+    .join("");
+}
+
+/** Split text into lines that fit within maxWidth */
+function wrapText(font: PDFFont, text: string, size: number, maxWidth: number): string[] {
+  const lines: string[] = [];
+  let current = "";
+  for (const word of sanitize(font, text).split(" ")) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (current && font.widthOfTextAtSize(candidate, size) > maxWidth) {
+      lines.push(current);
+      current = word;
+    } else {
+      current = candidate;
+    }
+  }
+  if (current) lines.push(current);
+  return lines;
+}
+
+/**
+ * Render invoice data as an A4 PDF
+ * Document dates are the invoice date, so the output only depends on the data
+ */
+export async function renderInvoicePdf(invoice: InvoiceData): Promise<Uint8Array> {
+  const doc = await PDFDocument.create();
+  const invoiceDate = new Date(invoice.invoice_date);
+  const isCreditNote = invoice.document === "credit_note";
+  const title = isCreditNote ? "Creditnota" : "Factuur";
+  doc.setTitle(`${title} ${invoice.invoice_number}`);
+  doc.setAuthor(invoice.seller.company_name);
+  doc.setCreator(invoice.seller.company_name);
+  doc.setProducer(invoice.seller.company_name);
+  doc.setCreationDate(invoiceDate);
+  doc.setModificationDate(invoiceDate);
+
+  const page = doc.addPage([595.28, 841.89]);
+  const regular = await doc.embedFont(StandardFonts.Helvetica);
+  const bold = await doc.embedFont(StandardFonts.HelveticaBold);
+  const left = 50;
+  const right = page.getWidth() - 50;
+
+  const text = (p: PDFPage, value: string, x: number, y: number, options: { size?: number; font?: PDFFont; color?: typeof NAVY; align?: "left" | "right" } = {}) => {
+    const font = options.font || regular;
+    const size = options.size || 10;
+    const safe = sanitize(font, value);
+    const drawX = options.align === "right" ? x - font.widthOfTextAtSize(safe, size) : x;
+    p.drawText(safe, { x: drawX, y, size, font, color: options.color || NAVY });
+  };
+
+  // Header: seller
+  let y = 790;
+  text(page, invoice.seller.company_name, left, y, { size: 20, font: bold });
+  const sellerLines = [
+    invoice.seller.street,
+    invoice.seller.city,
+    invoice.seller.email,
+    invoice.seller.kvk && `KVK: ${invoice.seller.kvk}`,
+    invoice.seller.vat_number && `Btw-nummer: ${invoice.seller.vat_number}`,
+    invoice.seller.iban && `IBAN: ${invoice.seller.iban}`,
+  ].filter((line): line is string => !!line);
+  sellerLines.forEach((line, index) => {
+    text(page, line, right, y - index * 13, { size: 9, color: MUTED, align: "right" });
+  });
+
+  // Customer
+  y = 680;
+  const customer = invoice.customer;
+  const customerLines = [
+    customer.contact_name && customer.contact_name !== customer.company_name && `t.a.v. ${customer.contact_name}`,
+    customer.street,
+    [customer.postal_code, customer.city].filter(Boolean).join(" "),
+    customer.kvk && `KVK: ${customer.kvk}`,
+    customer.email,
+  ].filter((line): line is string => !!line);
+  text(page, customer.company_name, left, y, { font: bold });
+  customerLines.forEach((line, index) => {
+    text(page, line, left, y - (index + 1) * 13);
+  });
+
+  // Invoice meta
+  const meta: [string, string][] = isCreditNote
+    ? [
+        ["Creditnotanummer", invoice.invoice_number],
+        ["Datum", formatInvoiceDate(invoice.invoice_date)],
+        ["Betreft factuur", invoice.credited_invoice_number || ""],
+      ]
+    : [
+        ["Factuurnummer", invoice.invoice_number],
+        ["Factuurdatum", formatInvoiceDate(invoice.invoice_date)],
+        ["Vervaldatum", formatInvoiceDate(invoice.due_date)],
+      ];
+  if (invoice.reference_nr) {
+    meta.push(["Uw referentie", invoice.reference_nr]);
+  }
+  meta.forEach(([label, value], index) => {
+    text(page, label, 360, y - index * 13, { color: MUTED });
+    text(page, value, right, y - index * 13, { align: "right" });
+  });
+
+  y = 580;
+  text(page, title, left, y, { size: 18, font: bold });
+
+  // Lines table
+  y -= 35;
+  text(page, "Omschrijving", left, y, { font: bold, size: 9 });
+  text(page, "Credits", 400, y, { font: bold, size: 9, align: "right" });
+  text(page, "Bedrag excl. btw", right, y, { font: bold, size: 9, align: "right" });
+  y -= 8;
+  page.drawLine({ start: { x: left, y }, end: { x: right, y }, thickness: 1, color: LINE });
+
+  for (const line of invoice.lines) {
+    y -= 18;
+    if (line.credits !== null) {
+      text(page, String(line.credits), 400, y, { align: "right" });
+    }
+    text(page, formatEuro(line.amount), right, y, { align: "right" });
+    wrapText(regular, line.description, 10, 280).forEach((descriptionLine, index) => {
+      if (index > 0) y -= 13;
+      text(page, descriptionLine, left, y);
+    });
+  }
+
+  y -= 12;
+  page.drawLine({ start: { x: left, y }, end: { x: right, y }, thickness: 1, color: LINE });
+
+  // Totals
+  const totals: [string, string, PDFFont][] = [
+    ["Subtotaal excl. btw", formatEuro(invoice.subtotal), regular],
+    [`Btw ${Math.round(VAT_RATE * 100)}%`, formatEuro(invoice.vat), regular],
+    ["Totaal incl. btw", formatEuro(invoice.total), bold],
+  ];
+  for (const [label, value, font] of totals) {
+    y -= 18;
+    text(page, label, 400, y, { font, align: "right" });
+    text(page, value, right, y, { font, align: "right" });
+  }
+
+  // Payment instructions
+  y -= 50;
+  const payment = isCreditNote
+    ? `Deze creditnota crediteert factuur ${invoice.credited_invoice_number}. Heb je die factuur al betaald, dan storten we het bedrag terug.`
+    : invoice.seller.iban
+    ? `Graag het totaalbedrag binnen ${PAYMENT_TERM_DAYS} dagen overmaken naar ${invoice.seller.iban} t.n.v. ${invoice.seller.company_name}, o.v.v. ${invoice.invoice_number}.`
+    : `Graag het totaalbedrag binnen ${PAYMENT_TERM_DAYS} dagen voldoen o.v.v. ${invoice.invoice_number}.`;
+  wrapText(regular, payment, 9, right - left).forEach((paymentLine, index) => {
+    text(page, paymentLine, left, y - index * 12, { size: 9, color: MUTED });
+  });
+
+  return doc.save();
+}
+
+// ============================================
+// GENERATION
+// ============================================
+
+/**
+ * Generate the invoice PDF of a transaction
+ * Transactions from before numbering at creation are numbered here; throws if
+ * the transaction is not invoiceable
+ */
+export async function generateInvoice(transaction: TransactionRecord): Promise<GeneratedInvoice> {
+  if (!isInvoiceable(transaction)) {
+    throw new Error(`Transaction ${transaction.id} has no invoice`);
+  }
+
+  const numbered = transaction.invoice_number
+    ? { transaction: await freezeInvoiceContent(transaction), created: false }
+    : await assignInvoiceNumber(transaction.id);
+
+  const invoice = await buildInvoiceData(numbered.transaction);
+  const pdf = await renderInvoicePdf(invoice);
+
+  return { transaction: numbered.transaction, invoice, pdf, created: numbered.created };
+}
+
+/**
+ * Generate the credit note PDF of a refunded invoice
+ * Refunds from before credit notes existed are numbered here; throws if the
+ * transaction has no credit note
+ */
+export async function generateCreditNote(transaction: TransactionRecord): Promise<GeneratedInvoice> {
+  if (!hasCreditNote(transaction)) {
+    throw new Error(`Transaction ${transaction.id} has no credit note`);
+  }
+
+  const numbered = transaction.credit_note_number
+    ? { transaction: await freezeInvoiceContent(transaction), created: false }
+    : await assignCreditNoteNumber(transaction.id);
+
+  const invoice = await buildCreditNoteData(numbered.transaction);
+  const pdf = await renderInvoicePdf(invoice);
+
+  return { transaction: numbered.transaction, invoice, pdf, created: numbered.created };
+}
@@ -0,0 +1,354 @@
+import { createHash } from "crypto";
+import type { EmployerRecord, LookupRecord, VacancyRecord } from "@/lib/airtable";
+import { repositories } from "@/lib/repositories";
+import { getVacancyPublicUrl, WEBSITE_URL } from "@/lib/slugs";
+import { getEmploymentTypes, type EmploymentType } from "@/lib/job-posting";
+
+/**
+ * XML job feeds for aggregators (GET /api/feeds/[profile])
+ *
+ * Every published vacancy with a public URL is in the feeds, unless the employer opted
+ * it out (syndication_opt_out) or its closing date has passed. A profile decides the
+ * XML element names, date and job type notation, and which vacancies it takes
+ * (e.g. Jooble needs a region). The feed is rendered per vacancy so it can be streamed.
+ */
+
+export type JobFeedProfileId = "indeed" | "jooble" | "nationale-vacaturebank";
+
+/** Neutral vacancy data, written out by a profile */
+export interface JobFeedItem {
+  id: string;
+  title: string;
+  url: string;
+  company: string;
+  city: string | null;
+  region: string | null;
+  /** HTML */
+  description: string;
+  salary: string | null;
+  functionType: string | null;
+  employmentTypes: EmploymentType[];
+  category: string | null;
+  datePosted: Date;
+  updatedAt: Date;
+  closingDate: Date | null;
+}
+
+/** XML element: text (escaped), CDATA or nested elements; null values are left out */
+type FeedValue = string | { cdata: string } | FeedElement[] | null;
+type FeedElement = [name: string, value: FeedValue];
+
+export interface JobFeedProfile {
+  id: JobFeedProfileId;
+  name: string;
+  rootElement: string;
+  jobElement: string;
+  /** Elements before the first job (feed metadata) */
+  header: (lastBuildDate: Date) => FeedElement[];
+  /** Attributes of the job element */
+  jobAttributes?: (item: JobFeedItem) => Record<string, string>;
+  fields: (item: JobFeedItem) => FeedElement[];
+  /** Item properties the aggregator requires; items without them are left out */
+  required: (keyof JobFeedItem)[];
+}
+
+const PUBLISHER = "Colourful jobs";
+
+/** Shortest description aggregators accept as a real job ad */
+const MIN_DESCRIPTION_LENGTH = 100;
+
+// ============================================
+// PROFILES
+// ============================================
+
+const INDEED_JOB_TYPES: Partial<Record<EmploymentType, string>> = {
+  FULL_TIME: "fulltime",
+  PART_TIME: "parttime",
+  CONTRACTOR: "contract",
+  TEMPORARY: "temporary",
+  INTERN: "internship",
+  VOLUNTEER: "volunteer",
+  PER_DIEM: "perdiem",
+};
+
+const JOOBLE_JOB_TYPES: Partial<Record<EmploymentType, string>> = {
+  FULL_TIME: "full-time",
+  PART_TIME: "part-time",
+  CONTRACTOR: "contract",
+  TEMPORARY: "temporary",
+  INTERN: "internship",
+};
+
+function mapJobTypes(types: EmploymentType[], names: Partial<Record<EmploymentType, string>>): string | null {
+  const mapped = types.map((type) => names[type]).filter((name): name is string => !!name);
+  return mapped.length > 0 ? mapped.join(", ") : null;
+}
+
+/** dd.mm.yyyy (Jooble) */
+function toDutchDate(date: Date): string {
+  const day = String(date.getUTCDate()).padStart(2, "0");
+  const month = String(date.getUTCMonth() + 1).padStart(2, "0");
+  return `${day}.${month}.${date.getUTCFullYear()}`;
+}
+
+const JOB_FEED_PROFILES: Record<JobFeedProfileId, JobFeedProfile> = {
+  // Indeed XML feed
+  indeed: {
+    id: "indeed",
+    name: "Indeed",
+    rootElement: "source",
+    jobElement: "job",
+    header: (lastBuildDate) => [
+      ["publisher", PUBLISHER],
+      ["publisherurl", WEBSITE_URL],
+      ["lastBuildDate", lastBuildDate.toUTCString()],
+    ],
+    fields: (item) => [
+      ["title", { cdata: item.title }],
+      ["date", { cdata: item.datePosted.toUTCString() }],
+      ["referencenumber", { cdata: item.id }],
+      ["url", { cdata: item.url }],
+      ["company", { cdata: item.company }],
+      ["city", item.city && { cdata: item.city }],
+      ["state", item.region && { cdata: item.region }],
+      ["country", { cdata: "NL" }],
+      ["description", { cdata: item.description }],
+      ["salary", item.salary && { cdata: item.salary }],
+      ["jobtype", mapJobTypes(item.employmentTypes, INDEED_JOB_TYPES)],
+      ["category", item.category && { cdata: item.category }],
+      ["expirationdate", item.closingDate && item.closingDate.toUTCString()],
+    ],
+    required: ["city"],
+  },
+
+  // Jooble XML feed
+  jooble: {
+    id: "jooble",
+    name: "Jooble",
+    rootElement: "jobs",
+    jobElement: "job",
+    header: () => [],
+    jobAttributes: (item) => ({ id: item.id }),
+    fields: (item) => [
+      ["link", { cdata: item.url }],
+      ["name", { cdata: item.title }],
+      ["region", item.region && { cdata: item.city ? `${item.city}, ${item.region}` : item.region }],
+      ["description", { cdata: item.description }],
+      ["pubdate", toDutchDate(item.datePosted)],
+      ["updated", toDutchDate(item.updatedAt)],
+      ["salary", item.salary && { cdata: item.salary }],
+      ["company", { cdata: item.company }],
+      ["expire", item.closingDate && toDutchDate(item.closingDate)],
+      ["jobtype", mapJobTypes(item.employmentTypes, JOOBLE_JOB_TYPES)],
+    ],
+    required: ["region"],
+  },
+
+  // Dutch job board feed in the style of Nationale Vacaturebank (Dutch element names, ISO dates)
+  "nationale-vacaturebank": {
+    id: "nationale-vacaturebank",
+    name: "Nationale Vacaturebank",
+    rootElement: "vacatures",
+    jobElement: "vacature",
+    header: (lastBuildDate) => [
+      ["bron", PUBLISHER],
+      ["bijgewerkt", lastBuildDate.toISOString()],
+    ],
+    fields: (item) => [
+      ["id", item.id],
+      ["titel", { cdata: item.title }],
+      ["url", { cdata: item.url }],
+      ["werkgever", { cdata: item.company }],
+      ["standplaats", [
+        ["plaats", item.city && { cdata: item.city }],
+        ["provincie", item.region && { cdata: item.region }],
+        ["land", "NL"],
+      ]],
+      ["omschrijving", { cdata: item.description }],
+      ["salaris", item.salary && { cdata: item.salary }],
+      ["dienstverband", item.functionType && { cdata: item.functionType }],
+      ["branche", item.category && { cdata: item.category }],
+      ["publicatiedatum", item.datePosted.toISOString()],
+      ["sluitingsdatum", item.closingDate && item.closingDate.toISOString()],
+    ],
+    required: ["city", "functionType"],
+  },
+};
+
+/**
+ * The profile with this ID, null for an unknown profile
+ */
+export function getJobFeedProfile(id: string): JobFeedProfile | null {
+  return Object.prototype.hasOwnProperty.call(JOB_FEED_PROFILES, id)
+    ? JOB_FEED_PROFILES[id as JobFeedProfileId]
+    : null;
+}
+
+// ============================================
+// XML
+// ============================================
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+/** Characters XML 1.0 doesn't allow, e.g. control characters pasted from Word */
+function stripInvalidXmlChars(value: string): string {
+  return value.replace(/[^\u0009\u000A\u000D\u0020-\uD7FF\uE000-\uFFFD\u{10000}-\u{10FFFF}]/gu, "");
+}
+
+function renderElement([name, value]: FeedElement, indent: string): string {
+  if (value === null || value === "") return "";
+  if (Array.isArray(value)) {
+    const children = value.map((child) => renderElement(child, `${indent}  `)).join("");
+    return children ? `${indent}<${name}>\n${children}${indent}</${name}>\n` : "";
+  }
+  const content = typeof value === "string"
+    ? escapeXml(stripInvalidXmlChars(value))
+    : `<![CDATA[${stripInvalidXmlChars(value.cdata).replace(/]]>/g, "]]]]><![CDATA[>")}]]>`;
+  return `${indent}<${name}>${content}</${name}>\n`;
+}
+
+function renderJob(profile: JobFeedProfile, item: JobFeedItem): string {
+  const attributes = Object.entries(profile.jobAttributes?.(item) || {})
+    .map(([name, value]) => ` ${name}="${escapeXml(value)}"`)
+    .join("");
+  const fields = profile.fields(item).map((field) => renderElement(field, "    ")).join("");
+  return `  <${profile.jobElement}${attributes}>\n${fields}  </${profile.jobElement}>\n`;
+}
+
+// ============================================
+// FEED
+// ============================================
+
+function toDate(value: string | null | undefined): Date | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/** Last change of a vacancy in the feed */
+function getVacancyModifiedAt(vacancy: VacancyRecord): Date | null {
+  const dates = [vacancy["updated-at"], vacancy["last-published-at"], vacancy["first-published-at"]]
+    .map(toDate)
+    .filter((date): date is Date => !!date);
+  return dates.length > 0 ? new Date(Math.max(...dates.map((date) => date.getTime()))) : null;
+}
+
+/**
+ * ETag and Last-Modified of a feed
+ * The ETag is a hash of the profile's items, so it also changes when an employer or
+ * lookup name in the feed changes; Last-Modified follows the vacancies.
+ */
+export function getJobFeedVersion(
+  profile: JobFeedProfile,
+  items: JobFeedItem[]
+): { etag: string; lastModified: Date | null } {
+  const hash = createHash("sha1").update(profile.id);
+  let lastModified: Date | null = null;
+  for (const item of getProfileItems(profile, items)) {
+    hash.update(`|${JSON.stringify(item)}`);
+    if (!lastModified || item.updatedAt > lastModified) lastModified = item.updatedAt;
+  }
+  return { etag: `W/"${hash.digest("hex")}"`, lastModified };
+}
+
+/**
+ * Vacancies for the feeds: published, with a public URL and not past their closing date
+ */
+export async function getJobFeedVacancies(): Promise<VacancyRecord[]> {
+  const today = new Date().toISOString().slice(0, 10);
+  const vacancies = await repositories.vacancies.getSyndicated();
+  return vacancies.filter(
+    (vacancy) => !!vacancy.slug && !!vacancy.employer_id && (!vacancy.closing_date || vacancy.closing_date.slice(0, 10) >= today)
+  );
+}
+
+function toJobFeedItem(
+  vacancy: VacancyRecord,
+  employer: EmployerRecord | null,
+  lookups: { functionTypes: LookupRecord[]; regions: LookupRecord[]; sectors: LookupRecord[] }
+): JobFeedItem | null {
+  const company = employer ? employer.display_name || employer.company_name : null;
+  const title = vacancy.title?.trim();
+  // The intro is plain text, the description is already HTML
+  const intro = vacancy.intro_txt?.trim();
+  const description = [intro && `<p>${escapeXml(intro)}</p>`, vacancy.description?.trim()]
+    .filter(Boolean)
+    .join("\n");
+  const datePosted = toDate(vacancy["first-published-at"]);
+  if (!vacancy.slug || !company || !title || !datePosted || description.length < MIN_DESCRIPTION_LENGTH) {
+    return null;
+  }
+
+  const functionType = lookups.functionTypes.find((ft) => ft.id === vacancy.function_type_id)?.name || null;
+  return {
+    id: vacancy.id,
+    title,
+    url: getVacancyPublicUrl(vacancy.slug),
+    company,
+    city: vacancy.location?.trim() || null,
+    region: lookups.regions.find((r) => r.id === vacancy.region_id)?.name || null,
+    description,
+    salary: vacancy.salary?.trim() || null,
+    functionType,
+    employmentTypes: getEmploymentTypes(functionType, vacancy.hrs_per_week),
+    category: lookups.sectors.find((s) => s.id === vacancy.sector_id)?.name || null,
+    datePosted,
+    updatedAt: getVacancyModifiedAt(vacancy) || datePosted,
+    closingDate: vacancy.closing_date ? toDate(vacancy.closing_date.slice(0, 10) + "T23:59:59Z") : null,
+  };
+}
+
+/**
+ * Feed items of the vacancies, with the names of their employer and lookups
+ * Vacancies without the data every aggregator needs are left out
+ */
+export async function getJobFeedItems(vacancies: VacancyRecord[]): Promise<JobFeedItem[]> {
+  const [functionTypes, regions, sectors] = await Promise.all([
+    repositories.lookups.getFunctionTypes(),
+    repositories.lookups.getRegions(),
+    repositories.lookups.getSectors(),
+  ]);
+  const employers = new Map<string, EmployerRecord | null>();
+  const items: JobFeedItem[] = [];
+
+  for (const vacancy of vacancies) {
+    const employerId = vacancy.employer_id || "";
+    if (!employers.has(employerId)) {
+      employers.set(employerId, employerId ? await repositories.employers.getById(employerId) : null);
+    }
+
+    const item = toJobFeedItem(vacancy, employers.get(employerId) || null, { functionTypes, regions, sectors });
+    if (item) items.push(item);
+  }
+  return items;
+}
+
+/** Items with every property the profile requires */
+function getProfileItems(profile: JobFeedProfile, items: JobFeedItem[]): JobFeedItem[] {
+  return items.filter((item) => profile.required.every((property) => !!item[property]));
+}
+
+/**
+ * The feed XML in chunks: header, one chunk per vacancy, footer
+ */
+export function* renderJobFeed(
+  profile: JobFeedProfile,
+  items: JobFeedItem[],
+  lastBuildDate: Date
+): Generator<string> {
+  const header = profile.header(lastBuildDate).map((element) => renderElement(element, "  ")).join("");
+  yield `<?xml version="1.0" encoding="UTF-8"?>\n<${profile.rootElement}>\n${header}`;
+
+  for (const item of getProfileItems(profile, items)) {
+    yield renderJob(profile, item);
+  }
+
+  yield `</${profile.rootElement}>\n`;
+}
@@ -0,0 +1,310 @@
+import type { EmployerRecord, VacancyRecord } from "@/lib/airtable";
+import { repositories } from "@/lib/repositories";
+import { getVacancyPublicUrl } from "@/lib/slugs";
+import { getMediaAssetUrl } from "@/lib/webflow-mapping";
+import { normalizeUrl } from "@/lib/utils";
+
+/**
+ * schema.org JobPosting structured data for Google for Jobs
+ * https://developers.google.com/search/docs/appearance/structured-data/job-posting
+ *
+ * buildJobPosting is pure: the employer, logo and lookup names are resolved by the
+ * caller (getVacancyJobPosting). validateJobPosting lists the properties Google
+ * requires and recommends that are missing, for the report in the vacancy preview.
+ */
+
+/** Hours per week from which a vacancy counts as full-time */
+export const FULL_TIME_HOURS = 36;
+
+type SalaryUnit = "HOUR" | "DAY" | "WEEK" | "MONTH" | "YEAR";
+
+export type EmploymentType =
+  | "FULL_TIME"
+  | "PART_TIME"
+  | "CONTRACTOR"
+  | "TEMPORARY"
+  | "INTERN"
+  | "VOLUNTEER"
+  | "PER_DIEM"
+  | "OTHER";
+
+export interface JobPostingSalary {
+  "@type": "MonetaryAmount";
+  currency: "EUR";
+  value: {
+    "@type": "QuantitativeValue";
+    value?: number;
+    minValue?: number;
+    maxValue?: number;
+    unitText: SalaryUnit;
+  };
+}
+
+export interface JobPosting {
+  "@context": "https://schema.org/";
+  "@type": "JobPosting";
+  title?: string;
+  description?: string;
+  datePosted?: string;
+  validThrough?: string;
+  employmentType?: EmploymentType | EmploymentType[];
+  hiringOrganization?: {
+    "@type": "Organization";
+    name: string;
+    sameAs?: string;
+    logo?: string;
+  };
+  jobLocation?: {
+    "@type": "Place";
+    address: {
+      "@type": "PostalAddress";
+      addressLocality?: string;
+      addressRegion?: string;
+      addressCountry: "NL";
+    };
+  };
+  baseSalary?: JobPostingSalary;
+  identifier?: { "@type": "PropertyValue"; name: string; value: string };
+  directApply?: boolean;
+  url?: string;
+}
+
+export interface JobPostingReferences {
+  employer: EmployerRecord | null;
+  logoUrl: string | null;
+  functionType: string | null;
+  region: string | null;
+  /** datePosted for a vacancy that isn't published yet (preview) */
+  datePosted?: string | null;
+}
+
+export interface JobPostingIssue {
+  property: string;
+  /** Dutch, shown in the vacancy preview */
+  message: string;
+}
+
+export interface JobPostingReport {
+  /** All required properties are present */
+  valid: boolean;
+  missingRequired: JobPostingIssue[];
+  missingRecommended: JobPostingIssue[];
+}
+
+// ============================================
+// PARSING
+// ============================================
+
+/** Dutch number notation: "3.200" → 3200, "18,50" → 18.5, "45k" → 45000 */
+function parseAmount(value: string, thousands: boolean): number | null {
+  let normalized = value;
+  if (/^\d{1,3}(\.\d{3})+(,\d+)?$/.test(normalized)) {
+    normalized = normalized.replace(/\./g, "").replace(",", ".");
+  } else if (/^\d{1,3}(,\d{3})+$/.test(normalized)) {
+    normalized = normalized.replace(/,/g, "");
+  } else {
+    normalized = normalized.replace(",", ".");
+  }
+  const amount = Number(normalized);
+  if (!Number.isFinite(amount) || amount <= 0) return null;
+  return thousands ? amount * 1000 : amount;
+}
+
+/** Unit from the text ("per maand"), otherwise guessed from the amount */
+function getSalaryUnit(text: string, amount: number): SalaryUnit {
+  if (/\buur|p\/u\b/.test(text)) return "HOUR";
+  if (/\bdag/.test(text)) return "DAY";
+  if (/\bweek/.test(text)) return "WEEK";
+  if (/maand|\bmnd\b|p\/m\b/.test(text)) return "MONTH";
+  if (/jaar|p\/j\b/.test(text)) return "YEAR";
+  if (amount < 100) return "HOUR";
+  return amount < 20000 ? "MONTH" : "YEAR";
+}
+
+/**
+ * Salary text to a MonetaryAmount, null without a euro amount
+ * e.g. "€ 3.200 - € 4.400 per maand", "€18,50 per uur", "€45k - 55k per jaar"
+ */
+export function parseSalary(salary: string | null | undefined): JobPostingSalary | null {
+  if (!salary) return null;
+  const text = salary.toLowerCase();
+  const amount = "(\\d[\\d.,]*\\d|\\d)(\\s?k\\b)?";
+  const match = text.match(new RegExp(`(?:€|eur\\b|euro\\b)\\s*${amount}(?:\\s*(?:-|–|tot)\\s*(?:€|eur\\b|euro\\b)?\\s*${amount})?`));
+  if (!match) return null;
+
+  // "45 - 55k": the k applies to both amounts
+  const thousands = !!match[2] || !!match[4];
+  const min = parseAmount(match[1], thousands);
+  const max = match[3] ? parseAmount(match[3], thousands) : null;
+  if (min === null) return null;
+
+  const unitText = getSalaryUnit(text, max ?? min);
+  return {
+    "@type": "MonetaryAmount",
+    currency: "EUR",
+    value: max !== null && max > min
+      ? { "@type": "QuantitativeValue", minValue: min, maxValue: max, unitText }
+      : { "@type": "QuantitativeValue", value: min, unitText },
+  };
+}
+
+/** Hours per week, e.g. "32" or "24-32"; null when there is no number */
+function parseHours(hours: string | null | undefined): { min: number; max: number } | null {
+  const numbers = (hours || "").match(/\d+(?:[.,]\d+)?/g)?.map((n) => Number(n.replace(",", "."))) || [];
+  if (numbers.length === 0) return null;
+  return { min: Math.min(...numbers), max: Math.max(...numbers) };
+}
+
+/**
+ * employmentType from the function type name and the hours per week
+ * e.g. "Tijdelijk" with "24-32" uur → ["TEMPORARY", "PART_TIME"]
+ */
+export function getEmploymentTypes(functionType: string | null, hoursPerWeek: string | null | undefined): EmploymentType[] {
+  const types: EmploymentType[] = [];
+  const name = (functionType || "").toLowerCase();
+
+  if (/stage|intern|afstudeer/.test(name)) types.push("INTERN");
+  else if (/vrijwillig/.test(name)) types.push("VOLUNTEER");
+  else if (/freelance|zzp|interim|opdracht/.test(name)) types.push("CONTRACTOR");
+  else if (/oproep|invalkracht/.test(name)) types.push("PER_DIEM");
+  else if (/tijdelijk|bepaalde tijd|detachering|uitzend/.test(name)) types.push("TEMPORARY");
+
+  if (/full.?time|voltijd/.test(name)) types.push("FULL_TIME");
+  else if (/part.?time|deeltijd/.test(name)) types.push("PART_TIME");
+  else {
+    const hours = parseHours(hoursPerWeek);
+    if (hours && hours.max >= FULL_TIME_HOURS) types.push("FULL_TIME");
+    if (hours && hours.min < FULL_TIME_HOURS) types.push("PART_TIME");
+  }
+
+  if (types.length === 0 && functionType) types.push("OTHER");
+  return types;
+}
+
+/** ISO 8601; a date without a time is kept as a date, closing dates end of that day */
+function toIsoDate(value: string | null | undefined, endOfDay = false): string | undefined {
+  if (!value) return undefined;
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) return endOfDay ? `${value}T23:59:59` : value;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+function textOrUndefined(value: string | null | undefined): string | undefined {
+  return value && value.trim() ? value.trim() : undefined;
+}
+
+/** Description as HTML: intro and vacancy text */
+function getDescription(vacancy: VacancyRecord): string | undefined {
+  const intro = textOrUndefined(vacancy.intro_txt);
+  const parts = [intro && `<p>${intro}</p>`, textOrUndefined(vacancy.description)].filter(Boolean);
+  return parts.length > 0 ? parts.join("\n") : undefined;
+}
+
+// ============================================
+// JOB POSTING
+// ============================================
+
+/**
+ * JobPosting for a vacancy; properties without a value are left out
+ */
+export function buildJobPosting(vacancy: VacancyRecord, refs: JobPostingReferences): JobPosting {
+  const employerName = refs.employer ? textOrUndefined(refs.employer.display_name || refs.employer.company_name) : undefined;
+  const employmentTypes = getEmploymentTypes(refs.functionType, vacancy.hrs_per_week);
+  const locality = textOrUndefined(vacancy.location);
+  const region = textOrUndefined(refs.region);
+  const baseSalary = parseSalary(vacancy.salary);
+
+  const posting: JobPosting = {
+    "@context": "https://schema.org/",
+    "@type": "JobPosting",
+    title: textOrUndefined(vacancy.title),
+    description: getDescription(vacancy),
+    datePosted: toIsoDate(vacancy["first-published-at"] || refs.datePosted),
+    validThrough: toIsoDate(vacancy.closing_date, true),
+    employmentType: employmentTypes.length === 1 ? employmentTypes[0] : employmentTypes.length > 1 ? employmentTypes : undefined,
+    hiringOrganization: employerName
+      ? {
+          "@type": "Organization",
+          name: employerName,
+          ...(refs.employer?.website_url && { sameAs: normalizeUrl(refs.employer.website_url) }),
+          ...(refs.logoUrl && { logo: refs.logoUrl }),
+        }
+      : undefined,
+    jobLocation: locality || region
+      ? {
+          "@type": "Place",
+          address: {
+            "@type": "PostalAddress",
+            ...(locality && { addressLocality: locality }),
+            ...(region && { addressRegion: region }),
+            addressCountry: "NL",
+          },
+        }
+      : undefined,
+    baseSalary: baseSalary || undefined,
+    identifier: { "@type": "PropertyValue", name: "Colourful jobs", value: vacancy.id },
+    directApply: vacancy.show_apply_form,
+    url: vacancy.slug ? getVacancyPublicUrl(vacancy.slug) : undefined,
+  };
+
+  // Drop the empty properties so the JSON-LD only holds real values
+  return Object.fromEntries(Object.entries(posting).filter(([, value]) => value !== undefined)) as JobPosting;
+}
+
+const REQUIRED_PROPERTIES: JobPostingIssue[] = [
+  { property: "title", message: "Vacaturetitel ontbreekt" },
+  { property: "description", message: "Vacaturetekst ontbreekt" },
+  { property: "datePosted", message: "Publicatiedatum ontbreekt" },
+  { property: "hiringOrganization", message: "Werkgever ontbreekt" },
+  { property: "jobLocation", message: "Locatie ontbreekt" },
+];
+
+const RECOMMENDED_PROPERTIES: JobPostingIssue[] = [
+  { property: "validThrough", message: "Geen sluitingsdatum ingevuld" },
+  { property: "employmentType", message: "Geen functietype of uren per week ingevuld" },
+  { property: "baseSalary", message: "Geen salaris in euro's ingevuld (bijv. € 3.200 - € 4.400 per maand)" },
+  { property: "hiringOrganization.logo", message: "Geen logo bij je werkgeversprofiel" },
+  { property: "hiringOrganization.sameAs", message: "Geen website bij je werkgeversprofiel" },
+  { property: "jobLocation.address.addressLocality", message: "Geen plaats ingevuld" },
+];
+
+function hasProperty(posting: JobPosting, path: string): boolean {
+  let value: unknown = posting;
+  for (const key of path.split(".")) {
+    value = value && typeof value === "object" ? (value as Record<string, unknown>)[key] : undefined;
+  }
+  return value !== undefined && value !== null && value !== "";
+}
+
+/**
+ * Missing required and recommended JobPosting properties
+ */
+export function validateJobPosting(posting: JobPosting): JobPostingReport {
+  const missingRequired = REQUIRED_PROPERTIES.filter((issue) => !hasProperty(posting, issue.property));
+  const missingRecommended = RECOMMENDED_PROPERTIES.filter((issue) => !hasProperty(posting, issue.property));
+  return { valid: missingRequired.length === 0, missingRequired, missingRecommended };
+}
+
+/**
+ * JobPosting and its report for a vacancy, with the employer, logo and lookups loaded
+ * A vacancy that isn't published yet gets today as datePosted
+ */
+export async function getVacancyJobPosting(
+  vacancy: VacancyRecord
+): Promise<{ jobPosting: JobPosting; report: JobPostingReport }> {
+  const employer = vacancy.employer_id ? await repositories.employers.getById(vacancy.employer_id) : null;
+  const [logo, functionTypes, regions] = await Promise.all([
+    employer?.logo?.[0] ? repositories.mediaAssets.getById(employer.logo[0]) : null,
+    vacancy.function_type_id ? repositories.lookups.getFunctionTypes() : [],
+    vacancy.region_id ? repositories.lookups.getRegions() : [],
+  ]);
+
+  const jobPosting = buildJobPosting(vacancy, {
+    employer,
+    logoUrl: getMediaAssetUrl(logo),
+    functionType: functionTypes.find((ft) => ft.id === vacancy.function_type_id)?.name || null,
+    region: regions.find((r) => r.id === vacancy.region_id)?.name || null,
+    datePosted: vacancy.status === "gepubliceerd" ? null : new Date().toISOString(),
+  });
+  return { jobPosting, report: validateJobPosting(jobPosting) };
+}
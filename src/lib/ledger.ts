@@ -0,0 +1,741 @@
+import { randomUUID } from "crypto";
+import type { TransactionRecord, VacancyRecord, WalletRecord } from "@/lib/airtable";
+import { repositories } from "@/lib/repositories";
+import type {
+  CreatePurchaseTransactionInput,
+  CreateSpendTransactionInput,
+} from "@/lib/repositories";
+import { getErrorMessage } from "@/lib/utils";
+import { assignCreditNoteNumber, assignInvoiceNumber } from "@/lib/invoice-numbers";
+
+/**
+ * Wallet ledger
+ *
+ * Every credit mutation (spend, purchase, refund or transfer) runs as one unit:
+ * 1. The idempotency key is checked - a retried request returns the original transaction
+ * 2. The transaction row is written first, claiming the key
+ * 3. Credit batches (FIFO) and the wallet balance are updated
+ * 4. If any step fails, the completed steps are undone in reverse order
+ *    and the transaction is marked "failed"
+ * 5. Purchases and spends with an invoiced shortage get their invoice number;
+ *    refunding an invoiced transaction numbers its credit note
+ *
+ * Airtable has no transactions, so this is best effort: concurrent requests
+ * with the same key are serialised per server instance, and a failed charge
+ * never leaves the wallet and batches half-updated.
+ */
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface ChargeCreditsInput extends Omit<CreateSpendTransactionInput, "idempotency_key"> {
+  idempotencyKey: string;
+  /** Credits to take from the wallet now (total_credits minus the invoiced shortage) */
+  credits_to_deduct: number;
+  /** Credits the balance may go below zero (employer overdraft policy, see lib/credits.ts) */
+  overdraft_limit?: number;
+}
+
+export interface PurchaseCreditsInput extends Omit<CreatePurchaseTransactionInput, "idempotency_key"> {
+  idempotencyKey: string;
+}
+
+export interface LedgerResult {
+  transaction: TransactionRecord;
+  /** true when the key was seen before and nothing was charged again */
+  replayed: boolean;
+  batchesUsed: { id: string; creditsUsed: number }[];
+}
+
+export interface WalletTotals {
+  balance: number;
+  total_purchased: number;
+  total_spent: number;
+}
+
+export interface WalletReconciliation {
+  wallet_id: string;
+  owner_type: WalletRecord["owner_type"];
+  owner_id: string | null;
+  stored: WalletTotals;
+  computed: WalletTotals;
+  drift: WalletTotals;
+  has_drift: boolean;
+  corrected: boolean;
+}
+
+export interface TransferCreditsInput {
+  idempotencyKey: string;
+  user_id: string;
+  from_wallet: WalletRecord;
+  to_wallet: WalletRecord;
+  credits: number;
+  /** Managed employer involved, recorded on the intermediary side for display */
+  employer_id: string;
+}
+
+export interface RefundResult {
+  spend_id: string;
+  /** The refund transaction (null when no credits were deducted, e.g. an invoice-only spend) */
+  refund: TransactionRecord | null;
+  credits_refunded: number;
+  /** true when the spend had an open invoice that is now voided */
+  invoice_voided: boolean;
+  replayed: boolean;
+}
+
+export interface BatchAllocation {
+  batch_id: string;
+  credits: number;
+}
+
+type Compensation = { description: string; undo: () => Promise<unknown> };
+
+// ============================================
+// IDEMPOTENCY
+// ============================================
+
+// Requests with the same key that arrive while the first is still running share its result
+const inFlight = new Map<string, Promise<LedgerResult>>();
+
+async function withIdempotency(
+  key: string,
+  run: () => Promise<LedgerResult>
+): Promise<LedgerResult> {
+  const running = inFlight.get(key);
+  if (running) {
+    const result = await running;
+    return { ...result, replayed: true };
+  }
+
+  const promise = (async () => {
+    const existing = await repositories.transactions.getByIdempotencyKey(key);
+    if (existing) {
+      console.log(`[Ledger] Idempotency key ${key} already processed, returning transaction ${existing.id}`);
+      return { transaction: existing, replayed: true, batchesUsed: [] };
+    }
+    return run();
+  })();
+
+  inFlight.set(key, promise);
+  try {
+    return await promise;
+  } finally {
+    inFlight.delete(key);
+  }
+}
+
+/**
+ * Read the Idempotency-Key header, namespaced by scope (e.g. "boost:recXXX")
+ * Clients send one key per user action and reuse it when the request is retried
+ */
+export function getIdempotencyKey(request: Request, scope: string): string | null {
+  const header = request.headers.get("idempotency-key")?.trim();
+  return header ? `${scope}:${header.slice(0, 100)}` : null;
+}
+
+async function rollback(compensations: Compensation[], context: string): Promise<void> {
+  for (const compensation of [...compensations].reverse()) {
+    try {
+      await compensation.undo();
+    } catch (undoError: unknown) {
+      // Keep going: the reconciliation job reports anything we couldn't restore
+      console.error(`[Ledger] Rollback step failed (${context}: ${compensation.description}):`, getErrorMessage(undoError));
+    }
+  }
+}
+
+// ============================================
+// INVOICE NUMBERS
+// ============================================
+
+/**
+ * Number the invoice of a new purchase or invoiced spend, or the credit note of a refunded one
+ * Never throws: the transaction itself stands, and an invoice without a number
+ * is numbered on its first download instead
+ */
+async function assignDocumentNumber(
+  transaction: TransactionRecord,
+  document: "invoice" | "credit_note"
+): Promise<TransactionRecord> {
+  try {
+    const result = document === "invoice"
+      ? await assignInvoiceNumber(transaction.id)
+      : await assignCreditNoteNumber(transaction.id);
+    return result.transaction;
+  } catch (error: unknown) {
+    console.error(`[Ledger] Could not number the ${document} of transaction ${transaction.id}:`, getErrorMessage(error));
+    return transaction;
+  }
+}
+
+// ============================================
+// CHARGE (SPEND)
+// ============================================
+
+/**
+ * Charge credits for a vacancy, boost or included upsell
+ * Deducts credits_to_deduct from the oldest batches first (FIFO); the rest of
+ * total_credits is the invoiced shortage recorded on the transaction.
+ */
+export async function chargeCredits(input: ChargeCreditsInput): Promise<LedgerResult> {
+  const { idempotencyKey, credits_to_deduct, overdraft_limit = 0, ...spendFields } = input;
+
+  return withIdempotency(idempotencyKey, async () => {
+    const compensations: Compensation[] = [];
+
+    const transaction = await repositories.transactions.createSpend({
+      ...spendFields,
+      idempotency_key: idempotencyKey,
+    });
+
+    try {
+      const batchesUsed = credits_to_deduct > 0
+        ? await deductWithFIFO(spendFields.employer_id, spendFields.wallet_id, credits_to_deduct, overdraft_limit, compensations)
+        : [];
+
+      // Remember which batches were used, so a refund can return the credits to them
+      if (batchesUsed.length > 0) {
+        const allocations: BatchAllocation[] = batchesUsed.map((batch) => ({
+          batch_id: batch.id,
+          credits: batch.creditsUsed,
+        }));
+        await repositories.transactions.update(transaction.id, {
+          batch_allocations: JSON.stringify(allocations),
+        });
+      }
+
+      const invoiced = spendFields.credits_shortage > 0 && spendFields.invoice_amount > 0;
+      return {
+        transaction: invoiced ? await assignDocumentNumber(transaction, "invoice") : transaction,
+        replayed: false,
+        batchesUsed,
+      };
+    } catch (error: unknown) {
+      console.error(`[Ledger] Charge ${idempotencyKey} failed, rolling back:`, getErrorMessage(error));
+      await rollback(compensations, idempotencyKey);
+      await repositories.transactions.update(transaction.id, { status: "failed" }).catch((updateError: unknown) => {
+        console.error("[Ledger] Could not mark transaction as failed:", getErrorMessage(updateError));
+      });
+      throw error;
+    }
+  });
+}
+
+/**
+ * Deduct credits from batches (FIFO) and the wallet, registering an undo step for each write
+ * Falls back to wallet-only deduction for credits not covered by batches (pre-FIFO purchases
+ * and overdraft, where the balance goes below zero)
+ */
+async function deductWithFIFO(
+  employerId: string,
+  walletId: string,
+  amount: number,
+  overdraftLimit: number,
+  compensations: Compensation[]
+): Promise<{ id: string; creditsUsed: number }[]> {
+  const wallet = await repositories.wallets.getById(walletId);
+  if (!wallet) {
+    throw new Error("Wallet not found");
+  }
+  if (wallet.balance + overdraftLimit < amount) {
+    throw new Error("Insufficient credits");
+  }
+
+  const batches = await repositories.wallets.getActiveCreditBatches(employerId);
+  const batchesUsed: { id: string; creditsUsed: number }[] = [];
+  let remaining = amount;
+
+  for (const batch of batches) {
+    if (remaining <= 0) break;
+    const creditsUsed = Math.min(remaining, batch.remaining_credits);
+
+    await repositories.transactions.updateRemainingCredits(batch.id, batch.remaining_credits - creditsUsed);
+    compensations.push({
+      description: `restore batch ${batch.id}`,
+      undo: () => repositories.transactions.updateRemainingCredits(batch.id, batch.remaining_credits),
+    });
+
+    batchesUsed.push({ id: batch.id, creditsUsed });
+    remaining -= creditsUsed;
+  }
+
+  if (remaining > 0) {
+    console.log(`[Ledger] ${remaining} credits not covered by batches, deducting from wallet balance directly`);
+  }
+
+  await repositories.wallets.updateTotals(walletId, {
+    balance: wallet.balance - amount,
+    total_spent: wallet.total_spent + amount,
+  });
+  compensations.push({
+    description: `restore wallet ${walletId}`,
+    undo: () => repositories.wallets.updateTotals(walletId, {
+      balance: wallet.balance,
+      total_spent: wallet.total_spent,
+    }),
+  });
+
+  return batchesUsed;
+}
+
+// ============================================
+// PURCHASE
+// ============================================
+
+/**
+ * Record a credit bundle purchase and add the credits to the wallet
+ * A negative balance (overdraft) is settled first: those credits were already
+ * spent, so they don't count as remaining credits in the new batch
+ */
+export async function purchaseCredits(input: PurchaseCreditsInput): Promise<LedgerResult> {
+  const { idempotencyKey, ...purchaseFields } = input;
+
+  return withIdempotency(idempotencyKey, async () => {
+    const wallet = await repositories.wallets.getById(purchaseFields.wallet_id);
+    const overdraft = Math.max(0, -(wallet?.balance ?? 0));
+
+    const transaction = await repositories.transactions.createPurchase({
+      ...purchaseFields,
+      remaining_credits: Math.max(0, purchaseFields.total_credits - overdraft),
+      idempotency_key: idempotencyKey,
+    });
+
+    try {
+      await repositories.wallets.addCredits(purchaseFields.wallet_id, purchaseFields.total_credits);
+      return {
+        transaction: purchaseFields.total_cost > 0 ? await assignDocumentNumber(transaction, "invoice") : transaction,
+        replayed: false,
+        batchesUsed: [],
+      };
+    } catch (error: unknown) {
+      console.error(`[Ledger] Purchase ${idempotencyKey} failed, rolling back:`, getErrorMessage(error));
+      // The wallet update is the last write, so only the batch needs to be voided
+      await repositories.transactions
+        .update(transaction.id, { status: "failed", remaining_credits: 0 })
+        .catch((updateError: unknown) => {
+          console.error("[Ledger] Could not mark purchase as failed:", getErrorMessage(updateError));
+        });
+      throw error;
+    }
+  });
+}
+
+// ============================================
+// REFUND
+// ============================================
+
+/**
+ * Credits a spend transaction actually took from the wallet
+ * Legacy invoice-only transactions (createInvoiceTransaction) are "open"
+ * without a credits_shortage and never deducted anything.
+ */
+export function getDeductedCredits(transaction: TransactionRecord): number {
+  if (transaction.type !== "spend") return 0;
+  if (transaction.status === "open" && !transaction.credits_shortage) return 0;
+  return Math.max(0, (transaction.total_credits || 0) - (transaction.credits_shortage || 0));
+}
+
+function parseBatchAllocations(value: string | null | undefined): BatchAllocation[] {
+  if (!value) return [];
+  try {
+    const parsed: unknown = JSON.parse(value);
+    return Array.isArray(parsed)
+      ? parsed.filter((a): a is BatchAllocation => typeof a?.batch_id === "string" && typeof a?.credits === "number")
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Refund a single spend transaction
+ * - Deducted credits go back to the purchase batches they came from (original expires_at kept)
+ * - The wallet balance and total_spent are restored
+ * - A refund transaction linked to the spend is created
+ * - The spend is marked "refunded", which also voids its open invoice;
+ *   an issued invoice gets a credit note
+ * Money already paid for an invoice is not refunded here (handled by finance).
+ */
+export async function refundSpend(
+  spend: TransactionRecord,
+  options: { user_id?: string | null; reference_type: "vacancy" | "admin" }
+): Promise<RefundResult> {
+  const invoiceVoided = spend.status === "open";
+  const credits = getDeductedCredits(spend);
+
+  if (spend.type !== "spend" || spend.status === "refunded" || spend.status === "failed") {
+    return { spend_id: spend.id, refund: null, credits_refunded: 0, invoice_voided: false, replayed: true };
+  }
+
+  // Nothing to give back: only void the invoice / close the spend
+  if (credits === 0) {
+    const refunded = await repositories.transactions.update(spend.id, { status: "refunded" });
+    await assignDocumentNumber(refunded, "credit_note");
+    return { spend_id: spend.id, refund: null, credits_refunded: 0, invoice_voided: invoiceVoided, replayed: false };
+  }
+
+  if (!spend.wallet_id) {
+    throw new Error(`Spend ${spend.id} has no wallet`);
+  }
+  const walletId = spend.wallet_id;
+  const idempotencyKey = `refund:${spend.id}`;
+
+  const result = await withIdempotency(idempotencyKey, async () => {
+    const compensations: Compensation[] = [];
+
+    // Euro value of the refunded credits (the invoiced part is voided, not refunded)
+    const totalCost = spend.total_credits
+      ? Math.round(((spend.total_cost || 0) * credits / spend.total_credits) * 100) / 100
+      : 0;
+
+    const refund = await repositories.transactions.createRefund({
+      refund_of_id: spend.id,
+      employer_id: spend.employer_id,
+      wallet_id: walletId,
+      user_id: options.user_id,
+      vacancy_id: spend.vacancy_id,
+      product_ids: spend.product_ids || [],
+      total_credits: credits,
+      total_cost: totalCost,
+      context: spend.context,
+      reference_type: options.reference_type,
+      idempotency_key: idempotencyKey,
+    });
+
+    try {
+      const batchesUsed = await restoreBatches(spend, credits, compensations);
+
+      const wallet = await repositories.wallets.getById(walletId);
+      if (!wallet) {
+        throw new Error("Wallet not found");
+      }
+      await repositories.wallets.updateTotals(walletId, {
+        balance: wallet.balance + credits,
+        total_spent: Math.max(0, wallet.total_spent - credits),
+      });
+      compensations.push({
+        description: `restore wallet ${walletId}`,
+        undo: () => repositories.wallets.updateTotals(walletId, {
+          balance: wallet.balance,
+          total_spent: wallet.total_spent,
+        }),
+      });
+
+      const refunded = await repositories.transactions.update(spend.id, { status: "refunded" });
+      await assignDocumentNumber(refunded, "credit_note");
+
+      return { transaction: refund, replayed: false, batchesUsed };
+    } catch (error: unknown) {
+      console.error(`[Ledger] Refund ${idempotencyKey} failed, rolling back:`, getErrorMessage(error));
+      await rollback(compensations, idempotencyKey);
+      await repositories.transactions.update(refund.id, { status: "failed" }).catch((updateError: unknown) => {
+        console.error("[Ledger] Could not mark refund as failed:", getErrorMessage(updateError));
+      });
+      throw error;
+    }
+  });
+
+  return {
+    spend_id: spend.id,
+    refund: result.transaction,
+    credits_refunded: result.replayed ? 0 : credits,
+    invoice_voided: !result.replayed && invoiceVoided,
+    replayed: result.replayed,
+  };
+}
+
+/**
+ * Give credits back to the purchase batches recorded on the spend
+ * Credits without a known batch (spends from before batch_allocations) only go back to the wallet balance
+ */
+async function restoreBatches(
+  spend: TransactionRecord,
+  credits: number,
+  compensations: Compensation[]
+): Promise<{ id: string; creditsUsed: number }[]> {
+  const restored: { id: string; creditsUsed: number }[] = [];
+  let remaining = credits;
+
+  for (const allocation of parseBatchAllocations(spend.batch_allocations)) {
+    if (remaining <= 0) break;
+    const batch = await repositories.transactions.getById(allocation.batch_id);
+    if (!batch || (batch.type !== "purchase" && batch.type !== "adjustment")) continue;
+
+    const creditsBack = Math.min(remaining, allocation.credits);
+    const previousRemaining = batch.remaining_credits || 0;
+
+    await repositories.transactions.updateRemainingCredits(batch.id, previousRemaining + creditsBack);
+    compensations.push({
+      description: `restore batch ${batch.id}`,
+      undo: () => repositories.transactions.updateRemainingCredits(batch.id, previousRemaining),
+    });
+
+    restored.push({ id: batch.id, creditsUsed: creditsBack });
+    remaining -= creditsBack;
+  }
+
+  if (remaining > 0) {
+    console.log(`[Ledger] ${remaining} refunded credits have no original batch, returning them to the wallet balance only`);
+  }
+
+  return restored;
+}
+
+/**
+ * Refund every open or paid spend of a vacancy (package, upsells and included upsells)
+ * Used when a vacancy is rejected or withdrawn before approval
+ */
+export async function refundVacancy(
+  vacancy: VacancyRecord,
+  options: { user_id?: string | null; reference_type: "vacancy" | "admin" }
+): Promise<{ refunds: RefundResult[]; credits_refunded: number; invoices_voided: number }> {
+  const transactions = await repositories.transactions.getByVacancyId(vacancy.id);
+  const spends = transactions.filter(
+    (tx) => tx.type === "spend" && (tx.status === "paid" || tx.status === "open")
+  );
+
+  const refunds: RefundResult[] = [];
+  for (const spend of spends) {
+    refunds.push(await refundSpend(spend, options));
+  }
+
+  return {
+    refunds,
+    credits_refunded: refunds.reduce((sum, r) => sum + r.credits_refunded, 0),
+    invoices_voided: refunds.filter((r) => r.invoice_voided).length,
+  };
+}
+
+// ============================================
+// TRANSFER
+// ============================================
+
+/**
+ * Move credits between an intermediary wallet and a managed employer wallet
+ * - Credits leave the source batches FIFO (oldest expiry first)
+ * - One outgoing adjustment (negative) is written on the source wallet
+ * - One incoming adjustment per source batch is written on the target wallet,
+ *   with the batch's expires_at, so expiry and FIFO order carry over
+ * All adjustments of one transfer share a transfer_id.
+ */
+export async function transferCredits(input: TransferCreditsInput): Promise<LedgerResult> {
+  const { idempotencyKey, user_id, from_wallet, to_wallet, credits, employer_id } = input;
+
+  if (!Number.isInteger(credits) || credits <= 0) {
+    throw new Error("Invalid credits amount");
+  }
+
+  return withIdempotency(idempotencyKey, async () => {
+    const compensations: Compensation[] = [];
+    const transferId = randomUUID();
+    const walletEmployer = (wallet: WalletRecord) => (wallet.owner_type === "employer" ? wallet.owner_employer || null : null);
+    const counterparty = (wallet: WalletRecord) => (wallet.owner_type === "user" ? employer_id : null);
+
+    const outgoing = await repositories.transactions.createAdjustment({
+      wallet_id: from_wallet.id,
+      employer_id: walletEmployer(from_wallet),
+      user_id,
+      total_credits: -credits,
+      transfer_id: transferId,
+      transfer_employer_id: counterparty(from_wallet),
+      idempotency_key: idempotencyKey,
+    });
+
+    try {
+      const source = await repositories.wallets.getById(from_wallet.id);
+      if (!source) {
+        throw new Error("Wallet not found");
+      }
+      if (source.balance < credits) {
+        throw new Error("Insufficient credits");
+      }
+      const target = await repositories.wallets.getById(to_wallet.id);
+      if (!target) {
+        throw new Error("Wallet not found");
+      }
+
+      // Take the credits from the source batches, oldest expiry first
+      const batches = await repositories.wallets.getActiveCreditBatchesByWalletId(source.id);
+      const batchesUsed: { id: string; creditsUsed: number; expires_at: string | null }[] = [];
+      let remaining = credits;
+
+      for (const batch of batches) {
+        if (remaining <= 0) break;
+        const creditsUsed = Math.min(remaining, batch.remaining_credits);
+
+        await repositories.transactions.updateRemainingCredits(batch.id, batch.remaining_credits - creditsUsed);
+        compensations.push({
+          description: `restore batch ${batch.id}`,
+          undo: () => repositories.transactions.updateRemainingCredits(batch.id, batch.remaining_credits),
+        });
+
+        batchesUsed.push({ id: batch.id, creditsUsed, expires_at: batch.expires_at });
+        remaining -= creditsUsed;
+      }
+
+      // Credits not covered by batches (pre-FIFO purchases) arrive without an expiry date
+      if (remaining > 0) {
+        console.log(`[Ledger] ${remaining} transferred credits not covered by batches`);
+        batchesUsed.push({ id: "", creditsUsed: remaining, expires_at: null });
+      }
+
+      const allocations: BatchAllocation[] = batchesUsed
+        .filter((batch) => batch.id)
+        .map((batch) => ({ batch_id: batch.id, credits: batch.creditsUsed }));
+      if (allocations.length > 0) {
+        await repositories.transactions.update(outgoing.id, { batch_allocations: JSON.stringify(allocations) });
+      }
+
+      // Incoming side: one adjustment per source batch, keeping its expiry date
+      for (const batch of batchesUsed) {
+        const incoming = await repositories.transactions.createAdjustment({
+          wallet_id: target.id,
+          employer_id: walletEmployer(target),
+          user_id,
+          total_credits: batch.creditsUsed,
+          transfer_id: transferId,
+          transfer_employer_id: counterparty(target),
+          expires_at: batch.expires_at,
+          remaining_credits: batch.expires_at ? batch.creditsUsed : null,
+        });
+        compensations.push({
+          description: `void incoming adjustment ${incoming.id}`,
+          undo: () => repositories.transactions.update(incoming.id, { status: "failed", remaining_credits: 0 }),
+        });
+      }
+
+      await repositories.wallets.updateTotals(source.id, { balance: source.balance - credits });
+      compensations.push({
+        description: `restore wallet ${source.id}`,
+        undo: () => repositories.wallets.updateTotals(source.id, { balance: source.balance }),
+      });
+
+      await repositories.wallets.updateTotals(target.id, { balance: target.balance + credits });
+      compensations.push({
+        description: `restore wallet ${target.id}`,
+        undo: () => repositories.wallets.updateTotals(target.id, { balance: target.balance }),
+      });
+
+      return {
+        transaction: outgoing,
+        replayed: false,
+        batchesUsed: batchesUsed.filter((batch) => batch.id).map(({ id, creditsUsed }) => ({ id, creditsUsed })),
+      };
+    } catch (error: unknown) {
+      console.error(`[Ledger] Transfer ${idempotencyKey} failed, rolling back:`, getErrorMessage(error));
+      await rollback(compensations, idempotencyKey);
+      await repositories.transactions.update(outgoing.id, { status: "failed" }).catch((updateError: unknown) => {
+        console.error("[Ledger] Could not mark transfer as failed:", getErrorMessage(updateError));
+      });
+      throw error;
+    }
+  });
+}
+
+// ============================================
+// RECONCILIATION
+// ============================================
+
+/**
+ * Recompute wallet totals from the transaction history
+ * - purchase: adds total_credits to balance and total_purchased
+ * - spend: subtracts the credits actually deducted (see getDeductedCredits)
+ * - refund: gives credits back (lowers total_spent)
+ * - adjustment: signed total_credits (transfers between wallets)
+ * - expiration: removes expired credits from the balance
+ * Failed transactions are ignored.
+ */
+export function computeWalletTotals(transactions: TransactionRecord[]): WalletTotals {
+  const totals: WalletTotals = { balance: 0, total_purchased: 0, total_spent: 0 };
+
+  for (const transaction of transactions) {
+    if (transaction.status === "failed") continue;
+    const credits = transaction.total_credits || 0;
+
+    switch (transaction.type) {
+      case "purchase":
+        totals.total_purchased += credits;
+        totals.balance += credits;
+        break;
+      case "spend": {
+        const deducted = getDeductedCredits(transaction);
+        totals.total_spent += deducted;
+        totals.balance -= deducted;
+        break;
+      }
+      case "refund":
+        totals.total_spent -= credits;
+        totals.balance += credits;
+        break;
+      case "adjustment":
+        totals.balance += credits;
+        break;
+      case "expiration":
+        totals.balance -= credits;
+        break;
+    }
+  }
+
+  return totals;
+}
+
+/**
+ * Compare a wallet's stored totals with its transaction history
+ * With apply=true, drifted totals are overwritten with the computed values
+ */
+export async function reconcileWallet(
+  wallet: WalletRecord,
+  options: { apply?: boolean } = {}
+): Promise<WalletReconciliation> {
+  const transactions = await repositories.transactions.getByWalletId(wallet.id);
+  const computed = computeWalletTotals(transactions);
+  const stored: WalletTotals = {
+    balance: wallet.balance,
+    total_purchased: wallet.total_purchased,
+    total_spent: wallet.total_spent,
+  };
+  const drift: WalletTotals = {
+    balance: stored.balance - computed.balance,
+    total_purchased: stored.total_purchased - computed.total_purchased,
+    total_spent: stored.total_spent - computed.total_spent,
+  };
+  const hasDrift = drift.balance !== 0 || drift.total_purchased !== 0 || drift.total_spent !== 0;
+
+  let corrected = false;
+  if (hasDrift && options.apply) {
+    await repositories.wallets.updateTotals(wallet.id, computed);
+    corrected = true;
+  }
+
+  return {
+    wallet_id: wallet.id,
+    owner_type: wallet.owner_type,
+    owner_id: wallet.owner_type === "user" ? wallet.owner_user || null : wallet.owner_employer || null,
+    stored,
+    computed,
+    drift,
+    has_drift: hasDrift,
+    corrected,
+  };
+}
+
+/**
+ * Reconcile all wallets and return only those with drift
+ */
+export async function reconcileAllWallets(
+  options: { apply?: boolean } = {}
+): Promise<{ checked: number; drifted: WalletReconciliation[] }> {
+  const wallets = await repositories.wallets.getAll();
+  const drifted: WalletReconciliation[] = [];
+
+  for (const wallet of wallets) {
+    const result = await reconcileWallet(wallet, options);
+    if (result.has_drift) {
+      drifted.push(result);
+    }
+  }
+
+  return { checked: wallets.length, drifted };
+}
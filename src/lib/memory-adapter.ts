@@ -0,0 +1,107 @@
+import type { Adapter, AdapterAccount, AdapterUser } from "next-auth/adapters";
+import type { UserRecord } from "./airtable";
+import { repositories } from "./repositories";
+import { getMemoryStore } from "./repositories/memory";
+
+function toAdapterUser(user: UserRecord): AdapterUser {
+  return {
+    id: user.id,
+    email: user.email,
+    emailVerified: null,
+    name: null,
+    image: null,
+    employerId: user.employer_id || null,
+    status: user.status || "pending_onboarding",
+  } as AdapterUser;
+}
+
+/**
+ * NextAuth adapter for the in-memory data store (DATA_STORE=memory)
+ * Mirrors AirtableAdapter: users via the repositories, sessions and tokens in memory
+ */
+export function MemoryAdapter(): Adapter {
+  return {
+    async createUser(user: Omit<AdapterUser, "id">) {
+      if (!user.email) {
+        throw new Error("Email is required");
+      }
+      const created = await repositories.users.create({
+        email: user.email,
+        status: "pending_onboarding",
+      });
+      return toAdapterUser(created);
+    },
+    async getUser(id) {
+      const user = await repositories.users.getById(id);
+      return user ? toAdapterUser(user) : null;
+    },
+    async getUserByEmail(email) {
+      const user = await repositories.users.getByEmail(email);
+      return user ? toAdapterUser(user) : null;
+    },
+    async getUserByAccount() {
+      // Only the email provider is used, which doesn't link accounts
+      return null;
+    },
+    async updateUser(user) {
+      const updated = await repositories.users.update(user.id, {
+        ...(user.email && { email: user.email }),
+      });
+      return toAdapterUser(updated);
+    },
+    async linkAccount(account: AdapterAccount) {
+      return account;
+    },
+    async createSession({ sessionToken, userId, expires }) {
+      return repositories.sessions.create(userId, sessionToken, expires);
+    },
+    async getSessionAndUser(sessionToken) {
+      const { sessions } = getMemoryStore();
+      const session = sessions.get(sessionToken);
+      if (!session) return null;
+
+      if (session.expires < new Date()) {
+        sessions.delete(sessionToken);
+        return null;
+      }
+
+      const user = await repositories.users.getById(session.userId);
+      if (!user) return null;
+
+      return { session: { ...session }, user: toAdapterUser(user) };
+    },
+    async updateSession({ sessionToken, expires }) {
+      const { sessions } = getMemoryStore();
+      const session = sessions.get(sessionToken);
+      if (!session) return null;
+
+      const updated = { ...session, ...(expires && { expires }) };
+      sessions.set(sessionToken, updated);
+      return { ...updated };
+    },
+    async deleteSession(sessionToken) {
+      getMemoryStore().sessions.delete(sessionToken);
+    },
+    async createVerificationToken({ identifier, expires, token }) {
+      const store = getMemoryStore();
+      // Only the newest magic link is valid
+      for (const existing of store.verificationTokens) {
+        if (existing.identifier === identifier && existing.status === "pending") {
+          existing.status = "revoked";
+        }
+      }
+      store.verificationTokens.push({ identifier, token, expires, status: "pending" });
+      return { identifier, token, expires };
+    },
+    async useVerificationToken({ identifier, token }) {
+      const found = getMemoryStore().verificationTokens.find(
+        (t) => t.identifier === identifier && t.token === token
+      );
+      if (!found || found.status !== "pending") {
+        return null;
+      }
+      found.status = "used";
+      return { identifier: found.identifier, token: found.token, expires: found.expires };
+    },
+  };
+}
@@ -0,0 +1,131 @@
+import type { ProductRecord, PromoCodeRecord, UserRecord } from "@/lib/airtable";
+import { getCalendarDate, toCalendarDate } from "@/lib/calendar-dates";
+import { repositories } from "@/lib/repositories";
+
+/**
+ * Promo and discount codes for the credits checkout
+ *
+ * Codes are managed in the Airtable "Promo Codes" table. A code gives a
+ * percentage or fixed discount on the bundle price and/or bonus credits.
+ * The applied promotion is stored on the purchase transaction (promo_code,
+ * discount_amount, bonus_credits); redemptions are counted from those purchases.
+ * Yearly renewals are charged at the regular price.
+ */
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface PromoCodeQuote {
+  promo_code: PromoCodeRecord;
+  original_price: number; // Product price excl. VAT
+  discount_amount: number; // Euro excl. VAT
+  bonus_credits: number;
+  total_cost: number; // Price after discount
+  total_credits: number; // Bundle credits + bonus credits
+}
+
+export type PromoCodeResult =
+  | { valid: true; quote: PromoCodeQuote }
+  | { valid: false; error: string };
+
+export interface ApplyPromoCodeInput {
+  code: string;
+  product: ProductRecord;
+  user: UserRecord;
+  wallet_id: string;
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Normalize user input (trim, upper case)
+ */
+export function normalizePromoCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+function getDiscountAmount(promoCode: PromoCodeRecord, price: number): number {
+  const value = promoCode.discount_value || 0;
+  if (value <= 0) return 0;
+  if (promoCode.discount_type === "percentage") {
+    return roundCents(price * (Math.min(value, 100) / 100));
+  }
+  if (promoCode.discount_type === "fixed") {
+    return roundCents(Math.min(value, price));
+  }
+  return 0;
+}
+
+// ============================================
+// VALIDATION
+// ============================================
+
+/**
+ * Validate a promo code for a product and calculate the discounted purchase
+ * Checks: active, validity dates, product type, role, total and per-wallet caps
+ */
+export async function applyPromoCode(input: ApplyPromoCodeInput): Promise<PromoCodeResult> {
+  const code = normalizePromoCode(input.code);
+  const promoCode = code ? await repositories.promoCodes.getByCode(code) : null;
+
+  if (!promoCode || !promoCode.is_active) {
+    return { valid: false, error: "Deze kortingscode is ongeldig" };
+  }
+
+  // Validity dates are calendar days: valid from the start of valid_from through the end of valid_until
+  const today = getCalendarDate();
+  const validFrom = promoCode.valid_from ? toCalendarDate(promoCode.valid_from) : null;
+  const validUntil = promoCode.valid_until ? toCalendarDate(promoCode.valid_until) : null;
+  if (validFrom && validFrom > today) {
+    return { valid: false, error: "Deze kortingscode is nog niet geldig" };
+  }
+  if (validUntil && validUntil < today) {
+    return { valid: false, error: "Deze kortingscode is verlopen" };
+  }
+
+  // Empty restriction lists = no restriction (same as product target_roles)
+  if (promoCode.product_types.length > 0 && !promoCode.product_types.includes(input.product.type)) {
+    return { valid: false, error: "Deze kortingscode geldt niet voor dit product" };
+  }
+  if (promoCode.target_roles.length > 0 && !promoCode.target_roles.includes(input.user.role_id || "")) {
+    return { valid: false, error: "Deze kortingscode is niet beschikbaar voor je account" };
+  }
+
+  const [totalRedemptions, walletRedemptions] = await Promise.all([
+    promoCode.max_redemptions != null
+      ? repositories.promoCodes.countRedemptions(promoCode.code)
+      : Promise.resolve(0),
+    promoCode.max_redemptions_per_employer != null
+      ? repositories.promoCodes.countRedemptions(promoCode.code, input.wallet_id)
+      : Promise.resolve(0),
+  ]);
+
+  if (promoCode.max_redemptions != null && totalRedemptions >= promoCode.max_redemptions) {
+    return { valid: false, error: "Deze kortingscode is niet meer beschikbaar" };
+  }
+  if (promoCode.max_redemptions_per_employer != null && walletRedemptions >= promoCode.max_redemptions_per_employer) {
+    return { valid: false, error: "Je hebt deze kortingscode al gebruikt" };
+  }
+
+  const discountAmount = getDiscountAmount(promoCode, input.product.price);
+  const bonusCredits = Math.max(0, promoCode.bonus_credits || 0);
+
+  return {
+    valid: true,
+    quote: {
+      promo_code: promoCode,
+      original_price: input.product.price,
+      discount_amount: discountAmount,
+      bonus_credits: bonusCredits,
+      total_cost: roundCents(input.product.price - discountAmount),
+      total_credits: input.product.credits + bonusCredits,
+    },
+  };
+}
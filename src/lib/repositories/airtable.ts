@@ -0,0 +1,266 @@
+import {
+  addCreditsToWallet,
+  countPromoCodeRedemptions,
+  createAdjustmentTransaction,
+  createEmployer,
+  createFAQ,
+  createInvoiceTransaction,
+  createJobRun,
+  createMediaAsset,
+  createPurchaseTransaction,
+  createRefundTransaction,
+  createSession,
+  createSpendTransaction,
+  createSubscription,
+  createUser,
+  createUserWallet,
+  createVacancy,
+  createVacancyReview,
+  createVacancyRevision,
+  createVacancyTemplate,
+  createWallet,
+  deductCreditsFromWallet,
+  deleteEmployer,
+  deleteFAQ,
+  deleteMediaAsset,
+  deleteUser,
+  deleteVacancy,
+  deleteVacancyTemplate,
+  deleteWalletByEmployerId,
+  getActiveCreditBatches,
+  getActiveCreditBatchesByWalletId,
+  getActiveProductsByType,
+  getActiveProductsByTypeAndRole,
+  getAllActiveFeatures,
+  getAllLookups,
+  getAllWallets,
+  getCreditExpiryWarningDays,
+  getDueSubscriptions,
+  getEducationLevels,
+  getEmployerById,
+  getEmployerBySlug,
+  getEmployerByKVK,
+  getEmployersNeedingWebflowSync,
+  getExpiredCreditBatches,
+  getExpiredVacancies,
+  getExpiringCreditBatches,
+  getExpiringCredits,
+  getFAQByEmployerId,
+  getFAQById,
+  getFAQBySlug,
+  getFeaturesByIds,
+  getFields,
+  getFunctionTypes,
+  getLatestInvoiceNumber,
+  getManagedEmployers,
+  getMediaAssetById,
+  getMediaAssetsByEmployerId,
+  getMediaAssetsByIds,
+  getProductById,
+  getPromoCodeByCode,
+  getRecentJobRuns,
+  getRegions,
+  getSectorById,
+  getSectors,
+  getSubscriptionById,
+  getSubscriptionsByWalletId,
+  getSyndicatedVacancies,
+  getTransactionById,
+  getTransactionsByEmployerId,
+  getTransactionsByInvoiceNumber,
+  getTransactionsByVacancyId,
+  getTransactionByIdempotencyKey,
+  getTransactionsByWalletId,
+  getUserByEmail,
+  getUserById,
+  getUserByInviteToken,
+  getUsersByEmployerId,
+  getVacanciesAwaitingApproval,
+  getVacanciesByEmployerId,
+  getVacanciesClosingSoon,
+  getVacanciesDueForDepublication,
+  getVacanciesDueForPublication,
+  getVacanciesNeedingWebflowSync,
+  getVacancyById,
+  getVacancyBySlug,
+  getVacancyReviewsByVacancyId,
+  getVacancyRevisionById,
+  getVacancyRevisionsByVacancyId,
+  getVacancyTemplateById,
+  getVacancyTemplatesByEmployerId,
+  getWalletByEmployerId,
+  getWalletById,
+  getWalletByUserId,
+  getWalletForUser,
+  processExpiredCreditBatch,
+  setActiveEmployer,
+  spendCreditsWithFIFO,
+  unlinkUserFromEmployer,
+  updateEmployer,
+  updateFAQ,
+  updateFeatureWebflowItemId,
+  updateJobRun,
+  updateLookupWebflowFields,
+  updateMediaAsset,
+  updateProductWebflowItemId,
+  updateSubscription,
+  updateTransaction,
+  updateTransactionRemainingCredits,
+  updateUser,
+  updateVacancy,
+  updateVacancyReview,
+  updateVacancyRevisionContent,
+  updateWalletTotals,
+} from "@/lib/airtable";
+import type { Repositories } from "./types";
+
+/**
+ * Airtable-backed repositories (production data store)
+ * Thin wiring around the functions in lib/airtable.ts
+ */
+export const airtableRepositories: Repositories = {
+  users: {
+    getById: getUserById,
+    getByEmail: getUserByEmail,
+    getByEmployerId: getUsersByEmployerId,
+    getByInviteToken: getUserByInviteToken,
+    create: createUser,
+    update: updateUser,
+    delete: deleteUser,
+    unlinkFromEmployer: unlinkUserFromEmployer,
+    setActiveEmployer,
+  },
+  employers: {
+    getById: getEmployerById,
+    getByKVK: getEmployerByKVK,
+    getManagedByUserId: getManagedEmployers,
+    getNeedingWebflowSync: getEmployersNeedingWebflowSync,
+    getBySlug: getEmployerBySlug,
+    create: createEmployer,
+    update: updateEmployer,
+    delete: deleteEmployer,
+  },
+  wallets: {
+    getById: getWalletById,
+    getAll: getAllWallets,
+    getByEmployerId: getWalletByEmployerId,
+    getByUserId: getWalletByUserId,
+    getForUser: getWalletForUser,
+    createForEmployer: createWallet,
+    createForUser: createUserWallet,
+    deleteByEmployerId: deleteWalletByEmployerId,
+    updateTotals: updateWalletTotals,
+    addCredits: addCreditsToWallet,
+    deductCredits: deductCreditsFromWallet,
+    spendCreditsWithFIFO,
+    getActiveCreditBatches,
+    getActiveCreditBatchesByWalletId,
+    getExpiringCredits,
+    getExpiringCreditBatches,
+    getExpiredCreditBatches,
+    processExpiredCreditBatch,
+  },
+  transactions: {
+    getById: getTransactionById,
+    getByWalletId: getTransactionsByWalletId,
+    getByEmployerId: getTransactionsByEmployerId,
+    getByVacancyId: getTransactionsByVacancyId,
+    getByIdempotencyKey: getTransactionByIdempotencyKey,
+    getLatestInvoiceNumber,
+    getByInvoiceNumber: getTransactionsByInvoiceNumber,
+    createPurchase: createPurchaseTransaction,
+    createSpend: createSpendTransaction,
+    createInvoice: createInvoiceTransaction,
+    createRefund: createRefundTransaction,
+    createAdjustment: createAdjustmentTransaction,
+    updateRemainingCredits: updateTransactionRemainingCredits,
+    update: updateTransaction,
+  },
+  vacancies: {
+    getById: getVacancyById,
+    getByEmployerId: getVacanciesByEmployerId,
+    getExpired: getExpiredVacancies,
+    getClosingSoon: getVacanciesClosingSoon,
+    getAwaitingApproval: getVacanciesAwaitingApproval,
+    getDueForPublication: getVacanciesDueForPublication,
+    getDueForDepublication: getVacanciesDueForDepublication,
+    getNeedingWebflowSync: getVacanciesNeedingWebflowSync,
+    getSyndicated: getSyndicatedVacancies,
+    getBySlug: getVacancyBySlug,
+    create: createVacancy,
+    update: updateVacancy,
+    delete: deleteVacancy,
+  },
+  mediaAssets: {
+    getById: getMediaAssetById,
+    getByIds: getMediaAssetsByIds,
+    getByEmployerId: getMediaAssetsByEmployerId,
+    create: createMediaAsset,
+    update: updateMediaAsset,
+    delete: deleteMediaAsset,
+  },
+  faq: {
+    getById: getFAQById,
+    getByEmployerId: getFAQByEmployerId,
+    getBySlug: getFAQBySlug,
+    create: createFAQ,
+    update: updateFAQ,
+    delete: deleteFAQ,
+  },
+  products: {
+    getById: getProductById,
+    getActiveByType: getActiveProductsByType,
+    getActiveByTypeAndRole: getActiveProductsByTypeAndRole,
+    getCreditExpiryWarningDays,
+    getAllActiveFeatures,
+    getFeaturesByIds,
+    setWebflowItemId: updateProductWebflowItemId,
+    setFeatureWebflowItemId: updateFeatureWebflowItemId,
+  },
+  lookups: {
+    getAll: getAllLookups,
+    getEducationLevels,
+    getFields,
+    getFunctionTypes,
+    getRegions,
+    getSectors,
+    getSectorById,
+    setWebflowFields: updateLookupWebflowFields,
+  },
+  sessions: {
+    create: createSession,
+  },
+  jobRuns: {
+    create: createJobRun,
+    update: updateJobRun,
+    getRecent: getRecentJobRuns,
+  },
+  subscriptions: {
+    getById: getSubscriptionById,
+    getByWalletId: getSubscriptionsByWalletId,
+    getDue: getDueSubscriptions,
+    create: createSubscription,
+    update: updateSubscription,
+  },
+  promoCodes: {
+    getByCode: getPromoCodeByCode,
+    countRedemptions: countPromoCodeRedemptions,
+  },
+  vacancyTemplates: {
+    getById: getVacancyTemplateById,
+    getByEmployerId: getVacancyTemplatesByEmployerId,
+    create: createVacancyTemplate,
+    delete: deleteVacancyTemplate,
+  },
+  vacancyRevisions: {
+    getById: getVacancyRevisionById,
+    getByVacancyId: getVacancyRevisionsByVacancyId,
+    create: createVacancyRevision,
+    updateContent: updateVacancyRevisionContent,
+  },
+  vacancyReviews: {
+    getByVacancyId: getVacancyReviewsByVacancyId,
+    create: createVacancyReview,
+    update: updateVacancyReview,
+  },
+};
@@ -0,0 +1,495 @@
+import type {
+  EmployerRecord,
+  FAQRecord,
+  FeatureRecord,
+  LookupRecord,
+  MediaAssetRecord,
+  ProductRecord,
+  PromoCodeRecord,
+  TransactionRecord,
+  UserRecord,
+  VacancyRecord,
+  WalletRecord,
+} from "@/lib/airtable";
+
+/**
+ * Seed data for the in-memory data store (DATA_STORE=memory)
+ * Lets the app run locally without Airtable credentials.
+ * Log in with the seed e-mail address; the magic link is printed to the console.
+ */
+
+export const SEED_USER_EMAIL = process.env.MEMORY_SEED_EMAIL || "dev@colourfuljobs.local";
+
+export const SEED_ROLE_EMPLOYER = "recRoleEmployer";
+export const SEED_ROLE_INTERMEDIARY = "recRoleIntermediary";
+
+export interface SeedData {
+  users: UserRecord[];
+  employers: EmployerRecord[];
+  wallets: WalletRecord[];
+  transactions: TransactionRecord[];
+  vacancies: VacancyRecord[];
+  mediaAssets: MediaAssetRecord[];
+  faq: FAQRecord[];
+  products: ProductRecord[];
+  features: FeatureRecord[];
+  promoCodes: PromoCodeRecord[];
+  lookups: {
+    educationLevels: LookupRecord[];
+    fields: LookupRecord[];
+    functionTypes: LookupRecord[];
+    regions: LookupRecord[];
+    sectors: LookupRecord[];
+  };
+}
+
+function addMonths(date: Date, months: number): Date {
+  const result = new Date(date);
+  result.setMonth(result.getMonth() + months);
+  return result;
+}
+
+function daysAgo(days: number): string {
+  return new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+}
+
+/**
+ * Build a fresh copy of the seed data
+ * Dates are relative to now so expiry and closing dates stay realistic
+ */
+export function createSeedData(): SeedData {
+  const now = new Date();
+
+  const products: ProductRecord[] = [
+    {
+      id: "recProdBasic",
+      slug: "prod_package_basic",
+      display_name: "Basis",
+      description: "Je vacature 30 dagen online op Colourful jobs.",
+      type: "vacancy_package",
+      credits: 100,
+      base_price: null,
+      price: 250,
+      discount_percentage: null,
+      is_active: true,
+      sort_order: 1,
+      features: ["recFeatOnline", "recFeatAlert"],
+      included_upsells: [],
+      target_roles: [],
+      availability: ["add-vacancy"],
+      duration_days: 30,
+      closing_warning_days: 5,
+    },
+    {
+      id: "recProdPlus",
+      slug: "prod_package_plus",
+      display_name: "Plus",
+      description: "Je vacature 60 dagen online, inclusief social post.",
+      type: "vacancy_package",
+      credits: 175,
+      base_price: null,
+      price: 425,
+      discount_percentage: null,
+      is_active: true,
+      sort_order: 2,
+      features: ["recFeatOnline", "recFeatAlert", "recFeatSocial"],
+      included_upsells: ["recUpsellSocial"],
+      target_roles: [],
+      availability: ["add-vacancy"],
+      duration_days: 60,
+      closing_warning_days: 10,
+    },
+    {
+      id: "recUpsellSameDay",
+      slug: "prod_upsell_same_day",
+      display_name: "Zelfde dag online",
+      description: "Je vacature staat dezelfde werkdag online.",
+      type: "upsell",
+      credits: 25,
+      base_price: null,
+      price: 62.5,
+      discount_percentage: null,
+      is_active: true,
+      sort_order: 10,
+      features: ["recFeatSameDay"],
+      included_upsells: [],
+      target_roles: [],
+      availability: ["add-vacancy"],
+      repeat_mode: "once",
+    },
+    {
+      id: "recUpsellSocial",
+      slug: "prod_upsell_social",
+      display_name: "Social post",
+      description: "Extra aandacht via onze social media kanalen.",
+      type: "upsell",
+      credits: 50,
+      base_price: null,
+      price: 125,
+      discount_percentage: null,
+      is_active: true,
+      sort_order: 11,
+      features: ["recFeatSocial"],
+      included_upsells: [],
+      target_roles: [],
+      availability: ["add-vacancy", "boost-option"],
+      repeat_mode: "renewable",
+      duration_days: 5,
+      duration_type: "cooldown",
+      cooldown_unit: "business_days",
+    },
+    {
+      id: "recUpsellFeatured",
+      slug: "prod_upsell_featured",
+      display_name: "Uitgelicht",
+      description: "Je vacature bovenaan de vacaturebank.",
+      type: "upsell",
+      credits: 40,
+      base_price: null,
+      price: 100,
+      discount_percentage: null,
+      is_active: true,
+      sort_order: 12,
+      features: [],
+      included_upsells: [],
+      target_roles: [],
+      availability: ["add-vacancy", "boost-option"],
+      repeat_mode: "renewable",
+      duration_days: 14,
+      duration_type: "active_period",
+    },
+    {
+      id: "recUpsellExtend",
+      slug: "prod_upsell_extend",
+      display_name: "Verlengen",
+      description: "Verleng de sluitingsdatum van je vacature.",
+      type: "upsell",
+      credits: 50,
+      base_price: null,
+      price: 125,
+      discount_percentage: null,
+      is_active: true,
+      sort_order: 13,
+      features: [],
+      included_upsells: [],
+      target_roles: [],
+      availability: ["boost-option"],
+      repeat_mode: "until_max",
+      duration_days: 30,
+      max_value: 365,
+    },
+    {
+      id: "recBundleSmall",
+      slug: "prod_bundle_500",
+      display_name: "500 credits",
+      description: null,
+      type: "credit_bundle",
+      credits: 500,
+      base_price: 1250,
+      price: 1125,
+      discount_percentage: 0.1,
+      is_active: true,
+      sort_order: 20,
+      features: [],
+      included_upsells: [],
+      target_roles: [],
+      availability: [],
+      validity_months: 12,
+      credits_expiry_warning_days: 30,
+      billing_cycle: "one_time",
+    },
+    {
+      id: "recBundleLarge",
+      slug: "prod_bundle_1000",
+      display_name: "1000 credits",
+      description: null,
+      type: "credit_bundle",
+      credits: 1000,
+      base_price: 2500,
+      price: 2000,
+      discount_percentage: 0.2,
+      is_active: true,
+      sort_order: 21,
+      features: [],
+      included_upsells: [],
+      target_roles: [],
+      availability: [],
+      validity_months: 12,
+      credits_expiry_warning_days: 30,
+      billing_cycle: "yearly",
+    },
+  ];
+
+  const features: FeatureRecord[] = [
+    { id: "recFeatOnline", display_name: "Online op Colourful jobs", is_active: true, sort_order: 1, products: ["recProdBasic", "recProdPlus"], package_category: "Bereik" },
+    { id: "recFeatAlert", display_name: "Opgenomen in de dagelijkse vacature-alert", is_active: true, action_tags: "cj_daily_alert", sort_order: 2, products: ["recProdBasic", "recProdPlus"], package_category: "Bereik" },
+    { id: "recFeatSocial", display_name: "Social post", is_active: true, action_tags: "cj_social_post", sort_order: 3, products: ["recProdPlus", "recUpsellSocial"], package_category: "Extra zichtbaarheid" },
+    { id: "recFeatSameDay", display_name: "Zelfde dag online", is_active: true, action_tags: "cj_same_day_online", sort_order: 4, products: ["recUpsellSameDay"], package_category: "Snelheid" },
+  ];
+
+  const promoCodes: PromoCodeRecord[] = [
+    {
+      id: "recPromoWelkom",
+      code: "WELKOM10",
+      description: "10% welkomstkorting",
+      is_active: true,
+      discount_type: "percentage",
+      discount_value: 10,
+      bonus_credits: null,
+      valid_from: null,
+      valid_until: addMonths(now, 6).toISOString(),
+      max_redemptions: null,
+      max_redemptions_per_employer: 1,
+      product_types: ["credit_bundle"],
+      target_roles: [],
+    },
+    {
+      id: "recPromoBonus",
+      code: "BONUS50",
+      description: "50 extra credits",
+      is_active: true,
+      discount_type: null,
+      discount_value: null,
+      bonus_credits: 50,
+      valid_from: null,
+      valid_until: null,
+      max_redemptions: 100,
+      max_redemptions_per_employer: null,
+      product_types: [],
+      target_roles: [],
+    },
+  ];
+
+  const employers: EmployerRecord[] = [
+    {
+      id: "recEmployerDemo",
+      company_name: "Demo Zorggroep B.V.",
+      display_name: "Demo Zorggroep",
+      kvk: "12345678",
+      phone: "020 123 4567",
+      website_url: "https://www.example.nl",
+      invoice_contact_name: "Sanne de Vries",
+      invoice_email: "facturen@example.nl",
+      invoice_street: "Keizersgracht 1",
+      "invoice_postal-code": "1015 AA",
+      invoice_city: "Amsterdam",
+      sector: ["recSectorZorg"],
+      sector_name: ["Zorg en welzijn"],
+      location: "Amsterdam",
+      short_description: "Een fictieve zorgorganisatie om lokaal mee te testen.",
+      logo: [],
+      header_image: [],
+      gallery: [],
+      faq: ["recFaqDemo1"],
+      status: "active",
+      role: [SEED_ROLE_EMPLOYER],
+      needs_webflow_sync: false,
+    },
+  ];
+
+  const users: UserRecord[] = [
+    {
+      id: "recUserDev",
+      email: SEED_USER_EMAIL,
+      employer_id: "recEmployerDemo",
+      status: "active",
+      first_name: "Dev",
+      last_name: "Gebruiker",
+      role: SEED_ROLE_EMPLOYER,
+      role_id: "employer",
+      managed_employers: [],
+      active_employer: null,
+    },
+  ];
+
+  const wallets: WalletRecord[] = [
+    {
+      id: "recWalletDemo",
+      owner_employer: "recEmployerDemo",
+      owner_user: null,
+      owner_type: "employer",
+      balance: 400,
+      total_purchased: 500,
+      total_spent: 100,
+      "created-at": daysAgo(60),
+      "last-updated": daysAgo(10),
+    },
+  ];
+
+  const transactions: TransactionRecord[] = [
+    {
+      id: "recTxPurchase1",
+      employer_id: "recEmployerDemo",
+      wallet_id: "recWalletDemo",
+      vacancy_id: null,
+      user_id: "recUserDev",
+      product_ids: ["recBundleSmall"],
+      type: "purchase",
+      reference_type: "order",
+      context: "dashboard",
+      status: "paid",
+      total_cost: 1125,
+      total_credits: 500,
+      invoice_details_snapshot: null,
+      expires_at: addMonths(now, 11).toISOString(),
+      remaining_credits: 400,
+      "created-at": daysAgo(30),
+    },
+    {
+      id: "recTxSpend1",
+      employer_id: "recEmployerDemo",
+      wallet_id: "recWalletDemo",
+      vacancy_id: "recVacancyPublished",
+      user_id: "recUserDev",
+      product_ids: ["recProdBasic"],
+      type: "spend",
+      reference_type: "vacancy",
+      context: "vacancy",
+      status: "paid",
+      total_cost: 250,
+      total_credits: 100,
+      credits_shortage: null,
+      credits_invoiced: null,
+      "created-at": daysAgo(10),
+    },
+  ];
+
+  const closingDate = new Date(now.getTime() + 20 * 24 * 60 * 60 * 1000).toISOString().split("T")[0];
+
+  const vacancies: VacancyRecord[] = [
+    {
+      id: "recVacancyPublished",
+      employer_id: "recEmployerDemo",
+      title: "Verpleegkundige wijkzorg",
+      status: "gepubliceerd",
+      input_type: "self_service",
+      intro_txt: "Wil jij het verschil maken in de wijk?",
+      description: "<p>Als verpleegkundige in de wijk ben je het eerste aanspreekpunt voor onze cliënten.</p>",
+      location: "Amsterdam",
+      hrs_per_week: "24-32",
+      salary: "€ 3.200 - € 4.400",
+      education_level_id: "recEduHbo",
+      field_id: "recFieldZorg",
+      function_type_id: "recFunctionVast",
+      region_id: "recRegionNH",
+      sector_id: "recSectorZorg",
+      package_id: "recProdBasic",
+      selected_upsells: [],
+      apply_url: "https://www.example.nl/vacatures/verpleegkundige",
+      application_email: "",
+      show_apply_form: false,
+      contact_name: "Sanne de Vries",
+      contact_role: "Recruiter",
+      contact_email: "sanne@example.nl",
+      contact_phone: "",
+      recommendations: "",
+      gallery: [],
+      credits_spent: 100,
+      money_invoiced: 0,
+      credit_transactions: ["recTxSpend1"],
+      users: ["recUserDev"],
+      events: [],
+      public_url: "https://www.colourfuljobs.nl/vacatures/verpleegkundige-wijkzorg",
+      needs_webflow_sync: false,
+      needs_webflow_archive: false,
+      seo_custom: false,
+      syndication_opt_out: false,
+      high_priority: false,
+      is_featured: false,
+      is_first_vacancy: true,
+      "created-at": daysAgo(12),
+      "updated-at": daysAgo(10),
+      "submitted-at": daysAgo(10),
+      "first-published-at": daysAgo(10),
+      "last-published-at": daysAgo(10),
+      closing_date: closingDate,
+    },
+    {
+      id: "recVacancyConcept",
+      employer_id: "recEmployerDemo",
+      title: "Teamleider dagbesteding",
+      status: "concept",
+      input_type: "self_service",
+      intro_txt: "",
+      description: "",
+      location: "",
+      salary: "",
+      selected_upsells: [],
+      apply_url: "",
+      application_email: "",
+      show_apply_form: false,
+      contact_name: "",
+      contact_role: "",
+      contact_email: "",
+      contact_phone: "",
+      recommendations: "",
+      gallery: [],
+      credits_spent: 0,
+      money_invoiced: 0,
+      credit_transactions: [],
+      users: ["recUserDev"],
+      events: [],
+      needs_webflow_sync: false,
+      needs_webflow_archive: false,
+      seo_custom: false,
+      syndication_opt_out: false,
+      high_priority: false,
+      is_featured: false,
+      is_first_vacancy: false,
+      "created-at": daysAgo(2),
+      "updated-at": daysAgo(2),
+    },
+  ];
+
+  const faq: FAQRecord[] = [
+    {
+      id: "recFaqDemo1",
+      employer_id: "recEmployerDemo",
+      question: "Bieden jullie een reiskostenvergoeding?",
+      answer: "Ja, we vergoeden reiskosten volgens de cao.",
+      order: 0,
+      created_at: daysAgo(60),
+    },
+  ];
+
+  const lookups = {
+    educationLevels: [
+      { id: "recEduMbo", name: "MBO" },
+      { id: "recEduHbo", name: "HBO" },
+      { id: "recEduWo", name: "WO" },
+    ],
+    fields: [
+      { id: "recFieldZorg", name: "Zorg" },
+      { id: "recFieldOnderwijs", name: "Onderwijs" },
+      { id: "recFieldOverig", name: "Overig" },
+    ],
+    functionTypes: [
+      { id: "recFunctionVast", name: "Vast" },
+      { id: "recFunctionTijdelijk", name: "Tijdelijk" },
+    ],
+    regions: [
+      { id: "recRegionNH", name: "Noord-Holland" },
+      { id: "recRegionZH", name: "Zuid-Holland" },
+      { id: "recRegionUtrecht", name: "Utrecht" },
+    ],
+    sectors: [
+      { id: "recSectorZorg", name: "Zorg en welzijn" },
+      { id: "recSectorOnderwijs", name: "Onderwijs" },
+      { id: "recSectorOverig", name: "Overig" },
+    ],
+  };
+
+  return {
+    users,
+    employers,
+    wallets,
+    transactions,
+    vacancies,
+    mediaAssets: [],
+    faq,
+    products,
+    features,
+    promoCodes,
+    lookups,
+  };
+}
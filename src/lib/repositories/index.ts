@@ -0,0 +1,19 @@
+import { airtableRepositories } from "./airtable";
+import { memoryRepositories } from "./memory";
+import type { Repositories } from "./types";
+
+export type * from "./types";
+
+/**
+ * Whether the in-memory data store is active
+ * Set DATA_STORE=memory to run locally without Airtable (seeded with fixtures)
+ */
+export function isMemoryStore(): boolean {
+  return process.env.DATA_STORE === "memory";
+}
+
+/**
+ * Storage-agnostic data access for the API routes
+ * Airtable in production, in-memory when DATA_STORE=memory
+ */
+export const repositories: Repositories = isMemoryStore() ? memoryRepositories : airtableRepositories;
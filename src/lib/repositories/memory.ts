@@ -0,0 +1,1233 @@
+import { randomBytes } from "crypto";
+import type {
+  CreditBatch,
+  EmployerRecord,
+  FAQRecord,
+  FeatureRecord,
+  JobRunRecord,
+  LookupRecord,
+  MediaAssetRecord,
+  ProductRecord,
+  PromoCodeRecord,
+  SessionRecord,
+  SubscriptionRecord,
+  TransactionRecord,
+  UserRecord,
+  VacancyRecord,
+  VacancyReviewRecord,
+  VacancyRevisionRecord,
+  VacancyTemplateRecord,
+  WalletRecord,
+} from "@/lib/airtable";
+import { sortLookupWithOverigeLast } from "@/lib/utils";
+import { createSeedData, SEED_ROLE_EMPLOYER } from "./fixtures";
+import type { Repositories } from "./types";
+
+// ============================================
+// STORE
+// ============================================
+
+export interface MemoryVerificationToken {
+  identifier: string;
+  token: string;
+  expires: Date;
+  status: "pending" | "used" | "revoked";
+}
+
+interface MemoryStore {
+  users: Map<string, UserRecord>;
+  employers: Map<string, EmployerRecord>;
+  wallets: Map<string, WalletRecord>;
+  transactions: Map<string, TransactionRecord>;
+  vacancies: Map<string, VacancyRecord>;
+  mediaAssets: Map<string, MediaAssetRecord>;
+  faq: Map<string, FAQRecord>;
+  products: Map<string, ProductRecord>;
+  features: Map<string, FeatureRecord>;
+  promoCodes: Map<string, PromoCodeRecord>;
+  lookups: {
+    educationLevels: LookupRecord[];
+    fields: LookupRecord[];
+    functionTypes: LookupRecord[];
+    regions: LookupRecord[];
+    sectors: LookupRecord[];
+  };
+  sessions: Map<string, SessionRecord>;
+  jobRuns: Map<string, JobRunRecord>;
+  subscriptions: Map<string, SubscriptionRecord>;
+  vacancyTemplates: Map<string, VacancyTemplateRecord>;
+  vacancyRevisions: Map<string, VacancyRevisionRecord>;
+  vacancyReviews: Map<string, VacancyReviewRecord>;
+  verificationTokens: MemoryVerificationToken[];
+}
+
+function toMap<T extends { id: string }>(records: T[]): Map<string, T> {
+  return new Map(records.map((record) => [record.id, record]));
+}
+
+function createStore(): MemoryStore {
+  const seed = createSeedData();
+  return {
+    users: toMap(seed.users),
+    employers: toMap(seed.employers),
+    wallets: toMap(seed.wallets),
+    transactions: toMap(seed.transactions),
+    vacancies: toMap(seed.vacancies),
+    mediaAssets: toMap(seed.mediaAssets),
+    faq: toMap(seed.faq),
+    products: toMap(seed.products),
+    features: toMap(seed.features),
+    promoCodes: toMap(seed.promoCodes),
+    lookups: seed.lookups,
+    sessions: new Map(),
+    jobRuns: new Map(),
+    subscriptions: new Map(),
+    vacancyTemplates: new Map(),
+    vacancyRevisions: new Map(),
+    vacancyReviews: new Map(),
+    verificationTokens: [],
+  };
+}
+
+// Keep the store on globalThis so it survives hot reloads in development
+const globalForStore = globalThis as unknown as { __colourfulMemoryStore?: MemoryStore };
+
+export function getMemoryStore(): MemoryStore {
+  if (!globalForStore.__colourfulMemoryStore) {
+    globalForStore.__colourfulMemoryStore = createStore();
+  }
+  return globalForStore.__colourfulMemoryStore;
+}
+
+/**
+ * Reset the in-memory store to the seed data
+ */
+export function resetMemoryStore(): void {
+  globalForStore.__colourfulMemoryStore = createStore();
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Generate an Airtable-like record ID (rec + 14 chars)
+ */
+export function generateRecordId(): string {
+  return `rec${randomBytes(7).toString("hex")}`;
+}
+
+function nowISO(): string {
+  return new Date().toISOString();
+}
+
+/** Return a copy so callers can't mutate the store by accident */
+function clone<T>(value: T): T {
+  return structuredClone(value);
+}
+
+function getOrThrow<T>(map: Map<string, T>, id: string, label: string): T {
+  const record = map.get(id);
+  if (!record) {
+    throw new Error(`${label} not found`);
+  }
+  return record;
+}
+
+/** Newest first, like the Airtable "created-at" desc sorts */
+function byCreatedAtDesc<T extends { "created-at"?: string }>(a: T, b: T): number {
+  return (b["created-at"] || "").localeCompare(a["created-at"] || "");
+}
+
+function byExpiresAtAsc(a: CreditBatch, b: CreditBatch): number {
+  return a.expires_at.localeCompare(b.expires_at);
+}
+
+/** Current slug or one of previous_slugs (JSON string array) */
+function hasSlug(vacancy: VacancyRecord, slug: string): boolean {
+  if (vacancy.slug === slug) return true;
+  try {
+    const previous: unknown = JSON.parse(vacancy.previous_slugs || "[]");
+    return Array.isArray(previous) && previous.includes(slug);
+  } catch {
+    return false;
+  }
+}
+
+function byName(a: LookupRecord, b: LookupRecord): number {
+  return a.name.localeCompare(b.name);
+}
+
+/** Resolve the vacancy_name lookup field */
+function withVacancyName(store: MemoryStore, transaction: TransactionRecord): TransactionRecord {
+  const vacancy = transaction.vacancy_id ? store.vacancies.get(transaction.vacancy_id) : undefined;
+  return clone({ ...transaction, vacancy_name: vacancy?.title || null });
+}
+
+function toCreditBatch(transaction: TransactionRecord): CreditBatch {
+  return {
+    id: transaction.id,
+    employer_id: transaction.employer_id || null,
+    wallet_id: transaction.wallet_id || null,
+    remaining_credits: transaction.remaining_credits || 0,
+    expires_at: transaction.expires_at || "",
+    "created-at": transaction["created-at"],
+  };
+}
+
+/** Purchases and incoming transfer adjustments with credits left, oldest expiry first */
+function creditBatches(store: MemoryStore, filter: (transaction: TransactionRecord) => boolean): CreditBatch[] {
+  return Array.from(store.transactions.values())
+    .filter(
+      (t) =>
+        (t.type === "purchase" || t.type === "adjustment") &&
+        (t.remaining_credits || 0) > 0 &&
+        !!t.expires_at &&
+        filter(t)
+    )
+    .map(toCreditBatch)
+    .sort(byExpiresAtAsc);
+}
+
+function linkVacancyTransaction(store: MemoryStore, vacancyId: string | null | undefined, transactionId: string) {
+  if (!vacancyId) return;
+  const vacancy = store.vacancies.get(vacancyId);
+  if (!vacancy) return;
+  vacancy.credit_transactions = [...(vacancy.credit_transactions || []), transactionId];
+}
+
+function insertTransaction(store: MemoryStore, transaction: TransactionRecord): TransactionRecord {
+  store.transactions.set(transaction.id, transaction);
+  linkVacancyTransaction(store, transaction.vacancy_id, transaction.id);
+  return withVacancyName(store, transaction);
+}
+
+/** Mirrors the credits_spent / money_invoiced rollups on Vacancies */
+function withRollups(store: MemoryStore, vacancy: VacancyRecord): VacancyRecord {
+  const transactions = (vacancy.credit_transactions || [])
+    .map((id) => store.transactions.get(id))
+    .filter((t): t is TransactionRecord => !!t && t.type === "spend");
+  const credits_spent = transactions.reduce(
+    (sum, t) => sum + ((t.total_credits || 0) - (t.credits_shortage || 0)),
+    0
+  );
+  const money_invoiced = transactions.reduce((sum, t) => sum + (t.credits_invoiced || 0), 0);
+  return clone({ ...vacancy, credits_spent, money_invoiced });
+}
+
+function addMonthsSafe(date: Date, months: number): Date {
+  const result = new Date(date);
+  const originalDay = result.getDate();
+  result.setMonth(result.getMonth() + months);
+  if (result.getDate() !== originalDay) {
+    result.setDate(0);
+  }
+  return result;
+}
+
+// ============================================
+// REPOSITORIES
+// ============================================
+
+const store = () => getMemoryStore();
+
+export const memoryRepositories: Repositories = {
+  users: {
+    async getById(id) {
+      const user = store().users.get(id);
+      return user ? clone(user) : null;
+    },
+    async getByEmail(email) {
+      const normalized = email.toLowerCase();
+      const user = Array.from(store().users.values()).find((u) => u.email.toLowerCase() === normalized);
+      return user ? clone(user) : null;
+    },
+    async getByEmployerId(employerId) {
+      return Array.from(store().users.values())
+        .filter((u) => u.employer_id === employerId)
+        .map(clone)
+        .reverse();
+    },
+    async getByInviteToken(token) {
+      const user = Array.from(store().users.values()).find((u) => u.invite_token === token);
+      return user ? clone(user) : null;
+    },
+    async create(fields) {
+      const user: UserRecord = {
+        id: generateRecordId(),
+        email: fields.email,
+        employer_id: fields.employer_id ?? null,
+        status: fields.status ?? "pending_onboarding",
+        first_name: fields.first_name,
+        last_name: fields.last_name,
+        role: SEED_ROLE_EMPLOYER,
+        role_id: "employer",
+        managed_employers: [],
+        active_employer: null,
+        invite_token: fields.invite_token ?? null,
+        invite_expires: fields.invite_expires ?? null,
+        invited_by: fields.invited_by ?? null,
+      };
+      store().users.set(user.id, user);
+      return clone(user);
+    },
+    async update(id, fields) {
+      const user = getOrThrow(store().users, id, "User");
+      const updated = { ...user, ...fields, id };
+      store().users.set(id, updated);
+      return clone(updated);
+    },
+    async delete(id) {
+      store().users.delete(id);
+    },
+    async unlinkFromEmployer(userId) {
+      const user = getOrThrow(store().users, userId, "User");
+      const updated: UserRecord = { ...user, employer_id: null, status: "deleted" };
+      store().users.set(userId, updated);
+      return clone(updated);
+    },
+    async setActiveEmployer(userId, employerId) {
+      const user = getOrThrow(store().users, userId, "User");
+      store().users.set(userId, { ...user, active_employer: employerId });
+    },
+  },
+
+  employers: {
+    async getById(id) {
+      const employer = store().employers.get(id);
+      return employer ? clone(employer) : null;
+    },
+    async getByKVK(kvkNumber) {
+      const employer = Array.from(store().employers.values()).find((e) => e.kvk === kvkNumber);
+      return employer ? clone(employer) : null;
+    },
+    async getManagedByUserId(userId) {
+      const user = store().users.get(userId);
+      if (!user?.managed_employers?.length) return [];
+      return user.managed_employers
+        .map((id) => store().employers.get(id))
+        .filter((e): e is EmployerRecord => !!e)
+        .map(clone);
+    },
+    async getNeedingWebflowSync() {
+      return Array.from(store().employers.values())
+        .filter((e) => e.needs_webflow_sync)
+        .map(clone);
+    },
+    async getBySlug(slug) {
+      const employer = Array.from(store().employers.values()).find((e) => e.slug === slug);
+      return employer ? clone(employer) : null;
+    },
+    async create(fields) {
+      const employer: EmployerRecord = {
+        needs_webflow_sync: false,
+        ...fields,
+        id: generateRecordId(),
+        status: fields.status ?? "draft",
+        role: fields.role ?? [SEED_ROLE_EMPLOYER],
+      };
+      store().employers.set(employer.id, employer);
+      return clone(employer);
+    },
+    async update(id, fields) {
+      const employer = getOrThrow(store().employers, id, "Employer");
+      const updated = { ...employer, ...fields, id };
+      store().employers.set(id, updated);
+      return clone(updated);
+    },
+    async delete(id) {
+      store().employers.delete(id);
+    },
+  },
+
+  wallets: {
+    async getById(walletId) {
+      const wallet = store().wallets.get(walletId);
+      return wallet ? clone(wallet) : null;
+    },
+    async getAll() {
+      return Array.from(store().wallets.values()).map(clone);
+    },
+    async getByEmployerId(employerId) {
+      const wallet = Array.from(store().wallets.values()).find(
+        (w) => w.owner_type === "employer" && w.owner_employer === employerId
+      );
+      return wallet ? clone(wallet) : null;
+    },
+    async getByUserId(userId) {
+      const wallet = Array.from(store().wallets.values()).find(
+        (w) => w.owner_type === "user" && w.owner_user === userId
+      );
+      return wallet ? clone(wallet) : null;
+    },
+    async getForUser(user) {
+      if (user.role_id === "intermediary") {
+        return memoryRepositories.wallets.getByUserId(user.id);
+      }
+      if (user.employer_id) {
+        return memoryRepositories.wallets.getByEmployerId(user.employer_id);
+      }
+      return null;
+    },
+    async createForEmployer(employerId) {
+      const wallet: WalletRecord = {
+        id: generateRecordId(),
+        owner_employer: employerId,
+        owner_user: null,
+        owner_type: "employer",
+        balance: 0,
+        total_purchased: 0,
+        total_spent: 0,
+        "created-at": nowISO(),
+        "last-updated": nowISO(),
+      };
+      store().wallets.set(wallet.id, wallet);
+      return clone(wallet);
+    },
+    async createForUser(userId) {
+      const wallet: WalletRecord = {
+        id: generateRecordId(),
+        owner_employer: null,
+        owner_user: userId,
+        owner_type: "user",
+        balance: 0,
+        total_purchased: 0,
+        total_spent: 0,
+        "created-at": nowISO(),
+        "last-updated": nowISO(),
+      };
+      store().wallets.set(wallet.id, wallet);
+      return clone(wallet);
+    },
+    async deleteByEmployerId(employerId) {
+      const wallet = await memoryRepositories.wallets.getByEmployerId(employerId);
+      if (wallet) {
+        store().wallets.delete(wallet.id);
+      }
+    },
+    async updateTotals(walletId, fields) {
+      const wallet = getOrThrow(store().wallets, walletId, "Wallet");
+      const updated: WalletRecord = { ...wallet, ...fields, "last-updated": nowISO() };
+      store().wallets.set(walletId, updated);
+      return clone(updated);
+    },
+    async addCredits(walletId, creditsAmount) {
+      const wallet = getOrThrow(store().wallets, walletId, "Wallet");
+      const updated: WalletRecord = {
+        ...wallet,
+        balance: wallet.balance + creditsAmount,
+        total_purchased: wallet.total_purchased + creditsAmount,
+        "last-updated": nowISO(),
+      };
+      store().wallets.set(walletId, updated);
+      return clone(updated);
+    },
+    async deductCredits(walletId, creditsAmount) {
+      const wallet = getOrThrow(store().wallets, walletId, "Wallet");
+      if (wallet.balance < creditsAmount) {
+        throw new Error("Insufficient credits");
+      }
+      const updated: WalletRecord = {
+        ...wallet,
+        balance: wallet.balance - creditsAmount,
+        total_spent: wallet.total_spent + creditsAmount,
+        "last-updated": nowISO(),
+      };
+      store().wallets.set(walletId, updated);
+      return clone(updated);
+    },
+    async spendCreditsWithFIFO(employerId, walletId, amount) {
+      const batches = await memoryRepositories.wallets.getActiveCreditBatches(employerId);
+      const totalAvailableFromBatches = batches.reduce((sum, batch) => sum + batch.remaining_credits, 0);
+
+      let remaining = Math.min(amount, totalAvailableFromBatches);
+      const batchesUsed: { id: string; creditsUsed: number }[] = [];
+
+      for (const batch of batches) {
+        if (remaining <= 0) break;
+        const creditsToDeduct = Math.min(remaining, batch.remaining_credits);
+        await memoryRepositories.transactions.updateRemainingCredits(
+          batch.id,
+          batch.remaining_credits - creditsToDeduct
+        );
+        batchesUsed.push({ id: batch.id, creditsUsed: creditsToDeduct });
+        remaining -= creditsToDeduct;
+      }
+
+      await memoryRepositories.wallets.deductCredits(walletId, amount);
+
+      return { totalSpent: amount, batchesUsed };
+    },
+    async getActiveCreditBatches(employerId) {
+      const now = nowISO();
+      return creditBatches(store(), (t) => t.employer_id === employerId && t.expires_at! > now);
+    },
+    async getActiveCreditBatchesByWalletId(walletId) {
+      const now = nowISO();
+      return creditBatches(store(), (t) => t.wallet_id === walletId && t.expires_at! > now);
+    },
+    async getExpiringCredits(employerId, withinDays = 30) {
+      const now = new Date();
+      const futureDate = new Date();
+      futureDate.setDate(futureDate.getDate() + withinDays);
+
+      const batches = creditBatches(
+        store(),
+        (t) =>
+          t.employer_id === employerId &&
+          t.expires_at! > now.toISOString() &&
+          t.expires_at! < futureDate.toISOString()
+      );
+
+      if (batches.length === 0) {
+        return { total: 0, days_until: null, earliest_date: null };
+      }
+
+      const total = batches.reduce((sum, batch) => sum + batch.remaining_credits, 0);
+      const earliestDate = new Date(batches[0].expires_at);
+      const daysUntil = Math.ceil((earliestDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
+
+      return { total, days_until: daysUntil, earliest_date: batches[0].expires_at };
+    },
+    async getExpiringCreditBatches(withinDays) {
+      const now = new Date();
+      const futureDate = new Date();
+      futureDate.setDate(futureDate.getDate() + withinDays);
+
+      return creditBatches(
+        store(),
+        (t) =>
+          !t.expiry_warning_sent_at &&
+          t.expires_at! > now.toISOString() &&
+          t.expires_at! < futureDate.toISOString()
+      );
+    },
+    async getExpiredCreditBatches() {
+      const now = nowISO();
+      return creditBatches(store(), (t) => t.expires_at! < now);
+    },
+    async processExpiredCreditBatch(batch) {
+      if (!batch.wallet_id) {
+        return { success: false, creditsExpired: 0, error: "Missing wallet ID" };
+      }
+
+      const wallet = store().wallets.get(batch.wallet_id);
+      if (!wallet) {
+        return { success: false, creditsExpired: 0, error: "Wallet not found" };
+      }
+
+      const creditsToExpire = batch.remaining_credits;
+      await memoryRepositories.transactions.updateRemainingCredits(batch.id, 0);
+
+      store().wallets.set(wallet.id, {
+        ...wallet,
+        balance: Math.max(0, wallet.balance - creditsToExpire),
+        "last-updated": nowISO(),
+      });
+
+      insertTransaction(store(), {
+        id: generateRecordId(),
+        employer_id: batch.employer_id,
+        wallet_id: batch.wallet_id,
+        type: "expiration",
+        status: "paid",
+        total_credits: creditsToExpire,
+        reference_type: "system",
+        "created-at": nowISO(),
+      });
+
+      return { success: true, creditsExpired: creditsToExpire };
+    },
+  },
+
+  transactions: {
+    async getById(id) {
+      const s = store();
+      const transaction = s.transactions.get(id);
+      return transaction ? withVacancyName(s, transaction) : null;
+    },
+    async getByWalletId(walletId) {
+      const s = store();
+      return Array.from(s.transactions.values())
+        .filter((t) => t.wallet_id === walletId)
+        .sort(byCreatedAtDesc)
+        .map((t) => withVacancyName(s, t));
+    },
+    async getByEmployerId(employerId) {
+      const s = store();
+      return Array.from(s.transactions.values())
+        .filter((t) => t.employer_id === employerId)
+        .sort(byCreatedAtDesc)
+        .map((t) => withVacancyName(s, t));
+    },
+    async getByVacancyId(vacancyId) {
+      const s = store();
+      return Array.from(s.transactions.values())
+        .filter(
+          (t) =>
+            t.vacancy_id === vacancyId &&
+            (t.context === "vacancy" || t.context === "boost" || t.context === "included")
+        )
+        .sort(byCreatedAtDesc)
+        .map((t) => withVacancyName(s, t));
+    },
+    async getByIdempotencyKey(key) {
+      const s = store();
+      const transaction = Array.from(s.transactions.values()).find(
+        (t) => t.idempotency_key === key && t.status !== "failed" && t.status !== "refunded"
+      );
+      return transaction ? withVacancyName(s, transaction) : null;
+    },
+    async getLatestInvoiceNumber(prefix, field = "invoice_number") {
+      const numbers = Array.from(store().transactions.values())
+        .map((t) => t[field])
+        .filter((n): n is string => !!n && n.startsWith(prefix))
+        .sort();
+      return numbers[numbers.length - 1] ?? null;
+    },
+    async getByInvoiceNumber(number, field = "invoice_number") {
+      const s = store();
+      return Array.from(s.transactions.values())
+        .filter((t) => t[field] === number)
+        .map((t) => withVacancyName(s, t));
+    },
+    async createPurchase(fields) {
+      const createdAt = new Date();
+      const expiresAt = addMonthsSafe(createdAt, fields.validity_months ?? 12);
+      return insertTransaction(store(), {
+        id: generateRecordId(),
+        employer_id: fields.employer_id || null,
+        wallet_id: fields.wallet_id,
+        user_id: fields.user_id,
+        vacancy_id: null,
+        product_ids: [fields.product_id],
+        type: "purchase",
+        reference_type: "order",
+        context: fields.context,
+        status: "open",
+        total_cost: fields.total_cost,
+        total_credits: fields.total_credits,
+        credits_shortage: null,
+        credits_invoiced: null,
+        invoice: null,
+        invoice_details_snapshot: fields.invoice_details_snapshot,
+        invoice_trigger: null,
+        expires_at: expiresAt.toISOString(),
+        remaining_credits: fields.remaining_credits ?? fields.total_credits,
+        idempotency_key: fields.idempotency_key ?? null,
+        subscription_id: fields.subscription_id ?? null,
+        promo_code: fields.promo_code ?? null,
+        discount_amount: fields.discount_amount ?? null,
+        bonus_credits: fields.bonus_credits ?? null,
+        "created-at": createdAt.toISOString(),
+      });
+    },
+    async createSpend(fields) {
+      const hasInvoice = fields.credits_shortage > 0;
+      return insertTransaction(store(), {
+        id: generateRecordId(),
+        employer_id: fields.employer_id,
+        wallet_id: fields.wallet_id,
+        user_id: fields.user_id,
+        vacancy_id: fields.vacancy_id,
+        product_ids: fields.product_ids,
+        type: "spend",
+        reference_type: "vacancy",
+        context: fields.context || "vacancy",
+        status: hasInvoice ? "open" : "paid",
+        total_cost: fields.total_cost,
+        total_credits: fields.total_credits,
+        credits_shortage: fields.credits_shortage,
+        credits_invoiced: hasInvoice ? fields.invoice_amount : null,
+        invoice: null,
+        invoice_details_snapshot: hasInvoice ? fields.invoice_details_snapshot ?? null : null,
+        invoice_trigger: hasInvoice ? fields.invoice_trigger || "on_vacancy_publish" : null,
+        expires_at: fields.expires_at ?? null,
+        idempotency_key: fields.idempotency_key ?? null,
+        "created-at": nowISO(),
+      });
+    },
+    async createInvoice(fields) {
+      return insertTransaction(store(), {
+        id: generateRecordId(),
+        employer_id: fields.employer_id,
+        wallet_id: fields.wallet_id,
+        user_id: null,
+        vacancy_id: fields.vacancy_id,
+        product_ids: fields.product_ids,
+        type: "spend",
+        reference_type: "vacancy",
+        context: fields.context || "vacancy",
+        status: "open",
+        total_cost: fields.total_cost,
+        total_credits: fields.total_credits,
+        invoice: null,
+        invoice_details_snapshot: fields.invoice_details_snapshot,
+        invoice_trigger: "on_vacancy_publish",
+        "created-at": nowISO(),
+      });
+    },
+    async createRefund(fields) {
+      return insertTransaction(store(), {
+        id: generateRecordId(),
+        employer_id: fields.employer_id || null,
+        wallet_id: fields.wallet_id,
+        user_id: fields.user_id || null,
+        vacancy_id: fields.vacancy_id || null,
+        product_ids: fields.product_ids,
+        type: "refund",
+        reference_type: fields.reference_type,
+        context: fields.context || "vacancy",
+        status: "paid",
+        total_cost: fields.total_cost,
+        total_credits: fields.total_credits,
+        invoice: null,
+        idempotency_key: fields.idempotency_key ?? null,
+        refund_of_id: fields.refund_of_id,
+        "created-at": nowISO(),
+      });
+    },
+    async createAdjustment(fields) {
+      return insertTransaction(store(), {
+        id: generateRecordId(),
+        employer_id: fields.employer_id || null,
+        wallet_id: fields.wallet_id,
+        user_id: fields.user_id,
+        vacancy_id: null,
+        product_ids: [],
+        type: "adjustment",
+        reference_type: null,
+        context: fields.context || "dashboard",
+        status: "paid",
+        total_credits: fields.total_credits,
+        invoice: null,
+        expires_at: fields.expires_at ?? null,
+        remaining_credits: fields.remaining_credits ?? null,
+        idempotency_key: fields.idempotency_key ?? null,
+        transfer_id: fields.transfer_id,
+        transfer_employer_id: fields.transfer_employer_id ?? null,
+        "created-at": nowISO(),
+      });
+    },
+    async updateRemainingCredits(transactionId, newRemainingCredits) {
+      const transaction = getOrThrow(store().transactions, transactionId, "Transaction");
+      store().transactions.set(transactionId, { ...transaction, remaining_credits: newRemainingCredits });
+    },
+    async update(id, fields) {
+      const s = store();
+      const transaction = getOrThrow(s.transactions, id, "Transaction");
+      const updated = { ...transaction, ...fields, id };
+      s.transactions.set(id, updated);
+      return withVacancyName(s, updated);
+    },
+  },
+
+  vacancies: {
+    async getById(id) {
+      const s = store();
+      const vacancy = s.vacancies.get(id);
+      return vacancy ? withRollups(s, vacancy) : null;
+    },
+    async getByEmployerId(employerId, options) {
+      const s = store();
+      const statuses = options?.status
+        ? Array.isArray(options.status) ? options.status : [options.status]
+        : null;
+      return Array.from(s.vacancies.values())
+        .filter((v) => v.employer_id === employerId && (!statuses || statuses.includes(v.status)))
+        .sort(byCreatedAtDesc)
+        .map((v) => withRollups(s, v));
+    },
+    async getExpired() {
+      const s = store();
+      const today = nowISO().slice(0, 10);
+      return Array.from(s.vacancies.values())
+        .filter((v) => v.status === "gepubliceerd" && !!v.closing_date && v.closing_date.slice(0, 10) < today)
+        .sort((a, b) => (a.closing_date || "").localeCompare(b.closing_date || ""))
+        .map((v) => withRollups(s, v));
+    },
+    async getClosingSoon(withinDays) {
+      const s = store();
+      const today = nowISO().slice(0, 10);
+      const until = new Date(Date.now() + withinDays * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+      return Array.from(s.vacancies.values())
+        .filter((v) => {
+          if (v.status !== "gepubliceerd" || !v.closing_date || v.closing_warning_sent_at) return false;
+          const closingDate = v.closing_date.slice(0, 10);
+          return closingDate >= today && closingDate <= until;
+        })
+        .sort((a, b) => (a.closing_date || "").localeCompare(b.closing_date || ""))
+        .map((v) => withRollups(s, v));
+    },
+    async getAwaitingApproval() {
+      const s = store();
+      return Array.from(s.vacancies.values())
+        .filter((v) => v.status === "wacht_op_goedkeuring")
+        .sort((a, b) => (a["submitted-at"] || "").localeCompare(b["submitted-at"] || ""))
+        .map((v) => withRollups(s, v));
+    },
+    async getDueForPublication() {
+      const s = store();
+      const now = nowISO();
+      return Array.from(s.vacancies.values())
+        .filter((v) => v.status === "ingepland" && !!v.publish_from && v.publish_from <= now)
+        .sort((a, b) => (a.publish_from || "").localeCompare(b.publish_from || ""))
+        .map((v) => withRollups(s, v));
+    },
+    async getDueForDepublication() {
+      const s = store();
+      const now = nowISO();
+      return Array.from(s.vacancies.values())
+        .filter((v) => v.status === "gepubliceerd" && !!v.depublish_at && v.depublish_at <= now)
+        .sort((a, b) => (a.depublish_at || "").localeCompare(b.depublish_at || ""))
+        .map((v) => withRollups(s, v));
+    },
+    async getNeedingWebflowSync() {
+      const s = store();
+      return Array.from(s.vacancies.values())
+        .filter((v) => v.needs_webflow_sync || v.needs_webflow_archive)
+        .sort((a, b) => (a["updated-at"] || "").localeCompare(b["updated-at"] || ""))
+        .map((v) => withRollups(s, v));
+    },
+    async getSyndicated() {
+      const s = store();
+      return Array.from(s.vacancies.values())
+        .filter((v) => v.status === "gepubliceerd" && !v.syndication_opt_out)
+        .sort((a, b) => (b["first-published-at"] || "").localeCompare(a["first-published-at"] || ""))
+        .map((v) => withRollups(s, v));
+    },
+    async getBySlug(slug) {
+      const s = store();
+      const vacancy = Array.from(s.vacancies.values()).find((v) => hasSlug(v, slug));
+      return vacancy ? withRollups(s, vacancy) : null;
+    },
+    async create(fields) {
+      const vacancy: VacancyRecord = {
+        id: generateRecordId(),
+        employer_id: fields.employer_id,
+        title: fields.title || "",
+        status: "concept",
+        input_type: fields.input_type || "self_service",
+        intro_txt: "",
+        description: "",
+        location: "",
+        salary: "",
+        package_id: fields.package_id || null,
+        selected_upsells: [],
+        apply_url: "",
+        application_email: "",
+        show_apply_form: false,
+        contact_name: "",
+        contact_role: "",
+        contact_email: "",
+        contact_phone: "",
+        recommendations: "",
+        gallery: [],
+        credit_transactions: [],
+        users: [fields.user_id],
+        events: [],
+        needs_webflow_sync: false,
+        needs_webflow_archive: false,
+        seo_custom: false,
+        syndication_opt_out: false,
+        high_priority: false,
+        is_featured: false,
+        is_first_vacancy: false,
+        "created-at": nowISO(),
+        "updated-at": nowISO(),
+      };
+      store().vacancies.set(vacancy.id, vacancy);
+      return withRollups(store(), vacancy);
+    },
+    async update(id, fields) {
+      const s = store();
+      const vacancy = getOrThrow(s.vacancies, id, "Vacancy");
+      const defined = Object.fromEntries(
+        Object.entries(fields).filter(([, value]) => value !== undefined)
+      ) as Partial<VacancyRecord>;
+      const updated: VacancyRecord = {
+        ...vacancy,
+        ...defined,
+        id,
+        "updated-at": nowISO(),
+        ...(fields.status !== undefined && { "last-status_changed-at": nowISO() }),
+      };
+      s.vacancies.set(id, updated);
+      return withRollups(s, updated);
+    },
+    async delete(id) {
+      store().vacancies.delete(id);
+    },
+  },
+
+  mediaAssets: {
+    async getById(id) {
+      const asset = store().mediaAssets.get(id);
+      return asset ? clone(asset) : null;
+    },
+    async getByIds(ids) {
+      return ids
+        .map((id) => store().mediaAssets.get(id))
+        .filter((a): a is MediaAssetRecord => !!a && !a.is_deleted)
+        .map(clone);
+    },
+    async getByEmployerId(employerId, options) {
+      return Array.from(store().mediaAssets.values())
+        .filter(
+          (a) =>
+            a.employer_id === employerId &&
+            (!options?.type || a.type === options.type) &&
+            (options?.includeDeleted || !a.is_deleted)
+        )
+        .sort(byCreatedAtDesc)
+        .map(clone);
+    },
+    async create(fields) {
+      const asset: MediaAssetRecord = {
+        id: generateRecordId(),
+        employer_id: fields.employer_id,
+        type: fields.type,
+        file: fields.file || [],
+        cloudinary_url: fields.cloudinary_url || null,
+        alt_text: fields.alt_text || "",
+        file_size: fields.file_size || 0,
+        is_deleted: false,
+        "created-at": nowISO(),
+      };
+      store().mediaAssets.set(asset.id, asset);
+      return clone(asset);
+    },
+    async update(id, fields) {
+      const asset = getOrThrow(store().mediaAssets, id, "Media asset");
+      const updated = { ...asset, ...fields, id };
+      store().mediaAssets.set(id, updated);
+      return clone(updated);
+    },
+    async delete(id) {
+      await memoryRepositories.mediaAssets.update(id, { is_deleted: true });
+    },
+  },
+
+  faq: {
+    async getById(id) {
+      const faq = store().faq.get(id);
+      return faq ? clone(faq) : null;
+    },
+    async getBySlug(slug) {
+      const faq = Array.from(store().faq.values()).find((f) => f.slug === slug);
+      return faq ? clone(faq) : null;
+    },
+    async getByEmployerId(employerId) {
+      return Array.from(store().faq.values())
+        .filter((f) => f.employer_id === employerId)
+        .sort((a, b) => a.order - b.order)
+        .map(clone);
+    },
+    async create(fields) {
+      const faq: FAQRecord = {
+        id: generateRecordId(),
+        employer_id: fields.employer_id,
+        question: fields.question,
+        answer: fields.answer,
+        order: fields.order ?? 0,
+        created_at: nowISO(),
+      };
+      store().faq.set(faq.id, faq);
+      return clone(faq);
+    },
+    async update(id, fields) {
+      const faq = getOrThrow(store().faq, id, "FAQ");
+      const updated = { ...faq, ...fields, id };
+      store().faq.set(id, updated);
+      return clone(updated);
+    },
+    async delete(id) {
+      store().faq.delete(id);
+    },
+  },
+
+  products: {
+    async getById(id) {
+      const product = store().products.get(id);
+      return product ? clone(product) : null;
+    },
+    async getActiveByType(type) {
+      return Array.from(store().products.values())
+        .filter((p) => p.type === type && p.is_active)
+        .sort((a, b) => a.sort_order - b.sort_order)
+        .map(clone);
+    },
+    async getActiveByTypeAndRole(type, roleId) {
+      const products = await memoryRepositories.products.getActiveByType(type);
+      return products.filter(
+        (product) => !product.target_roles?.length || product.target_roles.includes(roleId)
+      );
+    },
+    async getCreditExpiryWarningDays() {
+      const bundles = await memoryRepositories.products.getActiveByType("credit_bundle");
+      const configured = bundles.find((p) => p.credits_expiry_warning_days && p.credits_expiry_warning_days > 0);
+      return configured?.credits_expiry_warning_days || 30;
+    },
+    async getAllActiveFeatures() {
+      return Array.from(store().features.values())
+        .filter((f) => f.is_active)
+        .sort((a, b) => a.sort_order - b.sort_order)
+        .map(clone);
+    },
+    async getFeaturesByIds(ids) {
+      return Array.from(store().features.values())
+        .filter((f) => f.is_active && ids.includes(f.id))
+        .sort((a, b) => a.sort_order - b.sort_order)
+        .map(clone);
+    },
+    async setWebflowItemId(id, webflowItemId) {
+      const product = getOrThrow(store().products, id, "Product");
+      store().products.set(id, { ...product, webflow_item_id: webflowItemId });
+    },
+    async setFeatureWebflowItemId(id, webflowItemId) {
+      const feature = getOrThrow(store().features, id, "Feature");
+      store().features.set(id, { ...feature, webflow_item_id: webflowItemId });
+    },
+  },
+
+  lookups: {
+    async getAll() {
+      const { lookups } = store();
+      return {
+        educationLevels: sortLookupWithOverigeLast([...lookups.educationLevels].sort(byName)),
+        fields: sortLookupWithOverigeLast([...lookups.fields].sort(byName)),
+        functionTypes: sortLookupWithOverigeLast([...lookups.functionTypes].sort(byName)),
+        regions: sortLookupWithOverigeLast([...lookups.regions].sort(byName)),
+        sectors: sortLookupWithOverigeLast([...lookups.sectors].sort(byName)),
+      };
+    },
+    async getEducationLevels() {
+      return [...store().lookups.educationLevels].sort(byName);
+    },
+    async getFields() {
+      return [...store().lookups.fields].sort(byName);
+    },
+    async getFunctionTypes() {
+      return [...store().lookups.functionTypes].sort(byName);
+    },
+    async getRegions() {
+      return [...store().lookups.regions].sort(byName);
+    },
+    async getSectors() {
+      return [...store().lookups.sectors].sort(byName);
+    },
+    async getSectorById(id) {
+      const sector = store().lookups.sectors.find((s) => s.id === id);
+      return sector ? { ...sector } : null;
+    },
+    async setWebflowFields(type, id, fields) {
+      const record = store().lookups[type].find((l) => l.id === id);
+      if (!record) {
+        throw new Error("Lookup record not found");
+      }
+      Object.assign(record, fields);
+    },
+  },
+
+  sessions: {
+    async create(userId, sessionToken, expires) {
+      const session: SessionRecord = { sessionToken, userId, expires };
+      store().sessions.set(sessionToken, session);
+      return { ...session };
+    },
+  },
+
+  jobRuns: {
+    async create(fields) {
+      const jobRun: JobRunRecord = {
+        id: generateRecordId(),
+        job: fields.job,
+        status: "running",
+        dry_run: fields.dry_run,
+        started_at: nowISO(),
+        finished_at: null,
+        batches_seen: 0,
+        batches_processed: 0,
+        batches_failed: 0,
+        credits_expired: 0,
+        errors: null,
+        details: null,
+      };
+      store().jobRuns.set(jobRun.id, jobRun);
+      return clone(jobRun);
+    },
+    async update(id, fields) {
+      const jobRun = getOrThrow(store().jobRuns, id, "Job run");
+      const updated = { ...jobRun, ...fields, id };
+      store().jobRuns.set(id, updated);
+      return clone(updated);
+    },
+    async getRecent(job, limit = 30) {
+      return Array.from(store().jobRuns.values())
+        .filter((run) => run.job === job)
+        .sort((a, b) => b.started_at.localeCompare(a.started_at))
+        .slice(0, limit)
+        .map(clone);
+    },
+  },
+
+  subscriptions: {
+    async getById(id) {
+      const subscription = store().subscriptions.get(id);
+      return subscription ? clone(subscription) : null;
+    },
+    async getByWalletId(walletId) {
+      return Array.from(store().subscriptions.values())
+        .filter((subscription) => subscription.wallet_id === walletId)
+        .sort((a, b) => b.started_at.localeCompare(a.started_at))
+        .map(clone);
+    },
+    async getDue() {
+      const now = nowISO();
+      return Array.from(store().subscriptions.values())
+        .filter(
+          (subscription) =>
+            (subscription.status === "active" || subscription.status === "cancelled") &&
+            subscription.next_renewal_at < now
+        )
+        .sort((a, b) => a.next_renewal_at.localeCompare(b.next_renewal_at))
+        .map(clone);
+    },
+    async create(fields) {
+      const subscription: SubscriptionRecord = {
+        id: generateRecordId(),
+        employer_id: fields.employer_id ?? null,
+        wallet_id: fields.wallet_id,
+        user_id: fields.user_id,
+        product_id: fields.product_id,
+        status: "active",
+        started_at: fields.started_at,
+        next_renewal_at: fields.next_renewal_at,
+        cancelled_at: null,
+        ended_at: null,
+        renewal_count: 0,
+        invoice_details_snapshot: fields.invoice_details_snapshot,
+      };
+      store().subscriptions.set(subscription.id, subscription);
+      return clone(subscription);
+    },
+    async update(id, fields) {
+      const subscription = getOrThrow(store().subscriptions, id, "Subscription");
+      const updated = { ...subscription, ...fields, id };
+      store().subscriptions.set(id, updated);
+      return clone(updated);
+    },
+  },
+
+  promoCodes: {
+    async getByCode(code) {
+      const promoCode = Array.from(store().promoCodes.values()).find(
+        (p) => p.code.toUpperCase() === code.toUpperCase()
+      );
+      return promoCode ? clone(promoCode) : null;
+    },
+    async countRedemptions(code, walletId) {
+      return Array.from(store().transactions.values()).filter(
+        (t) =>
+          t.type === "purchase" &&
+          t.status !== "failed" &&
+          t.status !== "refunded" &&
+          t.promo_code?.toUpperCase() === code.toUpperCase() &&
+          (!walletId || t.wallet_id === walletId)
+      ).length;
+    },
+  },
+
+  vacancyTemplates: {
+    async getById(id) {
+      const template = store().vacancyTemplates.get(id);
+      return template ? clone(template) : null;
+    },
+    async getByEmployerId(employerId) {
+      return Array.from(store().vacancyTemplates.values())
+        .filter((template) => template.employer_id === employerId)
+        .sort((a, b) => a.name.localeCompare(b.name))
+        .map(clone);
+    },
+    async create(fields) {
+      const template: VacancyTemplateRecord = {
+        id: generateRecordId(),
+        employer_id: fields.employer_id,
+        name: fields.name,
+        created_by: fields.created_by,
+        content_json: fields.content_json,
+        "created-at": nowISO(),
+      };
+      store().vacancyTemplates.set(template.id, template);
+      return clone(template);
+    },
+    async delete(id) {
+      store().vacancyTemplates.delete(id);
+    },
+  },
+
+  vacancyRevisions: {
+    async getById(id) {
+      const revision = store().vacancyRevisions.get(id);
+      return revision ? clone(revision) : null;
+    },
+    async getByVacancyId(vacancyId) {
+      return Array.from(store().vacancyRevisions.values())
+        .filter((revision) => revision.vacancy_id === vacancyId)
+        .sort(byCreatedAtDesc)
+        .map(clone);
+    },
+    async create(fields) {
+      const now = fields["created-at"] ?? nowISO();
+      const revision: VacancyRevisionRecord = {
+        id: generateRecordId(),
+        vacancy_id: fields.vacancy_id,
+        author_user_id: fields.author_user_id,
+        source: fields.source,
+        restored_from: fields.restored_from ?? null,
+        content_json: fields.content_json,
+        "created-at": now,
+        "updated-at": now,
+      };
+      store().vacancyRevisions.set(revision.id, revision);
+      return clone(revision);
+    },
+    async updateContent(id, contentJson) {
+      const revision = getOrThrow(store().vacancyRevisions, id, "Vacancy revision");
+      revision.content_json = contentJson;
+      revision["updated-at"] = nowISO();
+      return clone(revision);
+    },
+  },
+
+  vacancyReviews: {
+    async getByVacancyId(vacancyId) {
+      return Array.from(store().vacancyReviews.values())
+        .filter((review) => review.vacancy_id === vacancyId)
+        .sort((a, b) => b.round - a.round)
+        .map(clone);
+    },
+    async create(fields) {
+      const review: VacancyReviewRecord = {
+        id: generateRecordId(),
+        vacancy_id: fields.vacancy_id,
+        round: fields.round,
+        status: "open",
+        reviewer: fields.reviewer,
+        summary: fields.summary,
+        comments_json: fields.comments_json,
+        content_json: fields.content_json,
+        addressed_json: null,
+        "created-at": nowISO(),
+        "resubmitted-at": null,
+      };
+      store().vacancyReviews.set(review.id, review);
+      return clone(review);
+    },
+    async update(id, fields) {
+      const review = getOrThrow(store().vacancyReviews, id, "Vacancy review");
+      Object.assign(review, fields);
+      return clone(review);
+    },
+  },
+};
@@ -0,0 +1,450 @@
+import type {
+  CreditBatch,
+  EmployerRecord,
+  FAQRecord,
+  FeatureRecord,
+  InvoiceNumberField,
+  JobRunRecord,
+  LookupRecord,
+  LookupType,
+  LookupWebflowFields,
+  MediaAssetRecord,
+  ProductRecord,
+  PromoCodeRecord,
+  SessionRecord,
+  SubscriptionRecord,
+  TransactionRecord,
+  UserRecord,
+  VacancyInputType,
+  VacancyRecord,
+  VacancyStatus,
+  VacancyReviewRecord,
+  VacancyRevisionRecord,
+  VacancyRevisionSource,
+  VacancyTemplateRecord,
+  WalletRecord,
+} from "@/lib/airtable";
+
+// ============================================
+// INPUT TYPES
+// ============================================
+
+export interface CreateUserInput {
+  email: string;
+  employer_id?: string | null;
+  status?: UserRecord["status"];
+  first_name?: string;
+  last_name?: string;
+  invite_token?: string | null;
+  invite_expires?: string | null;
+  invited_by?: string | null;
+}
+
+export interface CreateMediaAssetInput {
+  employer_id: string;
+  type: MediaAssetRecord["type"];
+  file?: unknown[];
+  cloudinary_url?: string;
+  alt_text?: string;
+  file_size?: number;
+}
+
+export interface CreateFAQInput {
+  employer_id: string;
+  question: string;
+  answer: string;
+  order?: number;
+}
+
+export interface CreateVacancyInput {
+  employer_id: string;
+  user_id: string;
+  title?: string;
+  input_type?: VacancyInputType;
+  package_id?: string;
+}
+
+export interface CreateVacancyTemplateInput {
+  employer_id: string;
+  name: string;
+  created_by: string;
+  content_json: string;
+}
+
+export interface CreateVacancyRevisionInput {
+  vacancy_id: string;
+  author_user_id: string | null;
+  source: VacancyRevisionSource;
+  restored_from?: string | null;
+  content_json: string;
+  /** Defaults to now */
+  "created-at"?: string;
+}
+
+export interface CreateVacancyReviewInput {
+  vacancy_id: string;
+  round: number;
+  reviewer: string | null;
+  summary: string | null;
+  comments_json: string;
+  content_json: string;
+}
+
+export type VacancyReviewUpdate = Partial<Pick<VacancyReviewRecord, "status" | "addressed_json" | "resubmitted-at">>;
+
+export type VacancyUpdate = Partial<
+  Omit<VacancyRecord, "id" | "employer_id" | "credits_spent" | "credit_transactions" | "events">
+>;
+
+export interface CreatePurchaseTransactionInput {
+  employer_id?: string | null;
+  wallet_id: string;
+  user_id: string;
+  product_id: string;
+  total_credits: number;
+  total_cost: number;
+  context: TransactionRecord["context"];
+  invoice_details_snapshot: string;
+  validity_months?: number | null;
+  idempotency_key?: string;
+  subscription_id?: string | null;
+  promo_code?: string | null;
+  discount_amount?: number | null;
+  bonus_credits?: number | null;
+  /** Defaults to total_credits; lower when the purchase settles an overdraft */
+  remaining_credits?: number;
+}
+
+export interface CreateSpendTransactionInput {
+  employer_id: string;
+  wallet_id: string;
+  user_id: string;
+  vacancy_id: string;
+  total_credits: number;
+  total_cost: number;
+  credits_shortage: number;
+  invoice_amount: number;
+  product_ids: string[];
+  context?: TransactionRecord["context"];
+  expires_at?: string;
+  invoice_details_snapshot?: string;
+  invoice_trigger?: "on_vacancy_publish";
+  idempotency_key?: string;
+}
+
+export interface CreateInvoiceTransactionInput {
+  employer_id: string;
+  wallet_id: string;
+  vacancy_id: string;
+  total_credits: number;
+  total_cost: number;
+  product_ids: string[];
+  invoice_details_snapshot: string;
+  context?: TransactionRecord["context"];
+}
+
+export interface CreateRefundTransactionInput {
+  refund_of_id: string;
+  employer_id?: string | null;
+  wallet_id: string;
+  user_id?: string | null;
+  vacancy_id?: string | null;
+  product_ids: string[];
+  total_credits: number;
+  total_cost: number;
+  context?: TransactionRecord["context"];
+  reference_type: "vacancy" | "admin";
+  idempotency_key?: string;
+}
+
+export interface CreateAdjustmentTransactionInput {
+  wallet_id: string;
+  employer_id?: string | null;
+  user_id: string;
+  total_credits: number;
+  context?: TransactionRecord["context"];
+  transfer_id: string;
+  transfer_employer_id?: string | null;
+  expires_at?: string | null;
+  remaining_credits?: number | null;
+  idempotency_key?: string;
+}
+
+export interface TransactionUpdate {
+  status?: TransactionRecord["status"];
+  remaining_credits?: number;
+  credits_invoiced?: number;
+  batch_allocations?: string;
+  expiry_warning_sent_at?: string;
+  subscription_id?: string;
+  invoice_number?: string;
+  invoice_date?: string;
+  credit_note_number?: string;
+  credit_note_date?: string;
+  invoice_details_snapshot?: string;
+}
+
+export interface CreateSubscriptionInput {
+  employer_id?: string | null;
+  wallet_id: string;
+  user_id: string;
+  product_id: string;
+  started_at: string;
+  next_renewal_at: string;
+  invoice_details_snapshot: string;
+}
+
+export type SubscriptionUpdate = Partial<
+  Pick<SubscriptionRecord, "status" | "next_renewal_at" | "cancelled_at" | "ended_at" | "renewal_count">
+>;
+
+export type JobRunUpdate = Partial<Omit<JobRunRecord, "id" | "job" | "dry_run" | "started_at">>;
+
+export type WalletTotalsUpdate = Partial<Pick<WalletRecord, "balance" | "total_purchased" | "total_spent">>;
+
+export interface FIFOSpendResult {
+  totalSpent: number;
+  batchesUsed: { id: string; creditsUsed: number }[];
+}
+
+export interface ExpiringCreditsSummary {
+  total: number;
+  days_until: number | null;
+  earliest_date: string | null;
+}
+
+export interface ExpiredBatchResult {
+  success: boolean;
+  creditsExpired: number;
+  error?: string;
+}
+
+export interface AllLookups {
+  educationLevels: LookupRecord[];
+  fields: LookupRecord[];
+  functionTypes: LookupRecord[];
+  regions: LookupRecord[];
+  sectors: LookupRecord[];
+}
+
+// ============================================
+// REPOSITORY INTERFACES
+// ============================================
+
+export interface UserRepository {
+  getById(id: string): Promise<UserRecord | null>;
+  getByEmail(email: string): Promise<UserRecord | null>;
+  getByEmployerId(employerId: string): Promise<UserRecord[]>;
+  getByInviteToken(token: string): Promise<UserRecord | null>;
+  create(fields: CreateUserInput): Promise<UserRecord>;
+  update(id: string, fields: Partial<UserRecord>): Promise<UserRecord>;
+  delete(id: string): Promise<void>;
+  unlinkFromEmployer(userId: string): Promise<UserRecord>;
+  setActiveEmployer(userId: string, employerId: string): Promise<void>;
+}
+
+export interface EmployerRepository {
+  getById(id: string): Promise<EmployerRecord | null>;
+  getByKVK(kvkNumber: string): Promise<EmployerRecord | null>;
+  /** Employers managed by an intermediary user */
+  getManagedByUserId(userId: string): Promise<EmployerRecord[]>;
+  /** Flagged with needs_webflow_sync */
+  getNeedingWebflowSync(): Promise<EmployerRecord[]>;
+  getBySlug(slug: string): Promise<EmployerRecord | null>;
+  create(fields: Partial<EmployerRecord>): Promise<EmployerRecord>;
+  update(id: string, fields: Partial<EmployerRecord>): Promise<EmployerRecord>;
+  delete(id: string): Promise<void>;
+}
+
+export interface WalletRepository {
+  getById(walletId: string): Promise<WalletRecord | null>;
+  getAll(): Promise<WalletRecord[]>;
+  getByEmployerId(employerId: string): Promise<WalletRecord | null>;
+  getByUserId(userId: string): Promise<WalletRecord | null>;
+  /** Intermediaries get their user-level wallet, everyone else the employer wallet */
+  getForUser(user: UserRecord): Promise<WalletRecord | null>;
+  createForEmployer(employerId: string): Promise<WalletRecord>;
+  createForUser(userId: string): Promise<WalletRecord>;
+  deleteByEmployerId(employerId: string): Promise<void>;
+  /** Overwrite balance counters (ledger rollback and reconciliation only) */
+  updateTotals(walletId: string, fields: WalletTotalsUpdate): Promise<WalletRecord>;
+  addCredits(walletId: string, creditsAmount: number): Promise<WalletRecord>;
+  deductCredits(walletId: string, creditsAmount: number): Promise<WalletRecord>;
+  spendCreditsWithFIFO(employerId: string, walletId: string, amount: number): Promise<FIFOSpendResult>;
+  getActiveCreditBatches(employerId: string): Promise<CreditBatch[]>;
+  getActiveCreditBatchesByWalletId(walletId: string): Promise<CreditBatch[]>;
+  getExpiringCredits(employerId: string, withinDays?: number): Promise<ExpiringCreditsSummary>;
+  /** Batches of all wallets expiring within the window that have not had a reminder yet */
+  getExpiringCreditBatches(withinDays: number): Promise<CreditBatch[]>;
+  getExpiredCreditBatches(): Promise<CreditBatch[]>;
+  processExpiredCreditBatch(batch: CreditBatch): Promise<ExpiredBatchResult>;
+}
+
+export interface TransactionRepository {
+  getById(id: string): Promise<TransactionRecord | null>;
+  getByWalletId(walletId: string): Promise<TransactionRecord[]>;
+  getByEmployerId(employerId: string): Promise<TransactionRecord[]>;
+  /** Only spend transactions in the vacancy, boost and included contexts */
+  getByVacancyId(vacancyId: string): Promise<TransactionRecord[]>;
+  /** Ignores failed and refunded transactions, so an undone charge can be made again */
+  getByIdempotencyKey(key: string): Promise<TransactionRecord | null>;
+  /** Highest invoice (or credit note) number with the given prefix (e.g. "CJ2026-"), null if none yet */
+  getLatestInvoiceNumber(prefix: string, field?: InvoiceNumberField): Promise<string | null>;
+  /** All transactions holding the number; more than one means a numbering conflict */
+  getByInvoiceNumber(number: string, field?: InvoiceNumberField): Promise<TransactionRecord[]>;
+  createPurchase(fields: CreatePurchaseTransactionInput): Promise<TransactionRecord>;
+  createSpend(fields: CreateSpendTransactionInput): Promise<TransactionRecord>;
+  createInvoice(fields: CreateInvoiceTransactionInput): Promise<TransactionRecord>;
+  createRefund(fields: CreateRefundTransactionInput): Promise<TransactionRecord>;
+  /** One side of a wallet transfer (signed total_credits) */
+  createAdjustment(fields: CreateAdjustmentTransactionInput): Promise<TransactionRecord>;
+  updateRemainingCredits(transactionId: string, newRemainingCredits: number): Promise<void>;
+  update(id: string, fields: TransactionUpdate): Promise<TransactionRecord>;
+}
+
+export interface VacancyRepository {
+  getById(id: string): Promise<VacancyRecord | null>;
+  getByEmployerId(
+    employerId: string,
+    options?: { status?: VacancyStatus | VacancyStatus[] }
+  ): Promise<VacancyRecord[]>;
+  /** Status "gepubliceerd" with closing_date before today (oldest first) */
+  getExpired(): Promise<VacancyRecord[]>;
+  /** Status "gepubliceerd" closing within withinDays, no expiry warning sent yet */
+  getClosingSoon(withinDays: number): Promise<VacancyRecord[]>;
+  /** Status "wacht_op_goedkeuring" (oldest submission first) */
+  getAwaitingApproval(): Promise<VacancyRecord[]>;
+  /** Status "ingepland" with publish_from reached (oldest first) */
+  getDueForPublication(): Promise<VacancyRecord[]>;
+  /** Status "gepubliceerd" with depublish_at reached (oldest first) */
+  getDueForDepublication(): Promise<VacancyRecord[]>;
+  /** Flagged with needs_webflow_sync or needs_webflow_archive (least recently updated first) */
+  getNeedingWebflowSync(): Promise<VacancyRecord[]>;
+  /** Status "gepubliceerd", not opted out of the job feeds (most recently published first); throws on failure */
+  getSyndicated(): Promise<VacancyRecord[]>;
+  /** Vacancy whose slug or previous_slugs contains slug */
+  getBySlug(slug: string): Promise<VacancyRecord | null>;
+  create(fields: CreateVacancyInput): Promise<VacancyRecord>;
+  update(id: string, fields: VacancyUpdate): Promise<VacancyRecord>;
+  delete(id: string): Promise<void>;
+}
+
+export interface MediaAssetRepository {
+  getById(id: string): Promise<MediaAssetRecord | null>;
+  getByIds(ids: string[]): Promise<MediaAssetRecord[]>;
+  getByEmployerId(
+    employerId: string,
+    options?: { type?: MediaAssetRecord["type"]; includeDeleted?: boolean }
+  ): Promise<MediaAssetRecord[]>;
+  create(fields: CreateMediaAssetInput): Promise<MediaAssetRecord>;
+  update(id: string, fields: Partial<Omit<MediaAssetRecord, "id" | "employer_id">>): Promise<MediaAssetRecord>;
+  /** Soft delete (sets is_deleted) */
+  delete(id: string): Promise<void>;
+}
+
+export interface FAQRepository {
+  getById(id: string): Promise<FAQRecord | null>;
+  getByEmployerId(employerId: string): Promise<FAQRecord[]>;
+  getBySlug(slug: string): Promise<FAQRecord | null>;
+  create(fields: CreateFAQInput): Promise<FAQRecord>;
+  update(id: string, fields: Partial<Omit<FAQRecord, "id" | "employer_id">>): Promise<FAQRecord>;
+  delete(id: string): Promise<void>;
+}
+
+export interface ProductRepository {
+  getById(id: string): Promise<ProductRecord | null>;
+  getActiveByType(type: ProductRecord["type"]): Promise<ProductRecord[]>;
+  getActiveByTypeAndRole(type: ProductRecord["type"], roleId: string): Promise<ProductRecord[]>;
+  getCreditExpiryWarningDays(): Promise<number>;
+  getAllActiveFeatures(): Promise<FeatureRecord[]>;
+  getFeaturesByIds(ids: string[]): Promise<FeatureRecord[]>;
+  setWebflowItemId(id: string, webflowItemId: string): Promise<void>;
+  setFeatureWebflowItemId(id: string, webflowItemId: string): Promise<void>;
+}
+
+export interface LookupRepository {
+  getAll(): Promise<AllLookups>;
+  getEducationLevels(): Promise<LookupRecord[]>;
+  getFields(): Promise<LookupRecord[]>;
+  getFunctionTypes(): Promise<LookupRecord[]>;
+  getRegions(): Promise<LookupRecord[]>;
+  getSectors(): Promise<LookupRecord[]>;
+  getSectorById(id: string): Promise<LookupRecord | null>;
+  setWebflowFields(type: LookupType, id: string, fields: LookupWebflowFields): Promise<void>;
+}
+
+export interface SubscriptionRepository {
+  getById(id: string): Promise<SubscriptionRecord | null>;
+  /** Newest first */
+  getByWalletId(walletId: string): Promise<SubscriptionRecord[]>;
+  /** Active and cancelled subscriptions whose next_renewal_at has passed */
+  getDue(): Promise<SubscriptionRecord[]>;
+  create(fields: CreateSubscriptionInput): Promise<SubscriptionRecord>;
+  update(id: string, fields: SubscriptionUpdate): Promise<SubscriptionRecord>;
+}
+
+export interface PromoCodeRepository {
+  /** Case-insensitive */
+  getByCode(code: string): Promise<PromoCodeRecord | null>;
+  /** Purchases that used the code (failed/refunded excluded), optionally within one wallet */
+  countRedemptions(code: string, walletId?: string): Promise<number>;
+}
+
+export interface VacancyTemplateRepository {
+  getById(id: string): Promise<VacancyTemplateRecord | null>;
+  /** Sorted by name */
+  getByEmployerId(employerId: string): Promise<VacancyTemplateRecord[]>;
+  create(fields: CreateVacancyTemplateInput): Promise<VacancyTemplateRecord>;
+  delete(id: string): Promise<void>;
+}
+
+export interface VacancyRevisionRepository {
+  getById(id: string): Promise<VacancyRevisionRecord | null>;
+  /** Newest first */
+  getByVacancyId(vacancyId: string): Promise<VacancyRevisionRecord[]>;
+  create(fields: CreateVacancyRevisionInput): Promise<VacancyRevisionRecord>;
+  /** Replaces the snapshot and bumps updated-at */
+  updateContent(id: string, contentJson: string): Promise<VacancyRevisionRecord>;
+}
+
+export interface VacancyReviewRepository {
+  /** Newest round first */
+  getByVacancyId(vacancyId: string): Promise<VacancyReviewRecord[]>;
+  /** Starts an open round */
+  create(fields: CreateVacancyReviewInput): Promise<VacancyReviewRecord>;
+  update(id: string, fields: VacancyReviewUpdate): Promise<VacancyReviewRecord>;
+}
+
+export interface JobRunRepository {
+  /** Starts a run with status "running" */
+  create(fields: { job: JobRunRecord["job"]; dry_run: boolean }): Promise<JobRunRecord>;
+  update(id: string, fields: JobRunUpdate): Promise<JobRunRecord>;
+  /** Newest first */
+  getRecent(job: JobRunRecord["job"], limit?: number): Promise<JobRunRecord[]>;
+}
+
+export interface SessionRepository {
+  create(userId: string, sessionToken: string, expires: Date): Promise<SessionRecord>;
+}
+
+/**
+ * All storage access used by the API routes, grouped per entity
+ */
+export interface Repositories {
+  users: UserRepository;
+  employers: EmployerRepository;
+  wallets: WalletRepository;
+  transactions: TransactionRepository;
+  vacancies: VacancyRepository;
+  mediaAssets: MediaAssetRepository;
+  faq: FAQRepository;
+  products: ProductRepository;
+  lookups: LookupRepository;
+  sessions: SessionRepository;
+  jobRuns: JobRunRepository;
+  subscriptions: SubscriptionRepository;
+  promoCodes: PromoCodeRepository;
+  vacancyTemplates: VacancyTemplateRepository;
+  vacancyRevisions: VacancyRevisionRepository;
+  vacancyReviews: VacancyReviewRepository;
+}
@@ -0,0 +1,564 @@
+import { z } from "zod";
+import type { EmployerRecord, LookupRecord, LookupType, VacancyRecord } from "@/lib/airtable";
+import { repositories } from "@/lib/repositories";
+import { getErrorMessage } from "@/lib/utils";
+
+/**
+ * SEO title and meta description for vacancies, employers and lookups
+ * (prd-n8n-webflow-sync.md, "SEO Content (AI)")
+ *
+ * Texts come from a provider: the template provider builds them from the record and
+ * works offline; the LLM provider (SEO_PROVIDER=llm with ANTHROPIC_API_KEY) writes them
+ * with Claude and falls back to the templates. Texts are generated once, stored on the
+ * record and only regenerated when they are cleared. Employers can override the texts
+ * of a vacancy (seo_custom), which are then kept as written.
+ */
+
+export const SEO_TITLE_LENGTH = { min: 50, max: 60 };
+export const SEO_META_DESCRIPTION_LENGTH = { min: 150, max: 160 };
+
+const BRAND = "Colourful jobs";
+
+const ANTHROPIC_API_URL = "https://api.anthropic.com/v1/messages";
+const ANTHROPIC_VERSION = "2023-06-01";
+const DEFAULT_LLM_MODEL = "claude-sonnet-4-20250514";
+const LLM_TIMEOUT_MS = 20000;
+
+/**
+ * Fillers that pad a text into the length bounds, appended after the subject's own fillers
+ * Their lengths vary so that any gap up to the minimum can be closed within the 10 character margin.
+ */
+const TITLE_FILLERS = [
+  ` | ${BRAND}`,
+  " | Inclusief werk",
+  " | Solliciteer direct",
+  " | Nieuwe baan",
+  " | Vacatures",
+  " | Werk",
+];
+const META_DESCRIPTION_FILLERS = [
+  " Werk bij een inclusieve werkgever.",
+  " Elke week nieuwe vacatures.",
+  " Jouw talent telt.",
+  " Jij bent welkom.",
+  " Kijk snel!",
+];
+
+/** Vacancy fields the texts are built from: changing one regenerates them */
+export const VACANCY_SEO_SOURCE_FIELDS = ["title", "location", "function_type_id", "intro_txt"] as const;
+
+export interface SeoTexts {
+  seo_title: string;
+  seo_meta_description: string;
+}
+
+export type SeoSubject =
+  | {
+      type: "vacancy";
+      title: string;
+      employerName: string | null;
+      location: string | null;
+      functionType: string | null;
+      intro: string | null;
+    }
+  | {
+      type: "employer";
+      name: string;
+      location: string | null;
+      sector: string | null;
+      description: string | null;
+    }
+  | {
+      type: "lookup";
+      lookupType: LookupType;
+      name: string;
+    };
+
+export interface SeoTextProvider {
+  name: string;
+  generate(subject: SeoSubject): Promise<SeoTexts>;
+}
+
+export type SeoUpdateResult =
+  | { success: true; vacancy: VacancyRecord }
+  | { success: false; error: string };
+
+// ============================================
+// LENGTH BOUNDS
+// ============================================
+
+function normalizeText(value: string | null | undefined): string {
+  return (value || "")
+    .replace(/<[^>]*>/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/** Cut at the last word that fits and end with an ellipsis */
+function truncateAtWord(text: string, max: number): string {
+  if (text.length <= max) return text;
+  const cut = text.slice(0, max - 1);
+  const lastSpace = cut.lastIndexOf(" ");
+  const words = lastSpace > max / 2 ? cut.slice(0, lastSpace) : cut;
+  return `${words.replace(/[\s,.;:|-]+$/, "")}…`;
+}
+
+/** Whether a filler repeats a phrase of the text (compared on its first words) */
+function repeatsPhrase(text: string, filler: string): boolean {
+  const words = (value: string) => value.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, " ").trim();
+  const opening = words(filler).split(" ").slice(0, 3).join(" ");
+  return !!opening && ` ${words(text)} `.includes(` ${opening} `);
+}
+
+/**
+ * Append fillers (each at most once, in order, skipping ones that repeat the text)
+ * until the text is within the bounds; null when no combination fits
+ */
+function padToBounds(text: string, fillers: string[], bounds: { min: number; max: number }): string | null {
+  if (text.length >= bounds.min) {
+    return text.length <= bounds.max ? text : null;
+  }
+  for (let i = 0; i < fillers.length; i++) {
+    const filler = fillers[i];
+    if (text.length + filler.length > bounds.max || repeatsPhrase(text, filler)) continue;
+    const padded = padToBounds(text + filler, fillers.slice(i + 1), bounds);
+    if (padded) return padded;
+  }
+  return null;
+}
+
+/**
+ * First candidate within the bounds, otherwise the first candidate that can be padded
+ * with fillers into the bounds, otherwise the first candidate with all fillers cut at
+ * the maximum. Both bounds hold as long as the fillers together reach the minimum.
+ */
+function fitSeoText(
+  candidates: (string | null)[],
+  bounds: { min: number; max: number },
+  fillers: string[] = []
+): string {
+  const texts = candidates.map(normalizeText).filter(Boolean);
+  const fitting = texts.filter((text) => text.length <= bounds.max);
+
+  const inBounds = fitting.find((text) => text.length >= bounds.min);
+  if (inBounds) return inBounds;
+
+  for (const text of fitting) {
+    const padded = padToBounds(text, fillers, bounds);
+    if (padded) return padded;
+  }
+
+  let text = texts[0] || BRAND;
+  for (const filler of fillers) {
+    if (text.length < bounds.max && !repeatsPhrase(text, filler)) text += filler;
+  }
+  const cut = truncateAtWord(text, bounds.max);
+  // A long last word can leave the word cut under the minimum: cut within the word
+  return cut.length >= bounds.min ? cut : `${text.slice(0, bounds.max - 1).trimEnd()}…`;
+}
+
+/**
+ * Dutch error for texts outside the length bounds, null when they fit
+ */
+export function checkSeoTexts(texts: SeoTexts): string | null {
+  const title = texts.seo_title.trim();
+  const description = texts.seo_meta_description.trim();
+  if (title.length < SEO_TITLE_LENGTH.min || title.length > SEO_TITLE_LENGTH.max) {
+    return `De SEO-titel moet ${SEO_TITLE_LENGTH.min} tot ${SEO_TITLE_LENGTH.max} tekens lang zijn (nu ${title.length})`;
+  }
+  if (description.length < SEO_META_DESCRIPTION_LENGTH.min || description.length > SEO_META_DESCRIPTION_LENGTH.max) {
+    return `De metabeschrijving moet ${SEO_META_DESCRIPTION_LENGTH.min} tot ${SEO_META_DESCRIPTION_LENGTH.max} tekens lang zijn (nu ${description.length})`;
+  }
+  return null;
+}
+
+// ============================================
+// TEMPLATE PROVIDER
+// ============================================
+
+/** First sentence of a text, for the meta description */
+function firstSentence(value: string | null | undefined): string | null {
+  const text = normalizeText(value);
+  if (!text) return null;
+  const match = text.match(/^.+?[.!?](?=\s|$)/);
+  return match ? match[0] : `${text}.`;
+}
+
+/** How a lookup is named in a sentence, e.g. "in de regio Utrecht" */
+function describeLookup(lookupType: LookupType, name: string): string {
+  switch (lookupType) {
+    case "regions":
+      return `in de regio ${name}`;
+    case "sectors":
+      return `in de sector ${name}`;
+    case "fields":
+      return `in het vakgebied ${name}`;
+    case "educationLevels":
+      return `op ${name}-niveau`;
+    case "functionTypes":
+      return `voor een ${name.toLowerCase()} dienstverband`;
+  }
+}
+
+function buildTemplateTexts(subject: SeoSubject): SeoTexts {
+  switch (subject.type) {
+    case "vacancy": {
+      const { title, employerName: employer, location, functionType } = subject;
+      const lead = [
+        `Vacature ${title}`,
+        employer && ` bij ${employer}`,
+        location && ` in ${location}`,
+        functionType && ` (${functionType.toLowerCase()})`,
+        ".",
+      ].filter(Boolean).join("");
+      const intro = firstSentence(subject.intro);
+
+      return {
+        seo_title: fitSeoText(
+          [
+            employer && location ? `${title} bij ${employer} in ${location}` : null,
+            employer ? `${title} bij ${employer} | ${BRAND}` : null,
+            location ? `${title} in ${location} | ${BRAND}` : null,
+            `Vacature ${title} | ${BRAND}`,
+            `Vacature ${title} | Solliciteer direct | ${BRAND}`,
+            title,
+          ],
+          SEO_TITLE_LENGTH,
+          [" | Vacature", ...TITLE_FILLERS]
+        ),
+        seo_meta_description: fitSeoText(
+          [
+            intro ? `${lead} ${intro} Solliciteer direct via ${BRAND}.` : null,
+            intro ? `${lead} ${intro}` : null,
+            `${lead} Bekijk de vacature en solliciteer direct via ${BRAND}.`,
+            lead,
+          ],
+          SEO_META_DESCRIPTION_LENGTH,
+          [
+            ` Solliciteer direct via ${BRAND}.`,
+            " Bekijk de vacature en reageer vandaag nog.",
+            " Ontdek wat deze baan jou te bieden heeft.",
+            ...META_DESCRIPTION_FILLERS,
+          ]
+        ),
+      };
+    }
+
+    case "employer": {
+      const { name, location, sector } = subject;
+      const lead = [
+        `${name} is een werkgever`,
+        sector && ` in de sector ${sector.toLowerCase()}`,
+        location && ` in ${location}`,
+        ".",
+      ].filter(Boolean).join("");
+      const description = firstSentence(subject.description);
+
+      return {
+        seo_title: fitSeoText(
+          [
+            location ? `Werken bij ${name} in ${location} | ${BRAND}` : null,
+            `Werken bij ${name} | Vacatures | ${BRAND}`,
+            `Werken bij ${name} | ${BRAND}`,
+            `Werken bij ${name}`,
+          ],
+          SEO_TITLE_LENGTH,
+          TITLE_FILLERS
+        ),
+        seo_meta_description: fitSeoText(
+          [
+            description ? `${description} Bekijk de vacatures van ${name} op ${BRAND}.` : null,
+            `${lead} Bekijk de vacatures van ${name} en solliciteer direct via ${BRAND}.`,
+            lead,
+          ],
+          SEO_META_DESCRIPTION_LENGTH,
+          [
+            ` Ontdek hoe het is om bij ${name} te werken.`,
+            ` Solliciteer direct via ${BRAND}.`,
+            ...META_DESCRIPTION_FILLERS,
+          ]
+        ),
+      };
+    }
+
+    case "lookup": {
+      const { lookupType, name } = subject;
+      const described = describeLookup(lookupType, name);
+
+      return {
+        seo_title: fitSeoText(
+          lookupType === "regions"
+            ? [`Vacatures in ${name} | Inclusief werk | ${BRAND}`, `Vacatures in ${name} | ${BRAND}`, `Vacatures in ${name}`]
+            : [`${name} vacatures | Inclusief werk | ${BRAND}`, `${name} vacatures | ${BRAND}`, `${name} vacatures`],
+          SEO_TITLE_LENGTH,
+          TITLE_FILLERS
+        ),
+        seo_meta_description: fitSeoText(
+          [`Bekijk alle vacatures ${described} op ${BRAND}, het vacatureplatform voor inclusieve werkgevers.`],
+          SEO_META_DESCRIPTION_LENGTH,
+          [
+            " Vind jouw nieuwe baan en solliciteer direct.",
+            ...META_DESCRIPTION_FILLERS,
+          ]
+        ),
+      };
+    }
+  }
+}
+
+/**
+ * Template texts; they are within the length bounds checkSeoTexts enforces on employer texts
+ */
+function generateTemplateTexts(subject: SeoSubject): SeoTexts {
+  const texts = buildTemplateTexts(subject);
+  const error = checkSeoTexts(texts);
+  if (error) {
+    console.warn(`[SEO] Template texts out of bounds for ${subject.type} "${"title" in subject ? subject.title : subject.name}": ${error}`);
+  }
+  return texts;
+}
+
+export const templateSeoProvider: SeoTextProvider = {
+  name: "template",
+  async generate(subject) {
+    return generateTemplateTexts(subject);
+  },
+};
+
+// ============================================
+// LLM PROVIDER
+// ============================================
+
+const llmResponseSchema = z.object({
+  seo_title: z.string(),
+  seo_meta_description: z.string(),
+});
+
+/** Prompts of prd-n8n-webflow-sync.md, with the length bounds of this module */
+function buildSeoPrompt(subject: SeoSubject): string {
+  const instructions = [
+    `1. seo_title (${SEO_TITLE_LENGTH.min}-${SEO_TITLE_LENGTH.max} karakters)`,
+    `2. seo_meta_description (${SEO_META_DESCRIPTION_LENGTH.min}-${SEO_META_DESCRIPTION_LENGTH.max} karakters)`,
+  ];
+  const answer = 'Antwoord in JSON: { "seo_title": "...", "seo_meta_description": "..." }';
+
+  switch (subject.type) {
+    case "vacancy":
+      return [
+        `Je bent een Nederlandse SEO-copywriter voor ${BRAND}, een inclusief vacatureplatform.`,
+        "",
+        "Genereer SEO-teksten voor deze vacature:",
+        `- Functie: ${subject.title}`,
+        `- Werkgever: ${subject.employerName || "-"}`,
+        `- Locatie: ${subject.location || "-"}`,
+        `- Dienstverband: ${subject.functionType || "-"}`,
+        `- Samenvatting: ${normalizeText(subject.intro) || "-"}`,
+        "",
+        `${instructions[0]}: Pakkende titel met functienaam en werkgever/locatie.`,
+        `${instructions[1]}: Wervende beschrijving die aanzet tot klikken. Benoem de functie, werkgever, en wat het bijzonder maakt.`,
+        "",
+        answer,
+      ].join("\n");
+    case "employer":
+      return [
+        `Je bent een Nederlandse SEO-copywriter voor ${BRAND}.`,
+        "",
+        `Genereer SEO-teksten voor werkgever "${subject.name}":`,
+        `- Sector: ${subject.sector || "-"}`,
+        `- Locatie: ${subject.location || "-"}`,
+        `- Beschrijving: ${normalizeText(subject.description) || "-"}`,
+        "",
+        `${instructions[0]}: "Werken bij ${subject.name} | ${BRAND}"`,
+        `${instructions[1]}: Beschrijf het bedrijf en waarom kandidaten er willen werken.`,
+        "",
+        answer,
+      ].join("\n");
+    case "lookup":
+      return [
+        `Je bent een Nederlandse SEO-copywriter voor ${BRAND}, een inclusief vacatureplatform.`,
+        "",
+        `Genereer voor de filterpagina met vacatures ${describeLookup(subject.lookupType, subject.name)} de volgende teksten in het Nederlands:`,
+        "",
+        `${instructions[0]}: Pakkende paginatitel voor zoekmachines.`,
+        `${instructions[1]}: Korte, uitnodigende beschrijving voor zoekresultaten. Benoem het type vacatures en ${BRAND}.`,
+        "",
+        answer,
+      ].join("\n");
+  }
+}
+
+function isWithin(text: string, bounds: { min: number; max: number }): boolean {
+  return text.length >= bounds.min && text.length <= bounds.max;
+}
+
+/**
+ * Claude via the Anthropic Messages API
+ * A text outside the length bounds is replaced by the template text
+ */
+export function createLlmSeoProvider(apiKey: string, model: string = DEFAULT_LLM_MODEL): SeoTextProvider {
+  return {
+    name: "llm",
+    async generate(subject) {
+      const response = await fetch(ANTHROPIC_API_URL, {
+        method: "POST",
+        headers: {
+          "x-api-key": apiKey,
+          "anthropic-version": ANTHROPIC_VERSION,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          model,
+          max_tokens: 400,
+          messages: [{ role: "user", content: buildSeoPrompt(subject) }],
+        }),
+        signal: AbortSignal.timeout(LLM_TIMEOUT_MS),
+      });
+
+      if (!response.ok) {
+        const text = await response.text().catch(() => "");
+        throw Object.assign(new Error(`Anthropic API error ${response.status}: ${text || response.statusText}`), {
+          statusCode: response.status,
+        });
+      }
+
+      const data = (await response.json()) as { content?: { type: string; text?: string }[] };
+      const text = (data.content || []).map((block) => block.text || "").join("");
+      const json = text.match(/\{[\s\S]*\}/);
+      if (!json) {
+        throw new Error("No JSON in the SEO response");
+      }
+      const parsed = llmResponseSchema.parse(JSON.parse(json[0]));
+
+      const fallback = generateTemplateTexts(subject);
+      const title = normalizeText(parsed.seo_title);
+      const description = normalizeText(parsed.seo_meta_description);
+      return {
+        seo_title: isWithin(title, SEO_TITLE_LENGTH) ? title : fallback.seo_title,
+        seo_meta_description: isWithin(description, SEO_META_DESCRIPTION_LENGTH) ? description : fallback.seo_meta_description,
+      };
+    },
+  };
+}
+
+/**
+ * The configured provider: the LLM provider with SEO_PROVIDER=llm and ANTHROPIC_API_KEY,
+ * otherwise the template provider (model: SEO_LLM_MODEL)
+ */
+export function getSeoProvider(): SeoTextProvider {
+  const apiKey = process.env.ANTHROPIC_API_KEY;
+  if (process.env.SEO_PROVIDER === "llm" && apiKey) {
+    return createLlmSeoProvider(apiKey, process.env.SEO_LLM_MODEL || DEFAULT_LLM_MODEL);
+  }
+  return templateSeoProvider;
+}
+
+/**
+ * Generate SEO texts; a failing provider falls back to the template provider
+ */
+export async function generateSeoTexts(
+  subject: SeoSubject,
+  provider: SeoTextProvider = getSeoProvider()
+): Promise<SeoTexts> {
+  if (provider === templateSeoProvider) {
+    return generateTemplateTexts(subject);
+  }
+  try {
+    return await provider.generate(subject);
+  } catch (error: unknown) {
+    console.error(`[SEO] ${provider.name} provider failed, using templates:`, getErrorMessage(error));
+    return generateTemplateTexts(subject);
+  }
+}
+
+// ============================================
+// RECORDS
+// ============================================
+
+async function getVacancySeoSubject(vacancy: VacancyRecord, employer: EmployerRecord | null): Promise<SeoSubject> {
+  const functionTypes = vacancy.function_type_id ? await repositories.lookups.getFunctionTypes() : [];
+  return {
+    type: "vacancy",
+    title: vacancy.title || "Vacature",
+    employerName: employer ? employer.display_name || employer.company_name || null : null,
+    location: vacancy.location || null,
+    functionType: functionTypes.find((ft) => ft.id === vacancy.function_type_id)?.name || null,
+    intro: vacancy.intro_txt || null,
+  };
+}
+
+/**
+ * The vacancy's SEO texts, generated and stored when missing
+ */
+export async function ensureVacancySeo(vacancy: VacancyRecord, employer: EmployerRecord | null): Promise<SeoTexts> {
+  if (vacancy.seo_title && vacancy.seo_meta_description) {
+    return { seo_title: vacancy.seo_title, seo_meta_description: vacancy.seo_meta_description };
+  }
+
+  const texts = await generateSeoTexts(await getVacancySeoSubject(vacancy, employer));
+  await repositories.vacancies.update(vacancy.id, texts);
+  return texts;
+}
+
+/**
+ * Store SEO texts written by the employer; they are kept on later edits
+ * A published vacancy is flagged for the Webflow sync
+ */
+export async function setCustomVacancySeo(vacancy: VacancyRecord, texts: SeoTexts): Promise<SeoUpdateResult> {
+  const seoTexts = {
+    seo_title: normalizeText(texts.seo_title),
+    seo_meta_description: normalizeText(texts.seo_meta_description),
+  };
+  const error = checkSeoTexts(seoTexts);
+  if (error) {
+    return { success: false, error };
+  }
+
+  const updated = await repositories.vacancies.update(vacancy.id, {
+    ...seoTexts,
+    seo_custom: true,
+    ...(vacancy.webflow_item_id && { needs_webflow_sync: true }),
+  });
+  return { success: true, vacancy: updated };
+}
+
+/**
+ * Replace the vacancy's SEO texts with generated ones
+ */
+export async function resetVacancySeo(vacancy: VacancyRecord, employer: EmployerRecord | null): Promise<VacancyRecord> {
+  const texts = await generateSeoTexts(await getVacancySeoSubject(vacancy, employer));
+  return repositories.vacancies.update(vacancy.id, {
+    ...texts,
+    seo_custom: false,
+    ...(vacancy.webflow_item_id && { needs_webflow_sync: true }),
+  });
+}
+
+/**
+ * The employer's SEO texts, generated and stored when missing
+ */
+export async function ensureEmployerSeo(employer: EmployerRecord): Promise<SeoTexts> {
+  if (employer.seo_title && employer.seo_meta_description) {
+    return { seo_title: employer.seo_title, seo_meta_description: employer.seo_meta_description };
+  }
+
+  const sector = employer.sector?.[0] ? await repositories.lookups.getSectorById(employer.sector[0]) : null;
+  const texts = await generateSeoTexts({
+    type: "employer",
+    name: employer.display_name || employer.company_name || "Werkgever",
+    location: employer.location || null,
+    sector: sector?.name || null,
+    description: employer.short_description || null,
+  });
+  await repositories.employers.update(employer.id, texts);
+  return texts;
+}
+
+/**
+ * SEO texts for a lookup record: the stored ones, or newly generated (not stored here)
+ */
+export async function getLookupSeo(type: LookupType, record: LookupRecord): Promise<SeoTexts> {
+  if (record.seo_title && record.seo_meta_description) {
+    return { seo_title: record.seo_title, seo_meta_description: record.seo_meta_description };
+  }
+  return generateSeoTexts({ type: "lookup", lookupType: type, name: record.name });
+}
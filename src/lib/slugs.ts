@@ -0,0 +1,247 @@
+import type { EmployerRecord, FAQRecord, LookupRecord, VacancyRecord } from "@/lib/airtable";
+import { repositories } from "@/lib/repositories";
+
+/**
+ * URL slugs for the Webflow collections (vacancies, employers, FAQs, lookups)
+ *
+ * A slug is derived from the title or name once, stored on the record (slug) and
+ * never regenerated, so title edits don't change published URLs. Slugs are unique
+ * per collection: on a clash the company name is appended (prd-n8n-webflow-sync.md,
+ * "Slug uniciteit"), then a number. The same input always gives the same slug.
+ *
+ * A vacancy slug can be changed on purpose (changeVacancySlug); the old slug moves
+ * to previous_slugs, keeps redirecting to the current URL and is never given to
+ * another vacancy.
+ */
+
+export const SLUG_MAX_LENGTH = 100;
+
+/** Base URL of the public website */
+export const WEBSITE_URL = (process.env.WEBSITE_URL || "https://www.colourfuljobs.nl").replace(/\/+$/, "");
+
+const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+/** Numbered suffixes tried after the company name, before giving up */
+const MAX_SLUG_NUMBER = 100;
+
+/** Letters that Unicode normalization doesn't turn into ASCII */
+const TRANSLITERATIONS: Record<string, string> = {
+  "ß": "ss",
+  "æ": "ae",
+  "œ": "oe",
+  "ø": "o",
+  "ł": "l",
+  "đ": "d",
+  "ð": "d",
+  "þ": "th",
+  "&": " en ",
+  "+": " plus ",
+  "@": " at ",
+};
+
+export type SlugChangeResult =
+  | { success: true; vacancy: VacancyRecord }
+  | { success: false; error: string };
+
+// ============================================
+// SLUG FORMAT
+// ============================================
+
+/**
+ * Lowercase kebab-case slug with diacritics transliterated
+ * e.g. "Coördinator Zorg & Welzijn (32 uur)" → "coordinator-zorg-en-welzijn-32-uur"
+ */
+export function toSlug(value: string): string {
+  return value
+    .normalize("NFKD") // ë → e + ¨, ĳ → ij
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[ßæœøłđðþ&+@]/g, (char) => TRANSLITERATIONS[char])
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, SLUG_MAX_LENGTH)
+    .replace(/-+$/, "");
+}
+
+export function isValidSlug(slug: string): boolean {
+  return slug.length <= SLUG_MAX_LENGTH && SLUG_PATTERN.test(slug);
+}
+
+/** Append a suffix, shortening the base so the suffix always fits */
+function withSuffix(base: string, suffix: string): string {
+  const trimmed = base.slice(0, SLUG_MAX_LENGTH - suffix.length - 1).replace(/-+$/, "");
+  return trimmed ? `${trimmed}-${suffix}` : suffix;
+}
+
+/**
+ * Slugs to try, in order: name, name-qualifier, name-qualifier-2, name-qualifier-3, ...
+ */
+export function* getSlugCandidates(name: string, qualifier?: string | null): Generator<string> {
+  const base = toSlug(name) || "item";
+  yield base;
+
+  const qualifierSlug = qualifier ? toSlug(qualifier) : "";
+  const qualified = qualifierSlug && qualifierSlug !== base ? withSuffix(base, qualifierSlug) : base;
+  if (qualified !== base) yield qualified;
+
+  for (let n = 2; n <= MAX_SLUG_NUMBER; n++) {
+    yield withSuffix(qualified, String(n));
+  }
+}
+
+/**
+ * First candidate that isn't taken (see getSlugCandidates)
+ */
+export async function findUniqueSlug(
+  name: string,
+  qualifier: string | null | undefined,
+  isTaken: (slug: string) => boolean | Promise<boolean>
+): Promise<string> {
+  for (const candidate of getSlugCandidates(name, qualifier)) {
+    if (!(await isTaken(candidate))) return candidate;
+  }
+  throw new Error(`No unique slug available for "${name}"`);
+}
+
+/**
+ * previous_slugs is stored as a JSON string array
+ */
+export function parsePreviousSlugs(value: string | null | undefined): string[] {
+  if (!value) return [];
+  try {
+    const parsed: unknown = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed.filter((slug): slug is string => typeof slug === "string") : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * URL of a vacancy on the website
+ */
+export function getVacancyPublicUrl(slug: string): string {
+  return `${WEBSITE_URL}/vacatures/${slug}`;
+}
+
+/** Slug in a public_url set before slugs were stored (n8n sync) */
+function getSlugFromPublicUrl(publicUrl: string | null | undefined): string | null {
+  if (!publicUrl) return null;
+  try {
+    const slug = new URL(publicUrl).pathname.split("/").filter(Boolean).pop() || "";
+    return isValidSlug(slug) ? slug : null;
+  } catch {
+    return null;
+  }
+}
+
+// ============================================
+// ASSIGN SLUGS
+// ============================================
+
+/**
+ * The vacancy's slug, assigned and stored on first use
+ * A vacancy that was already published keeps the slug of its public_url
+ */
+export async function ensureVacancySlug(vacancy: VacancyRecord, employer: EmployerRecord | null): Promise<string> {
+  if (vacancy.slug) return vacancy.slug;
+
+  const slug = getSlugFromPublicUrl(vacancy.public_url) || await findUniqueSlug(
+    vacancy.title || "vacature",
+    employer ? employer.display_name || employer.company_name : null,
+    async (candidate) => {
+      const owner = await repositories.vacancies.getBySlug(candidate);
+      return !!owner && owner.id !== vacancy.id;
+    }
+  );
+  await repositories.vacancies.update(vacancy.id, { slug });
+  return slug;
+}
+
+/**
+ * The employer's slug, assigned and stored on first use (qualifier: location)
+ */
+export async function ensureEmployerSlug(employer: EmployerRecord): Promise<string> {
+  if (employer.slug) return employer.slug;
+
+  const slug = await findUniqueSlug(
+    employer.display_name || employer.company_name || "werkgever",
+    employer.location,
+    async (candidate) => {
+      const owner = await repositories.employers.getBySlug(candidate);
+      return !!owner && owner.id !== employer.id;
+    }
+  );
+  await repositories.employers.update(employer.id, { slug });
+  return slug;
+}
+
+/**
+ * The FAQ's slug, assigned and stored on first use (qualifier: employer name)
+ */
+export async function ensureFAQSlug(faq: FAQRecord, employer: EmployerRecord): Promise<string> {
+  if (faq.slug) return faq.slug;
+
+  const slug = await findUniqueSlug(
+    faq.question || "faq",
+    employer.display_name || employer.company_name,
+    async (candidate) => {
+      const owner = await repositories.faq.getBySlug(candidate);
+      return !!owner && owner.id !== faq.id;
+    }
+  );
+  await repositories.faq.update(faq.id, { slug });
+  return slug;
+}
+
+/**
+ * Slug for a lookup record, unique among the records of its table (not stored here)
+ */
+export async function getLookupSlug(record: LookupRecord, records: LookupRecord[]): Promise<string> {
+  if (record.slug) return record.slug;
+  return findUniqueSlug(record.name, null, (candidate) =>
+    records.some((other) => other.id !== record.id && other.slug === candidate)
+  );
+}
+
+// ============================================
+// CHANGE & RESOLVE VACANCY SLUGS
+// ============================================
+
+/**
+ * Give a vacancy a new slug; the current one is kept in previous_slugs as a redirect
+ * A published vacancy is flagged for the Webflow sync, which moves the item and public_url
+ */
+export async function changeVacancySlug(vacancy: VacancyRecord, value: string): Promise<SlugChangeResult> {
+  const slug = toSlug(value);
+  if (!slug || !isValidSlug(slug)) {
+    return { success: false, error: "Ongeldige slug" };
+  }
+  if (slug === vacancy.slug) {
+    return { success: true, vacancy };
+  }
+
+  const owner = await repositories.vacancies.getBySlug(slug);
+  if (owner && owner.id !== vacancy.id) {
+    return { success: false, error: "Deze slug is al in gebruik door een andere vacature" };
+  }
+
+  // Taking back one of its own previous slugs removes that redirect
+  const previousSlugs = parsePreviousSlugs(vacancy.previous_slugs).filter((s) => s !== slug);
+  if (vacancy.slug) previousSlugs.push(vacancy.slug);
+
+  const updated = await repositories.vacancies.update(vacancy.id, {
+    slug,
+    previous_slugs: previousSlugs.length > 0 ? JSON.stringify(previousSlugs) : null,
+    ...(vacancy.webflow_item_id && { needs_webflow_sync: true }),
+  });
+  return { success: true, vacancy: updated };
+}
+
+/**
+ * The vacancy a slug belongs to, as its current or one of its previous slugs
+ */
+export async function resolveVacancySlug(slug: string): Promise<VacancyRecord | null> {
+  if (!isValidSlug(slug)) return null;
+  const vacancy = await repositories.vacancies.getBySlug(slug);
+  return vacancy?.slug ? vacancy : null;
+}
@@ -0,0 +1,156 @@
+import type { ProductRecord, SubscriptionRecord, TransactionRecord } from "@/lib/airtable";
+import { readInvoiceDetailsSnapshot } from "@/lib/invoice-numbers";
+import { purchaseCredits } from "@/lib/ledger";
+import { repositories } from "@/lib/repositories";
+
+/**
+ * Yearly credit bundle subscriptions
+ *
+ * Buying a bundle with billing_cycle "yearly" starts a subscription. On every
+ * anniversary the renewal job (/api/cron/renew-subscriptions) buys the bundle
+ * again: fresh credits with the product's validity_months and an open invoice.
+ * A cancelled subscription keeps running until its next anniversary and then ends.
+ */
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface StartSubscriptionInput {
+  transaction: TransactionRecord;
+  product: ProductRecord;
+  user_id: string;
+  employer_id?: string | null;
+  wallet_id: string;
+  invoice_details_snapshot: string;
+}
+
+export interface RenewalResult {
+  subscription: SubscriptionRecord;
+  /** skipped: not charged and left due, it is retried on the next run once fixed */
+  outcome: "renewed" | "ended" | "skipped";
+  transaction?: TransactionRecord;
+  /** Why the subscription ended (cancelled, product unavailable, wallet or user missing) or was skipped */
+  reason?: string;
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Same date one year later (Feb 29 becomes Feb 28)
+ */
+export function getNextRenewalDate(from: string | Date): string {
+  const date = new Date(from);
+  const originalDay = date.getDate();
+  date.setFullYear(date.getFullYear() + 1);
+  if (date.getDate() !== originalDay) {
+    date.setDate(0);
+  }
+  return date.toISOString();
+}
+
+export function isYearlyBundle(product: ProductRecord): boolean {
+  return product.type === "credit_bundle" && product.billing_cycle === "yearly";
+}
+
+async function endSubscription(subscription: SubscriptionRecord, reason: string): Promise<RenewalResult> {
+  const ended = await repositories.subscriptions.update(subscription.id, {
+    status: "ended",
+    ended_at: new Date().toISOString(),
+  });
+  return { subscription: ended, outcome: "ended", reason };
+}
+
+// ============================================
+// LIFECYCLE
+// ============================================
+
+/**
+ * Start a subscription for a just purchased yearly bundle and link the purchase to it
+ */
+export async function startSubscription(input: StartSubscriptionInput): Promise<SubscriptionRecord> {
+  const startedAt = input.transaction["created-at"] || new Date().toISOString();
+
+  const subscription = await repositories.subscriptions.create({
+    employer_id: input.employer_id ?? null,
+    wallet_id: input.wallet_id,
+    user_id: input.user_id,
+    product_id: input.product.id,
+    started_at: startedAt,
+    next_renewal_at: getNextRenewalDate(startedAt),
+    invoice_details_snapshot: input.invoice_details_snapshot,
+  });
+
+  await repositories.transactions.update(input.transaction.id, { subscription_id: subscription.id });
+
+  return subscription;
+}
+
+/**
+ * Process a subscription whose anniversary has passed
+ * - Cancelled: the subscription ends
+ * - Active: the bundle is purchased again at the current product price, then
+ *   next_renewal_at moves one year ahead
+ * - Active with corrupt invoice details: skipped, nothing is charged
+ *
+ * The purchase is keyed on the anniversary, so a retried run never buys twice.
+ */
+export async function renewSubscription(subscription: SubscriptionRecord): Promise<RenewalResult> {
+  if (subscription.status === "cancelled") {
+    return endSubscription(subscription, "cancelled");
+  }
+
+  const product = await repositories.products.getById(subscription.product_id);
+  if (!product || !product.is_active || !isYearlyBundle(product)) {
+    return endSubscription(subscription, "product_unavailable");
+  }
+
+  const wallet = await repositories.wallets.getById(subscription.wallet_id);
+  if (!wallet) {
+    return endSubscription(subscription, "wallet_missing");
+  }
+
+  if (!subscription.user_id) {
+    return endSubscription(subscription, "user_missing");
+  }
+
+  // Never charge without invoice details: a corrupt snapshot needs fixing first
+  const previousSnapshot = readInvoiceDetailsSnapshot(subscription.invoice_details_snapshot);
+  if (!previousSnapshot) {
+    return { subscription, outcome: "skipped", reason: "invoice_details_snapshot is not valid JSON" };
+  }
+  const invoiceDetailsSnapshot = JSON.stringify({
+    ...previousSnapshot,
+    purchased_at: new Date().toISOString(),
+    billing_cycle: "yearly",
+    subscription_id: subscription.id,
+    renewal_number: subscription.renewal_count + 1,
+  });
+
+  const purchase = await purchaseCredits({
+    idempotencyKey: `subscription-renewal:${subscription.id}:${subscription.next_renewal_at}`,
+    employer_id: subscription.employer_id || null,
+    wallet_id: wallet.id,
+    user_id: subscription.user_id,
+    product_id: product.id,
+    total_credits: product.credits,
+    total_cost: product.price,
+    context: "dashboard",
+    invoice_details_snapshot: invoiceDetailsSnapshot,
+    validity_months: product.validity_months,
+    subscription_id: subscription.id,
+  });
+
+  const renewed = await repositories.subscriptions.update(subscription.id, {
+    next_renewal_at: getNextRenewalDate(subscription.next_renewal_at),
+    renewal_count: subscription.renewal_count + 1,
+  });
+
+  return {
+    subscription: renewed,
+    outcome: "renewed",
+    transaction: purchase.transaction,
+  };
+}
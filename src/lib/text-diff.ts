@@ -0,0 +1,92 @@
+/**
+ * Line-based text diff for side-by-side views (no dependencies, client-safe)
+ */
+
+export interface SideBySideRow {
+  type: "equal" | "changed" | "removed" | "added";
+  left: string | null;
+  right: string | null;
+}
+
+type DiffOp = { type: "equal" | "removed" | "added"; line: string };
+
+function splitLines(text: string): string[] {
+  return text ? text.replace(/\r\n/g, "\n").split("\n") : [];
+}
+
+/**
+ * Longest-common-subsequence diff of two line lists
+ */
+function diffLines(oldLines: string[], newLines: string[]): DiffOp[] {
+  const n = oldLines.length;
+  const m = newLines.length;
+
+  // lcs[i][j] = LCS length of oldLines[i..] and newLines[j..]
+  const lcs: number[][] = Array.from({ length: n + 1 }, () => new Array<number>(m + 1).fill(0));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i][j] = oldLines[i] === newLines[j]
+        ? lcs[i + 1][j + 1] + 1
+        : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const ops: DiffOp[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (oldLines[i] === newLines[j]) {
+      ops.push({ type: "equal", line: oldLines[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      ops.push({ type: "removed", line: oldLines[i++] });
+    } else {
+      ops.push({ type: "added", line: newLines[j++] });
+    }
+  }
+  while (i < n) ops.push({ type: "removed", line: oldLines[i++] });
+  while (j < m) ops.push({ type: "added", line: newLines[j++] });
+  return ops;
+}
+
+/**
+ * Rows for a side-by-side view: removed and added lines of the same block
+ * are paired as "changed"
+ */
+export function diffSideBySide(oldText: string, newText: string): SideBySideRow[] {
+  const ops = diffLines(splitLines(oldText), splitLines(newText));
+  const rows: SideBySideRow[] = [];
+
+  let k = 0;
+  while (k < ops.length) {
+    if (ops[k].type === "equal") {
+      rows.push({ type: "equal", left: ops[k].line, right: ops[k].line });
+      k++;
+      continue;
+    }
+
+    const removed: string[] = [];
+    const added: string[] = [];
+    while (k < ops.length && ops[k].type !== "equal") {
+      if (ops[k].type === "removed") removed.push(ops[k].line);
+      else added.push(ops[k].line);
+      k++;
+    }
+    for (let p = 0; p < Math.max(removed.length, added.length); p++) {
+      const left = removed[p] ?? null;
+      const right = added[p] ?? null;
+      rows.push({
+        type: left !== null && right !== null ? "changed" : left !== null ? "removed" : "added",
+        left,
+        right,
+      });
+    }
+  }
+
+  return rows;
+}
+
+export function hasDifferences(rows: SideBySideRow[]): boolean {
+  return rows.some((row) => row.type !== "equal");
+}
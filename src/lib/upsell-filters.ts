@@ -1,3 +1,4 @@
+import { parseISO, startOfDay } from "date-fns";
 import { ProductRecord, TransactionRecord } from "@/lib/airtable";
 
 /**
@@ -42,7 +43,10 @@ export function filterUpsellsByRepeatMode(
   upsells: ProductRecord[],
   context: RepeatModeContext
 ): UpsellFilterResult[] {
-  const { vacancyTransactions } = context;
+  // Refunded and failed spends don't count as purchases
+  const vacancyTransactions = context.vacancyTransactions.filter(
+    (tx) => tx.type === "spend" && tx.status !== "refunded" && tx.status !== "failed"
+  );
 
   return upsells.map((product) => {
     const mode = product.repeat_mode || "unlimited";
@@ -171,8 +175,7 @@ function filterUntilMax(
 
   // If closing_date already equals or exceeds the max → hide
   if (closingDate) {
-    const closing = new Date(closingDate);
-    closing.setHours(0, 0, 0, 0);
+    const closing = startOfDay(parseISO(closingDate));
 
     if (closing >= maxDate) {
       return { product, visible: false };
@@ -0,0 +1,71 @@
+import { vacancyRecordSchema } from "@/lib/airtable";
+import type { VacancyUpdate } from "@/lib/repositories";
+
+/**
+ * Vacancy content that is copied by "duplicate vacancy" and stored in
+ * vacancy templates: texts, lookups, application, contact person, media and
+ * recommendations. Never status, upsells, transactions, Webflow fields or
+ * timestamps.
+ */
+
+export const VACANCY_CONTENT_FIELDS = [
+  "title",
+  "input_type",
+  "intro_txt",
+  "description",
+  "location",
+  "hrs_per_week",
+  "salary",
+  "education_level_id",
+  "field_id",
+  "function_type_id",
+  "region_id",
+  "sector_id",
+  "apply_url",
+  "application_email",
+  "show_apply_form",
+  "contact_name",
+  "contact_role",
+  "contact_email",
+  "contact_phone",
+  "contact_photo_id",
+  "recommendations",
+  "header_image",
+  "gallery",
+] as const;
+
+type VacancyContentField = (typeof VACANCY_CONTENT_FIELDS)[number];
+
+const contentMask = Object.fromEntries(
+  VACANCY_CONTENT_FIELDS.map((field) => [field, true])
+) as { [K in VacancyContentField]: true };
+
+export const vacancyContentSchema = vacancyRecordSchema.pick(contentMask).partial();
+
+export type VacancyContent = Pick<VacancyUpdate, VacancyContentField>;
+
+/**
+ * Copyable content of a vacancy (empty values and empty lists are left out)
+ */
+export function pickVacancyContent(source: VacancyContent): VacancyContent {
+  const content: Record<string, unknown> = {};
+  for (const field of VACANCY_CONTENT_FIELDS) {
+    const value = source[field];
+    if (value === undefined || value === null || value === "") continue;
+    if (Array.isArray(value) && value.length === 0) continue;
+    content[field] = value;
+  }
+  return content as VacancyContent;
+}
+
+/**
+ * Content stored in a template's content_json (unknown fields are dropped)
+ */
+export function parseVacancyContent(json: string): VacancyContent {
+  try {
+    const parsed = vacancyContentSchema.safeParse(JSON.parse(json));
+    return parsed.success ? pickVacancyContent(parsed.data) : {};
+  } catch {
+    return {};
+  }
+}
@@ -1,3 +1,4 @@
+import { parseISO, startOfDay } from "date-fns";
 import { ProductRecord } from "@/lib/airtable";
 
 /**
@@ -17,20 +18,18 @@ export function calculateDateRange(
   publishedAt: string,
   currentClosingDate?: string
 ): { minDate: Date; maxDate: Date } {
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
+  const today = startOfDay(new Date());
 
   // Min: huidige sluitingsdatum of vandaag (als closing_date in verleden/niet ingesteld)
   let minDate = today;
   if (currentClosingDate) {
-    const closing = new Date(currentClosingDate);
-    closing.setHours(0, 0, 0, 0);
+    // parseISO leest "YYYY-MM-DD" als lokale kalenderdag (new Date() als UTC)
+    const closing = startOfDay(parseISO(currentClosingDate));
     minDate = closing > today ? closing : today;
   }
 
   // Max: publicatiedatum + 365 dagen
-  const pubDate = new Date(publishedAt);
-  pubDate.setHours(0, 0, 0, 0);
+  const pubDate = startOfDay(parseISO(publishedAt));
   const maxDate = new Date(pubDate);
   maxDate.setDate(maxDate.getDate() + 365);
 
@@ -45,10 +44,8 @@ export function calculateExtraDays(
   selectedDate: Date,
   currentClosingDate?: string
 ): number {
-  const baseline = currentClosingDate ? new Date(currentClosingDate) : new Date();
-  baseline.setHours(0, 0, 0, 0);
-  const selected = new Date(selectedDate);
-  selected.setHours(0, 0, 0, 0);
+  const baseline = startOfDay(currentClosingDate ? parseISO(currentClosingDate) : new Date());
+  const selected = startOfDay(selectedDate);
   return Math.max(
     0,
     Math.round(
@@ -0,0 +1,224 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import type { ProductRecord, TransactionRecord, VacancyRecord } from "@/lib/airtable";
+import { parseCalendarDate } from "@/lib/calendar-dates";
+import { calculateDateRange, calculateExtraDays, getPackageBaseDuration } from "@/lib/vacancy-duration";
+import { filterUpsellsByRepeatMode } from "@/lib/upsell-filters";
+
+/**
+ * Closing date extension as a priced product
+ *
+ * The extension product is the boost upsell with repeat_mode "until_max": one
+ * purchase moves the closing date to any date up to the maximum of 365 days
+ * after the first publication. A quote for a target date fixes the days,
+ * credits and euros; it is signed so the purchase (boost route) charges
+ * exactly the quoted amounts, even if the product changes in between.
+ */
+
+/** How long a quote can be used for the purchase */
+export const EXTENSION_QUOTE_TTL_MINUTES = 30;
+
+export interface ClosingDateExtensionQuote {
+  vacancy_id: string;
+  product_id: string;
+  product_name: string;
+  /** New closing date, YYYY-MM-DD */
+  closing_date: string;
+  /** Closing date the quote was made for; the quote is void once it changes */
+  current_closing_date: string | null;
+  extra_days: number;
+  credits: number;
+  price: number;
+  expires_at: string;
+}
+
+export type ClosingDateExtensionQuoteResult =
+  | { allowed: true; quote: ClosingDateExtensionQuote }
+  | { allowed: false; error: string };
+
+export type ExtensionQuoteVerification =
+  | { valid: true; quote: ClosingDateExtensionQuote }
+  | { valid: false; error: string };
+
+/**
+ * The extension upsell among the active upsells, or null when none is available as boost
+ */
+export function findExtensionUpsell(upsells: ProductRecord[]): ProductRecord | null {
+  return upsells.find(
+    (upsell) => upsell.repeat_mode === "until_max" && upsell.availability?.includes("boost-option")
+  ) || null;
+}
+
+/**
+ * Price of an extension: the product is bought once per extension,
+ * whatever the number of extra days
+ */
+export function priceClosingDateExtension(
+  product: Pick<ProductRecord, "credits" | "price">,
+  extraDays: number
+): { credits: number; price: number } {
+  if (extraDays <= 0) {
+    return { credits: 0, price: 0 };
+  }
+  return { credits: product.credits, price: product.price };
+}
+
+/** YYYY-MM-DD in local time (closing dates are calendar days) */
+function toDateString(date: Date): string {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${year}-${month}-${day}`;
+}
+
+/**
+ * Check the target date against the allowed range: after the current closing date
+ * (or today) and at most 365 days after the first publication
+ */
+function checkClosingDateRange(vacancy: VacancyRecord, closingDate: Date, maxDate?: Date): string | null {
+  const publishedAt = vacancy["first-published-at"] || vacancy["last-published-at"];
+  if (!publishedAt) {
+    return "Deze vacature is nog niet gepubliceerd";
+  }
+
+  const range = calculateDateRange(publishedAt, vacancy.closing_date || undefined);
+  if (closingDate <= range.minDate) {
+    return "De nieuwe sluitingsdatum moet na de huidige sluitingsdatum liggen";
+  }
+  if (closingDate > range.maxDate || (maxDate && closingDate > maxDate)) {
+    return "De nieuwe sluitingsdatum mag maximaal 365 dagen na de publicatiedatum liggen";
+  }
+  return null;
+}
+
+/**
+ * Quote an extension of the vacancy's closing date to closingDate
+ * (the boost status check is done by the state machine)
+ */
+export function quoteClosingDateExtension(
+  vacancy: VacancyRecord,
+  input: {
+    extensionUpsell: ProductRecord;
+    vacancyPackage: ProductRecord | null;
+    transactions: TransactionRecord[];
+    /** New closing date, YYYY-MM-DD */
+    closingDate: string;
+    now?: Date;
+  }
+): ClosingDateExtensionQuoteResult {
+  const { extensionUpsell, vacancyPackage, transactions, now = new Date() } = input;
+
+  if (vacancyPackage && getPackageBaseDuration(vacancyPackage) >= 365) {
+    return { allowed: false, error: "Looptijdverlenging is niet beschikbaar voor Premium vacatures" };
+  }
+
+  const publishedAt = vacancy["first-published-at"] || vacancy["last-published-at"];
+  if (!publishedAt) {
+    return { allowed: false, error: "Deze vacature is nog niet gepubliceerd" };
+  }
+
+  const [filterResult] = filterUpsellsByRepeatMode([extensionUpsell], {
+    vacancyTransactions: transactions,
+    firstPublishedAt: publishedAt,
+    closingDate: vacancy.closing_date,
+  });
+  if (!filterResult.visible) {
+    return { allowed: false, error: "De maximale looptijd van deze vacature is bereikt" };
+  }
+
+  const closingDate = parseCalendarDate(input.closingDate);
+  if (!closingDate) {
+    return { allowed: false, error: "Ongeldige datum formaat" };
+  }
+  const rangeError = checkClosingDateRange(vacancy, closingDate, filterResult.maxDate);
+  if (rangeError) {
+    return { allowed: false, error: rangeError };
+  }
+
+  const extraDays = calculateExtraDays(closingDate, vacancy.closing_date || undefined);
+  const { credits, price } = priceClosingDateExtension(extensionUpsell, extraDays);
+
+  return {
+    allowed: true,
+    quote: {
+      vacancy_id: vacancy.id,
+      product_id: extensionUpsell.id,
+      product_name: extensionUpsell.display_name,
+      closing_date: toDateString(closingDate),
+      current_closing_date: vacancy.closing_date || null,
+      extra_days: extraDays,
+      credits,
+      price,
+      expires_at: new Date(now.getTime() + EXTENSION_QUOTE_TTL_MINUTES * 60 * 1000).toISOString(),
+    },
+  };
+}
+
+// ============================================
+// SIGNED QUOTES
+// ============================================
+
+function getQuoteSecret(): string {
+  const secret = process.env.NEXTAUTH_SECRET;
+  if (!secret) {
+    throw new Error("NEXTAUTH_SECRET is required to sign extension quotes");
+  }
+  return secret;
+}
+
+function signPayload(payload: string): string {
+  return createHmac("sha256", getQuoteSecret()).update(payload).digest("base64url");
+}
+
+/**
+ * Token for a quote: the quote itself plus an HMAC, so the client can't change the amounts
+ */
+export function signExtensionQuote(quote: ClosingDateExtensionQuote): string {
+  const payload = Buffer.from(JSON.stringify(quote)).toString("base64url");
+  return `${payload}.${signPayload(payload)}`;
+}
+
+/**
+ * Verify a quote token for a purchase on this vacancy
+ * The quote must be unexpired and made for the vacancy's current closing date,
+ * and the date must still be within the allowed range
+ */
+export function verifyExtensionQuote(
+  token: string,
+  vacancy: VacancyRecord,
+  now: Date = new Date()
+): ExtensionQuoteVerification {
+  const invalid = { valid: false as const, error: "Ongeldige offerte voor de looptijdverlenging" };
+
+  const [payload, signature] = token.split(".");
+  if (!payload || !signature) return invalid;
+
+  const expected = Buffer.from(signPayload(payload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return invalid;
+
+  let quote: ClosingDateExtensionQuote;
+  try {
+    quote = JSON.parse(Buffer.from(payload, "base64url").toString("utf8"));
+  } catch {
+    return invalid;
+  }
+
+  if (quote.vacancy_id !== vacancy.id) return invalid;
+
+  if (new Date(quote.expires_at) < now) {
+    return { valid: false, error: "De offerte voor de looptijdverlenging is verlopen. Kies de datum opnieuw." };
+  }
+
+  if ((quote.current_closing_date || null) !== (vacancy.closing_date || null)) {
+    return { valid: false, error: "De sluitingsdatum is inmiddels gewijzigd. Kies de datum opnieuw." };
+  }
+
+  const closingDate = parseCalendarDate(quote.closing_date);
+  if (!closingDate) return invalid;
+  const rangeError = checkClosingDateRange(vacancy, closingDate);
+  if (rangeError) {
+    return { valid: false, error: rangeError };
+  }
+
+  return { valid: true, quote };
+}
@@ -0,0 +1,119 @@
+import type { VacancyRecord } from "@/lib/airtable";
+import { chargeCredits, refundSpend, type ChargeCreditsInput, type LedgerResult } from "@/lib/ledger";
+import { repositories } from "@/lib/repositories";
+import {
+  transitionVacancy,
+  type TransitionVacancyOptions,
+  type VacancyTransition,
+} from "@/lib/vacancy-state-machine";
+import { getErrorMessage } from "@/lib/utils";
+
+/**
+ * Paid vacancy transitions (submit, boost, closing date extension)
+ *
+ * The charge and the state machine transition run as one unit:
+ * 1. The credits are charged through the ledger (idempotency key per user action)
+ * 2. The transition is applied
+ * 3. If the transition is refused or throws, the charge is refunded; the refunded
+ *    spend frees the idempotency key, so a retry charges again
+ * A replayed charge (retried request) only runs the transition when it has not
+ * reached the vacancy yet, e.g. because the first request stopped halfway.
+ */
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface PurchaseVacancyTransitionOptions extends TransitionVacancyOptions {
+  /** null when there is nothing to charge (e.g. a boost with only free upsells) */
+  charge: ChargeCreditsInput | null;
+  /** Whether the vacancy already shows the result of this purchase (used for replays) */
+  isApplied: (vacancy: VacancyRecord) => boolean;
+}
+
+export type PurchaseVacancyTransitionResult =
+  | {
+      success: true;
+      vacancy: VacancyRecord;
+      charge: LedgerResult | null;
+      /** Wallet balance after the purchase, read again from the wallet */
+      new_balance: number | null;
+    }
+  | { success: false; error: string };
+
+// ============================================
+// PURCHASE
+// ============================================
+
+/**
+ * Charge credits and apply a paid transition; the charge is refunded when the transition fails
+ */
+export async function purchaseVacancyTransition(
+  vacancy: VacancyRecord,
+  transition: VacancyTransition,
+  options: PurchaseVacancyTransitionOptions
+): Promise<PurchaseVacancyTransitionResult> {
+  const { charge: chargeInput, isApplied, ...transitionOptions } = options;
+
+  const charge = chargeInput ? await chargeCredits(chargeInput) : null;
+
+  const succeed = async (updated: VacancyRecord): Promise<PurchaseVacancyTransitionResult> => {
+    const wallet = chargeInput ? await repositories.wallets.getById(chargeInput.wallet_id) : null;
+    return { success: true, vacancy: updated, charge, new_balance: wallet?.balance ?? null };
+  };
+
+  // Retried request: the charge exists, apply the transition only if it is still missing
+  let current = vacancy;
+  if (charge?.replayed) {
+    const latest = await repositories.vacancies.getById(vacancy.id);
+    if (!latest) {
+      return { success: false, error: "Vacature niet gevonden" };
+    }
+    if (isApplied(latest)) {
+      return succeed(latest);
+    }
+    current = latest;
+  }
+
+  try {
+    const result = await transitionVacancy(current, transition, {
+      ...transitionOptions,
+      payload: {
+        ...transitionOptions.payload,
+        ...(charge && { transaction_id: charge.transaction.id }),
+      },
+    });
+    if (result.success) {
+      return succeed(result.vacancy);
+    }
+
+    // A concurrent duplicate of this request may have applied it in the meantime
+    const latest = await repositories.vacancies.getById(vacancy.id);
+    if (latest && isApplied(latest)) {
+      return succeed(latest);
+    }
+    await refundCharge(charge, transitionOptions.actor_user_id ?? null);
+    return { success: false, error: result.error };
+  } catch (error: unknown) {
+    console.error(`[Purchase] Transition ${transition} of vacancy ${vacancy.id} failed:`, getErrorMessage(error));
+    await refundCharge(charge, transitionOptions.actor_user_id ?? null);
+    throw error;
+  }
+}
+
+/**
+ * Refund a charge whose transition did not go through
+ * Reads the spend again: the batch allocations are written after the spend is created
+ */
+async function refundCharge(charge: LedgerResult | null, userId: string | null): Promise<void> {
+  if (!charge) return;
+  try {
+    const spend = await repositories.transactions.getById(charge.transaction.id);
+    if (!spend) return;
+    await refundSpend(spend, { user_id: userId, reference_type: "vacancy" });
+    console.log(`[Purchase] Refunded charge ${spend.id} after a failed transition`);
+  } catch (refundError: unknown) {
+    // The reconciliation job reports the wallet drift if this refund is lost
+    console.error(`[Purchase] Could not refund charge ${charge.transaction.id}:`, getErrorMessage(refundError));
+  }
+}
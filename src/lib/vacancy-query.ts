@@ -0,0 +1,183 @@
+import { z } from "zod";
+import type { VacancyRecord } from "@/lib/airtable";
+import { VACANCY_STATUSES } from "@/lib/vacancy-status";
+
+/**
+ * Search, filter, sort and paginate an employer's vacancies (GET /api/vacancies)
+ *
+ * Linked lookup fields can't be filtered by record ID in an Airtable formula,
+ * so the employer's vacancies are fetched (status filter only) and the rest of
+ * the query is applied here. Pagination is keyset based: the cursor holds the
+ * sort value and ID of the last returned vacancy, so new or deleted vacancies
+ * don't shift the pages.
+ */
+
+export const VACANCY_SORT_FIELDS = ["created-at", "closing_date", "title"] as const;
+export type VacancySortField = (typeof VACANCY_SORT_FIELDS)[number];
+
+export const VACANCY_DATE_FIELDS = ["created-at", "closing_date"] as const;
+export type VacancyDateField = (typeof VACANCY_DATE_FIELDS)[number];
+
+export const VACANCY_LOOKUP_FILTERS = [
+  "sector_id",
+  "region_id",
+  "field_id",
+  "function_type_id",
+  "education_level_id",
+] as const;
+export type VacancyLookupFilter = (typeof VACANCY_LOOKUP_FILTERS)[number];
+
+export const MAX_VACANCY_PAGE_SIZE = 100;
+
+const dateParam = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Ongeldige datum formaat");
+const optionalParam = z.string().trim().min(1).optional();
+
+export const vacancyQuerySchema = z.object({
+  /** Full-text search on title and location (every word must match) */
+  q: z.string().trim().max(200).optional(),
+  /** Comma-separated statuses */
+  status: z
+    .string()
+    .optional()
+    .transform((value) => value?.split(",").map((s) => s.trim()).filter(Boolean))
+    .pipe(z.array(z.enum(VACANCY_STATUSES)).optional()),
+  sector_id: optionalParam,
+  region_id: optionalParam,
+  field_id: optionalParam,
+  function_type_id: optionalParam,
+  education_level_id: optionalParam,
+  date_field: z.enum(VACANCY_DATE_FIELDS).default("created-at"),
+  /** Inclusive, YYYY-MM-DD */
+  date_from: dateParam.optional(),
+  date_to: dateParam.optional(),
+  sort: z.enum(VACANCY_SORT_FIELDS).default("created-at"),
+  order: z.enum(["asc", "desc"]).optional(),
+  /** Page size; without a limit all matching vacancies are returned */
+  limit: z.coerce.number().int().min(1).max(MAX_VACANCY_PAGE_SIZE).optional(),
+  cursor: optionalParam,
+});
+
+export type VacancyQuery = z.infer<typeof vacancyQuerySchema>;
+
+export type VacancyQueryResult =
+  | { success: true; vacancies: VacancyRecord[]; total: number; next_cursor: string | null }
+  | { success: false; error: string };
+
+interface CursorKey {
+  value: string | null;
+  id: string;
+}
+
+// ============================================
+// CURSOR
+// ============================================
+
+function encodeCursor(key: CursorKey): string {
+  return Buffer.from(JSON.stringify([key.value, key.id])).toString("base64url");
+}
+
+function decodeCursor(cursor: string): CursorKey | null {
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    if (
+      Array.isArray(parsed) &&
+      parsed.length === 2 &&
+      (parsed[0] === null || typeof parsed[0] === "string") &&
+      typeof parsed[1] === "string"
+    ) {
+      return { value: parsed[0], id: parsed[1] };
+    }
+    return null;
+  } catch {
+    return null;
+  }
+}
+
+// ============================================
+// FILTER & SORT
+// ============================================
+
+/** Lowercase without accents, so "cafe" finds "Café" */
+function normalizeSearchText(value: string): string {
+  return value.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase();
+}
+
+function getSortValue(vacancy: VacancyRecord, field: VacancySortField): string | null {
+  const value = vacancy[field];
+  if (!value) return null;
+  return field === "title" ? normalizeSearchText(value) : value;
+}
+
+/**
+ * Compare two sort keys; vacancies without a value always come last,
+ * the ID breaks ties so the order is stable between pages
+ */
+function compareKeys(a: CursorKey, b: CursorKey, order: "asc" | "desc"): number {
+  if (a.value !== b.value) {
+    if (a.value === null) return 1;
+    if (b.value === null) return -1;
+    const result = a.value.localeCompare(b.value);
+    return order === "asc" ? result : -result;
+  }
+  return a.id.localeCompare(b.id);
+}
+
+function matchesQuery(vacancy: VacancyRecord, query: VacancyQuery, searchTerms: string[]): boolean {
+  if (query.status && query.status.length > 0 && !query.status.includes(vacancy.status)) {
+    return false;
+  }
+
+  for (const filter of VACANCY_LOOKUP_FILTERS) {
+    const id = query[filter];
+    if (id && vacancy[filter] !== id) return false;
+  }
+
+  if (searchTerms.length > 0) {
+    const haystack = normalizeSearchText(`${vacancy.title || ""} ${vacancy.location || ""}`);
+    if (!searchTerms.every((term) => haystack.includes(term))) return false;
+  }
+
+  if (query.date_from || query.date_to) {
+    const date = vacancy[query.date_field]?.slice(0, 10);
+    if (!date) return false;
+    if (query.date_from && date < query.date_from) return false;
+    if (query.date_to && date > query.date_to) return false;
+  }
+
+  return true;
+}
+
+/**
+ * Apply a parsed query to an employer's vacancies
+ * Newest first by default; title and closing date sort ascending by default
+ */
+export function applyVacancyQuery(vacancies: VacancyRecord[], query: VacancyQuery): VacancyQueryResult {
+  const order = query.order ?? (query.sort === "created-at" ? "desc" : "asc");
+  const searchTerms = query.q ? normalizeSearchText(query.q).split(/\s+/).filter(Boolean) : [];
+
+  const keyed = vacancies
+    .filter((vacancy) => matchesQuery(vacancy, query, searchTerms))
+    .map((vacancy) => ({ vacancy, key: { value: getSortValue(vacancy, query.sort), id: vacancy.id } }))
+    .sort((a, b) => compareKeys(a.key, b.key, order));
+
+  let start = 0;
+  if (query.cursor) {
+    const cursorKey = decodeCursor(query.cursor);
+    if (!cursorKey) {
+      return { success: false, error: "Ongeldige cursor" };
+    }
+    start = keyed.findIndex((item) => compareKeys(item.key, cursorKey, order) > 0);
+    if (start === -1) start = keyed.length;
+  }
+
+  const end = query.limit ? start + query.limit : keyed.length;
+  const page = keyed.slice(start, end);
+  const hasMore = end < keyed.length && page.length > 0;
+
+  return {
+    success: true,
+    vacancies: page.map((item) => item.vacancy),
+    total: keyed.length,
+    next_cursor: hasMore ? encodeCursor(page[page.length - 1].key) : null,
+  };
+}
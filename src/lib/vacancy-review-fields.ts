@@ -0,0 +1,73 @@
+import { z } from "zod";
+
+/**
+ * Review feedback per field (client-safe)
+ *
+ * When the CJ team sends a vacancy back ("needs_adjustment"), each comment
+ * targets one part of the vacancy form; "general" is for remarks that do not
+ * belong to a single field.
+ */
+
+export const REVIEW_FIELDS = [
+  "title",
+  "intro_txt",
+  "description",
+  "location",
+  "hrs_per_week",
+  "salary",
+  "region_id",
+  "function_type_id",
+  "education_level_id",
+  "field_id",
+  "sector_id",
+  "header_image",
+  "gallery",
+  "application",
+  "contact",
+  "general",
+] as const;
+
+export type ReviewField = (typeof REVIEW_FIELDS)[number];
+
+export const REVIEW_FIELD_LABELS: Record<ReviewField, string> = {
+  title: "Functietitel",
+  intro_txt: "Introductietekst",
+  description: "Vacaturetekst",
+  location: "Plaats",
+  hrs_per_week: "Uren per week",
+  salary: "Salaris",
+  region_id: "Regio",
+  function_type_id: "Functietype",
+  education_level_id: "Opleidingsniveau",
+  field_id: "Vakgebied",
+  sector_id: "Sector",
+  header_image: "Headerafbeelding",
+  gallery: "Fotogalerij",
+  application: "Solliciteren",
+  contact: "Contactpersoon",
+  general: "Algemeen",
+};
+
+export const reviewCommentSchema = z.object({
+  id: z.string(),
+  field: z.enum(REVIEW_FIELDS),
+  comment: z.string(),
+});
+
+export type ReviewComment = z.infer<typeof reviewCommentSchema>;
+
+/** Comment as shown to the employer: addressed when the field changed since the review */
+export interface ReviewCommentWithStatus extends ReviewComment {
+  addressed: boolean;
+}
+
+/** Comments per field, as passed to the vacancy form */
+export type ReviewCommentsByField = Partial<Record<ReviewField, ReviewCommentWithStatus[]>>;
+
+export function groupReviewComments(comments: ReviewCommentWithStatus[]): ReviewCommentsByField {
+  const grouped: ReviewCommentsByField = {};
+  for (const comment of comments) {
+    (grouped[comment.field] ??= []).push(comment);
+  }
+  return grouped;
+}
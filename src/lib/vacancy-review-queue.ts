@@ -0,0 +1,81 @@
+import { addBusinessDays, addHours } from "date-fns";
+import type { VacancyRecord } from "@/lib/airtable";
+
+/**
+ * Review queue of vacancies waiting for approval (client-safe)
+ *
+ * The CJ team handles "Zelfde dag online" vacancies (high_priority) first,
+ * then the rest by submission time. Each vacancy has to be reviewed within
+ * an SLA counted from the moment it entered the queue (submit or resubmit):
+ * - high_priority: REVIEW_SLA_HIGH_PRIORITY_HOURS hours
+ * - otherwise: REVIEW_SLA_BUSINESS_DAYS working days (weekends skipped)
+ */
+
+export const REVIEW_SLA_HIGH_PRIORITY_HOURS = 8;
+export const REVIEW_SLA_BUSINESS_DAYS = 2;
+
+type QueueVacancy = Pick<
+  VacancyRecord,
+  "high_priority" | "submitted-at" | "last-status_changed-at" | "created-at"
+>;
+
+export interface ReviewSla {
+  /** When the vacancy entered the queue */
+  queued_at: string | null;
+  deadline: string | null;
+  /** Milliseconds until the deadline (negative when overdue) */
+  remaining_ms: number | null;
+  overdue: boolean;
+}
+
+function getQueuedAt(vacancy: QueueVacancy): string | null {
+  return vacancy["last-status_changed-at"] || vacancy["submitted-at"] || vacancy["created-at"] || null;
+}
+
+export function getReviewSla(vacancy: QueueVacancy, now: Date = new Date()): ReviewSla {
+  const queuedAt = getQueuedAt(vacancy);
+  if (!queuedAt) {
+    return { queued_at: null, deadline: null, remaining_ms: null, overdue: false };
+  }
+
+  const start = new Date(queuedAt);
+  const deadline = vacancy.high_priority
+    ? addHours(start, REVIEW_SLA_HIGH_PRIORITY_HOURS)
+    : addBusinessDays(start, REVIEW_SLA_BUSINESS_DAYS);
+  const remaining = deadline.getTime() - now.getTime();
+
+  return {
+    queued_at: queuedAt,
+    deadline: deadline.toISOString(),
+    remaining_ms: remaining,
+    overdue: remaining < 0,
+  };
+}
+
+/**
+ * Queue order: high_priority first, then oldest submission first
+ */
+export function compareReviewQueue(a: QueueVacancy, b: QueueVacancy): number {
+  if (a.high_priority !== b.high_priority) {
+    return a.high_priority ? -1 : 1;
+  }
+  return (a["submitted-at"] || "").localeCompare(b["submitted-at"] || "");
+}
+
+/**
+ * Remaining SLA time in Dutch, e.g. "nog 1 d 4 u" or "3 u 20 min te laat"
+ */
+export function formatSlaRemaining(remainingMs: number): string {
+  const totalMinutes = Math.floor(Math.abs(remainingMs) / 60000);
+  const days = Math.floor(totalMinutes / (60 * 24));
+  const hours = Math.floor((totalMinutes % (60 * 24)) / 60);
+  const minutes = totalMinutes % 60;
+
+  const duration = days > 0
+    ? `${days} d ${hours} u`
+    : hours > 0
+      ? `${hours} u ${minutes} min`
+      : `${minutes} min`;
+
+  return remainingMs < 0 ? `${duration} te laat` : `nog ${duration}`;
+}
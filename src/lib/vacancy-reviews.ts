@@ -0,0 +1,158 @@
+import { randomBytes } from "crypto";
+import type { VacancyRecord, VacancyReviewRecord } from "@/lib/airtable";
+import { repositories } from "@/lib/repositories";
+import { getRevisionContent, type RevisionContent, type RevisionField } from "@/lib/vacancy-revisions";
+import {
+  reviewCommentSchema,
+  type ReviewComment,
+  type ReviewCommentWithStatus,
+  type ReviewField,
+} from "@/lib/vacancy-review-fields";
+
+/**
+ * Review rounds of vacancies sent back with "needs_adjustment"
+ *
+ * Each round stores the reviewer's comments and a snapshot of the vacancy
+ * content. A comment counts as addressed when one of its vacancy fields
+ * changed since the snapshot; "general" comments when any content changed.
+ * Rounds are never deleted, so the history shows how many rounds a vacancy
+ * went through.
+ */
+
+/** Vacancy fields behind each review field ("general": all content) */
+const REVIEW_FIELD_SOURCES: Record<Exclude<ReviewField, "general">, RevisionField[]> = {
+  title: ["title"],
+  intro_txt: ["intro_txt"],
+  description: ["description"],
+  location: ["location"],
+  hrs_per_week: ["hrs_per_week"],
+  salary: ["salary"],
+  region_id: ["region_id"],
+  function_type_id: ["function_type_id"],
+  education_level_id: ["education_level_id"],
+  field_id: ["field_id"],
+  sector_id: ["sector_id"],
+  header_image: ["header_image"],
+  gallery: ["gallery"],
+  application: ["apply_url", "application_email", "show_apply_form"],
+  contact: ["contact_name", "contact_role", "contact_email", "contact_phone", "contact_photo_id"],
+};
+
+export interface VacancyReviewRound {
+  id: string;
+  round: number;
+  status: VacancyReviewRecord["status"];
+  reviewer: string | null;
+  summary: string | null;
+  comments: ReviewCommentWithStatus[];
+  addressed_count: number;
+  "created-at"?: string;
+  "resubmitted-at": string | null;
+}
+
+function parseJsonArray(json: string | null | undefined): unknown[] {
+  if (!json) return [];
+  try {
+    const parsed = JSON.parse(json);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+export function parseReviewComments(review: VacancyReviewRecord): ReviewComment[] {
+  return parseJsonArray(review.comments_json).flatMap((item) => {
+    const parsed = reviewCommentSchema.safeParse(item);
+    return parsed.success ? [parsed.data] : [];
+  });
+}
+
+function parseReviewSnapshot(review: VacancyReviewRecord): RevisionContent {
+  try {
+    return JSON.parse(review.content_json) as RevisionContent;
+  } catch {
+    return {};
+  }
+}
+
+function isCommentAddressed(comment: ReviewComment, before: RevisionContent, after: RevisionContent): boolean {
+  const fields = comment.field === "general"
+    ? (Array.from(new Set([...Object.keys(before), ...Object.keys(after)])) as RevisionField[])
+    : REVIEW_FIELD_SOURCES[comment.field];
+  return fields.some((field) => JSON.stringify(before[field]) !== JSON.stringify(after[field]));
+}
+
+/**
+ * A review round with the addressed state of each comment
+ * (open rounds: compared to the current vacancy; resubmitted rounds: as stored)
+ */
+export function getReviewRound(review: VacancyReviewRecord, vacancy: VacancyRecord): VacancyReviewRound {
+  const comments = parseReviewComments(review);
+  let withStatus: ReviewCommentWithStatus[];
+
+  if (review.status === "open") {
+    const before = parseReviewSnapshot(review);
+    const after = getRevisionContent(vacancy);
+    withStatus = comments.map((comment) => ({ ...comment, addressed: isCommentAddressed(comment, before, after) }));
+  } else {
+    const addressedIds = new Set(parseJsonArray(review.addressed_json));
+    withStatus = comments.map((comment) => ({ ...comment, addressed: addressedIds.has(comment.id) }));
+  }
+
+  return {
+    id: review.id,
+    round: review.round,
+    status: review.status,
+    reviewer: review.reviewer ?? null,
+    summary: review.summary ?? null,
+    comments: withStatus,
+    addressed_count: withStatus.filter((comment) => comment.addressed).length,
+    "created-at": review["created-at"],
+    "resubmitted-at": review["resubmitted-at"] ?? null,
+  };
+}
+
+/**
+ * Starts the next review round for a vacancy that is sent back
+ */
+export async function createReviewRound(
+  vacancy: VacancyRecord,
+  input: { reviewer: string | null; summary: string | null; comments: Omit<ReviewComment, "id">[] }
+): Promise<VacancyReviewRecord> {
+  const [latest] = await repositories.vacancyReviews.getByVacancyId(vacancy.id);
+  const comments: ReviewComment[] = input.comments.map((comment) => ({
+    id: randomBytes(6).toString("hex"),
+    ...comment,
+  }));
+
+  return repositories.vacancyReviews.create({
+    vacancy_id: vacancy.id,
+    round: (latest?.round ?? 0) + 1,
+    reviewer: input.reviewer,
+    summary: input.summary,
+    comments_json: JSON.stringify(comments),
+    content_json: JSON.stringify(getRevisionContent(vacancy)),
+  });
+}
+
+/**
+ * Closes the open review round on resubmit, storing which comments were addressed
+ * Returns null when the vacancy has no open round (e.g. sent back before rounds existed)
+ */
+export async function closeReviewRound(
+  vacancy: VacancyRecord,
+  now: Date = new Date()
+): Promise<VacancyReviewRound | null> {
+  const [latest] = await repositories.vacancyReviews.getByVacancyId(vacancy.id);
+  if (!latest || latest.status !== "open") {
+    return null;
+  }
+
+  const round = getReviewRound(latest, vacancy);
+  const closed = await repositories.vacancyReviews.update(latest.id, {
+    status: "resubmitted",
+    addressed_json: JSON.stringify(round.comments.filter((c) => c.addressed).map((c) => c.id)),
+    "resubmitted-at": now.toISOString(),
+  });
+  return getReviewRound(closed, vacancy);
+}
@@ -0,0 +1,102 @@
+import type { VacancyRecord, VacancyRevisionRecord } from "@/lib/airtable";
+import { repositories, type VacancyUpdate } from "@/lib/repositories";
+import { parseVacancyContent, pickVacancyContent, type VacancyContent } from "@/lib/vacancy-content";
+
+/**
+ * Content history of vacancies: a revision holds a snapshot of the content
+ * fields (lib/vacancy-content.ts, without input_type, which follows the
+ * purchased upsell), its author and timestamps.
+ *
+ * Consecutive saves by the same author within REVISION_MERGE_WINDOW_MS
+ * update the latest revision instead of adding one, so wizard auto-saves
+ * do not flood the history.
+ */
+
+export const REVISION_MERGE_WINDOW_MS = 10 * 60 * 1000;
+
+export type RevisionContent = Omit<VacancyContent, "input_type">;
+
+export type RevisionField = keyof RevisionContent;
+
+/** Fields shown as a side-by-side diff (markdown) in the history panel */
+export const REVISION_DIFF_FIELDS = ["intro_txt", "description"] as const;
+
+export function getRevisionContent(vacancy: VacancyContent): RevisionContent {
+  const content = pickVacancyContent(vacancy);
+  delete content.input_type;
+  return content;
+}
+
+export function parseRevisionContent(revision: VacancyRevisionRecord): RevisionContent {
+  return getRevisionContent(parseVacancyContent(revision.content_json));
+}
+
+/**
+ * Fields that differ between two snapshots
+ */
+export function getChangedRevisionFields(a: RevisionContent, b: RevisionContent): RevisionField[] {
+  const fields = new Set([...Object.keys(a), ...Object.keys(b)] as RevisionField[]);
+  return Array.from(fields).filter((field) => JSON.stringify(a[field]) !== JSON.stringify(b[field]));
+}
+
+/**
+ * Vacancy update that restores a snapshot: fields missing from it are cleared
+ */
+export function getRestoreUpdate(
+  content: RevisionContent,
+  current: VacancyRecord
+): VacancyUpdate {
+  const update: Record<string, unknown> = {};
+  for (const field of Object.keys(getRevisionContent(current)) as RevisionField[]) {
+    if (content[field] !== undefined) continue;
+    update[field] = field === "gallery" ? [] : field === "show_apply_form" ? false : "";
+  }
+  return { ...update, ...content } as VacancyUpdate;
+}
+
+/**
+ * Records a revision after a vacancy update when its content changed.
+ * The first recorded edit also stores the content from before it ("initial").
+ * Returns the created or updated revision, or null when nothing changed.
+ */
+export async function recordVacancyRevision(
+  before: VacancyRecord,
+  after: VacancyRecord,
+  context: { author_user_id: string | null; now?: Date }
+): Promise<VacancyRevisionRecord | null> {
+  const previous = getRevisionContent(before);
+  const next = getRevisionContent(after);
+  if (getChangedRevisionFields(previous, next).length === 0) {
+    return null;
+  }
+
+  const now = context.now ?? new Date();
+  const contentJson = JSON.stringify(next);
+  const [latest] = await repositories.vacancyRevisions.getByVacancyId(after.id);
+
+  if (!latest) {
+    if (Object.keys(previous).length > 0) {
+      await repositories.vacancyRevisions.create({
+        vacancy_id: after.id,
+        author_user_id: null,
+        source: "initial",
+        content_json: JSON.stringify(previous),
+        // Dated when that content was last saved, so it sorts before the edit
+        "created-at": before["updated-at"] || before["created-at"] || new Date(now.getTime() - 1).toISOString(),
+      });
+    }
+  } else if (
+    latest.source === "edit" &&
+    latest.author_user_id === context.author_user_id &&
+    now.getTime() - new Date(latest["updated-at"] || latest["created-at"] || 0).getTime() < REVISION_MERGE_WINDOW_MS
+  ) {
+    return repositories.vacancyRevisions.updateContent(latest.id, contentJson);
+  }
+
+  return repositories.vacancyRevisions.create({
+    vacancy_id: after.id,
+    author_user_id: context.author_user_id,
+    source: "edit",
+    content_json: contentJson,
+  });
+}
@@ -0,0 +1,92 @@
+import type { VacancyStatus } from "@/lib/vacancy-status";
+
+/**
+ * Scheduled publication (client-safe)
+ *
+ * - publish_from: the vacancy is not published before this moment. Approval
+ *   moves it to "ingepland" and the publish-scheduled-vacancies cron publishes it.
+ * - depublish_at: the same cron takes the published vacancy offline at this moment.
+ *   Cleared once it has taken effect, so republishing does not depublish again.
+ *
+ * Both are ISO timestamps; the date pickers store the start of the chosen day.
+ */
+
+export interface PublicationSchedule {
+  publish_from?: string | null;
+  depublish_at?: string | null;
+}
+
+/**
+ * Statuses in which publish_from can still be changed (not yet online)
+ */
+export const PUBLISH_FROM_EDITABLE_STATUSES: VacancyStatus[] = [
+  "concept",
+  "incompleet",
+  "needs_adjustment",
+  "wacht_op_goedkeuring",
+  "ingepland",
+];
+
+/**
+ * Statuses in which depublish_at can still be changed (also offline, before republishing)
+ */
+export const DEPUBLISH_AT_EDITABLE_STATUSES: VacancyStatus[] = [
+  ...PUBLISH_FROM_EDITABLE_STATUSES,
+  "gepubliceerd",
+  "gedepubliceerd",
+];
+
+export function isInFuture(timestamp: string | null | undefined, now: Date = new Date()): boolean {
+  return !!timestamp && new Date(timestamp).getTime() > now.getTime();
+}
+
+/**
+ * Validate a publication schedule
+ * Returns an error message, or null when the schedule is valid
+ */
+export function validatePublicationSchedule(
+  schedule: PublicationSchedule,
+  now: Date = new Date()
+): string | null {
+  const publishFrom = schedule.publish_from ? new Date(schedule.publish_from) : null;
+  const depublishAt = schedule.depublish_at ? new Date(schedule.depublish_at) : null;
+
+  if (publishFrom && isNaN(publishFrom.getTime())) {
+    return "Ongeldige publicatiedatum";
+  }
+  if (depublishAt && isNaN(depublishAt.getTime())) {
+    return "Ongeldige depublicatiedatum";
+  }
+  if (depublishAt && depublishAt <= now) {
+    return "De depublicatiedatum moet in de toekomst liggen";
+  }
+  if (publishFrom && depublishAt && depublishAt <= publishFrom) {
+    return "De depublicatiedatum moet na de publicatiedatum liggen";
+  }
+  return null;
+}
+
+/**
+ * Validate a new publish_from for the current status
+ * A scheduled vacancy is only published by the cron once publish_from is reached,
+ * so while it is "ingepland" the date can be moved but not cleared or set in the past.
+ */
+export function validateScheduledPublishFrom(
+  status: VacancyStatus,
+  publishFrom: string | null | undefined,
+  now: Date = new Date()
+): string | null {
+  if (status !== "ingepland" || isInFuture(publishFrom, now)) {
+    return null;
+  }
+  return "Een ingeplande vacature heeft een publicatiedatum in de toekomst nodig";
+}
+
+/**
+ * Start of a chosen day as ISO timestamp (date pickers)
+ */
+export function toScheduleTimestamp(date: Date): string {
+  const start = new Date(date);
+  start.setHours(0, 0, 0, 0);
+  return start.toISOString();
+}
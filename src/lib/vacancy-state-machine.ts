@@ -0,0 +1,406 @@
+import type { UserRecord, VacancyRecord } from "@/lib/airtable";
+import { logEvent, type EventSource, type EventType } from "@/lib/events";
+import { repositories, type VacancyUpdate } from "@/lib/repositories";
+import type { VacancyStatus } from "@/lib/vacancy-status";
+import { isInFuture } from "@/lib/vacancy-schedule";
+
+/**
+ * Vacancy state machine
+ *
+ * One declarative table of every allowed status change: from which statuses,
+ * to which status, who may trigger it, guard conditions and side effects
+ * (timestamps, Webflow sync flags, event). Routes check and apply status
+ * changes through transitionVacancy(); GET /api/vacancies/[id]/transitions
+ * returns the transitions available to the current user.
+ */
+
+// ============================================
+// TYPES
+// ============================================
+
+export type VacancyTransition =
+  | "submit"
+  | "resubmit"
+  | "withdraw"
+  | "approve"
+  | "request_adjustment"
+  | "reject"
+  | "publish"
+  | "depublish"
+  | "boost"
+  | "expire"
+  | "schedule"
+  | "publish_scheduled"
+  | "depublish_scheduled";
+
+/**
+ * Who triggers a transition
+ * - employer / intermediary: dashboard users (intermediaries for their managed employers)
+ * - admin: CJ team via the admin endpoints
+ * - system: cron jobs and automations
+ */
+export type VacancyActor = "employer" | "intermediary" | "admin" | "system";
+
+type VacancyTimestampField = "submitted-at" | "first-published-at" | "last-published-at" | "depublished-at";
+
+interface VacancyTransitionDefinition {
+  label: string;
+  from: VacancyStatus[];
+  to: VacancyStatus;
+  actors: VacancyActor[];
+  /** Set to the transition time, only when the status actually changes ("first-published-at" only once) */
+  timestamps?: VacancyTimestampField[];
+  /** Webflow sync flags set with the transition */
+  flags?: Pick<VacancyUpdate, "needs_webflow_sync" | "needs_webflow_archive">;
+  /**
+   * Clear depublish_at with the transition: "always", or only when it has been
+   * reached (otherwise the cron would take the republished vacancy offline again)
+   */
+  clearDepublishAt?: "always" | "when_reached";
+  event: EventType;
+  /** Error when the vacancy is not in one of the from statuses */
+  error: string;
+  /** Extra condition; returns an error message when the transition is not possible */
+  guard?: (vacancy: VacancyRecord, now: Date) => string | null;
+}
+
+export interface AvailableVacancyTransition {
+  transition: VacancyTransition;
+  label: string;
+  to: VacancyStatus;
+  /** false when a guard condition fails (reason explains why) */
+  allowed: boolean;
+  reason: string | null;
+}
+
+export type VacancyTransitionCheck =
+  | { allowed: true; from: VacancyStatus; to: VacancyStatus }
+  | { allowed: false; error: string };
+
+export type VacancyTransitionResult =
+  | { success: true; vacancy: VacancyRecord; previous_status: VacancyStatus }
+  | { success: false; error: string };
+
+export interface TransitionVacancyOptions {
+  actor: VacancyActor;
+  actor_user_id?: string | null;
+  source?: EventSource;
+  ip_address?: string | null;
+  /** Extra fields written in the same update (e.g. rejection_reason, selected_upsells) */
+  fields?: VacancyUpdate;
+  /** Extra event payload (may override the default action) */
+  payload?: Record<string, unknown>;
+  now?: Date;
+}
+
+// ============================================
+// GUARDS
+// ============================================
+
+function requirePackage(vacancy: VacancyRecord): string | null {
+  return vacancy.package_id ? null : "Selecteer eerst een vacaturepakket";
+}
+
+/**
+ * Manual republishing needs a closing date in the future (otherwise extend via boost)
+ */
+function requireOpenClosingDate(vacancy: VacancyRecord, now: Date): string | null {
+  if (!vacancy.closing_date) return null;
+  const closingDate = new Date(vacancy.closing_date);
+  closingDate.setHours(0, 0, 0, 0);
+  const today = new Date(now);
+  today.setHours(0, 0, 0, 0);
+  return closingDate <= today
+    ? "De sluitingsdatum van deze vacature is verlopen. Gebruik de boost-optie om de looptijd te verlengen."
+    : null;
+}
+
+/**
+ * Approval publishes immediately only when publish_from is not in the future
+ */
+function requireNoFuturePublishFrom(vacancy: VacancyRecord, now: Date): string | null {
+  return isInFuture(vacancy.publish_from, now)
+    ? "Deze vacature heeft een publicatiedatum in de toekomst en moet worden ingepland"
+    : null;
+}
+
+function requireFuturePublishFrom(vacancy: VacancyRecord, now: Date): string | null {
+  return isInFuture(vacancy.publish_from, now) ? null : "Deze vacature heeft geen publicatiedatum in de toekomst";
+}
+
+function requirePublishFromReached(vacancy: VacancyRecord, now: Date): string | null {
+  return vacancy.publish_from && !isInFuture(vacancy.publish_from, now)
+    ? null
+    : "De publicatiedatum van deze vacature is nog niet bereikt";
+}
+
+function requireDepublishAtReached(vacancy: VacancyRecord, now: Date): string | null {
+  return vacancy.depublish_at && !isInFuture(vacancy.depublish_at, now)
+    ? null
+    : "De depublicatiedatum van deze vacature is nog niet bereikt";
+}
+
+// ============================================
+// TRANSITION TABLE
+// ============================================
+
+const DASHBOARD_ACTORS: VacancyActor[] = ["employer", "intermediary"];
+
+export const VACANCY_TRANSITIONS: Record<VacancyTransition, VacancyTransitionDefinition> = {
+  submit: {
+    label: "Insturen",
+    from: ["concept"],
+    to: "wacht_op_goedkeuring",
+    actors: DASHBOARD_ACTORS,
+    timestamps: ["submitted-at"],
+    event: "vacancy_created",
+    error: "Alleen concept vacatures kunnen worden ingediend",
+    guard: requirePackage,
+  },
+  resubmit: {
+    label: "Opnieuw insturen",
+    from: ["needs_adjustment"],
+    to: "wacht_op_goedkeuring",
+    actors: DASHBOARD_ACTORS,
+    event: "vacancy_updated",
+    error: "Alleen vacatures met status 'aanpassing nodig' kunnen opnieuw worden ingestuurd",
+  },
+  withdraw: {
+    label: "Intrekken",
+    from: ["wacht_op_goedkeuring"],
+    to: "concept",
+    actors: DASHBOARD_ACTORS,
+    event: "vacancy_updated",
+    error: "Alleen vacatures die wachten op goedkeuring kunnen worden ingetrokken",
+  },
+  approve: {
+    label: "Goedkeuren",
+    from: ["wacht_op_goedkeuring"],
+    to: "gepubliceerd",
+    actors: ["admin", "system"],
+    timestamps: ["first-published-at", "last-published-at"],
+    flags: { needs_webflow_sync: true },
+    event: "vacancy_publish",
+    error: "Alleen vacatures die wachten op goedkeuring kunnen worden goedgekeurd",
+    guard: requireNoFuturePublishFrom,
+  },
+  schedule: {
+    label: "Inplannen",
+    from: ["wacht_op_goedkeuring"],
+    to: "ingepland",
+    actors: ["admin", "system"],
+    event: "vacancy_updated",
+    error: "Alleen vacatures die wachten op goedkeuring kunnen worden ingepland",
+    guard: requireFuturePublishFrom,
+  },
+  publish_scheduled: {
+    label: "Ingepland publiceren",
+    from: ["ingepland"],
+    to: "gepubliceerd",
+    actors: ["system"],
+    timestamps: ["first-published-at", "last-published-at"],
+    flags: { needs_webflow_sync: true },
+    event: "vacancy_publish",
+    error: "Alleen ingeplande vacatures kunnen automatisch worden gepubliceerd",
+    guard: requirePublishFromReached,
+  },
+  request_adjustment: {
+    label: "Aanpassing vragen",
+    from: ["wacht_op_goedkeuring"],
+    to: "needs_adjustment",
+    actors: ["admin"],
+    event: "vacancy_updated",
+    error: "Alleen vacatures die wachten op goedkeuring kunnen worden teruggestuurd",
+  },
+  reject: {
+    label: "Afwijzen",
+    from: ["wacht_op_goedkeuring"],
+    to: "concept",
+    actors: ["admin"],
+    event: "vacancy_updated",
+    error: "Alleen vacatures die wachten op goedkeuring kunnen worden afgewezen",
+  },
+  publish: {
+    label: "Publiceren",
+    from: ["gedepubliceerd"],
+    to: "gepubliceerd",
+    actors: DASHBOARD_ACTORS,
+    timestamps: ["last-published-at"],
+    flags: { needs_webflow_sync: true },
+    clearDepublishAt: "when_reached",
+    event: "vacancy_publish",
+    error: "Alleen gedepubliceerde vacatures kunnen opnieuw worden gepubliceerd",
+    guard: requireOpenClosingDate,
+  },
+  depublish: {
+    label: "Depubliceren",
+    from: ["gepubliceerd"],
+    to: "gedepubliceerd",
+    actors: [...DASHBOARD_ACTORS, "admin"],
+    timestamps: ["depublished-at"],
+    flags: { needs_webflow_archive: true },
+    event: "vacancy_depublish",
+    error: "Alleen gepubliceerde vacatures kunnen offline worden gehaald",
+  },
+  boost: {
+    label: "Boosten",
+    from: ["gepubliceerd", "verlopen", "gedepubliceerd"],
+    to: "gepubliceerd",
+    actors: DASHBOARD_ACTORS,
+    timestamps: ["last-published-at"],
+    flags: { needs_webflow_sync: true },
+    clearDepublishAt: "when_reached",
+    event: "vacancy_boost",
+    error: "Alleen gepubliceerde, verlopen of gedepubliceerde vacatures kunnen worden geboost",
+  },
+  expire: {
+    label: "Laten verlopen",
+    from: ["gepubliceerd"],
+    to: "verlopen",
+    actors: ["system"],
+    flags: { needs_webflow_archive: true },
+    event: "vacancy_updated",
+    error: "Alleen gepubliceerde vacatures kunnen verlopen",
+  },
+  depublish_scheduled: {
+    label: "Ingepland depubliceren",
+    from: ["gepubliceerd"],
+    to: "gedepubliceerd",
+    actors: ["system"],
+    timestamps: ["depublished-at"],
+    flags: { needs_webflow_archive: true },
+    clearDepublishAt: "always",
+    event: "vacancy_depublish",
+    error: "Alleen gepubliceerde vacatures kunnen automatisch offline worden gehaald",
+    guard: requireDepublishAtReached,
+  },
+};
+
+// ============================================
+// CHECKS
+// ============================================
+
+/**
+ * Actor for a dashboard user
+ */
+export function getVacancyActor(user: Pick<UserRecord, "role_id">): VacancyActor {
+  return user.role_id === "intermediary" ? "intermediary" : "employer";
+}
+
+/**
+ * Check whether an actor may apply a transition to a vacancy in its current status
+ */
+export function checkVacancyTransition(
+  vacancy: VacancyRecord,
+  transition: VacancyTransition,
+  actor: VacancyActor,
+  now: Date = new Date()
+): VacancyTransitionCheck {
+  const definition = VACANCY_TRANSITIONS[transition];
+  if (!definition.actors.includes(actor)) {
+    return { allowed: false, error: "Je hebt geen rechten voor deze actie" };
+  }
+  if (!definition.from.includes(vacancy.status)) {
+    return { allowed: false, error: definition.error };
+  }
+  const guardError = definition.guard?.(vacancy, now) ?? null;
+  if (guardError) {
+    return { allowed: false, error: guardError };
+  }
+  return { allowed: true, from: vacancy.status, to: definition.to };
+}
+
+/**
+ * Transitions an actor can start from the vacancy's current status
+ * Transitions blocked by a guard are included with allowed: false and the reason
+ */
+export function getAvailableTransitions(
+  vacancy: VacancyRecord,
+  actor: VacancyActor,
+  now: Date = new Date()
+): AvailableVacancyTransition[] {
+  return (Object.entries(VACANCY_TRANSITIONS) as [VacancyTransition, VacancyTransitionDefinition][])
+    .filter(([, definition]) => definition.actors.includes(actor) && definition.from.includes(vacancy.status))
+    .map(([transition, definition]) => {
+      const reason = definition.guard?.(vacancy, now) ?? null;
+      return {
+        transition,
+        label: definition.label,
+        to: definition.to,
+        allowed: !reason,
+        reason,
+      };
+    });
+}
+
+/**
+ * Status, timestamps, flags and schedule changes written by a transition
+ */
+function buildTransitionUpdate(
+  vacancy: VacancyRecord,
+  definition: VacancyTransitionDefinition,
+  now: Date
+): VacancyUpdate {
+  const update: VacancyUpdate = { ...definition.flags };
+  if (
+    vacancy.depublish_at &&
+    (definition.clearDepublishAt === "always" ||
+      (definition.clearDepublishAt === "when_reached" && !isInFuture(vacancy.depublish_at, now)))
+  ) {
+    update.depublish_at = null;
+  }
+  if (vacancy.status === definition.to) {
+    return update;
+  }
+
+  update.status = definition.to;
+  const timestamp = now.toISOString();
+  for (const field of definition.timestamps || []) {
+    if (field === "first-published-at" && vacancy["first-published-at"]) continue;
+    update[field] = timestamp;
+  }
+  return update;
+}
+
+// ============================================
+// APPLY
+// ============================================
+
+/**
+ * Check and apply a transition: one vacancy update (status, side effects and
+ * extra fields) plus the transition's event
+ */
+export async function transitionVacancy(
+  vacancy: VacancyRecord,
+  transition: VacancyTransition,
+  options: TransitionVacancyOptions
+): Promise<VacancyTransitionResult> {
+  const now = options.now ?? new Date();
+  const check = checkVacancyTransition(vacancy, transition, options.actor, now);
+  if (!check.allowed) {
+    return { success: false, error: check.error };
+  }
+
+  const definition = VACANCY_TRANSITIONS[transition];
+  const updatedVacancy = await repositories.vacancies.update(vacancy.id, {
+    ...options.fields,
+    ...buildTransitionUpdate(vacancy, definition, now),
+  });
+
+  await logEvent({
+    event_type: definition.event,
+    actor_user_id: options.actor_user_id ?? null,
+    employer_id: vacancy.employer_id || null,
+    vacancy_id: vacancy.id,
+    source: options.source ?? (options.actor === "admin" ? "admin" : options.actor === "system" ? "system" : "web"),
+    ip_address: options.ip_address ?? null,
+    payload: {
+      action: transition,
+      previous_status: check.from,
+      new_status: check.to,
+      ...options.payload,
+    },
+  });
+
+  return { success: true, vacancy: updatedVacancy, previous_status: check.from };
+}
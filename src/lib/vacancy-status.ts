@@ -0,0 +1,62 @@
+/**
+ * Vacancy statuses (single source of truth)
+ *
+ * Used by the Airtable schema, the state machine (lib/vacancy-state-machine.ts)
+ * and the UI. Client-safe: no server imports.
+ */
+
+export const VACANCY_STATUSES = [
+  "concept",
+  "incompleet",
+  "needs_adjustment",
+  "wacht_op_goedkeuring",
+  "ingepland",
+  "gepubliceerd",
+  "verlopen",
+  "gedepubliceerd",
+] as const;
+
+export type VacancyStatus = (typeof VACANCY_STATUSES)[number];
+
+/**
+ * Statuses of vacancies that have been submitted at least once (past the concept stage)
+ */
+export const SUBMITTED_VACANCY_STATUSES: VacancyStatus[] = [
+  "wacht_op_goedkeuring",
+  "ingepland",
+  "gepubliceerd",
+  "verlopen",
+  "gedepubliceerd",
+];
+
+export function isSubmittedVacancyStatus(status: string): boolean {
+  return (SUBMITTED_VACANCY_STATUSES as string[]).includes(status);
+}
+
+/**
+ * Application status (Dutch) → Airtable status (English)
+ * "incompleet" is stored as needs_adjustment (legacy status)
+ */
+export const VACANCY_STATUS_TO_AIRTABLE: Record<VacancyStatus, string> = {
+  concept: "concept",
+  incompleet: "needs_adjustment",
+  needs_adjustment: "needs_adjustment",
+  wacht_op_goedkeuring: "awaiting_approval",
+  ingepland: "scheduled",
+  gepubliceerd: "published",
+  verlopen: "expired",
+  gedepubliceerd: "unpublished",
+};
+
+/**
+ * Airtable status → application status (reverse of the map above)
+ */
+export const VACANCY_STATUS_FROM_AIRTABLE: Record<string, VacancyStatus> = {
+  concept: "concept",
+  awaiting_approval: "wacht_op_goedkeuring",
+  scheduled: "ingepland",
+  published: "gepubliceerd",
+  expired: "verlopen",
+  unpublished: "gedepubliceerd",
+  needs_adjustment: "needs_adjustment",
+};
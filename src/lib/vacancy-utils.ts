@@ -4,16 +4,14 @@ import {
   EyeOff,
   Rocket,
   ArrowUpFromLine,
+  CalendarClock,
+  Copy,
+  BookmarkPlus,
 } from "lucide-react"
 
-export type VacancyStatus =
-  | "concept"
-  | "incompleet"
-  | "needs_adjustment"
-  | "wacht_op_goedkeuring"
-  | "gepubliceerd"
-  | "verlopen"
-  | "gedepubliceerd"
+import { isSubmittedVacancyStatus, type VacancyStatus } from "@/lib/vacancy-status"
+
+export type { VacancyStatus }
 
 export interface StatusConfig {
   label: string
@@ -43,6 +41,11 @@ export const statusConfig: Record<VacancyStatus, StatusConfig> = {
     variant: "info",
     showCredits: true,
   },
+  ingepland: {
+    label: "Ingepland",
+    variant: "info",
+    showCredits: true,
+  },
   gepubliceerd: {
     label: "Gepubliceerd",
     variant: "success",
@@ -64,15 +67,32 @@ export const statusConfig: Record<VacancyStatus, StatusConfig> = {
 export interface VacancyAction {
   label: string
   icon: React.ComponentType<{ className?: string }>
-  action: "wijzigen" | "bekijken" | "boosten" | "publiceren" | "depubliceren"
+  action: "wijzigen" | "bekijken" | "boosten" | "publiceren" | "depubliceren" | "plannen"
+    | "dupliceren" | "sjabloon"
   iconOnly?: boolean
 }
 
+/**
+ * Actions shared by every status, appended after the status specific actions
+ */
+const sharedActions: VacancyAction[] = [
+  { label: "Dupliceren", icon: Copy, action: "dupliceren", iconOnly: true },
+  { label: "Opslaan als sjabloon", icon: BookmarkPlus, action: "sjabloon", iconOnly: true },
+]
+
+function withSharedActions(
+  actionsPerStatus: Record<VacancyStatus, VacancyAction[]>
+): Record<VacancyStatus, VacancyAction[]> {
+  return Object.fromEntries(
+    Object.entries(actionsPerStatus).map(([status, actions]) => [status, [...actions, ...sharedActions]])
+  ) as Record<VacancyStatus, VacancyAction[]>
+}
+
 /**
  * Actions for table views (dashboard overview, vacatures page).
  * Concept/incompleet/needs_adjustment only show "Wijzigen" — no "Bekijken" since there's nothing to preview.
  */
-export const tableActionsPerStatus: Record<VacancyStatus, VacancyAction[]> = {
+export const tableActionsPerStatus = withSharedActions({
   concept: [
     { label: "Wijzigen", icon: Pencil, action: "wijzigen", iconOnly: true },
   ],
@@ -83,10 +103,16 @@ export const tableActionsPerStatus: Record<VacancyStatus, VacancyAction[]> = {
     { label: "Wijzigen", icon: Pencil, action: "wijzigen", iconOnly: true },
   ],
   wacht_op_goedkeuring: [
+    { label: "Publicatie plannen", icon: CalendarClock, action: "plannen", iconOnly: true },
+    { label: "Bekijken", icon: Eye, action: "bekijken", iconOnly: true },
+  ],
+  ingepland: [
+    { label: "Publicatie plannen", icon: CalendarClock, action: "plannen", iconOnly: true },
     { label: "Bekijken", icon: Eye, action: "bekijken", iconOnly: true },
   ],
   gepubliceerd: [
     { label: "Depubliceren", icon: EyeOff, action: "depubliceren", iconOnly: true },
+    { label: "Publicatie plannen", icon: CalendarClock, action: "plannen", iconOnly: true },
     { label: "Wijzigen", icon: Pencil, action: "wijzigen", iconOnly: true },
     { label: "Bekijk live vacature", icon: Eye, action: "bekijken", iconOnly: true },
     { label: "Boosten", icon: Rocket, action: "boosten", iconOnly: false },
@@ -99,14 +125,15 @@ export const tableActionsPerStatus: Record<VacancyStatus, VacancyAction[]> = {
     { label: "Boosten", icon: Rocket, action: "boosten", iconOnly: false },
     { label: "Publiceren", icon: ArrowUpFromLine, action: "publiceren", iconOnly: false },
     { label: "Wijzigen", icon: Pencil, action: "wijzigen", iconOnly: true },
+    { label: "Publicatie plannen", icon: CalendarClock, action: "plannen", iconOnly: true },
   ],
-}
+})
 
 /**
  * Actions for card views (VacancyCard component).
  * Includes "Bekijken" on more statuses since cards are used in detailed contexts.
  */
-export const cardActionsPerStatus: Record<VacancyStatus, VacancyAction[]> = {
+export const cardActionsPerStatus = withSharedActions({
   concept: [
     { label: "Wijzigen", icon: Pencil, action: "wijzigen", iconOnly: true },
     { label: "Bekijken", icon: Eye, action: "bekijken", iconOnly: true },
@@ -120,10 +147,16 @@ export const cardActionsPerStatus: Record<VacancyStatus, VacancyAction[]> = {
     { label: "Bekijken", icon: Eye, action: "bekijken", iconOnly: true },
   ],
   wacht_op_goedkeuring: [
+    { label: "Publicatie plannen", icon: CalendarClock, action: "plannen", iconOnly: true },
+    { label: "Bekijken", icon: Eye, action: "bekijken", iconOnly: true },
+  ],
+  ingepland: [
+    { label: "Publicatie plannen", icon: CalendarClock, action: "plannen", iconOnly: true },
     { label: "Bekijken", icon: Eye, action: "bekijken", iconOnly: true },
   ],
   gepubliceerd: [
     { label: "Depubliceren", icon: EyeOff, action: "depubliceren", iconOnly: true },
+    { label: "Publicatie plannen", icon: CalendarClock, action: "plannen", iconOnly: true },
     { label: "Wijzigen", icon: Pencil, action: "wijzigen", iconOnly: true },
     { label: "Bekijken", icon: Eye, action: "bekijken", iconOnly: true },
     { label: "Boosten", icon: Rocket, action: "boosten", iconOnly: false },
@@ -135,9 +168,10 @@ export const cardActionsPerStatus: Record<VacancyStatus, VacancyAction[]> = {
   gedepubliceerd: [
     { label: "Publiceren", icon: ArrowUpFromLine, action: "publiceren", iconOnly: false },
     { label: "Wijzigen", icon: Pencil, action: "wijzigen", iconOnly: true },
+    { label: "Publicatie plannen", icon: CalendarClock, action: "plannen", iconOnly: true },
     { label: "Bekijken", icon: Eye, action: "bekijken", iconOnly: true },
   ],
-}
+})
 
 export function getDaysRemaining(closingDate: Date): number {
   const now = new Date()
@@ -160,7 +194,8 @@ export function formatDate(date: Date): string {
 export function getPublicationInfoText(
   status: VacancyStatus,
   publishedAt?: string,
-  closingDate?: string
+  closingDate?: string,
+  publishFrom?: string
 ): string | null {
   switch (status) {
     case "concept":
@@ -169,6 +204,11 @@ export function getPublicationInfoText(
       return "Aanpassing nodig"
     case "wacht_op_goedkeuring":
       return null
+    case "ingepland":
+      if (publishFrom) {
+        return `Online vanaf ${formatDate(new Date(publishFrom))}`
+      }
+      return null
     case "gepubliceerd":
       if (publishedAt) {
         return `Laatst gepubliceerd op ${formatDate(new Date(publishedAt))} · Online`
@@ -196,13 +236,19 @@ export function getPublicationInfoText(
 export function getPublicationInfoForCard(
   status: VacancyStatus,
   publishedAt?: Date,
-  closingDate?: Date
+  closingDate?: Date,
+  publishFrom?: Date
 ): { iconType: "calendar" | "clock"; text: string } | null {
   switch (status) {
     case "concept":
     case "needs_adjustment":
     case "wacht_op_goedkeuring":
       return { iconType: "calendar", text: "Nog niet online" }
+    case "ingepland":
+      return {
+        iconType: "calendar",
+        text: publishFrom ? `Ingepland · Online vanaf ${formatDate(publishFrom)}` : "Ingepland",
+      }
     case "gepubliceerd":
       if (publishedAt && closingDate) {
         const daysRemaining = getDaysRemaining(closingDate)
@@ -240,18 +286,10 @@ interface VacancyForStep {
   status: VacancyStatus
 }
 
-const SUBMITTED_STATUSES: VacancyStatus[] = [
-  "wacht_op_goedkeuring",
-  "gepubliceerd",
-  "verlopen",
-  "gedepubliceerd",
-  "needs_adjustment",
-]
-
 export function getFurthestStep(vacancy: VacancyForStep): 1 | 2 | 3 | 4 {
   if (!vacancy.package_id) return 1
   if (!vacancy.title || !vacancy.description) return 2
-  if (SUBMITTED_STATUSES.includes(vacancy.status)) return 2
+  if (isSubmittedVacancyStatus(vacancy.status) || vacancy.status === "needs_adjustment") return 2
   return 2
 }
 
@@ -0,0 +1,257 @@
+import type {
+  EmployerRecord,
+  FAQRecord,
+  FeatureRecord,
+  LookupRecord,
+  MediaAssetRecord,
+  ProductRecord,
+  VacancyRecord,
+} from "@/lib/airtable";
+import type { WebflowFieldData } from "@/lib/webflow";
+import { normalizeUrl } from "@/lib/utils";
+
+/**
+ * Airtable → Webflow field mappings (prd-n8n-webflow-sync.md, "Field Mappings")
+ *
+ * Pure functions: references to other collections and media assets are resolved
+ * by the caller (lib/webflow-sync.ts) and passed in. Slugs are stored on the records
+ * (lib/slugs.ts) and added by the sync. The SEO texts are stored on the records too
+ * (lib/seo.ts); the sync generates missing ones before mapping.
+ */
+
+/** A vacancy keeps the "new" label for this many days after its first publication */
+export const NEW_VACANCY_LABEL_DAYS = 3;
+
+/** Option values of the Products "type" field */
+const PRODUCT_TYPE_OPTIONS: Partial<Record<ProductRecord["type"], string>> = {
+  vacancy_package: "Vacancy package",
+  credit_bundle: "Credit bundle",
+};
+
+/** Webflow Image / File field value */
+export interface WebflowImage {
+  url: string;
+  alt?: string;
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+/** Empty strings clear the Webflow field */
+function textOrNull(value: string | null | undefined): string | null {
+  return value && value.trim() ? value : null;
+}
+
+/** ISO 8601 for Webflow DateTime fields */
+function toWebflowDate(value: string | null | undefined): string | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+/** Permanent Cloudinary URL, otherwise the (temporary) Airtable attachment URL */
+export function getMediaAssetUrl(asset: MediaAssetRecord | null | undefined): string | null {
+  if (!asset) return null;
+  return asset.cloudinary_url || asset.file?.[0]?.url || null;
+}
+
+function getMediaAssetAlt(asset: MediaAssetRecord | null | undefined): string | null {
+  return typeof asset?.alt_text === "string" && asset.alt_text.trim() ? asset.alt_text : null;
+}
+
+function toWebflowImage(asset: MediaAssetRecord | null | undefined, alt: string | null): WebflowImage | null {
+  const url = getMediaAssetUrl(asset);
+  if (!url) return null;
+  return alt ? { url, alt } : { url };
+}
+
+function toWebflowImages(ids: string[] | undefined, assets: Map<string, MediaAssetRecord>): WebflowImage[] {
+  return (ids || [])
+    .map((id) => assets.get(id))
+    .map((asset) => toWebflowImage(asset, getMediaAssetAlt(asset)))
+    .filter((image): image is WebflowImage => !!image);
+}
+
+/** Rich text fields expect HTML; plain text is wrapped in a paragraph */
+function toRichText(value: string | null | undefined): string | null {
+  const text = textOrNull(value);
+  if (!text) return null;
+  return text.trim().startsWith("<") ? text : `<p>${text}</p>`;
+}
+
+/**
+ * Whether a vacancy gets the "new" label: first published less than NEW_VACANCY_LABEL_DAYS ago
+ */
+export function isNewVacancy(vacancy: VacancyRecord, now: Date = new Date()): boolean {
+  const publishedAt = vacancy["first-published-at"];
+  if (!publishedAt) return false;
+  return now.getTime() - new Date(publishedAt).getTime() < NEW_VACANCY_LABEL_DAYS * 24 * 60 * 60 * 1000;
+}
+
+// ============================================
+// COLLECTION MAPPINGS
+// ============================================
+
+export interface VacancyWebflowReferences {
+  employer: EmployerRecord | null;
+  employerItemId: string | null;
+  /** Webflow item IDs of the vacancy's lookups */
+  educationLevelItemId: string | null;
+  fieldItemId: string | null;
+  functionTypeItemId: string | null;
+  regionItemId: string | null;
+  sectorItemId: string | null;
+  /** Header image, gallery and contact photo */
+  mediaAssets: Map<string, MediaAssetRecord>;
+}
+
+/**
+ * Vacancies collection
+ */
+export function mapVacancyToWebflow(
+  vacancy: VacancyRecord,
+  refs: VacancyWebflowReferences,
+  now: Date = new Date()
+): WebflowFieldData {
+  const headerImage = vacancy.header_image ? refs.mediaAssets.get(vacancy.header_image) : null;
+  const contactPhoto = vacancy.contact_photo_id ? refs.mediaAssets.get(vacancy.contact_photo_id) : null;
+  const title = vacancy.title || "";
+
+  return {
+    name: title,
+    content: textOrNull(vacancy.description),
+    "vacancy-location": textOrNull(vacancy.location),
+    "vacancy-hours": textOrNull(vacancy.hrs_per_week),
+    "vacancy-salary": textOrNull(vacancy.salary),
+    "closing-date": toWebflowDate(vacancy.closing_date),
+    "date-added": toWebflowDate(vacancy["first-published-at"]),
+    "contact-full-name": textOrNull(vacancy.contact_name),
+    "contact-role": textOrNull(vacancy.contact_role),
+    "contact-company": refs.employer ? textOrNull(getEmployerWebflowName(refs.employer)) : null,
+    "contact-email": textOrNull(vacancy.contact_email),
+    "contact-phone": textOrNull(vacancy.contact_phone),
+    "contact-photo": toWebflowImage(contactPhoto, null),
+    "contact-photo---alt-tekst": vacancy.contact_name ? `Foto van ${vacancy.contact_name}` : null,
+    "apply-link": vacancy.apply_url ? normalizeUrl(vacancy.apply_url) : null,
+    "apply-apply-form-visible": vacancy.show_apply_form,
+    "hero-card-visual": toWebflowImage(headerImage, null),
+    "hero-card-alt-text": headerImage ? getMediaAssetAlt(headerImage) || title : null,
+    "images-slider": toWebflowImages(vacancy.gallery, refs.mediaAssets),
+    employer: refs.employerItemId,
+    "vacancy-function-types": refs.functionTypeItemId ? [refs.functionTypeItemId] : [],
+    "vacancy-education-level": refs.educationLevelItemId ? [refs.educationLevelItemId] : [],
+    "vacancy-fields": refs.fieldItemId ? [refs.fieldItemId] : [],
+    "vacancy-regions": refs.regionItemId ? [refs.regionItemId] : [],
+    "vacancy-sectors": refs.sectorItemId ? [refs.sectorItemId] : [],
+    featured: vacancy.is_featured,
+    new: isNewVacancy(vacancy, now),
+    "seo-title": textOrNull(vacancy.seo_title),
+    "seo-meta-description": textOrNull(vacancy.seo_meta_description),
+  };
+}
+
+export interface EmployerWebflowReferences {
+  sectorItemId: string | null;
+  /** Webflow FAQ item IDs in the employer's FAQ order */
+  faqItemIds: string[];
+  /** Logo, header image and gallery */
+  mediaAssets: Map<string, MediaAssetRecord>;
+}
+
+/**
+ * Display name of an employer on the website
+ */
+export function getEmployerWebflowName(employer: EmployerRecord): string {
+  return employer.display_name || employer.company_name || "";
+}
+
+/**
+ * Employers collection
+ */
+export function mapEmployerToWebflow(employer: EmployerRecord, refs: EmployerWebflowReferences): WebflowFieldData {
+  const name = getEmployerWebflowName(employer);
+  const logo = employer.logo?.[0] ? refs.mediaAssets.get(employer.logo[0]) : null;
+  const headerImage = employer.header_image?.[0] ? refs.mediaAssets.get(employer.header_image[0]) : null;
+
+  return {
+    name,
+    content: toRichText(employer.short_description),
+    location: textOrNull(employer.location),
+    website: employer.website_url ? normalizeUrl(employer.website_url) : null,
+    logo: toWebflowImage(logo, null),
+    "logo-alt-text": logo ? `${employer.company_name || name} logo` : null,
+    "hero-visual": toWebflowImage(headerImage, null),
+    "hero-visual---alt-text": headerImage ? getMediaAssetAlt(headerImage) || name : null,
+    images: toWebflowImages(employer.gallery, refs.mediaAssets),
+    sector: refs.sectorItemId,
+    faq: refs.faqItemIds,
+    "video-link": employer.video_url ? normalizeUrl(employer.video_url) : null,
+    "seo-title": textOrNull(employer.seo_title),
+    "seo-meta-description": textOrNull(employer.seo_meta_description),
+  };
+}
+
+/**
+ * FAQs collection
+ */
+export function mapFAQToWebflow(faq: FAQRecord): WebflowFieldData {
+  return {
+    name: faq.question,
+    answer: toRichText(faq.answer),
+    "button---visibility": false,
+  };
+}
+
+/**
+ * Lookup collections (sectors, regions, fields, function types, education levels)
+ */
+export function mapLookupToWebflow(record: LookupRecord): WebflowFieldData {
+  return {
+    name: record.name,
+    "seo-title": textOrNull(record.seo_title),
+    "seo-meta-description": textOrNull(record.seo_meta_description),
+  };
+}
+
+/**
+ * Option name of a product type in Webflow, null for types that aren't on the website (upsells)
+ */
+export function getProductTypeOption(type: ProductRecord["type"]): string | null {
+  return PRODUCT_TYPE_OPTIONS[type] || null;
+}
+
+/**
+ * Products collection
+ * @param typeOptionId Webflow option ID for the product type
+ * @param featureItemIds Webflow item IDs of the product's features
+ */
+export function mapProductToWebflow(
+  product: ProductRecord,
+  typeOptionId: string | null,
+  featureItemIds: string[]
+): WebflowFieldData {
+  return {
+    name: product.display_name,
+    type: typeOptionId,
+    credits: product.credits,
+    "base-price": product.base_price ?? null,
+    price: product.price,
+    "discount-percentage": product.discount_percentage ?? null,
+    "sort-order": product.sort_order,
+    features: featureItemIds,
+  };
+}
+
+/**
+ * Features collection
+ * @param categoryOptionId Webflow option ID for package_category
+ */
+export function mapFeatureToWebflow(feature: FeatureRecord, categoryOptionId: string | null): WebflowFieldData {
+  return {
+    name: feature.display_name,
+    "duration-days": feature.duration_days ?? null,
+    "sort-order": feature.sort_order,
+    categorie: categoryOptionId,
+  };
+}
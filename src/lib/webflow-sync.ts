@@ -0,0 +1,682 @@
+import type {
+  EmployerRecord,
+  FAQRecord,
+  FeatureRecord,
+  LookupRecord,
+  LookupType,
+  MediaAssetRecord,
+  ProductRecord,
+  VacancyRecord,
+} from "@/lib/airtable";
+import { repositories } from "@/lib/repositories";
+import { logEvent } from "@/lib/events";
+import { getErrorMessage } from "@/lib/utils";
+import {
+  ensureEmployerSlug,
+  ensureFAQSlug,
+  ensureVacancySlug,
+  getLookupSlug,
+  getSlugCandidates,
+  getVacancyPublicUrl,
+} from "@/lib/slugs";
+import { ensureEmployerSeo, ensureVacancySeo, getLookupSeo } from "@/lib/seo";
+import {
+  createWebflowItem,
+  getWebflowCollectionFields,
+  isWebflowNotFound,
+  isWebflowSlugConflict,
+  listWebflowItems,
+  publishWebflowItems,
+  unpublishWebflowItem,
+  updateWebflowItem,
+  type WebflowCollection,
+  type WebflowCollectionField,
+  type WebflowFieldData,
+  type WebflowItem,
+} from "@/lib/webflow";
+import {
+  getEmployerWebflowName,
+  getProductTypeOption,
+  mapEmployerToWebflow,
+  mapFAQToWebflow,
+  mapFeatureToWebflow,
+  mapLookupToWebflow,
+  mapProductToWebflow,
+  mapVacancyToWebflow,
+} from "@/lib/webflow-mapping";
+
+/**
+ * Webflow CMS sync (replaces the n8n workflows of prd-n8n-webflow-sync.md)
+ *
+ * Every synced Airtable record keeps the ID of its Webflow item in webflow_item_id;
+ * references between collections are resolved through that field. Slugs come from
+ * the record (lib/slugs.ts); a record without one adopts the slug of its existing item.
+ * SEO texts are generated and stored on the record before its first sync (lib/seo.ts).
+ * - syncWebflowCatalog: lookups, features and products. Unchanged items are skipped,
+ *   items whose record is gone (or inactive) are archived.
+ * - syncPendingWebflowItems: employers flagged with needs_webflow_sync (FAQs included)
+ *   and vacancies flagged with needs_webflow_sync / needs_webflow_archive. Published
+ *   vacancies are created or updated and published, all others are archived. The flags
+ *   are cleared once Webflow is up to date; on a failure they stay for the next run.
+ * A reference without a Webflow item (e.g. a new sector or employer) is synced first.
+ */
+
+/** Per run, like the n8n catch-all (Webflow allows 60 requests per minute) */
+export const MAX_PENDING_ITEMS_PER_RUN = 10;
+
+const LOOKUP_TYPES: LookupType[] = ["sectors", "regions", "fields", "functionTypes", "educationLevels"];
+
+const WEBFLOW_PUBLISH_BATCH_SIZE = 100;
+
+export type WebflowSyncAction = "create" | "update" | "archive" | "unchanged" | "skipped";
+
+export interface WebflowSyncItemResult {
+  collection: WebflowCollection;
+  record_id: string;
+  action: WebflowSyncAction;
+  webflow_item_id: string | null;
+  error?: string;
+}
+
+export interface WebflowSyncReport {
+  succeeded: number;
+  failed: number;
+  results: WebflowSyncItemResult[];
+}
+
+/**
+ * Records and Webflow IDs loaded during one run
+ */
+interface SyncContext {
+  lookups: Map<string, { type: LookupType; record: LookupRecord }>;
+  employers: Map<string, EmployerRecord>;
+  results: WebflowSyncItemResult[];
+}
+
+async function createSyncContext(): Promise<SyncContext> {
+  const all = await repositories.lookups.getAll();
+  const lookups = new Map<string, { type: LookupType; record: LookupRecord }>();
+  for (const type of LOOKUP_TYPES) {
+    for (const record of all[type]) {
+      lookups.set(record.id, { type, record });
+    }
+  }
+  return { lookups, employers: new Map(), results: [] };
+}
+
+function buildReport(results: WebflowSyncItemResult[]): WebflowSyncReport {
+  const failed = results.filter((result) => result.error).length;
+  return { succeeded: results.length - failed, failed, results };
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Create an item with the record's slug; if an item unknown to the app already
+ * has that slug, the next free candidate is used (the caller stores the item's slug)
+ */
+async function createWithUniqueSlug(
+  collection: WebflowCollection,
+  fieldData: WebflowFieldData,
+  slug: string,
+  fallbackSlugs: Iterable<string>,
+  takenSlugs?: Set<string>
+): Promise<WebflowItem> {
+  const tried = new Set<string>();
+  for (const candidate of [slug, ...fallbackSlugs]) {
+    if (tried.has(candidate) || takenSlugs?.has(candidate)) continue;
+    tried.add(candidate);
+    try {
+      const item = await createWebflowItem(collection, { ...fieldData, slug: candidate });
+      takenSlugs?.add(candidate);
+      return item;
+    } catch (error: unknown) {
+      if (!isWebflowSlugConflict(error)) throw error;
+    }
+  }
+  throw new Error(`No free slug for "${slug}" in ${collection}`);
+}
+
+interface ItemSlug {
+  /** Stored slug of the record, if any */
+  current: string | null | undefined;
+  /** Assign and store the record's slug (for a new item) */
+  assign: () => Promise<string>;
+  /** Candidates when the slug is taken in Webflow */
+  fallbacks: () => Iterable<string>;
+}
+
+/**
+ * Update the item, or create it when there is none (or it was deleted in Webflow)
+ * Archived items are restored. The stored slug is sent along, so a changed slug
+ * moves the item; without one the item keeps its slug
+ */
+async function upsertItem(
+  collection: WebflowCollection,
+  webflowItemId: string | null | undefined,
+  fieldData: WebflowFieldData,
+  slug: ItemSlug
+): Promise<{ item: WebflowItem; action: "create" | "update" }> {
+  if (webflowItemId) {
+    try {
+      const item = await updateWebflowItem(collection, webflowItemId, {
+        fieldData: slug.current ? { ...fieldData, slug: slug.current } : fieldData,
+        isArchived: false,
+      });
+      return { item, action: "update" };
+    } catch (error: unknown) {
+      if (!isWebflowNotFound(error)) throw error;
+      console.warn(`[Webflow] ${collection} item ${webflowItemId} not found, creating a new one`);
+    }
+  }
+
+  const item = await createWithUniqueSlug(
+    collection,
+    fieldData,
+    slug.current || await slug.assign(),
+    slug.fallbacks()
+  );
+  return { item, action: "create" };
+}
+
+/**
+ * Archive an item and take it off the live site (the slug stays reserved,
+ * so republishing restores the same URL)
+ */
+async function archiveItem(collection: WebflowCollection, webflowItemId: string): Promise<boolean> {
+  try {
+    await updateWebflowItem(collection, webflowItemId, { isArchived: true });
+  } catch (error: unknown) {
+    if (isWebflowNotFound(error)) return false;
+    throw error;
+  }
+  await unpublishWebflowItem(collection, webflowItemId);
+  return true;
+}
+
+async function publishItems(collection: WebflowCollection, itemIds: string[]): Promise<void> {
+  for (let i = 0; i < itemIds.length; i += WEBFLOW_PUBLISH_BATCH_SIZE) {
+    await publishWebflowItems(collection, itemIds.slice(i, i + WEBFLOW_PUBLISH_BATCH_SIZE));
+  }
+}
+
+/** Whether the item already has these values (compared as JSON) */
+function hasSameFieldData(item: WebflowItem, fieldData: WebflowFieldData): boolean {
+  return Object.entries(fieldData).every(
+    ([key, value]) => JSON.stringify(item.fieldData[key] ?? null) === JSON.stringify(value ?? null)
+  );
+}
+
+/**
+ * Webflow option ID for an option name; Option fields store the ID
+ */
+function getOptionId(fields: WebflowCollectionField[], fieldSlug: string, optionName: string | null | undefined): string | null {
+  if (!optionName) return null;
+  const field = fields.find((f) => f.slug === fieldSlug);
+  const option = field?.validations?.options?.find((o) => o.name.toLowerCase() === optionName.toLowerCase());
+  if (!option) {
+    console.warn(`[Webflow] Unknown option "${optionName}" for field ${fieldSlug}`);
+    return null;
+  }
+  return option.id;
+}
+
+async function getMediaAssetMap(ids: (string | null | undefined)[]): Promise<Map<string, MediaAssetRecord>> {
+  const uniqueIds = Array.from(new Set(ids.filter((id): id is string => !!id)));
+  if (uniqueIds.length === 0) return new Map();
+  const assets = await repositories.mediaAssets.getByIds(uniqueIds);
+  return new Map(assets.map((asset) => [asset.id, asset]));
+}
+
+// ============================================
+// LOOKUPS, FEATURES & PRODUCTS
+// ============================================
+
+function getLookupRecords(ctx: SyncContext, type: LookupType): LookupRecord[] {
+  return Array.from(ctx.lookups.values())
+    .filter((entry) => entry.type === type)
+    .map((entry) => entry.record);
+}
+
+/**
+ * Generate and store the SEO texts of a lookup record that has none
+ */
+async function ensureLookupSeo(type: LookupType, record: LookupRecord): Promise<void> {
+  if (record.seo_title && record.seo_meta_description) return;
+  const texts = await getLookupSeo(type, record);
+  await repositories.lookups.setWebflowFields(type, record.id, texts);
+  Object.assign(record, texts);
+}
+
+/**
+ * Webflow item ID of a lookup record, creating the item first if needed
+ */
+async function ensureLookupItem(ctx: SyncContext, id: string | null | undefined): Promise<string | null> {
+  if (!id) return null;
+  const entry = ctx.lookups.get(id);
+  if (!entry) return null;
+  if (entry.record.webflow_item_id) return entry.record.webflow_item_id;
+
+  const siblings = getLookupRecords(ctx, entry.type);
+  await ensureLookupSeo(entry.type, entry.record);
+  const item = await createWithUniqueSlug(
+    entry.type,
+    mapLookupToWebflow(entry.record),
+    await getLookupSlug(entry.record, siblings),
+    getSlugCandidates(entry.record.name)
+  );
+  await publishItems(entry.type, [item.id]);
+  const fields = { webflow_item_id: item.id, slug: item.fieldData.slug || null };
+  await repositories.lookups.setWebflowFields(entry.type, entry.record.id, fields);
+  Object.assign(entry.record, fields);
+  ctx.results.push({ collection: entry.type, record_id: entry.record.id, action: "create", webflow_item_id: item.id });
+  return item.id;
+}
+
+/**
+ * Sync all records of a catalog collection: create new items, update changed ones,
+ * archive items without a record, then publish the changes
+ */
+async function syncCatalogCollection<T extends { id: string; webflow_item_id?: string | null }>(
+  ctx: SyncContext,
+  collection: WebflowCollection,
+  records: T[],
+  options: {
+    getName: (record: T) => string;
+    toFieldData: (record: T) => WebflowFieldData;
+    /** Slug for a new item (default: from the name) */
+    getSlug?: (record: T) => Promise<string>;
+    /** Store the item ID (and slug) on the record when they changed */
+    saveItem: (record: T, item: WebflowItem) => Promise<void>;
+  }
+): Promise<void> {
+  const items = await listWebflowItems(collection);
+  const itemsById = new Map(items.map((item) => [item.id, item]));
+  const takenSlugs = new Set(items.map((item) => item.fieldData.slug).filter((slug): slug is string => !!slug));
+  const linkedItemIds = new Set<string>();
+  const toPublish: string[] = [];
+
+  for (const record of records) {
+    try {
+      const fieldData = options.toFieldData(record);
+      const existing = record.webflow_item_id ? itemsById.get(record.webflow_item_id) : undefined;
+
+      if (existing && !existing.isArchived && hasSameFieldData(existing, fieldData)) {
+        await options.saveItem(record, existing);
+        linkedItemIds.add(existing.id);
+        ctx.results.push({ collection, record_id: record.id, action: "unchanged", webflow_item_id: existing.id });
+        continue;
+      }
+
+      let item: WebflowItem;
+      let action: "create" | "update";
+      if (existing) {
+        item = await updateWebflowItem(collection, existing.id, { fieldData, isArchived: false });
+        action = "update";
+      } else {
+        const candidates = getSlugCandidates(options.getName(record));
+        const slug = options.getSlug ? await options.getSlug(record) : candidates.next().value || "item";
+        item = await createWithUniqueSlug(collection, fieldData, slug, candidates, takenSlugs);
+        action = "create";
+      }
+      await options.saveItem(record, item);
+
+      linkedItemIds.add(item.id);
+      toPublish.push(item.id);
+      ctx.results.push({ collection, record_id: record.id, action, webflow_item_id: item.id });
+    } catch (error: unknown) {
+      console.error(`[Webflow] Failed to sync ${collection} record ${record.id}:`, getErrorMessage(error));
+      // The record still exists: keep its item out of the orphan archiving below
+      if (record.webflow_item_id) linkedItemIds.add(record.webflow_item_id);
+      ctx.results.push({
+        collection,
+        record_id: record.id,
+        action: "skipped",
+        webflow_item_id: record.webflow_item_id || null,
+        error: getErrorMessage(error),
+      });
+    }
+  }
+
+  await publishItems(collection, toPublish);
+
+  // An empty record list is more likely a failed fetch than an empty table: archive nothing
+  if (records.length === 0) return;
+
+  for (const item of items) {
+    if (item.isArchived || linkedItemIds.has(item.id)) continue;
+    try {
+      await archiveItem(collection, item.id);
+      ctx.results.push({ collection, record_id: "", action: "archive", webflow_item_id: item.id });
+    } catch (error: unknown) {
+      console.error(`[Webflow] Failed to archive ${collection} item ${item.id}:`, getErrorMessage(error));
+      ctx.results.push({ collection, record_id: "", action: "skipped", webflow_item_id: item.id, error: getErrorMessage(error) });
+    }
+  }
+}
+
+async function syncLookupCollections(ctx: SyncContext): Promise<void> {
+  for (const type of LOOKUP_TYPES) {
+    const records = getLookupRecords(ctx, type);
+    for (const record of records) {
+      try {
+        await ensureLookupSeo(type, record);
+      } catch (error: unknown) {
+        // The item is synced without SEO texts; they are generated again next run
+        console.error(`[Webflow] Failed to store SEO texts of ${type} record ${record.id}:`, getErrorMessage(error));
+      }
+    }
+
+    await syncCatalogCollection(ctx, type, records, {
+      getName: (record) => record.name,
+      toFieldData: (record) => ({ ...mapLookupToWebflow(record), ...(record.slug && { slug: record.slug }) }),
+      getSlug: (record) => getLookupSlug(record, records),
+      saveItem: async (record, item) => {
+        const slug = item.fieldData.slug || null;
+        if (record.webflow_item_id === item.id && record.slug === slug) return;
+        await repositories.lookups.setWebflowFields(type, record.id, { webflow_item_id: item.id, slug });
+        Object.assign(record, { webflow_item_id: item.id, slug });
+      },
+    });
+  }
+}
+
+async function syncFeatures(ctx: SyncContext): Promise<FeatureRecord[]> {
+  const [features, fields] = await Promise.all([
+    repositories.products.getAllActiveFeatures(),
+    getWebflowCollectionFields("features"),
+  ]);
+
+  await syncCatalogCollection(ctx, "features", features, {
+    getName: (feature) => feature.display_name,
+    toFieldData: (feature) => mapFeatureToWebflow(feature, getOptionId(fields, "categorie", feature.package_category)),
+    saveItem: async (feature, item) => {
+      if (feature.webflow_item_id === item.id) return;
+      await repositories.products.setFeatureWebflowItemId(feature.id, item.id);
+      feature.webflow_item_id = item.id;
+    },
+  });
+  return features;
+}
+
+async function syncProducts(ctx: SyncContext, features: FeatureRecord[]): Promise<void> {
+  const [packages, bundles, fields] = await Promise.all([
+    repositories.products.getActiveByType("vacancy_package"),
+    repositories.products.getActiveByType("credit_bundle"),
+    getWebflowCollectionFields("products"),
+  ]);
+  const featureItemIds = new Map(
+    features.filter((f) => f.webflow_item_id).map((f) => [f.id, f.webflow_item_id as string])
+  );
+
+  await syncCatalogCollection(ctx, "products", [...packages, ...bundles], {
+    getName: (product) => product.display_name,
+    toFieldData: (product: ProductRecord) =>
+      mapProductToWebflow(
+        product,
+        getOptionId(fields, "type", getProductTypeOption(product.type)),
+        (product.features || [])
+          .map((id) => featureItemIds.get(id))
+          .filter((id): id is string => !!id)
+      ),
+    saveItem: async (product, item) => {
+      if (product.webflow_item_id === item.id) return;
+      await repositories.products.setWebflowItemId(product.id, item.id);
+      product.webflow_item_id = item.id;
+    },
+  });
+}
+
+// ============================================
+// EMPLOYERS & FAQ
+// ============================================
+
+/**
+ * Create or update the employer's FAQ items
+ * Returns their Webflow item IDs in the employer's FAQ order
+ */
+async function syncEmployerFAQs(ctx: SyncContext, employer: EmployerRecord): Promise<string[]> {
+  const faqs = await repositories.faq.getByEmployerId(employer.id);
+  const order = employer.faq || [];
+  const sorted: FAQRecord[] = order.length > 0
+    ? order.map((id) => faqs.find((faq) => faq.id === id)).filter((faq): faq is FAQRecord => !!faq)
+    : faqs;
+
+  const itemIds: string[] = [];
+  for (const faq of sorted) {
+    const { item, action } = await upsertItem("faq", faq.webflow_item_id, mapFAQToWebflow(faq), {
+      current: faq.slug,
+      assign: () => ensureFAQSlug(faq, employer),
+      fallbacks: () => getSlugCandidates(faq.question, getEmployerWebflowName(employer)),
+    });
+    const slug = item.fieldData.slug || null;
+    if (item.id !== faq.webflow_item_id || slug !== faq.slug) {
+      await repositories.faq.update(faq.id, { webflow_item_id: item.id, slug });
+    }
+    itemIds.push(item.id);
+    ctx.results.push({ collection: "faq", record_id: faq.id, action, webflow_item_id: item.id });
+  }
+
+  await publishItems("faq", itemIds);
+  return itemIds;
+}
+
+/**
+ * Create or update the employer item (FAQs and sector first) and publish it
+ * Clears the employer's needs_webflow_sync flag
+ */
+async function syncEmployer(ctx: SyncContext, employer: EmployerRecord): Promise<string> {
+  const sectorItemId = await ensureLookupItem(ctx, employer.sector?.[0]);
+  const faqItemIds = await syncEmployerFAQs(ctx, employer);
+  const mediaAssets = await getMediaAssetMap([
+    ...(employer.logo || []),
+    ...(employer.header_image || []),
+    ...(employer.gallery || []),
+  ]);
+  const seo = await ensureEmployerSeo(employer);
+
+  const { item, action } = await upsertItem(
+    "employers",
+    employer.webflow_item_id,
+    mapEmployerToWebflow({ ...employer, ...seo }, { sectorItemId, faqItemIds, mediaAssets }),
+    {
+      current: employer.slug,
+      assign: () => ensureEmployerSlug(employer),
+      fallbacks: () => getSlugCandidates(getEmployerWebflowName(employer), employer.location),
+    }
+  );
+  await publishItems("employers", [item.id]);
+
+  const updated = await repositories.employers.update(employer.id, {
+    webflow_item_id: item.id,
+    slug: item.fieldData.slug || employer.slug || null,
+    needs_webflow_sync: false,
+  });
+  ctx.employers.set(employer.id, updated);
+  ctx.results.push({ collection: "employers", record_id: employer.id, action, webflow_item_id: item.id });
+  return item.id;
+}
+
+/**
+ * The employer and its Webflow item ID, syncing the employer first if it has no item yet
+ */
+async function ensureEmployerItem(
+  ctx: SyncContext,
+  employerId: string | null | undefined
+): Promise<{ employer: EmployerRecord | null; itemId: string | null }> {
+  if (!employerId) return { employer: null, itemId: null };
+
+  let employer = ctx.employers.get(employerId) || null;
+  if (!employer) {
+    employer = await repositories.employers.getById(employerId);
+    if (!employer) return { employer: null, itemId: null };
+    ctx.employers.set(employerId, employer);
+  }
+
+  const itemId = employer.webflow_item_id || await syncEmployer(ctx, employer);
+  return { employer: ctx.employers.get(employerId) || employer, itemId };
+}
+
+// ============================================
+// VACANCIES
+// ============================================
+
+/**
+ * Published: create or update the item and publish it, store webflow_item_id and public_url
+ * Any other status: archive the item
+ * Clears needs_webflow_sync and needs_webflow_archive, logs vacancy_webflow_synced
+ */
+async function syncVacancy(ctx: SyncContext, vacancy: VacancyRecord): Promise<WebflowSyncItemResult> {
+  if (vacancy.status !== "gepubliceerd") {
+    const archived = vacancy.webflow_item_id ? await archiveItem("vacancies", vacancy.webflow_item_id) : false;
+    await repositories.vacancies.update(vacancy.id, { needs_webflow_sync: false, needs_webflow_archive: false });
+
+    if (archived) {
+      await logEvent({
+        event_type: "vacancy_webflow_synced",
+        employer_id: vacancy.employer_id || null,
+        vacancy_id: vacancy.id,
+        source: "system",
+        payload: { action: "archive", webflow_item_id: vacancy.webflow_item_id },
+      });
+    }
+    return {
+      collection: "vacancies",
+      record_id: vacancy.id,
+      action: archived ? "archive" : "skipped",
+      webflow_item_id: vacancy.webflow_item_id || null,
+    };
+  }
+
+  const { employer, itemId: employerItemId } = await ensureEmployerItem(ctx, vacancy.employer_id);
+  const [educationLevelItemId, fieldItemId, functionTypeItemId, regionItemId, sectorItemId] = await Promise.all([
+    ensureLookupItem(ctx, vacancy.education_level_id),
+    ensureLookupItem(ctx, vacancy.field_id),
+    ensureLookupItem(ctx, vacancy.function_type_id),
+    ensureLookupItem(ctx, vacancy.region_id),
+    ensureLookupItem(ctx, vacancy.sector_id),
+  ]);
+  const mediaAssets = await getMediaAssetMap([vacancy.header_image, vacancy.contact_photo_id, ...(vacancy.gallery || [])]);
+  const seo = await ensureVacancySeo(vacancy, employer);
+
+  const { item, action } = await upsertItem(
+    "vacancies",
+    vacancy.webflow_item_id,
+    mapVacancyToWebflow({ ...vacancy, ...seo }, {
+      employer,
+      employerItemId,
+      educationLevelItemId,
+      fieldItemId,
+      functionTypeItemId,
+      regionItemId,
+      sectorItemId,
+      mediaAssets,
+    }),
+    {
+      current: vacancy.slug,
+      assign: () => ensureVacancySlug(vacancy, employer),
+      fallbacks: () => getSlugCandidates(vacancy.title || "", employer ? getEmployerWebflowName(employer) : null),
+    }
+  );
+  await publishItems("vacancies", [item.id]);
+
+  const slug = item.fieldData.slug || vacancy.slug || null;
+  await repositories.vacancies.update(vacancy.id, {
+    webflow_item_id: item.id,
+    slug,
+    public_url: slug ? getVacancyPublicUrl(slug) : vacancy.public_url || null,
+    needs_webflow_sync: false,
+    needs_webflow_archive: false,
+  });
+
+  await logEvent({
+    event_type: "vacancy_webflow_synced",
+    employer_id: vacancy.employer_id || null,
+    vacancy_id: vacancy.id,
+    source: "system",
+    payload: { action, webflow_item_id: item.id },
+  });
+
+  return { collection: "vacancies", record_id: vacancy.id, action, webflow_item_id: item.id };
+}
+
+// ============================================
+// ENTRY POINTS
+// ============================================
+
+/**
+ * Sync lookups, features and products (in that order: products reference features)
+ */
+export async function syncWebflowCatalog(): Promise<WebflowSyncReport> {
+  const ctx = await createSyncContext();
+  await syncLookupCollections(ctx);
+  const features = await syncFeatures(ctx);
+  await syncProducts(ctx, features);
+  return buildReport(ctx.results);
+}
+
+/**
+ * Sync flagged employers (active only) and flagged vacancies
+ * @param limit Max employers and max vacancies per run
+ */
+export async function syncPendingWebflowItems(
+  options: { limit?: number } = {}
+): Promise<WebflowSyncReport> {
+  const limit = options.limit ?? MAX_PENDING_ITEMS_PER_RUN;
+  const ctx = await createSyncContext();
+
+  const employers = (await repositories.employers.getNeedingWebflowSync())
+    .filter((employer) => employer.status === "active")
+    .slice(0, limit);
+  for (const employer of employers) {
+    if (ctx.employers.get(employer.id)?.needs_webflow_sync === false) continue; // Synced as a dependency
+    try {
+      ctx.employers.set(employer.id, employer);
+      await syncEmployer(ctx, employer);
+    } catch (error: unknown) {
+      console.error(`[Webflow] Failed to sync employer ${employer.id}:`, getErrorMessage(error));
+      ctx.results.push({
+        collection: "employers",
+        record_id: employer.id,
+        action: "skipped",
+        webflow_item_id: employer.webflow_item_id || null,
+        error: getErrorMessage(error),
+      });
+    }
+  }
+
+  const vacancies = (await repositories.vacancies.getNeedingWebflowSync()).slice(0, limit);
+  for (const vacancy of vacancies) {
+    ctx.results.push(await syncVacancySafely(ctx, vacancy));
+  }
+
+  return buildReport(ctx.results);
+}
+
+/**
+ * Sync one vacancy right away (e.g. after a manual sync request)
+ * Returns null when the vacancy doesn't exist
+ */
+export async function syncVacancyToWebflow(vacancyId: string): Promise<WebflowSyncItemResult | null> {
+  const vacancy = await repositories.vacancies.getById(vacancyId);
+  if (!vacancy) return null;
+  const ctx = await createSyncContext();
+  return syncVacancySafely(ctx, vacancy);
+}
+
+async function syncVacancySafely(ctx: SyncContext, vacancy: VacancyRecord): Promise<WebflowSyncItemResult> {
+  try {
+    return await syncVacancy(ctx, vacancy);
+  } catch (error: unknown) {
+    console.error(`[Webflow] Failed to sync vacancy ${vacancy.id}:`, getErrorMessage(error));
+    return {
+      collection: "vacancies",
+      record_id: vacancy.id,
+      action: "skipped",
+      webflow_item_id: vacancy.webflow_item_id || null,
+      error: getErrorMessage(error),
+    };
+  }
+}
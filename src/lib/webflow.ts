@@ -0,0 +1,240 @@
+// Webflow Data API v2 (CMS items)
+// Documentation: https://developers.webflow.com/data/reference/cms/collection-items
+//
+// WEBFLOW_API_BASE_URL points the client at another server, e.g. a local fake
+// Webflow API in development and tests (default https://api.webflow.com/v2)
+
+import { hasStatusCode } from "@/lib/utils";
+
+/** Webflow site of colourfuljobs.nl */
+export const WEBFLOW_SITE_ID = "69845709ef5e7bf2a18e422c";
+
+/** CMS collections the app syncs to (see prd-n8n-webflow-sync.md) */
+export const WEBFLOW_COLLECTIONS = {
+  vacancies: "698f2d230f76d5421abc1c25",
+  employers: "698f2cf671770f147a7aca51",
+  fields: "698f296387bf2d0fb84575ee",
+  regions: "698f2b725f21acace3a9cb12",
+  functionTypes: "698f2bea668f9bd10bfcd8ad",
+  educationLevels: "698f2c4de7de3d57f704ecb4",
+  sectors: "698f2c4ee7de3d57f704ed14",
+  faq: "698f2d8df5e04afffc19b4ea",
+  products: "698f2eeadbfebea38d2ec41f",
+  features: "698f2eeaf2a6e8d393b05a8e",
+} as const;
+
+export type WebflowCollection = keyof typeof WEBFLOW_COLLECTIONS;
+
+/** Values of a CMS item, keyed by Webflow field slug */
+export type WebflowFieldData = Record<string, unknown>;
+
+export interface WebflowItem {
+  id: string;
+  isArchived: boolean;
+  isDraft: boolean;
+  lastPublished?: string | null;
+  lastUpdated?: string;
+  createdOn?: string;
+  fieldData: WebflowFieldData & { name?: string; slug?: string };
+}
+
+export interface WebflowCollectionField {
+  id: string;
+  slug: string;
+  displayName: string;
+  type: string;
+  /** Option fields: the choices; fieldData holds the option ID, not the name */
+  validations?: { options?: { id: string; name: string }[] } | null;
+}
+
+interface WebflowItemsResponse {
+  items: WebflowItem[];
+  pagination: { limit: number; offset: number; total: number };
+}
+
+// Rate limit (429): retry after 1s, 2s and 4s
+const MAX_RETRIES = 3;
+const RETRY_BASE_DELAY_MS = 1000;
+const PAGE_SIZE = 100;
+
+function getBaseUrl(): string {
+  return (process.env.WEBFLOW_API_BASE_URL || "https://api.webflow.com/v2").replace(/\/+$/, "");
+}
+
+/**
+ * Get the Webflow API token from environment
+ */
+function getApiToken(): string {
+  const token = process.env.WEBFLOW_API_TOKEN;
+  if (!token) {
+    throw new Error("WEBFLOW_API_TOKEN is not configured");
+  }
+  return token;
+}
+
+/**
+ * Whether the Webflow sync can run (token configured)
+ */
+export function isWebflowConfigured(): boolean {
+  return !!process.env.WEBFLOW_API_TOKEN;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Call the Webflow API; errors are thrown with the HTTP status as statusCode
+ */
+async function webflowRequest<T>(
+  method: "GET" | "POST" | "PATCH" | "DELETE",
+  path: string,
+  body?: unknown
+): Promise<T> {
+  const token = getApiToken();
+
+  for (let attempt = 0; ; attempt++) {
+    const response = await fetch(`${getBaseUrl()}${path}`, {
+      method,
+      headers: {
+        Authorization: `Bearer ${token}`,
+        accept: "application/json",
+        ...(body !== undefined && { "Content-Type": "application/json" }),
+      },
+      ...(body !== undefined && { body: JSON.stringify(body) }),
+    });
+
+    if (response.status === 429 && attempt < MAX_RETRIES) {
+      await sleep(RETRY_BASE_DELAY_MS * 2 ** attempt);
+      continue;
+    }
+
+    if (!response.ok) {
+      const text = await response.text().catch(() => "");
+      let message = response.statusText;
+      try {
+        const data = JSON.parse(text);
+        message = [data.message, ...(Array.isArray(data.details) ? data.details.map(String) : [])]
+          .filter(Boolean)
+          .join(": ") || message;
+      } catch {
+        if (text) message = text;
+      }
+      throw Object.assign(new Error(`Webflow API error ${response.status}: ${message}`), {
+        statusCode: response.status,
+      });
+    }
+
+    if (response.status === 204) {
+      return undefined as T;
+    }
+    return (await response.json()) as T;
+  }
+}
+
+// ============================================
+// COLLECTIONS
+// ============================================
+
+/**
+ * Field definitions of a collection
+ */
+export async function getWebflowCollectionFields(collection: WebflowCollection): Promise<WebflowCollectionField[]> {
+  const data = await webflowRequest<{ fields?: WebflowCollectionField[] }>(
+    "GET",
+    `/collections/${WEBFLOW_COLLECTIONS[collection]}`
+  );
+  return data.fields || [];
+}
+
+// ============================================
+// COLLECTION ITEMS
+// ============================================
+
+/**
+ * All items of a collection, including archived and draft items
+ */
+export async function listWebflowItems(collection: WebflowCollection): Promise<WebflowItem[]> {
+  const items: WebflowItem[] = [];
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const page = await webflowRequest<WebflowItemsResponse>(
+      "GET",
+      `/collections/${WEBFLOW_COLLECTIONS[collection]}/items?limit=${PAGE_SIZE}&offset=${offset}`
+    );
+    items.push(...page.items);
+    if (page.items.length < PAGE_SIZE || items.length >= page.pagination.total) {
+      return items;
+    }
+  }
+}
+
+/**
+ * Create a staged item (not live until published)
+ */
+export async function createWebflowItem(
+  collection: WebflowCollection,
+  fieldData: WebflowFieldData
+): Promise<WebflowItem> {
+  return webflowRequest<WebflowItem>("POST", `/collections/${WEBFLOW_COLLECTIONS[collection]}/items`, {
+    isArchived: false,
+    isDraft: false,
+    fieldData,
+  });
+}
+
+/**
+ * Update a staged item; only the given fields change
+ */
+export async function updateWebflowItem(
+  collection: WebflowCollection,
+  itemId: string,
+  update: { fieldData?: WebflowFieldData; isArchived?: boolean }
+): Promise<WebflowItem> {
+  return webflowRequest<WebflowItem>(
+    "PATCH",
+    `/collections/${WEBFLOW_COLLECTIONS[collection]}/items/${itemId}`,
+    { isDraft: false, ...update }
+  );
+}
+
+/**
+ * Publish staged items to the live site
+ */
+export async function publishWebflowItems(collection: WebflowCollection, itemIds: string[]): Promise<void> {
+  if (itemIds.length === 0) return;
+  await webflowRequest<unknown>("POST", `/collections/${WEBFLOW_COLLECTIONS[collection]}/items/publish`, {
+    itemIds,
+  });
+}
+
+/**
+ * Take an item off the live site; the staged item stays
+ * An item that isn't live (404) is left alone
+ */
+export async function unpublishWebflowItem(collection: WebflowCollection, itemId: string): Promise<void> {
+  try {
+    await webflowRequest<unknown>("DELETE", `/collections/${WEBFLOW_COLLECTIONS[collection]}/items/${itemId}/live`);
+  } catch (error: unknown) {
+    if (isWebflowNotFound(error)) return;
+    throw error;
+  }
+}
+
+/**
+ * Whether a Webflow API error means the item doesn't exist (anymore)
+ */
+export function isWebflowNotFound(error: unknown): boolean {
+  return hasStatusCode(error) && error.statusCode === 404;
+}
+
+/**
+ * Whether a Webflow API error is a duplicate slug in the collection
+ */
+export function isWebflowSlugConflict(error: unknown): boolean {
+  return (
+    hasStatusCode(error) &&
+    (error.statusCode === 409 || error.statusCode === 400) &&
+    error instanceof Error &&
+    /slug|unique/i.test(error.message)
+  );
+}